@@ -8,7 +8,7 @@
 import { NestFactory } from '@nestjs/core';
 // 使用我们的企业级Fastify适配器替代官方适配器
 // import { FastifyAdapter } from '@nestjs/platform-fastify';
-import { Module, Controller, Get } from '@nestjs/common';
+import { Module, Controller, Get, ValidationPipe } from '@nestjs/common';
 import { ApiTags, ApiOperation } from '@nestjs/swagger';
 import { SwaggerModule, DocumentBuilder } from '@nestjs/swagger';
 
@@ -27,6 +27,8 @@ import {
   SimpleMessagingService,
   SimpleBullQueueAdapter,
 } from '@aiofix/messaging';
+// 租户管理API
+import { TenantAdminModule } from './tenants/tenant-admin.module';
 
 /**
  * 演示控制器
@@ -308,6 +310,7 @@ class DemoController {
  * 演示应用模块
  */
 @Module({
+  imports: [TenantAdminModule],
   controllers: [DemoController],
 })
 class DemoAppModule {}
@@ -338,12 +341,23 @@ async function bootstrap(): Promise<void> {
     // 设置API前缀
     app.setGlobalPrefix('api/v1');
 
+    // 校验请求参数并转换为DTO实例
+    app.useGlobalPipes(
+      new ValidationPipe({
+        whitelist: true,
+        forbidNonWhitelisted: true,
+        transform: true,
+      }),
+    );
+
     // 配置Swagger文档
     const swaggerConfig = new DocumentBuilder()
       .setTitle('Aiofix SaaS Platform Demo API')
       .setDescription('展示Core模块和Messaging模块集成的演示API')
       .setVersion('1.0.0')
       .addTag('demo', '功能演示')
+      .addTag('tenants', '租户管理（平台管理员）')
+      .addBearerAuth()
       .build();
 
     const document = SwaggerModule.createDocument(app, swaggerConfig);
@@ -377,6 +391,8 @@ async function bootstrap(): Promise<void> {
       `⚡ Fastify集成演示: http://localhost:${port}/api/v1/demo/fastify-demo`,
     );
     // eslint-disable-next-line no-console
+    console.log(`🏷️ 租户管理: http://localhost:${port}/api/v1/admin/tenants`);
+    // eslint-disable-next-line no-console
     console.log(
       `🔧 适配器状态: http://localhost:${port}/api/v1/demo/adapter-status`,
     );
@@ -0,0 +1,191 @@
+/**
+ * 平台管理员守卫测试
+ *
+ * @description 测试令牌缺失、无效、角色不足和未配置令牌校验时的响应，以及按认证配置创建验证器
+ * @since 1.0.0
+ */
+
+import { createHmac } from 'crypto';
+import {
+  ForbiddenException,
+  ServiceUnavailableException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import type { ExecutionContext } from '@nestjs/common';
+import {
+  TenantTokenVerificationError,
+  TenantTokenVerifier,
+} from '@aiofix/core';
+import {
+  createPlatformTokenVerifier,
+  PLATFORM_ADMIN_ROLE,
+  PlatformAdminGuard,
+} from './platform-admin.guard';
+
+const SECRET = 'a-very-long-secret-for-hs256-signing!';
+
+// 签发HS256令牌
+const sign = (payload: Record<string, unknown>, secret = SECRET): string => {
+  const encode = (value: unknown): string =>
+    Buffer.from(JSON.stringify(value)).toString('base64url');
+  const input = `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode(payload)}`;
+  return `${input}.${createHmac('sha256', secret).update(input).digest('base64url')}`;
+};
+
+// 签发带角色的有效令牌
+const tokenWithRoles = (roles: string[]): string =>
+  sign({
+    sub: 'admin-1',
+    tenantId: 'platform',
+    roles,
+    exp: Math.floor(Date.now() / 1000) + 600,
+  });
+
+// 创建执行上下文
+const createContext = (
+  headers: Record<string, string> = {},
+): { context: ExecutionContext; request: Record<string, unknown> } => {
+  const request: Record<string, unknown> = { headers };
+  const context = {
+    switchToHttp: () => ({ getRequest: () => request }),
+  } as unknown as ExecutionContext;
+  return { context, request };
+};
+
+// 断言守卫拒绝请求的异常和状态码
+const expectRejection = (
+  guard: PlatformAdminGuard,
+  headers: Record<string, string>,
+  type: new (...args: never[]) => Error,
+  status: number,
+): void => {
+  try {
+    guard.canActivate(createContext(headers).context);
+  } catch (error) {
+    expect(error).toBeInstanceOf(type);
+    expect((error as UnauthorizedException).getStatus()).toBe(status);
+    return;
+  }
+  throw new Error('期望守卫拒绝请求');
+};
+
+describe('PlatformAdminGuard', () => {
+  const guard = new PlatformAdminGuard(
+    new TenantTokenVerifier({ secret: SECRET }),
+  );
+
+  it('缺少令牌时应该返回401', () => {
+    expectRejection(guard, {}, UnauthorizedException, 401);
+    expectRejection(
+      guard,
+      { authorization: 'Basic abc' },
+      UnauthorizedException,
+      401,
+    );
+  });
+
+  it('令牌无效或过期时应该返回401', () => {
+    const forged = sign(
+      { sub: 'x', tenantId: 'platform', roles: [PLATFORM_ADMIN_ROLE] },
+      'another-secret-another-secret-!!',
+    );
+    const expired = sign({
+      sub: 'x',
+      tenantId: 'platform',
+      roles: [PLATFORM_ADMIN_ROLE],
+      exp: Math.floor(Date.now() / 1000) - 60,
+    });
+
+    expectRejection(
+      guard,
+      { authorization: `Bearer ${forged}` },
+      UnauthorizedException,
+      401,
+    );
+    expectRejection(
+      guard,
+      { authorization: `Bearer ${expired}` },
+      UnauthorizedException,
+      401,
+    );
+  });
+
+  it('令牌没有平台管理员角色时应该返回403', () => {
+    expectRejection(
+      guard,
+      { authorization: `Bearer ${tokenWithRoles(['tenant_admin'])}` },
+      ForbiddenException,
+      403,
+    );
+  });
+
+  it('平台管理员令牌应该通过并把声明挂到请求上', () => {
+    const { context, request } = createContext({
+      authorization: `Bearer ${tokenWithRoles([PLATFORM_ADMIN_ROLE])}`,
+    });
+
+    expect(guard.canActivate(context)).toBe(true);
+    expect(request.platformAdmin).toMatchObject({
+      userId: 'admin-1',
+      roles: [PLATFORM_ADMIN_ROLE],
+    });
+  });
+
+  it('未配置令牌校验时应该返回503', () => {
+    expectRejection(
+      new PlatformAdminGuard(null),
+      { authorization: `Bearer ${tokenWithRoles([PLATFORM_ADMIN_ROLE])}` },
+      ServiceUnavailableException,
+      503,
+    );
+  });
+});
+
+describe('createPlatformTokenVerifier', () => {
+  const logger = { error: jest.fn() };
+
+  beforeEach(() => {
+    logger.error.mockReset();
+  });
+
+  it('应该使用认证配置中的密钥和签发者', () => {
+    const verifier = createPlatformTokenVerifier(
+      { secret: SECRET, issuer: 'aiofix-saas', algorithms: ['HS256'] },
+      logger,
+    );
+    const tokenFrom = (iss: string): string =>
+      sign({
+        tenantId: 'platform',
+        iss,
+        exp: Math.floor(Date.now() / 1000) + 600,
+      });
+
+    expect(verifier?.verify(tokenFrom('aiofix-saas')).issuer).toBe(
+      'aiofix-saas',
+    );
+    expect(() => verifier?.verify(tokenFrom('other'))).toThrow(
+      TenantTokenVerificationError,
+    );
+    expect(logger.error).not.toHaveBeenCalled();
+  });
+
+  it('环境变量中的单个算法应该按算法列表处理', () => {
+    const verifier = createPlatformTokenVerifier(
+      { algorithms: 'RS256' as never },
+      logger,
+    );
+
+    expect(verifier).toBeNull();
+    expect(logger.error).toHaveBeenCalledWith(
+      expect.stringContaining('jwt.jwks'),
+    );
+  });
+
+  it('缺少密钥或仍是默认密钥时不应该创建验证器', () => {
+    expect(createPlatformTokenVerifier(undefined, logger)).toBeNull();
+    expect(
+      createPlatformTokenVerifier({ secret: 'default-jwt-secret' }, logger),
+    ).toBeNull();
+    expect(logger.error).toHaveBeenCalledTimes(2);
+  });
+});
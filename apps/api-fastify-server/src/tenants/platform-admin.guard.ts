@@ -0,0 +1,144 @@
+/**
+ * 平台管理员守卫
+ *
+ * @description 租户管理API只允许平台管理员调用
+ *
+ * ## 业务规则
+ *
+ * - 未配置令牌校验时所有请求返回503，服务照常启动
+ * - 请求必须携带 Authorization: Bearer 令牌，缺少时返回401
+ * - 令牌由 TenantTokenVerifier 校验签名、有效期、签发者和受众，校验失败返回401
+ * - 令牌角色中必须包含 platform_admin，否则返回403
+ * - 校验通过的声明挂到请求上，控制器通过 @PlatformAdmin() 获取
+ *
+ * ## 技术规则
+ *
+ * - 令牌校验配置取自 @aiofix/config 的 auth.jwt，支持 algorithms、jwks 和 clockToleranceSeconds
+ * - 启用HS256但没有配置密钥（或仍是默认密钥），或配置无法创建验证器时，
+ *   记录错误并不创建验证器
+ *
+ * @since 1.0.0
+ */
+
+import {
+  createParamDecorator,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  Logger,
+  ServiceUnavailableException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import type { CanActivate, ExecutionContext } from '@nestjs/common';
+import type { IAuthModuleConfig, JwtAlgorithm } from '@aiofix/config';
+import {
+  TenantTokenVerificationError,
+  TenantTokenVerifier,
+} from '@aiofix/core';
+import type { IVerifiedTokenClaims } from '@aiofix/core';
+
+/**
+ * 平台管理员角色
+ */
+export const PLATFORM_ADMIN_ROLE = 'platform_admin';
+
+/**
+ * 平台管理员令牌验证器的注入令牌，未配置令牌校验时注入 null
+ */
+export const PLATFORM_TOKEN_VERIFIER = 'PLATFORM_TOKEN_VERIFIER';
+
+/**
+ * 配置模块中未修改的默认JWT密钥
+ */
+const DEFAULT_JWT_SECRET = 'default-jwt-secret';
+
+/**
+ * 带平台管理员声明的请求
+ */
+interface IPlatformAdminRequest {
+  headers: Record<string, string | string[] | undefined>;
+  platformAdmin?: IVerifiedTokenClaims;
+}
+
+/**
+ * 平台管理员守卫
+ */
+@Injectable()
+export class PlatformAdminGuard implements CanActivate {
+  constructor(
+    @Inject(PLATFORM_TOKEN_VERIFIER)
+    private readonly tokenVerifier: TenantTokenVerifier | null,
+  ) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    if (!this.tokenVerifier) {
+      throw new ServiceUnavailableException('服务未配置访问令牌校验');
+    }
+
+    const request = context.switchToHttp().getRequest<IPlatformAdminRequest>();
+    const token = TenantTokenVerifier.extractBearerToken(
+      request.headers.authorization,
+    );
+    if (!token) {
+      throw new UnauthorizedException('缺少访问令牌');
+    }
+
+    let claims: IVerifiedTokenClaims;
+    try {
+      claims = this.tokenVerifier.verify(token);
+    } catch (error) {
+      if (error instanceof TenantTokenVerificationError) {
+        throw new UnauthorizedException(error.message);
+      }
+      throw error;
+    }
+
+    if (!claims.roles.includes(PLATFORM_ADMIN_ROLE)) {
+      throw new ForbiddenException('需要平台管理员权限');
+    }
+
+    request.platformAdmin = claims;
+    return true;
+  }
+}
+
+/**
+ * 按认证配置创建平台管理员令牌验证器
+ *
+ * @param jwt 认证模块的JWT配置
+ * @param logger 日志，无法创建验证器时记录原因
+ * @returns 令牌验证器，配置不完整时返回 null
+ */
+export function createPlatformTokenVerifier(
+  jwt: Partial<IAuthModuleConfig['jwt']> | undefined,
+  logger: Pick<Logger, 'error'> = new Logger(PlatformAdminGuard.name),
+): TenantTokenVerifier | null {
+  // 环境变量只有一个算法时读出的是字符串
+  const algorithms = jwt?.algorithms as
+    | JwtAlgorithm[]
+    | JwtAlgorithm
+    | undefined;
+  const config = {
+    ...jwt,
+    secret: jwt?.secret === DEFAULT_JWT_SECRET ? undefined : jwt?.secret,
+    algorithms: typeof algorithms === 'string' ? [algorithms] : algorithms,
+  };
+
+  try {
+    return new TenantTokenVerifier(config);
+  } catch (error) {
+    logger.error(
+      `租户管理API的令牌校验未启用: ${error instanceof Error ? error.message : String(error)}`,
+    );
+    return null;
+  }
+}
+
+/**
+ * 获取当前平台管理员的令牌声明
+ */
+export const PlatformAdmin = createParamDecorator(
+  (_data: unknown, context: ExecutionContext): IVerifiedTokenClaims =>
+    context.switchToHttp().getRequest<IPlatformAdminRequest>()
+      .platformAdmin as IVerifiedTokenClaims,
+);
@@ -0,0 +1,143 @@
+/**
+ * 租户管理控制器测试
+ *
+ * @description 使用内存仓储测试租户管理用例、HTTP错误映射和操作者记录
+ * @since 1.0.0
+ */
+
+import { randomUUID } from 'crypto';
+import {
+  BadRequestException,
+  ConflictException,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import type { IVerifiedTokenClaims } from '@aiofix/core';
+import {
+  InMemoryTenantRepository,
+  IsolationStrategy,
+  TenantService,
+  TenantStatus,
+  TenantType,
+} from '@aiofix/tenant';
+import { TenantAdminController } from './tenant-admin.controller';
+import { CreateTenantDto, QueryTenantsDto } from './tenant-admin.dto';
+
+// 平台管理员声明
+const admin = {
+  tenantId: 'platform',
+  userId: 'admin-1',
+  roles: ['platform_admin'],
+} as unknown as IVerifiedTokenClaims;
+
+// 创建租户请求
+const createDto = (code: string): CreateTenantDto =>
+  Object.assign(new CreateTenantDto(), {
+    code,
+    name: code,
+    domain: `${code}.example.com`,
+    type: TenantType.BASIC,
+    isolationStrategy: IsolationStrategy.ROW_LEVEL_SECURITY,
+  });
+
+describe('TenantAdminController', () => {
+  let repository: InMemoryTenantRepository;
+  let service: TenantService;
+  let controller: TenantAdminController;
+
+  beforeEach(() => {
+    repository = new InMemoryTenantRepository();
+    service = new TenantService(repository);
+    controller = new TenantAdminController(service);
+    jest.spyOn(Logger.prototype, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('应该创建租户并记录令牌中的操作者', async () => {
+    const created = await controller.create(createDto('acme'), admin);
+
+    expect(created).toMatchObject({
+      code: 'acme',
+      status: TenantStatus.TRIAL,
+    });
+    const tenant = await repository.findByCode('acme');
+    expect(tenant?.auditInfo.createdBy).toBe('admin-1');
+  });
+
+  it('代码或域名已被使用时应该返回409', async () => {
+    await controller.create(createDto('acme'), admin);
+
+    await expect(
+      controller.create(createDto('acme'), admin),
+    ).rejects.toBeInstanceOf(ConflictException);
+    await expect(
+      controller.create(
+        Object.assign(createDto('other'), { domain: 'acme.example.com' }),
+        admin,
+      ),
+    ).rejects.toBeInstanceOf(ConflictException);
+  });
+
+  it('租户ID格式不正确返回400，不存在返回404', async () => {
+    await expect(controller.get('not-a-uuid')).rejects.toBeInstanceOf(
+      BadRequestException,
+    );
+    await expect(controller.get(randomUUID())).rejects.toBeInstanceOf(
+      NotFoundException,
+    );
+  });
+
+  it('领域规则拒绝的操作应该返回400', async () => {
+    const { id } = await controller.create(createDto('acme'), admin);
+    await controller.suspend(id, { reason: '欠费' }, admin);
+
+    const rejected = controller.update(
+      id,
+      { configuration: { maxUsers: 10 } },
+      admin,
+    );
+
+    await expect(rejected).rejects.toBeInstanceOf(BadRequestException);
+    await expect(rejected).rejects.toThrow('当前状态不允许更新操作');
+  });
+
+  it('非领域错误不应该转换为400', async () => {
+    const { id } = await controller.create(createDto('acme'), admin);
+    const failure = new Error('connection lost');
+    jest.spyOn(repository, 'update').mockRejectedValue(failure);
+
+    await expect(
+      controller.activate(id, { reason: '付费' }, admin),
+    ).rejects.toBe(failure);
+  });
+
+  it('应该激活租户并分页查询', async () => {
+    const { id } = await controller.create(createDto('acme'), admin);
+    await controller.create(createDto('globex'), admin);
+
+    const activated = await controller.activate(id, { reason: '付费' }, admin);
+    const page = await controller.list(
+      Object.assign(new QueryTenantsDto(), {
+        status: [TenantStatus.ACTIVE],
+      }),
+    );
+
+    expect(activated.status).toBe(TenantStatus.ACTIVE);
+    expect(page).toMatchObject({ total: 1, page: 1, hasNext: false });
+    expect(page.items.map((item) => item.code)).toEqual(['acme']);
+  });
+
+  it('批量操作应该返回请求数和成功数', async () => {
+    const { id } = await controller.create(createDto('acme'), admin);
+
+    await expect(
+      controller.batchSuspend(
+        { ids: [id, randomUUID()], reason: '欠费' },
+        admin,
+      ),
+    ).resolves.toEqual({ requested: 2, succeeded: 1 });
+  });
+});
@@ -0,0 +1,277 @@
+/**
+ * 租户管理控制器
+ *
+ * @description 平台管理员管理租户的HTTP API，封装 TenantService 的用例
+ *
+ * ## 业务规则
+ *
+ * - 所有接口需要平台管理员令牌，由 PlatformAdminGuard 校验
+ * - 租户ID格式不正确返回400，租户不存在返回404
+ * - 代码或域名已被使用时创建返回409
+ * - 租户领域规则拒绝的操作（BusinessError）返回400，其他错误不转换，按服务器错误返回500
+ * - 操作者取自令牌的用户声明
+ *
+ * @since 1.0.0
+ */
+
+import {
+  BadRequestException,
+  Body,
+  ConflictException,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  NotFoundException,
+  Param,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBadRequestResponse,
+  ApiBearerAuth,
+  ApiConflictResponse,
+  ApiCreatedResponse,
+  ApiForbiddenResponse,
+  ApiNotFoundResponse,
+  ApiOkResponse,
+  ApiOperation,
+  ApiTags,
+  ApiUnauthorizedResponse,
+} from '@nestjs/swagger';
+import { BusinessError, EntityId } from '@aiofix/core';
+import type { IVerifiedTokenClaims } from '@aiofix/core';
+import { TenantService } from '@aiofix/tenant';
+import type { Tenant } from '@aiofix/tenant';
+import { PlatformAdmin, PlatformAdminGuard } from './platform-admin.guard';
+import {
+  BatchTenantOperationResultDto,
+  BatchTenantStatusChangeDto,
+  CreateTenantDto,
+  QueryTenantsDto,
+  TenantAvailabilityDto,
+  TenantPageDto,
+  TenantResponseDto,
+  TenantStatisticsDto,
+  TenantStatusChangeDto,
+  UpdateTenantDto,
+} from './tenant-admin.dto';
+
+/**
+ * 租户管理控制器
+ */
+@ApiTags('tenants')
+@ApiBearerAuth()
+@ApiUnauthorizedResponse({ description: '缺少或无效的访问令牌' })
+@ApiForbiddenResponse({ description: '不是平台管理员' })
+@UseGuards(PlatformAdminGuard)
+@Controller('admin/tenants')
+export class TenantAdminController {
+  constructor(private readonly tenantService: TenantService) {}
+
+  @Post()
+  @ApiOperation({ summary: '创建租户' })
+  @ApiCreatedResponse({ type: TenantResponseDto })
+  @ApiConflictResponse({ description: '租户代码或域名已存在' })
+  async create(
+    @Body() dto: CreateTenantDto,
+    @PlatformAdmin() admin: IVerifiedTokenClaims,
+  ): Promise<TenantResponseDto> {
+    if (!(await this.tenantService.isCodeAvailable(dto.code))) {
+      throw new ConflictException(`租户代码 ${dto.code} 已存在`);
+    }
+    if (!(await this.tenantService.isDomainAvailable(dto.domain))) {
+      throw new ConflictException(`租户域名 ${dto.domain} 已存在`);
+    }
+
+    const tenant = await this.execute(() =>
+      this.tenantService.createTenant({
+        ...dto,
+        configuration: dto.configuration ? { ...dto.configuration } : undefined,
+        createdBy: this.actor(admin),
+      }),
+    );
+    return TenantResponseDto.fromEntity(tenant);
+  }
+
+  @Get()
+  @ApiOperation({ summary: '分页查询租户' })
+  @ApiOkResponse({ type: TenantPageDto })
+  async list(@Query() query: QueryTenantsDto): Promise<TenantPageDto> {
+    const result = await this.tenantService.queryTenants(
+      query.toQueryOptions(),
+    );
+    return TenantPageDto.fromResult(result);
+  }
+
+  @Get('statistics')
+  @ApiOperation({ summary: '租户统计' })
+  @ApiOkResponse({ type: TenantStatisticsDto })
+  statistics(): Promise<TenantStatisticsDto> {
+    return this.tenantService.getTenantStatistics();
+  }
+
+  @Get('availability/code/:code')
+  @ApiOperation({ summary: '检查租户代码是否可用' })
+  @ApiOkResponse({ type: TenantAvailabilityDto })
+  async codeAvailability(
+    @Param('code') code: string,
+  ): Promise<TenantAvailabilityDto> {
+    return { available: await this.tenantService.isCodeAvailable(code) };
+  }
+
+  @Get('availability/domain/:domain')
+  @ApiOperation({ summary: '检查租户域名是否可用' })
+  @ApiOkResponse({ type: TenantAvailabilityDto })
+  async domainAvailability(
+    @Param('domain') domain: string,
+  ): Promise<TenantAvailabilityDto> {
+    return { available: await this.tenantService.isDomainAvailable(domain) };
+  }
+
+  @Post('batch/activate')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: '批量激活租户' })
+  @ApiOkResponse({ type: BatchTenantOperationResultDto })
+  async batchActivate(
+    @Body() dto: BatchTenantStatusChangeDto,
+    @PlatformAdmin() admin: IVerifiedTokenClaims,
+  ): Promise<BatchTenantOperationResultDto> {
+    const succeeded = await this.tenantService.batchActivateTenants(
+      dto.ids.map((id) => EntityId.fromString(id)),
+      dto.reason,
+      this.actor(admin),
+    );
+    return { requested: dto.ids.length, succeeded };
+  }
+
+  @Post('batch/suspend')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: '批量暂停租户' })
+  @ApiOkResponse({ type: BatchTenantOperationResultDto })
+  async batchSuspend(
+    @Body() dto: BatchTenantStatusChangeDto,
+    @PlatformAdmin() admin: IVerifiedTokenClaims,
+  ): Promise<BatchTenantOperationResultDto> {
+    const succeeded = await this.tenantService.batchSuspendTenants(
+      dto.ids.map((id) => EntityId.fromString(id)),
+      dto.reason,
+      this.actor(admin),
+    );
+    return { requested: dto.ids.length, succeeded };
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: '获取租户' })
+  @ApiOkResponse({ type: TenantResponseDto })
+  @ApiNotFoundResponse({ description: '租户不存在' })
+  async get(@Param('id') id: string): Promise<TenantResponseDto> {
+    return TenantResponseDto.fromEntity(await this.findTenant(id));
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: '更新租户配置' })
+  @ApiOkResponse({ type: TenantResponseDto })
+  @ApiNotFoundResponse({ description: '租户不存在' })
+  @ApiBadRequestResponse({ description: '租户当前状态不允许更新' })
+  async update(
+    @Param('id') id: string,
+    @Body() dto: UpdateTenantDto,
+    @PlatformAdmin() admin: IVerifiedTokenClaims,
+  ): Promise<TenantResponseDto> {
+    const tenant = await this.findTenant(id);
+    const updated = await this.execute(() =>
+      this.tenantService.updateTenant({
+        id: tenant.id,
+        configuration: { ...dto.configuration },
+        updatedBy: this.actor(admin),
+      }),
+    );
+    return TenantResponseDto.fromEntity(updated);
+  }
+
+  @Post(':id/activate')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: '激活租户' })
+  @ApiOkResponse({ type: TenantResponseDto })
+  @ApiNotFoundResponse({ description: '租户不存在' })
+  @ApiBadRequestResponse({ description: '租户当前状态不允许激活' })
+  async activate(
+    @Param('id') id: string,
+    @Body() dto: TenantStatusChangeDto,
+    @PlatformAdmin() admin: IVerifiedTokenClaims,
+  ): Promise<TenantResponseDto> {
+    const tenant = await this.findTenant(id);
+    const activated = await this.execute(() =>
+      this.tenantService.activateTenant({
+        id: tenant.id,
+        reason: dto.reason,
+        activatedBy: this.actor(admin),
+      }),
+    );
+    return TenantResponseDto.fromEntity(activated);
+  }
+
+  @Post(':id/suspend')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: '暂停租户' })
+  @ApiOkResponse({ type: TenantResponseDto })
+  @ApiNotFoundResponse({ description: '租户不存在' })
+  @ApiBadRequestResponse({ description: '租户当前状态不允许暂停' })
+  async suspend(
+    @Param('id') id: string,
+    @Body() dto: TenantStatusChangeDto,
+    @PlatformAdmin() admin: IVerifiedTokenClaims,
+  ): Promise<TenantResponseDto> {
+    const tenant = await this.findTenant(id);
+    const suspended = await this.execute(() =>
+      this.tenantService.suspendTenant({
+        id: tenant.id,
+        reason: dto.reason,
+        suspendedBy: this.actor(admin),
+      }),
+    );
+    return TenantResponseDto.fromEntity(suspended);
+  }
+
+  // ==================== 私有方法 ====================
+
+  /**
+   * 查找租户，ID无效返回400，不存在返回404
+   */
+  private async findTenant(id: string): Promise<Tenant> {
+    if (!EntityId.isValid(id)) {
+      throw new BadRequestException(`租户ID ${id} 格式不正确`);
+    }
+    const tenant = await this.tenantService.getTenantById(
+      EntityId.fromString(id),
+    );
+    if (!tenant) {
+      throw new NotFoundException(`租户 ${id} 不存在`);
+    }
+    return tenant;
+  }
+
+  /**
+   * 执行租户用例，只把领域规则拒绝的操作转换为400
+   */
+  private async execute<T>(operation: () => Promise<T>): Promise<T> {
+    try {
+      return await operation();
+    } catch (error) {
+      if (error instanceof BusinessError) {
+        throw new BadRequestException(error.message);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 操作者标识
+   */
+  private actor(admin: IVerifiedTokenClaims): string {
+    return admin.userId ?? 'platform-admin';
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * 租户管理API请求对象测试
+ *
+ * @description 测试请求的 class-validator 校验规则和查询参数的转换
+ * @since 1.0.0
+ */
+
+import { randomUUID } from 'crypto';
+import { plainToInstance } from 'class-transformer';
+import { validateSync } from 'class-validator';
+import { IsolationStrategy, TenantStatus, TenantType } from '@aiofix/tenant';
+import {
+  BatchTenantStatusChangeDto,
+  CreateTenantDto,
+  QueryTenantsDto,
+  TenantStatusChangeDto,
+  UpdateTenantDto,
+} from './tenant-admin.dto';
+
+// 校验请求并返回未通过校验的属性路径
+const invalidProperties = <T extends object>(
+  type: new () => T,
+  plain: Record<string, unknown>,
+): string[] => {
+  const collect = (
+    errors: ReturnType<typeof validateSync>,
+    prefix = '',
+  ): string[] =>
+    errors.flatMap((error) =>
+      error.children?.length
+        ? collect(error.children, `${prefix}${error.property}.`)
+        : [`${prefix}${error.property}`],
+    );
+  return collect(validateSync(plainToInstance(type, plain)));
+};
+
+describe('CreateTenantDto', () => {
+  const valid = {
+    code: 'acme_01',
+    name: 'Acme Inc.',
+    domain: 'acme.example.com',
+    type: TenantType.BASIC,
+    isolationStrategy: IsolationStrategy.ROW_LEVEL_SECURITY,
+    configuration: { maxUsers: 10, enabledFeatures: ['reports'] },
+  };
+
+  it('合法的请求应该通过校验', () => {
+    expect(invalidProperties(CreateTenantDto, valid)).toEqual([]);
+  });
+
+  it('应该拒绝不合法的代码、枚举和嵌套配置', () => {
+    expect(
+      invalidProperties(CreateTenantDto, {
+        ...valid,
+        code: 'a!',
+        type: 'gold',
+        isolationStrategy: undefined,
+        configuration: { maxUsers: 0 },
+      }),
+    ).toEqual(['code', 'type', 'isolationStrategy', 'configuration.maxUsers']);
+  });
+});
+
+describe('UpdateTenantDto 和 TenantStatusChangeDto', () => {
+  it('更新必须带配置，状态变更必须带原因', () => {
+    expect(invalidProperties(UpdateTenantDto, {})).toEqual(['configuration']);
+    expect(
+      invalidProperties(UpdateTenantDto, { configuration: { maxStorage: -1 } }),
+    ).toEqual(['configuration.maxStorage']);
+    expect(invalidProperties(TenantStatusChangeDto, { reason: '' })).toEqual([
+      'reason',
+    ]);
+  });
+});
+
+describe('BatchTenantStatusChangeDto', () => {
+  it('应该要求1到100个UUID v4', () => {
+    const ids = Array.from({ length: 100 }, () => randomUUID());
+
+    expect(
+      invalidProperties(BatchTenantStatusChangeDto, { ids, reason: '欠费' }),
+    ).toEqual([]);
+    expect(
+      invalidProperties(BatchTenantStatusChangeDto, {
+        ids: [],
+        reason: '欠费',
+      }),
+    ).toEqual(['ids']);
+    expect(
+      invalidProperties(BatchTenantStatusChangeDto, {
+        ids: [...ids, randomUUID()],
+        reason: '欠费',
+      }),
+    ).toEqual(['ids']);
+    expect(
+      invalidProperties(BatchTenantStatusChangeDto, {
+        ids: ['not-a-uuid'],
+        reason: '欠费',
+      }),
+    ).toEqual(['ids']);
+  });
+});
+
+describe('QueryTenantsDto', () => {
+  it('应该转换查询字符串并生成仓储查询选项', () => {
+    const query = plainToInstance(QueryTenantsDto, {
+      page: '2',
+      status: ['active', 'trial,suspended'],
+      createdFrom: '2026-01-01T00:00:00.000Z',
+      sortBy: 'code',
+      includeDeleted: 'true',
+    });
+
+    expect(validateSync(query)).toEqual([]);
+    expect(query.toQueryOptions()).toEqual({
+      status: [TenantStatus.ACTIVE, TenantStatus.TRIAL, TenantStatus.SUSPENDED],
+      type: undefined,
+      isolationStrategy: undefined,
+      createdAt: { from: new Date('2026-01-01T00:00:00.000Z'), to: undefined },
+      pagination: { page: 2, size: 20 },
+      sort: { field: 'code', order: 'asc' },
+      includeDeleted: true,
+    });
+  });
+
+  it('应该拒绝越界的分页和未知的枚举值', () => {
+    expect(
+      invalidProperties(QueryTenantsDto, {
+        page: '0',
+        size: '101',
+        status: 'active,unknown',
+        sortOrder: 'up',
+      }),
+    ).toEqual(['page', 'size', 'status', 'sortOrder']);
+  });
+});
@@ -0,0 +1,419 @@
+/**
+ * 租户管理API的请求和响应对象
+ *
+ * @description 使用 class-validator 校验请求，使用 @nestjs/swagger 生成文档
+ *
+ * ## 业务规则
+ *
+ * ### 校验规则
+ * - 租户代码3-20个字符，只能包含字母、数字、下划线和连字符
+ * - 租户ID必须是UUID v4
+ * - 批量操作一次最多100个租户
+ * - 分页从1开始，每页最多100条，默认20条
+ * - 查询参数中的状态、类型和隔离策略可以重复出现，也可以用逗号分隔
+ *
+ * @since 1.0.0
+ */
+
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform, Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  ArrayNotEmpty,
+  IsArray,
+  IsBoolean,
+  IsDate,
+  IsDefined,
+  IsEnum,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Length,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { IsolationStrategy, TenantStatus, TenantType } from '@aiofix/tenant';
+import type {
+  ITenantConfiguration,
+  ITenantQueryOptions,
+  ITenantQueryResult,
+  Tenant,
+} from '@aiofix/tenant';
+
+/**
+ * 默认每页数量
+ */
+const DEFAULT_PAGE_SIZE = 20;
+
+/**
+ * 批量操作的最大租户数
+ */
+const MAX_BATCH_SIZE = 100;
+
+/**
+ * 查询参数转为数组，支持重复参数和逗号分隔
+ */
+const toArray = ({ value }: { value: unknown }): unknown =>
+  value === undefined
+    ? undefined
+    : (Array.isArray(value) ? value : [value]).flatMap((item) =>
+        String(item).split(','),
+      );
+
+/**
+ * 租户配置
+ */
+export class TenantConfigurationDto implements ITenantConfiguration {
+  @ApiPropertyOptional({ description: '最大用户数', minimum: 1 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  maxUsers?: number;
+
+  @ApiPropertyOptional({ description: '最大存储空间（MB）', minimum: 0 })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  maxStorage?: number;
+
+  @ApiPropertyOptional({ description: '开通的功能', type: [String] })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  enabledFeatures?: string[];
+
+  @ApiPropertyOptional({ description: 'API请求频率限制', minimum: 0 })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  apiRateLimit?: number;
+
+  @ApiPropertyOptional({ description: '数据保留天数', minimum: 0 })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  dataRetentionDays?: number;
+
+  @ApiPropertyOptional({ description: '自定义设置', type: Object })
+  @IsOptional()
+  @IsObject()
+  customSettings?: Record<string, unknown>;
+}
+
+/**
+ * 创建租户请求
+ */
+export class CreateTenantDto {
+  @ApiProperty({ description: '租户代码，全局唯一', example: 'acme' })
+  @IsString()
+  @Length(3, 20)
+  @Matches(/^[a-zA-Z0-9_-]+$/)
+  code!: string;
+
+  @ApiProperty({ description: '租户名称', example: 'Acme Inc.' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name!: string;
+
+  @ApiProperty({
+    description: '租户域名，全局唯一',
+    example: 'acme.example.com',
+  })
+  @IsString()
+  @IsNotEmpty()
+  domain!: string;
+
+  @ApiProperty({ description: '租户类型', enum: TenantType })
+  @IsEnum(TenantType)
+  type!: TenantType;
+
+  @ApiProperty({ description: '隔离策略', enum: IsolationStrategy })
+  @IsEnum(IsolationStrategy)
+  isolationStrategy!: IsolationStrategy;
+
+  @ApiPropertyOptional({
+    description: '租户配置',
+    type: TenantConfigurationDto,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => TenantConfigurationDto)
+  configuration?: TenantConfigurationDto;
+}
+
+/**
+ * 更新租户请求
+ */
+export class UpdateTenantDto {
+  @ApiProperty({ description: '要修改的配置项', type: TenantConfigurationDto })
+  @IsDefined()
+  @ValidateNested()
+  @Type(() => TenantConfigurationDto)
+  configuration!: TenantConfigurationDto;
+}
+
+/**
+ * 租户状态变更请求
+ */
+export class TenantStatusChangeDto {
+  @ApiProperty({ description: '变更原因' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  reason!: string;
+}
+
+/**
+ * 批量状态变更请求
+ */
+export class BatchTenantStatusChangeDto extends TenantStatusChangeDto {
+  @ApiProperty({
+    description: '租户ID列表',
+    type: [String],
+    maxItems: MAX_BATCH_SIZE,
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(MAX_BATCH_SIZE)
+  @IsUUID('4', { each: true })
+  ids!: string[];
+}
+
+/**
+ * 租户查询参数
+ */
+export class QueryTenantsDto {
+  @ApiPropertyOptional({ description: '页码，从1开始', default: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number;
+
+  @ApiPropertyOptional({
+    description: '每页数量',
+    default: DEFAULT_PAGE_SIZE,
+    maximum: 100,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  size?: number;
+
+  @ApiPropertyOptional({ enum: TenantStatus, isArray: true })
+  @IsOptional()
+  @Transform(toArray)
+  @IsEnum(TenantStatus, { each: true })
+  status?: TenantStatus[];
+
+  @ApiPropertyOptional({ enum: TenantType, isArray: true })
+  @IsOptional()
+  @Transform(toArray)
+  @IsEnum(TenantType, { each: true })
+  type?: TenantType[];
+
+  @ApiPropertyOptional({ enum: IsolationStrategy, isArray: true })
+  @IsOptional()
+  @Transform(toArray)
+  @IsEnum(IsolationStrategy, { each: true })
+  isolationStrategy?: IsolationStrategy[];
+
+  @ApiPropertyOptional({
+    description: '创建时间起',
+    type: String,
+    format: 'date-time',
+  })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  createdFrom?: Date;
+
+  @ApiPropertyOptional({
+    description: '创建时间止',
+    type: String,
+    format: 'date-time',
+  })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  createdTo?: Date;
+
+  @ApiPropertyOptional({ enum: ['code', 'name', 'createdAt', 'updatedAt'] })
+  @IsOptional()
+  @IsIn(['code', 'name', 'createdAt', 'updatedAt'])
+  sortBy?: 'code' | 'name' | 'createdAt' | 'updatedAt';
+
+  @ApiPropertyOptional({ enum: ['asc', 'desc'], default: 'asc' })
+  @IsOptional()
+  @IsIn(['asc', 'desc'])
+  sortOrder?: 'asc' | 'desc';
+
+  @ApiPropertyOptional({ description: '是否包含已删除的租户', default: false })
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  includeDeleted?: boolean;
+
+  /**
+   * 转为仓储查询选项
+   */
+  toQueryOptions(): ITenantQueryOptions {
+    return {
+      status: this.status,
+      type: this.type,
+      isolationStrategy: this.isolationStrategy,
+      createdAt:
+        this.createdFrom || this.createdTo
+          ? { from: this.createdFrom, to: this.createdTo }
+          : undefined,
+      pagination: {
+        page: this.page ?? 1,
+        size: this.size ?? DEFAULT_PAGE_SIZE,
+      },
+      sort: this.sortBy
+        ? { field: this.sortBy, order: this.sortOrder ?? 'asc' }
+        : undefined,
+      includeDeleted: this.includeDeleted,
+    };
+  }
+}
+
+/**
+ * 租户
+ */
+export class TenantResponseDto {
+  @ApiProperty()
+  id!: string;
+
+  @ApiProperty()
+  code!: string;
+
+  @ApiProperty()
+  name!: string;
+
+  @ApiProperty()
+  domain!: string;
+
+  @ApiProperty({ enum: TenantType })
+  type!: TenantType;
+
+  @ApiProperty({ enum: IsolationStrategy })
+  isolationStrategy!: IsolationStrategy;
+
+  @ApiProperty({ enum: TenantStatus })
+  status!: TenantStatus;
+
+  @ApiProperty({ type: TenantConfigurationDto })
+  configuration!: ITenantConfiguration;
+
+  @ApiPropertyOptional({ type: String, format: 'date-time' })
+  trialEndsAt?: Date;
+
+  @ApiPropertyOptional({ type: String, format: 'date-time' })
+  suspendedAt?: Date;
+
+  @ApiPropertyOptional({ type: String, format: 'date-time' })
+  deletedAt?: Date;
+
+  @ApiProperty({ type: String, format: 'date-time' })
+  createdAt!: Date;
+
+  @ApiProperty({ type: String, format: 'date-time' })
+  updatedAt!: Date;
+
+  static fromEntity(tenant: Tenant): TenantResponseDto {
+    return Object.assign(new TenantResponseDto(), {
+      id: tenant.id.toString(),
+      code: tenant.code,
+      name: tenant.name,
+      domain: tenant.domain,
+      type: tenant.type,
+      isolationStrategy: tenant.isolationStrategy,
+      status: tenant.status,
+      configuration: tenant.configuration,
+      trialEndsAt: tenant.lifecycle.trialEndsAt,
+      suspendedAt: tenant.lifecycle.suspendedAt,
+      deletedAt: tenant.lifecycle.deletedAt,
+      createdAt: tenant.createdAt,
+      updatedAt: tenant.updatedAt,
+    });
+  }
+}
+
+/**
+ * 租户分页结果
+ */
+export class TenantPageDto {
+  @ApiProperty({ type: [TenantResponseDto] })
+  items!: TenantResponseDto[];
+
+  @ApiProperty()
+  total!: number;
+
+  @ApiProperty()
+  page!: number;
+
+  @ApiProperty()
+  size!: number;
+
+  @ApiProperty()
+  hasNext!: boolean;
+
+  static fromResult(result: ITenantQueryResult): TenantPageDto {
+    return Object.assign(new TenantPageDto(), {
+      items: result.tenants.map((tenant) =>
+        TenantResponseDto.fromEntity(tenant),
+      ),
+      total: result.total,
+      page: result.page,
+      size: result.size,
+      hasNext: result.hasNext,
+    });
+  }
+}
+
+/**
+ * 批量操作结果
+ */
+export class BatchTenantOperationResultDto {
+  @ApiProperty({ description: '请求处理的租户数' })
+  requested!: number;
+
+  @ApiProperty({ description: '成功处理的租户数' })
+  succeeded!: number;
+}
+
+/**
+ * 代码或域名可用性
+ */
+export class TenantAvailabilityDto {
+  @ApiProperty()
+  available!: boolean;
+}
+
+/**
+ * 租户统计
+ */
+export class TenantStatisticsDto {
+  @ApiProperty()
+  total!: number;
+
+  @ApiProperty({ description: '按状态统计', type: Object })
+  byStatus!: Record<TenantStatus, number>;
+
+  @ApiProperty({ description: '按类型统计', type: Object })
+  byType!: Record<TenantType, number>;
+
+  @ApiProperty({ description: '按隔离策略统计', type: Object })
+  byIsolationStrategy!: Record<IsolationStrategy, number>;
+}
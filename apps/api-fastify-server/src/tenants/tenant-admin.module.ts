@@ -0,0 +1,102 @@
+/**
+ * 租户管理模块
+ *
+ * @description 注册租户管理API及其依赖
+ *
+ * ## 技术规则
+ *
+ * - 令牌校验配置通过 @aiofix/config 读取 auth.jwt，配置缺失或加载失败时不中断启动，
+ *   租户管理API返回503
+ * - 租户仓储由 createTenantRepository 按数据库配置选择，启用数据库时使用 SqlTenantRepository，
+ *   生产环境未启用数据库时启动失败
+ * - 配置管理器只加载一次，令牌校验和租户仓储共用
+ *
+ * @since 1.0.0
+ */
+
+import { Logger, Module } from '@nestjs/common';
+import { createConfigManager } from '@aiofix/config';
+import type { IAuthModuleConfig, IConfigManager } from '@aiofix/config';
+import type { TenantTokenVerifier } from '@aiofix/core';
+import { SimpleDatabaseManager } from '@aiofix/database';
+import { TenantService } from '@aiofix/tenant';
+import type { ITenantRepository } from '@aiofix/tenant';
+import {
+  createPlatformTokenVerifier,
+  PLATFORM_TOKEN_VERIFIER,
+  PlatformAdminGuard,
+} from './platform-admin.guard';
+import { TenantAdminController } from './tenant-admin.controller';
+import {
+  createTenantRepository,
+  TENANT_REPOSITORY,
+} from './tenant-repository.provider';
+
+/**
+ * 配置管理器注入令牌，加载失败时为 null
+ */
+const TENANT_CONFIG_MANAGER = Symbol('TENANT_CONFIG_MANAGER');
+
+/**
+ * 租户管理模块
+ */
+@Module({
+  controllers: [TenantAdminController],
+  providers: [
+    {
+      provide: TENANT_CONFIG_MANAGER,
+      useFactory: async (): Promise<IConfigManager | null> => {
+        try {
+          return await createConfigManager();
+        } catch (error) {
+          new Logger(TenantAdminModule.name).error(
+            `加载配置失败: ${error instanceof Error ? error.message : String(error)}`,
+          );
+          return null;
+        }
+      },
+    },
+    {
+      provide: TENANT_REPOSITORY,
+      inject: [TENANT_CONFIG_MANAGER],
+      useFactory: (
+        configManager: IConfigManager | null,
+      ): Promise<ITenantRepository> =>
+        createTenantRepository(configManager, async (config) => {
+          const database = new SimpleDatabaseManager(config);
+          await database.initialize();
+          return database;
+        }),
+    },
+    {
+      provide: TenantService,
+      inject: [TENANT_REPOSITORY],
+      useFactory: (repository: ITenantRepository): TenantService =>
+        new TenantService(repository),
+    },
+    {
+      provide: PLATFORM_TOKEN_VERIFIER,
+      inject: [TENANT_CONFIG_MANAGER],
+      useFactory: async (
+        configManager: IConfigManager | null,
+      ): Promise<TenantTokenVerifier | null> => {
+        const logger = new Logger(PlatformAdminGuard.name);
+        if (!configManager) {
+          return null;
+        }
+        try {
+          const auth =
+            await configManager.getModuleConfig<IAuthModuleConfig>('auth');
+          return createPlatformTokenVerifier(auth?.jwt, logger);
+        } catch (error) {
+          logger.error(
+            `加载认证配置失败: ${error instanceof Error ? error.message : String(error)}`,
+          );
+          return null;
+        }
+      },
+    },
+    PlatformAdminGuard,
+  ],
+})
+export class TenantAdminModule {}
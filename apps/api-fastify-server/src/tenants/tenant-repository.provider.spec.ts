@@ -0,0 +1,86 @@
+/**
+ * 租户仓储提供者测试
+ *
+ * @description 测试按数据库配置和运行环境选择租户仓储
+ * @since 1.0.0
+ */
+
+import { Environment } from '@aiofix/config';
+import type { IConfigManager } from '@aiofix/config';
+import type { IDatabaseService } from '@aiofix/database';
+import { InMemoryTenantRepository, SqlTenantRepository } from '@aiofix/tenant';
+import { createTenantRepository } from './tenant-repository.provider';
+
+// 创建只提供数据库配置的配置管理器
+const configWithDatabase = (enabled: boolean): IConfigManager =>
+  ({
+    getModuleConfig: jest.fn().mockResolvedValue({ enabled }),
+  }) as unknown as IConfigManager;
+
+describe('createTenantRepository', () => {
+  const logger = { warn: jest.fn() };
+  let connect: jest.Mock;
+
+  beforeEach(() => {
+    logger.warn.mockReset();
+    connect = jest.fn().mockResolvedValue({} as IDatabaseService);
+  });
+
+  it('启用数据库时应该使用SQL仓储', async () => {
+    const configManager = configWithDatabase(true);
+
+    const repository = await createTenantRepository(
+      configManager,
+      connect,
+      Environment.PRODUCTION,
+      logger,
+    );
+
+    expect(repository).toBeInstanceOf(SqlTenantRepository);
+    expect(connect).toHaveBeenCalledWith(configManager);
+    expect(configManager.getModuleConfig).toHaveBeenCalledWith('database');
+  });
+
+  it('开发环境未启用数据库时应该使用内存仓储并记录警告', async () => {
+    const repository = await createTenantRepository(
+      configWithDatabase(false),
+      connect,
+      Environment.DEVELOPMENT,
+      logger,
+    );
+
+    expect(repository).toBeInstanceOf(InMemoryTenantRepository);
+    expect(connect).not.toHaveBeenCalled();
+    expect(logger.warn).toHaveBeenCalledWith(
+      expect.stringContaining('内存仓储'),
+    );
+  });
+
+  it('生产环境未启用数据库或配置无法加载时应该拒绝启动', async () => {
+    await expect(
+      createTenantRepository(
+        configWithDatabase(false),
+        connect,
+        Environment.PRODUCTION,
+        logger,
+      ),
+    ).rejects.toThrow('生产环境必须启用数据库配置');
+    await expect(
+      createTenantRepository(null, connect, Environment.PRODUCTION, logger),
+    ).rejects.toThrow('生产环境必须启用数据库配置');
+    expect(connect).not.toHaveBeenCalled();
+  });
+
+  it('数据库连接失败时不应该回退到内存仓储', async () => {
+    connect.mockRejectedValue(new Error('connection refused'));
+
+    await expect(
+      createTenantRepository(
+        configWithDatabase(true),
+        connect,
+        Environment.DEVELOPMENT,
+        logger,
+      ),
+    ).rejects.toThrow('connection refused');
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * 租户仓储提供者
+ *
+ * @description 按数据库配置为租户管理API选择租户仓储
+ *
+ * ## 业务规则
+ *
+ * - 数据库模块启用时使用 SqlTenantRepository，租户数据持久化在数据库中
+ * - 数据库模块未启用或配置无法加载时，开发和测试环境使用内存仓储并记录警告，
+ *   生产环境拒绝启动，避免租户数据在重启后丢失
+ *
+ * ## 技术规则
+ *
+ * - 运行环境由 ConfigFactory.detectEnvironment 判断，配置无法加载时同样生效
+ * - 数据库连接失败时启动失败，不回退到内存仓储
+ *
+ * @since 1.0.0
+ */
+
+import { Logger } from '@nestjs/common';
+import { ConfigFactory, Environment } from '@aiofix/config';
+import type { IConfigManager, IDatabaseModuleConfig } from '@aiofix/config';
+import type { IDatabaseService } from '@aiofix/database';
+import { InMemoryTenantRepository, SqlTenantRepository } from '@aiofix/tenant';
+import type { ITenantRepository } from '@aiofix/tenant';
+
+/**
+ * 租户仓储注入令牌
+ */
+export const TENANT_REPOSITORY = Symbol('TENANT_REPOSITORY');
+
+/**
+ * 按数据库配置创建租户仓储
+ *
+ * @param configManager 配置管理器，加载失败时为 null
+ * @param connect 按配置创建并初始化数据库服务
+ * @param environment 运行环境
+ * @param logger 日志，使用内存仓储时记录警告
+ * @returns 租户仓储
+ * @throws {Error} 生产环境未启用数据库时抛出
+ */
+export async function createTenantRepository(
+  configManager: IConfigManager | null,
+  connect: (configManager: IConfigManager) => Promise<IDatabaseService>,
+  environment: Environment = ConfigFactory.detectEnvironment(),
+  logger: Pick<Logger, 'warn'> = new Logger('TenantRepository'),
+): Promise<ITenantRepository> {
+  const database =
+    await configManager?.getModuleConfig<IDatabaseModuleConfig>('database');
+  if (configManager && database?.enabled) {
+    return new SqlTenantRepository(await connect(configManager));
+  }
+
+  if (environment === Environment.PRODUCTION) {
+    throw new Error('生产环境必须启用数据库配置，租户管理不能使用内存仓储');
+  }
+  logger.warn('数据库配置未启用，租户数据保存在内存仓储中，服务重启后丢失');
+  return new InMemoryTenantRepository();
+}
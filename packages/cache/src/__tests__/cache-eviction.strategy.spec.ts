@@ -0,0 +1,74 @@
+/**
+ * 缓存淘汰策略测试
+ *
+ * @description 测试LRU/LFU淘汰顺序
+ *
+ * @since 1.0.0
+ */
+
+import {
+  LfuEvictionPolicy,
+  LruEvictionPolicy,
+  createCacheEvictionPolicy,
+} from '../strategies/cache-eviction.strategy';
+
+describe('LruEvictionPolicy', () => {
+  it('应该淘汰最久未使用的键', () => {
+    const policy = new LruEvictionPolicy();
+    policy.recordWrite('a');
+    policy.recordWrite('b');
+    policy.recordAccess('a');
+
+    expect(policy.selectVictim()).toBe('b');
+  });
+
+  it('应该跳过被排除的键', () => {
+    const policy = new LruEvictionPolicy();
+    policy.recordWrite('a');
+    policy.recordWrite('b');
+
+    expect(policy.selectVictim('a')).toBe('b');
+    expect(policy.selectVictim()).toBe('a');
+  });
+});
+
+describe('LfuEvictionPolicy', () => {
+  it('应该淘汰访问次数最少的键，次数相同时淘汰最久未使用的', () => {
+    const policy = new LfuEvictionPolicy();
+    policy.recordWrite('a');
+    policy.recordWrite('b');
+    policy.recordWrite('c');
+    policy.recordAccess('a');
+
+    expect(policy.selectVictim()).toBe('b');
+    policy.remove('b');
+    expect(policy.selectVictim()).toBe('c');
+  });
+
+  it('删除最少次数的最后一个键后应该选择次数更多的键', () => {
+    const policy = new LfuEvictionPolicy();
+    policy.recordWrite('a');
+    policy.recordAccess('a');
+    policy.recordWrite('b');
+    policy.remove('b');
+
+    expect(policy.selectVictim()).toBe('a');
+  });
+
+  it('最少次数的键被排除时应该选择次数更多的键', () => {
+    const policy = new LfuEvictionPolicy();
+    policy.recordWrite('hot');
+    policy.recordAccess('hot');
+    policy.recordWrite('new');
+
+    expect(policy.selectVictim('new')).toBe('hot');
+  });
+
+  it('清空后不应该返回淘汰键', () => {
+    const policy = createCacheEvictionPolicy('lfu');
+    policy.recordWrite('a');
+    policy.clear();
+
+    expect(policy.selectVictim()).toBeUndefined();
+  });
+});
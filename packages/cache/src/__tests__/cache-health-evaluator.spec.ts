@@ -0,0 +1,123 @@
+/**
+ * 缓存健康评估测试
+ *
+ * @description 测试根据缓存统计得出的健康状态和建议
+ *
+ * @since 1.0.0
+ */
+
+import { evaluateCacheHealth } from '../monitoring/cache-health-evaluator';
+import type {
+  ICacheStats,
+  ICacheTenantStats,
+} from '../interfaces/cache.interface';
+
+const createStats = (overrides: Partial<ICacheStats> = {}): ICacheStats => ({
+  totalOperations: 100,
+  hits: 80,
+  misses: 20,
+  hitRate: 0.8,
+  averageResponseTime: 1,
+  errors: 0,
+  errorRate: 0,
+  currentSize: 10,
+  maxSize: 100,
+  memoryUsage: 1024,
+  evictions: 0,
+  expirations: 0,
+  lastUpdated: new Date(),
+  ...overrides,
+});
+
+const createTenant = (
+  tenantId: string,
+  tenantMemoryUsage: number,
+): ICacheTenantStats => ({
+  ...createStats(),
+  tenantId,
+  tenantKeyCount: 1,
+  tenantMemoryUsage,
+});
+
+describe('evaluateCacheHealth', () => {
+  it('指标正常时应该是健康的', () => {
+    expect(evaluateCacheHealth(createStats())).toEqual({
+      status: 'healthy',
+      recommendations: [],
+    });
+  });
+
+  it('应该根据错误率降级或判定为不健康', () => {
+    expect(evaluateCacheHealth(createStats({ errorRate: 0.1 })).status).toBe(
+      'degraded',
+    );
+    expect(evaluateCacheHealth(createStats({ errorRate: 0.6 })).status).toBe(
+      'unhealthy',
+    );
+  });
+
+  it('样本不足时不评估错误率和命中率', () => {
+    const result = evaluateCacheHealth(
+      createStats({ totalOperations: 5, errorRate: 1, hitRate: 0 }),
+    );
+
+    expect(result.status).toBe('healthy');
+    expect(result.recommendations).toEqual([]);
+  });
+
+  it('命中率过低时只给出建议', () => {
+    const result = evaluateCacheHealth(
+      createStats({ hits: 20, misses: 80, hitRate: 0.2 }),
+    );
+
+    expect(result.status).toBe('healthy');
+    expect(result.recommendations[0]).toContain('命中率为20.0%');
+  });
+
+  it('响应时间过长或容量不足时应该降级', () => {
+    expect(
+      evaluateCacheHealth(createStats({ averageResponseTime: 250 })).status,
+    ).toBe('degraded');
+    expect(evaluateCacheHealth(createStats({ currentSize: 95 })).status).toBe(
+      'degraded',
+    );
+    expect(
+      evaluateCacheHealth(createStats({ currentSize: 95 }), {
+        capacityUsage: 0.1,
+      }).status,
+    ).toBe('healthy');
+  });
+
+  it('淘汰过多时应该给出建议', () => {
+    const result = evaluateCacheHealth(createStats({ evictions: 30 }));
+
+    expect(result.status).toBe('healthy');
+    expect(result.recommendations[0]).toContain('淘汰了30个缓存项');
+  });
+
+  it('应该提示占用超过阈值的租户', () => {
+    const result = evaluateCacheHealth(createStats(), {
+      tenants: [createTenant('big', 900), createTenant('small', 100)],
+    });
+
+    expect(result.recommendations).toEqual([
+      expect.stringContaining('租户big占用了90.0%'),
+    ]);
+  });
+
+  it('只有一个租户时不评估租户占用', () => {
+    const result = evaluateCacheHealth(createStats(), {
+      tenants: [createTenant('only', 900)],
+    });
+
+    expect(result.recommendations).toEqual([]);
+  });
+
+  it('应该支持自定义阈值', () => {
+    const result = evaluateCacheHealth(createStats({ errorRate: 0.1 }), {
+      thresholds: { degradedErrorRate: 0.2 },
+    });
+
+    expect(result.status).toBe('healthy');
+  });
+});
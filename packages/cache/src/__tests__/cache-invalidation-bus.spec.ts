@@ -0,0 +1,253 @@
+/**
+ * 缓存失效广播总线测试
+ *
+ * @description 使用ioredis-mock的发布订阅模拟多个实例之间的失效广播
+ *
+ * @since 1.0.0
+ */
+
+import RedisMock from 'ioredis-mock';
+import type Redis from 'ioredis';
+import { SimpleCacheManager } from '../core/simple-cache-manager';
+import { CacheInvalidationBus } from '../invalidation/cache-invalidation-bus';
+import type { ICacheInvalidationMessage } from '../invalidation/cache-invalidation-bus';
+import { RedisCacheInvalidationTransport } from '../invalidation/redis-invalidation.transport';
+import { MessagingCacheInvalidationTransport } from '../invalidation/messaging-invalidation.transport';
+import { CacheIsolationLevel } from '../interfaces/cache.interface';
+
+// Mock配置管理器
+const mockConfigManager = {
+  getModuleConfig: jest.fn().mockResolvedValue({
+    enabled: true,
+    defaultStrategy: 'memory',
+    memory: { maxSize: 100, ttl: 300, checkPeriod: 60 },
+    redis: {},
+    strategies: {},
+  }),
+  onChange: jest.fn(),
+} as any;
+
+/**
+ * 模拟的实例：本地内存缓存 + 失效总线
+ */
+interface IInstance {
+  cache: SimpleCacheManager;
+  bus: CacheInvalidationBus;
+  client: Redis;
+}
+
+// 等待发布订阅消息送达和处理
+const flushMessages = (): Promise<void> =>
+  new Promise((resolve) => globalThis.setTimeout(resolve, 20));
+
+describe('CacheInvalidationBus', () => {
+  const instances: IInstance[] = [];
+
+  const createInstance = async (
+    isolationLevel = CacheIsolationLevel.TENANT,
+  ): Promise<IInstance> => {
+    const client = new RedisMock() as unknown as Redis;
+    const cache = new SimpleCacheManager(mockConfigManager);
+    await cache.initialize();
+    const bus = new CacheInvalidationBus(
+      new RedisCacheInvalidationTransport(client),
+      [cache],
+      { isolationLevel },
+    );
+    await bus.start();
+
+    const instance = { cache, bus, client };
+    instances.push(instance);
+    return instance;
+  };
+
+  afterEach(async () => {
+    for (const { cache, bus, client } of instances.splice(0)) {
+      await bus.stop();
+      await cache.destroy();
+      client.disconnect();
+    }
+    jest.restoreAllMocks();
+  });
+
+  describe('Redis传输层', () => {
+    it('应该失效本实例和其他实例的键', async () => {
+      const a = await createInstance();
+      const b = await createInstance();
+      await a.cache.set('config', 'v1');
+      await b.cache.set('config', 'v1');
+      await b.cache.set('other', 'v1');
+
+      expect(await a.bus.invalidate('config')).toBe(1);
+      await flushMessages();
+
+      expect(await a.cache.exists('config')).toBe(false);
+      expect(await b.cache.exists('config')).toBe(false);
+      expect(await b.cache.exists('other')).toBe(true);
+    });
+
+    it('应该按前缀和模式失效', async () => {
+      const a = await createInstance();
+      const b = await createInstance();
+      await b.cache.set('user:1:profile', 1);
+      await b.cache.set('user:2:profile', 2);
+      await b.cache.set('user:2:settings', 3);
+      await b.cache.set('order:1', 4);
+
+      await a.bus.invalidate('user:1:', { mode: 'prefix' });
+      await a.bus.invalidate('user:*:settings', { mode: 'pattern' });
+      await flushMessages();
+
+      expect(await b.cache.exists('user:1:profile')).toBe(false);
+      expect(await b.cache.exists('user:2:profile')).toBe(true);
+      expect(await b.cache.exists('user:2:settings')).toBe(false);
+      expect(await b.cache.exists('order:1')).toBe(true);
+    });
+
+    it('携带租户上下文时只失效该租户的键', async () => {
+      const a = await createInstance();
+      const b = await createInstance();
+      await b.cache.set('tenant:t1:user:1', 1);
+      await b.cache.set('tenant:t2:user:1', 2);
+
+      await a.bus.invalidate('user:*', {
+        mode: 'pattern',
+        tenantContext: { tenantId: 't1' },
+      });
+      await flushMessages();
+
+      expect(await b.cache.exists('tenant:t1:user:1')).toBe(false);
+      expect(await b.cache.exists('tenant:t2:user:1')).toBe(true);
+    });
+
+    it('租户ID中的模式字符不应该匹配其他租户', async () => {
+      const a = await createInstance();
+      const b = await createInstance();
+      await b.cache.set('tenant:t1:user:1', 1);
+
+      await a.bus.invalidate('*', {
+        mode: 'pattern',
+        tenantContext: { tenantId: 't*' },
+      });
+      await flushMessages();
+
+      expect(await b.cache.exists('tenant:t1:user:1')).toBe(true);
+    });
+
+    it('应该失效其他实例中租户的所有键', async () => {
+      const a = await createInstance();
+      const b = await createInstance();
+      await b.cache.set('tenant:t1:a', 1);
+      await b.cache.set('tenant:t1:b', 2);
+      await b.cache.set('tenant:t2:a', 3);
+
+      await a.bus.invalidateTenant('t1');
+      await flushMessages();
+
+      expect(await b.cache.exists('tenant:t1:a')).toBe(false);
+      expect(await b.cache.exists('tenant:t1:b')).toBe(false);
+      expect(await b.cache.exists('tenant:t2:a')).toBe(true);
+    });
+
+    it('完全隔离缺少组织和用户时应该拒绝发布', async () => {
+      const a = await createInstance(CacheIsolationLevel.FULL);
+      const publish = jest.spyOn(a.client, 'publish');
+
+      await expect(
+        a.bus.invalidate('profile', { tenantContext: { tenantId: 't1' } }),
+      ).rejects.toThrow('完全隔离需要完整的租户上下文');
+      expect(publish).not.toHaveBeenCalled();
+    });
+
+    it('隔离级别不区分租户时应该拒绝按租户失效', async () => {
+      const a = await createInstance(CacheIsolationLevel.NONE);
+
+      await expect(a.bus.invalidateTenant('t1')).rejects.toThrow(
+        '不包含租户ID',
+      );
+    });
+
+    it('停止后不应该再处理其他实例的消息', async () => {
+      const a = await createInstance();
+      const b = await createInstance();
+      await b.cache.set('config', 'v1');
+
+      await b.bus.stop();
+      await a.bus.invalidate('config');
+      await flushMessages();
+
+      expect(await b.cache.exists('config')).toBe(true);
+    });
+
+    it('处理失败时应该记录告警而不抛出', async () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      const a = await createInstance();
+      const b = await createInstance();
+      jest.spyOn(b.cache, 'evict').mockRejectedValue(new Error('boom'));
+
+      await a.bus.invalidate('config');
+      await flushMessages();
+
+      expect(warn).toHaveBeenCalledWith(
+        expect.stringContaining('缓存失效消息处理失败'),
+        expect.any(Error),
+      );
+    });
+  });
+
+  describe('消息服务传输层', () => {
+    it('应该通过消息服务发布和接收失效消息', async () => {
+      const handlers = new Map<string, (message: unknown) => Promise<void>>();
+      const messaging = {
+        publish: jest.fn(async (_topic: string, message: unknown) => {
+          for (const handler of handlers.values()) {
+            await handler(message);
+          }
+        }),
+        subscribe: jest.fn(
+          async (_topic: string, handler: (m: unknown) => Promise<void>) => {
+            const id = `sub-${handlers.size}`;
+            handlers.set(id, handler);
+            return id;
+          },
+        ),
+        unsubscribe: jest.fn(async (id: string) => {
+          handlers.delete(id);
+        }),
+      };
+
+      const cacheA = new SimpleCacheManager(mockConfigManager);
+      const cacheB = new SimpleCacheManager(mockConfigManager);
+      const busA = new CacheInvalidationBus(
+        new MessagingCacheInvalidationTransport(messaging),
+        [cacheA],
+      );
+      const busB = new CacheInvalidationBus(
+        new MessagingCacheInvalidationTransport(messaging),
+        [cacheB],
+      );
+      await busA.start();
+      await busB.start();
+      await cacheB.set('tenant:t1:config', 'v1');
+
+      await busA.invalidate('config', { tenantContext: { tenantId: 't1' } });
+
+      expect(await cacheB.exists('tenant:t1:config')).toBe(false);
+      expect(messaging.publish).toHaveBeenCalledWith(
+        'cache.invalidation',
+        expect.objectContaining<Partial<ICacheInvalidationMessage>>({
+          mode: 'exact',
+          target: 'config',
+          tenantId: 't1',
+          sourceId: busA.instanceId,
+        }),
+      );
+
+      await busA.stop();
+      await busB.stop();
+      expect(messaging.unsubscribe).toHaveBeenCalledTimes(2);
+      await cacheA.destroy();
+      await cacheB.destroy();
+    });
+  });
+});
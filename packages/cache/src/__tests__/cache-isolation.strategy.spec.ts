@@ -0,0 +1,181 @@
+/**
+ * 缓存隔离策略测试
+ *
+ * @description 测试租户缓存键的生成和基于真实缓存后端的租户清理
+ *
+ * @since 1.0.0
+ */
+
+import RedisMock from 'ioredis-mock';
+import type Redis from 'ioredis';
+import { CacheIsolationStrategy } from '../strategies/cache-isolation.strategy';
+import { SimpleCacheManager } from '../core/simple-cache-manager';
+import { RedisCacheManager } from '../core/redis-cache-manager';
+import { CacheIsolationLevel } from '../interfaces/cache.interface';
+import type { ICacheService } from '../interfaces/cache.interface';
+
+const mockConfigManager = {
+  getModuleConfig: jest.fn().mockResolvedValue({
+    enabled: true,
+    defaultStrategy: 'memory',
+    memory: {
+      maxSize: 100,
+      ttl: 300000,
+      checkPeriod: 60000,
+    },
+    redis: {
+      host: 'localhost',
+      port: 6379,
+      db: 0,
+      keyPrefix: 'app:',
+      ttl: 3600,
+    },
+    strategies: {},
+  }),
+  onChange: jest.fn(),
+} as any;
+
+interface ICleanupFixture {
+  service: ICacheService;
+  cleanup: () => void;
+  batchSize: number;
+}
+
+const tenantA = { tenantId: 'tenant-a' } as any;
+const tenantB = { tenantId: 'tenant-b' } as any;
+
+describe('CacheIsolationStrategy', () => {
+  describe('键隔离', () => {
+    it('应该按租户隔离缓存键', () => {
+      const strategy = new CacheIsolationStrategy(CacheIsolationLevel.TENANT);
+
+      expect(strategy.isolateKey('user:profile', tenantA)).toBe(
+        'tenant:tenant-a:user:profile',
+      );
+    });
+
+    it('应该从键中提取租户信息', () => {
+      const strategy = new CacheIsolationStrategy(CacheIsolationLevel.FULL);
+
+      expect(
+        strategy.extractTenantInfo('tenant:t1:org:o1:user:u1:profile'),
+      ).toEqual({ tenantId: 't1', organizationId: 'o1', userId: 'u1' });
+    });
+  });
+
+  describe.each([
+    [
+      'SimpleCacheManager',
+      async (): Promise<ICleanupFixture> => {
+        const service = new SimpleCacheManager(mockConfigManager);
+        await service.initialize();
+        return { service, cleanup: () => undefined, batchSize: 2 };
+      },
+    ],
+    [
+      'RedisCacheManager',
+      async (): Promise<ICleanupFixture> => {
+        const client = new RedisMock() as unknown as Redis;
+        await client.flushall();
+        const service = new RedisCacheManager(mockConfigManager, client);
+        await service.initialize();
+        // ioredis-mock的SCAN游标是列表偏移量，扫描期间删除键会跳过元素，
+        // 真实Redis没有这个问题，这里使用默认批量大小避免误报
+        return { service, cleanup: () => client.disconnect(), batchSize: 100 };
+      },
+    ],
+  ])('租户清理（%s）', (_name, createService) => {
+    let service: ICacheService;
+    let cleanup: () => void;
+    let strategy: CacheIsolationStrategy;
+
+    beforeEach(async () => {
+      const fixture = await createService();
+      ({ service, cleanup } = fixture);
+      strategy = new CacheIsolationStrategy(
+        CacheIsolationLevel.TENANT,
+        service,
+        fixture.batchSize,
+      );
+    });
+
+    afterEach(() => {
+      cleanup();
+    });
+
+    it('应该只删除目标租户的键并返回真实结果', async () => {
+      for (const key of ['config', 'user:1', 'user:2', 'session:abc']) {
+        await service.set(strategy.isolateKey(key, tenantA), key);
+      }
+      await service.set(strategy.isolateKey('config', tenantB), 'b');
+      await service.set('global:setting', 'shared');
+
+      const result = await strategy.cleanupTenantCache('tenant-a');
+
+      expect(result.totalKeys).toBe(4);
+      expect(result.deletedKeys).toBe(4);
+      expect(result.failedKeys).toBe(0);
+      expect(result.errors).toEqual([]);
+      expect(await service.exists('tenant:tenant-a:config')).toBe(false);
+      expect(await service.exists('tenant:tenant-b:config')).toBe(true);
+      expect(await service.exists('global:setting')).toBe(true);
+    });
+
+    it('应该记录删除失败的键', async () => {
+      await service.set('tenant:tenant-a:one', 1);
+      await service.set('tenant:tenant-a:two', 2);
+      jest
+        .spyOn(service, 'delete')
+        .mockRejectedValueOnce(new Error('delete failed'));
+
+      const result = await strategy.cleanupTenantCache('tenant-a');
+
+      expect(result.totalKeys).toBe(2);
+      expect(result.deletedKeys).toBe(1);
+      expect(result.failedKeys).toBe(1);
+      expect(result.errors[0].message).toBe('delete failed');
+    });
+  });
+
+  describe('清理边界情况', () => {
+    it('租户ID中的模式字符应该被转义', async () => {
+      // ioredis-mock不支持MATCH中的反斜杠转义，这里只使用内存缓存验证
+      const service = new SimpleCacheManager(mockConfigManager);
+      const strategy = new CacheIsolationStrategy(
+        CacheIsolationLevel.TENANT,
+        service,
+      );
+      await service.set('tenant:a*:config', 'star');
+      await service.set('tenant:abc:config', 'abc');
+
+      const result = await strategy.cleanupTenantCache('a*');
+
+      expect(result.deletedKeys).toBe(1);
+      expect(await service.exists('tenant:abc:config')).toBe(true);
+      await service.destroy();
+    });
+
+    it('未配置缓存服务时应该返回错误', async () => {
+      const strategy = new CacheIsolationStrategy(CacheIsolationLevel.TENANT);
+
+      const result = await strategy.cleanupTenantCache('tenant-a');
+
+      expect(result.deletedKeys).toBe(0);
+      expect(result.errors[0].message).toContain('未配置缓存服务');
+    });
+
+    it('组织级隔离的键不包含租户ID，应该返回错误', async () => {
+      const service = new SimpleCacheManager(mockConfigManager);
+      const strategy = new CacheIsolationStrategy(
+        CacheIsolationLevel.ORGANIZATION,
+        service,
+      );
+
+      const result = await strategy.cleanupTenantCache('tenant-a');
+
+      expect(result.totalKeys).toBe(0);
+      expect(result.errors[0].message).toContain('无法按租户清理');
+      await service.destroy();
+    });
+  });
+});
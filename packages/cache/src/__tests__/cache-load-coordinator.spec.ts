@@ -0,0 +1,243 @@
+/**
+ * 缓存加载协调器测试
+ *
+ * @description 通过SimpleCacheManager测试getOrSet的并发合并、软过期和空结果缓存
+ *
+ * @since 1.0.0
+ */
+
+import { SimpleCacheManager } from '../core/simple-cache-manager';
+
+// Mock配置管理器
+const mockConfigManager = {
+  getModuleConfig: jest.fn().mockResolvedValue({
+    enabled: true,
+    defaultStrategy: 'memory',
+    memory: { maxSize: 100, ttl: 300, checkPeriod: 60 },
+    redis: {},
+    strategies: {},
+  }),
+  onChange: jest.fn(),
+} as any;
+
+// 创建可手动完成的加载函数
+const createDeferredLoader = <T>(): {
+  loader: jest.Mock<Promise<T | null>, []>;
+  resolve: (value: T | null) => void;
+  reject: (error: Error) => void;
+} => {
+  let resolve!: (value: T | null) => void;
+  let reject!: (error: Error) => void;
+  const loader = jest.fn(
+    () =>
+      new Promise<T | null>((res, rej) => {
+        resolve = res;
+        reject = rej;
+      }),
+  );
+  return {
+    loader,
+    resolve: (value) => resolve(value),
+    reject: (error) => reject(error),
+  };
+};
+
+// 等待后台刷新完成
+const flushPromises = (): Promise<void> =>
+  new Promise((resolve) => globalThis.setImmediate(resolve));
+
+describe('CacheLoadCoordinator', () => {
+  let cacheManager: SimpleCacheManager;
+
+  beforeEach(async () => {
+    cacheManager = new SimpleCacheManager(mockConfigManager);
+    await cacheManager.initialize();
+  });
+
+  afterEach(async () => {
+    await cacheManager.destroy();
+    jest.restoreAllMocks();
+  });
+
+  describe('并发合并', () => {
+    it('并发的未命中请求应该只调用一次加载函数', async () => {
+      const deferred = createDeferredLoader<{ id: string }>();
+
+      const requests = Array.from({ length: 10 }, () =>
+        cacheManager.getOrSet('user:1', deferred.loader),
+      );
+      await flushPromises();
+      deferred.resolve({ id: '1' });
+
+      const results = await Promise.all(requests);
+      expect(deferred.loader).toHaveBeenCalledTimes(1);
+      expect(results).toEqual(Array(10).fill({ id: '1' }));
+    });
+
+    it('加载完成后应该直接命中缓存', async () => {
+      const loader = jest.fn().mockResolvedValue('value');
+
+      await cacheManager.getOrSet('key', loader);
+      expect(await cacheManager.getOrSet('key', loader)).toBe('value');
+      expect(loader).toHaveBeenCalledTimes(1);
+    });
+
+    it('加载失败时所有等待者应该收到错误，下一次请求重新加载', async () => {
+      const deferred = createDeferredLoader<string>();
+
+      const requests = [
+        cacheManager.getOrSet('key', deferred.loader),
+        cacheManager.getOrSet('key', deferred.loader),
+      ];
+      await flushPromises();
+      deferred.reject(new Error('db down'));
+
+      for (const request of requests) {
+        await expect(request).rejects.toThrow('db down');
+      }
+      expect(deferred.loader).toHaveBeenCalledTimes(1);
+
+      const loader = jest.fn().mockResolvedValue('recovered');
+      expect(await cacheManager.getOrSet('key', loader)).toBe('recovered');
+    });
+
+    it('应该能够读取通过set写入的普通值', async () => {
+      const loader = jest.fn();
+      await cacheManager.set('plain', { a: 1 });
+
+      expect(await cacheManager.getOrSet('plain', loader)).toEqual({ a: 1 });
+      expect(loader).not.toHaveBeenCalled();
+    });
+
+    it('直接get应该读到加载的值而不是getOrSet写入的条目', async () => {
+      await cacheManager.getOrSet('user:1', async () => ({ name: 'Alice' }), {
+        softTtl: 1000,
+      });
+
+      expect(await cacheManager.get('user:1')).toEqual({ name: 'Alice' });
+      expect(
+        await cacheManager.get('user:1', { rawEntry: true }),
+      ).toMatchObject({ __loaded: true, value: { name: 'Alice' } });
+    });
+
+    it('refresh为true时应该跳过缓存重新加载', async () => {
+      await cacheManager.getOrSet('key', async () => 'old');
+
+      const result = await cacheManager.getOrSet('key', async () => 'new', {
+        refresh: true,
+      });
+
+      expect(result).toBe('new');
+      expect(await cacheManager.getOrSet('key', jest.fn())).toBe('new');
+    });
+  });
+
+  describe('软过期', () => {
+    it('软过期后应该返回旧值并在后台刷新', async () => {
+      const now = jest.spyOn(Date, 'now').mockReturnValue(1000);
+      await cacheManager.getOrSet('key', async () => 'v1', {
+        ttl: 60000,
+        softTtl: 100,
+      });
+
+      now.mockReturnValue(1200);
+      const deferred = createDeferredLoader<string>();
+
+      // 后台刷新期间的请求继续返回旧值，且不会重复加载
+      expect(
+        await cacheManager.getOrSet('key', deferred.loader, { softTtl: 100 }),
+      ).toBe('v1');
+      expect(
+        await cacheManager.getOrSet('key', deferred.loader, { softTtl: 100 }),
+      ).toBe('v1');
+      expect(deferred.loader).toHaveBeenCalledTimes(1);
+
+      deferred.resolve('v2');
+      await flushPromises();
+
+      expect(await cacheManager.getOrSet('key', jest.fn())).toBe('v2');
+    });
+
+    it('后台刷新失败时应该保留旧值并记录错误', async () => {
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+      const now = jest.spyOn(Date, 'now').mockReturnValue(1000);
+      await cacheManager.getOrSet('key', async () => 'v1', {
+        ttl: 60000,
+        softTtl: 100,
+      });
+
+      now.mockReturnValue(1200);
+      const failing = jest.fn().mockRejectedValue(new Error('db down'));
+      expect(await cacheManager.getOrSet('key', failing)).toBe('v1');
+      await flushPromises();
+
+      expect(await cacheManager.getOrSet('key', jest.fn())).toBe('v1');
+      expect((await cacheManager.getStats()).errors).toBe(1);
+    });
+
+    it('硬过期后应该同步重新加载', async () => {
+      const now = jest.spyOn(Date, 'now').mockReturnValue(1000);
+      await cacheManager.getOrSet('key', async () => 'v1', {
+        ttl: 500,
+        softTtl: 100,
+      });
+
+      now.mockReturnValue(2000);
+      expect(await cacheManager.getOrSet('key', async () => 'v2')).toBe('v2');
+    });
+  });
+
+  describe('空结果缓存', () => {
+    it('设置negativeTtl时应该缓存空结果', async () => {
+      const loader = jest.fn().mockResolvedValue(undefined);
+
+      expect(
+        await cacheManager.getOrSet('missing', loader, { negativeTtl: 1000 }),
+      ).toBeNull();
+      expect(
+        await cacheManager.getOrSet('missing', loader, { negativeTtl: 1000 }),
+      ).toBeNull();
+      expect(loader).toHaveBeenCalledTimes(1);
+    });
+
+    it('空结果应该按negativeTtl过期', async () => {
+      const now = jest.spyOn(Date, 'now').mockReturnValue(1000);
+      await cacheManager.getOrSet('missing', async () => null, {
+        ttl: 60000,
+        negativeTtl: 100,
+      });
+
+      now.mockReturnValue(1200);
+      expect(await cacheManager.getOrSet('missing', async () => 'found')).toBe(
+        'found',
+      );
+    });
+
+    it('缓存的空结果直接get时应该按未命中返回null', async () => {
+      await cacheManager.getOrSet('missing', async () => null, {
+        negativeTtl: 1000,
+      });
+
+      expect(await cacheManager.exists('missing')).toBe(true);
+      expect(await cacheManager.get('missing')).toBeNull();
+    });
+
+    it('未设置negativeTtl时不应该缓存空结果', async () => {
+      const loader = jest.fn().mockResolvedValue(null);
+
+      await cacheManager.getOrSet('missing', loader);
+      await cacheManager.getOrSet('missing', loader);
+
+      expect(loader).toHaveBeenCalledTimes(2);
+      expect(await cacheManager.exists('missing')).toBe(false);
+    });
+
+    it('刷新结果为空时应该删除旧值', async () => {
+      await cacheManager.getOrSet('key', async () => 'v1');
+
+      await cacheManager.getOrSet('key', async () => null, { refresh: true });
+
+      expect(await cacheManager.exists('key')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,281 @@
+/**
+ * 缓存值编解码器测试
+ *
+ * @description 测试压缩、按敏感级别加密、密钥轮换，以及缓存管理器对编码值的处理
+ *
+ * @since 1.0.0
+ */
+
+import RedisMock from 'ioredis-mock';
+import type Redis from 'ioredis';
+import { CacheValueCodec } from '../codec/cache-value-codec';
+import type { ICacheCodecConfig } from '../codec/cache-value-codec';
+import { SimpleCacheManager } from '../core/simple-cache-manager';
+import { RedisCacheManager } from '../core/redis-cache-manager';
+import {
+  CacheSerializationError,
+  DataSensitivity,
+} from '../interfaces/cache.interface';
+
+const encryption = {
+  activeKeyId: 'k1',
+  keys: { k1: 'first-master-secret' },
+};
+
+// 创建返回指定codec配置的配置管理器
+const createConfigManager = (codec: ICacheCodecConfig): any => ({
+  getModuleConfig: jest.fn().mockResolvedValue({
+    enabled: true,
+    defaultStrategy: 'memory',
+    memory: { maxSize: 100, ttl: 300, checkPeriod: 60 },
+    redis: { keyPrefix: 'test:', ttl: 3600 },
+    codec,
+    strategies: {},
+  }),
+  onChange: jest.fn(),
+});
+
+describe('CacheValueCodec', () => {
+  describe('序列化与压缩', () => {
+    it('未压缩也未加密的值应该保持为JSON字符串', () => {
+      const codec = new CacheValueCodec();
+
+      const raw = codec.encode('user:1', { name: 'Alice' });
+
+      expect(raw).toBe('{"name":"Alice"}');
+      expect(codec.decode('user:1', raw)).toEqual({ name: 'Alice' });
+    });
+
+    it('应该只压缩达到阈值的值', () => {
+      const codec = new CacheValueCodec({ compression: { threshold: 100 } });
+      const large = 'x'.repeat(1000);
+
+      const small = codec.encode('k', 'short', { compress: true });
+      const compressed = codec.encode('k', large, { compress: true });
+
+      expect(small).toBe('"short"');
+      expect(compressed.startsWith('$acv1:c::')).toBe(true);
+      expect(compressed.length).toBeLessThan(large.length);
+      expect(codec.decode('k', compressed)).toBe(large);
+    });
+
+    it('写入选项未指定compress时应该使用配置的默认值', () => {
+      const codec = new CacheValueCodec({
+        compression: { enabled: true, threshold: 10 },
+      });
+      const value = 'y'.repeat(100);
+
+      expect(codec.encode('k', value).startsWith('$acv1:c:')).toBe(true);
+      expect(codec.encode('k', value, { compress: false })).toBe(
+        JSON.stringify(value),
+      );
+    });
+  });
+
+  describe('加密', () => {
+    it('应该按敏感级别自动加密', () => {
+      const codec = new CacheValueCodec({ encryption });
+
+      const publicRaw = codec.encode('k', 'v', {
+        sensitivity: DataSensitivity.PUBLIC,
+      });
+      const secretRaw = codec.encode('k', 'v', {
+        sensitivity: DataSensitivity.CONFIDENTIAL,
+      });
+
+      expect(publicRaw).toBe('"v"');
+      expect(secretRaw.startsWith('$acv1:e:k1:')).toBe(true);
+      expect(secretRaw).not.toContain('"v"');
+      expect(codec.decode('k', secretRaw)).toBe('v');
+    });
+
+    it('应该先压缩再加密', () => {
+      const codec = new CacheValueCodec({
+        compression: { threshold: 10 },
+        encryption,
+      });
+      const value = { payload: 'z'.repeat(500) };
+
+      const raw = codec.encode('k', value, { compress: true, encrypt: true });
+
+      expect(raw.startsWith('$acv1:ce:k1:')).toBe(true);
+      expect(codec.decode('k', raw)).toEqual(value);
+    });
+
+    it('应该允许通过sensitiveLevels调整自动加密的级别', () => {
+      const codec = new CacheValueCodec({
+        encryption,
+        sensitiveLevels: [DataSensitivity.INTERNAL],
+      });
+
+      expect(
+        codec.requiresEncoding({ sensitivity: DataSensitivity.INTERNAL }),
+      ).toBe(true);
+      expect(
+        codec.requiresEncoding({ sensitivity: DataSensitivity.HIGH }),
+      ).toBe(false);
+    });
+
+    it('未配置密钥时应该拒绝写入敏感值', () => {
+      const codec = new CacheValueCodec();
+
+      expect(() =>
+        codec.encode('k', 'v', { sensitivity: DataSensitivity.HIGH }),
+      ).toThrow(CacheSerializationError);
+    });
+
+    it('密文不能在其他键或其他租户下解密', () => {
+      const codec = new CacheValueCodec({ encryption });
+      const raw = codec.encode('tenant:a:user:1', 'secret', { encrypt: true });
+
+      expect(() => codec.decode('tenant:a:user:2', raw)).toThrow(
+        CacheSerializationError,
+      );
+      expect(() => codec.decode('tenant:b:user:1', raw)).toThrow(
+        CacheSerializationError,
+      );
+    });
+
+    it('应该拒绝无效的密钥配置', () => {
+      expect(
+        () =>
+          new CacheValueCodec({
+            encryption: { activeKeyId: 'missing', keys: { k1: 'secret' } },
+          }),
+      ).toThrow('缓存加密密钥不存在');
+      expect(
+        () =>
+          new CacheValueCodec({
+            encryption: { activeKeyId: 'a:b', keys: { 'a:b': 'secret' } },
+          }),
+      ).toThrow('缓存加密密钥ID格式无效');
+    });
+  });
+
+  describe('密钥轮换', () => {
+    it('轮换后应该能读取旧密钥加密的条目并使用新密钥写入', () => {
+      const before = new CacheValueCodec({ encryption });
+      const oldRaw = before.encode('k', 'old', { encrypt: true });
+
+      const after = new CacheValueCodec({
+        encryption: {
+          activeKeyId: 'k2',
+          keys: { ...encryption.keys, k2: 'second-master-secret' },
+        },
+      });
+
+      expect(after.decode('k', oldRaw)).toBe('old');
+      expect(
+        after.encode('k', 'new', { encrypt: true }).startsWith('$acv1:e:k2:'),
+      ).toBe(true);
+    });
+
+    it('旧密钥移除后条目应该不可解码', () => {
+      const before = new CacheValueCodec({ encryption });
+      const oldRaw = before.encode('k', 'old', { encrypt: true });
+
+      const after = new CacheValueCodec({
+        encryption: { activeKeyId: 'k2', keys: { k2: 'second-master-secret' } },
+      });
+
+      expect(after.isDecodable(oldRaw)).toBe(false);
+      expect(after.isDecodable('"plain"')).toBe(true);
+    });
+  });
+});
+
+describe('缓存管理器中的编解码', () => {
+  describe('SimpleCacheManager', () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('应该透明地加密和解密敏感值', async () => {
+      const cacheManager = new SimpleCacheManager(
+        createConfigManager({ encryption }),
+      );
+      await cacheManager.initialize();
+
+      await cacheManager.set(
+        'user:1',
+        { ssn: '123' },
+        { sensitivity: DataSensitivity.SENSITIVE },
+      );
+
+      expect(await cacheManager.get('user:1')).toEqual({ ssn: '123' });
+      await cacheManager.destroy();
+    });
+
+    it('密钥移除后的条目应该按未命中处理', async () => {
+      const before = new SimpleCacheManager(
+        createConfigManager({ encryption }),
+      );
+      await before.initialize();
+      await before.set('user:1', 'secret', { encrypt: true });
+
+      // 模拟重新加载配置后旧密钥被移除
+      (before as any).codec = new CacheValueCodec({
+        encryption: { activeKeyId: 'k2', keys: { k2: 'second-master-secret' } },
+      });
+
+      expect(await before.get('user:1')).toBeNull();
+      expect(await before.exists('user:1')).toBe(false);
+      await before.destroy();
+    });
+  });
+
+  describe('RedisCacheManager', () => {
+    let client: Redis;
+
+    beforeEach(async () => {
+      client = new RedisMock() as unknown as Redis;
+      await client.flushall();
+    });
+
+    afterEach(() => {
+      client.disconnect();
+    });
+
+    it('Redis中保存的应该是密文', async () => {
+      const cacheManager = new RedisCacheManager(
+        createConfigManager({ encryption }),
+        client,
+      );
+      await cacheManager.initialize();
+
+      await cacheManager.set('tenant:a:card', '4111', {
+        sensitivity: DataSensitivity.HIGH,
+      });
+
+      const stored = await client.get('test:tenant:a:card');
+      expect(stored).not.toContain('4111');
+      expect(await cacheManager.get('tenant:a:card')).toBe('4111');
+      await cacheManager.destroy();
+    });
+
+    it('其他实例移除旧密钥后应该删除无法解密的条目', async () => {
+      const writer = new RedisCacheManager(
+        createConfigManager({ encryption }),
+        client,
+      );
+      await writer.initialize();
+      await writer.set('card', '4111', { encrypt: true });
+
+      const reader = new RedisCacheManager(
+        createConfigManager({
+          encryption: {
+            activeKeyId: 'k2',
+            keys: { k2: 'second-master-secret' },
+          },
+        }),
+        client,
+      );
+      await reader.initialize();
+
+      expect(await reader.get('card')).toBeNull();
+      expect(await client.exists('test:card')).toBe(0);
+      await writer.destroy();
+      await reader.destroy();
+    });
+  });
+});
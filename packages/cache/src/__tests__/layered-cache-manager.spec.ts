@@ -0,0 +1,374 @@
+/**
+ * 多级缓存管理器测试
+ *
+ * @description 测试L1内存 + L2 Redis的多级缓存读写、回填和策略
+ *
+ * @since 1.0.0
+ */
+
+import RedisMock from 'ioredis-mock';
+import type Redis from 'ioredis';
+import { LayeredCacheManager } from '../core/layered-cache-manager';
+import { SimpleCacheManager } from '../core/simple-cache-manager';
+import { RedisCacheManager } from '../core/redis-cache-manager';
+import { CacheLayerType, CacheStrategy } from '../interfaces/cache.interface';
+import type { ICacheLayerConfig } from '../interfaces/cache.interface';
+
+const createConfigManager = (defaultStrategy = 'hybrid'): any => ({
+  getModuleConfig: jest.fn().mockResolvedValue({
+    enabled: true,
+    defaultStrategy,
+    memory: {
+      maxSize: 100,
+      ttl: 300000,
+      checkPeriod: 60000,
+    },
+    redis: {
+      host: 'localhost',
+      port: 6379,
+      db: 0,
+      keyPrefix: 'layered:',
+      ttl: 3600,
+    },
+    strategies: {},
+  }),
+  onChange: jest.fn(),
+});
+
+const l1Config: ICacheLayerConfig = {
+  name: 'l1',
+  type: CacheLayerType.MEMORY,
+  enabled: true,
+  priority: 1,
+  readOnly: false,
+  options: { ttl: 60000 },
+};
+
+const l2Config: ICacheLayerConfig = {
+  name: 'l2',
+  type: CacheLayerType.REDIS,
+  enabled: true,
+  priority: 2,
+  readOnly: false,
+  options: {},
+};
+
+describe('LayeredCacheManager', () => {
+  let client: Redis;
+  let configManager: any;
+  let manager: LayeredCacheManager;
+
+  const getLayerService = async (name: string): Promise<any> => {
+    const layers = await manager.getAllLayers();
+    return layers.find((layer) => layer.name === name)!.service;
+  };
+
+  beforeEach(async () => {
+    client = new RedisMock() as unknown as Redis;
+    await client.flushall();
+    configManager = createConfigManager();
+    manager = new LayeredCacheManager(configManager, {
+      layers: [l2Config, l1Config],
+      redisClient: client,
+    });
+    await manager.initialize();
+  });
+
+  afterEach(async () => {
+    await manager.destroy();
+    client.disconnect();
+  });
+
+  describe('缓存层管理', () => {
+    it('应该按优先级排序缓存层', async () => {
+      const layers = await manager.getAllLayers();
+
+      expect(layers.map((layer) => layer.name)).toEqual(['l1', 'l2']);
+      expect(layers[0].service).toBeInstanceOf(SimpleCacheManager);
+      expect(layers[1].service).toBeInstanceOf(RedisCacheManager);
+    });
+
+    it('应该拒绝重复的缓存层名称', async () => {
+      await expect(manager.addLayer(l1Config)).rejects.toThrow(
+        '缓存层已存在: l1',
+      );
+    });
+
+    it('应该能够移除缓存层', async () => {
+      await manager.removeLayer('l1');
+
+      const layers = await manager.getAllLayers();
+      expect(layers.map((layer) => layer.name)).toEqual(['l2']);
+      await expect(manager.removeLayer('l1')).rejects.toThrow(
+        '缓存层不存在: l1',
+      );
+    });
+
+    it('未配置缓存层时应该根据hybrid配置生成L1和L2', async () => {
+      const defaultManager = new LayeredCacheManager(configManager, {
+        redisClient: client,
+      });
+
+      const layers = await defaultManager.getAllLayers();
+
+      expect(layers.map((layer) => layer.type)).toEqual([
+        CacheLayerType.MEMORY,
+        CacheLayerType.REDIS,
+      ]);
+      expect(layers[0].options.ttl).toBe(60000);
+      await defaultManager.destroy();
+    });
+  });
+
+  describe('读写', () => {
+    it('应该写穿到所有可写层', async () => {
+      await manager.set('tenant:config', { theme: 'dark' });
+
+      expect(await (await getLayerService('l1')).get('tenant:config')).toEqual({
+        theme: 'dark',
+      });
+      expect(await client.get('layered:tenant:config')).toBe(
+        JSON.stringify({ theme: 'dark' }),
+      );
+    });
+
+    it('在L2命中后应该回填L1', async () => {
+      const l2 = await getLayerService('l2');
+      const l1 = await getLayerService('l1');
+      await l2.set('hot', 'value');
+
+      expect(await l1.get('hot')).toBeNull();
+      expect(await manager.get('hot')).toBe('value');
+      expect(await l1.get('hot')).toBe('value');
+    });
+
+    it('L1写入应该使用较小的层TTL', async () => {
+      const l1 = await getLayerService('l1');
+      const setSpy = jest.spyOn(l1, 'set');
+
+      await manager.set('key', 'value', { ttl: 120000 });
+
+      expect(setSpy).toHaveBeenCalledWith(
+        'key',
+        'value',
+        expect.objectContaining({ ttl: 60000 }),
+      );
+      expect(await client.pttl('layered:key')).toBeGreaterThan(60000);
+    });
+
+    it('只读层不应该被写入或回填', async () => {
+      await manager.removeLayer('l1');
+      await manager.addLayer({ ...l1Config, readOnly: true });
+      const l1 = await getLayerService('l1');
+
+      await manager.set('key', 'value');
+      expect(await l1.get('key')).toBeNull();
+
+      expect(await manager.get('key')).toBe('value');
+      expect(await l1.get('key')).toBeNull();
+    });
+
+    it('删除应该作用于所有可写层', async () => {
+      await manager.set('key', 'value');
+
+      expect(await manager.delete('key')).toBe(true);
+      expect(await manager.exists('key')).toBe(false);
+      expect(await client.get('layered:key')).toBeNull();
+    });
+
+    it('条件写入应该以权威层的结果为准', async () => {
+      await manager.set('key', 'first');
+
+      expect(await manager.set('key', 'second', { overwrite: false })).toBe(
+        false,
+      );
+      expect(await manager.get('key')).toBe('first');
+    });
+
+    it('权威层写入失败时应该删除L1中的值', async () => {
+      const l1 = await getLayerService('l1');
+      const l2 = await getLayerService('l2');
+      await manager.set('key', 'first');
+      jest.spyOn(l2, 'set').mockRejectedValueOnce(new Error('L2 failure'));
+
+      expect(await manager.set('key', 'second')).toBe(false);
+      expect(await l1.get('key')).toBeNull();
+      expect(await manager.get('key')).toBe('first');
+    });
+
+    it('L1写入失败时不应该保留旧值', async () => {
+      const l1 = await getLayerService('l1');
+      await manager.set('key', 'first');
+      jest.spyOn(l1, 'set').mockResolvedValueOnce(false);
+
+      expect(await manager.set('key', 'second')).toBe(false);
+      expect(await l1.get('key')).toBeNull();
+      expect(await manager.get('key')).toBe('second');
+    });
+
+    it('某一层读取失败时应该继续读取下一层', async () => {
+      const l1 = await getLayerService('l1');
+      const l2 = await getLayerService('l2');
+      await l2.set('key', 'value');
+      jest.spyOn(l1, 'get').mockRejectedValueOnce(new Error('L1 failure'));
+
+      expect(await manager.get('key')).toBe('value');
+      expect((await manager.getStats()).errors).toBe(1);
+    });
+  });
+
+  describe('缓存策略', () => {
+    it('LFU策略下应该在达到阈值后才回填L1', async () => {
+      const l1 = await getLayerService('l1');
+      const l2 = await getLayerService('l2');
+      await l2.set('key', 'value');
+
+      await manager.get('key', { strategy: CacheStrategy.LFU });
+      expect(await l1.get('key')).toBeNull();
+
+      await manager.get('key', { strategy: CacheStrategy.LFU });
+      expect(await l1.get('key')).toBe('value');
+    });
+
+    it('回填计数应该只保留最近的键', async () => {
+      const bounded = new LayeredCacheManager(configManager, {
+        layers: [l1Config, l2Config],
+        redisClient: client,
+        maxPromotionCandidates: 2,
+      });
+      const layers = await bounded.getAllLayers();
+      const [l1, l2] = layers.map((layer) => layer.service);
+      for (const key of ['a', 'b', 'c']) {
+        await l2.set(key, key);
+        await bounded.get(key, { strategy: CacheStrategy.LFU });
+      }
+
+      // a的计数已被丢弃，再次命中只记一次
+      await bounded.get('a', { strategy: CacheStrategy.LFU });
+      await bounded.get('c', { strategy: CacheStrategy.LFU });
+
+      expect(await l1.get('a')).toBeNull();
+      expect(await l1.get('c')).toBe('c');
+      await bounded.destroy();
+    });
+
+    it('缓存层配置的策略应该生效', async () => {
+      await manager.removeLayer('l1');
+      await manager.addLayer({
+        ...l1Config,
+        options: { strategy: CacheStrategy.LFU },
+      });
+      const l1 = await getLayerService('l1');
+      const l2 = await getLayerService('l2');
+      await l2.set('key', 'value');
+
+      await manager.get('key');
+      expect(await l1.get('key')).toBeNull();
+    });
+  });
+
+  describe('批量操作与预热', () => {
+    it('应该执行批量操作并汇总结果', async () => {
+      const result = await manager.batch([
+        { type: 'set', key: 'a', value: 1 },
+        { type: 'get', key: 'a' },
+        { type: 'exists', key: 'b' },
+        { type: 'delete', key: 'a' },
+        { type: 'unknown' as any, key: 'c' },
+      ]);
+
+      expect(result.total).toBe(5);
+      expect(result.successful).toBe(4);
+      expect(result.failed).toBe(1);
+      expect(result.results[1].result).toBe(1);
+      expect(result.results[2].result).toBe(false);
+      expect(result.results[4].error).toBeInstanceOf(Error);
+    });
+
+    it('应该按优先级预热并记录失败', async () => {
+      const order: string[] = [];
+      const result = await manager.warmup([
+        {
+          key: 'low',
+          priority: 10,
+          loader: async () => {
+            order.push('low');
+            return 'low';
+          },
+        },
+        {
+          key: 'high',
+          priority: 1,
+          loader: async () => {
+            order.push('high');
+            return 'high';
+          },
+        },
+        {
+          key: 'broken',
+          loader: async () => {
+            throw new Error('loader failed');
+          },
+        },
+      ]);
+
+      expect(order).toEqual(['high', 'low']);
+      expect(result.successful).toBe(2);
+      expect(result.failed).toBe(1);
+      expect(await manager.get('high')).toBe('high');
+    });
+  });
+
+  describe('租户与监控', () => {
+    const tenantContext = { tenantId: 'tenant-a' } as any;
+
+    it('应该使用隔离后的键读写租户缓存', async () => {
+      await manager.setTenantCache('config', { plan: 'pro' }, tenantContext);
+
+      expect(await manager.get('tenant:tenant-a:config')).toEqual({
+        plan: 'pro',
+      });
+      expect(await manager.getTenantCache('config', tenantContext)).toEqual({
+        plan: 'pro',
+      });
+      expect(
+        await manager.getTenantCache('config', { tenantId: 'tenant-b' } as any),
+      ).toBeNull();
+    });
+
+    it('应该统计租户的命中情况', async () => {
+      await manager.setTenantCache('config', 'value', tenantContext);
+      await manager.getTenantCache('config', tenantContext);
+      await manager.getTenantCache('missing', tenantContext);
+
+      const stats = await manager.getTenantStats('tenant-a');
+
+      expect(stats.tenantId).toBe('tenant-a');
+      expect(stats.hits).toBe(1);
+      expect(stats.misses).toBe(1);
+      expect(stats.totalOperations).toBe(3);
+    });
+
+    it('租户的键数量和内存占用应该来自权威层', async () => {
+      await manager.setTenantCache('config', 'value', tenantContext);
+
+      const stats = await manager.getTenantStats('tenant-a');
+
+      expect(stats.tenantKeyCount).toBe(1);
+      expect(stats.tenantMemoryUsage).toBe(
+        'tenant:tenant-a:config'.length + '"value"'.length,
+      );
+    });
+
+    it('应该汇总各层健康状态并取最差状态', async () => {
+      const l2 = await getLayerService('l2');
+      jest.spyOn(l2, 'getHealth').mockRejectedValueOnce(new Error('down'));
+
+      const health = await manager.getHealth();
+
+      expect(health.overall).toBe('unhealthy');
+      expect(health.layers.map((layer) => layer.name)).toEqual(['l1', 'l2']);
+      expect(health.layers[1].message).toBe('down');
+    });
+  });
+});
@@ -0,0 +1,357 @@
+/**
+ * Redis缓存管理器测试
+ *
+ * @description 使用ioredis-mock作为Redis替身测试RedisCacheManager
+ *
+ * @since 1.0.0
+ */
+
+import RedisMock from 'ioredis-mock';
+import type Redis from 'ioredis';
+import { RedisCacheManager } from '../core/redis-cache-manager';
+import { CacheLayerType } from '../interfaces/cache.interface';
+
+// Mock配置管理器
+const mockConfigManager = {
+  getModuleConfig: jest.fn().mockResolvedValue({
+    enabled: true,
+    defaultStrategy: 'redis',
+    memory: {
+      maxSize: 100,
+      ttl: 300000,
+      checkPeriod: 60000,
+    },
+    redis: {
+      host: 'localhost',
+      port: 6379,
+      db: 0,
+      keyPrefix: 'test:',
+      ttl: 3600,
+    },
+    strategies: {},
+  }),
+  onChange: jest.fn(),
+} as any;
+
+describe('RedisCacheManager', () => {
+  let client: Redis;
+  let cacheManager: RedisCacheManager;
+
+  beforeEach(async () => {
+    client = new RedisMock() as unknown as Redis;
+    await client.flushall();
+    cacheManager = new RedisCacheManager(mockConfigManager, client);
+    await cacheManager.initialize();
+  });
+
+  afterEach(async () => {
+    await cacheManager.destroy();
+    client.disconnect();
+  });
+
+  describe('基础功能', () => {
+    it('应该能够设置和获取缓存值', async () => {
+      const value = { message: 'Hello World', count: 2 };
+
+      expect(await cacheManager.set('user:1', value)).toBe(true);
+      expect(await cacheManager.get('user:1')).toEqual(value);
+    });
+
+    it('应该为键加上配置的前缀', async () => {
+      await cacheManager.set('user:1', 'value');
+
+      expect(await client.get('test:user:1')).toBe('"value"');
+      expect(await client.get('user:1')).toBeNull();
+    });
+
+    it('应该能够检查和删除缓存', async () => {
+      await cacheManager.set('user:1', 'value');
+      expect(await cacheManager.exists('user:1')).toBe(true);
+
+      expect(await cacheManager.delete('user:1')).toBe(true);
+      expect(await cacheManager.exists('user:1')).toBe(false);
+      expect(await cacheManager.delete('user:1')).toBe(false);
+    });
+
+    it('应该只清空带有前缀的键', async () => {
+      await cacheManager.set('key1', 'value1');
+      await cacheManager.set('key2', 'value2');
+      await client.set('other:key', 'keep');
+
+      expect(await cacheManager.clear()).toBe(2);
+      expect(await cacheManager.exists('key1')).toBe(false);
+      expect(await client.get('other:key')).toBe('keep');
+    });
+
+    it('多个管理器实例应该共享同一份缓存', async () => {
+      const another = new RedisCacheManager(mockConfigManager, client);
+      await another.initialize();
+
+      await cacheManager.set('shared', { pod: 'a' });
+      expect(await another.get('shared')).toEqual({ pod: 'a' });
+
+      await another.destroy();
+    });
+  });
+
+  describe('写入选项', () => {
+    it('应该使用毫秒TTL并在过期后失效', async () => {
+      await cacheManager.set('ttl', 'value', { ttl: 100 });
+
+      const pttl = await client.pttl('test:ttl');
+      expect(pttl).toBeGreaterThan(0);
+      expect(pttl).toBeLessThanOrEqual(100);
+
+      await new Promise((resolve) => globalThis.setTimeout(resolve, 150));
+      expect(await cacheManager.get('ttl')).toBeNull();
+    });
+
+    it('未指定TTL时应该使用配置中的默认TTL', async () => {
+      await cacheManager.set('default-ttl', 'value');
+
+      const pttl = await client.pttl('test:default-ttl');
+      expect(pttl).toBeGreaterThan(3500 * 1000);
+    });
+
+    it('overwrite为false时不应该覆盖已有值', async () => {
+      await cacheManager.set('key', 'first');
+
+      expect(
+        await cacheManager.set('key', 'second', { overwrite: false }),
+      ).toBe(false);
+      expect(await cacheManager.get('key')).toBe('first');
+
+      expect(await cacheManager.set('new', 'value', { overwrite: false })).toBe(
+        true,
+      );
+    });
+
+    it('应该根据condition决定是否写入', async () => {
+      await cacheManager.set('counter', 1);
+
+      const rejected = await cacheManager.set('counter', 2, {
+        condition: (existing) => existing === 5,
+      });
+      expect(rejected).toBe(false);
+      expect(await cacheManager.get('counter')).toBe(1);
+
+      const accepted = await cacheManager.set('counter', 2, {
+        condition: (existing) => existing === 1,
+      });
+      expect(accepted).toBe(true);
+      expect(await cacheManager.get('counter')).toBe(2);
+    });
+
+    it('condition应该能够接收不存在的键', async () => {
+      const condition = jest.fn().mockReturnValue(true);
+
+      expect(await cacheManager.set('missing', 'value', { condition })).toBe(
+        true,
+      );
+      expect(condition).toHaveBeenCalledWith(null);
+    });
+
+    it('值在判断后被修改时条件写入应该失败', async () => {
+      await cacheManager.set('race', 'original');
+
+      const result = await cacheManager.set('race', 'mine', {
+        condition: () => {
+          // 模拟另一个实例在判断期间修改了值
+          void client.set('test:race', '"theirs"');
+          return true;
+        },
+      });
+
+      expect(result).toBe(false);
+      expect(await cacheManager.get('race')).toBe('theirs');
+    });
+  });
+
+  describe('加载', () => {
+    it('getOrSet写入的条目应该能够经过序列化往返', async () => {
+      const loader = jest.fn().mockResolvedValue({ id: '1' });
+
+      await cacheManager.getOrSet('user:1', loader, {
+        ttl: 1000,
+        softTtl: 500,
+      });
+      expect(await cacheManager.getOrSet('user:1', loader)).toEqual({
+        id: '1',
+      });
+      expect(loader).toHaveBeenCalledTimes(1);
+
+      const pttl = await client.pttl('test:user:1');
+      expect(pttl).toBeGreaterThan(0);
+      expect(pttl).toBeLessThanOrEqual(1000);
+    });
+
+    it('空结果应该使用negativeTtl作为Redis过期时间', async () => {
+      await cacheManager.getOrSet('missing', async () => null, {
+        negativeTtl: 200,
+      });
+
+      const pttl = await client.pttl('test:missing');
+      expect(pttl).toBeGreaterThan(0);
+      expect(pttl).toBeLessThanOrEqual(200);
+    });
+  });
+
+  describe('扫描与失效', () => {
+    beforeEach(async () => {
+      await cacheManager.set('user:1', 1);
+      await cacheManager.set('user:2', 2);
+      await cacheManager.set('user:*', 'literal');
+      await cacheManager.set('order:1', 3);
+      await client.set('other:user:3', '"foreign"');
+    });
+
+    it('应该分批扫描并返回去掉前缀的键', async () => {
+      const batches: string[][] = [];
+      for await (const keys of cacheManager.scan('user:?', { batchSize: 1 })) {
+        batches.push(keys);
+      }
+
+      expect(batches.flat().sort()).toEqual(['user:*', 'user:1', 'user:2']);
+    });
+
+    it('应该按前缀失效且不影响其他前缀的键', async () => {
+      const deleted = await cacheManager.evict('user:', { mode: 'prefix' });
+
+      expect(deleted).toBe(3);
+      expect(await cacheManager.exists('order:1')).toBe(true);
+      expect(await client.get('other:user:3')).toBe('"foreign"');
+    });
+
+    it('精确失效应该把模式字符视为普通字符', async () => {
+      expect(await cacheManager.evict('user:*')).toBe(1);
+      expect(await cacheManager.exists('user:1')).toBe(true);
+    });
+
+    it('应该按模式失效', async () => {
+      expect(await cacheManager.evict('*:1', { mode: 'pattern' })).toBe(2);
+    });
+
+    it('清空时只删除本实例前缀下的键', async () => {
+      expect(await cacheManager.clear()).toBe(4);
+      expect(await client.get('other:user:3')).toBe('"foreign"');
+    });
+  });
+
+  describe('统计与健康', () => {
+    it('应该统计命中和未命中', async () => {
+      await cacheManager.set('stat', 'value');
+      await cacheManager.get('stat');
+      await cacheManager.get('missing');
+
+      const stats = await cacheManager.getStats();
+
+      expect(stats.hits).toBe(1);
+      expect(stats.misses).toBe(1);
+      expect(stats.hitRate).toBe(0.5);
+      expect(stats.currentSize).toBe(1);
+      expect(stats.totalOperations).toBe(3);
+    });
+
+    it('应该统计其他实例写入的租户键和占用', async () => {
+      const other = new RedisCacheManager(mockConfigManager, client);
+      await other.set('tenant:t1:a', 'value');
+      await other.set('tenant:t1:b', 1);
+      await cacheManager.set('tenant:t2:a', 'value');
+      await cacheManager.get('tenant:t1:a');
+
+      const stats = await cacheManager.getTenantStats('t1');
+
+      expect(stats.tenantKeyCount).toBe(2);
+      expect(stats.tenantMemoryUsage).toBe(
+        'tenant:t1:a'.length + '"value"'.length + 'tenant:t1:b'.length + 1,
+      );
+      expect(stats.hits).toBe(1);
+      expect(stats.totalOperations).toBe(1);
+    });
+
+    it('应该提示占用过多缓存的租户', async () => {
+      await cacheManager.set('tenant:noisy:blob', 'x'.repeat(1000));
+      await cacheManager.set('tenant:quiet:config', 'y');
+
+      const health = await cacheManager.getHealth();
+
+      expect(health.overall).toBe('healthy');
+      expect(health.recommendations.join()).toContain('租户noisy');
+    });
+
+    it('健康检查不应该扫描整个键空间', async () => {
+      await cacheManager.set('user:1', 'value');
+      await cacheManager.set('tenant:t1:a', 'value');
+      const scan = jest.spyOn(client, 'scan');
+
+      await cacheManager.getHealth();
+
+      expect(scan).toHaveBeenCalledTimes(1);
+    });
+
+    it('键空间很大时统计应该按样本估算', async () => {
+      const pipeline = client.pipeline();
+      for (let index = 0; index < 3000; index++) {
+        pipeline.set(
+          index % 2 === 0 ? `test:tenant:big:${index}` : `other:${index}`,
+          'v',
+        );
+      }
+      await pipeline.exec();
+      const scan = jest.spyOn(client, 'scan');
+
+      const stats = await cacheManager.getStats();
+      const tenantStats = await cacheManager.getTenantStats('big');
+
+      // 每次统计最多检查1000个键，每次SCAN检查100个
+      expect(scan.mock.calls.length).toBeLessThanOrEqual(20);
+      expect(stats.currentSize).toBeGreaterThan(1200);
+      expect(stats.currentSize).toBeLessThan(1800);
+      expect(tenantStats.tenantKeyCount).toBeGreaterThan(1200);
+      expect(tenantStats.tenantKeyCount).toBeLessThan(1800);
+    });
+
+    it('应该报告Redis连接健康状态', async () => {
+      const health = await cacheManager.getHealth();
+
+      expect(health.overall).toBe('healthy');
+      expect(health.layers[0].type).toBe(CacheLayerType.REDIS);
+      expect(health.connections[0].connected).toBe(true);
+    });
+
+    it('Redis不可用时应该报告不健康', async () => {
+      jest.spyOn(client, 'ping').mockRejectedValueOnce(new Error('down'));
+
+      const health = await cacheManager.getHealth();
+
+      expect(health.overall).toBe('unhealthy');
+      expect(health.layers[0].message).toBe('down');
+      expect(health.recommendations.length).toBeGreaterThan(0);
+    });
+  });
+
+  describe('错误处理', () => {
+    it('应该在反序列化失败时抛出CacheSerializationError', async () => {
+      await client.set('test:broken', '{not json');
+
+      await expect(cacheManager.get('broken')).rejects.toMatchObject({
+        code: 'CACHE_SERIALIZATION_ERROR',
+      });
+      expect((await cacheManager.getStats()).errors).toBe(1);
+    });
+
+    it('应该拒绝无法序列化的值', async () => {
+      await expect(cacheManager.set('undefined', undefined)).rejects.toThrow(
+        '缓存值无法序列化为JSON',
+      );
+    });
+
+    it('不应该关闭外部传入的客户端', async () => {
+      const quit = jest.spyOn(client, 'quit');
+
+      await cacheManager.destroy();
+
+      expect(quit).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -30,6 +30,24 @@ const mockConfigManager = {
   onChange: jest.fn(),
 } as any;
 
+// 创建带自定义内存配置的管理器
+const createManager = async (
+  memory: Record<string, unknown>,
+): Promise<SimpleCacheManager> => {
+  const manager = new SimpleCacheManager({
+    getModuleConfig: jest.fn().mockResolvedValue({
+      enabled: true,
+      defaultStrategy: 'memory',
+      memory: { maxSize: 100, ttl: 300, checkPeriod: 60, ...memory },
+      redis: {},
+      strategies: {},
+    }),
+    onChange: jest.fn(),
+  } as any);
+  await manager.initialize();
+  return manager;
+};
+
 describe('SimpleCacheManager', () => {
   let cacheManager: SimpleCacheManager;
 
@@ -112,7 +130,7 @@ describe('SimpleCacheManager', () => {
       expect(await cacheManager.exists(key)).toBe(true);
 
       // 等待过期
-      await new Promise((resolve) => setTimeout(resolve, 150));
+      await new Promise((resolve) => globalThis.setTimeout(resolve, 150));
 
       // 验证已过期
       expect(await cacheManager.exists(key)).toBe(false);
@@ -133,6 +151,44 @@ describe('SimpleCacheManager', () => {
       expect(stats.lastUpdated).toBeInstanceOf(Date);
     });
 
+    it('应该统计命中、未命中和内存使用量', async () => {
+      await cacheManager.set('stat1', 'value1');
+      await cacheManager.get('stat1');
+      await cacheManager.get('stat1');
+      await cacheManager.get('missing');
+
+      const stats = await cacheManager.getStats();
+
+      expect(stats.totalOperations).toBe(4);
+      expect(stats.hits).toBe(2);
+      expect(stats.misses).toBe(1);
+      expect(stats.hitRate).toBeCloseTo(2 / 3);
+      expect(stats.maxSize).toBe(10000);
+      expect(stats.memoryUsage).toBe('stat1'.length + '"value1"'.length);
+
+      await cacheManager.delete('stat1');
+      expect((await cacheManager.getStats()).memoryUsage).toBe(0);
+    });
+
+    it('应该按租户统计操作和占用', async () => {
+      await cacheManager.set('tenant:t1:config', { plan: 'pro' });
+      await cacheManager.set('tenant:t1:config', { plan: 'enterprise' });
+      await cacheManager.set('tenant:t2:config', 'x');
+      await cacheManager.get('tenant:t1:config');
+      await cacheManager.get('tenant:t1:missing');
+
+      const stats = await cacheManager.getTenantStats('t1');
+
+      expect(stats.tenantId).toBe('t1');
+      expect(stats.totalOperations).toBe(4);
+      expect(stats.hits).toBe(1);
+      expect(stats.misses).toBe(1);
+      expect(stats.tenantKeyCount).toBe(1);
+      expect(stats.tenantMemoryUsage).toBe(
+        'tenant:t1:config'.length + '{"plan":"enterprise"}'.length,
+      );
+    });
+
     it('应该能够获取健康状态', async () => {
       const health = await cacheManager.getHealth();
 
@@ -141,6 +197,113 @@ describe('SimpleCacheManager', () => {
       expect(health.layers).toHaveLength(1);
       expect(health.layers[0].name).toBe('memory');
     });
+
+    it('缓存接近容量上限时应该降级并给出建议', async () => {
+      const manager = await createManager({ maxEntries: 100 });
+      for (let index = 0; index < 95; index++) {
+        await manager.set(`key:${index}`, index);
+      }
+
+      const health = await manager.getHealth();
+
+      expect(health.overall).toBe('degraded');
+      expect(health.recommendations.join()).toContain('容量使用率');
+      await manager.destroy();
+    });
+
+    it('应该提示占用过多缓存的租户', async () => {
+      await cacheManager.set('tenant:noisy:blob', 'x'.repeat(1000));
+      await cacheManager.set('tenant:quiet:config', 'y');
+
+      const health = await cacheManager.getHealth();
+
+      expect(health.recommendations.join()).toContain('租户noisy');
+    });
+  });
+
+  describe('容量限制', () => {
+    let manager: SimpleCacheManager;
+
+    afterEach(async () => {
+      await manager.destroy();
+    });
+
+    it('LRU策略应该淘汰最久未使用的键', async () => {
+      manager = await createManager({ maxEntries: 2, evictionPolicy: 'lru' });
+      await manager.set('a', 1);
+      await manager.set('b', 2);
+      await manager.get('a');
+      await manager.set('c', 3);
+
+      expect(await manager.exists('a')).toBe(true);
+      expect(await manager.exists('b')).toBe(false);
+      expect(await manager.exists('c')).toBe(true);
+      expect((await manager.getStats()).evictions).toBe(1);
+    });
+
+    it('LFU策略应该淘汰访问次数最少的键', async () => {
+      manager = await createManager({ maxEntries: 2, evictionPolicy: 'lfu' });
+      await manager.set('a', 1);
+      await manager.set('b', 2);
+      await manager.get('a');
+      await manager.get('a');
+      await manager.get('b');
+      await manager.set('c', 3);
+
+      expect(await manager.exists('a')).toBe(true);
+      expect(await manager.exists('b')).toBe(false);
+      expect(await manager.exists('c')).toBe(true);
+    });
+
+    it('应该按内存上限淘汰', async () => {
+      // 1KB 内存上限
+      manager = await createManager({ maxSize: 1 / 1024 });
+      await manager.set('first', 'x'.repeat(600));
+      await manager.set('second', 'y'.repeat(600));
+
+      const stats = await manager.getStats();
+      expect(stats.currentSize).toBe(1);
+      expect(stats.memoryUsage).toBeLessThanOrEqual(1024);
+      expect(await manager.exists('second')).toBe(true);
+    });
+
+    it('单个条目超过内存上限时应该拒绝写入并删除旧值', async () => {
+      manager = await createManager({ maxSize: 1 / 1024 });
+      await manager.set('big', 'small');
+
+      expect(await manager.set('big', 'x'.repeat(2000))).toBe(false);
+      expect(await manager.exists('big')).toBe(false);
+    });
+  });
+
+  describe('后台过期清理', () => {
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('应该定期清理过期条目', async () => {
+      jest.useFakeTimers();
+      const manager = await createManager({ checkPeriod: 1 });
+      await manager.set('short', 'value', { ttl: 500 });
+      await manager.set('long', 'value', { ttl: 60000 });
+
+      jest.advanceTimersByTime(1000);
+
+      // 直接检查内部存储，getStats() 本身也会清理过期条目
+      expect((manager as any).cache.size).toBe(1);
+      expect((await manager.getStats()).expirations).toBe(1);
+      await manager.destroy();
+    });
+
+    it('destroy应该停止后台清理', async () => {
+      jest.useFakeTimers();
+      const manager = await createManager({ checkPeriod: 1 });
+      expect(jest.getTimerCount()).toBe(1);
+
+      await manager.destroy();
+
+      expect(jest.getTimerCount()).toBe(0);
+    });
   });
 
   describe('错误处理', () => {
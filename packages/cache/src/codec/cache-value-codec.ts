@@ -0,0 +1,400 @@
+/**
+ * 缓存值编解码器
+ *
+ * @description 缓存值写入存储前的处理管道：JSON序列化 → 压缩（可选） → 加密（可选）
+ * 读取时按条目头部记录的处理步骤逆向还原
+ *
+ * ## 业务规则
+ *
+ * ### 压缩规则
+ * - 写入选项 compress 未指定时使用配置的 compression.enabled
+ * - 只有序列化结果达到 compression.threshold 字节时才压缩（gzip）
+ *
+ * ### 加密规则
+ * - 写入选项 encrypt 为 true，或 sensitivity 属于配置的敏感级别时加密（默认 sensitive/high/confidential）
+ * - 敏感级别的值必须加密，未配置密钥时拒绝写入
+ * - 使用AES-256-GCM，每个租户的数据密钥由主密钥通过HKDF派生，租户从 `tenant:{tenantId}:` 前缀解析
+ * - 缓存键作为附加认证数据，密文不能被移动到其他键下使用
+ *
+ * ### 密钥轮换规则
+ * - 条目头部记录加密使用的密钥ID，写入始终使用 activeKeyId 对应的密钥
+ * - 轮换时先加入新密钥并切换 activeKeyId，旧密钥保留到用它加密的条目全部过期
+ * - 使用已移除密钥加密的条目视为无法读取，由缓存实现按未命中处理，无需清空缓存
+ *
+ * ### 存储格式
+ * - 未压缩也未加密的值就是JSON字符串，与未启用编解码器时一致
+ * - 处理过的值格式为 `$acv1:{步骤}:{密钥ID}:{base64载荷}`，JSON文本不会以 `$` 开头
+ *
+ * @since 1.0.0
+ */
+
+import {
+  createCipheriv,
+  createDecipheriv,
+  hkdfSync,
+  randomBytes,
+} from 'crypto';
+import { gunzipSync, gzipSync } from 'zlib';
+import type {
+  ICacheOptions,
+  ICacheContext,
+} from '../interfaces/cache.interface';
+import {
+  CacheSerializationError,
+  DataSensitivity,
+} from '../interfaces/cache.interface';
+import { extractTenantId } from '../monitoring/cache-stats-collector';
+import type { CacheTenantResolver } from '../monitoring/cache-stats-collector';
+
+/**
+ * 编码条目头部
+ */
+const ENCODED_PREFIX = '$acv1:';
+
+/**
+ * 默认压缩阈值（字节）
+ */
+const DEFAULT_COMPRESSION_THRESHOLD = 1024;
+
+/**
+ * 默认需要加密的敏感级别
+ */
+const DEFAULT_SENSITIVE_LEVELS = [
+  DataSensitivity.SENSITIVE,
+  DataSensitivity.HIGH,
+  DataSensitivity.CONFIDENTIAL,
+];
+
+/**
+ * AES-GCM初始向量长度
+ */
+const IV_LENGTH = 12;
+
+/**
+ * AES-GCM认证标签长度
+ */
+const AUTH_TAG_LENGTH = 16;
+
+/**
+ * 密钥ID格式，不能包含头部分隔符
+ */
+const KEY_ID_PATTERN = /^[\w.-]+$/;
+
+/**
+ * 缓存值编解码配置
+ */
+export interface ICacheCodecConfig {
+  /** 压缩配置 */
+  compression?: {
+    /** 写入选项未指定compress时是否压缩，默认false */
+    enabled?: boolean;
+    /** 压缩阈值（字节），默认1024 */
+    threshold?: number;
+  };
+  /** 加密配置 */
+  encryption?: {
+    /** 写入使用的密钥ID */
+    activeKeyId: string;
+    /** 密钥ID到主密钥的映射，保留旧密钥用于读取 */
+    keys: Record<string, string>;
+  };
+  /** 自动加密的敏感级别 */
+  sensitiveLevels?: DataSensitivity[];
+}
+
+/**
+ * 缓存值编解码器
+ */
+export class CacheValueCodec {
+  private readonly compressionEnabled: boolean;
+  private readonly compressionThreshold: number;
+  private readonly activeKeyId: string | undefined;
+  private readonly masterKeys: Map<string, Buffer>;
+  private readonly sensitiveLevels: Set<DataSensitivity>;
+  private readonly derivedKeys = new Map<string, Buffer>();
+
+  /**
+   * @param config - 编解码配置
+   * @param tenantResolver - 从缓存键解析租户ID，用于派生租户数据密钥
+   */
+  constructor(
+    config: ICacheCodecConfig = {},
+    private readonly tenantResolver: CacheTenantResolver = extractTenantId,
+  ) {
+    this.compressionEnabled = config.compression?.enabled ?? false;
+    this.compressionThreshold =
+      config.compression?.threshold ?? DEFAULT_COMPRESSION_THRESHOLD;
+    this.sensitiveLevels = new Set(
+      config.sensitiveLevels ?? DEFAULT_SENSITIVE_LEVELS,
+    );
+
+    this.masterKeys = new Map();
+    for (const [keyId, secret] of Object.entries(
+      config.encryption?.keys ?? {},
+    )) {
+      if (!KEY_ID_PATTERN.test(keyId)) {
+        throw new Error(`缓存加密密钥ID格式无效: ${keyId}`);
+      }
+      if (!secret) {
+        throw new Error(`缓存加密密钥为空: ${keyId}`);
+      }
+      this.masterKeys.set(keyId, Buffer.from(secret));
+    }
+
+    this.activeKeyId = config.encryption?.activeKeyId;
+    if (this.activeKeyId && !this.masterKeys.has(this.activeKeyId)) {
+      throw new Error(`缓存加密密钥不存在: ${this.activeKeyId}`);
+    }
+  }
+
+  /**
+   * 写入选项是否需要压缩或加密
+   *
+   * @description 不需要时内存缓存可以直接保存原始值
+   */
+  requiresEncoding(options?: ICacheOptions): boolean {
+    return this.shouldCompress(options) || this.shouldEncrypt(options);
+  }
+
+  /**
+   * 编码缓存值
+   *
+   * @param key - 缓存键（不含存储前缀）
+   * @param value - 缓存值
+   * @param options - 写入选项
+   * @returns 存储格式的字符串
+   */
+  encode(key: string, value: unknown, options?: ICacheOptions): string {
+    const json = this.serialize(key, value);
+    const encrypt = this.shouldEncrypt(options);
+    let payload: Buffer = Buffer.from(json);
+    let steps = '';
+
+    if (
+      this.shouldCompress(options) &&
+      payload.length >= this.compressionThreshold
+    ) {
+      payload = gzipSync(payload);
+      steps += 'c';
+    }
+
+    let keyId = '';
+    if (encrypt) {
+      if (!this.activeKeyId) {
+        throw new CacheSerializationError(
+          '缓存值需要加密，但未配置加密密钥',
+          createContext('set', key),
+        );
+      }
+      keyId = this.activeKeyId;
+      payload = this.encrypt(key, keyId, payload);
+      steps += 'e';
+    }
+
+    if (!steps) {
+      return json;
+    }
+    return `${ENCODED_PREFIX}${steps}:${keyId}:${payload.toString('base64')}`;
+  }
+
+  /**
+   * 解码缓存值
+   *
+   * @param key - 缓存键（不含存储前缀）
+   * @param raw - 存储格式的字符串
+   * @returns 缓存值
+   */
+  decode<T>(key: string, raw: string): T {
+    if (!raw.startsWith(ENCODED_PREFIX)) {
+      return this.deserialize<T>(key, raw);
+    }
+
+    const { steps, keyId, payload } = this.parse(key, raw);
+    let data: Buffer = Buffer.from(payload, 'base64');
+
+    try {
+      if (steps.includes('e')) {
+        data = this.decrypt(key, keyId, data);
+      }
+      if (steps.includes('c')) {
+        data = gunzipSync(data);
+      }
+    } catch (error) {
+      throw new CacheSerializationError(
+        `缓存值解码失败: ${error instanceof Error ? error.message : String(error)}`,
+        createContext('get', key),
+      );
+    }
+
+    return this.deserialize<T>(key, data.toString());
+  }
+
+  /**
+   * 条目是否可以解码
+   *
+   * @description 使用已移除密钥加密的条目返回false，其他情况返回true（格式错误由decode报告）
+   */
+  isDecodable(raw: string): boolean {
+    if (!raw.startsWith(ENCODED_PREFIX)) {
+      return true;
+    }
+
+    const [steps, keyId] = raw.slice(ENCODED_PREFIX.length).split(':', 2);
+    return !steps?.includes('e') || this.masterKeys.has(keyId ?? '');
+  }
+
+  // ==================== 私有方法 ====================
+
+  /**
+   * 是否压缩
+   */
+  private shouldCompress(options?: ICacheOptions): boolean {
+    return options?.compress ?? this.compressionEnabled;
+  }
+
+  /**
+   * 是否加密
+   */
+  private shouldEncrypt(options?: ICacheOptions): boolean {
+    return (
+      options?.encrypt === true ||
+      (options?.sensitivity !== undefined &&
+        this.sensitiveLevels.has(options.sensitivity))
+    );
+  }
+
+  /**
+   * 序列化为JSON
+   */
+  private serialize(key: string, value: unknown): string {
+    let json: string | undefined;
+    try {
+      json = JSON.stringify(value);
+    } catch (error) {
+      throw new CacheSerializationError(
+        `缓存值序列化失败: ${error instanceof Error ? error.message : String(error)}`,
+        createContext('set', key),
+      );
+    }
+
+    if (json === undefined) {
+      throw new CacheSerializationError(
+        '缓存值无法序列化为JSON',
+        createContext('set', key),
+      );
+    }
+    return json;
+  }
+
+  /**
+   * 从JSON反序列化
+   */
+  private deserialize<T>(key: string, json: string): T {
+    try {
+      return JSON.parse(json) as T;
+    } catch (error) {
+      throw new CacheSerializationError(
+        `缓存值反序列化失败: ${error instanceof Error ? error.message : String(error)}`,
+        createContext('get', key),
+      );
+    }
+  }
+
+  /**
+   * 解析条目头部
+   */
+  private parse(
+    key: string,
+    raw: string,
+  ): { steps: string; keyId: string; payload: string } {
+    const body = raw.slice(ENCODED_PREFIX.length);
+    const first = body.indexOf(':');
+    const second = body.indexOf(':', first + 1);
+    if (first < 0 || second < 0) {
+      throw new CacheSerializationError(
+        '缓存值格式无效',
+        createContext('get', key),
+      );
+    }
+
+    return {
+      steps: body.slice(0, first),
+      keyId: body.slice(first + 1, second),
+      payload: body.slice(second + 1),
+    };
+  }
+
+  /**
+   * AES-256-GCM加密，输出为 IV | 认证标签 | 密文
+   */
+  private encrypt(key: string, keyId: string, plaintext: Buffer): Buffer {
+    const iv = randomBytes(IV_LENGTH);
+    const cipher = createCipheriv(
+      'aes-256-gcm',
+      this.deriveKey(keyId, this.tenantResolver(key)),
+      iv,
+    );
+    cipher.setAAD(Buffer.from(key));
+    const ciphertext = Buffer.concat([
+      cipher.update(plaintext),
+      cipher.final(),
+    ]);
+    return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]);
+  }
+
+  /**
+   * AES-256-GCM解密
+   */
+  private decrypt(key: string, keyId: string, data: Buffer): Buffer {
+    if (!this.masterKeys.has(keyId)) {
+      throw new Error(`缓存加密密钥不存在: ${keyId}`);
+    }
+
+    const iv = data.subarray(0, IV_LENGTH);
+    const authTag = data.subarray(IV_LENGTH, IV_LENGTH + AUTH_TAG_LENGTH);
+    const ciphertext = data.subarray(IV_LENGTH + AUTH_TAG_LENGTH);
+
+    const decipher = createDecipheriv(
+      'aes-256-gcm',
+      this.deriveKey(keyId, this.tenantResolver(key)),
+      iv,
+    );
+    decipher.setAAD(Buffer.from(key));
+    decipher.setAuthTag(authTag);
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+  }
+
+  /**
+   * 派生租户数据密钥
+   *
+   * @description 不带租户前缀的键使用共享的数据密钥
+   */
+  private deriveKey(keyId: string, tenantId: string | undefined): Buffer {
+    const cacheKey = `${keyId}:${tenantId ?? ''}`;
+    let derived = this.derivedKeys.get(cacheKey);
+    if (!derived) {
+      derived = Buffer.from(
+        hkdfSync(
+          'sha256',
+          this.masterKeys.get(keyId)!,
+          `aiofix-cache:${keyId}`,
+          tenantId === undefined ? 'shared' : `tenant:${tenantId}`,
+          32,
+        ),
+      );
+      this.derivedKeys.set(cacheKey, derived);
+    }
+    return derived;
+  }
+}
+
+/**
+ * 创建缓存操作上下文
+ */
+function createContext(
+  operation: ICacheContext['operation'],
+  key: string,
+): ICacheContext {
+  const now = new Date();
+  return { operation, key, startTime: now, timestamp: now };
+}
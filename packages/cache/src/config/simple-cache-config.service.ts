@@ -9,6 +9,8 @@
 
 import { Injectable } from '@nestjs/common';
 import type { IConfigManager } from '@aiofix/config';
+import type { CacheEvictionPolicyType } from '../strategies/cache-eviction.strategy';
+import type { ICacheCodecConfig } from '../codec/cache-value-codec';
 
 /**
  * 简化Cache配置接口
@@ -17,17 +19,26 @@ export interface ISimpleCacheConfig {
   enabled: boolean;
   defaultStrategy: string;
   memory: {
+    /** 内存上限（MB） */
     maxSize: number;
     ttl: number;
+    /** 过期清理周期（秒） */
     checkPeriod: number;
+    /** 最大缓存项数量，默认10000 */
+    maxEntries?: number;
+    /** 淘汰策略 */
+    evictionPolicy?: CacheEvictionPolicyType;
   };
   redis: {
     host: string;
     port: number;
+    password?: string;
     db: number;
     keyPrefix: string;
     ttl: number;
   };
+  /** 缓存值压缩和加密配置 */
+  codec?: ICacheCodecConfig;
   strategies: Record<string, unknown>;
 }
 
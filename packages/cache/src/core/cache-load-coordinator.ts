@@ -0,0 +1,178 @@
+/**
+ * 缓存加载协调器
+ *
+ * @description 为各缓存实现提供统一的getOrSet语义
+ * 只依赖缓存服务的get/set/delete，统计、隔离和分层由缓存实现自身负责
+ *
+ * ## 业务规则
+ *
+ * ### 并发合并规则
+ * - 同一个键同时只有一个加载在进行，并发的未命中请求共享同一次加载结果
+ * - 加载失败时所有等待者收到同一个错误，下一次请求会重新加载
+ * - 合并只在当前进程内生效
+ *
+ * ### 软过期规则
+ * - 设置softTtl时，条目在软过期后仍返回旧值，同时在后台刷新
+ * - 后台刷新失败时保留旧值直到硬过期（ttl），错误交给onRefreshError处理
+ *
+ * ### 空结果缓存规则
+ * - 加载函数返回null或undefined视为数据源中不存在
+ * - 设置negativeTtl时按该时间缓存空结果，否则删除已缓存的旧值
+ *
+ * ### 条目格式
+ * - getOrSet写入的是带标记的条目，缓存实现的get返回条目中的值，缓存的空结果按未命中返回null
+ * - 协调器通过 rawEntry 读取条目本身，以判断软过期
+ * - 通过set写入的普通值也能被getOrSet读取，视为永不软过期
+ *
+ * @example
+ * ```typescript
+ * const user = await cache.getOrSet(
+ *   `user:${id}`,
+ *   () => repository.findById(id),
+ *   { ttl: 600000, softTtl: 60000, negativeTtl: 5000 },
+ * );
+ * ```
+ *
+ * @since 1.0.0
+ */
+
+import type {
+  ICacheService,
+  ICacheGetOrSetOptions,
+  CacheLoader,
+} from '../interfaces/cache.interface';
+
+/**
+ * getOrSet写入的缓存条目
+ */
+interface ILoadedCacheEntry<T> {
+  /** 条目标记 */
+  __loaded: true;
+  /** 加载结果，null表示数据源中不存在 */
+  value: T | null;
+  /** 软过期时间戳（毫秒） */
+  staleAt?: number;
+}
+
+/**
+ * 后台刷新错误处理函数
+ */
+export type CacheRefreshErrorHandler = (key: string, error: unknown) => void;
+
+/**
+ * 缓存加载协调器
+ */
+export class CacheLoadCoordinator {
+  private readonly pending = new Map<string, Promise<unknown>>();
+
+  constructor(
+    private readonly cache: Pick<ICacheService, 'get' | 'set' | 'delete'>,
+    private readonly onRefreshError: CacheRefreshErrorHandler = () => {},
+  ) {}
+
+  /**
+   * 获取缓存值，未命中时加载并写入
+   *
+   * @param key - 缓存键
+   * @param loader - 加载函数
+   * @param options - 加载选项
+   * @returns 缓存值或加载结果
+   */
+  async getOrSet<T>(
+    key: string,
+    loader: CacheLoader<T>,
+    options: ICacheGetOrSetOptions = {},
+  ): Promise<T | null> {
+    if (!options.refresh) {
+      const cached = await this.cache.get<unknown>(key, { rawEntry: true });
+      if (cached !== null) {
+        const entry = toLoadedEntry<T>(cached);
+        if (entry.staleAt !== undefined && Date.now() >= entry.staleAt) {
+          this.load(key, loader, options).catch((error) =>
+            this.onRefreshError(key, error),
+          );
+        }
+        return entry.value;
+      }
+    }
+
+    return this.load(key, loader, options);
+  }
+
+  // ==================== 私有方法 ====================
+
+  /**
+   * 加载并写入缓存，同一个键的并发调用共享同一次加载
+   */
+  private load<T>(
+    key: string,
+    loader: CacheLoader<T>,
+    options: ICacheGetOrSetOptions,
+  ): Promise<T | null> {
+    const pending = this.pending.get(key);
+    if (pending) {
+      return pending as Promise<T | null>;
+    }
+
+    const promise = (async (): Promise<T | null> => {
+      const value = (await loader()) ?? null;
+      await this.store(key, value, options);
+      return value;
+    })().finally(() => this.pending.delete(key));
+
+    this.pending.set(key, promise);
+    return promise;
+  }
+
+  /**
+   * 写入加载结果
+   */
+  private async store<T>(
+    key: string,
+    value: T | null,
+    options: ICacheGetOrSetOptions,
+  ): Promise<void> {
+    if (value === null) {
+      if (options.negativeTtl && options.negativeTtl > 0) {
+        await this.cache.set<ILoadedCacheEntry<T>>(
+          key,
+          { __loaded: true, value: null },
+          { ...options, ttl: options.negativeTtl },
+        );
+      } else {
+        await this.cache.delete(key);
+      }
+      return;
+    }
+
+    const entry: ILoadedCacheEntry<T> = { __loaded: true, value };
+    if (options.softTtl && options.softTtl > 0) {
+      entry.staleAt = Date.now() + options.softTtl;
+    }
+    await this.cache.set(key, entry, options);
+  }
+}
+
+/**
+ * 取出getOrSet写入的条目中的值，普通值原样返回
+ *
+ * @param cached - 缓存中读到的值
+ * @returns 条目中的值，缓存的空结果返回null
+ */
+export function unwrapLoadedEntry<T>(cached: unknown): T | null {
+  return toLoadedEntry<T>(cached).value;
+}
+
+/**
+ * 将缓存值转换为加载条目，普通值视为永不软过期
+ */
+function toLoadedEntry<T>(cached: unknown): ILoadedCacheEntry<T> {
+  if (
+    typeof cached === 'object' &&
+    cached !== null &&
+    (cached as ILoadedCacheEntry<T>).__loaded === true
+  ) {
+    return cached as ILoadedCacheEntry<T>;
+  }
+  return { __loaded: true, value: cached as T };
+}
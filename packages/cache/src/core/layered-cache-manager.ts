@@ -0,0 +1,954 @@
+/**
+ * 多级缓存管理器
+ *
+ * @description IUnifiedCacheManager的多级缓存实现
+ * 典型部署为进程内L1内存缓存 + 共享L2 Redis缓存，用于租户配置等热点数据
+ *
+ * ## 业务规则
+ *
+ * ### 读取规则
+ * - 按优先级（数字越小优先级越高）依次读取已启用的缓存层
+ * - 在较慢的层命中后，回填到所有更快的可写层
+ * - 单个缓存层读取失败时跳过该层继续读取，不影响整体可用性
+ *
+ * ### 写入规则
+ * - 写入、删除穿透到所有已启用且非只读的缓存层
+ * - 只有所有可写层都成功时才视为写入成功
+ * - 写入失败时删除更快层中的该键，避免L1保留权威层没有存储的值
+ * - 写入某层时TTL取操作TTL与该层配置TTL中较小的值
+ *
+ * ### 策略规则
+ * - 操作选项中的strategy优先，其次是缓存层配置，最后是全局默认策略
+ * - LFU/ADAPTIVE：键在较慢层命中达到阈值后才回填，避免冷数据挤占L1
+ * - 回填计数最多记录 maxPromotionCandidates 个键，超出时丢弃最早记录的键
+ * - LRU/FIFO/TTL：命中后立即回填，淘汰顺序由缓存层自身负责
+ *
+ * @example
+ * ```typescript
+ * const manager = new LayeredCacheManager(configManager, {
+ *   layers: [
+ *     { name: 'l1', type: CacheLayerType.MEMORY, enabled: true, priority: 1, readOnly: false, options: { ttl: 60000 } },
+ *     { name: 'l2', type: CacheLayerType.REDIS, enabled: true, priority: 2, readOnly: false, options: {} },
+ *   ],
+ * });
+ * await manager.initialize();
+ *
+ * const config = await manager.get('tenant:abc:config');
+ * ```
+ *
+ * @since 1.0.0
+ */
+
+import { Injectable } from '@nestjs/common';
+import { performance } from 'perf_hooks';
+import type Redis from 'ioredis';
+import type { IConfigManager } from '@aiofix/config';
+import type {
+  IUnifiedCacheManager,
+  ICacheService,
+  ICacheLayer,
+  ICacheLayerConfig,
+  ICacheGetOptions,
+  ICacheSetOptions,
+  ICacheGetOrSetOptions,
+  CacheLoader,
+  ICacheEvictOptions,
+  ICacheScanOptions,
+  ICacheOptions,
+  ICacheStats,
+  ICacheHealth,
+  ICacheOperation,
+  ICacheBatchResult,
+  ICacheWarmupItem,
+  ICacheWarmupResult,
+  ICacheCleanupResult,
+  ICacheTenantStats,
+  ICacheIsolationStrategy,
+  TenantContext,
+} from '../interfaces/cache.interface';
+import {
+  CacheLayerType,
+  CacheStrategy,
+  CacheIsolationLevel,
+  CacheOperationError,
+} from '../interfaces/cache.interface';
+import type { ISimpleCacheConfig } from '../config/simple-cache-config.service';
+import { CacheIsolationStrategy } from '../strategies/cache-isolation.strategy';
+import { SimpleCacheManager } from './simple-cache-manager';
+import { RedisCacheManager } from './redis-cache-manager';
+import { CacheLoadCoordinator } from './cache-load-coordinator';
+import { CacheStatsCollector } from '../monitoring/cache-stats-collector';
+import {
+  evaluateCacheHealth,
+  worseHealthStatus,
+} from '../monitoring/cache-health-evaluator';
+
+/**
+ * 默认L1缓存TTL（毫秒）
+ */
+const DEFAULT_L1_TTL = 60000;
+
+/**
+ * 默认最多记录回填计数的键数
+ */
+const DEFAULT_MAX_PROMOTION_CANDIDATES = 10000;
+
+/**
+ * 缓存层服务工厂
+ */
+export type CacheLayerServiceFactory = (
+  config: ICacheLayerConfig,
+) => ICacheService;
+
+/**
+ * 多级缓存管理器选项
+ */
+export interface ILayeredCacheManagerOptions {
+  /** 缓存层配置，未提供时根据cache配置的defaultStrategy生成 */
+  layers?: ICacheLayerConfig[];
+  /** 缓存层服务工厂，未提供时按缓存层类型创建内置实现 */
+  layerFactory?: CacheLayerServiceFactory;
+  /** 内置Redis缓存层使用的客户端（可选） */
+  redisClient?: Redis;
+  /** 默认缓存策略 */
+  defaultStrategy?: CacheStrategy;
+  /** 租户缓存隔离级别 */
+  isolationLevel?: CacheIsolationLevel;
+  /** LFU/ADAPTIVE策略下的回填阈值（较慢层命中次数） */
+  promotionThreshold?: number;
+  /** 最多记录回填计数的键数，默认10000 */
+  maxPromotionCandidates?: number;
+}
+
+/**
+ * 带生命周期的缓存服务
+ */
+interface ILifecycleCacheService extends ICacheService {
+  initialize(): Promise<void>;
+  destroy(): Promise<void>;
+}
+
+/**
+ * 可提供租户统计的缓存服务
+ */
+interface ITenantStatsCacheService extends ICacheService {
+  getTenantStats(tenantId: string): Promise<ICacheTenantStats>;
+}
+
+/**
+ * 多级缓存管理器实现
+ */
+@Injectable()
+export class LayeredCacheManager implements IUnifiedCacheManager {
+  private layers: ICacheLayer[] = [];
+  private readonly layerFactory: CacheLayerServiceFactory;
+  private readonly defaultStrategy: CacheStrategy;
+  private readonly promotionThreshold: number;
+  private readonly maxPromotionCandidates: number;
+  private readonly isolationStrategy: ICacheIsolationStrategy;
+  private readonly promotionCandidates = new Map<string, number>();
+  private readonly stats = new CacheStatsCollector();
+  private readonly loadCoordinator = new CacheLoadCoordinator(
+    this,
+    (key, error) => {
+      this.stats.recordError(key);
+      console.warn(`缓存后台刷新失败: ${key}`, error);
+    },
+  );
+  private initialized = false;
+
+  constructor(
+    private readonly configManager: IConfigManager,
+    private readonly options: ILayeredCacheManagerOptions = {},
+  ) {
+    this.layerFactory =
+      options.layerFactory ??
+      ((config): ICacheService => this.createLayerService(config));
+    this.defaultStrategy = options.defaultStrategy ?? CacheStrategy.LRU;
+    this.promotionThreshold = options.promotionThreshold ?? 2;
+    this.maxPromotionCandidates =
+      options.maxPromotionCandidates ?? DEFAULT_MAX_PROMOTION_CANDIDATES;
+    this.isolationStrategy = new CacheIsolationStrategy(
+      options.isolationLevel ?? CacheIsolationLevel.TENANT,
+      this,
+    );
+  }
+
+  /**
+   * 初始化缓存管理器
+   */
+  async initialize(): Promise<void> {
+    if (this.initialized) {
+      return;
+    }
+
+    const layerConfigs =
+      this.options.layers ?? (await this.resolveDefaultLayers());
+
+    // 先标记为已初始化，避免addLayer再次触发初始化
+    this.initialized = true;
+    try {
+      for (const config of layerConfigs) {
+        await this.addLayer(config);
+      }
+    } catch (error) {
+      await this.destroy();
+      throw new Error(
+        `LayeredCacheManager初始化失败: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * 销毁缓存管理器
+   */
+  async destroy(): Promise<void> {
+    const layers = this.layers;
+    this.layers = [];
+
+    for (const layer of layers) {
+      if (this.hasLifecycle(layer.service)) {
+        await layer.service.destroy();
+      }
+    }
+
+    this.promotionCandidates.clear();
+    this.initialized = false;
+  }
+
+  /**
+   * 获取所有缓存层（按优先级排序）
+   */
+  async getAllLayers(): Promise<ICacheLayer[]> {
+    await this.ensureInitialized();
+    return [...this.layers];
+  }
+
+  /**
+   * 添加缓存层
+   */
+  async addLayer(config: ICacheLayerConfig): Promise<void> {
+    await this.ensureInitialized();
+
+    if (this.layers.some((layer) => layer.name === config.name)) {
+      throw new Error(`缓存层已存在: ${config.name}`);
+    }
+
+    const service = this.layerFactory(config);
+    if (this.hasLifecycle(service)) {
+      await service.initialize();
+    }
+
+    this.layers.push({
+      name: config.name,
+      type: config.type,
+      enabled: config.enabled,
+      priority: config.priority,
+      readOnly: config.readOnly,
+      service,
+      options: config.options ?? {},
+    });
+    this.layers.sort((a, b) => a.priority - b.priority);
+  }
+
+  /**
+   * 移除缓存层
+   */
+  async removeLayer(layerName: string): Promise<void> {
+    await this.ensureInitialized();
+
+    const index = this.layers.findIndex((layer) => layer.name === layerName);
+    if (index < 0) {
+      throw new Error(`缓存层不存在: ${layerName}`);
+    }
+
+    const [layer] = this.layers.splice(index, 1);
+    if (this.hasLifecycle(layer.service)) {
+      await layer.service.destroy();
+    }
+  }
+
+  /**
+   * 获取缓存值
+   *
+   * @description 按优先级读取，命中后回填更快的缓存层
+   */
+  async get<T>(key: string, options?: ICacheGetOptions): Promise<T | null> {
+    await this.ensureInitialized();
+
+    return this.stats.track(key, async () => {
+      const layers = this.getEnabledLayers();
+
+      for (let index = 0; index < layers.length; index++) {
+        const layer = layers[index];
+        let value: T | null;
+        try {
+          value = await layer.service.get<T>(key, options);
+        } catch (error) {
+          this.stats.recordError(key);
+          console.warn(`缓存层读取失败: ${layer.name}`, error);
+          continue;
+        }
+
+        if (value === null) {
+          continue;
+        }
+
+        this.stats.recordHit(key);
+        if (index > 0) {
+          await this.backfill(key, value, layers.slice(0, index), options);
+        }
+        return value;
+      }
+
+      this.stats.recordMiss(key);
+      return null;
+    });
+  }
+
+  /**
+   * 设置缓存值（写穿到所有可写层）
+   */
+  async set<T>(
+    key: string,
+    value: T,
+    options?: ICacheSetOptions,
+  ): Promise<boolean> {
+    await this.ensureInitialized();
+
+    return this.stats.track(key, async () => {
+      const layers = this.getWritableLayers();
+      if (layers.length === 0) {
+        return false;
+      }
+
+      // 从最慢（权威）层开始写入，条件写入以权威层结果为准，
+      // 权威层写入成功后更快的层无条件覆盖
+      const { overwrite, condition, ...plainOptions } = options ?? {};
+      let success = true;
+      for (const [index, layer] of [...layers].reverse().entries()) {
+        const layerOptions: ICacheSetOptions =
+          index === 0
+            ? { ...plainOptions, overwrite, condition }
+            : plainOptions;
+        try {
+          const written = await layer.service.set(
+            key,
+            value,
+            this.resolveLayerOptions(layer, layerOptions),
+          );
+          success = success && written;
+        } catch (error) {
+          this.stats.recordError(key);
+          success = false;
+          console.warn(`缓存层写入失败: ${layer.name}`, error);
+        }
+
+        if (!success) {
+          break;
+        }
+      }
+
+      if (!success) {
+        await this.invalidateFasterLayers(key, layers.slice(0, -1));
+      }
+      return success;
+    });
+  }
+
+  /**
+   * 获取缓存值，未命中时加载并写入
+   *
+   * @description 并发合并、软过期和空结果缓存规则见CacheLoadCoordinator
+   */
+  async getOrSet<T>(
+    key: string,
+    loader: CacheLoader<T>,
+    options?: ICacheGetOrSetOptions,
+  ): Promise<T | null> {
+    return this.loadCoordinator.getOrSet(key, loader, options);
+  }
+
+  /**
+   * 删除缓存值（从所有可写层删除）
+   */
+  async delete(key: string): Promise<boolean> {
+    await this.ensureInitialized();
+
+    return this.stats.track(key, async () => {
+      this.promotionCandidates.delete(key);
+
+      const results = await Promise.all(
+        this.getWritableLayers().map(async (layer) => {
+          try {
+            return await layer.service.delete(key);
+          } catch (error) {
+            this.stats.recordError(key);
+            console.warn(`缓存层删除失败: ${layer.name}`, error);
+            return false;
+          }
+        }),
+      );
+
+      return results.some(Boolean);
+    });
+  }
+
+  /**
+   * 检查缓存是否存在（任一层存在即可）
+   */
+  async exists(key: string): Promise<boolean> {
+    await this.ensureInitialized();
+
+    return this.stats.track(key, async () => {
+      for (const layer of this.getEnabledLayers()) {
+        try {
+          if (await layer.service.exists(key)) {
+            return true;
+          }
+        } catch (error) {
+          this.stats.recordError(key);
+          console.warn(`缓存层检查失败: ${layer.name}`, error);
+        }
+      }
+      return false;
+    });
+  }
+
+  /**
+   * 清空所有可写层
+   *
+   * @returns 权威层（优先级最低的可写层）清空的数量
+   */
+  async clear(): Promise<number> {
+    await this.ensureInitialized();
+
+    return this.stats.track(undefined, async () => {
+      this.promotionCandidates.clear();
+
+      const counts = await Promise.all(
+        this.getWritableLayers().map((layer) => layer.service.clear()),
+      );
+      return counts.length > 0 ? counts[counts.length - 1] : 0;
+    });
+  }
+
+  /**
+   * 按模式分批扫描缓存键
+   *
+   * @description 依次扫描所有已启用的缓存层，同一个键只返回一次
+   */
+  async *scan(
+    pattern: string,
+    options?: ICacheScanOptions,
+  ): AsyncIterable<string[]> {
+    await this.ensureInitialized();
+
+    const seen = new Set<string>();
+    for (const layer of this.getEnabledLayers()) {
+      for await (const keys of layer.service.scan(pattern, options)) {
+        const unseen = keys.filter((key) => !seen.has(key));
+        unseen.forEach((key) => seen.add(key));
+        if (unseen.length > 0) {
+          yield unseen;
+        }
+      }
+    }
+  }
+
+  /**
+   * 按键、前缀或模式失效缓存
+   *
+   * @description cascade 为 false 时只失效优先级最高的可写层，
+   * 否则失效所有可写层
+   *
+   * @returns 各层中删除数量的最大值
+   */
+  async evict(target: string, options?: ICacheEvictOptions): Promise<number> {
+    await this.ensureInitialized();
+    const exact = (options?.mode ?? 'exact') === 'exact';
+
+    return this.stats.track(exact ? target : undefined, async () => {
+      const writable = this.getWritableLayers();
+      const layers =
+        options?.cascade === false ? writable.slice(0, 1) : writable;
+
+      if (exact) {
+        this.promotionCandidates.delete(target);
+      } else {
+        this.promotionCandidates.clear();
+      }
+
+      const counts = await Promise.all(
+        layers.map((layer) => layer.service.evict(target, options)),
+      );
+      return counts.length > 0 ? Math.max(...counts) : 0;
+    });
+  }
+
+  /**
+   * 获取缓存统计信息
+   */
+  async getStats(): Promise<ICacheStats> {
+    await this.ensureInitialized();
+
+    const layerStats = await Promise.all(
+      this.getEnabledLayers().map((layer) => layer.service.getStats()),
+    );
+    const authoritative = layerStats[layerStats.length - 1];
+
+    return this.stats.snapshot({
+      currentSize: authoritative?.currentSize ?? 0,
+      maxSize: authoritative?.maxSize ?? 0,
+      memoryUsage: layerStats.reduce(
+        (total, stats) => total + stats.memoryUsage,
+        0,
+      ),
+      evictions: layerStats.reduce(
+        (total, stats) => total + stats.evictions,
+        0,
+      ),
+      expirations: layerStats.reduce(
+        (total, stats) => total + stats.expirations,
+        0,
+      ),
+    });
+  }
+
+  /**
+   * 获取缓存健康状态
+   *
+   * @description 整体状态取各层和本管理器统计评估结果中最差的状态
+   */
+  async getHealth(): Promise<ICacheHealth> {
+    await this.ensureInitialized();
+
+    const health: ICacheHealth = {
+      overall: 'healthy',
+      layers: [],
+      connections: [],
+      recommendations: [],
+      checkedAt: new Date(),
+    };
+
+    for (const layer of this.getEnabledLayers()) {
+      try {
+        const layerHealth = await layer.service.getHealth();
+        health.layers.push(
+          ...layerHealth.layers.map((item) => ({
+            ...item,
+            name: layer.name,
+            type: layer.type,
+          })),
+        );
+        health.connections.push(...layerHealth.connections);
+        health.recommendations.push(...layerHealth.recommendations);
+        health.overall = worseHealthStatus(health.overall, layerHealth.overall);
+      } catch (error) {
+        health.layers.push({
+          name: layer.name,
+          type: layer.type,
+          status: 'unhealthy',
+          latency: 0,
+          errorRate: 1,
+          message: error instanceof Error ? error.message : String(error),
+        });
+        health.overall = worseHealthStatus(health.overall, 'unhealthy');
+      }
+    }
+
+    // 容量和租户占用由各层评估，这里只评估本管理器的命中率、错误率和响应时间
+    const evaluation = evaluateCacheHealth(await this.getStats(), {
+      capacityUsage: 0,
+    });
+    health.overall = worseHealthStatus(health.overall, evaluation.status);
+    health.recommendations = Array.from(
+      new Set([...health.recommendations, ...evaluation.recommendations]),
+    );
+
+    return health;
+  }
+
+  /**
+   * 批量操作
+   */
+  async batch(operations: ICacheOperation[]): Promise<ICacheBatchResult> {
+    await this.ensureInitialized();
+
+    const results: ICacheBatchResult['results'] = [];
+
+    for (const operation of operations) {
+      try {
+        const result = await this.executeOperation(operation);
+        results.push({ operation, success: true, result });
+      } catch (error) {
+        results.push({
+          operation,
+          success: false,
+          error: error instanceof Error ? error : new Error(String(error)),
+        });
+      }
+    }
+
+    const successful = results.filter((result) => result.success).length;
+
+    return {
+      total: operations.length,
+      successful,
+      failed: operations.length - successful,
+      results,
+    };
+  }
+
+  /**
+   * 缓存预热
+   *
+   * @description 按优先级（数字越小越先执行）加载并写入所有可写层
+   */
+  async warmup(items: ICacheWarmupItem[]): Promise<ICacheWarmupResult> {
+    await this.ensureInitialized();
+
+    const startTime = performance.now();
+    const details: ICacheWarmupResult['details'] = [];
+    const ordered = [...items].sort(
+      (a, b) =>
+        (a.priority ?? Number.MAX_SAFE_INTEGER) -
+        (b.priority ?? Number.MAX_SAFE_INTEGER),
+    );
+
+    for (const item of ordered) {
+      const itemStart = performance.now();
+      try {
+        const value = await item.loader();
+        const success = await this.set(item.key, value, item.options);
+        details.push({
+          key: item.key,
+          success,
+          duration: performance.now() - itemStart,
+        });
+      } catch (error) {
+        details.push({
+          key: item.key,
+          success: false,
+          duration: performance.now() - itemStart,
+          error: error instanceof Error ? error : new Error(String(error)),
+        });
+      }
+    }
+
+    const successful = details.filter((detail) => detail.success).length;
+
+    return {
+      total: items.length,
+      successful,
+      failed: items.length - successful,
+      duration: performance.now() - startTime,
+      details,
+    };
+  }
+
+  /**
+   * 获取租户特定的缓存值
+   *
+   * @description 隔离后的键带有租户前缀，操作会自动计入租户统计
+   */
+  async getTenantCache<T>(
+    key: string,
+    tenantContext: TenantContext,
+    options?: ICacheGetOptions,
+  ): Promise<T | null> {
+    return this.get<T>(
+      this.isolationStrategy.isolateKey(key, tenantContext),
+      options,
+    );
+  }
+
+  /**
+   * 设置租户特定的缓存值
+   */
+  async setTenantCache<T>(
+    key: string,
+    value: T,
+    tenantContext: TenantContext,
+    options?: ICacheSetOptions,
+  ): Promise<boolean> {
+    return this.set(
+      this.isolationStrategy.isolateKey(key, tenantContext),
+      value,
+      options,
+    );
+  }
+
+  /**
+   * 清理租户缓存
+   */
+  async cleanupTenantCache(tenantId: string): Promise<ICacheCleanupResult> {
+    await this.ensureInitialized();
+
+    const result = await this.isolationStrategy.cleanupTenantCache(tenantId);
+    this.stats.resetTenant(tenantId);
+    return result;
+  }
+
+  /**
+   * 获取租户缓存统计
+   *
+   * @description 操作计数来自本管理器，键数量和内存占用来自权威层
+   */
+  async getTenantStats(tenantId: string): Promise<ICacheTenantStats> {
+    const stats = await this.getStats();
+    const authoritative = this.getEnabledLayers()
+      .reverse()
+      .map((layer) => layer.service)
+      .find((service): service is ITenantStatsCacheService =>
+        this.hasTenantStats(service),
+      );
+
+    if (!authoritative) {
+      return this.stats.tenantSnapshot(tenantId, stats);
+    }
+
+    const layerStats = await authoritative.getTenantStats(tenantId);
+    return this.stats.tenantSnapshot(tenantId, stats, {
+      keyCount: layerStats.tenantKeyCount,
+      memoryUsage: layerStats.tenantMemoryUsage,
+    });
+  }
+
+  // ==================== 私有方法 ====================
+
+  /**
+   * 确保已初始化
+   */
+  private async ensureInitialized(): Promise<void> {
+    if (!this.initialized) {
+      await this.initialize();
+    }
+  }
+
+  /**
+   * 获取已启用的缓存层
+   */
+  private getEnabledLayers(): ICacheLayer[] {
+    return this.layers.filter((layer) => layer.enabled);
+  }
+
+  /**
+   * 获取已启用且可写的缓存层
+   */
+  private getWritableLayers(): ICacheLayer[] {
+    return this.getEnabledLayers().filter((layer) => !layer.readOnly);
+  }
+
+  /**
+   * 回填更快的缓存层
+   *
+   * @param key - 缓存键
+   * @param value - 在较慢层命中的值
+   * @param fasterLayers - 需要回填的更快层
+   * @param options - 读取选项
+   */
+  private async backfill<T>(
+    key: string,
+    value: T,
+    fasterLayers: ICacheLayer[],
+    options?: ICacheOptions,
+  ): Promise<void> {
+    for (const layer of fasterLayers) {
+      if (layer.readOnly || !this.shouldPromote(key, layer, options)) {
+        continue;
+      }
+
+      try {
+        await layer.service.set(
+          key,
+          value,
+          this.resolveLayerOptions(layer, options),
+        );
+      } catch (error) {
+        this.stats.recordError(key);
+        console.warn(`缓存层回填失败: ${layer.name}`, error);
+      }
+    }
+  }
+
+  /**
+   * 写入失败后删除更快层中的键
+   *
+   * @param key - 缓存键
+   * @param fasterLayers - 权威层之前的可写层
+   */
+  private async invalidateFasterLayers(
+    key: string,
+    fasterLayers: ICacheLayer[],
+  ): Promise<void> {
+    for (const layer of fasterLayers) {
+      try {
+        await layer.service.delete(key);
+      } catch (error) {
+        this.stats.recordError(key);
+        console.warn(`缓存层失效失败: ${layer.name}`, error);
+      }
+    }
+  }
+
+  /**
+   * 根据缓存策略判断是否回填
+   */
+  private shouldPromote(
+    key: string,
+    layer: ICacheLayer,
+    options?: ICacheOptions,
+  ): boolean {
+    const strategy =
+      options?.strategy ?? layer.options.strategy ?? this.defaultStrategy;
+
+    if (strategy !== CacheStrategy.LFU && strategy !== CacheStrategy.ADAPTIVE) {
+      return true;
+    }
+
+    const count = (this.promotionCandidates.get(key) ?? 0) + 1;
+    if (count < this.promotionThreshold) {
+      this.promotionCandidates.delete(key);
+      if (this.promotionCandidates.size >= this.maxPromotionCandidates) {
+        // Map按插入顺序迭代，第一个键是最早记录的
+        const oldest = this.promotionCandidates.keys().next().value;
+        if (oldest !== undefined) {
+          this.promotionCandidates.delete(oldest);
+        }
+      }
+      this.promotionCandidates.set(key, count);
+      return false;
+    }
+
+    this.promotionCandidates.delete(key);
+    return true;
+  }
+
+  /**
+   * 合并操作选项与缓存层选项
+   *
+   * @description TTL取两者中较小的值，其余选项以操作选项为准
+   */
+  private resolveLayerOptions<O extends ICacheOptions>(
+    layer: ICacheLayer,
+    options?: O,
+  ): O {
+    const ttls = [options?.ttl, layer.options.ttl].filter(
+      (ttl): ttl is number => typeof ttl === 'number' && ttl > 0,
+    );
+
+    return {
+      ...layer.options,
+      ...options,
+      ttl: ttls.length > 0 ? Math.min(...ttls) : undefined,
+    } as O;
+  }
+
+  /**
+   * 执行单个批量操作
+   */
+  private async executeOperation(operation: ICacheOperation): Promise<unknown> {
+    switch (operation.type) {
+      case 'get':
+        return this.get(operation.key, operation.options);
+      case 'set':
+        return this.set(operation.key, operation.value, operation.options);
+      case 'delete':
+        return this.delete(operation.key);
+      case 'exists':
+        return this.exists(operation.key);
+      default:
+        throw new CacheOperationError(
+          `不支持的批量操作类型: ${(operation as ICacheOperation).type}`,
+          'batch',
+          {
+            operation: 'batch',
+            key: (operation as ICacheOperation).key,
+            startTime: new Date(),
+            timestamp: new Date(),
+          },
+        );
+    }
+  }
+
+  /**
+   * 根据cache配置生成默认缓存层
+   */
+  private async resolveDefaultLayers(): Promise<ICacheLayerConfig[]> {
+    const config =
+      await this.configManager.getModuleConfig<ISimpleCacheConfig>('cache');
+
+    const memoryLayer: ICacheLayerConfig = {
+      name: 'memory',
+      type: CacheLayerType.MEMORY,
+      enabled: true,
+      priority: 1,
+      readOnly: false,
+      options: {},
+    };
+    const redisLayer: ICacheLayerConfig = {
+      name: 'redis',
+      type: CacheLayerType.REDIS,
+      enabled: true,
+      priority: 2,
+      readOnly: false,
+      options: {},
+    };
+
+    switch (config?.defaultStrategy) {
+      case 'hybrid':
+        return [
+          { ...memoryLayer, options: { ttl: DEFAULT_L1_TTL } },
+          redisLayer,
+        ];
+      case 'redis':
+        return [redisLayer];
+      default:
+        return [memoryLayer];
+    }
+  }
+
+  /**
+   * 按缓存层类型创建内置缓存服务
+   */
+  private createLayerService(config: ICacheLayerConfig): ICacheService {
+    switch (config.type) {
+      case CacheLayerType.MEMORY:
+        return new SimpleCacheManager(this.configManager);
+      case CacheLayerType.REDIS:
+      case CacheLayerType.DISTRIBUTED:
+        return new RedisCacheManager(
+          this.configManager,
+          this.options.redisClient,
+        );
+      default:
+        throw new Error(`不支持的缓存层类型: ${config.type}`);
+    }
+  }
+
+  /**
+   * 判断缓存服务是否可以提供租户统计
+   */
+  private hasTenantStats(
+    service: ICacheService,
+  ): service is ITenantStatsCacheService {
+    return (
+      typeof (service as Partial<ITenantStatsCacheService>).getTenantStats ===
+      'function'
+    );
+  }
+
+  /**
+   * 判断缓存服务是否带有生命周期方法
+   */
+  private hasLifecycle(
+    service: ICacheService,
+  ): service is ILifecycleCacheService {
+    const candidate = service as Partial<ILifecycleCacheService>;
+    return (
+      typeof candidate.initialize === 'function' &&
+      typeof candidate.destroy === 'function'
+    );
+  }
+}
@@ -0,0 +1,691 @@
+/**
+ * Redis缓存管理器
+ *
+ * @description 基于Redis的缓存服务实现，多个API实例可以共享同一份缓存
+ * 与SimpleCacheManager实现相同的ICacheService契约，可通过模块配置切换
+ *
+ * ## 业务规则
+ *
+ * ### 键命名规则
+ * - 所有键都会加上配置中的 keyPrefix 前缀
+ * - clear() 只清理带有本实例前缀的键，不影响同库中的其他数据
+ *
+ * ### 写入规则
+ * - ttl 以毫秒为单位，未指定时使用配置中的 redis.ttl（秒）
+ * - overwrite 为 false 时仅在键不存在时写入（SET NX）
+ * - condition 基于当前值判断，比较与写入通过Lua脚本原子完成
+ * - 值经过CacheValueCodec编码，按写入选项和 codec 配置压缩或加密
+ * - 加密密钥已被移除的条目在读取时删除并按未命中处理
+ *
+ * ### 统计规则
+ * - 命中率、错误率和响应时间为本实例的操作统计
+ * - 键数量和租户占用统计所有实例写入的键，租户内存占用为键和值的字节数之和
+ * - 统计和健康检查都不遍历整个键空间：最多SCAN KEY_SAMPLE_SIZE 个键，
+ *   键空间更大时按样本比例和DBSIZE估算键数量和租户占用
+ * - memoryUsage 和 maxSize 分别为Redis的 used_memory 和 maxmemory
+ * - evictions 和 expirations 分别为Redis的 evicted_keys 和 expired_keys
+ *
+ * @example
+ * ```typescript
+ * const manager = new RedisCacheManager(configManager);
+ * await manager.initialize();
+ *
+ * await manager.set('user:1', { name: 'Alice' }, { ttl: 60000 });
+ * const user = await manager.get<{ name: string }>('user:1');
+ * ```
+ *
+ * @since 1.0.0
+ */
+
+import { Injectable } from '@nestjs/common';
+import { performance } from 'perf_hooks';
+import Redis from 'ioredis';
+import type { IConfigManager } from '@aiofix/config';
+import type {
+  ICacheService,
+  ICacheGetOptions,
+  ICacheSetOptions,
+  ICacheGetOrSetOptions,
+  CacheLoader,
+  ICacheEvictOptions,
+  ICacheScanOptions,
+  ICacheStats,
+  ICacheTenantStats,
+  ICacheHealth,
+  ICacheContext,
+} from '../interfaces/cache.interface';
+import {
+  CacheLayerType,
+  CacheConnectionError,
+} from '../interfaces/cache.interface';
+import type { ISimpleCacheConfig } from '../config/simple-cache-config.service';
+import { escapeKeyPattern, toEvictPattern } from '../utils/cache-key-pattern';
+import {
+  CacheStatsCollector,
+  extractTenantId,
+} from '../monitoring/cache-stats-collector';
+import type { ICacheUsage } from '../monitoring/cache-stats-collector';
+import { evaluateCacheHealth } from '../monitoring/cache-health-evaluator';
+import { CacheValueCodec } from '../codec/cache-value-codec';
+import {
+  CacheLoadCoordinator,
+  unwrapLoadedEntry,
+} from './cache-load-coordinator';
+
+/**
+ * 条件写入脚本
+ *
+ * @description 仅当当前值与读取时的值一致时才写入，避免读-判断-写之间被并发修改
+ * 键不存在时以空字符串表示（序列化后的值不会是空字符串）
+ */
+const COMPARE_AND_SET_SCRIPT = `
+local current = redis.call('GET', KEYS[1])
+if current == false then current = '' end
+if current ~= ARGV[1] then return 0 end
+redis.call('SET', KEYS[1], ARGV[2], 'PX', ARGV[3])
+return 1
+`;
+
+/**
+ * 统计键数量和租户占用时最多采样的键数量
+ */
+const KEY_SAMPLE_SIZE = 1000;
+
+/**
+ * 键空间样本
+ */
+interface IKeySample {
+  /** 样本中带本实例前缀的键（不含前缀） */
+  keys: string[];
+  /** 样本到整个键空间的放大倍数，扫描完整个键空间时为1 */
+  scale: number;
+}
+
+/**
+ * Redis缓存管理器实现
+ */
+@Injectable()
+export class RedisCacheManager implements ICacheService {
+  private client: Redis | null;
+  private readonly ownsClient: boolean;
+  private keyPrefix = '';
+  private defaultTTL = 300000;
+  private initialized = false;
+  private readonly stats = new CacheStatsCollector();
+  private codec = new CacheValueCodec();
+  private readonly loadCoordinator = new CacheLoadCoordinator(
+    this,
+    (key, error) => {
+      this.stats.recordError(key);
+      console.warn(`缓存后台刷新失败: ${key}`, error);
+    },
+  );
+
+  /**
+   * @param configManager - 配置管理器
+   * @param client - 外部提供的Redis客户端（可选），未提供时根据配置创建
+   */
+  constructor(
+    private readonly configManager: IConfigManager,
+    client?: Redis,
+  ) {
+    this.client = client ?? null;
+    this.ownsClient = !client;
+  }
+
+  /**
+   * 初始化
+   */
+  async initialize(): Promise<void> {
+    if (this.initialized) {
+      return;
+    }
+
+    let config: ISimpleCacheConfig;
+    try {
+      config =
+        await this.configManager.getModuleConfig<ISimpleCacheConfig>('cache');
+    } catch (error) {
+      throw new Error(
+        `RedisCacheManager初始化失败: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+
+    this.keyPrefix = config.redis.keyPrefix || '';
+    this.codec = new CacheValueCodec(config.codec);
+    if (config.redis.ttl > 0) {
+      this.defaultTTL = config.redis.ttl * 1000;
+    }
+
+    if (!this.client) {
+      this.client = new Redis({
+        host: config.redis.host,
+        port: config.redis.port,
+        password: config.redis.password,
+        db: config.redis.db,
+        lazyConnect: true,
+      });
+
+      try {
+        await this.client.connect();
+      } catch (error) {
+        this.client = null;
+        throw new CacheConnectionError(
+          `Redis连接失败: ${error instanceof Error ? error.message : String(error)}`,
+          this.createContext('initialize', ''),
+        );
+      }
+    }
+
+    this.initialized = true;
+  }
+
+  /**
+   * 获取缓存值
+   */
+  async get<T>(key: string, options?: ICacheGetOptions): Promise<T | null> {
+    const client = await this.getClient();
+
+    return this.stats.track(key, async () => {
+      const redisKey = this.buildKey(key);
+      const raw = await client.get(redisKey);
+      if (raw !== null && !this.codec.isDecodable(raw)) {
+        // 加密密钥已被移除，按未命中处理
+        await client.del(redisKey);
+      } else if (raw !== null) {
+        this.stats.recordHit(key);
+        const value = this.codec.decode<T>(key, raw);
+        return options?.rawEntry ? value : unwrapLoadedEntry<T>(value);
+      }
+
+      this.stats.recordMiss(key);
+      return null;
+    });
+  }
+
+  /**
+   * 设置缓存值
+   */
+  async set<T>(
+    key: string,
+    value: T,
+    options?: ICacheSetOptions,
+  ): Promise<boolean> {
+    const client = await this.getClient();
+
+    return this.stats.track(key, async () => {
+      const redisKey = this.buildKey(key);
+      const payload = this.codec.encode(key, value, options);
+      const ttl = options?.ttl || this.defaultTTL;
+
+      if (options?.condition) {
+        return this.setWithCondition(redisKey, key, payload, ttl, options);
+      }
+
+      const result =
+        options?.overwrite === false
+          ? await client.set(redisKey, payload, 'PX', ttl, 'NX')
+          : await client.set(redisKey, payload, 'PX', ttl);
+
+      return result === 'OK';
+    });
+  }
+
+  /**
+   * 获取缓存值，未命中时加载并写入
+   *
+   * @description 并发合并、软过期和空结果缓存规则见CacheLoadCoordinator
+   */
+  async getOrSet<T>(
+    key: string,
+    loader: CacheLoader<T>,
+    options?: ICacheGetOrSetOptions,
+  ): Promise<T | null> {
+    return this.loadCoordinator.getOrSet(key, loader, options);
+  }
+
+  /**
+   * 删除缓存值
+   */
+  async delete(key: string): Promise<boolean> {
+    const client = await this.getClient();
+
+    return this.stats.track(key, async () => {
+      const deleted = await client.del(this.buildKey(key));
+      return deleted > 0;
+    });
+  }
+
+  /**
+   * 检查缓存是否存在
+   */
+  async exists(key: string): Promise<boolean> {
+    const client = await this.getClient();
+
+    return this.stats.track(key, async () => {
+      const count = await client.exists(this.buildKey(key));
+      return count > 0;
+    });
+  }
+
+  /**
+   * 清空所有缓存
+   *
+   * @description 只删除带有当前前缀的键
+   */
+  async clear(): Promise<number> {
+    await this.ensureInitialized();
+
+    return this.stats.track(undefined, () =>
+      this.deleteMatching(`${escapeKeyPattern(this.keyPrefix)}*`),
+    );
+  }
+
+  /**
+   * 按模式分批扫描缓存键
+   *
+   * @description 基于Redis SCAN，返回的键不包含前缀
+   */
+  async *scan(
+    pattern: string,
+    options?: ICacheScanOptions,
+  ): AsyncIterable<string[]> {
+    await this.ensureInitialized();
+
+    for await (const keys of this.scanKeys(
+      this.buildKey(pattern, true),
+      options?.batchSize,
+    )) {
+      if (keys.length > 0) {
+        yield keys.map((key) => key.slice(this.keyPrefix.length));
+      }
+    }
+  }
+
+  /**
+   * 按键、前缀或模式失效缓存
+   */
+  async evict(target: string, options?: ICacheEvictOptions): Promise<number> {
+    const client = await this.getClient();
+    const mode = options?.mode ?? 'exact';
+
+    return this.stats.track(mode === 'exact' ? target : undefined, async () => {
+      if (mode === 'exact') {
+        return client.del(this.buildKey(target));
+      }
+
+      return this.deleteMatching(
+        this.buildKey(toEvictPattern(target, mode), true),
+        options?.batchSize,
+      );
+    });
+  }
+
+  /**
+   * 获取缓存统计信息
+   */
+  async getStats(): Promise<ICacheStats> {
+    await this.ensureInitialized();
+
+    const sample = await this.sampleKeys();
+    return this.snapshotStats(Math.round(sample.keys.length * sample.scale));
+  }
+
+  /**
+   * 获取租户缓存统计
+   *
+   * @param tenantId - 租户ID
+   * @returns 本实例的租户操作计数，以及Redis中该租户的键数量和占用（按样本估算）
+   */
+  async getTenantStats(tenantId: string): Promise<ICacheTenantStats> {
+    await this.ensureInitialized();
+
+    const sample = await this.sampleKeys();
+    const stats = await this.snapshotStats(
+      Math.round(sample.keys.length * sample.scale),
+    );
+    const usage = await this.measureTenantUsage(sample, tenantId);
+
+    return this.stats.tenantSnapshot(
+      tenantId,
+      stats,
+      usage.get(tenantId) ?? { keyCount: 0, memoryUsage: 0 },
+    );
+  }
+
+  /**
+   * 获取缓存健康状态
+   */
+  async getHealth(): Promise<ICacheHealth> {
+    await this.ensureInitialized();
+
+    const startTime = performance.now();
+    let connected = false;
+    let message: string | undefined;
+
+    try {
+      connected = (await this.client!.ping()) === 'PONG';
+    } catch (error) {
+      message = error instanceof Error ? error.message : String(error);
+    }
+
+    const latency = performance.now() - startTime;
+    // 健康检查可能被频繁调用，不扫描键空间统计键数量
+    const stats = connected ? await this.snapshotStats(0) : null;
+    const { status, recommendations } = stats
+      ? evaluateCacheHealth(stats, {
+          tenants: await this.sampleTenantStats(stats),
+          capacityUsage:
+            stats.maxSize > 0 ? stats.memoryUsage / stats.maxSize : 0,
+        })
+      : {
+          status: 'unhealthy' as const,
+          recommendations: ['检查Redis服务是否可用'],
+        };
+
+    return {
+      overall: status,
+      layers: [
+        {
+          name: 'redis',
+          type: CacheLayerType.REDIS,
+          status,
+          latency,
+          errorRate: stats?.errorRate ?? 1,
+          message,
+        },
+      ],
+      connections: [
+        {
+          name: 'redis',
+          connected,
+          latency,
+          lastCheck: new Date(),
+        },
+      ],
+      recommendations,
+      checkedAt: new Date(),
+    };
+  }
+
+  /**
+   * 销毁
+   *
+   * @description 只关闭由本管理器创建的连接，外部传入的客户端由调用方负责
+   */
+  async destroy(): Promise<void> {
+    if (this.client && this.ownsClient) {
+      await this.client.quit();
+      this.client = null;
+    }
+    this.initialized = false;
+  }
+
+  // ==================== 私有方法 ====================
+
+  /**
+   * 确保已初始化
+   */
+  private async ensureInitialized(): Promise<void> {
+    if (!this.initialized) {
+      await this.initialize();
+    }
+  }
+
+  /**
+   * 获取已初始化的客户端
+   */
+  private async getClient(): Promise<Redis> {
+    await this.ensureInitialized();
+    return this.client!;
+  }
+
+  /**
+   * 条件写入
+   */
+  private async setWithCondition(
+    redisKey: string,
+    key: string,
+    payload: string,
+    ttl: number,
+    options: ICacheSetOptions,
+  ): Promise<boolean> {
+    const client = this.client!;
+    const current = await client.get(redisKey);
+
+    if (current !== null && options.overwrite === false) {
+      return false;
+    }
+
+    const existingValue =
+      current === null || !this.codec.isDecodable(current)
+        ? null
+        : this.codec.decode(key, current);
+    if (!options.condition!(existingValue)) {
+      return false;
+    }
+
+    const result = await client.eval(
+      COMPARE_AND_SET_SCRIPT,
+      1,
+      redisKey,
+      current ?? '',
+      payload,
+      ttl,
+    );
+
+    return Number(result) === 1;
+  }
+
+  /**
+   * 分批删除匹配模式的键
+   *
+   * @param pattern - 匹配模式（已包含前缀）
+   * @param batchSize - 每批扫描数量
+   * @returns 删除的键数量
+   */
+  private async deleteMatching(
+    pattern: string,
+    batchSize?: number,
+  ): Promise<number> {
+    let deleted = 0;
+    for await (const keys of this.scanKeys(pattern, batchSize)) {
+      if (keys.length > 0) {
+        deleted += await this.client!.del(...keys);
+      }
+    }
+    return deleted;
+  }
+
+  /**
+   * 按模式分批扫描键
+   *
+   * @param pattern - 匹配模式（已包含前缀）
+   * @param count - 每批扫描数量
+   */
+  private async *scanKeys(
+    pattern: string,
+    count = 100,
+  ): AsyncGenerator<string[]> {
+    const client = this.client!;
+    let cursor = '0';
+
+    do {
+      const [nextCursor, keys] = await client.scan(
+        cursor,
+        'MATCH',
+        pattern,
+        'COUNT',
+        count,
+      );
+      cursor = nextCursor;
+      yield keys;
+    } while (cursor !== '0');
+  }
+
+  /**
+   * 生成统计快照
+   *
+   * @param currentSize - 当前键数量
+   */
+  private async snapshotStats(currentSize: number): Promise<ICacheStats> {
+    const info = await this.readServerInfo();
+
+    return this.stats.snapshot({
+      currentSize,
+      maxSize: info.maxMemory,
+      memoryUsage: info.usedMemory,
+      evictions: info.evictedKeys,
+      expirations: info.expiredKeys,
+    });
+  }
+
+  /**
+   * 按样本估算租户统计
+   *
+   * @description 包括样本中有键的租户和本实例操作过的租户
+   */
+  private async sampleTenantStats(
+    stats: ICacheStats,
+  ): Promise<ICacheTenantStats[]> {
+    const usage = await this.measureTenantUsage(await this.sampleKeys());
+    const tenantIds = new Set([...usage.keys(), ...this.stats.getTenantIds()]);
+
+    return Array.from(tenantIds).map((tenantId) =>
+      this.stats.tenantSnapshot(
+        tenantId,
+        stats,
+        usage.get(tenantId) ?? { keyCount: 0, memoryUsage: 0 },
+      ),
+    );
+  }
+
+  /**
+   * 采样键空间
+   *
+   * @description 不带MATCH执行SCAN，返回的键数即检查过的键数，
+   * 最多检查 KEY_SAMPLE_SIZE 个键，未扫描完时按DBSIZE计算放大倍数
+   */
+  private async sampleKeys(): Promise<IKeySample> {
+    const client = this.client!;
+    const keys: string[] = [];
+    let examined = 0;
+    let cursor = '0';
+
+    do {
+      const [nextCursor, scanned] = await client.scan(cursor, 'COUNT', 100);
+      cursor = nextCursor;
+      examined += scanned.length;
+      for (const redisKey of scanned) {
+        if (redisKey.startsWith(this.keyPrefix)) {
+          keys.push(redisKey.slice(this.keyPrefix.length));
+        }
+      }
+    } while (cursor !== '0' && examined < KEY_SAMPLE_SIZE);
+
+    const scale =
+      cursor === '0' || examined === 0 ? 1 : (await client.dbsize()) / examined;
+    return { keys, scale };
+  }
+
+  /**
+   * 按租户统计样本中键的数量和占用
+   *
+   * @param sample - 键空间样本
+   * @param tenantId - 只统计该租户，默认统计所有租户
+   * @returns 租户ID到占用（已按样本放大）的映射，无法解析租户的键被忽略
+   */
+  private async measureTenantUsage(
+    sample: IKeySample,
+    tenantId?: string,
+  ): Promise<Map<string, ICacheUsage>> {
+    const usage = new Map<string, ICacheUsage>();
+    const tenantKeys = sample.keys
+      .map((key) => ({ key, tenantId: extractTenantId(key) }))
+      .filter(
+        (entry): entry is { key: string; tenantId: string } =>
+          entry.tenantId !== undefined &&
+          (tenantId === undefined || entry.tenantId === tenantId),
+      );
+    if (tenantKeys.length === 0) {
+      return usage;
+    }
+
+    const pipeline = this.client!.pipeline();
+    tenantKeys.forEach(({ key }) => pipeline.strlen(this.buildKey(key)));
+    const lengths = (await pipeline.exec()) ?? [];
+
+    tenantKeys.forEach(({ key, tenantId: owner }, index) => {
+      const tenantUsage = usage.get(owner) ?? { keyCount: 0, memoryUsage: 0 };
+      tenantUsage.keyCount++;
+      tenantUsage.memoryUsage +=
+        Buffer.byteLength(key) + Number(lengths[index]?.[1] ?? 0);
+      usage.set(owner, tenantUsage);
+    });
+
+    if (sample.scale !== 1) {
+      usage.forEach((tenantUsage) => {
+        tenantUsage.keyCount = Math.round(tenantUsage.keyCount * sample.scale);
+        tenantUsage.memoryUsage = Math.round(
+          tenantUsage.memoryUsage * sample.scale,
+        );
+      });
+    }
+    return usage;
+  }
+
+  /**
+   * 读取Redis内存和淘汰信息
+   *
+   * @description 淘汰和过期数量为Redis服务器级别的累计值
+   */
+  private async readServerInfo(): Promise<{
+    usedMemory: number;
+    maxMemory: number;
+    evictedKeys: number;
+    expiredKeys: number;
+  }> {
+    let info = '';
+    try {
+      info = await this.client!.info();
+    } catch {
+      // 无法读取时按0处理
+    }
+
+    const readNumber = (field: string): number => {
+      const match = info.match(new RegExp(`^${field}:(\\d+)`, 'm'));
+      return match ? Number(match[1]) : 0;
+    };
+
+    return {
+      usedMemory: readNumber('used_memory'),
+      maxMemory: readNumber('maxmemory'),
+      evictedKeys: readNumber('evicted_keys'),
+      expiredKeys: readNumber('expired_keys'),
+    };
+  }
+
+  /**
+   * 构建带前缀的键
+   *
+   * @param key - 原始键或模式
+   * @param isPattern - 是否为模式（前缀需要转义）
+   */
+  private buildKey(key: string, isPattern = false): string {
+    const prefix = isPattern
+      ? escapeKeyPattern(this.keyPrefix)
+      : this.keyPrefix;
+    return `${prefix}${key}`;
+  }
+
+  /**
+   * 创建缓存操作上下文
+   */
+  private createContext(
+    operation: ICacheContext['operation'],
+    key: string,
+  ): ICacheContext {
+    const now = new Date();
+    return { operation, key, startTime: now, timestamp: now };
+  }
+}
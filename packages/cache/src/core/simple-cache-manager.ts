@@ -4,6 +4,26 @@
  * @description 缓存模块重构的第一阶段实现
  * 提供基础的缓存功能，后续将逐步完善
  *
+ * ## 业务规则
+ *
+ * ### 容量规则
+ * - 同时限制缓存项数量（memory.maxEntries，默认10000）和内存（memory.maxSize，单位MB）
+ * - 写入后超过任一上限时，按 memory.evictionPolicy（lru/lfu，默认lru）淘汰其他键
+ * - 单个条目超过内存上限时拒绝写入，并删除该键的旧值
+ *
+ * ### 编码规则
+ * - 写入选项要求压缩或加密（含敏感级别）时，保存CacheValueCodec编码后的字符串，否则直接保存原始值
+ * - 加密密钥已被移除的条目在读取时删除并按未命中处理
+ *
+ * ### 过期规则
+ * - 读取时惰性删除过期条目
+ * - 每隔 memory.checkPeriod 秒在后台清理所有过期条目，destroy() 时停止
+ *
+ * ### 统计规则
+ * - 每次公开操作都计入操作数和响应时间，get计入命中/未命中
+ * - 内存使用量按条目的键和JSON序列化值估算
+ * - 带 `tenant:{tenantId}:` 前缀的键同时计入租户统计
+ *
  * @since 1.0.0
  */
 
@@ -13,16 +33,71 @@ import type {
   ICacheService,
   ICacheGetOptions,
   ICacheSetOptions,
+  ICacheGetOrSetOptions,
+  CacheLoader,
+  ICacheEvictOptions,
+  ICacheScanOptions,
   ICacheStats,
+  ICacheTenantStats,
   ICacheHealth,
 } from '../interfaces/cache.interface';
+import { CacheLayerType } from '../interfaces/cache.interface';
+import type { ISimpleCacheConfig } from '../config/simple-cache-config.service';
+import { compileKeyPattern, toEvictPattern } from '../utils/cache-key-pattern';
+import {
+  CacheStatsCollector,
+  estimateEntrySize,
+} from '../monitoring/cache-stats-collector';
+import { evaluateCacheHealth } from '../monitoring/cache-health-evaluator';
+import { createCacheEvictionPolicy } from '../strategies/cache-eviction.strategy';
+import type { ICacheEvictionPolicy } from '../strategies/cache-eviction.strategy';
+import {
+  CacheLoadCoordinator,
+  unwrapLoadedEntry,
+} from './cache-load-coordinator';
+import { CacheValueCodec } from '../codec/cache-value-codec';
+
+/**
+ * 默认最大缓存项数量
+ */
+const DEFAULT_MAX_ENTRIES = 10000;
+
+/**
+ * 默认过期清理周期（秒）
+ */
+const DEFAULT_CHECK_PERIOD = 60;
+
+/**
+ * 内存缓存条目
+ */
+interface IMemoryCacheEntry {
+  /** 原始值，encoded 为 true 时是编码后的字符串 */
+  value: unknown;
+  /** 过期时间戳（毫秒） */
+  expires: number;
+  /** 是否经过CacheValueCodec编码 */
+  encoded?: boolean;
+}
 
 /**
  * 简化缓存管理器实现
  */
 @Injectable()
 export class SimpleCacheManager implements ICacheService {
-  private cache = new Map<string, { value: unknown; expires: number }>();
+  private readonly cache = new Map<string, IMemoryCacheEntry>();
+  private readonly stats = new CacheStatsCollector();
+  private codec = new CacheValueCodec();
+  private readonly loadCoordinator = new CacheLoadCoordinator(
+    this,
+    (key, error) => {
+      this.stats.recordError(key);
+      console.warn(`缓存后台刷新失败: ${key}`, error);
+    },
+  );
+  private evictionPolicy: ICacheEvictionPolicy = createCacheEvictionPolicy();
+  private maxEntries = DEFAULT_MAX_ENTRIES;
+  private maxMemory = Number.POSITIVE_INFINITY;
+  private sweepTimer: ReturnType<typeof globalThis.setInterval> | null = null;
   private initialized = false;
 
   constructor(private readonly configManager: IConfigManager) {}
@@ -37,9 +112,26 @@ export class SimpleCacheManager implements ICacheService {
 
     try {
       // 加载配置
-      const config = await this.configManager.getModuleConfig('cache');
+      const config =
+        await this.configManager.getModuleConfig<ISimpleCacheConfig>('cache');
       console.debug('缓存配置加载完成:', config);
 
+      const memory = config?.memory;
+      this.maxEntries =
+        memory?.maxEntries && memory.maxEntries > 0
+          ? memory.maxEntries
+          : DEFAULT_MAX_ENTRIES;
+      this.maxMemory =
+        memory?.maxSize > 0
+          ? memory.maxSize * 1024 * 1024
+          : Number.POSITIVE_INFINITY;
+      this.evictionPolicy = createCacheEvictionPolicy(memory?.evictionPolicy);
+      this.codec = new CacheValueCodec(config?.codec);
+      this.startSweeper(
+        (memory?.checkPeriod > 0 ? memory.checkPeriod : DEFAULT_CHECK_PERIOD) *
+          1000,
+      );
+
       this.initialized = true;
     } catch (error) {
       throw new Error(
@@ -51,21 +143,21 @@ export class SimpleCacheManager implements ICacheService {
   /**
    * 获取缓存值
    */
-  async get<T>(key: string, _options?: ICacheGetOptions): Promise<T | null> {
+  async get<T>(key: string, options?: ICacheGetOptions): Promise<T | null> {
     await this.ensureInitialized();
 
-    const item = this.cache.get(key);
-    if (!item) {
-      return null;
-    }
-
-    // 检查是否过期
-    if (Date.now() > item.expires) {
-      this.cache.delete(key);
-      return null;
-    }
+    return this.stats.track(key, async () => {
+      const item = this.readEntry(key);
+      if (!item) {
+        this.stats.recordMiss(key);
+        return null;
+      }
 
-    return item.value as T;
+      this.stats.recordHit(key);
+      this.evictionPolicy.recordAccess(key);
+      const value = this.decodeEntry<T>(key, item);
+      return options?.rawEntry ? value : unwrapLoadedEntry<T>(value);
+    });
   }
 
   /**
@@ -78,11 +170,53 @@ export class SimpleCacheManager implements ICacheService {
   ): Promise<boolean> {
     await this.ensureInitialized();
 
-    const ttl = options?.ttl || 300000; // 默认5分钟
-    const expires = Date.now() + ttl;
+    return this.stats.track(key, async () => {
+      const existing = this.readEntry(key);
+      if (existing && options?.overwrite === false) {
+        return false;
+      }
+      if (
+        options?.condition &&
+        !options.condition(existing ? this.decodeEntry(key, existing) : null)
+      ) {
+        return false;
+      }
+
+      const entry: IMemoryCacheEntry = this.codec.requiresEncoding(options)
+        ? {
+            value: this.codec.encode(key, value, options),
+            expires: 0,
+            encoded: true,
+          }
+        : { value, expires: 0 };
+      const size = estimateEntrySize(key, entry.value);
+      if (size > this.maxMemory) {
+        this.deleteEntry(key);
+        return false;
+      }
+
+      const ttl = options?.ttl || 300000; // 默认5分钟
+      entry.expires = Date.now() + ttl;
 
-    this.cache.set(key, { value, expires });
-    return true;
+      this.cache.set(key, entry);
+      this.stats.recordEntry(key, size);
+      this.evictionPolicy.recordWrite(key);
+      this.enforceLimits(key);
+      return true;
+    });
+  }
+
+  /**
+   * 获取缓存值，未命中时加载并写入
+   *
+   * @description 并发合并、软过期和空结果缓存规则见CacheLoadCoordinator
+   */
+  async getOrSet<T>(
+    key: string,
+    loader: CacheLoader<T>,
+    options?: ICacheGetOrSetOptions,
+  ): Promise<T | null> {
+    return this.loadCoordinator.getOrSet(key, loader, options);
   }
 
   /**
@@ -90,7 +224,7 @@ export class SimpleCacheManager implements ICacheService {
    */
   async delete(key: string): Promise<boolean> {
     await this.ensureInitialized();
-    return this.cache.delete(key);
+    return this.stats.track(key, async () => this.deleteEntry(key));
   }
 
   /**
@@ -98,29 +232,78 @@ export class SimpleCacheManager implements ICacheService {
    */
   async exists(key: string): Promise<boolean> {
     await this.ensureInitialized();
+    return this.stats.track(key, async () => this.readEntry(key) !== null);
+  }
 
-    const item = this.cache.get(key);
-    if (!item) {
-      return false;
-    }
+  /**
+   * 清空所有缓存
+   */
+  async clear(): Promise<number> {
+    await this.ensureInitialized();
 
-    // 检查是否过期
-    if (Date.now() > item.expires) {
-      this.cache.delete(key);
-      return false;
-    }
+    return this.stats.track(undefined, async () => {
+      const count = this.cache.size;
+      this.cache.clear();
+      this.stats.clearEntries();
+      this.evictionPolicy.clear();
+      return count;
+    });
+  }
 
-    return true;
+  /**
+   * 按模式分批扫描缓存键
+   *
+   * @description 基于扫描开始时的键快照，扫描期间删除键是安全的
+   */
+  async *scan(
+    pattern: string,
+    options?: ICacheScanOptions,
+  ): AsyncIterable<string[]> {
+    await this.ensureInitialized();
+
+    const matcher = compileKeyPattern(pattern);
+    const batchSize = Math.max(1, options?.batchSize ?? 100);
+    const snapshot = Array.from(this.cache.keys());
+
+    for (let offset = 0; offset < snapshot.length; offset += batchSize) {
+      const now = Date.now();
+      const keys = snapshot.slice(offset, offset + batchSize).filter((key) => {
+        const item = this.cache.get(key);
+        return item !== undefined && now <= item.expires && matcher.test(key);
+      });
+
+      if (keys.length > 0) {
+        yield keys;
+      }
+    }
   }
 
   /**
-   * 清空所有缓存
+   * 按键、前缀或模式失效缓存
    */
-  async clear(): Promise<number> {
+  async evict(target: string, options?: ICacheEvictOptions): Promise<number> {
     await this.ensureInitialized();
-    const count = this.cache.size;
-    this.cache.clear();
-    return count;
+
+    const mode = options?.mode ?? 'exact';
+    if (mode === 'exact') {
+      return this.stats.track(target, async () =>
+        this.deleteEntry(target) ? 1 : 0,
+      );
+    }
+
+    return this.stats.track(undefined, async () => {
+      let deleted = 0;
+      for await (const keys of this.scan(toEvictPattern(target, mode), {
+        batchSize: options?.batchSize,
+      })) {
+        for (const key of keys) {
+          if (this.deleteEntry(key)) {
+            deleted++;
+          }
+        }
+      }
+      return deleted;
+    });
   }
 
   /**
@@ -129,62 +312,72 @@ export class SimpleCacheManager implements ICacheService {
   async getStats(): Promise<ICacheStats> {
     await this.ensureInitialized();
 
-    const now = Date.now();
-    let validItems = 0;
-    let expiredItems = 0;
+    this.purgeExpired();
 
-    for (const [key, item] of this.cache.entries()) {
-      if (now > item.expires) {
-        expiredItems++;
-        this.cache.delete(key); // 清理过期项
-      } else {
-        validItems++;
-      }
-    }
+    return this.stats.snapshot({
+      currentSize: this.cache.size,
+      maxSize: this.maxEntries,
+      memoryUsage: this.stats.getMemoryUsage(),
+    });
+  }
 
-    return {
-      totalOperations: 0, // 需要实际统计
-      hits: 0,
-      misses: 0,
-      hitRate: 0,
-      averageResponseTime: 0,
-      errors: 0,
-      errorRate: 0,
-      currentSize: validItems,
-      maxSize: 10000, // 默认值
-      memoryUsage: 0, // 需要实际计算
-      lastUpdated: new Date(),
-    };
+  /**
+   * 获取租户缓存统计
+   *
+   * @param tenantId - 租户ID
+   * @returns 租户的操作计数、键数量和内存占用
+   */
+  async getTenantStats(tenantId: string): Promise<ICacheTenantStats> {
+    return this.stats.tenantSnapshot(tenantId, await this.getStats());
   }
 
   /**
    * 获取缓存健康状态
+   *
+   * @description 根据命中率、错误率、容量和租户占用评估健康状态
    */
   async getHealth(): Promise<ICacheHealth> {
     await this.ensureInitialized();
 
+    const stats = await this.getStats();
+    const tenants = this.stats
+      .getTenantIds()
+      .map((tenantId) => this.stats.tenantSnapshot(tenantId, stats));
+    const { status, recommendations } = evaluateCacheHealth(stats, {
+      tenants,
+      capacityUsage: Math.max(
+        stats.currentSize / this.maxEntries,
+        stats.memoryUsage / this.maxMemory,
+      ),
+    });
+
     return {
-      overall: 'healthy',
+      overall: status,
       layers: [
         {
           name: 'memory',
-          type: 'memory' as any,
-          status: 'healthy',
-          latency: 1,
-          errorRate: 0,
+          type: CacheLayerType.MEMORY,
+          status,
+          latency: stats.averageResponseTime,
+          errorRate: stats.errorRate,
         },
       ],
       connections: [],
-      recommendations: [],
+      recommendations,
       checkedAt: new Date(),
     };
   }
 
   /**
    * 销毁
+   *
+   * @description 停止后台过期清理并释放所有条目
    */
   async destroy(): Promise<void> {
+    this.stopSweeper();
     this.cache.clear();
+    this.stats.clearEntries();
+    this.evictionPolicy.clear();
     this.initialized = false;
   }
 
@@ -198,4 +391,116 @@ export class SimpleCacheManager implements ICacheService {
       await this.initialize();
     }
   }
+
+  /**
+   * 读取未过期的条目，过期条目会被删除
+   */
+  private readEntry(key: string): IMemoryCacheEntry | null {
+    const item = this.cache.get(key);
+    if (!item) {
+      return null;
+    }
+
+    // 检查是否过期
+    if (Date.now() > item.expires) {
+      this.deleteEntry(key);
+      this.stats.recordExpiration();
+      return null;
+    }
+
+    // 加密密钥已被移除的条目无法读取
+    if (item.encoded && !this.codec.isDecodable(item.value as string)) {
+      this.deleteEntry(key);
+      return null;
+    }
+
+    return item;
+  }
+
+  /**
+   * 还原条目的缓存值
+   */
+  private decodeEntry<T>(key: string, item: IMemoryCacheEntry): T {
+    return item.encoded
+      ? this.codec.decode<T>(key, item.value as string)
+      : (item.value as T);
+  }
+
+  /**
+   * 删除条目并同步内存统计和淘汰策略
+   */
+  private deleteEntry(key: string): boolean {
+    this.stats.removeEntry(key);
+    this.evictionPolicy.remove(key);
+    return this.cache.delete(key);
+  }
+
+  /**
+   * 淘汰条目直到满足数量和内存上限
+   *
+   * @param protectedKey - 刚写入、不能被淘汰的键
+   */
+  private enforceLimits(protectedKey: string): void {
+    const now = Date.now();
+
+    while (
+      this.cache.size > this.maxEntries ||
+      this.stats.getMemoryUsage() > this.maxMemory
+    ) {
+      const victim = this.evictionPolicy.selectVictim(protectedKey);
+      if (victim === undefined) {
+        return;
+      }
+
+      const expired = now > (this.cache.get(victim)?.expires ?? 0);
+      this.deleteEntry(victim);
+      if (expired) {
+        this.stats.recordExpiration();
+      } else {
+        this.stats.recordEviction();
+      }
+    }
+  }
+
+  /**
+   * 清理所有过期条目
+   *
+   * @returns 清理的条目数量
+   */
+  private purgeExpired(): number {
+    const now = Date.now();
+    let purged = 0;
+    for (const [key, item] of this.cache.entries()) {
+      if (now > item.expires) {
+        this.deleteEntry(key);
+        purged++;
+      }
+    }
+    this.stats.recordExpiration(purged);
+    return purged;
+  }
+
+  /**
+   * 启动后台过期清理
+   *
+   * @description 定时器不会阻止进程退出
+   */
+  private startSweeper(interval: number): void {
+    this.stopSweeper();
+    this.sweepTimer = globalThis.setInterval(
+      () => this.purgeExpired(),
+      interval,
+    );
+    this.sweepTimer.unref?.();
+  }
+
+  /**
+   * 停止后台过期清理
+   */
+  private stopSweeper(): void {
+    if (this.sweepTimer) {
+      globalThis.clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+  }
 }
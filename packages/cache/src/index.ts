@@ -12,6 +12,17 @@ export * from './interfaces/cache.interface';
 
 // 导出核心服务（第一阶段：简化版本）
 export { SimpleCacheManager } from './core/simple-cache-manager';
+export { RedisCacheManager } from './core/redis-cache-manager';
+export { LayeredCacheManager } from './core/layered-cache-manager';
+export {
+  CacheLoadCoordinator,
+  unwrapLoadedEntry,
+} from './core/cache-load-coordinator';
+export type { CacheRefreshErrorHandler } from './core/cache-load-coordinator';
+export type {
+  ILayeredCacheManagerOptions,
+  CacheLayerServiceFactory,
+} from './core/layered-cache-manager';
 
 // 导出配置服务（简化版本）
 export {
@@ -24,11 +35,16 @@ export type { ISimpleCacheConfig } from './config/simple-cache-config.service';
 // 导出NestJS模块（简化版本）
 export {
   SimpleCacheModule,
+  CACHE_SERVICE,
   InjectSimpleCacheManager,
+  InjectCacheService,
   InjectSimpleCacheConfig,
 } from './nestjs/simple-cache.module';
 
-export type { ISimpleCacheModuleOptions } from './nestjs/simple-cache.module';
+export type {
+  ISimpleCacheModuleOptions,
+  SimpleCacheStore,
+} from './nestjs/simple-cache.module';
 
 // 导出隔离策略
 export {
@@ -36,11 +52,66 @@ export {
   createCacheIsolationStrategy,
   TenantAwareCacheKeyBuilder,
 } from './strategies/cache-isolation.strategy';
+export {
+  LruEvictionPolicy,
+  LfuEvictionPolicy,
+  createCacheEvictionPolicy,
+} from './strategies/cache-eviction.strategy';
+export type {
+  ICacheEvictionPolicy,
+  CacheEvictionPolicyType,
+} from './strategies/cache-eviction.strategy';
+
+// 导出统计与健康评估
+export {
+  CacheStatsCollector,
+  extractTenantId,
+  estimateEntrySize,
+} from './monitoring/cache-stats-collector';
+export type {
+  CacheTenantResolver,
+  ICacheUsage,
+  ICacheCapacity,
+} from './monitoring/cache-stats-collector';
+export {
+  evaluateCacheHealth,
+  worseHealthStatus,
+  DEFAULT_CACHE_HEALTH_THRESHOLDS,
+} from './monitoring/cache-health-evaluator';
+export type {
+  ICacheHealthThresholds,
+  ICacheHealthEvaluationOptions,
+  ICacheHealthEvaluation,
+} from './monitoring/cache-health-evaluator';
+
+// 导出跨实例缓存失效
+export { CacheInvalidationBus } from './invalidation/cache-invalidation-bus';
+export type {
+  CacheInvalidationMode,
+  CacheInvalidationHandler,
+  ICacheInvalidationMessage,
+  ICacheInvalidationTransport,
+  ICacheInvalidateOptions,
+  ICacheInvalidationBusOptions,
+} from './invalidation/cache-invalidation-bus';
+export { RedisCacheInvalidationTransport } from './invalidation/redis-invalidation.transport';
+export type { IRedisInvalidationTransportOptions } from './invalidation/redis-invalidation.transport';
+export { MessagingCacheInvalidationTransport } from './invalidation/messaging-invalidation.transport';
+export type { ICacheInvalidationMessagingService } from './invalidation/messaging-invalidation.transport';
+
+// 导出缓存值编解码
+export { CacheValueCodec } from './codec/cache-value-codec';
+export type { ICacheCodecConfig } from './codec/cache-value-codec';
+
+// 导出键模式工具
+export {
+  escapeKeyPattern,
+  compileKeyPattern,
+  matchesKeyPattern,
+} from './utils/cache-key-pattern';
 
 // 注意：以下功能将在Core模块完善后实现
-// - UnifiedCacheManager: 完整的企业级缓存管理器
 // - TenantAwareCacheService: 多租户感知缓存服务
 // - UnifiedCacheModule: 完整的NestJS模块集成
 // - 缓存装饰器系统: @Cacheable, @CacheEvict 等
 // - 智能缓存策略: 自适应策略选择
-// - 性能监控集成: 实时监控和分析
@@ -266,6 +266,8 @@ export interface ICacheGetOptions extends ICacheOptions {
   refresh?: boolean;
   /** 回退值 */
   fallback?: unknown;
+  /** 返回getOrSet写入的原始条目而不是其中的值，供CacheLoadCoordinator读取软过期时间 */
+  rawEntry?: boolean;
 }
 
 /**
@@ -278,6 +280,27 @@ export interface ICacheSetOptions extends ICacheOptions {
   condition?: (existingValue: unknown) => boolean;
 }
 
+/**
+ * 缓存加载选项接口
+ *
+ * @description getOrSet的选项，ttl为硬过期时间，超过后条目被删除
+ */
+export interface ICacheGetOrSetOptions extends ICacheOptions {
+  /** 软过期时间（毫秒），超过后先返回旧值再在后台刷新，应小于ttl */
+  softTtl?: number;
+  /** 加载结果为空时的缓存时间（毫秒），不设置时不缓存空结果 */
+  negativeTtl?: number;
+  /** 是否跳过已缓存的值直接加载 */
+  refresh?: boolean;
+}
+
+/**
+ * 缓存加载函数
+ *
+ * @description 返回null或undefined表示数据源中不存在该值
+ */
+export type CacheLoader<T> = () => Promise<T | null | undefined>;
+
 /**
  * 缓存失效选项接口
  */
@@ -290,6 +313,14 @@ export interface ICacheEvictOptions {
   batchSize?: number;
 }
 
+/**
+ * 缓存键扫描选项接口
+ */
+export interface ICacheScanOptions {
+  /** 每批返回的键数量（近似值，与Redis SCAN COUNT语义一致） */
+  batchSize?: number;
+}
+
 /**
  * 缓存上下文接口
  *
@@ -345,6 +376,23 @@ export interface ICacheService {
    */
   set<T>(key: string, value: T, options?: ICacheSetOptions): Promise<boolean>;
 
+  /**
+   * 获取缓存值，未命中时加载并写入
+   *
+   * @description 同一实例内对同一个键的并发加载只调用一次加载函数，
+   * 通过getOrSet写入的值应通过getOrSet读取
+   *
+   * @param key - 缓存键
+   * @param loader - 加载函数
+   * @param options - 加载选项
+   * @returns 缓存值或加载结果，数据源中不存在时返回null
+   */
+  getOrSet<T>(
+    key: string,
+    loader: CacheLoader<T>,
+    options?: ICacheGetOrSetOptions,
+  ): Promise<T | null>;
+
   /**
    * 删除缓存值
    *
@@ -368,6 +416,27 @@ export interface ICacheService {
    */
   clear(): Promise<number>;
 
+  /**
+   * 按模式分批扫描缓存键
+   *
+   * @description 模式语法与Redis SCAN MATCH一致（`*`、`?`、`[...]`），
+   * 扫描期间删除已返回的键是安全的
+   *
+   * @param pattern - 键模式
+   * @param options - 扫描选项
+   * @returns 按批次返回的缓存键
+   */
+  scan(pattern: string, options?: ICacheScanOptions): AsyncIterable<string[]>;
+
+  /**
+   * 按键、前缀或模式失效缓存
+   *
+   * @param target - 失效目标，含义由 options.mode 决定（默认 exact）
+   * @param options - 失效选项
+   * @returns 删除的键数量
+   */
+  evict(target: string, options?: ICacheEvictOptions): Promise<number>;
+
   /**
    * 获取缓存统计信息
    *
@@ -606,6 +675,10 @@ export interface ICacheStats {
   maxSize: number;
   /** 内存使用量（字节） */
   memoryUsage: number;
+  /** 因容量上限被淘汰的缓存项数量 */
+  evictions: number;
+  /** 因过期被清理的缓存项数量 */
+  expirations: number;
   /** 最后更新时间 */
   lastUpdated: Date;
 }
@@ -0,0 +1,304 @@
+/**
+ * 缓存失效广播总线
+ *
+ * @description 在多个实例之间广播缓存失效，使各实例的本地缓存（如内存层）及时删除过期数据
+ * 总线只负责本地缓存的失效和消息的收发，消息传输由可替换的传输层实现
+ *
+ * ## 业务规则
+ *
+ * ### 失效范围
+ * - exact/prefix/pattern：按键、前缀或模式失效，语义与 ICacheService.evict 一致
+ * - tenant：失效租户的所有缓存键，与 CacheIsolationStrategy.cleanupTenantCache 一致
+ *
+ * ### 租户隔离规则
+ * - 携带租户上下文时，目标键按隔离级别加上租户前缀后再失效
+ * - 未携带租户上下文时，目标键按原样失效（用于不区分租户的全局键）
+ * - 隔离级别所需的上下文不完整时，发布方直接抛出错误，不会广播
+ * - 所有实例应使用相同的隔离级别
+ *
+ * ### 广播规则
+ * - 发布方先失效本地缓存再广播，收到自身发出的消息时忽略
+ * - 接收方失效失败只记录告警，不影响其他实例
+ * - 共享缓存层（如Redis）由发布方直接失效，不应注册为总线的本地缓存
+ *
+ * @example
+ * ```typescript
+ * const bus = new CacheInvalidationBus(
+ *   new RedisCacheInvalidationTransport(redis),
+ *   [memoryCache],
+ *   { isolationLevel: CacheIsolationLevel.TENANT },
+ * );
+ * await bus.start();
+ *
+ * await bus.invalidate('user:1', { tenantContext });
+ * await bus.invalidate('user:', { mode: 'prefix', tenantContext });
+ * await bus.invalidateTenant('tenant-a');
+ * ```
+ *
+ * @since 1.0.0
+ */
+
+import { randomUUID } from 'crypto';
+import type {
+  ICacheService,
+  ICacheEvictOptions,
+  TenantContext,
+} from '../interfaces/cache.interface';
+import { CacheIsolationLevel } from '../interfaces/cache.interface';
+import { CacheIsolationStrategy } from '../strategies/cache-isolation.strategy';
+import { escapeKeyPattern } from '../utils/cache-key-pattern';
+
+/**
+ * 失效范围
+ */
+export type CacheInvalidationMode =
+  | NonNullable<ICacheEvictOptions['mode']>
+  | 'tenant';
+
+/**
+ * 失效消息
+ */
+export interface ICacheInvalidationMessage {
+  /** 失效范围 */
+  mode: CacheInvalidationMode;
+  /** 失效目标，tenant范围时为租户ID */
+  target: string;
+  /** 租户ID */
+  tenantId?: string;
+  /** 组织ID（组织级和完全隔离需要） */
+  organizationId?: string;
+  /** 用户ID（用户级和完全隔离需要） */
+  userId?: string;
+  /** 发布实例ID */
+  sourceId: string;
+  /** 发布时间戳（毫秒） */
+  timestamp: number;
+}
+
+/**
+ * 失效消息处理函数
+ */
+export type CacheInvalidationHandler = (
+  message: ICacheInvalidationMessage,
+) => Promise<void>;
+
+/**
+ * 失效消息传输层
+ */
+export interface ICacheInvalidationTransport {
+  /**
+   * 广播失效消息
+   */
+  publish(message: ICacheInvalidationMessage): Promise<void>;
+
+  /**
+   * 订阅失效消息
+   */
+  subscribe(handler: CacheInvalidationHandler): Promise<void>;
+
+  /**
+   * 取消订阅并释放传输层持有的资源
+   */
+  close(): Promise<void>;
+}
+
+/**
+ * 失效选项
+ */
+export interface ICacheInvalidateOptions {
+  /** 失效模式，默认 exact */
+  mode?: ICacheEvictOptions['mode'];
+  /** 租户上下文，提供时按隔离级别解析目标键 */
+  tenantContext?: Pick<TenantContext, 'tenantId' | 'organizationId' | 'userId'>;
+}
+
+/**
+ * 失效总线选项
+ */
+export interface ICacheInvalidationBusOptions {
+  /** 缓存隔离级别，默认 TENANT */
+  isolationLevel?: CacheIsolationLevel;
+  /** 实例ID，默认随机生成 */
+  instanceId?: string;
+  /** 按模式和租户失效时每批扫描的键数量 */
+  batchSize?: number;
+}
+
+/**
+ * 缓存失效广播总线
+ */
+export class CacheInvalidationBus {
+  readonly instanceId: string;
+  private readonly isolationLevel: CacheIsolationLevel;
+  private readonly isolationStrategy: CacheIsolationStrategy;
+  private readonly batchSize: number;
+  private started = false;
+
+  /**
+   * @param transport - 消息传输层
+   * @param localCaches - 收到失效消息时需要失效的本地缓存
+   * @param options - 总线选项
+   */
+  constructor(
+    private readonly transport: ICacheInvalidationTransport,
+    private readonly localCaches: ICacheService[],
+    options: ICacheInvalidationBusOptions = {},
+  ) {
+    this.instanceId = options.instanceId ?? randomUUID();
+    this.isolationLevel = options.isolationLevel ?? CacheIsolationLevel.TENANT;
+    this.isolationStrategy = new CacheIsolationStrategy(this.isolationLevel);
+    this.batchSize = options.batchSize ?? 100;
+  }
+
+  /**
+   * 开始接收其他实例的失效消息
+   */
+  async start(): Promise<void> {
+    if (this.started) {
+      return;
+    }
+    await this.transport.subscribe((message) => this.handleMessage(message));
+    this.started = true;
+  }
+
+  /**
+   * 停止接收失效消息并关闭传输层
+   */
+  async stop(): Promise<void> {
+    if (!this.started) {
+      return;
+    }
+    this.started = false;
+    await this.transport.close();
+  }
+
+  /**
+   * 失效本地缓存并广播到其他实例
+   *
+   * @param target - 键、前缀或模式
+   * @param options - 失效选项
+   * @returns 本地删除的键数量
+   */
+  async invalidate(
+    target: string,
+    options: ICacheInvalidateOptions = {},
+  ): Promise<number> {
+    const { tenantContext } = options;
+    return this.publish({
+      mode: options.mode ?? 'exact',
+      target,
+      tenantId: tenantContext?.tenantId,
+      organizationId: tenantContext?.organizationId,
+      userId: tenantContext?.userId,
+      sourceId: this.instanceId,
+      timestamp: Date.now(),
+    });
+  }
+
+  /**
+   * 失效租户的所有本地缓存并广播到其他实例
+   *
+   * @param tenantId - 租户ID
+   * @returns 本地删除的键数量
+   */
+  async invalidateTenant(tenantId: string): Promise<number> {
+    return this.publish({
+      mode: 'tenant',
+      target: tenantId,
+      tenantId,
+      sourceId: this.instanceId,
+      timestamp: Date.now(),
+    });
+  }
+
+  // ==================== 私有方法 ====================
+
+  /**
+   * 先失效本地缓存再广播
+   */
+  private async publish(message: ICacheInvalidationMessage): Promise<number> {
+    const deleted = await this.apply(message);
+    await this.transport.publish(message);
+    return deleted;
+  }
+
+  /**
+   * 处理其他实例的失效消息
+   */
+  private async handleMessage(
+    message: ICacheInvalidationMessage,
+  ): Promise<void> {
+    if (message.sourceId === this.instanceId) {
+      return;
+    }
+
+    try {
+      await this.apply(message);
+    } catch (error) {
+      console.warn(
+        `缓存失效消息处理失败: ${message.mode} ${message.target}`,
+        error,
+      );
+    }
+  }
+
+  /**
+   * 在所有本地缓存上执行失效
+   *
+   * @returns 各本地缓存中删除数量的最大值
+   */
+  private async apply(message: ICacheInvalidationMessage): Promise<number> {
+    const { mode } = message;
+    if (mode === 'tenant') {
+      return this.applyTenant(message.target);
+    }
+
+    const target = this.resolveTarget(message);
+    const counts = await Promise.all(
+      this.localCaches.map((cache) =>
+        cache.evict(target, { mode, batchSize: this.batchSize }),
+      ),
+    );
+    return counts.length > 0 ? Math.max(...counts) : 0;
+  }
+
+  /**
+   * 清理本地缓存中的租户键
+   */
+  private async applyTenant(tenantId: string): Promise<number> {
+    let deleted = 0;
+    for (const cache of this.localCaches) {
+      const result = await new CacheIsolationStrategy(
+        this.isolationLevel,
+        cache,
+        this.batchSize,
+      ).cleanupTenantCache(tenantId);
+      if (result.errors.length > 0) {
+        throw result.errors[0];
+      }
+      deleted = Math.max(deleted, result.deletedKeys);
+    }
+    return deleted;
+  }
+
+  /**
+   * 按隔离级别解析失效目标
+   *
+   * @description 模式失效时租户前缀会被转义，只有调用方提供的部分按模式匹配
+   */
+  private resolveTarget(message: ICacheInvalidationMessage): string {
+    if (message.tenantId === undefined) {
+      return message.target;
+    }
+
+    const prefix = this.isolationStrategy.isolateKey('', {
+      tenantId: message.tenantId,
+      organizationId: message.organizationId,
+      userId: message.userId,
+      createdAt: new Date(message.timestamp),
+    });
+    return message.mode === 'pattern'
+      ? `${escapeKeyPattern(prefix)}${message.target}`
+      : `${prefix}${message.target}`;
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * 消息服务失效传输层
+ *
+ * @description 通过@aiofix/messaging的消息服务广播缓存失效消息
+ * 只依赖消息服务的publish/subscribe/unsubscribe，缓存模块不直接依赖消息模块
+ *
+ * ## 业务规则
+ *
+ * - 失效消息以事件形式发布到配置的主题
+ * - 消息能否送达所有实例取决于消息服务使用的队列（广播或共享消费）
+ *
+ * @since 1.0.0
+ */
+
+import type {
+  ICacheInvalidationTransport,
+  ICacheInvalidationMessage,
+  CacheInvalidationHandler,
+} from './cache-invalidation-bus';
+
+/**
+ * 默认失效主题
+ */
+const DEFAULT_TOPIC = 'cache.invalidation';
+
+/**
+ * 传输层需要的消息服务能力
+ *
+ * @description 与@aiofix/messaging的IMessagingService对应方法签名一致
+ */
+export interface ICacheInvalidationMessagingService {
+  publish(eventType: string, eventData: unknown): Promise<void>;
+  subscribe(
+    topic: string,
+    handler: (message: unknown) => Promise<void>,
+  ): Promise<string>;
+  unsubscribe(subscriptionId: string): Promise<void>;
+}
+
+/**
+ * 消息服务失效传输层
+ */
+export class MessagingCacheInvalidationTransport
+  implements ICacheInvalidationTransport
+{
+  private subscriptionId: string | null = null;
+
+  /**
+   * @param messaging - 消息服务
+   * @param topic - 失效主题，默认 cache.invalidation
+   */
+  constructor(
+    private readonly messaging: ICacheInvalidationMessagingService,
+    private readonly topic = DEFAULT_TOPIC,
+  ) {}
+
+  async publish(message: ICacheInvalidationMessage): Promise<void> {
+    await this.messaging.publish(this.topic, message);
+  }
+
+  async subscribe(handler: CacheInvalidationHandler): Promise<void> {
+    if (this.subscriptionId) {
+      throw new Error(`已订阅缓存失效主题: ${this.topic}`);
+    }
+
+    this.subscriptionId = await this.messaging.subscribe(
+      this.topic,
+      (message) => handler(message as ICacheInvalidationMessage),
+    );
+  }
+
+  async close(): Promise<void> {
+    if (!this.subscriptionId) {
+      return;
+    }
+
+    const subscriptionId = this.subscriptionId;
+    this.subscriptionId = null;
+    await this.messaging.unsubscribe(subscriptionId);
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * Redis发布订阅失效传输层
+ *
+ * @description 通过Redis PUBLISH/SUBSCRIBE广播缓存失效消息
+ *
+ * ## 业务规则
+ *
+ * - 订阅需要独立的Redis连接，未提供时从发布连接duplicate()一个，并在close()时关闭
+ * - 消息以JSON格式发布，无法解析的消息会被忽略并记录告警
+ * - Redis发布订阅不保证送达，订阅断开期间的失效消息会丢失，本地缓存应设置较短的TTL兜底
+ *
+ * @since 1.0.0
+ */
+
+import type Redis from 'ioredis';
+import type {
+  ICacheInvalidationTransport,
+  ICacheInvalidationMessage,
+  CacheInvalidationHandler,
+} from './cache-invalidation-bus';
+
+/**
+ * 默认失效频道
+ */
+const DEFAULT_CHANNEL = 'cache:invalidation';
+
+/**
+ * Redis失效传输层选项
+ */
+export interface IRedisInvalidationTransportOptions {
+  /** 频道名称，默认 cache:invalidation */
+  channel?: string;
+  /** 订阅连接（可选），未提供时从发布连接复制 */
+  subscriber?: Redis;
+}
+
+/**
+ * Redis发布订阅失效传输层
+ */
+export class RedisCacheInvalidationTransport
+  implements ICacheInvalidationTransport
+{
+  private readonly channel: string;
+  private readonly ownsSubscriber: boolean;
+  private subscriber: Redis | null;
+  private listener: ((channel: string, payload: string) => void) | null = null;
+
+  /**
+   * @param publisher - 发布连接
+   * @param options - 传输层选项
+   */
+  constructor(
+    private readonly publisher: Redis,
+    options: IRedisInvalidationTransportOptions = {},
+  ) {
+    this.channel = options.channel ?? DEFAULT_CHANNEL;
+    this.subscriber = options.subscriber ?? null;
+    this.ownsSubscriber = !options.subscriber;
+  }
+
+  async publish(message: ICacheInvalidationMessage): Promise<void> {
+    await this.publisher.publish(this.channel, JSON.stringify(message));
+  }
+
+  async subscribe(handler: CacheInvalidationHandler): Promise<void> {
+    if (this.listener) {
+      throw new Error(`已订阅缓存失效频道: ${this.channel}`);
+    }
+
+    const subscriber = this.subscriber ?? this.publisher.duplicate();
+    this.subscriber = subscriber;
+
+    this.listener = (channel, payload): void => {
+      if (channel !== this.channel) {
+        return;
+      }
+
+      let message: ICacheInvalidationMessage;
+      try {
+        message = JSON.parse(payload);
+      } catch (error) {
+        console.warn(`无法解析缓存失效消息: ${payload}`, error);
+        return;
+      }
+      void handler(message);
+    };
+    subscriber.on('message', this.listener);
+    await subscriber.subscribe(this.channel);
+  }
+
+  async close(): Promise<void> {
+    const subscriber = this.subscriber;
+    if (!subscriber) {
+      return;
+    }
+
+    if (this.listener) {
+      subscriber.off('message', this.listener);
+      this.listener = null;
+      await subscriber.unsubscribe(this.channel);
+    }
+
+    if (this.ownsSubscriber) {
+      await subscriber.quit();
+      this.subscriber = null;
+    }
+  }
+}
@@ -0,0 +1,216 @@
+/**
+ * 缓存健康评估
+ *
+ * @description 根据缓存统计判断健康状态并生成优化建议
+ *
+ * ## 业务规则
+ *
+ * ### 状态规则
+ * - 错误率达到 unhealthyErrorRate 时为 unhealthy，达到 degradedErrorRate 时为 degraded
+ * - 平均响应时间超过 maxAverageResponseTime 时为 degraded
+ * - 容量使用率达到 maxCapacityUsage 时为 degraded
+ * - 命中率过低、淘汰过多和租户占用过高只生成建议，不影响状态
+ *
+ * ### 样本规则
+ * - 操作数少于 minSamples 时不评估错误率、响应时间和命中率，避免启动阶段误报
+ * - 至少有两个租户时才评估租户占用
+ *
+ * @since 1.0.0
+ */
+
+import type {
+  ICacheHealth,
+  ICacheStats,
+  ICacheTenantStats,
+} from '../interfaces/cache.interface';
+
+/**
+ * 缓存健康阈值
+ */
+export interface ICacheHealthThresholds {
+  /** 参与评估的最少操作数 */
+  minSamples: number;
+  /** 命中率下限 */
+  minHitRate: number;
+  /** 降级错误率 */
+  degradedErrorRate: number;
+  /** 不健康错误率 */
+  unhealthyErrorRate: number;
+  /** 平均响应时间上限（毫秒） */
+  maxAverageResponseTime: number;
+  /** 容量使用率上限 */
+  maxCapacityUsage: number;
+  /** 淘汰数量占操作数的比例上限 */
+  maxEvictionRate: number;
+  /** 单个租户占用比例上限 */
+  maxTenantShare: number;
+}
+
+/**
+ * 默认缓存健康阈值
+ */
+export const DEFAULT_CACHE_HEALTH_THRESHOLDS: ICacheHealthThresholds = {
+  minSamples: 20,
+  minHitRate: 0.5,
+  degradedErrorRate: 0.05,
+  unhealthyErrorRate: 0.5,
+  maxAverageResponseTime: 100,
+  maxCapacityUsage: 0.9,
+  maxEvictionRate: 0.1,
+  maxTenantShare: 0.5,
+};
+
+/**
+ * 缓存健康评估选项
+ */
+export interface ICacheHealthEvaluationOptions {
+  /** 租户统计，用于发现占用过多缓存的租户 */
+  tenants?: ICacheTenantStats[];
+  /** 容量使用率，默认为 currentSize / maxSize */
+  capacityUsage?: number;
+  /** 自定义阈值 */
+  thresholds?: Partial<ICacheHealthThresholds>;
+}
+
+/**
+ * 缓存健康评估结果
+ */
+export interface ICacheHealthEvaluation {
+  /** 健康状态 */
+  status: ICacheHealth['overall'];
+  /** 建议 */
+  recommendations: string[];
+}
+
+/**
+ * 评估缓存健康状态
+ *
+ * @param stats - 缓存统计
+ * @param options - 评估选项
+ * @returns 健康状态和建议
+ */
+export function evaluateCacheHealth(
+  stats: ICacheStats,
+  options: ICacheHealthEvaluationOptions = {},
+): ICacheHealthEvaluation {
+  const thresholds = {
+    ...DEFAULT_CACHE_HEALTH_THRESHOLDS,
+    ...options.thresholds,
+  };
+  const recommendations: string[] = [];
+  let status: ICacheHealth['overall'] = 'healthy';
+
+  if (stats.totalOperations >= thresholds.minSamples) {
+    if (stats.errorRate >= thresholds.unhealthyErrorRate) {
+      status = 'unhealthy';
+    } else if (stats.errorRate >= thresholds.degradedErrorRate) {
+      status = 'degraded';
+    }
+    if (stats.errorRate >= thresholds.degradedErrorRate) {
+      recommendations.push(
+        `缓存错误率为${formatPercent(stats.errorRate)}，请检查缓存后端连接和值的序列化`,
+      );
+    }
+
+    if (stats.averageResponseTime > thresholds.maxAverageResponseTime) {
+      status = worseHealthStatus(status, 'degraded');
+      recommendations.push(
+        `缓存平均响应时间为${stats.averageResponseTime.toFixed(1)}ms，请检查网络延迟或缓存值大小`,
+      );
+    }
+
+    const lookups = stats.hits + stats.misses;
+    if (
+      lookups >= thresholds.minSamples &&
+      stats.hitRate < thresholds.minHitRate
+    ) {
+      recommendations.push(
+        `缓存命中率为${formatPercent(stats.hitRate)}，请检查TTL设置或预热热点数据`,
+      );
+    }
+
+    if (stats.evictions / stats.totalOperations >= thresholds.maxEvictionRate) {
+      recommendations.push(
+        `缓存因容量上限淘汰了${stats.evictions}个缓存项，请增加容量或检查大体积缓存值`,
+      );
+    }
+  }
+
+  const capacityUsage =
+    options.capacityUsage ??
+    (stats.maxSize > 0 ? stats.currentSize / stats.maxSize : 0);
+  if (capacityUsage >= thresholds.maxCapacityUsage) {
+    status = worseHealthStatus(status, 'degraded');
+    recommendations.push(
+      `缓存容量使用率为${formatPercent(capacityUsage)}，请增加容量或缩短TTL`,
+    );
+  }
+
+  recommendations.push(
+    ...evaluateTenantShares(options.tenants ?? [], thresholds.maxTenantShare),
+  );
+
+  return { status, recommendations };
+}
+
+/**
+ * 评估租户占用比例
+ *
+ * @description 优先按内存占用计算，没有内存数据时按键数量计算
+ */
+function evaluateTenantShares(
+  tenants: ICacheTenantStats[],
+  maxTenantShare: number,
+): string[] {
+  if (tenants.length < 2) {
+    return [];
+  }
+
+  const totalMemory = tenants.reduce(
+    (total, tenant) => total + tenant.tenantMemoryUsage,
+    0,
+  );
+  const totalKeys = tenants.reduce(
+    (total, tenant) => total + tenant.tenantKeyCount,
+    0,
+  );
+  const byMemory = totalMemory > 0;
+  const total = byMemory ? totalMemory : totalKeys;
+  if (total === 0) {
+    return [];
+  }
+
+  return tenants
+    .map((tenant) => ({
+      tenantId: tenant.tenantId,
+      share:
+        (byMemory ? tenant.tenantMemoryUsage : tenant.tenantKeyCount) / total,
+    }))
+    .filter((tenant) => tenant.share > maxTenantShare)
+    .map(
+      (tenant) =>
+        `租户${tenant.tenantId}占用了${formatPercent(tenant.share)}的租户缓存${byMemory ? '内存' : '键'}，请检查其缓存使用或设置配额`,
+    );
+}
+
+/**
+ * 返回两个健康状态中更差的一个
+ */
+export function worseHealthStatus(
+  current: ICacheHealth['overall'],
+  next: ICacheHealth['overall'],
+): ICacheHealth['overall'] {
+  const order: Array<ICacheHealth['overall']> = [
+    'healthy',
+    'degraded',
+    'unhealthy',
+  ];
+  return order.indexOf(next) > order.indexOf(current) ? next : current;
+}
+
+/**
+ * 格式化百分比
+ */
+function formatPercent(ratio: number): string {
+  return `${(ratio * 100).toFixed(1)}%`;
+}
@@ -0,0 +1,370 @@
+/**
+ * 缓存统计收集器
+ *
+ * @description 为各缓存实现提供统一的操作计数、响应时间和内存占用统计
+ * 统计同时按全局和按租户两个维度汇总，用于发现占用过多缓存的租户
+ *
+ * ## 业务规则
+ *
+ * ### 计数规则
+ * - 每次公开操作计一次操作数并累计耗时，抛出异常时计一次错误
+ * - 只有读取操作计入命中/未命中，命中率 = 命中 / (命中 + 未命中)
+ * - 缓存层内部失败但操作整体成功时，可以单独记录错误
+ *
+ * ### 租户归属规则
+ * - 默认从 `tenant:{tenantId}:` 前缀解析租户，与CacheIsolationStrategy的键格式一致
+ * - 无法解析租户的键只计入全局统计
+ *
+ * ### 内存统计规则
+ * - 条目大小为键和JSON序列化值的UTF-8字节数之和，是近似值
+ * - 覆盖写入时以新条目大小替换旧条目大小
+ *
+ * @since 1.0.0
+ */
+
+import { performance } from 'perf_hooks';
+import type {
+  ICacheStats,
+  ICacheTenantStats,
+} from '../interfaces/cache.interface';
+
+/**
+ * 租户解析函数
+ */
+export type CacheTenantResolver = (key: string) => string | undefined;
+
+/**
+ * 缓存占用
+ */
+export interface ICacheUsage {
+  /** 键数量 */
+  keyCount: number;
+  /** 内存使用量（字节） */
+  memoryUsage: number;
+}
+
+/**
+ * 缓存容量信息
+ */
+export interface ICacheCapacity {
+  /** 当前缓存项数量 */
+  currentSize: number;
+  /** 最大缓存大小 */
+  maxSize: number;
+  /** 内存使用量（字节） */
+  memoryUsage: number;
+  /** 淘汰数量，未提供时使用收集器记录的数量 */
+  evictions?: number;
+  /** 过期清理数量，未提供时使用收集器记录的数量 */
+  expirations?: number;
+}
+
+/**
+ * 操作计数
+ */
+interface ICacheCounters {
+  hits: number;
+  misses: number;
+  errors: number;
+  totalOperations: number;
+  totalResponseTime: number;
+}
+
+/**
+ * 从缓存键中解析租户ID
+ *
+ * @param key - 缓存键
+ * @returns 租户ID，键不带租户前缀时返回undefined
+ */
+export function extractTenantId(key: string): string | undefined {
+  return key.match(/^tenant:([^:]+):/)?.[1];
+}
+
+/**
+ * 估算缓存条目大小
+ *
+ * @param key - 缓存键
+ * @param value - 缓存值
+ * @returns 近似字节数，无法序列化的值只计算键的大小
+ */
+export function estimateEntrySize(key: string, value: unknown): number {
+  let payload = '';
+  try {
+    payload = JSON.stringify(value) ?? '';
+  } catch {
+    // 循环引用等无法序列化的值
+  }
+  return Buffer.byteLength(key) + Buffer.byteLength(payload);
+}
+
+/**
+ * 缓存统计收集器
+ */
+export class CacheStatsCollector {
+  private readonly counters = createCounters();
+  private readonly tenantCounters = new Map<string, ICacheCounters>();
+  private readonly entrySizes = new Map<string, number>();
+  private readonly tenantUsage = new Map<string, ICacheUsage>();
+  private memoryUsage = 0;
+  private evictions = 0;
+  private expirations = 0;
+
+  constructor(
+    private readonly tenantResolver: CacheTenantResolver = extractTenantId,
+  ) {}
+
+  /**
+   * 记录一次操作的耗时和错误
+   *
+   * @param key - 操作的键，批量操作可以不传
+   * @param operation - 操作
+   * @returns 操作结果
+   */
+  async track<T>(
+    key: string | undefined,
+    operation: () => Promise<T>,
+  ): Promise<T> {
+    const targets = this.resolveCounters(key);
+    const startTime = performance.now();
+    targets.forEach((counters) => counters.totalOperations++);
+
+    try {
+      return await operation();
+    } catch (error) {
+      targets.forEach((counters) => counters.errors++);
+      throw error;
+    } finally {
+      const duration = performance.now() - startTime;
+      targets.forEach((counters) => (counters.totalResponseTime += duration));
+    }
+  }
+
+  /**
+   * 记录命中
+   */
+  recordHit(key: string): void {
+    this.resolveCounters(key).forEach((counters) => counters.hits++);
+  }
+
+  /**
+   * 记录未命中
+   */
+  recordMiss(key: string): void {
+    this.resolveCounters(key).forEach((counters) => counters.misses++);
+  }
+
+  /**
+   * 记录未导致操作失败的错误
+   */
+  recordError(key?: string): void {
+    this.resolveCounters(key).forEach((counters) => counters.errors++);
+  }
+
+  /**
+   * 记录因容量上限淘汰的条目
+   */
+  recordEviction(count = 1): void {
+    this.evictions += count;
+  }
+
+  /**
+   * 记录因过期清理的条目
+   */
+  recordExpiration(count = 1): void {
+    this.expirations += count;
+  }
+
+  /**
+   * 记录条目写入
+   *
+   * @param key - 缓存键
+   * @param size - 条目大小（字节）
+   */
+  recordEntry(key: string, size: number): void {
+    this.removeEntry(key);
+
+    this.entrySizes.set(key, size);
+    this.memoryUsage += size;
+
+    const tenantId = this.tenantResolver(key);
+    if (tenantId !== undefined) {
+      const usage = this.getOrCreateUsage(tenantId);
+      usage.keyCount++;
+      usage.memoryUsage += size;
+    }
+  }
+
+  /**
+   * 记录条目删除
+   */
+  removeEntry(key: string): void {
+    const size = this.entrySizes.get(key);
+    if (size === undefined) {
+      return;
+    }
+
+    this.entrySizes.delete(key);
+    this.memoryUsage -= size;
+
+    const tenantId = this.tenantResolver(key);
+    const usage =
+      tenantId !== undefined ? this.tenantUsage.get(tenantId) : undefined;
+    if (usage) {
+      usage.keyCount--;
+      usage.memoryUsage -= size;
+      if (usage.keyCount <= 0) {
+        this.tenantUsage.delete(tenantId!);
+      }
+    }
+  }
+
+  /**
+   * 清空条目占用记录
+   */
+  clearEntries(): void {
+    this.entrySizes.clear();
+    this.tenantUsage.clear();
+    this.memoryUsage = 0;
+  }
+
+  /**
+   * 获取已记录条目的内存使用量
+   */
+  getMemoryUsage(): number {
+    return this.memoryUsage;
+  }
+
+  /**
+   * 获取租户已记录条目的占用
+   */
+  getTenantUsage(tenantId: string): ICacheUsage {
+    const usage = this.tenantUsage.get(tenantId);
+    return usage ? { ...usage } : { keyCount: 0, memoryUsage: 0 };
+  }
+
+  /**
+   * 获取有统计数据的租户ID
+   */
+  getTenantIds(): string[] {
+    return Array.from(
+      new Set([...this.tenantCounters.keys(), ...this.tenantUsage.keys()]),
+    );
+  }
+
+  /**
+   * 重置租户操作计数
+   */
+  resetTenant(tenantId: string): void {
+    this.tenantCounters.delete(tenantId);
+  }
+
+  /**
+   * 生成全局统计快照
+   *
+   * @param capacity - 由缓存实现提供的容量信息
+   */
+  snapshot(capacity: ICacheCapacity): ICacheStats {
+    return {
+      ...toStats(this.counters),
+      ...capacity,
+      evictions: capacity.evictions ?? this.evictions,
+      expirations: capacity.expirations ?? this.expirations,
+      lastUpdated: new Date(),
+    };
+  }
+
+  /**
+   * 生成租户统计快照
+   *
+   * @param tenantId - 租户ID
+   * @param base - 全局统计，容量相关字段沿用全局值
+   * @param usage - 租户占用，默认使用已记录条目的占用
+   */
+  tenantSnapshot(
+    tenantId: string,
+    base: ICacheStats,
+    usage: ICacheUsage = this.getTenantUsage(tenantId),
+  ): ICacheTenantStats {
+    return {
+      ...base,
+      ...toStats(this.tenantCounters.get(tenantId) ?? createCounters()),
+      tenantId,
+      tenantKeyCount: usage.keyCount,
+      tenantMemoryUsage: usage.memoryUsage,
+    };
+  }
+
+  // ==================== 私有方法 ====================
+
+  /**
+   * 获取键对应的计数器（全局 + 租户）
+   */
+  private resolveCounters(key?: string): ICacheCounters[] {
+    const tenantId = key !== undefined ? this.tenantResolver(key) : undefined;
+    if (tenantId === undefined) {
+      return [this.counters];
+    }
+
+    let tenantCounters = this.tenantCounters.get(tenantId);
+    if (!tenantCounters) {
+      tenantCounters = createCounters();
+      this.tenantCounters.set(tenantId, tenantCounters);
+    }
+    return [this.counters, tenantCounters];
+  }
+
+  /**
+   * 获取或创建租户占用记录
+   */
+  private getOrCreateUsage(tenantId: string): ICacheUsage {
+    let usage = this.tenantUsage.get(tenantId);
+    if (!usage) {
+      usage = { keyCount: 0, memoryUsage: 0 };
+      this.tenantUsage.set(tenantId, usage);
+    }
+    return usage;
+  }
+}
+
+/**
+ * 创建空计数器
+ */
+function createCounters(): ICacheCounters {
+  return {
+    hits: 0,
+    misses: 0,
+    errors: 0,
+    totalOperations: 0,
+    totalResponseTime: 0,
+  };
+}
+
+/**
+ * 将计数器换算为统计指标
+ */
+function toStats(
+  counters: ICacheCounters,
+): Pick<
+  ICacheStats,
+  | 'totalOperations'
+  | 'hits'
+  | 'misses'
+  | 'hitRate'
+  | 'averageResponseTime'
+  | 'errors'
+  | 'errorRate'
+> {
+  const lookups = counters.hits + counters.misses;
+  const operations = counters.totalOperations;
+
+  return {
+    totalOperations: operations,
+    hits: counters.hits,
+    misses: counters.misses,
+    hitRate: lookups > 0 ? counters.hits / lookups : 0,
+    averageResponseTime:
+      operations > 0 ? counters.totalResponseTime / operations : 0,
+    errors: counters.errors,
+    errorRate: operations > 0 ? Math.min(1, counters.errors / operations) : 0,
+  };
+}
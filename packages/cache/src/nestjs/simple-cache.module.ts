@@ -16,9 +16,26 @@ import {
   OnModuleDestroy,
   Inject,
 } from '@nestjs/common';
+import type Redis from 'ioredis';
 import type { IConfigManager } from '@aiofix/config';
 import { SimpleCacheManager } from '../core/simple-cache-manager';
+import { RedisCacheManager } from '../core/redis-cache-manager';
+import { LayeredCacheManager } from '../core/layered-cache-manager';
 import { SimpleCacheConfigService } from '../config/simple-cache-config.service';
+import type { ISimpleCacheConfig } from '../config/simple-cache-config.service';
+import type { ICacheService } from '../interfaces/cache.interface';
+
+/**
+ * 缓存服务注入令牌
+ *
+ * @description 根据模块配置解析为内存、Redis或多级缓存管理器
+ */
+export const CACHE_SERVICE = 'CACHE_SERVICE';
+
+/**
+ * 缓存存储类型
+ */
+export type SimpleCacheStore = 'memory' | 'redis' | 'hybrid';
 
 /**
  * 简化缓存模块选项接口
@@ -28,6 +45,10 @@ export interface ISimpleCacheModuleOptions {
   global?: boolean;
   /** 是否启用监控 */
   enableMonitoring?: boolean;
+  /** 缓存存储类型，未指定时根据cache配置的defaultStrategy决定 */
+  store?: SimpleCacheStore;
+  /** 外部提供的Redis客户端（可选），用于共享连接或测试替身 */
+  redisClient?: Redis;
 }
 
 /**
@@ -37,6 +58,8 @@ export interface ISimpleCacheModuleOptions {
 @Module({})
 export class SimpleCacheModule implements OnModuleInit, OnModuleDestroy {
   private static cacheManager: SimpleCacheManager | null = null;
+  private static redisCacheManager: RedisCacheManager | null = null;
+  private static layeredCacheManager: LayeredCacheManager | null = null;
   private static configService: SimpleCacheConfigService | null = null;
 
   /**
@@ -65,12 +88,44 @@ export class SimpleCacheModule implements OnModuleInit, OnModuleDestroy {
         },
         inject: ['IConfigManager'],
       },
+
+      // 按配置选择的缓存服务
+      {
+        provide: CACHE_SERVICE,
+        useFactory: async (
+          configManager: IConfigManager,
+          memoryManager: SimpleCacheManager,
+        ): Promise<ICacheService> => {
+          const store =
+            options.store ??
+            (await SimpleCacheModule.resolveStore(configManager));
+          if (store === 'hybrid') {
+            const layered = new LayeredCacheManager(configManager, {
+              redisClient: options.redisClient,
+            });
+            SimpleCacheModule.layeredCacheManager = layered;
+            return layered;
+          }
+
+          if (store !== 'redis') {
+            return memoryManager;
+          }
+
+          const manager = new RedisCacheManager(
+            configManager,
+            options.redisClient,
+          );
+          SimpleCacheModule.redisCacheManager = manager;
+          return manager;
+        },
+        inject: ['IConfigManager', SimpleCacheManager],
+      },
     ];
 
     return {
       module: SimpleCacheModule,
       providers,
-      exports: [SimpleCacheManager, SimpleCacheConfigService],
+      exports: [SimpleCacheManager, SimpleCacheConfigService, CACHE_SERVICE],
       global: options.global !== false,
     };
   }
@@ -90,6 +145,14 @@ export class SimpleCacheModule implements OnModuleInit, OnModuleDestroy {
         await SimpleCacheModule.cacheManager.initialize();
       }
 
+      if (SimpleCacheModule.redisCacheManager) {
+        await SimpleCacheModule.redisCacheManager.initialize();
+      }
+
+      if (SimpleCacheModule.layeredCacheManager) {
+        await SimpleCacheModule.layeredCacheManager.initialize();
+      }
+
       console.log('简化缓存模块初始化完成');
     } catch (error) {
       console.error('简化缓存模块初始化失败:', error);
@@ -108,6 +171,16 @@ export class SimpleCacheModule implements OnModuleInit, OnModuleDestroy {
         SimpleCacheModule.cacheManager = null;
       }
 
+      if (SimpleCacheModule.redisCacheManager) {
+        await SimpleCacheModule.redisCacheManager.destroy();
+        SimpleCacheModule.redisCacheManager = null;
+      }
+
+      if (SimpleCacheModule.layeredCacheManager) {
+        await SimpleCacheModule.layeredCacheManager.destroy();
+        SimpleCacheModule.layeredCacheManager = null;
+      }
+
       // 销毁配置服务
       if (SimpleCacheModule.configService) {
         await SimpleCacheModule.configService.destroy();
@@ -119,6 +192,28 @@ export class SimpleCacheModule implements OnModuleInit, OnModuleDestroy {
       console.error('简化缓存模块销毁失败:', error);
     }
   }
+
+  /**
+   * 根据cache配置解析存储类型
+   */
+  private static async resolveStore(
+    configManager: IConfigManager,
+  ): Promise<SimpleCacheStore> {
+    try {
+      const config =
+        await configManager.getModuleConfig<ISimpleCacheConfig>('cache');
+      switch (config?.defaultStrategy) {
+        case 'redis':
+          return 'redis';
+        case 'hybrid':
+          return 'hybrid';
+        default:
+          return 'memory';
+      }
+    } catch {
+      return 'memory';
+    }
+  }
 }
 
 /**
@@ -128,6 +223,13 @@ export const InjectSimpleCacheManager = (): ParameterDecorator => {
   return Inject(SimpleCacheManager);
 };
 
+/**
+ * 缓存服务注入装饰器
+ */
+export const InjectCacheService = (): ParameterDecorator => {
+  return Inject(CACHE_SERVICE);
+};
+
 /**
  * 缓存配置注入装饰器
  */
@@ -0,0 +1,262 @@
+/**
+ * 缓存淘汰策略实现
+ *
+ * @description 为有容量上限的内存缓存选择被淘汰的键
+ * 策略只维护键的访问顺序或频率，不保存缓存值
+ *
+ * ## 业务规则
+ *
+ * ### LRU规则
+ * - 写入和命中都会把键移到最近使用的位置
+ * - 淘汰最久未被使用的键
+ *
+ * ### LFU规则
+ * - 写入时访问次数为1，每次命中加1，覆盖写入保留原有次数并加1
+ * - 淘汰访问次数最少的键，次数相同时淘汰其中最久未被使用的键
+ *
+ * ### 复杂度
+ * - 记录写入、命中和选择淘汰键通常是O(1)
+ * - LFU在最小次数桶被清空或只剩被排除的键时，需要遍历访问次数桶
+ *
+ * @example
+ * ```typescript
+ * const policy = createCacheEvictionPolicy('lfu');
+ * policy.recordWrite('a');
+ * policy.recordAccess('a');
+ * policy.recordWrite('b');
+ * policy.selectVictim(); // 'b'
+ * ```
+ *
+ * @since 1.0.0
+ */
+
+/**
+ * 缓存淘汰策略类型
+ */
+export type CacheEvictionPolicyType = 'lru' | 'lfu';
+
+/**
+ * 缓存淘汰策略接口
+ */
+export interface ICacheEvictionPolicy {
+  /** 策略类型 */
+  readonly type: CacheEvictionPolicyType;
+
+  /**
+   * 记录写入
+   *
+   * @param key - 缓存键
+   */
+  recordWrite(key: string): void;
+
+  /**
+   * 记录命中
+   *
+   * @param key - 缓存键
+   */
+  recordAccess(key: string): void;
+
+  /**
+   * 移除键
+   *
+   * @param key - 缓存键
+   */
+  remove(key: string): void;
+
+  /**
+   * 选择下一个被淘汰的键
+   *
+   * @param excludeKey - 不能被淘汰的键（如刚写入的键）
+   * @returns 被淘汰的键，没有可淘汰的键时返回undefined
+   */
+  selectVictim(excludeKey?: string): string | undefined;
+
+  /**
+   * 清空所有记录
+   */
+  clear(): void;
+}
+
+/**
+ * LRU淘汰策略
+ *
+ * @description 利用Set的插入顺序，最早插入的键即最久未被使用的键
+ */
+export class LruEvictionPolicy implements ICacheEvictionPolicy {
+  readonly type = 'lru';
+  private readonly order = new Set<string>();
+
+  recordWrite(key: string): void {
+    this.touch(key);
+  }
+
+  recordAccess(key: string): void {
+    if (this.order.has(key)) {
+      this.touch(key);
+    }
+  }
+
+  remove(key: string): void {
+    this.order.delete(key);
+  }
+
+  selectVictim(excludeKey?: string): string | undefined {
+    for (const key of this.order) {
+      if (key !== excludeKey) {
+        return key;
+      }
+    }
+    return undefined;
+  }
+
+  clear(): void {
+    this.order.clear();
+  }
+
+  /**
+   * 移动到最近使用的位置
+   */
+  private touch(key: string): void {
+    this.order.delete(key);
+    this.order.add(key);
+  }
+}
+
+/**
+ * LFU淘汰策略
+ *
+ * @description 按访问次数分桶，每个桶内按最近使用顺序排列
+ */
+export class LfuEvictionPolicy implements ICacheEvictionPolicy {
+  readonly type = 'lfu';
+  private readonly frequencies = new Map<string, number>();
+  private readonly buckets = new Map<number, Set<string>>();
+  private minFrequency = 0;
+
+  recordWrite(key: string): void {
+    if (this.frequencies.has(key)) {
+      this.increment(key);
+      return;
+    }
+
+    this.frequencies.set(key, 1);
+    this.getBucket(1).add(key);
+    this.minFrequency = 1;
+  }
+
+  recordAccess(key: string): void {
+    if (this.frequencies.has(key)) {
+      this.increment(key);
+    }
+  }
+
+  remove(key: string): void {
+    const frequency = this.frequencies.get(key);
+    if (frequency === undefined) {
+      return;
+    }
+
+    this.frequencies.delete(key);
+    this.removeFromBucket(key, frequency);
+    if (frequency === this.minFrequency && !this.buckets.has(frequency)) {
+      this.minFrequency = this.findMinFrequency();
+    }
+  }
+
+  selectVictim(excludeKey?: string): string | undefined {
+    for (const key of this.buckets.get(this.minFrequency) ?? []) {
+      if (key !== excludeKey) {
+        return key;
+      }
+    }
+
+    // 最小次数桶中只有被排除的键，从其余桶中选择次数最少的
+    let victimFrequency = 0;
+    for (const frequency of this.buckets.keys()) {
+      if (
+        frequency !== this.minFrequency &&
+        (victimFrequency === 0 || frequency < victimFrequency)
+      ) {
+        victimFrequency = frequency;
+      }
+    }
+    return this.buckets.get(victimFrequency)?.values().next().value;
+  }
+
+  clear(): void {
+    this.frequencies.clear();
+    this.buckets.clear();
+    this.minFrequency = 0;
+  }
+
+  /**
+   * 访问次数加1
+   */
+  private increment(key: string): void {
+    const frequency = this.frequencies.get(key)!;
+    this.removeFromBucket(key, frequency);
+    this.frequencies.set(key, frequency + 1);
+    this.getBucket(frequency + 1).add(key);
+
+    if (frequency === this.minFrequency && !this.buckets.has(frequency)) {
+      this.minFrequency = frequency + 1;
+    }
+  }
+
+  /**
+   * 获取或创建访问次数桶
+   */
+  private getBucket(frequency: number): Set<string> {
+    let bucket = this.buckets.get(frequency);
+    if (!bucket) {
+      bucket = new Set<string>();
+      this.buckets.set(frequency, bucket);
+    }
+    return bucket;
+  }
+
+  /**
+   * 从访问次数桶中移除键，空桶会被删除
+   */
+  private removeFromBucket(key: string, frequency: number): void {
+    const bucket = this.buckets.get(frequency);
+    bucket?.delete(key);
+    if (bucket?.size === 0) {
+      this.buckets.delete(frequency);
+    }
+  }
+
+  /**
+   * 重新计算最小访问次数
+   *
+   * @description 只在删除最小次数桶中最后一个键时调用
+   */
+  private findMinFrequency(): number {
+    let min = 0;
+    for (const frequency of this.buckets.keys()) {
+      if (min === 0 || frequency < min) {
+        min = frequency;
+      }
+    }
+    return min;
+  }
+}
+
+/**
+ * 创建缓存淘汰策略
+ *
+ * @param type - 策略类型
+ * @returns 淘汰策略实例
+ */
+export function createCacheEvictionPolicy(
+  type: CacheEvictionPolicyType = 'lru',
+): ICacheEvictionPolicy {
+  switch (type) {
+    case 'lfu':
+      return new LfuEvictionPolicy();
+    case 'lru':
+      return new LruEvictionPolicy();
+    default:
+      throw new Error(`不支持的缓存淘汰策略: ${type}`);
+  }
+}
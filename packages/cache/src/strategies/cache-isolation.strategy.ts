@@ -25,6 +25,11 @@
  * - 支持基于角色的缓存访问控制
  * - 记录所有访问审计日志
  *
+ * ### 租户清理规则
+ * - 通过缓存服务的scan分批查找租户键，逐批删除
+ * - 只有TENANT和FULL级别的键包含租户ID，可以按租户清理
+ * - ORGANIZATION/USER级别的键不包含租户ID，清理时返回错误而不是假装成功
+ *
  * @example
  * ```typescript
  * const strategy = new CacheIsolationStrategy(CacheIsolationLevel.TENANT);
@@ -41,12 +46,15 @@
  */
 
 import { Injectable } from '@nestjs/common';
+import { performance } from 'perf_hooks';
 import type {
   ICacheIsolationStrategy,
   ICacheCleanupResult,
+  ICacheService,
   TenantContext,
 } from '../interfaces/cache.interface';
 import { CacheIsolationLevel } from '../interfaces/cache.interface';
+import { escapeKeyPattern } from '../utils/cache-key-pattern';
 
 /**
  * 缓存隔离策略实现
@@ -55,7 +63,16 @@ import { CacheIsolationLevel } from '../interfaces/cache.interface';
  */
 @Injectable()
 export class CacheIsolationStrategy implements ICacheIsolationStrategy {
-  constructor(private readonly isolationLevel: CacheIsolationLevel) {}
+  /**
+   * @param isolationLevel - 隔离级别
+   * @param cacheService - 用于查找和删除租户键的缓存服务（清理租户缓存时必需）
+   * @param batchSize - 清理时每批扫描的键数量
+   */
+  constructor(
+    private readonly isolationLevel: CacheIsolationLevel,
+    private readonly cacheService?: ICacheService,
+    private readonly batchSize = 100,
+  ) {}
 
   /**
    * 生成隔离的缓存键
@@ -156,45 +173,57 @@ export class CacheIsolationStrategy implements ICacheIsolationStrategy {
    */
   async cleanupTenantCache(tenantId: string): Promise<ICacheCleanupResult> {
     const startTime = performance.now();
+    const result: ICacheCleanupResult = {
+      totalKeys: 0,
+      deletedKeys: 0,
+      failedKeys: 0,
+      duration: 0,
+      errors: [],
+    };
 
     try {
+      if (!this.cacheService) {
+        throw new Error('未配置缓存服务，无法清理租户缓存');
+      }
+
       // 生成租户缓存键模式
       const patterns = this.generateTenantKeyPatterns(tenantId);
+      if (patterns.length === 0) {
+        throw new Error(
+          `隔离级别 ${this.isolationLevel} 的缓存键不包含租户ID，无法按租户清理`,
+        );
+      }
 
-      // 查找匹配的键
-      const keysToDelete = await this.findKeysByPatterns(patterns);
-
-      // 批量删除
-      const deleteResults = await Promise.allSettled(
-        keysToDelete.map((key) => this.deleteCacheKey(key)),
-      );
-
-      const successful = deleteResults.filter(
-        (r) => r.status === 'fulfilled',
-      ).length;
-      const failed = deleteResults.filter(
-        (r) => r.status === 'rejected',
-      ).length;
-      const errors = deleteResults
-        .filter((r) => r.status === 'rejected')
-        .map((r) => (r as PromiseRejectedResult).reason);
-
-      return {
-        totalKeys: keysToDelete.length,
-        deletedKeys: successful,
-        failedKeys: failed,
-        duration: performance.now() - startTime,
-        errors,
-      };
+      // 分批查找并删除匹配的键
+      for await (const keys of this.findKeysByPatterns(patterns, tenantId)) {
+        const deleteResults = await Promise.allSettled(
+          keys.map((key) => this.deleteCacheKey(key)),
+        );
+
+        for (const deleteResult of deleteResults) {
+          if (deleteResult.status === 'rejected') {
+            result.totalKeys++;
+            result.failedKeys++;
+            result.errors.push(
+              deleteResult.reason instanceof Error
+                ? deleteResult.reason
+                : new Error(String(deleteResult.reason)),
+            );
+          } else if (deleteResult.value) {
+            result.totalKeys++;
+            result.deletedKeys++;
+          }
+          // 删除返回false表示键在扫描后已过期或被删除，不计入统计
+        }
+      }
     } catch (error) {
-      return {
-        totalKeys: 0,
-        deletedKeys: 0,
-        failedKeys: 0,
-        duration: performance.now() - startTime,
-        errors: [error instanceof Error ? error : new Error(String(error))],
-      };
+      result.errors.push(
+        error instanceof Error ? error : new Error(String(error)),
+      );
     }
+
+    result.duration = performance.now() - startTime;
+    return result;
   }
 
   /**
@@ -249,23 +278,12 @@ export class CacheIsolationStrategy implements ICacheIsolationStrategy {
     // 基于隔离级别生成不同的模式
     switch (this.isolationLevel) {
       case CacheIsolationLevel.TENANT:
-        patterns.push(`tenant:${tenantId}:*`);
-        break;
-
-      case CacheIsolationLevel.ORGANIZATION:
-        patterns.push(`org:*:*`); // 需要进一步过滤
-        break;
-
-      case CacheIsolationLevel.USER:
-        patterns.push(`user:*:*`); // 需要进一步过滤
-        break;
-
       case CacheIsolationLevel.FULL:
-        patterns.push(`tenant:${tenantId}:*`);
+        patterns.push(`tenant:${escapeKeyPattern(tenantId)}:*`);
         break;
 
       default:
-        // NONE级别不支持租户清理
+        // NONE/ORGANIZATION/USER级别的键不包含租户ID，不支持租户清理
         break;
     }
 
@@ -273,29 +291,43 @@ export class CacheIsolationStrategy implements ICacheIsolationStrategy {
   }
 
   /**
-   * 根据模式查找缓存键
+   * 根据模式分批查找租户缓存键
    *
    * @param patterns - 键模式数组
-   * @returns 匹配的缓存键数组
+   * @param tenantId - 租户ID，用于二次校验键的归属
+   * @returns 按批次返回的缓存键
    */
-  private async findKeysByPatterns(patterns: string[]): Promise<string[]> {
-    // 这里需要实现实际的键查找逻辑
-    // 将在后续的缓存服务实现中完成
-    console.debug('查找缓存键模式:', patterns);
-    return [];
+  private async *findKeysByPatterns(
+    patterns: string[],
+    tenantId: string,
+  ): AsyncGenerator<string[]> {
+    const seen = new Set<string>();
+
+    for (const pattern of patterns) {
+      for await (const keys of this.cacheService!.scan(pattern, {
+        batchSize: this.batchSize,
+      })) {
+        const tenantKeys = keys.filter(
+          (key) =>
+            !seen.has(key) && this.extractTenantInfo(key).tenantId === tenantId,
+        );
+        tenantKeys.forEach((key) => seen.add(key));
+
+        if (tenantKeys.length > 0) {
+          yield tenantKeys;
+        }
+      }
+    }
   }
 
   /**
    * 删除单个缓存键
    *
    * @param key - 缓存键
-   * @returns 是否删除成功
+   * @returns 是否删除成功（键不存在时为false）
    */
   private async deleteCacheKey(key: string): Promise<boolean> {
-    // 这里需要调用实际的缓存服务删除方法
-    // 将在后续的缓存服务实现中完成
-    console.debug('删除缓存键:', key);
-    return true;
+    return this.cacheService!.delete(key);
   }
 }
 
@@ -303,12 +335,14 @@ export class CacheIsolationStrategy implements ICacheIsolationStrategy {
  * 创建缓存隔离策略
  *
  * @param isolationLevel - 隔离级别
+ * @param cacheService - 用于清理租户缓存的缓存服务
  * @returns 隔离策略实例
  */
 export function createCacheIsolationStrategy(
   isolationLevel: CacheIsolationLevel,
+  cacheService?: ICacheService,
 ): ICacheIsolationStrategy {
-  return new CacheIsolationStrategy(isolationLevel);
+  return new CacheIsolationStrategy(isolationLevel, cacheService);
 }
 
 /**
@@ -0,0 +1,112 @@
+/**
+ * 缓存键模式工具
+ *
+ * @description 提供与Redis SCAN MATCH语义一致的键模式匹配
+ * 内存缓存和Redis缓存使用同一套模式语法，保证失效行为一致
+ *
+ * ## 业务规则
+ *
+ * ### 模式语法
+ * - `*` 匹配任意长度的任意字符（包括 `:`）
+ * - `?` 匹配单个字符
+ * - `[abc]` 匹配集合中的单个字符，`[^abc]` 取反
+ * - `\` 转义下一个字符
+ *
+ * @since 1.0.0
+ */
+
+/**
+ * 转义键中的模式特殊字符
+ *
+ * @param value - 原始字符串（如租户ID、键前缀）
+ * @returns 可以安全拼接到模式中的字符串
+ */
+export function escapeKeyPattern(value: string): string {
+  return value.replace(/[*?[\]\\]/g, '\\$&');
+}
+
+/**
+ * 将键模式编译为正则表达式
+ *
+ * @param pattern - 键模式
+ * @returns 匹配整个键的正则表达式
+ */
+export function compileKeyPattern(pattern: string): RegExp {
+  let source = '';
+
+  for (let index = 0; index < pattern.length; index++) {
+    const char = pattern[index];
+
+    switch (char) {
+      case '*':
+        source += '.*';
+        break;
+      case '?':
+        source += '.';
+        break;
+      case '\\':
+        index++;
+        source += escapeRegExp(pattern[index] ?? '\\');
+        break;
+      case '[': {
+        const end = pattern.indexOf(']', index + 1);
+        if (end < 0) {
+          source += '\\[';
+          break;
+        }
+        let set = pattern.slice(index + 1, end);
+        if (set.startsWith('^')) {
+          set = `^${set.slice(1).replace(/[\]\\]/g, '\\$&')}`;
+        } else {
+          set = set.replace(/[\]\\^]/g, '\\$&');
+        }
+        source += `[${set}]`;
+        index = end;
+        break;
+      }
+      default:
+        source += escapeRegExp(char);
+    }
+  }
+
+  return new RegExp(`^${source}$`, 's');
+}
+
+/**
+ * 判断键是否匹配模式
+ *
+ * @param key - 缓存键
+ * @param pattern - 键模式
+ * @returns 是否匹配
+ */
+export function matchesKeyPattern(key: string, pattern: string): boolean {
+  return compileKeyPattern(pattern).test(key);
+}
+
+/**
+ * 根据失效模式生成键模式
+ *
+ * @param target - 失效目标（键、前缀或模式）
+ * @param mode - 失效模式
+ * @returns 键模式
+ */
+export function toEvictPattern(
+  target: string,
+  mode: 'exact' | 'pattern' | 'prefix',
+): string {
+  switch (mode) {
+    case 'pattern':
+      return target;
+    case 'prefix':
+      return `${escapeKeyPattern(target)}*`;
+    default:
+      return escapeKeyPattern(target);
+  }
+}
+
+/**
+ * 转义正则表达式特殊字符
+ */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
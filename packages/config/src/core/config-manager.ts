@@ -700,6 +700,7 @@ export class UnifiedConfigManager
           maxSize: 100, // 100MB
           ttl: 300, // 5分钟
           checkPeriod: 60, // 1分钟
+          evictionPolicy: 'lru',
         },
         redis: {
           host: 'localhost',
@@ -68,7 +68,10 @@ export type {
   ICoreModuleConfig,
   IMessagingModuleConfig,
   IAuthModuleConfig,
+  IJwtJsonWebKey,
+  JwtAlgorithm,
   ITenantModuleConfig,
+  ITenantPlanConfig,
   IAIModuleConfig,
   ILoggingModuleConfig,
   ICacheModuleConfig,
@@ -330,6 +330,15 @@ export interface IQueueConfig {
   /** 重试延迟时间（毫秒） */
   retryDelay: number;
 
+  /** 重试延迟的增长倍数，默认为2 */
+  backoffMultiplier?: number;
+
+  /** 重试延迟上限（毫秒） */
+  maxRetryDelay?: number;
+
+  /** 重试延迟的随机抖动比例，0到1之间 */
+  retryJitter?: number;
+
   /** 是否启用延迟队列 */
   enableDelayedJobs: boolean;
 
@@ -370,6 +379,15 @@ export interface IHandlerConfig {
   /** 重试延迟时间（毫秒） */
   retryDelay: number;
 
+  /** 重试延迟的增长倍数，默认为2 */
+  backoffMultiplier?: number;
+
+  /** 重试延迟上限（毫秒） */
+  maxRetryDelay?: number;
+
+  /** 重试延迟的随机抖动比例，0到1之间 */
+  retryJitter?: number;
+
   /** 中间件列表 */
   middleware: string[];
 
@@ -377,6 +395,36 @@ export interface IHandlerConfig {
   custom: Record<string, unknown>;
 }
 
+/**
+ * JWT签名算法
+ */
+export type JwtAlgorithm = 'HS256' | 'RS256';
+
+/**
+ * JWKS中的单个公钥
+ *
+ * @description 遵循RFC 7517，目前只使用RSA公钥
+ */
+export interface IJwtJsonWebKey {
+  /** 密钥类型 */
+  kty: 'RSA';
+
+  /** 密钥ID，与令牌头部的kid匹配 */
+  kid?: string;
+
+  /** 密钥算法 */
+  alg?: JwtAlgorithm;
+
+  /** 密钥用途 */
+  use?: 'sig';
+
+  /** RSA模数（base64url） */
+  n: string;
+
+  /** RSA公钥指数（base64url） */
+  e: string;
+}
+
 /**
  * 认证模块配置接口
  *
@@ -392,6 +440,17 @@ export interface IAuthModuleConfig {
     expiresIn: string;
     issuer: string;
     audience: string;
+
+    /** 接受的签名算法，默认只接受HS256 */
+    algorithms?: JwtAlgorithm[];
+
+    /** 本地JWKS密钥集，用于验证RS256令牌 */
+    jwks?: {
+      keys: IJwtJsonWebKey[];
+    };
+
+    /** 验证exp和nbf时允许的时钟偏差（秒） */
+    clockToleranceSeconds?: number;
   };
 
   /** OAuth配置 */
@@ -425,6 +484,18 @@ export interface IAuthModuleConfig {
   };
 }
 
+/**
+ * 租户套餐配额
+ *
+ * @description 按租户类型覆盖默认租户配置，未设置的字段沿用默认值
+ */
+export interface ITenantPlanConfig {
+  maxUsers?: number;
+  maxStorage?: number; // MB
+  apiRateLimit?: number; // 每分钟请求数
+  enabledFeatures?: string[];
+}
+
 /**
  * 租户模块配置接口
  *
@@ -441,9 +512,13 @@ export interface ITenantModuleConfig {
   defaultTenant: {
     maxUsers: number;
     maxStorage: number; // MB
+    apiRateLimit?: number; // 每分钟请求数
     enabledFeatures: string[];
   };
 
+  /** 按租户类型（free、basic、professional、enterprise、custom）的套餐配额 */
+  plans?: Record<string, ITenantPlanConfig>;
+
   /** 租户限制 */
   limits: {
     maxTenantsPerInstance: number;
@@ -559,6 +634,8 @@ export interface ICacheModuleConfig {
     maxSize: number; // MB
     ttl: number; // 秒
     checkPeriod: number; // 秒
+    maxEntries?: number; // 最大缓存项数量，默认10000
+    evictionPolicy?: 'lru' | 'lfu'; // 达到上限时的淘汰策略，默认lru
   };
 
   /** Redis缓存配置 */
@@ -571,6 +648,21 @@ export interface ICacheModuleConfig {
     ttl: number; // 秒
   };
 
+  /** 缓存值压缩和加密配置 */
+  codec?: {
+    compression?: {
+      enabled?: boolean; // 写入未指定compress时是否压缩，默认false
+      threshold?: number; // 字节，默认1024
+    };
+    encryption?: {
+      activeKeyId: string; // 写入使用的密钥ID
+      keys: Record<string, string>; // 密钥ID -> 主密钥，轮换期间保留旧密钥
+    };
+    sensitiveLevels?: Array<
+      'public' | 'internal' | 'sensitive' | 'high' | 'confidential'
+    >; // 自动加密的敏感级别，默认sensitive/high/confidential
+  };
+
   /** 缓存策略 */
   strategies: Record<
     string,
@@ -581,6 +581,16 @@ export class EnvironmentConfigProvider implements IConfigProvider {
         configPath: 'auth.jwt.audience',
         defaultValue: 'aiofix-users',
       },
+      {
+        envKey: 'AIOFIX_AUTH__JWT__ALGORITHMS',
+        configPath: 'auth.jwt.algorithms',
+        transform: (value) => value.split(',').map((item) => item.trim()),
+      },
+      {
+        envKey: 'AIOFIX_AUTH__JWT__JWKS',
+        configPath: 'auth.jwt.jwks',
+        transform: (value) => JSON.parse(value),
+      },
 
       // 租户模块配置
       {
@@ -14,6 +14,7 @@ import {
   OperationNotAllowedError,
   InsufficientPermissionsError,
   QuotaExceededError,
+  FeatureNotEnabledError,
   OperationTimeoutError,
   ConcurrentModificationError,
 } from './business-errors';
@@ -212,6 +213,25 @@ describe('BusinessErrors', () => {
     });
   });
 
+  describe('FeatureNotEnabledError', () => {
+    it('应该正确创建功能未开通错误', () => {
+      const error = new FeatureNotEnabledError(
+        'Reports',
+        'tenant-123',
+        testContext,
+      );
+
+      expect(error.message).toBe(
+        "Feature 'Reports' is not enabled for tenant 'tenant-123'",
+      );
+      expect(error.code).toBe(CommonErrorCodes.BIZ_FEATURE_NOT_ENABLED);
+      expect(error.severity).toBe(ErrorSeverity.MEDIUM);
+      expect(error.isRetryable()).toBe(false);
+      expect(error.hasTag('feature')).toBe(true);
+      expect(error.hasTag('reports')).toBe(true);
+    });
+  });
+
   describe('OperationTimeoutError', () => {
     it('应该正确创建操作超时错误', () => {
       const error = new OperationTimeoutError(
@@ -18,6 +18,7 @@
  *
  * ### 配额和限制错误规则
  * - 配额超限错误：当资源配额超限时抛出
+ * - 功能未开通错误：当租户未开通请求的功能时抛出
  * - 操作超时错误：当操作超时时抛出
  * - 并发修改错误：当并发修改冲突时抛出
  *
@@ -449,6 +450,57 @@ export class ConcurrentModificationError extends BusinessError {
   }
 }
 
+/**
+ * 功能未开通错误
+ */
+export class FeatureNotEnabledError extends BusinessError {
+  constructor(
+    featureName: string,
+    tenantId: string,
+    context?: Partial<IErrorContext>,
+  ) {
+    const message = `Feature '${featureName}' is not enabled for tenant '${tenantId}'`;
+    const metadata: Partial<IErrorMetadata> = {
+      code: CommonErrorCodes.BIZ_FEATURE_NOT_ENABLED,
+      severity: ErrorSeverity.MEDIUM,
+      recoverable: true,
+      retryable: false,
+      loggable: true,
+      alertable: false,
+      monitorable: true,
+      tags: ['feature', 'not-enabled', featureName.toLowerCase()],
+      description: 'The requested feature is not part of the tenant plan',
+      solution: 'Enable the feature for the tenant or upgrade the plan',
+    };
+    const info: Partial<IErrorInfo> = {
+      message,
+      details: `Feature: ${featureName}, Tenant ID: ${tenantId}`,
+      cause: 'The tenant plan or configuration does not include the feature',
+      suggestion: 'Upgrade the tenant plan or contact an administrator',
+      parameters: {
+        featureName,
+        tenantId,
+      },
+      localization: {
+        'zh-CN': {
+          message: `租户 '${tenantId}' 未开通功能 '${featureName}'`,
+          details: `功能: ${featureName}, 租户ID: ${tenantId}`,
+          cause: '租户的套餐或配置不包含该功能',
+          suggestion: '升级租户套餐或联系管理员开通',
+        },
+      },
+    };
+    super(
+      message,
+      CommonErrorCodes.BIZ_FEATURE_NOT_ENABLED,
+      ErrorSeverity.MEDIUM,
+      metadata,
+      context,
+      info,
+    );
+  }
+}
+
 /**
  * 业务错误工厂类
  */
@@ -530,6 +582,17 @@ export class BusinessErrorFactory {
     );
   }
 
+  /**
+   * 创建功能未开通错误
+   */
+  public static createFeatureNotEnabledError(
+    featureName: string,
+    tenantId: string,
+    context?: Partial<IErrorContext>,
+  ): FeatureNotEnabledError {
+    return new FeatureNotEnabledError(featureName, tenantId, context);
+  }
+
   /**
    * 创建操作超时错误
    */
@@ -77,6 +77,7 @@ describe('ErrorTypes', () => {
       expect(CommonErrorCodes.BIZ_QUOTA_EXCEEDED).toBe('BIZ-0006');
       expect(CommonErrorCodes.BIZ_OPERATION_TIMEOUT).toBe('BIZ-0007');
       expect(CommonErrorCodes.BIZ_CONCURRENT_MODIFICATION).toBe('BIZ-0008');
+      expect(CommonErrorCodes.BIZ_FEATURE_NOT_ENABLED).toBe('BIZ-0009');
     });
 
     it('应该包含所有通用错误代码值', () => {
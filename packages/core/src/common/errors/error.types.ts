@@ -183,6 +183,7 @@ export enum CommonErrorCodes {
   BIZ_QUOTA_EXCEEDED = 'BIZ-0006',
   BIZ_OPERATION_TIMEOUT = 'BIZ-0007',
   BIZ_CONCURRENT_MODIFICATION = 'BIZ-0008',
+  BIZ_FEATURE_NOT_ENABLED = 'BIZ-0009',
 
   // 系统错误 (SYS-XXXX)
   SYS_INTERNAL_ERROR = 'SYS-0001',
@@ -0,0 +1,245 @@
+/**
+ * 租户令牌验证器测试
+ *
+ * @description 测试HS256/RS256签名验证、声明检查和声明映射
+ * @since 1.0.0
+ */
+
+import { createHmac, createSign, generateKeyPairSync } from 'crypto';
+import type { IJwtJsonWebKey } from '@aiofix/config';
+import {
+  TenantTokenVerifier,
+  TenantTokenVerificationError,
+} from './tenant-token-verifier';
+
+const SECRET = 'a-very-long-secret-for-hs256-signing!';
+const NOW = new Date('2026-03-01T00:00:00.000Z');
+const NOW_SECONDS = NOW.getTime() / 1000;
+
+const encode = (value: unknown): string =>
+  Buffer.from(JSON.stringify(value)).toString('base64url');
+
+// 签发HS256令牌
+const signHs256 = (
+  payload: Record<string, unknown>,
+  secret = SECRET,
+): string => {
+  const input = `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode(payload)}`;
+  const signature = createHmac('sha256', secret)
+    .update(input)
+    .digest('base64url');
+  return `${input}.${signature}`;
+};
+
+const { privateKey, publicKey } = generateKeyPairSync('rsa', {
+  modulusLength: 2048,
+});
+const jwk = {
+  ...publicKey.export({ format: 'jwk' }),
+  kid: 'key-1',
+  alg: 'RS256',
+} as IJwtJsonWebKey;
+
+// 签发RS256令牌
+const signRs256 = (
+  payload: Record<string, unknown>,
+  kid: string | undefined = 'key-1',
+): string => {
+  const input = `${encode({ alg: 'RS256', typ: 'JWT', kid })}.${encode(payload)}`;
+  const signature = createSign('RSA-SHA256')
+    .update(input)
+    .sign(privateKey)
+    .toString('base64url');
+  return `${input}.${signature}`;
+};
+
+const basePayload = {
+  sub: 'user-1',
+  tenantId: 'tenant-1',
+  tenantCode: 'acme',
+  roles: ['admin', 42, 'member'],
+  iss: 'aiofix-saas',
+  aud: ['aiofix-users', 'other'],
+  exp: NOW_SECONDS + 600,
+};
+
+// 断言验证失败的原因
+const expectFailure = (fn: () => unknown, reason: string): void => {
+  try {
+    fn();
+  } catch (error) {
+    expect(error).toBeInstanceOf(TenantTokenVerificationError);
+    expect((error as TenantTokenVerificationError).reason).toBe(reason);
+    return;
+  }
+  throw new Error('期望验证失败');
+};
+
+describe('TenantTokenVerifier', () => {
+  const config = {
+    secret: SECRET,
+    issuer: 'aiofix-saas',
+    audience: 'aiofix-users',
+  };
+
+  describe('HS256', () => {
+    const verifier = new TenantTokenVerifier(config);
+
+    it('应该验证令牌并提取租户、用户和角色', () => {
+      const claims = verifier.verify(signHs256(basePayload), NOW);
+
+      expect(claims).toMatchObject({
+        tenantId: 'tenant-1',
+        tenantCode: 'acme',
+        userId: 'user-1',
+        roles: ['admin', 'member'],
+        algorithm: 'HS256',
+        issuer: 'aiofix-saas',
+      });
+      expect(claims.expiresAt).toEqual(new Date((NOW_SECONDS + 600) * 1000));
+    });
+
+    it('应该拒绝签名错误的令牌', () => {
+      expectFailure(
+        () =>
+          verifier.verify(
+            signHs256(basePayload, 'another-secret-of-same-kind!!'),
+            NOW,
+          ),
+        'INVALID_SIGNATURE',
+      );
+    });
+
+    it('应该拒绝篡改载荷的令牌', () => {
+      const [header, , signature] = signHs256(basePayload).split('.');
+      const forged = `${header}.${encode({ ...basePayload, tenantId: 'tenant-2' })}.${signature}`;
+
+      expectFailure(() => verifier.verify(forged, NOW), 'INVALID_SIGNATURE');
+    });
+
+    it('应该拒绝alg为none的令牌', () => {
+      const token = `${encode({ alg: 'none' })}.${encode(basePayload)}.`;
+
+      expectFailure(() => verifier.verify(token, NOW), 'UNSUPPORTED_ALGORITHM');
+    });
+
+    it('应该检查过期时间和生效时间', () => {
+      expectFailure(
+        () =>
+          verifier.verify(
+            signHs256({ ...basePayload, exp: NOW_SECONDS - 1 }),
+            NOW,
+          ),
+        'EXPIRED',
+      );
+      expectFailure(
+        () =>
+          verifier.verify(
+            signHs256({ ...basePayload, nbf: NOW_SECONDS + 60 }),
+            NOW,
+          ),
+        'NOT_YET_VALID',
+      );
+      expectFailure(
+        () =>
+          verifier.verify(signHs256({ ...basePayload, exp: undefined }), NOW),
+        'MALFORMED',
+      );
+
+      const tolerant = new TenantTokenVerifier({
+        ...config,
+        clockToleranceSeconds: 30,
+      });
+      expect(
+        tolerant.verify(
+          signHs256({ ...basePayload, exp: NOW_SECONDS - 10 }),
+          NOW,
+        ).tenantId,
+      ).toBe('tenant-1');
+    });
+
+    it('应该检查签发者、受众和租户声明', () => {
+      expectFailure(
+        () => verifier.verify(signHs256({ ...basePayload, iss: 'x' }), NOW),
+        'INVALID_ISSUER',
+      );
+      expectFailure(
+        () => verifier.verify(signHs256({ ...basePayload, aud: 'x' }), NOW),
+        'INVALID_AUDIENCE',
+      );
+      expectFailure(
+        () =>
+          verifier.verify(
+            signHs256({ ...basePayload, tenantId: undefined }),
+            NOW,
+          ),
+        'MISSING_TENANT',
+      );
+      expectFailure(() => verifier.verify('not-a-token', NOW), 'MALFORMED');
+    });
+
+    it('应该支持自定义声明名称', () => {
+      const mapped = new TenantTokenVerifier(config, {
+        tenantClaim: 'tid',
+        userClaim: 'uid',
+        rolesClaim: 'scopes',
+      });
+
+      const claims = mapped.verify(
+        signHs256({ ...basePayload, tid: 'tenant-9', uid: 'u-9', scopes: [] }),
+        NOW,
+      );
+
+      expect(claims).toMatchObject({
+        tenantId: 'tenant-9',
+        userId: 'u-9',
+        roles: [],
+      });
+    });
+  });
+
+  describe('RS256', () => {
+    const verifier = new TenantTokenVerifier({
+      ...config,
+      algorithms: ['RS256'],
+      jwks: { keys: [jwk] },
+    });
+
+    it('应该使用JWKS中的公钥验证令牌', () => {
+      expect(verifier.verify(signRs256(basePayload), NOW).algorithm).toBe(
+        'RS256',
+      );
+      expect(
+        verifier.verify(signRs256(basePayload, undefined), NOW).tenantId,
+      ).toBe('tenant-1');
+    });
+
+    it('应该拒绝未知kid和未启用的算法', () => {
+      expectFailure(
+        () => verifier.verify(signRs256(basePayload, 'key-2'), NOW),
+        'KEY_NOT_FOUND',
+      );
+      expectFailure(
+        () => verifier.verify(signHs256(basePayload), NOW),
+        'UNSUPPORTED_ALGORITHM',
+      );
+    });
+  });
+
+  describe('配置', () => {
+    it('应该拒绝缺少密钥的配置', () => {
+      expect(() => new TenantTokenVerifier({})).toThrow('jwt.secret');
+      expect(() => new TenantTokenVerifier({ algorithms: ['RS256'] })).toThrow(
+        'jwt.jwks',
+      );
+    });
+
+    it('应该提取Bearer令牌', () => {
+      expect(TenantTokenVerifier.extractBearerToken('Bearer abc.def.ghi')).toBe(
+        'abc.def.ghi',
+      );
+      expect(TenantTokenVerifier.extractBearerToken('Basic abc')).toBeNull();
+      expect(TenantTokenVerifier.extractBearerToken(undefined)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,403 @@
+/**
+ * 租户令牌验证器
+ *
+ * @description 验证Bearer令牌（JWT）的签名和声明，并从中提取租户、用户和角色
+ * 这是纯技术实现，只依赖Node.js的crypto模块，密钥来自 IAuthModuleConfig.jwt
+ *
+ * ## 技术规则
+ *
+ * ### 签名规则
+ * - 只接受配置中 algorithms 列出的算法，默认只接受 HS256
+ * - 不接受 alg 为 none 的令牌
+ * - HS256 使用 jwt.secret 验证签名
+ * - RS256 使用本地 JWKS 密钥集验证签名：令牌头部有 kid 时按 kid 匹配，
+ *   没有 kid 时只有密钥集中恰好一个可用密钥才会使用
+ *
+ * ### 声明规则
+ * - 令牌必须带有 exp，缺少时视为格式不正确，避免签发出永不过期的令牌
+ * - exp 和 nbf 按 clockToleranceSeconds 容忍时钟偏差
+ * - 配置了 issuer 时 iss 必须一致；配置了 audience 时 aud 必须包含它
+ * - 租户声明缺失时令牌无效，用户取自 sub，角色取自 roles
+ *
+ * @example
+ * ```typescript
+ * const verifier = new TenantTokenVerifier(config.auth.jwt);
+ * const claims = verifier.verify(token);
+ * console.log(claims.tenantId, claims.userId, claims.roles);
+ * ```
+ *
+ * @since 1.0.0
+ */
+
+import {
+  createHmac,
+  createPublicKey,
+  timingSafeEqual,
+  verify as verifySignature,
+} from 'crypto';
+import type { KeyObject } from 'crypto';
+import type {
+  IAuthModuleConfig,
+  IJwtJsonWebKey,
+  JwtAlgorithm,
+} from '@aiofix/config';
+import { AuthorizationError } from '../../errors/base-error';
+import { CommonErrorCodes, ErrorSeverity } from '../../errors/error.types';
+
+/**
+ * 令牌验证配置
+ *
+ * @description 与 IAuthModuleConfig.jwt 结构一致，所有字段可选
+ */
+export type TenantTokenVerifierConfig = Partial<IAuthModuleConfig['jwt']>;
+
+/**
+ * 声明名称映射
+ */
+export interface ITenantTokenClaimMapping {
+  /** 租户ID声明，默认 tenantId */
+  tenantClaim?: string;
+
+  /** 租户代码声明，默认 tenantCode */
+  tenantCodeClaim?: string;
+
+  /** 用户ID声明，默认 sub */
+  userClaim?: string;
+
+  /** 角色声明，默认 roles */
+  rolesClaim?: string;
+}
+
+/**
+ * 已验证的令牌声明
+ */
+export interface IVerifiedTokenClaims {
+  /** 租户ID */
+  readonly tenantId: string;
+
+  /** 租户代码 */
+  readonly tenantCode?: string;
+
+  /** 用户ID */
+  readonly userId?: string;
+
+  /** 角色列表 */
+  readonly roles: readonly string[];
+
+  /** 签名算法 */
+  readonly algorithm: JwtAlgorithm;
+
+  /** 签发者 */
+  readonly issuer?: string;
+
+  /** 过期时间 */
+  readonly expiresAt: Date;
+
+  /** 原始载荷 */
+  readonly payload: Readonly<Record<string, unknown>>;
+}
+
+/**
+ * 令牌验证失败原因
+ */
+export type TenantTokenFailureReason =
+  | 'MALFORMED'
+  | 'UNSUPPORTED_ALGORITHM'
+  | 'KEY_NOT_FOUND'
+  | 'INVALID_SIGNATURE'
+  | 'EXPIRED'
+  | 'NOT_YET_VALID'
+  | 'INVALID_ISSUER'
+  | 'INVALID_AUDIENCE'
+  | 'MISSING_TENANT';
+
+/**
+ * 令牌验证错误
+ */
+export class TenantTokenVerificationError extends AuthorizationError {
+  constructor(
+    public readonly reason: TenantTokenFailureReason,
+    message: string,
+  ) {
+    super(
+      message,
+      reason === 'EXPIRED'
+        ? CommonErrorCodes.AUTH_TOKEN_EXPIRED
+        : CommonErrorCodes.AUTH_TOKEN_INVALID,
+      ErrorSeverity.MEDIUM,
+      {
+        recoverable: false,
+        retryable: false,
+        loggable: true,
+        alertable: false,
+        monitorable: true,
+        tags: ['auth', 'jwt', reason.toLowerCase()],
+      },
+      {},
+      { parameters: { reason } },
+    );
+  }
+}
+
+/**
+ * JWT头部
+ */
+interface IJwtHeader {
+  alg?: string;
+  kid?: string;
+  typ?: string;
+}
+
+const SUPPORTED_ALGORITHMS: readonly JwtAlgorithm[] = ['HS256', 'RS256'];
+
+/**
+ * 租户令牌验证器
+ */
+export class TenantTokenVerifier {
+  private readonly algorithms: readonly JwtAlgorithm[];
+  private readonly publicKeys: Array<{ jwk: IJwtJsonWebKey; key: KeyObject }>;
+  private readonly clockToleranceMs: number;
+
+  constructor(
+    private readonly config: TenantTokenVerifierConfig,
+    private readonly claimMapping: ITenantTokenClaimMapping = {},
+  ) {
+    this.algorithms = config.algorithms?.length ? config.algorithms : ['HS256'];
+    for (const algorithm of this.algorithms) {
+      if (!SUPPORTED_ALGORITHMS.includes(algorithm)) {
+        throw new Error(`不支持的JWT算法: ${algorithm}`);
+      }
+    }
+    if (this.algorithms.includes('HS256') && !config.secret) {
+      throw new Error('启用HS256时必须配置jwt.secret');
+    }
+
+    this.publicKeys = (config.jwks?.keys ?? []).map((jwk) => ({
+      jwk,
+      key: createPublicKey({ key: { ...jwk }, format: 'jwk' }),
+    }));
+    if (this.algorithms.includes('RS256') && this.publicKeys.length === 0) {
+      throw new Error('启用RS256时必须配置jwt.jwks');
+    }
+
+    this.clockToleranceMs = (config.clockToleranceSeconds ?? 0) * 1000;
+  }
+
+  /**
+   * 从Authorization请求头提取Bearer令牌
+   *
+   * @returns 令牌，请求头不是Bearer格式时返回null
+   */
+  static extractBearerToken(
+    authorization: string | string[] | undefined,
+  ): string | null {
+    if (typeof authorization !== 'string') {
+      return null;
+    }
+    const match = /^Bearer\s+(\S+)$/i.exec(authorization.trim());
+    return match ? match[1] : null;
+  }
+
+  /**
+   * 验证令牌并提取声明
+   *
+   * @param token JWT令牌
+   * @param now 当前时间
+   * @returns 已验证的声明
+   * @throws {TenantTokenVerificationError} 令牌无效时抛出
+   */
+  verify(token: string, now: Date = new Date()): IVerifiedTokenClaims {
+    const parts = token.split('.');
+    if (parts.length !== 3) {
+      throw new TenantTokenVerificationError('MALFORMED', '令牌格式不正确');
+    }
+    const [encodedHeader, encodedPayload, encodedSignature] = parts;
+    const header = this.decodeSegment<IJwtHeader>(encodedHeader);
+    const payload = this.decodeSegment<Record<string, unknown>>(encodedPayload);
+
+    const algorithm = header.alg as JwtAlgorithm;
+    if (!this.algorithms.includes(algorithm)) {
+      throw new TenantTokenVerificationError(
+        'UNSUPPORTED_ALGORITHM',
+        `不接受的令牌算法: ${String(header.alg)}`,
+      );
+    }
+
+    const signingInput = Buffer.from(`${encodedHeader}.${encodedPayload}`);
+    const signature = Buffer.from(encodedSignature, 'base64url');
+    if (!this.verifySignature(algorithm, header, signingInput, signature)) {
+      throw new TenantTokenVerificationError(
+        'INVALID_SIGNATURE',
+        '令牌签名无效',
+      );
+    }
+
+    this.verifyTimeClaims(payload, now.getTime());
+    this.verifyIssuerAndAudience(payload);
+
+    return this.toClaims(algorithm, payload);
+  }
+
+  // ==================== 私有方法 ====================
+
+  /**
+   * 解码base64url编码的JSON片段
+   */
+  private decodeSegment<T>(segment: string): T {
+    try {
+      const value: unknown = JSON.parse(
+        Buffer.from(segment, 'base64url').toString('utf8'),
+      );
+      if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        throw new Error('not an object');
+      }
+      return value as T;
+    } catch {
+      throw new TenantTokenVerificationError('MALFORMED', '令牌格式不正确');
+    }
+  }
+
+  /**
+   * 验证签名
+   */
+  private verifySignature(
+    algorithm: JwtAlgorithm,
+    header: IJwtHeader,
+    signingInput: Buffer,
+    signature: Buffer,
+  ): boolean {
+    if (algorithm === 'HS256') {
+      const expected = createHmac('sha256', this.config.secret!)
+        .update(signingInput)
+        .digest();
+      return (
+        expected.length === signature.length &&
+        timingSafeEqual(expected, signature)
+      );
+    }
+
+    return verifySignature(
+      'RSA-SHA256',
+      signingInput,
+      this.findPublicKey(header),
+      signature,
+    );
+  }
+
+  /**
+   * 按kid查找RS256公钥
+   */
+  private findPublicKey(header: IJwtHeader): KeyObject {
+    const candidates = this.publicKeys.filter(
+      ({ jwk }) =>
+        (!jwk.alg || jwk.alg === 'RS256') && (!jwk.use || jwk.use === 'sig'),
+    );
+    const matched = header.kid
+      ? candidates.filter(({ jwk }) => jwk.kid === header.kid)
+      : candidates;
+
+    if (matched.length !== 1) {
+      throw new TenantTokenVerificationError(
+        'KEY_NOT_FOUND',
+        header.kid
+          ? `未找到密钥: ${header.kid}`
+          : '令牌未指定kid且无法确定密钥',
+      );
+    }
+    return matched[0].key;
+  }
+
+  /**
+   * 验证exp和nbf
+   */
+  private verifyTimeClaims(
+    payload: Record<string, unknown>,
+    now: number,
+  ): void {
+    const { exp, nbf } = payload;
+    if (exp === undefined) {
+      throw new TenantTokenVerificationError('MALFORMED', '令牌缺少exp声明');
+    }
+    if (typeof exp !== 'number') {
+      throw new TenantTokenVerificationError('MALFORMED', 'exp声明格式不正确');
+    }
+    if (now - this.clockToleranceMs >= exp * 1000) {
+      throw new TenantTokenVerificationError('EXPIRED', '令牌已过期');
+    }
+    if (nbf !== undefined) {
+      if (typeof nbf !== 'number') {
+        throw new TenantTokenVerificationError(
+          'MALFORMED',
+          'nbf声明格式不正确',
+        );
+      }
+      if (now + this.clockToleranceMs < nbf * 1000) {
+        throw new TenantTokenVerificationError('NOT_YET_VALID', '令牌尚未生效');
+      }
+    }
+  }
+
+  /**
+   * 验证iss和aud
+   */
+  private verifyIssuerAndAudience(payload: Record<string, unknown>): void {
+    const { issuer, audience } = this.config;
+    if (issuer && payload.iss !== issuer) {
+      throw new TenantTokenVerificationError(
+        'INVALID_ISSUER',
+        '令牌签发者不匹配',
+      );
+    }
+    if (audience) {
+      const audiences = Array.isArray(payload.aud)
+        ? payload.aud
+        : [payload.aud];
+      if (!audiences.includes(audience)) {
+        throw new TenantTokenVerificationError(
+          'INVALID_AUDIENCE',
+          '令牌受众不匹配',
+        );
+      }
+    }
+  }
+
+  /**
+   * 把载荷映射为声明
+   */
+  private toClaims(
+    algorithm: JwtAlgorithm,
+    payload: Record<string, unknown>,
+  ): IVerifiedTokenClaims {
+    const {
+      tenantClaim = 'tenantId',
+      tenantCodeClaim = 'tenantCode',
+      userClaim = 'sub',
+      rolesClaim = 'roles',
+    } = this.claimMapping;
+
+    const tenantId = payload[tenantClaim];
+    if (typeof tenantId !== 'string' || tenantId.length === 0) {
+      throw new TenantTokenVerificationError(
+        'MISSING_TENANT',
+        '令牌缺少租户声明',
+      );
+    }
+
+    const tenantCode = payload[tenantCodeClaim];
+    const userId = payload[userClaim];
+    const roles = payload[rolesClaim];
+
+    return {
+      tenantId,
+      tenantCode: typeof tenantCode === 'string' ? tenantCode : undefined,
+      userId: typeof userId === 'string' ? userId : undefined,
+      roles: Array.isArray(roles)
+        ? roles.filter((role): role is string => typeof role === 'string')
+        : [],
+      algorithm,
+      issuer: typeof payload.iss === 'string' ? payload.iss : undefined,
+      expiresAt: new Date((payload.exp as number) * 1000),
+      payload: Object.freeze({ ...payload }),
+    };
+  }
+}
@@ -39,6 +39,7 @@
 
 import { AsyncLocalStorage } from 'async_hooks';
 import type { CoreConfigService } from '../../../infrastructure/config/core-config.service';
+import type { IVerifiedTokenClaims } from '../auth/tenant-token-verifier';
 
 /**
  * 租户上下文数据接口（技术层面）
@@ -83,6 +84,12 @@ export interface ITenantContextData {
 
   /** 关联ID */
   readonly correlationId?: string;
+
+  /** 用户角色，来自已验证的令牌 */
+  readonly roles?: readonly string[];
+
+  /** 已验证的令牌声明，未携带令牌时不存在 */
+  readonly claims?: IVerifiedTokenClaims;
 }
 
 /**
@@ -207,6 +214,15 @@ export class TenantContextManager {
     return this.getCurrentTenant()?.tenantId;
   }
 
+  /**
+   * 获取当前请求已验证的令牌声明
+   *
+   * @returns 令牌声明，如果请求未携带令牌则返回undefined
+   */
+  static getCurrentClaims(): IVerifiedTokenClaims | undefined {
+    return this.getCurrentTenant()?.claims;
+  }
+
   /**
    * 检查是否在租户上下文中
    *
@@ -2,7 +2,7 @@
  * 多租户技术基础设施导出
  *
  * @description 导出多租户相关的技术基础设施，不包含业务逻辑
- * 提供跨异步操作的租户上下文管理、数据隔离策略、装饰器和中间件
+ * 提供跨异步操作的租户上下文管理、数据隔离策略、令牌验证、装饰器和中间件
  *
  * @since 1.0.0
  */
@@ -17,5 +17,8 @@ export * from './isolation/strategies/tenant-isolation.strategy';
 // 装饰器（技术实现）
 export * from './decorators/tenant-scoped.decorator';
 
+// 令牌验证（技术实现）
+export * from './auth/tenant-token-verifier';
+
 // 中间件（技术实现）
 export * from './middleware/tenant-resolution.middleware';
@@ -0,0 +1,174 @@
+/**
+ * 租户解析中间件测试
+ *
+ * @description 测试令牌验证、请求头与令牌的一致性检查和上下文设置
+ * @since 1.0.0
+ */
+
+import { createHmac } from 'crypto';
+import { TenantResolutionMiddleware } from './tenant-resolution.middleware';
+import { TenantContextManager } from '../context/tenant-context-manager';
+import type { ITenantContextData } from '../context/tenant-context-manager';
+import { TenantTokenVerifier } from '../auth/tenant-token-verifier';
+
+const SECRET = 'a-very-long-secret-for-hs256-signing!';
+
+// 签发HS256令牌
+const sign = (payload: Record<string, unknown>): string => {
+  const encode = (value: unknown): string =>
+    Buffer.from(JSON.stringify(value)).toString('base64url');
+  const input = `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode(payload)}`;
+  return `${input}.${createHmac('sha256', SECRET).update(input).digest('base64url')}`;
+};
+
+// 创建请求
+const createRequest = (
+  headers: Record<string, string> = {},
+): Parameters<TenantResolutionMiddleware['use']>[0] => ({
+  path: '/api/orders',
+  method: 'GET',
+  headers,
+  query: {},
+});
+
+// 创建响应
+const createResponse = (): {
+  status: jest.Mock;
+  json: jest.Mock;
+} => {
+  const res = { status: jest.fn(), json: jest.fn() };
+  res.status.mockReturnValue(res);
+  return res;
+};
+
+describe('TenantResolutionMiddleware', () => {
+  const tokenVerifier = new TenantTokenVerifier({ secret: SECRET });
+  const token = sign({
+    sub: 'user-1',
+    tenantId: 'tenant-1',
+    tenantCode: 'acme',
+    roles: ['admin'],
+    exp: Math.floor(Date.now() / 1000) + 600,
+  });
+
+  // 执行中间件并捕获租户上下文
+  const run = async (
+    middleware: TenantResolutionMiddleware,
+    headers: Record<string, string>,
+  ): Promise<{
+    res: ReturnType<typeof createResponse>;
+    context?: ITenantContextData;
+  }> => {
+    const res = createResponse();
+    let context: ITenantContextData | undefined;
+    await middleware.use(createRequest(headers), res, () => {
+      context = TenantContextManager.getCurrentTenant();
+    });
+    return { res, context };
+  };
+
+  it('应该从已验证的令牌解析租户并写入声明', async () => {
+    const middleware = new TenantResolutionMiddleware({ tokenVerifier });
+
+    const { res, context } = await run(middleware, {
+      authorization: `Bearer ${token}`,
+    });
+
+    expect(res.status).not.toHaveBeenCalled();
+    expect(context).toMatchObject({
+      tenantId: 'tenant-1',
+      userId: 'user-1',
+      roles: ['admin'],
+    });
+    expect(context?.claims?.tenantCode).toBe('acme');
+  });
+
+  it('请求头与令牌中的租户一致时应该通过', async () => {
+    const middleware = new TenantResolutionMiddleware({ tokenVerifier });
+
+    const { context } = await run(middleware, {
+      authorization: `Bearer ${token}`,
+      'x-tenant-id': 'tenant-1',
+    });
+
+    expect(context?.tenantId).toBe('tenant-1');
+  });
+
+  it('应该拒绝请求头与令牌不一致的租户', async () => {
+    const middleware = new TenantResolutionMiddleware({ tokenVerifier });
+
+    const byId = await run(middleware, {
+      authorization: `Bearer ${token}`,
+      'x-tenant-id': 'tenant-2',
+    });
+    const byCode = await run(middleware, {
+      authorization: `Bearer ${token}`,
+      'x-tenant-code': 'other',
+    });
+
+    for (const { res, context } of [byId, byCode]) {
+      expect(res.status).toHaveBeenCalledWith(403);
+      expect(res.json.mock.calls[0][0].error).toBe('TENANT_MISMATCH');
+      expect(context).toBeUndefined();
+    }
+  });
+
+  it('应该拒绝无效的令牌而不回退到请求头', async () => {
+    const middleware = new TenantResolutionMiddleware({ tokenVerifier });
+
+    const { res, context } = await run(middleware, {
+      authorization: `Bearer ${token.slice(0, -2)}xx`,
+      'x-tenant-id': 'tenant-1',
+    });
+
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(res.json.mock.calls[0][0].error).toBe('INVALID_TOKEN');
+    expect(context).toBeUndefined();
+  });
+
+  it('配置了验证器时默认应该拒绝未携带令牌的请求', async () => {
+    const middleware = new TenantResolutionMiddleware({ tokenVerifier });
+
+    const { res, context } = await run(middleware, {
+      'x-tenant-id': 'tenant-1',
+    });
+
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(res.json.mock.calls[0][0].error).toBe('INVALID_TOKEN');
+    expect(context).toBeUndefined();
+  });
+
+  it('允许匿名请求时不应该信任请求头中的租户', async () => {
+    const middleware = new TenantResolutionMiddleware({
+      tokenVerifier,
+      requireAuthentication: false,
+    });
+
+    const rejected = await run(middleware, { 'x-tenant-id': 'tenant-1' });
+    expect(rejected.res.status).toHaveBeenCalledWith(401);
+    expect(rejected.res.json.mock.calls[0][0].error).toBe('TENANT_REQUIRED');
+    expect(rejected.context).toBeUndefined();
+
+    const fallback = await run(
+      new TenantResolutionMiddleware({
+        tokenVerifier,
+        requireAuthentication: false,
+        defaultTenantId: 'public',
+      }),
+      { 'x-tenant-id': 'tenant-1' },
+    );
+    expect(fallback.context?.tenantId).toBe('public');
+  });
+
+  it('未配置验证器时应该沿用请求头解析', async () => {
+    const middleware = new TenantResolutionMiddleware();
+
+    const { context } = await run(middleware, {
+      authorization: `Bearer ${token}`,
+      'x-tenant-id': 'tenant-2',
+    });
+
+    expect(context?.tenantId).toBe('tenant-2');
+    expect(context?.claims).toBeUndefined();
+  });
+});
@@ -7,11 +7,20 @@
  * ## 技术规则
  *
  * ### 租户信息来源优先级
- * 1. HTTP请求头 x-tenant-id 或 x-tenant-code
- * 2. JWT令牌中的租户信息
+ * 1. 已验证的JWT令牌中的租户声明
+ * 2. HTTP请求头 x-tenant-id 或 x-tenant-code
  * 3. 子域名解析 (tenant.example.com)
  * 4. 查询参数 tenant_id
  *
+ * ### 令牌验证规则
+ * - 配置了 tokenVerifier 时验证 Authorization 中的Bearer令牌
+ * - 令牌无效或过期时返回401错误，不回退到其他租户来源
+ * - 请求头中的租户与令牌中的租户不一致时返回403错误
+ * - 配置了 tokenVerifier 时默认要求携带令牌，未携带令牌返回401错误
+ * - requireAuthentication 显式设为 false 时允许匿名请求，但匿名请求不信任
+ *   请求头和查询参数中的租户，只从子域名或默认租户解析
+ * - 令牌中的用户、角色和声明写入租户上下文
+ *
  * ### 错误处理规则
  * - 无法解析租户信息时返回401错误
  * - 租户状态异常时返回403错误
@@ -39,6 +48,10 @@ import {
   TenantContextManager,
   ITenantContextData,
 } from '../context/tenant-context-manager';
+import {
+  TenantTokenVerifier,
+  IVerifiedTokenClaims,
+} from '../auth/tenant-token-verifier';
 
 // 使用通用的请求响应接口，避免依赖express
 interface IRequest {
@@ -76,6 +89,12 @@ export interface ITenantResolutionOptions {
   tenantDataProvider?: (
     tenantIdentifier: string,
   ) => Promise<ITenantContextData>;
+
+  /** Bearer令牌验证器，未配置时忽略Authorization请求头 */
+  tokenVerifier?: TenantTokenVerifier;
+
+  /** 是否要求所有请求携带有效令牌，配置了 tokenVerifier 时默认为 true */
+  requireAuthentication?: boolean;
 }
 
 /**
@@ -92,8 +111,30 @@ export class TenantResolutionMiddleware implements NestMiddleware {
         return next();
       }
 
+      // 验证Bearer令牌
+      const token = this.options.tokenVerifier
+        ? TenantTokenVerifier.extractBearerToken(req.headers.authorization)
+        : null;
+      if (!token && this.requiresAuthentication()) {
+        return this.handleInvalidToken(res, '请求必须携带Bearer令牌');
+      }
+
+      let claims: IVerifiedTokenClaims | undefined;
+      if (token) {
+        try {
+          claims = this.options.tokenVerifier!.verify(token);
+        } catch (error) {
+          return this.handleInvalidToken(res, (error as Error).message);
+        }
+        if (this.hasTenantMismatch(req, claims)) {
+          return this.handleTenantMismatch(res, claims);
+        }
+      }
+
       // 解析租户信息
-      const tenantIdentifier = this.extractTenantIdentifier(req);
+      const tenantIdentifier =
+        claims?.tenantId ??
+        this.extractTenantIdentifier(req, !this.options.tokenVerifier);
       if (!tenantIdentifier) {
         return this.handleMissingTenant(res);
       }
@@ -108,7 +149,15 @@ export class TenantResolutionMiddleware implements NestMiddleware {
       }
 
       // 在租户上下文中执行后续中间件
-      TenantContextManager.run(tenantContext, () => {
+      const context: ITenantContextData = claims
+        ? {
+            ...tenantContext,
+            userId: claims.userId ?? tenantContext.userId,
+            roles: claims.roles,
+            claims,
+          }
+        : tenantContext;
+      TenantContextManager.run(context, () => {
         next();
       });
     } catch (error) {
@@ -116,24 +165,32 @@ export class TenantResolutionMiddleware implements NestMiddleware {
     }
   }
 
+  /**
+   * 是否要求请求携带令牌
+   */
+  private requiresAuthentication(): boolean {
+    return (
+      this.options.requireAuthentication ?? Boolean(this.options.tokenVerifier)
+    );
+  }
+
   /**
    * 提取租户标识符
+   *
+   * @param trustClientTenant 是否信任客户端在请求头和查询参数中声明的租户
    */
-  private extractTenantIdentifier(req: IRequest): string | null {
+  private extractTenantIdentifier(
+    req: IRequest,
+    trustClientTenant: boolean,
+  ): string | null {
     // 1. 从请求头获取
     const headerTenant =
       req.headers['x-tenant-id'] || req.headers['x-tenant-code'];
-    if (headerTenant && typeof headerTenant === 'string') {
+    if (trustClientTenant && headerTenant && typeof headerTenant === 'string') {
       return headerTenant;
     }
 
-    // 2. 从JWT令牌获取
-    const jwtTenant = this.extractTenantFromJWT(req);
-    if (jwtTenant) {
-      return jwtTenant;
-    }
-
-    // 3. 从子域名获取
+    // 2. 从子域名获取
     if (this.options.enableSubdomainResolution) {
       const subdomainTenant = this.extractTenantFromSubdomain(req);
       if (subdomainTenant) {
@@ -141,37 +198,36 @@ export class TenantResolutionMiddleware implements NestMiddleware {
       }
     }
 
-    // 4. 从查询参数获取
-    if (this.options.enableQueryParameterResolution) {
+    // 3. 从查询参数获取
+    if (trustClientTenant && this.options.enableQueryParameterResolution) {
       const queryTenant = req.query.tenant_id || req.query.tenantId;
       if (queryTenant && typeof queryTenant === 'string') {
         return queryTenant;
       }
     }
 
-    // 5. 使用默认租户（开发环境）
+    // 4. 使用默认租户（开发环境）
     return this.options.defaultTenantId || null;
   }
 
   /**
-   * 从JWT令牌提取租户信息
+   * 请求头中的租户是否与令牌中的租户不一致
    */
-  private extractTenantFromJWT(req: IRequest): string | null {
-    const authorization = req.headers.authorization;
-    if (
-      !authorization ||
-      typeof authorization !== 'string' ||
-      !authorization.startsWith('Bearer ')
-    ) {
-      return null;
+  private hasTenantMismatch(
+    req: IRequest,
+    claims: IVerifiedTokenClaims,
+  ): boolean {
+    const headerTenantId = req.headers['x-tenant-id'];
+    if (typeof headerTenantId === 'string' && headerTenantId) {
+      return headerTenantId !== claims.tenantId;
     }
 
-    // TODO: 集成JWT库解析令牌中的租户信息
-    // const token = authorization.substring(7);
-    // const decoded = jwt.decode(token);
-    // return decoded?.tenantId || null;
+    const headerTenantCode = req.headers['x-tenant-code'];
+    if (typeof headerTenantCode === 'string' && headerTenantCode) {
+      return headerTenantCode !== (claims.tenantCode ?? claims.tenantId);
+    }
 
-    return null;
+    return false;
   }
 
   /**
@@ -254,6 +310,35 @@ export class TenantResolutionMiddleware implements NestMiddleware {
     });
   }
 
+  /**
+   * 处理无效令牌
+   */
+  private handleInvalidToken(res: IResponse, reason: string): void {
+    res.status(401).json({
+      error: 'INVALID_TOKEN',
+      message: '请求携带的令牌无效',
+      details: {
+        reason,
+      },
+    });
+  }
+
+  /**
+   * 处理请求头与令牌的租户不一致
+   */
+  private handleTenantMismatch(
+    res: IResponse,
+    claims: IVerifiedTokenClaims,
+  ): void {
+    res.status(403).json({
+      error: 'TENANT_MISMATCH',
+      message: '请求头中的租户与令牌中的租户不一致',
+      details: {
+        tokenTenantId: claims.tenantId,
+      },
+    });
+  }
+
   /**
    * 处理无效租户
    */
@@ -37,6 +37,7 @@ import {
   FastifyPluginOptions,
   EntityId,
 } from '../types';
+import type { IVerifiedTokenClaims } from '../../../../common/multi-tenant/auth/tenant-token-verifier';
 
 /**
  * Fastify适配器接口
@@ -448,6 +449,8 @@ export interface IFastifyTenantContext {
   tenantName?: string;
   createdAt: Date;
   metadata?: Record<string, unknown>;
+  /** 已验证的令牌声明 */
+  claims?: IVerifiedTokenClaims;
 }
 
 /**
@@ -6,7 +6,7 @@
  * ## 业务规则
  *
  * ### 租户识别规则
- * - 优先级：Header > Query Parameter > Subdomain > Default
+ * - 优先级：已验证的令牌 > Header > Query Parameter > Subdomain > Default
  * - Header名称：X-Tenant-ID（可配置）
  * - Query参数名称：tenant（可配置）
  * - 子域名模式：{tenant}.domain.com
@@ -24,6 +24,15 @@
  * - 租户切换时清理前一个租户的上下文
  * - 请求结束时自动清理租户上下文
  *
+ * ### 令牌验证规则
+ * - 配置了 tokenVerifier 时验证 Authorization 中的Bearer令牌
+ * - 令牌无效或过期时返回401
+ * - 配置了 tokenVerifier 时默认要求携带令牌，未携带令牌返回401
+ * - requireAuthentication 显式设为 false 时允许匿名请求，但匿名请求不信任
+ *   Header和Query参数中的租户，只从子域名或默认租户解析
+ * - 租户Header与令牌中的租户不一致时返回403
+ * - 令牌中的用户、角色和声明写入请求对象和租户上下文
+ *
  * ### 安全规则
  * - 租户ID不能包含特殊字符和SQL注入字符
  * - 跨租户数据访问严格禁止
@@ -57,6 +66,10 @@ import {
   EntityId,
 } from '../types';
 import { CoreFastifyMiddleware } from './core-fastify.middleware';
+import {
+  TenantTokenVerifier,
+  IVerifiedTokenClaims,
+} from '../../../../common/multi-tenant/auth/tenant-token-verifier';
 import {
   IFastifyMiddlewareConfig,
   IFastifyTenantContext,
@@ -103,6 +116,16 @@ export interface ITenantMiddlewareConfig extends IFastifyMiddlewareConfig {
     tenantInfoProvider?: (
       tenantId: string,
     ) => Promise<IFastifyTenantContext | null>;
+
+    /**
+     * Bearer令牌验证器
+     */
+    tokenVerifier?: TenantTokenVerifier;
+
+    /**
+     * 是否要求所有请求携带有效令牌，配置了 tokenVerifier 时默认为 true
+     */
+    requireAuthentication?: boolean;
   };
 }
 
@@ -123,8 +146,54 @@ export class TenantMiddleware extends CoreFastifyMiddleware {
     reply: FastifyReply,
   ): Promise<void> {
     try {
+      // 验证Bearer令牌
+      const options = this.getTenantOptions();
+      const token = options.tokenVerifier
+        ? TenantTokenVerifier.extractBearerToken(request.headers.authorization)
+        : null;
+      if (!token && options.requireAuthentication) {
+        await reply.status(401).send({
+          error: 'Unauthorized',
+          message: '缺少Bearer令牌',
+          code: 'MISSING_TOKEN',
+        });
+        return;
+      }
+
+      let claims: IVerifiedTokenClaims | undefined;
+      if (token) {
+        try {
+          claims = options.tokenVerifier!.verify(token);
+        } catch (error) {
+          await reply.status(401).send({
+            error: 'Unauthorized',
+            message: (error as Error).message,
+            code: 'INVALID_TOKEN',
+          });
+          return;
+        }
+
+        const headerTenantId = this.extractTenantIdFromHeader(request);
+        if (headerTenantId && headerTenantId !== claims.tenantId) {
+          this.logger?.warn('租户Header与令牌不一致', {
+            headerTenantId,
+            tokenTenantId: claims.tenantId,
+            method: request.method,
+            url: request.url,
+          });
+          await reply.status(403).send({
+            error: 'Forbidden',
+            message: '租户Header与令牌中的租户不一致',
+            code: 'TENANT_MISMATCH',
+          });
+          return;
+        }
+      }
+
       // 提取租户ID
-      const tenantId = await this.extractTenantId(request);
+      const tenantId =
+        claims?.tenantId ??
+        (await this.extractTenantId(request, !options.tokenVerifier));
 
       if (!tenantId) {
         // 如果没有提取到租户ID且没有默认租户，返回错误
@@ -165,7 +234,10 @@ export class TenantMiddleware extends CoreFastifyMiddleware {
       }
 
       // 获取租户上下文信息
-      const tenantContext = await this.getTenantContext(finalTenantId);
+      const tenantContext: IFastifyTenantContext = {
+        ...(await this.getTenantContext(finalTenantId)),
+        claims,
+      };
 
       // 设置租户上下文
       await this.setTenantContext(request, tenantContext);
@@ -199,24 +271,25 @@ export class TenantMiddleware extends CoreFastifyMiddleware {
 
   /**
    * 提取租户ID
+   *
+   * @param trustClientTenant 是否信任客户端在Header和Query参数中声明的租户
    */
   private async extractTenantId(
     request: FastifyRequest,
+    trustClientTenant: boolean,
   ): Promise<string | null> {
     const options = this.getTenantOptions();
 
     // 1. 从Header中提取
-    if (options.tenantHeader) {
-      const headerValue = request.headers[
-        options.tenantHeader.toLowerCase()
-      ] as string;
-      if (headerValue) {
-        return headerValue.trim();
-      }
+    const headerTenantId = trustClientTenant
+      ? this.extractTenantIdFromHeader(request)
+      : null;
+    if (headerTenantId) {
+      return headerTenantId;
     }
 
     // 2. 从Query参数中提取
-    if (options.tenantQueryParam) {
+    if (trustClientTenant && options.tenantQueryParam) {
       const queryValue = (request.query as Record<string, unknown>)[
         options.tenantQueryParam
       ] as string;
@@ -236,6 +309,19 @@ export class TenantMiddleware extends CoreFastifyMiddleware {
     return null;
   }
 
+  /**
+   * 从Header中提取租户ID
+   */
+  private extractTenantIdFromHeader(request: FastifyRequest): string | null {
+    const { tenantHeader } = this.getTenantOptions();
+    if (!tenantHeader) {
+      return null;
+    }
+
+    const headerValue = request.headers[tenantHeader.toLowerCase()] as string;
+    return headerValue ? headerValue.trim() : null;
+  }
+
   /**
    * 从子域名中提取租户ID
    */
@@ -346,11 +432,19 @@ export class TenantMiddleware extends CoreFastifyMiddleware {
     requestWithTenant.tenantId = tenantContext.tenantId;
     requestWithTenant.tenantContext = tenantContext;
 
+    const { claims } = tenantContext;
+    if (claims?.userId) {
+      request.userId = EntityId.fromString(claims.userId);
+    }
+
     // 设置到TenantContextManager
     TenantContextManager.setCurrentTenant({
       tenantId: tenantContext.tenantId.toString(),
       tenantCode: tenantContext.tenantCode,
       createdAt: tenantContext.createdAt,
+      userId: claims?.userId,
+      roles: claims?.roles,
+      claims,
     });
   }
 
@@ -400,6 +494,10 @@ export class TenantMiddleware extends CoreFastifyMiddleware {
       validateTenant: config.options.validateTenant || false,
       tenantValidator: config.options.tenantValidator,
       tenantInfoProvider: config.options.tenantInfoProvider,
+      tokenVerifier: config.options.tokenVerifier,
+      requireAuthentication:
+        config.options.requireAuthentication ??
+        Boolean(config.options.tokenVerifier),
     };
   }
 
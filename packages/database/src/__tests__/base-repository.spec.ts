@@ -0,0 +1,254 @@
+/**
+ * 基础Repository查询和写入测试
+ *
+ * @description 在SQLite上验证 findById、findAll、findBy、count 的真实查询，
+ * 包括列映射、租户限定、缺少租户上下文时的拒绝和软删除过滤，
+ * 以及 save、delete、saveBatch 写入后的读取
+ *
+ * @since 1.0.0
+ */
+
+import 'reflect-metadata';
+import { Column, Entity } from '../decorators/repository.decorators';
+import {
+  BaseRepository,
+  createRepository,
+} from '../repositories/base-repository';
+import type { IRepositoryContext } from '../repositories/base-repository';
+import { SqliteConnection, createSqliteConnection } from '../drivers';
+import { DatabaseConnectionError, DatabaseQueryError } from '../errors';
+
+/**
+ * 测试用账户实体
+ */
+@Entity({ tableName: 'accounts', enableSoftDelete: true })
+class Account {
+  id!: string;
+  tenantId?: string;
+
+  @Column({ name: 'display_name' })
+  displayName!: string;
+
+  @Column()
+  status!: string;
+
+  @Column()
+  balance!: number;
+}
+
+/**
+ * 账户Repository
+ */
+class AccountRepository extends BaseRepository<Account> {
+  constructor(context: IRepositoryContext) {
+    super(Account, context);
+  }
+}
+
+describe('BaseRepository 查询', () => {
+  let connection: SqliteConnection;
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+
+    connection = createSqliteConnection('local', { database: ':memory:' });
+    await connection.execute(
+      `CREATE TABLE accounts (
+        id TEXT PRIMARY KEY,
+        tenant_id TEXT NOT NULL,
+        display_name TEXT NOT NULL,
+        status TEXT NOT NULL,
+        balance INTEGER NOT NULL,
+        created_at TEXT,
+        updated_at TEXT,
+        deleted_at TEXT
+      )`,
+    );
+    const rows = [
+      ['a1', 't1', 'Alice', 'active', 300, null],
+      ['a2', 't1', 'Bob', 'active', 100, null],
+      ['a3', 't1', 'Carol', 'frozen', 50, null],
+      ['a4', 't1', 'Dave', 'active', 999, '2026-01-01T00:00:00.000Z'],
+      ['b1', 't2', 'Eve', 'active', 500, null],
+    ];
+    for (const row of rows) {
+      await connection.execute(
+        'INSERT INTO accounts (id, tenant_id, display_name, status, balance, deleted_at) VALUES (?, ?, ?, ?, ?, ?)',
+        row,
+      );
+    }
+  });
+
+  afterEach(async () => {
+    await connection.close();
+    jest.restoreAllMocks();
+  });
+
+  const repositoryFor = (tenantId: string): AccountRepository =>
+    new AccountRepository({
+      connection,
+      tenantContext: { tenantId, createdAt: new Date() },
+    });
+
+  it('findBy 应该按属性名编译条件、排序和分页并映射实体', async () => {
+    const accounts = await repositoryFor('t1').findBy(
+      {
+        $or: [{ status: 'frozen' }, { balance: { $gte: 100 } }],
+        displayName: { $ilike: '%O%' },
+      },
+      { orderBy: { balance: 'DESC' }, limit: 2 },
+    );
+
+    expect(accounts).toHaveLength(2);
+    expect(accounts[0]).toBeInstanceOf(Account);
+    expect(
+      accounts.map(({ id, displayName, tenantId }) => ({
+        id,
+        displayName,
+        tenantId,
+      })),
+    ).toEqual([
+      { id: 'a2', displayName: 'Bob', tenantId: 't1' },
+      { id: 'a3', displayName: 'Carol', tenantId: 't1' },
+    ]);
+  });
+
+  it('应该限定当前租户并排除软删除的记录', async () => {
+    const repository = repositoryFor('t1');
+
+    expect(await repository.findById('a1')).toMatchObject({
+      id: 'a1',
+      displayName: 'Alice',
+    });
+    expect(await repository.findById('b1')).toBeNull();
+    expect(await repository.findById('a4')).toBeNull();
+    expect((await repository.findAll()).map((a) => a.id).sort()).toEqual([
+      'a1',
+      'a2',
+      'a3',
+    ]);
+    expect(await repository.count({ status: 'active' })).toBe(2);
+    expect(await repositoryFor('t2').count()).toBe(1);
+  });
+
+  it('投影只返回指定字段', async () => {
+    const [account] = await repositoryFor('t1').findBy(
+      { id: 'a1' },
+      { select: ['id', 'displayName'] },
+    );
+
+    expect(account.displayName).toBe('Alice');
+    expect(account.balance).toBeUndefined();
+  });
+
+  it('findByTenant、countByTenant 应该限定当前租户，缺少租户上下文时拒绝查询', async () => {
+    expect(await repositoryFor('t2').countByTenant()).toBe(1);
+    expect(
+      (await repositoryFor('t1').findByTenant({ status: 'active' })).map(
+        (a) => a.id,
+      ),
+    ).toEqual(['a1', 'a2']);
+
+    const withoutTenant = new AccountRepository({ connection });
+    await expect(withoutTenant.findByTenant()).rejects.toBeInstanceOf(
+      DatabaseQueryError,
+    );
+    await expect(withoutTenant.countByTenant()).rejects.toBeInstanceOf(
+      DatabaseQueryError,
+    );
+  });
+
+  it('未配置连接时应该抛出 DatabaseConnectionError', async () => {
+    await expect(createRepository(Account).findAll()).rejects.toBeInstanceOf(
+      DatabaseConnectionError,
+    );
+    await expect(
+      createRepository(Account).save(new Account()),
+    ).rejects.toBeInstanceOf(DatabaseConnectionError);
+  });
+
+  // 创建账户实体
+  const account = (id: string, displayName: string, balance: number): Account =>
+    Object.assign(new Account(), {
+      id,
+      displayName,
+      status: 'active',
+      balance,
+    });
+
+  describe('写入', () => {
+    it('save 应该插入当前租户的新实体，再次保存时按ID更新', async () => {
+      const repository = repositoryFor('t1');
+
+      await repository.save(account('a5', 'Frank', 10));
+      const [inserted] = await connection.query<Record<string, unknown>>(
+        'SELECT tenant_id, created_at FROM accounts WHERE id = ?',
+        ['a5'],
+      );
+      expect(inserted.tenant_id).toBe('t1');
+      expect(inserted.created_at).toEqual(expect.any(String));
+
+      const saved = (await repository.findById('a5'))!;
+      saved.balance = 20;
+      await repository.save(saved);
+
+      expect(await repository.findById('a5')).toMatchObject({
+        displayName: 'Frank',
+        balance: 20,
+      });
+      await expect(
+        connection.query('SELECT created_at FROM accounts WHERE id = ?', [
+          'a5',
+        ]),
+      ).resolves.toEqual([{ created_at: inserted.created_at }]);
+    });
+
+    it('save 不应该修改其他租户的实体', async () => {
+      await expect(
+        repositoryFor('t1').save(account('b1', 'Mallory', 0)),
+      ).rejects.toBeInstanceOf(DatabaseQueryError);
+
+      expect(await repositoryFor('t2').findById('b1')).toMatchObject({
+        displayName: 'Eve',
+        balance: 500,
+      });
+    });
+
+    it('delete 应该软删除当前租户的实体，没有匹配的记录时返回 false', async () => {
+      const repository = repositoryFor('t1');
+
+      expect(await repository.delete('a1')).toBe(true);
+      expect(await repository.findById('a1')).toBeNull();
+      expect(await repository.delete('a1')).toBe(false);
+      expect(await repository.delete('b1')).toBe(false);
+
+      await expect(
+        connection.query(
+          'SELECT id FROM accounts WHERE deleted_at IS NOT NULL ORDER BY id',
+        ),
+      ).resolves.toEqual([{ id: 'a1' }, { id: 'a4' }]);
+      expect(await repositoryFor('t2').findById('b1')).not.toBeNull();
+    });
+
+    it('saveBatch 应该在一条语句中插入所有实体并写入租户列', async () => {
+      const repository = repositoryFor('t2');
+      const execute = jest.spyOn(connection, 'execute');
+
+      await repository.saveBatch([
+        account('b2', 'Grace', 1),
+        account('b3', 'Heidi', 2),
+      ]);
+
+      expect(execute).toHaveBeenCalledTimes(1);
+      expect(
+        (await repository.findAll({ orderBy: { id: 'ASC' } })).map(
+          ({ id, displayName }) => ({ id, displayName }),
+        ),
+      ).toEqual([
+        { id: 'b1', displayName: 'Eve' },
+        { id: 'b2', displayName: 'Grace' },
+        { id: 'b3', displayName: 'Heidi' },
+      ]);
+    });
+  });
+});
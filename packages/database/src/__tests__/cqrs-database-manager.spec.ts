@@ -1,11 +1,14 @@
 /**
  * CQRS数据库管理器测试
  *
- * @description 测试Database模块的CQRS功能
+ * @description 在SQLite上测试Database模块的CQRS功能
  *
  * @since 1.0.0
  */
 
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
 import { CQRSDatabaseManager } from '../cqrs/cqrs-database-manager';
 import {
   DatabaseCommand,
@@ -17,6 +20,8 @@ import {
   TenantAwareDatabaseQuery,
   PaginatedDatabaseQuery,
 } from '../cqrs/database-query';
+import { createSqliteConnection } from '../drivers';
+import type { IDatabaseConnection } from '../interfaces';
 // import { MongoEventStore } from '../cqrs/event-store';
 
 // Mock配置管理器
@@ -82,15 +87,37 @@ const mockConfigManager = {
 } as any;
 
 describe('CQRSDatabaseManager', () => {
+  let directory: string;
   let cqrsManager: CQRSDatabaseManager;
 
+  // 读写连接打开同一个数据库文件
+  const connect = (name: string): IDatabaseConnection =>
+    createSqliteConnection(name, { database: join(directory, 'cqrs.db') });
+
   beforeEach(async () => {
-    cqrsManager = new CQRSDatabaseManager(mockConfigManager);
+    directory = mkdtempSync(join(tmpdir(), 'aiofix-cqrs-'));
+    const connection = connect('setup');
+    for (const sql of [
+      'CREATE TABLE users (id TEXT, email TEXT, name TEXT, active INTEGER, tenant_id TEXT)',
+      'CREATE TABLE orders (id TEXT, customer_id TEXT, amount REAL, status TEXT, tenant_id TEXT)',
+      'CREATE TABLE products (name TEXT, price REAL, category TEXT)',
+      'CREATE TABLE performance_test (id INTEGER PRIMARY KEY, data TEXT)',
+    ]) {
+      await connection.execute(sql);
+    }
+    await connection.close();
+
+    cqrsManager = new CQRSDatabaseManager(
+      mockConfigManager,
+      undefined,
+      connect,
+    );
     await cqrsManager.initialize();
   });
 
   afterEach(async () => {
     await cqrsManager.destroy();
+    rmSync(directory, { recursive: true, force: true });
   });
 
   describe('命令执行功能', () => {
@@ -201,7 +228,7 @@ describe('CQRSDatabaseManager', () => {
 
       expect(result.success).toBe(true);
       expect(Array.isArray(result.data)).toBe(true);
-      expect(result.totalCount).toBe(0); // 模拟返回空结果
+      expect(result.totalCount).toBe(0); // 表中没有数据
       expect(result.executionTime).toBeGreaterThan(0);
       expect(result.fromCache).toBe(false);
     });
@@ -305,14 +332,13 @@ describe('CQRSDatabaseManager', () => {
 
   describe('错误处理', () => {
     it('应该正确处理命令执行错误', async () => {
-      // 由于模拟实现不会真正失败，这里修改测试
       const command = new DatabaseCommand('INVALID SQL SYNTAX', [], [], {
         shouldFail: true,
       });
 
-      // 模拟实现会成功执行
-      const result = await cqrsManager.executeCommand(command);
-      expect(result.success).toBe(true);
+      await expect(cqrsManager.executeCommand(command)).rejects.toThrow(
+        'CQRS命令执行失败',
+      );
     });
 
     it('应该正确处理查询执行错误', async () => {
@@ -320,9 +346,33 @@ describe('CQRSDatabaseManager', () => {
         shouldFail: true,
       });
 
-      // 模拟实现会成功执行
-      const result = await cqrsManager.executeQuery(query);
-      expect(result.success).toBe(true);
+      await expect(cqrsManager.executeQuery(query)).rejects.toThrow(
+        'CQRS查询执行失败',
+      );
+    });
+
+    it('读写连接未配置时应该初始化失败', async () => {
+      const config = await mockConfigManager.getModuleConfig();
+      const missingConfigManager = {
+        getModuleConfig: jest.fn().mockResolvedValue({
+          ...config,
+          cqrs: { ...config.cqrs, readConnection: 'replica' },
+        }),
+      } as any;
+      const factory = jest.fn(connect);
+
+      const manager = new CQRSDatabaseManager(
+        missingConfigManager,
+        undefined,
+        factory,
+      );
+
+      await expect(manager.initialize()).rejects.toThrow(
+        '读连接未配置: replica',
+      );
+      // 已创建的写连接应该被关闭
+      const [write] = factory.mock.results.map((result) => result.value);
+      await expect(write.query('SELECT 1')).rejects.toThrow();
     });
 
     it('应该在CQRS未启用时抛出错误', async () => {
@@ -0,0 +1,165 @@
+/**
+ * 查询条件SQL构建器测试
+ *
+ * @description 验证操作符、逻辑组合、投影、排序、分页的编译结果，
+ * 方言差异和非法输入的拒绝
+ *
+ * @since 1.0.0
+ */
+
+import { createCriteriaQueryBuilder } from '../query';
+import { DatabaseQueryError } from '../errors';
+
+describe('CriteriaQueryBuilder', () => {
+  const builder = createCriteriaQueryBuilder('postgresql');
+
+  it('应该把字段操作符编译为参数化条件', () => {
+    const createdAfter = new Date('2026-01-01T00:00:00.000Z');
+
+    expect(
+      builder.where({
+        status: 'active',
+        age: { $gte: 18, $lt: 65 },
+        role: { $in: ['admin', 'owner'] },
+        plan: { $nin: ['trial'] },
+        name: { $like: 'A%' },
+        createdAt: { $gt: createdAfter },
+        deletedAt: null,
+        archivedAt: { $ne: null },
+        email: { $isNull: false },
+      }),
+    ).toEqual({
+      sql: [
+        '"status" = ?',
+        '"age" >= ?',
+        '"age" < ?',
+        '"role" IN (?, ?)',
+        '"plan" NOT IN (?)',
+        '"name" LIKE ?',
+        '"createdAt" > ?',
+        '"deletedAt" IS NULL',
+        '"archivedAt" IS NOT NULL',
+        '"email" IS NOT NULL',
+      ].join(' AND '),
+      params: ['active', 18, 65, 'admin', 'owner', 'trial', 'A%', createdAfter],
+    });
+  });
+
+  it('应该编译嵌套的 $and / $or 并按顺序排列参数', () => {
+    expect(
+      builder.where({
+        tenant_id: 't1',
+        $or: [
+          { status: 'active' },
+          { $and: [{ status: 'pending' }, { age: { $gt: 30 } }] },
+        ],
+      }),
+    ).toEqual({
+      sql: '"tenant_id" = ? AND ("status" = ? OR ("status" = ? AND "age" > ?))',
+      params: ['t1', 'active', 'pending', 30],
+    });
+  });
+
+  it('空列表和空组合应该有确定的语义', () => {
+    expect(builder.where({ id: { $in: [] } }).sql).toBe('1 = 0');
+    expect(builder.where({ id: { $nin: [] } }).sql).toBe('1 = 1');
+    expect(builder.where({ $or: [] }).sql).toBe('1 = 0');
+    expect(builder.where({ $and: [] })).toEqual({ sql: '', params: [] });
+    expect(builder.where({ $or: [{}, { status: 'active' }] })).toEqual({
+      sql: '',
+      params: [],
+    });
+  });
+
+  it('应该构建带投影、排序和分页的查询', () => {
+    expect(
+      builder.select(
+        'app.users',
+        { status: 'active' },
+        {
+          select: ['id', 'name'],
+          orderBy: { createdAt: 'DESC', id: 'ASC' },
+          limit: 20,
+          offset: 40,
+        },
+      ),
+    ).toEqual({
+      sql: 'SELECT "id", "name" FROM "app"."users" WHERE "status" = ? ORDER BY "createdAt" DESC, "id" ASC LIMIT ? OFFSET ?',
+      params: ['active', 20, 40],
+    });
+    expect(builder.count('users', { status: 'active' })).toEqual({
+      sql: 'SELECT COUNT(*) AS count FROM "users" WHERE "status" = ?',
+      params: ['active'],
+    });
+  });
+
+  it('应该按方言引用标识符并转换 $ilike 和单独的 OFFSET', () => {
+    expect(
+      createCriteriaQueryBuilder('mysql').select(
+        'users',
+        { name: { $ilike: '%bob%' } },
+        { offset: 10 },
+      ).sql,
+    ).toBe(
+      'SELECT * FROM `users` WHERE LOWER(`name`) LIKE LOWER(?) LIMIT 18446744073709551615 OFFSET ?',
+    );
+    expect(
+      createCriteriaQueryBuilder('sqlite').select('users', {}, { offset: 10 })
+        .sql,
+    ).toBe('SELECT * FROM "users" LIMIT -1 OFFSET ?');
+    expect(builder.where({ name: { $ilike: '%bob%' } }).sql).toBe(
+      '"name" ILIKE ?',
+    );
+  });
+
+  it('应该通过 resolveColumn 把字段名映射为列名', () => {
+    const mapped = createCriteriaQueryBuilder('postgresql', (field) =>
+      field === 'createdAt' ? 'created_at' : field,
+    );
+
+    expect(
+      mapped.select(
+        'users',
+        { createdAt: { $lt: 1 } },
+        {
+          orderBy: { createdAt: 'ASC' },
+        },
+      ).sql,
+    ).toBe(
+      'SELECT * FROM "users" WHERE "created_at" < ? ORDER BY "created_at" ASC',
+    );
+  });
+
+  it.each([
+    ['非法字段名', () => builder.where({ 'name; DROP TABLE users': 'x' })],
+    [
+      '未知字段操作符',
+      () => builder.where({ age: { $between: [1, 2] } as never }),
+    ],
+    ['未知逻辑操作符', () => builder.where({ $not: [] })],
+    ['undefined 条件值', () => builder.where({ id: undefined })],
+    [
+      'undefined 操作符值',
+      () => builder.where({ age: { $gte: 18, $lt: undefined } }),
+    ],
+    [
+      '组合条件中的 undefined 值',
+      () => builder.where({ $or: [{ id: 1 }, { id: undefined }] }),
+    ],
+    [
+      '非法排序方向',
+      () =>
+        builder.select(
+          'users',
+          {},
+          {
+            orderBy: { id: 'DESC; DROP TABLE users' as never },
+          },
+        ),
+    ],
+    ['非法分页参数', () => builder.select('users', {}, { limit: -1 })],
+    ['非法表名', () => builder.select('users u', {})],
+  ])('应该拒绝%s', (_name, compile) => {
+    expect(compile).toThrow(DatabaseQueryError);
+  });
+});
@@ -0,0 +1,319 @@
+/**
+ * 数据库迁移执行器测试
+ *
+ * @description 使用SQLite验证迁移执行、回滚、校验和、试运行和数据库级租户分发，
+ * 使用记录语句的连接验证PostgreSQL咨询锁和模式级租户分发
+ *
+ * @since 1.0.0
+ */
+
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { IDatabaseConnection } from '../interfaces';
+import { DatabaseIsolationLevel } from '../interfaces';
+import type { IMigration } from '../migrations';
+import { createMigrationRunner } from '../migrations';
+import { SqliteConnection, createSqliteConnection } from '../drivers';
+import {
+  DEFAULT_ISOLATION_CONFIG,
+  createDatabaseIsolationStrategy,
+} from '../strategies/database-isolation.strategy';
+
+const migrations: IMigration[] = [
+  {
+    version: 2,
+    name: 'add_user_email',
+    up: ['ALTER TABLE users ADD COLUMN email TEXT'],
+    down: ['ALTER TABLE users DROP COLUMN email'],
+  },
+  {
+    version: 1,
+    name: 'create_users',
+    up: ['CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT NOT NULL)'],
+    down: ['DROP TABLE users'],
+  },
+];
+
+const tableNames = async (connection: IDatabaseConnection): Promise<string[]> =>
+  (
+    await connection.query<{ name: string }>(
+      `SELECT name FROM sqlite_master WHERE type = 'table' ORDER BY name`,
+    )
+  ).map((row) => row.name);
+
+/**
+ * 创建记录语句的PostgreSQL连接
+ */
+const createRecordingConnection = (
+  failOn?: string,
+): { connection: IDatabaseConnection; statements: string[] } => {
+  const statements: string[] = [];
+  const record = async (sql: string) => {
+    statements.push(sql);
+    if (failOn && sql.includes(failOn)) {
+      throw new Error(`${failOn} failed`);
+    }
+    return [];
+  };
+  const connection = {
+    name: 'primary',
+    type: 'postgresql',
+    isConnected: true,
+    query: record,
+    execute: jest.fn(),
+    beginTransaction: jest.fn(async () => ({
+      query: record,
+      execute: async (sql: string) => {
+        await record(sql);
+        return { affectedRows: 0, executionTime: 0, success: true };
+      },
+      commit: async () => {
+        statements.push('COMMIT');
+      },
+      rollback: async () => {
+        statements.push('ROLLBACK');
+      },
+    })),
+    close: jest.fn(),
+  } as unknown as IDatabaseConnection;
+  return { connection, statements };
+};
+
+describe('MigrationRunner', () => {
+  let connection: SqliteConnection;
+
+  beforeEach(() => {
+    connection = createSqliteConnection('local', { database: ':memory:' });
+  });
+
+  afterEach(async () => {
+    await connection.close();
+  });
+
+  it('应该按版本执行迁移并记录历史，重复执行时不再应用', async () => {
+    const runner = createMigrationRunner(migrations, { connection });
+
+    const first = await runner.migrate();
+    const second = await runner.migrate();
+
+    expect(first.targets).toEqual([
+      expect.objectContaining({
+        target: 'local',
+        status: 'applied',
+        versions: [1, 2],
+        currentVersion: 2,
+      }),
+    ]);
+    expect(second.targets[0]).toMatchObject({
+      status: 'up_to_date',
+      versions: [],
+      currentVersion: 2,
+    });
+    await expect(
+      connection.query('SELECT version, name FROM schema_migrations'),
+    ).resolves.toEqual([
+      { version: 1, name: 'create_users' },
+      { version: 2, name: 'add_user_email' },
+    ]);
+    await connection.execute('INSERT INTO users (name, email) VALUES (?, ?)', [
+      'Alice',
+      'alice@example.com',
+    ]);
+  });
+
+  it('迁移失败时应该回滚该目标的所有修改', async () => {
+    const runner = createMigrationRunner(
+      [
+        ...migrations,
+        { version: 3, name: 'broken', up: ['ALTER TABLE missing ADD x INT'] },
+      ],
+      { connection },
+    );
+
+    const report = await runner.migrate();
+
+    expect(report.failed).toBe(1);
+    expect(report.targets[0]).toMatchObject({
+      status: 'failed',
+      error: expect.stringContaining('no such table: missing'),
+    });
+    expect(await tableNames(connection)).toEqual([]);
+  });
+
+  it('应该回滚最近的迁移或回滚到指定版本', async () => {
+    const runner = createMigrationRunner(migrations, { connection });
+    await runner.migrate();
+
+    const last = await runner.rollback();
+    expect(last.targets[0]).toMatchObject({
+      status: 'rolled_back',
+      versions: [2],
+      currentVersion: 1,
+    });
+
+    await runner.migrate();
+    const all = await runner.rollback({ to: 0 });
+    expect(all.targets[0]).toMatchObject({
+      status: 'rolled_back',
+      versions: [2, 1],
+      currentVersion: null,
+    });
+    expect(await tableNames(connection)).toEqual(['schema_migrations']);
+  });
+
+  it('已应用迁移的校验和不一致时应该拒绝执行', async () => {
+    await createMigrationRunner(migrations, { connection }).migrate();
+
+    const changed = migrations.map((migration) =>
+      migration.version === 1
+        ? { ...migration, up: ['CREATE TABLE users (id INTEGER)'] }
+        : migration,
+    );
+    const report = await createMigrationRunner(changed, {
+      connection,
+    }).migrate();
+
+    expect(report.targets[0]).toMatchObject({
+      status: 'failed',
+      error: '迁移校验和不一致: 1 create_users',
+    });
+  });
+
+  it('试运行应该返回将要执行的语句而不修改数据库', async () => {
+    const runner = createMigrationRunner(
+      [
+        ...migrations,
+        {
+          version: 3,
+          name: 'seed_admin',
+          up: async (executor) => {
+            await executor.execute(`INSERT INTO users (name) VALUES ('admin')`);
+          },
+        },
+      ],
+      { connection },
+    );
+
+    const report = await runner.migrate({ dryRun: true, to: 3 });
+
+    expect(report.dryRun).toBe(true);
+    expect(report.targets[0]).toMatchObject({
+      status: 'pending',
+      versions: [1, 2, 3],
+      currentVersion: null,
+      statements: [
+        'CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT NOT NULL)',
+        'ALTER TABLE users ADD COLUMN email TEXT',
+        `INSERT INTO users (name) VALUES ('admin')`,
+      ],
+    });
+    expect(await tableNames(connection)).toEqual([]);
+  });
+
+  it('应该拒绝重复的版本号', () => {
+    expect(() =>
+      createMigrationRunner([migrations[0], migrations[0]], { connection }),
+    ).toThrow('迁移版本号重复: 2');
+  });
+});
+
+describe('MigrationRunner 租户分发', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'aiofix-migrations-'));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('数据库级隔离应该在每个租户数据库上执行并单独报告状态', async () => {
+    const shared = createSqliteConnection('shared', { database: ':memory:' });
+    const opened: SqliteConnection[] = [];
+    const runner = createMigrationRunner(migrations, {
+      connection: shared,
+      isolationStrategy: createDatabaseIsolationStrategy({
+        ...DEFAULT_ISOLATION_CONFIG,
+        strategy: DatabaseIsolationLevel.DATABASE,
+      }),
+      listTenants: async () => ['acme', 'globex', 'broken'],
+      tenantConnectionFactory: (tenantId, databaseName) => {
+        if (tenantId === 'broken') {
+          throw new Error('租户数据库不可用');
+        }
+        const tenantConnection = createSqliteConnection(databaseName, {
+          database: join(directory, `${databaseName}.db`),
+        });
+        opened.push(tenantConnection);
+        return tenantConnection;
+      },
+    });
+
+    const report = await runner.migrate();
+    const status = await runner.status(['acme']);
+
+    expect(
+      report.targets.map(({ target, tenantId, status, error }) => ({
+        target,
+        tenantId,
+        status,
+        error,
+      })),
+    ).toEqual([
+      { target: 'tenant_db_acme', tenantId: 'acme', status: 'applied' },
+      { target: 'tenant_db_globex', tenantId: 'globex', status: 'applied' },
+      {
+        target: 'tenant_db_broken',
+        tenantId: 'broken',
+        status: 'failed',
+        error: '租户数据库不可用',
+      },
+    ]);
+    expect(report.failed).toBe(1);
+    expect(status.targets).toEqual([
+      expect.objectContaining({
+        tenantId: 'acme',
+        status: 'up_to_date',
+        currentVersion: 2,
+      }),
+    ]);
+    expect(opened.every((c) => !c.isConnected)).toBe(true);
+    expect(await tableNames(shared)).toEqual([]);
+    await shared.close();
+  });
+
+  it('模式级隔离应该加咨询锁并在每个租户模式上执行', async () => {
+    const { connection, statements } = createRecordingConnection(
+      '"tenant_globex".schema_migrations (version',
+    );
+    const runner = createMigrationRunner(migrations.slice(1), {
+      connection,
+      isolationStrategy: createDatabaseIsolationStrategy({
+        ...DEFAULT_ISOLATION_CONFIG,
+        strategy: DatabaseIsolationLevel.SCHEMA,
+      }),
+      listTenants: async () => ['acme', 'globex'],
+    });
+
+    const report = await runner.migrate();
+
+    expect(report.targets.map((t) => [t.target, t.status])).toEqual([
+      ['tenant_acme', 'applied'],
+      ['tenant_globex', 'failed'],
+    ]);
+    const acme = statements.slice(0, statements.indexOf('COMMIT') + 1);
+    expect(acme.map((sql) => sql.split('(')[0].trim())).toEqual([
+      'SELECT pg_advisory_xact_lock',
+      'CREATE SCHEMA IF NOT EXISTS "tenant_acme"',
+      'SET LOCAL search_path TO "tenant_acme"',
+      'CREATE TABLE IF NOT EXISTS "tenant_acme".schema_migrations',
+      'SELECT version, name, checksum FROM "tenant_acme".schema_migrations ORDER BY version',
+      'CREATE TABLE users',
+      'INSERT INTO "tenant_acme".schema_migrations',
+      'COMMIT',
+    ]);
+    expect(statements[statements.length - 1]).toBe('ROLLBACK');
+  });
+});
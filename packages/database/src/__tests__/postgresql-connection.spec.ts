@@ -0,0 +1,267 @@
+/**
+ * PostgreSQL数据库连接测试
+ *
+ * @description 使用 pg-mem 验证参数化查询、命令结果和错误映射，
+ * 使用记录语句的连接验证事务和保存点（pg-mem 不支持保存点）
+ *
+ * @since 1.0.0
+ */
+
+import { newDb } from 'pg-mem';
+import type { Pool, PoolClient } from 'pg';
+import {
+  PostgresConnection,
+  createPostgresConnection,
+  toPositionalParameters,
+} from '../drivers';
+import {
+  DatabaseConnectionError,
+  DatabaseQueryError,
+  DatabaseTransactionError,
+} from '../errors';
+
+const connectionConfig = {
+  type: 'postgresql' as const,
+  host: 'localhost',
+  port: 5432,
+  username: 'postgres',
+  password: 'password',
+  database: 'test_db',
+};
+
+/**
+ * 创建记录语句的事务连接
+ */
+const createRecordingPool = (
+  failOn?: string,
+): { pool: Pool; client: { query: jest.Mock; release: jest.Mock } } => {
+  const client = {
+    query: jest.fn(async (sql: string) => {
+      if (failOn && sql.startsWith(failOn)) {
+        throw Object.assign(new Error(`${failOn} failed`), { code: '40001' });
+      }
+      return { rows: [], rowCount: 1 };
+    }),
+    release: jest.fn(),
+  };
+  const pool = {
+    connect: jest.fn(async () => client as unknown as PoolClient),
+  } as unknown as Pool;
+  return { pool, client };
+};
+
+describe('toPositionalParameters', () => {
+  it('应该按顺序转换占位符，并保留字符串、标识符和注释中的问号', () => {
+    expect(
+      toPositionalParameters(
+        `SELECT '?' AS q, "a?" FROM t -- why?\nWHERE a = ? /* ? */ AND b = ?`,
+      ),
+    ).toBe(
+      `SELECT '?' AS q, "a?" FROM t -- why?\nWHERE a = $1 /* ? */ AND b = $2`,
+    );
+    expect(toPositionalParameters(`SELECT 'it''s ?' WHERE a = ?`)).toBe(
+      `SELECT 'it''s ?' WHERE a = $1`,
+    );
+  });
+});
+
+describe('PostgresConnection', () => {
+  let connection: PostgresConnection;
+
+  beforeEach(async () => {
+    const { Pool: MemPool } = newDb().adapters.createPg();
+    connection = createPostgresConnection(
+      'primary',
+      connectionConfig,
+      () => new MemPool() as Pool,
+    );
+    await connection.execute(
+      'CREATE TABLE users (id SERIAL PRIMARY KEY, email TEXT UNIQUE, status TEXT)',
+    );
+  });
+
+  afterEach(async () => {
+    await connection.close();
+  });
+
+  it('应该执行参数化命令和查询', async () => {
+    const inserted = await connection.execute(
+      'INSERT INTO users (email, status) VALUES (?, ?) RETURNING id',
+      ['a@example.com', 'active'],
+    );
+    await connection.execute(
+      'INSERT INTO users (email, status) VALUES ($1, $2)',
+      ['b@example.com', 'inactive'],
+    );
+    const updated = await connection.execute(
+      'UPDATE users SET status = ? WHERE status = ?',
+      ['archived', 'inactive'],
+    );
+
+    expect(inserted).toMatchObject({
+      affectedRows: 1,
+      insertId: 1,
+      success: true,
+    });
+    expect(updated.affectedRows).toBe(1);
+    await expect(
+      connection.query<{ email: string }>(
+        'SELECT email FROM users WHERE status = ? ORDER BY id',
+        ['archived'],
+      ),
+    ).resolves.toEqual([{ email: 'b@example.com' }]);
+  });
+
+  it('应该把约束冲突映射为 DatabaseQueryError', async () => {
+    const sql = 'INSERT INTO users (email) VALUES (?)';
+    await connection.execute(sql, ['a@example.com']);
+
+    const error = await connection
+      .execute(sql, ['a@example.com'])
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(DatabaseQueryError);
+    expect((error as DatabaseQueryError).context).toMatchObject({
+      connectionName: 'primary',
+      sql,
+      params: ['a@example.com'],
+      errorCode: '23505',
+    });
+  });
+
+  it('应该把网络错误映射为 DatabaseConnectionError', async () => {
+    jest.spyOn(connection.getRawConnection(), 'query').mockRejectedValueOnce(
+      Object.assign(new Error('connect ECONNREFUSED 127.0.0.1:5432'), {
+        code: 'ECONNREFUSED',
+      }) as never,
+    );
+
+    await expect(connection.query('SELECT 1')).rejects.toBeInstanceOf(
+      DatabaseConnectionError,
+    );
+  });
+
+  it('关闭后应该拒绝执行语句', async () => {
+    await connection.close();
+
+    expect(connection.isConnected).toBe(false);
+    await expect(connection.query('SELECT 1')).rejects.toBeInstanceOf(
+      DatabaseConnectionError,
+    );
+  });
+});
+
+describe('PostgresTransaction', () => {
+  it('应该在独占连接上执行事务和保存点，提交后归还连接', async () => {
+    const { pool, client } = createRecordingPool();
+    const connection = new PostgresConnection('primary', pool);
+
+    const transaction = await connection.beginTransaction({
+      isolationLevel: 'SERIALIZABLE',
+      readOnly: true,
+    });
+    await transaction.execute('UPDATE users SET status = ? WHERE id = ?', [
+      'active',
+      1,
+    ]);
+    await transaction.savepoint('before_profile');
+    await transaction.savepoint('before_avatar');
+    await transaction.rollbackToSavepoint('before_profile');
+    await expect(
+      transaction.rollbackToSavepoint('before_avatar'),
+    ).rejects.toBeInstanceOf(DatabaseTransactionError);
+    await transaction.commit();
+
+    expect(client.query.mock.calls.map(([sql]) => sql)).toEqual([
+      'BEGIN ISOLATION LEVEL SERIALIZABLE READ ONLY',
+      'UPDATE users SET status = $1 WHERE id = $2',
+      'SAVEPOINT before_profile',
+      'SAVEPOINT before_avatar',
+      'ROLLBACK TO SAVEPOINT before_profile',
+      'COMMIT',
+    ]);
+    expect(client.release).toHaveBeenCalledTimes(1);
+    expect(transaction.isActive).toBe(false);
+    await expect(transaction.query('SELECT 1')).rejects.toBeInstanceOf(
+      DatabaseTransactionError,
+    );
+    await expect(transaction.rollback()).resolves.toBeUndefined();
+  });
+
+  it('应该拒绝无效的保存点名称', async () => {
+    const { pool } = createRecordingPool();
+    const transaction = await new PostgresConnection(
+      'primary',
+      pool,
+    ).beginTransaction();
+
+    await expect(
+      transaction.savepoint('x; DROP TABLE users'),
+    ).rejects.toBeInstanceOf(DatabaseTransactionError);
+  });
+
+  it('提交失败时应该丢弃连接并抛出 DatabaseTransactionError', async () => {
+    const { pool, client } = createRecordingPool('COMMIT');
+    const transaction = await new PostgresConnection(
+      'primary',
+      pool,
+    ).beginTransaction();
+
+    await expect(transaction.commit()).rejects.toBeInstanceOf(
+      DatabaseTransactionError,
+    );
+    expect(client.release).toHaveBeenCalledWith(expect.any(Error));
+  });
+
+  it('获取连接超时应该映射为 DatabaseConnectionError', async () => {
+    const pool = {
+      connect: jest.fn(async () => {
+        throw new Error('timeout exceeded when trying to connect');
+      }),
+    } as unknown as Pool;
+
+    await expect(
+      new PostgresConnection('primary', pool).beginTransaction(),
+    ).rejects.toBeInstanceOf(DatabaseConnectionError);
+  });
+});
+
+describe('PostgresConnection.forTenant', () => {
+  const tenantContext = { tenantId: 't1', createdAt: new Date() };
+
+  it('每次取出连接时设置租户ID，归还前清空，事务内使用事务级设置', async () => {
+    const { pool, client } = createRecordingPool();
+    const end = jest.fn();
+    Object.assign(pool, { end });
+    const connection = new PostgresConnection('primary', pool).forTenant(
+      tenantContext,
+    );
+
+    await connection.query('SELECT * FROM orders WHERE id = ?', [1]);
+    const transaction = await connection.beginTransaction();
+    await transaction.commit();
+    await connection.close();
+
+    expect(client.query.mock.calls).toEqual([
+      ['SELECT set_config($1, $2, false)', ['app.tenant_id', 't1']],
+      ['SELECT * FROM orders WHERE id = $1', [1]],
+      ["SELECT set_config($1, '', false)", ['app.tenant_id']],
+      ['BEGIN'],
+      ['SELECT set_config($1, $2, true)', ['app.tenant_id', 't1']],
+      ['COMMIT'],
+    ]);
+    expect(client.release).toHaveBeenCalledTimes(2);
+    expect(end).not.toHaveBeenCalled();
+  });
+
+  it('无法清空租户设置时应该丢弃连接', async () => {
+    const { pool, client } = createRecordingPool("SELECT set_config($1, ''");
+    const connection = new PostgresConnection('primary', pool).forTenant(
+      tenantContext,
+    );
+
+    await connection.execute('UPDATE orders SET total = 0');
+
+    expect(client.release).toHaveBeenCalledWith(expect.any(Error));
+  });
+});
@@ -0,0 +1,281 @@
+/**
+ * Repository装饰器测试
+ *
+ * @description 测试@Cacheable通过缓存服务getOrSet的读取、并发合并、过期选项和租户前缀，
+ * 以及@CacheEvict按租户失效已缓存的结果
+ *
+ * @since 1.0.0
+ */
+
+import { Cacheable, CacheEvict } from '../decorators/repository.decorators';
+import { BaseRepository } from '../repositories/base-repository';
+import type {
+  IRepositoryCache,
+  IRepositoryCacheInvalidator,
+  IRepositoryContext,
+} from '../repositories/base-repository';
+
+/**
+ * 把通配符模式转为正则表达式
+ */
+const toPattern = (target: string): RegExp => {
+  const escape = (value: string): string =>
+    value.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`^${target.split('*').map(escape).join('.*')}$`);
+};
+
+/**
+ * 内存缓存，按键合并并发的加载，按模式失效
+ */
+class MemoryRepositoryCache implements IRepositoryCache {
+  readonly store = new Map<string, unknown>();
+  private readonly pending = new Map<string, Promise<unknown>>();
+
+  async get<V>(key: string): Promise<V | null> {
+    return (this.store.get(key) as V) ?? null;
+  }
+
+  async set<V>(key: string, value: V): Promise<boolean> {
+    this.store.set(key, value);
+    return true;
+  }
+
+  async getOrSet<V>(
+    key: string,
+    loader: () => Promise<V | null | undefined>,
+  ): Promise<V | null> {
+    if (this.store.has(key)) {
+      return this.store.get(key) as V;
+    }
+    let load = this.pending.get(key);
+    if (!load) {
+      load = loader()
+        .then((value) => {
+          this.store.set(key, value ?? null);
+          return value ?? null;
+        })
+        .finally(() => this.pending.delete(key));
+      this.pending.set(key, load);
+    }
+    return load as Promise<V | null>;
+  }
+
+  async evict(target: string): Promise<number> {
+    const pattern = toPattern(target);
+    const keys = Array.from(this.store.keys()).filter((key) =>
+      pattern.test(key),
+    );
+    keys.forEach((key) => this.store.delete(key));
+    return keys.length;
+  }
+}
+
+/**
+ * 缓存失效总线替身，按总线的规则加上租户前缀后删除匹配模式的键
+ */
+const createInvalidator = (
+  cache: MemoryRepositoryCache,
+): IRepositoryCacheInvalidator => ({
+  invalidate: jest.fn(async (target: string, options = {}) => {
+    const prefix = options.tenantContext
+      ? `tenant:${options.tenantContext.tenantId}:`
+      : '';
+    return cache.evict(`${prefix}${target}`);
+  }),
+});
+
+/**
+ * 测试用账户实体
+ */
+class Account {
+  id!: string;
+}
+
+/**
+ * 方法结果通过@Cacheable缓存的Repository
+ */
+class AccountRepository extends BaseRepository<Account> {
+  readonly queries = jest.fn();
+  private releaseQuery: (() => void) | null = null;
+  private blocked = false;
+
+  constructor(context: IRepositoryContext) {
+    super(Account, context);
+  }
+
+  block(): void {
+    this.blocked = true;
+  }
+
+  release(): void {
+    this.blocked = false;
+    this.releaseQuery?.();
+  }
+
+  @Cacheable({ ttl: 1000, softTtl: 500, negativeTtl: 100 })
+  async findCached(id: string): Promise<{ id: string } | null> {
+    this.queries(id);
+    if (this.blocked) {
+      await new Promise<void>((resolve) => (this.releaseQuery = resolve));
+    }
+    return { id };
+  }
+
+  @CacheEvict(['AccountRepository.findCached:*{0}*'])
+  async rename(id: string): Promise<string> {
+    return id;
+  }
+}
+
+// 等待挂起的微任务执行完成
+const flushPromises = (): Promise<void> =>
+  new Promise((resolve) => globalThis.setImmediate(resolve));
+
+describe('Repository装饰器', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('@Cacheable', () => {
+    let cache: MemoryRepositoryCache;
+
+    beforeEach(() => {
+      cache = new MemoryRepositoryCache();
+    });
+
+    it('应该通过缓存服务的 getOrSet 加载并传入过期选项', async () => {
+      const getOrSet = jest.spyOn(cache, 'getOrSet');
+      const repository = new AccountRepository({ cache });
+
+      expect(await repository.findCached('1')).toEqual({ id: '1' });
+
+      expect(getOrSet).toHaveBeenCalledWith(
+        'AccountRepository.findCached:["1"]',
+        expect.any(Function),
+        { ttl: 1000, softTtl: 500, negativeTtl: 100 },
+      );
+    });
+
+    it('缓存命中时不应该执行原方法', async () => {
+      const repository = new AccountRepository({ cache });
+
+      await repository.findCached('1');
+      expect(await repository.findCached('1')).toEqual({ id: '1' });
+
+      expect(repository.queries).toHaveBeenCalledTimes(1);
+    });
+
+    it('并发的缓存未命中应该只执行一次原方法', async () => {
+      const repository = new AccountRepository({ cache });
+      repository.block();
+
+      const requests = Array.from({ length: 5 }, () =>
+        repository.findCached('1'),
+      );
+      await flushPromises();
+      repository.release();
+
+      expect(await Promise.all(requests)).toEqual(Array(5).fill({ id: '1' }));
+      expect(repository.queries).toHaveBeenCalledTimes(1);
+    });
+
+    it('原方法失败后下一次调用应该重新执行', async () => {
+      const repository = new AccountRepository({ cache });
+      repository.queries.mockImplementationOnce(() => {
+        throw new Error('db down');
+      });
+
+      await expect(repository.findCached('1')).rejects.toThrow('db down');
+      expect(await repository.findCached('1')).toEqual({ id: '1' });
+      expect(repository.queries).toHaveBeenCalledTimes(2);
+    });
+
+    it('有租户上下文时缓存键应该带租户前缀', async () => {
+      const tenantContext = { tenantId: 't1', createdAt: new Date() };
+      const repository = new AccountRepository({ cache, tenantContext });
+
+      await repository.findCached('1');
+      await repository.setCache('manual', 'v', 1000);
+
+      expect(Array.from(cache.store.keys())).toEqual([
+        'tenant:t1:AccountRepository.findCached:["1"]',
+        'tenant:t1:manual',
+      ]);
+      expect(await repository.checkCache('manual')).toBe('v');
+      expect(
+        await new AccountRepository({ cache }).checkCache('manual'),
+      ).toBeNull();
+    });
+
+    it('未配置缓存服务时应该每次执行原方法', async () => {
+      const repository = new AccountRepository({});
+
+      await repository.findCached('1');
+      await repository.findCached('1');
+
+      expect(repository.queries).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('@CacheEvict', () => {
+    it('应该失效当前租户已缓存的结果，不影响其他租户', async () => {
+      const cache = new MemoryRepositoryCache();
+      const cacheInvalidator = createInvalidator(cache);
+      const repositoryFor = (tenantId: string): AccountRepository =>
+        new AccountRepository({
+          cache,
+          cacheInvalidator,
+          tenantContext: { tenantId, createdAt: new Date() },
+        });
+      const t1 = repositoryFor('t1');
+      const t2 = repositoryFor('t2');
+      await t1.findCached('42');
+      await t2.findCached('42');
+
+      await t1.rename('42');
+
+      expect(cacheInvalidator.invalidate).toHaveBeenCalledWith(
+        'AccountRepository.findCached:*42*',
+        expect.objectContaining({ mode: 'pattern' }),
+      );
+      expect(Array.from(cache.store.keys())).toEqual([
+        'tenant:t2:AccountRepository.findCached:["42"]',
+      ]);
+      await t1.findCached('42');
+      await t2.findCached('42');
+      expect(t1.queries).toHaveBeenCalledTimes(2);
+      expect(t2.queries).toHaveBeenCalledTimes(1);
+    });
+
+    it('未配置缓存失效器时应该正常执行', async () => {
+      const repository = new AccountRepository({});
+
+      expect(await repository.rename('42')).toBe('42');
+    });
+
+    it('未配置缓存失效器时应该失效本实例缓存服务中的键', async () => {
+      const cache = new MemoryRepositoryCache();
+      const repositoryFor = (tenantId: string): AccountRepository =>
+        new AccountRepository({
+          cache,
+          tenantContext: { tenantId, createdAt: new Date() },
+        });
+      const t1 = repositoryFor('t1');
+      const t2 = repositoryFor('t2');
+      await t1.findCached('42');
+      await t2.findCached('42');
+
+      await t1.rename('42');
+
+      expect(Array.from(cache.store.keys())).toEqual([
+        'tenant:t2:AccountRepository.findCached:["42"]',
+      ]);
+      await t1.findCached('42');
+      expect(t1.queries).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -1,78 +1,103 @@
 /**
  * 简化数据库管理器测试
  *
- * @description 测试简化版本的数据库管理器功能
+ * @description 测试简化版本的数据库管理器功能，PostgreSQL连接使用 pg-mem 替代
  *
  * @since 1.0.0
  */
 
+import { newDb } from 'pg-mem';
+import type { Pool } from 'pg';
 import { SimpleDatabaseManager } from '../core/simple-database-manager';
+import { createPostgresConnection } from '../drivers';
+import type { DatabaseConnectionFactory } from '../drivers';
 
-// Mock配置管理器
-const mockConfigManager = {
-  getModuleConfig: jest.fn().mockResolvedValue({
-    enabled: true,
-    default: 'primary',
-    connections: {
-      primary: {
-        type: 'postgresql',
-        host: 'localhost',
-        port: 5432,
-        username: 'postgres',
-        password: 'password',
-        database: 'test_db',
-        ssl: false,
-        pool: {
-          min: 2,
-          max: 10,
-          idle: 30000,
-          acquire: 30000,
-        },
+const createConfig = (secondaryType = 'postgresql'): Record<string, any> => ({
+  enabled: true,
+  default: 'primary',
+  connections: {
+    primary: {
+      type: 'postgresql',
+      host: 'localhost',
+      port: 5432,
+      username: 'postgres',
+      password: 'password',
+      database: 'test_db',
+      ssl: false,
+      pool: {
+        min: 2,
+        max: 10,
+        idle: 30000,
+        acquire: 30000,
       },
-      secondary: {
-        type: 'mysql',
-        host: 'localhost',
-        port: 3306,
-        username: 'mysql',
-        password: 'password',
-        database: 'test_db',
-      },
-    },
-    multiTenant: {
-      enabled: true,
-      strategy: 'schema',
-      tenantDatabasePrefix: 'tenant_',
-      tenantSchemaPrefix: 'tenant_',
     },
-    transaction: {
-      enabled: true,
-      isolationLevel: 'READ_COMMITTED',
-      timeout: 30000,
-      enableDistributed: false,
+    secondary: {
+      type: secondaryType,
+      host: 'localhost',
+      port: 5433,
+      username: 'postgres',
+      password: 'password',
+      database: 'test_db',
     },
-    monitoring: {
-      enabled: true,
-      interval: 60000,
-      enableSlowQueryLog: true,
-      slowQueryThreshold: 1000,
-      enableConnectionPoolMonitoring: true,
-    },
-    migrations: {
-      enabled: true,
-      directory: './migrations',
-      tableName: 'migrations',
-      autoRun: false,
-    },
-  }),
+  },
+  multiTenant: {
+    enabled: true,
+    strategy: 'schema',
+    tenantDatabasePrefix: 'tenant_',
+    tenantSchemaPrefix: 'tenant_',
+  },
+  transaction: {
+    enabled: true,
+    isolationLevel: 'READ_COMMITTED',
+    timeout: 30000,
+    enableDistributed: false,
+  },
+  monitoring: {
+    enabled: true,
+    interval: 60000,
+    enableSlowQueryLog: true,
+    slowQueryThreshold: 1000,
+    enableConnectionPoolMonitoring: true,
+  },
+  migrations: {
+    enabled: true,
+    directory: './migrations',
+    tableName: 'migrations',
+    autoRun: false,
+  },
+});
+
+// Mock配置管理器
+const mockConfigManager = {
+  getModuleConfig: jest.fn().mockResolvedValue(createConfig()),
   onChange: jest.fn(),
 } as any;
 
+/**
+ * 每个连接使用一个独立的 pg-mem 数据库
+ */
+const createMemoryConnectionFactory = (): DatabaseConnectionFactory => {
+  return (name, config) => {
+    const { Pool: MemPool } = newDb().adapters.createPg();
+    return createPostgresConnection(name, config, () => new MemPool() as Pool);
+  };
+};
+
 describe('SimpleDatabaseManager', () => {
   let databaseManager: SimpleDatabaseManager;
 
   beforeEach(async () => {
-    databaseManager = new SimpleDatabaseManager(mockConfigManager);
+    databaseManager = new SimpleDatabaseManager(
+      mockConfigManager,
+      createMemoryConnectionFactory(),
+    );
     await databaseManager.initialize();
+    await databaseManager.execute(
+      'CREATE TABLE users (id SERIAL PRIMARY KEY, name TEXT, email TEXT)',
+    );
+    await databaseManager.execute(
+      'CREATE TABLE orders (id SERIAL PRIMARY KEY, user_id TEXT)',
+    );
   });
 
   afterEach(async () => {
@@ -81,11 +106,15 @@ describe('SimpleDatabaseManager', () => {
 
   describe('基础功能', () => {
     it('应该能够执行查询', async () => {
-      const sql = 'SELECT * FROM users WHERE id = ?';
-      const params = ['123'];
+      await databaseManager.execute('INSERT INTO users (name) VALUES (?)', [
+        '张三',
+      ]);
 
-      const result = await databaseManager.query(sql, params);
-      expect(Array.isArray(result)).toBe(true);
+      const result = await databaseManager.query<{ name: string }>(
+        'SELECT name FROM users WHERE id = ?',
+        [1],
+      );
+      expect(result).toEqual([{ name: '张三' }]);
     });
 
     it('应该能够执行命令', async () => {
@@ -110,7 +139,7 @@ describe('SimpleDatabaseManager', () => {
       const connection = await databaseManager.getConnection('secondary');
       expect(connection).toBeDefined();
       expect(connection.name).toBe('secondary');
-      expect(connection.type).toBe('mysql');
+      expect(connection.type).toBe('postgresql');
     });
   });
 
@@ -123,6 +152,11 @@ describe('SimpleDatabaseManager', () => {
       });
 
       expect(result.created).toBe(2);
+      await expect(
+        databaseManager.query('SELECT * FROM orders WHERE user_id = ?', [
+          '123',
+        ]),
+      ).resolves.toHaveLength(1);
     });
 
     it('应该能够处理事务回滚', async () => {
@@ -139,7 +173,7 @@ describe('SimpleDatabaseManager', () => {
     it('应该能够获取数据库统计信息', async () => {
       // 执行一些操作
       await databaseManager.query('SELECT 1');
-      await databaseManager.execute('INSERT INTO test VALUES (1)');
+      await databaseManager.execute('INSERT INTO orders (user_id) VALUES (1)');
 
       const stats = await databaseManager.getStats();
 
@@ -162,11 +196,14 @@ describe('SimpleDatabaseManager', () => {
 
   describe('错误处理', () => {
     it('应该在未初始化时自动初始化', async () => {
-      const newManager = new SimpleDatabaseManager(mockConfigManager);
+      const newManager = new SimpleDatabaseManager(
+        mockConfigManager,
+        createMemoryConnectionFactory(),
+      );
 
       // 直接调用方法应该自动初始化
-      const result = await newManager.query('SELECT 1');
-      expect(Array.isArray(result)).toBe(true);
+      const result = await newManager.query('SELECT 1 AS value');
+      expect(result).toEqual([{ value: 1 }]);
 
       await newManager.destroy();
     });
@@ -176,5 +213,48 @@ describe('SimpleDatabaseManager', () => {
         databaseManager.getConnection('nonexistent'),
       ).rejects.toThrow('连接不存在: nonexistent');
     });
+
+    it('应该原样抛出驱动的数据库错误', async () => {
+      const sql = 'SELECT * FROM missing_table';
+
+      await expect(databaseManager.query(sql)).rejects.toMatchObject({
+        name: 'DatabaseQueryError',
+        message: expect.stringContaining('SQL执行失败 [primary]'),
+        context: expect.objectContaining({ connectionName: 'primary', sql }),
+      });
+      await expect(
+        databaseManager.execute('INSERT INTO missing_table VALUES (1)'),
+      ).rejects.toMatchObject({
+        message: expect.stringContaining('SQL执行失败 [primary]'),
+      });
+    });
+
+    it('应该包装非数据库错误并保留原始错误', async () => {
+      const failure = new Error('driver crashed');
+      const connection = await databaseManager.getConnection();
+      jest.spyOn(connection, 'query').mockRejectedValueOnce(failure);
+      jest.spyOn(connection, 'execute').mockRejectedValueOnce(failure);
+
+      await expect(databaseManager.query('SELECT 1')).rejects.toMatchObject({
+        name: 'DatabaseQueryError',
+        message: '查询执行失败: driver crashed',
+        originalError: failure,
+      });
+      await expect(databaseManager.execute('SELECT 1')).rejects.toMatchObject({
+        name: 'DatabaseQueryError',
+        message: '命令执行失败: driver crashed',
+        originalError: failure,
+      });
+    });
+
+    it('存在不支持的数据库类型时应该初始化失败', async () => {
+      const manager = new SimpleDatabaseManager({
+        getModuleConfig: jest.fn().mockResolvedValue(createConfig('mysql')),
+      } as any);
+
+      await expect(manager.initialize()).rejects.toThrow(
+        '不支持的数据库类型: mysql',
+      );
+    });
   });
 });
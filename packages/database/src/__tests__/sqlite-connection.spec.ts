@@ -0,0 +1,297 @@
+/**
+ * SQLite数据库连接测试
+ *
+ * @description 验证内存和文件数据库、占位符转换、事务和保存点、错误映射，
+ * 以及通过配置选择SQLite连接
+ *
+ * @since 1.0.0
+ */
+
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  SqliteConnection,
+  createDatabaseConnection,
+  createSqliteConnection,
+  toAnonymousParameters,
+} from '../drivers';
+import { DatabaseConfigService } from '../config/database-config.service';
+import { SimpleDatabaseManager } from '../core/simple-database-manager';
+import {
+  DatabaseConnectionError,
+  DatabaseQueryError,
+  DatabaseTransactionError,
+} from '../errors';
+
+const sqliteConfig = (database = ':memory:') => ({
+  type: 'sqlite' as const,
+  host: '',
+  port: 0,
+  username: '',
+  password: '',
+  database,
+});
+
+const createConfigManager = (database?: string): any => ({
+  getModuleConfig: jest.fn().mockResolvedValue({
+    enabled: true,
+    default: 'local',
+    connections: { local: sqliteConfig(database) },
+    multiTenant: { enabled: false, strategy: 'row' },
+    transaction: { enabled: true, isolationLevel: 'READ_COMMITTED' },
+    monitoring: { enabled: false },
+  }),
+  onChange: jest.fn(),
+});
+
+describe('toAnonymousParameters', () => {
+  it('应该把 $n 转换为 ? 并按引用顺序展开参数，保留字符串中的占位符', () => {
+    expect(
+      toAnonymousParameters(
+        `SELECT '$1' FROM t WHERE a = $2 AND b = $1 OR c = $2`,
+        ['x', 'y'],
+      ),
+    ).toEqual({
+      sql: `SELECT '$1' FROM t WHERE a = ? AND b = ? OR c = ?`,
+      params: ['y', 'x', 'y'],
+    });
+    expect(toAnonymousParameters('SELECT ? WHERE a = ?', [1, 2])).toEqual({
+      sql: 'SELECT ? WHERE a = ?',
+      params: [1, 2],
+    });
+  });
+});
+
+describe('SqliteConnection', () => {
+  let connection: SqliteConnection;
+
+  beforeEach(async () => {
+    connection = createSqliteConnection('local', sqliteConfig());
+    await connection.execute(
+      `CREATE TABLE users (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        email TEXT UNIQUE NOT NULL,
+        active INTEGER,
+        profile TEXT,
+        created_at TEXT
+      )`,
+    );
+  });
+
+  afterEach(async () => {
+    await connection.close();
+  });
+
+  it('应该执行参数化命令和查询并转换参数类型', async () => {
+    const createdAt = new Date('2026-01-01T00:00:00.000Z');
+    const inserted = await connection.execute(
+      'INSERT INTO users (email, active, profile, created_at) VALUES (?, ?, ?, ?)',
+      ['a@example.com', true, { locale: 'zh-CN' }, createdAt],
+    );
+    await connection.execute(
+      'INSERT INTO users (email, active) VALUES ($1, $2)',
+      ['b@example.com', false],
+    );
+    const updated = await connection.execute(
+      'UPDATE users SET active = ? WHERE active = ?',
+      [1, 0],
+    );
+
+    expect(inserted).toMatchObject({
+      affectedRows: 1,
+      insertId: 1,
+      success: true,
+    });
+    expect(updated.affectedRows).toBe(1);
+    await expect(
+      connection.query('SELECT * FROM users WHERE email = ?', [
+        'a@example.com',
+      ]),
+    ).resolves.toEqual([
+      {
+        id: 1,
+        email: 'a@example.com',
+        active: 1,
+        profile: '{"locale":"zh-CN"}',
+        created_at: '2026-01-01T00:00:00.000Z',
+      },
+    ]);
+  });
+
+  it('事务回滚和回滚到保存点应该撤销对应的修改', async () => {
+    const rolledBack = await connection.beginTransaction();
+    await rolledBack.execute('INSERT INTO users (email) VALUES (?)', [
+      'rolled-back@example.com',
+    ]);
+    await rolledBack.rollback();
+
+    const transaction = await connection.beginTransaction();
+    await transaction.execute('INSERT INTO users (email) VALUES (?)', [
+      'kept@example.com',
+    ]);
+    await transaction.savepoint('before_second');
+    await transaction.execute('INSERT INTO users (email) VALUES (?)', [
+      'discarded@example.com',
+    ]);
+    await transaction.rollbackToSavepoint('before_second');
+    await transaction.commit();
+
+    await expect(
+      connection.query('SELECT email FROM users ORDER BY id'),
+    ).resolves.toEqual([{ email: 'kept@example.com' }]);
+    await expect(transaction.execute('SELECT 1')).rejects.toBeInstanceOf(
+      DatabaseTransactionError,
+    );
+  });
+
+  it('事务期间连接上的其他语句应该等待事务结束', async () => {
+    // 在开始事务之前发起的调用链不属于事务
+    let start!: () => void;
+    let counted: unknown;
+    const count = new Promise<void>((resolve) => {
+      start = resolve;
+    })
+      .then(() =>
+        connection.query<{ total: number }>(
+          'SELECT COUNT(*) AS total FROM users',
+        ),
+      )
+      .then((rows) => {
+        counted = rows[0].total;
+      });
+
+    const transaction = await connection.beginTransaction();
+    await transaction.execute('INSERT INTO users (email) VALUES (?)', [
+      'pending@example.com',
+    ]);
+    start();
+    await new Promise((resolve) => globalThis.setImmediate(resolve));
+    expect(counted).toBeUndefined();
+
+    await transaction.rollback();
+    await count;
+    expect(counted).toBe(0);
+  });
+
+  it('开始事务的调用链在连接上执行的语句应该属于事务而不等待', async () => {
+    const transaction = await connection.beginTransaction();
+    await connection.execute('INSERT INTO users (email) VALUES (?)', [
+      'scoped@example.com',
+    ]);
+
+    await expect(connection.query('SELECT email FROM users')).resolves.toEqual([
+      { email: 'scoped@example.com' },
+    ]);
+    await expect(connection.beginTransaction()).rejects.toBeInstanceOf(
+      DatabaseTransactionError,
+    );
+
+    await transaction.rollback();
+    await expect(connection.query('SELECT email FROM users')).resolves.toEqual(
+      [],
+    );
+  });
+
+  it('等待连接超时应该抛出 DatabaseConnectionError 并让出连接', async () => {
+    const timed = createSqliteConnection('timed', {
+      ...sqliteConfig(),
+      pool: { min: 1, max: 1, idle: 0, acquire: 20 },
+    });
+    let start!: () => void;
+    const waiting = new Promise<void>((resolve) => {
+      start = resolve;
+    }).then(() => timed.query('SELECT 1 AS value'));
+
+    const transaction = await timed.beginTransaction();
+    start();
+
+    await expect(waiting).rejects.toMatchObject({
+      name: 'DatabaseConnectionError',
+      message: expect.stringContaining('等待数据库连接超时 [timed]'),
+    });
+    await transaction.commit();
+    await expect(timed.query('SELECT 1 AS value')).resolves.toEqual([
+      { value: 1 },
+    ]);
+    await timed.close();
+  });
+
+  it('应该把约束冲突映射为 DatabaseQueryError', async () => {
+    const sql = 'INSERT INTO users (email) VALUES (?)';
+    await connection.execute(sql, ['a@example.com']);
+
+    const error = await connection
+      .execute(sql, ['a@example.com'])
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(DatabaseQueryError);
+    expect((error as DatabaseQueryError).context).toMatchObject({
+      sql,
+      errorCode: 'SQLITE_CONSTRAINT_UNIQUE',
+    });
+  });
+
+  it('关闭后应该抛出 DatabaseConnectionError', async () => {
+    await connection.close();
+
+    expect(connection.isConnected).toBe(false);
+    await expect(connection.query('SELECT 1')).rejects.toBeInstanceOf(
+      DatabaseConnectionError,
+    );
+  });
+});
+
+describe('通过配置选择SQLite', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'aiofix-sqlite-'));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('文件数据库关闭后重新打开应该保留数据', async () => {
+    const filename = join(directory, 'app.db');
+    const writer = createDatabaseConnection('local', sqliteConfig(filename));
+    await writer.execute('CREATE TABLE notes (body TEXT)');
+    await writer.execute('INSERT INTO notes (body) VALUES (?)', ['hello']);
+    await writer.close();
+
+    const service = new DatabaseConfigService(createConfigManager(filename));
+    const reader = await service.createConnection();
+
+    expect(reader.type).toBe('sqlite');
+    await expect(reader.query('SELECT body FROM notes')).resolves.toEqual([
+      { body: 'hello' },
+    ]);
+    await reader.close();
+    await expect(service.createConnection('missing')).rejects.toBeInstanceOf(
+      DatabaseConnectionError,
+    );
+  });
+
+  it('SimpleDatabaseManager 应该在SQLite上提交和回滚事务', async () => {
+    const manager = new SimpleDatabaseManager(createConfigManager());
+    await manager.execute('CREATE TABLE orders (id INTEGER PRIMARY KEY)');
+
+    await manager.executeTransaction(async (trx) => {
+      await trx.execute('INSERT INTO orders (id) VALUES (?)', [1]);
+    });
+    await expect(
+      manager.executeTransaction(async (trx) => {
+        await trx.execute('INSERT INTO orders (id) VALUES (?)', [2]);
+        // 事务内通过管理器执行的语句不等待事务释放连接，随事务回滚
+        await manager.execute('INSERT INTO orders (id) VALUES (?)', [3]);
+        throw new Error('库存不足');
+      }),
+    ).rejects.toThrow('事务执行失败');
+
+    await expect(manager.query('SELECT id FROM orders')).resolves.toEqual([
+      { id: 1 },
+    ]);
+    await manager.destroy();
+  });
+});
@@ -12,6 +12,8 @@ import {
   DEFAULT_ISOLATION_CONFIG,
 } from '../strategies/database-isolation.strategy';
 import { DatabaseIsolationLevel } from '../interfaces';
+import { createSqliteConnection } from '../drivers';
+import type { SqliteConnection } from '../drivers';
 
 // Mock基础数据库服务
 const mockBaseDatabaseService = {
@@ -324,15 +326,112 @@ describe('TenantAwareDatabaseService', () => {
   });
 
   describe('数据清理功能', () => {
-    it('应该能够清理租户数据', async () => {
-      const tenantId = 'tenant-to-delete';
+    let connection: SqliteConnection;
+    let cleanupService: TenantAwareDatabaseService;
 
-      const result = await service.cleanupTenantData(tenantId);
+    // 按租户统计行数
+    const countRows = async (table: string): Promise<unknown[]> =>
+      connection.query(
+        `SELECT tenant_id, COUNT(*) AS count FROM ${table} GROUP BY tenant_id ORDER BY tenant_id`,
+      );
+
+    beforeEach(async () => {
+      connection = createSqliteConnection('cleanup', { database: ':memory:' });
+      for (const table of ['users', 'orders']) {
+        await connection.execute(
+          `CREATE TABLE ${table} (id INTEGER PRIMARY KEY, tenant_id TEXT NOT NULL)`,
+        );
+        await connection.execute(
+          `INSERT INTO ${table} (tenant_id) VALUES ('tenant-to-delete'), ('tenant-to-delete'), ('tenant-kept')`,
+        );
+      }
+      cleanupService = new TenantAwareDatabaseService(
+        mockBaseDatabaseService as any,
+        new DatabaseIsolationStrategy(
+          { ...DEFAULT_ISOLATION_CONFIG, tenantTables: ['users', 'orders'] },
+          connection,
+        ),
+        mockTenantContextManager,
+      );
+    });
 
-      expect(result).toBeDefined();
-      expect(result.totalRecords).toBeGreaterThan(0);
-      expect(result.deletedRecords).toBeGreaterThan(0);
-      expect(result.duration).toBeGreaterThan(0);
+    afterEach(async () => {
+      await connection.close();
+    });
+
+    it('应该真正删除租户在每张表中的行且不影响其他租户', async () => {
+      const result = await cleanupService.cleanupTenantData('tenant-to-delete');
+
+      expect(result).toMatchObject({
+        totalRecords: 4,
+        deletedRecords: 4,
+        failedRecords: 0,
+      });
+      expect(result.errors).toBeUndefined();
+      for (const table of ['users', 'orders']) {
+        expect(await countRows(table)).toEqual([
+          { tenant_id: 'tenant-kept', count: 1 },
+        ]);
+      }
+    });
+
+    it('某张表删除失败时应该记录失败的记录数和错误', async () => {
+      await connection.execute('DROP TABLE orders');
+
+      const result = await cleanupService.cleanupTenantData('tenant-to-delete');
+
+      expect(result).toMatchObject({
+        totalRecords: 2,
+        deletedRecords: 2,
+        failedRecords: 1,
+      });
+      expect(result.errors).toEqual([expect.stringContaining('orders')]);
+      expect(await countRows('users')).toEqual([
+        { tenant_id: 'tenant-kept', count: 1 },
+      ]);
+    });
+
+    it('未配置连接或清理表时应该失败而不是返回虚假的统计', async () => {
+      const withoutConnection = await service.cleanupTenantData('tenant-1');
+      expect(withoutConnection.deletedRecords).toBe(0);
+      expect(withoutConnection.failedRecords).toBeGreaterThan(0);
+      expect(withoutConnection.errors).toEqual([
+        '未配置执行清理语句的数据库连接',
+      ]);
+
+      const withoutTables = await new DatabaseIsolationStrategy(
+        DEFAULT_ISOLATION_CONFIG,
+        connection,
+      ).cleanupTenantData('tenant-to-delete');
+      expect(withoutTables.errors).toEqual([
+        '行级隔离清理需要配置 tenantTables',
+      ]);
+      expect(await countRows('users')).toHaveLength(2);
+    });
+
+    it('模式级和数据库级隔离应该删除租户模式和数据库', async () => {
+      const execute = jest.fn().mockResolvedValue({ affectedRows: 0 });
+      const executor = { query: jest.fn(), execute };
+
+      await new DatabaseIsolationStrategy(
+        {
+          ...DEFAULT_ISOLATION_CONFIG,
+          strategy: DatabaseIsolationLevel.SCHEMA,
+        },
+        executor,
+      ).cleanupTenantData('t1');
+      await new DatabaseIsolationStrategy(
+        {
+          ...DEFAULT_ISOLATION_CONFIG,
+          strategy: DatabaseIsolationLevel.DATABASE,
+        },
+        executor,
+      ).cleanupTenantData('t1');
+
+      expect(execute.mock.calls.map(([sql]) => sql)).toEqual([
+        'DROP SCHEMA IF EXISTS "tenant_t1" CASCADE',
+        'DROP DATABASE IF EXISTS "tenant_db_t1"',
+      ]);
     });
 
     it('应该验证租户ID不能为空', async () => {
@@ -343,19 +442,6 @@ describe('TenantAwareDatabaseService', () => {
         '租户ID不能为空',
       );
     });
-
-    it('应该返回详细的清理统计信息', async () => {
-      const tenantId = 'tenant-with-data';
-
-      const result = await service.cleanupTenantData(tenantId);
-
-      expect(result).toMatchObject({
-        totalRecords: expect.any(Number),
-        deletedRecords: expect.any(Number),
-        failedRecords: expect.any(Number),
-        duration: expect.any(Number),
-      });
-    });
   });
 
   describe('连接管理', () => {
@@ -0,0 +1,189 @@
+/**
+ * 租户SQL改写器测试
+ *
+ * @description 验证行级隔离的语句改写和参数位置、INSERT租户列的写入和校验、
+ * 无法安全改写语句的拒绝，在SQLite上验证改写后的语句只访问当前租户的数据，
+ * 以及PostgreSQL行级安全策略语句的生成
+ *
+ * @since 1.0.0
+ */
+
+import {
+  createRowLevelSecurityPolicies,
+  createTenantSqlRewriter,
+} from '../isolation';
+import { SqliteConnection, createSqliteConnection } from '../drivers';
+import { DatabaseQueryError } from '../errors';
+
+describe('TenantSqlRewriter', () => {
+  const rewriter = createTenantSqlRewriter({ sharedTables: ['countries'] });
+  const rewrite = (sql: string, params: unknown[] = []) =>
+    rewriter.rewrite(sql, params, 't1');
+
+  it('应该在已有条件外加括号并把租户参数放到对应位置', () => {
+    expect(
+      rewrite(
+        'SELECT id FROM orders o WHERE status = ? OR total > ? ORDER BY id LIMIT ?',
+        ['paid', 100, 20],
+      ),
+    ).toEqual({
+      sql: 'SELECT id FROM orders o WHERE (status = ? OR total > ?) AND tenant_id = ? ORDER BY id LIMIT ?',
+      params: ['paid', 100, 't1', 20],
+    });
+    expect(rewrite('SELECT COUNT(*) FROM orders GROUP BY status;')).toEqual({
+      sql: 'SELECT COUNT(*) FROM orders WHERE tenant_id = ? GROUP BY status;',
+      params: ['t1'],
+    });
+  });
+
+  it('应该改写 UPDATE 和 DELETE，使用 $n 时追加编号参数', () => {
+    expect(
+      rewrite('UPDATE orders SET status = $1 WHERE id = $2 RETURNING id', [
+        'paid',
+        7,
+      ]),
+    ).toEqual({
+      sql: 'UPDATE orders SET status = $1 WHERE (id = $2) AND tenant_id = $3 RETURNING id',
+      params: ['paid', 7, 't1'],
+    });
+    expect(rewrite('DELETE FROM orders')).toEqual({
+      sql: 'DELETE FROM orders WHERE tenant_id = ?',
+      params: ['t1'],
+    });
+  });
+
+  it('INSERT 应该为每一行写入租户列，已有租户列时校验其值', () => {
+    expect(
+      rewrite(
+        'INSERT INTO orders (id, total) VALUES (?, ?), (?, ?)',
+        [1, 10, 2, 20],
+      ),
+    ).toEqual({
+      sql: 'INSERT INTO orders (id, total, tenant_id) VALUES (?, ?, ?), (?, ?, ?)',
+      params: [1, 10, 't1', 2, 20, 't1'],
+    });
+
+    const stamped = 'INSERT INTO orders (id, tenant_id) VALUES (?, ?)';
+    expect(rewrite(stamped, [1, 't1'])).toEqual({
+      sql: stamped,
+      params: [1, 't1'],
+    });
+    expect(() => rewrite(stamped, [1, 't2'])).toThrow('与当前租户不一致');
+    expect(() =>
+      rewrite(`INSERT INTO orders (id, "TENANT_ID") VALUES (1, 't2')`),
+    ).toThrow('与当前租户不一致');
+  });
+
+  it('字符串、注释、共享表和不访问表的查询不应该被改写', () => {
+    const sql = `SELECT 'x FROM y WHERE ?' AS s FROM orders -- JOIN ?\nWHERE a = ?`;
+    expect(rewrite(sql, [1])).toEqual({
+      sql: `SELECT 'x FROM y WHERE ?' AS s FROM orders -- JOIN ?\nWHERE (a = ?) AND tenant_id = ?`,
+      params: [1, 't1'],
+    });
+    expect(rewrite('SELECT * FROM public.countries')).toEqual({
+      sql: 'SELECT * FROM public.countries',
+      params: [],
+    });
+    expect(rewrite('SELECT 1')).toEqual({ sql: 'SELECT 1', params: [] });
+  });
+
+  it.each([
+    ['多条语句', 'SELECT * FROM orders; DELETE FROM orders'],
+    ['JOIN', 'SELECT * FROM orders o JOIN users u ON u.id = o.user_id'],
+    ['多表 FROM', 'SELECT * FROM orders, users'],
+    ['子查询', 'SELECT * FROM orders WHERE user_id IN (SELECT id FROM users)'],
+    ['UNION', 'SELECT id FROM orders UNION ALL SELECT id FROM refunds'],
+    ['WITH', 'WITH x AS (SELECT 1) SELECT * FROM x'],
+    ['修改租户列', 'UPDATE orders SET tenant_id = ? WHERE id = ?'],
+    ['UPDATE ... FROM', 'UPDATE orders SET total = u.total FROM users u'],
+    ['DELETE ... USING', 'DELETE FROM orders USING users'],
+    ['INSERT ... SELECT', 'INSERT INTO orders (id) SELECT id FROM drafts'],
+    ['没有列清单的 INSERT', 'INSERT INTO orders VALUES (1)'],
+    [
+      '冲突时更新',
+      'INSERT INTO orders (id) VALUES (?) ON CONFLICT (id) DO UPDATE SET total = 0',
+    ],
+    ['其他语句', 'TRUNCATE orders'],
+    ['混合占位符', 'SELECT * FROM orders WHERE a = ? AND b = $1'],
+  ])('应该拒绝%s', (_name, sql) => {
+    expect(() => rewrite(sql, [1, 2])).toThrow(DatabaseQueryError);
+  });
+});
+
+describe('TenantSqlRewriter 在SQLite上执行', () => {
+  let connection: SqliteConnection;
+  const rewriter = createTenantSqlRewriter();
+
+  beforeEach(async () => {
+    connection = createSqliteConnection('local', { database: ':memory:' });
+    await connection.execute(
+      'CREATE TABLE notes (id INTEGER PRIMARY KEY, tenant_id TEXT NOT NULL, body TEXT)',
+    );
+  });
+
+  afterEach(async () => {
+    await connection.close();
+  });
+
+  const run = async (tenantId: string, sql: string, params: unknown[] = []) => {
+    const isolated = rewriter.rewrite(sql, params, tenantId);
+    return connection.query<Record<string, unknown>>(
+      isolated.sql,
+      isolated.params,
+    );
+  };
+
+  it('各租户只能读取和修改自己的行', async () => {
+    await run('t1', 'INSERT INTO notes (id, body) VALUES (?, ?), (?, ?)', [
+      1,
+      'a',
+      2,
+      'b',
+    ]);
+    await run('t2', 'INSERT INTO notes (id, body) VALUES (?, ?)', [3, 'c']);
+
+    await run('t2', 'UPDATE notes SET body = ? WHERE id = ? OR 1 = 1', [
+      'hacked',
+      1,
+    ]);
+    await run('t2', 'DELETE FROM notes WHERE id IN (?, ?)', [1, 2]);
+
+    expect(
+      await run('t1', 'SELECT id, body FROM notes ORDER BY id LIMIT ?', [10]),
+    ).toEqual([
+      { id: 1, body: 'a' },
+      { id: 2, body: 'b' },
+    ]);
+    expect(await run('t2', 'SELECT id FROM notes')).toEqual([{ id: 3 }]);
+  });
+});
+
+describe('createRowLevelSecurityPolicies', () => {
+  it('应该生成启用和移除租户行级安全策略的语句', () => {
+    const { up, down } = createRowLevelSecurityPolicies(['app.orders'], {
+      tenantIdType: 'uuid',
+    });
+
+    const predicate = `"tenant_id" = NULLIF(current_setting('app.tenant_id', true), '')::uuid`;
+    expect(up).toEqual([
+      'ALTER TABLE "app"."orders" ENABLE ROW LEVEL SECURITY',
+      'ALTER TABLE "app"."orders" FORCE ROW LEVEL SECURITY',
+      'DROP POLICY IF EXISTS "tenant_isolation" ON "app"."orders"',
+      `CREATE POLICY "tenant_isolation" ON "app"."orders" USING (${predicate}) WITH CHECK (${predicate})`,
+    ]);
+    expect(down).toEqual([
+      'DROP POLICY IF EXISTS "tenant_isolation" ON "app"."orders"',
+      'ALTER TABLE "app"."orders" NO FORCE ROW LEVEL SECURITY',
+      'ALTER TABLE "app"."orders" DISABLE ROW LEVEL SECURITY',
+    ]);
+  });
+
+  it('应该拒绝非法的表名和会话设置名', () => {
+    expect(() => createRowLevelSecurityPolicies(['orders; --'])).toThrow(
+      DatabaseQueryError,
+    );
+    expect(() =>
+      createRowLevelSecurityPolicies(['orders'], { setting: "x'); --" }),
+    ).toThrow(DatabaseQueryError);
+  });
+});
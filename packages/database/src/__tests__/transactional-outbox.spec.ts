@@ -0,0 +1,447 @@
+/**
+ * 事务性发件箱测试
+ *
+ * @description 在SQLite上测试发件箱与命令事务的原子性，以及中继的至少一次投递、聚合根内顺序和清理
+ *
+ * @since 1.0.0
+ */
+
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { BaseAggregateRoot } from '@aiofix/core';
+import { CQRSDatabaseManager } from '../cqrs/cqrs-database-manager';
+import type { IDomainEvent } from '../cqrs/cqrs-database-manager';
+import { DatabaseCommand } from '../cqrs/database-command';
+import { createSqliteConnection } from '../drivers';
+import type { IDatabaseConnection, ITransaction } from '../interfaces';
+import { OutboxRelay } from '../outbox/outbox-relay';
+import type { IOutboxPublisher } from '../outbox/outbox-relay';
+import { SqlOutboxStore, getOutboxTableDDL } from '../outbox/outbox-store';
+import type { IOutboxRecord, IOutboxStore } from '../outbox/outbox-store';
+import { toDomainEvents } from '../outbox/aggregate-events';
+
+/**
+ * 内存发件箱，按SQL存储的语义读取等待投递的事件
+ */
+class InMemoryOutboxStore implements IOutboxStore {
+  readonly records: IOutboxRecord[] = [];
+  private sequence = 0;
+
+  async append(
+    events: IDomainEvent[],
+    _transaction?: ITransaction,
+  ): Promise<void> {
+    for (const event of events) {
+      this.records.push({
+        sequence: ++this.sequence,
+        eventId: event.eventId,
+        tenantId: event.metadata.tenantId as string | undefined,
+        aggregateType: event.aggregateType,
+        aggregateId: event.aggregateId,
+        aggregateVersion: event.eventVersion,
+        eventType: event.eventType,
+        payload: event.eventData,
+        metadata: event.metadata,
+        occurredAt: event.createdAt,
+        attempts: 0,
+        availableAt: event.createdAt,
+      });
+    }
+  }
+
+  async fetchPending(limit: number, now: Date): Promise<IOutboxRecord[]> {
+    const pending = this.records.filter((record) => !record.deliveredAt);
+    return pending
+      .filter(
+        (record) =>
+          record.availableAt <= now &&
+          !pending.some(
+            (earlier) =>
+              earlier.aggregateType === record.aggregateType &&
+              earlier.aggregateId === record.aggregateId &&
+              earlier.sequence < record.sequence &&
+              earlier.availableAt > now,
+          ),
+      )
+      .slice(0, limit);
+  }
+
+  async markDelivered(sequence: number, deliveredAt: Date): Promise<void> {
+    const record = this.find(sequence);
+    record.attempts++;
+    record.deliveredAt = deliveredAt;
+  }
+
+  async markFailed(
+    sequence: number,
+    error: string,
+    availableAt: Date,
+  ): Promise<void> {
+    const record = this.find(sequence);
+    record.attempts++;
+    record.lastError = error;
+    record.availableAt = availableAt;
+  }
+
+  async deleteDelivered(before: Date): Promise<number> {
+    const expired = this.records.filter(
+      (record) => record.deliveredAt && record.deliveredAt < before,
+    );
+    expired.forEach((record) =>
+      this.records.splice(this.records.indexOf(record), 1),
+    );
+    return expired.length;
+  }
+
+  private find(sequence: number): IOutboxRecord {
+    return this.records.find((record) => record.sequence === sequence)!;
+  }
+}
+
+const createEvent = (
+  aggregateId: string,
+  version: number,
+  eventType = 'OrderUpdated',
+): IDomainEvent => ({
+  eventId: `${aggregateId}-v${version}`,
+  aggregateId,
+  aggregateType: 'Order',
+  eventType,
+  eventVersion: version,
+  eventData: { version },
+  metadata: { tenantId: 'tenant-1' },
+  createdAt: new Date(Date.now() - 1000),
+});
+
+const mockConfigManager = {
+  getModuleConfig: jest.fn().mockResolvedValue({
+    connections: {
+      primary: { type: 'sqlite' },
+      readonly: { type: 'sqlite' },
+    },
+    cqrs: {
+      enabled: true,
+      readConnection: 'readonly',
+      writeConnection: 'primary',
+      eventStore: { enabled: false },
+    },
+  }),
+  onChange: jest.fn(),
+} as any;
+
+describe('CQRSDatabaseManager 事务性发件箱', () => {
+  let directory: string;
+  let connection: IDatabaseConnection;
+  let store: SqlOutboxStore;
+  let manager: CQRSDatabaseManager;
+
+  // 读写连接和测试连接打开同一个数据库文件
+  const connect = (name: string): IDatabaseConnection =>
+    createSqliteConnection(name, { database: join(directory, 'outbox.db') });
+
+  // 更新订单状态并产生一个事件的命令
+  const updateOrder = (status: string, event: IDomainEvent): DatabaseCommand =>
+    new DatabaseCommand(
+      'UPDATE orders SET status = ? WHERE id = ?',
+      [status, 'order-1'],
+      [event],
+    );
+
+  const orderStatus = async (): Promise<string> => {
+    const [order] = await connection.query<{ status: string }>(
+      'SELECT status FROM orders WHERE id = ?',
+      ['order-1'],
+    );
+    return order.status;
+  };
+
+  beforeEach(async () => {
+    directory = mkdtempSync(join(tmpdir(), 'aiofix-outbox-'));
+    connection = connect('outbox');
+    for (const sql of [
+      // SQLite 只有 INTEGER PRIMARY KEY 自增
+      ...getOutboxTableDDL().map((ddl) =>
+        ddl.replace(
+          'BIGSERIAL PRIMARY KEY',
+          'INTEGER PRIMARY KEY AUTOINCREMENT',
+        ),
+      ),
+      'CREATE TABLE orders (id TEXT PRIMARY KEY, status TEXT NOT NULL)',
+    ]) {
+      await connection.execute(sql);
+    }
+    await connection.execute(
+      "INSERT INTO orders (id, status) VALUES ('order-1', 'pending')",
+    );
+    store = new SqlOutboxStore(connection);
+    manager = new CQRSDatabaseManager(mockConfigManager, store, connect);
+  });
+
+  afterEach(async () => {
+    await manager.destroy();
+    await connection.close();
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('应该在命令事务中写入业务数据和发件箱', async () => {
+    await manager.executeCommand(
+      updateOrder('paid', createEvent('order-1', 2, 'OrderPaid')),
+    );
+
+    expect(await orderStatus()).toBe('paid');
+    const [record] = await store.fetchPending(10, new Date());
+    expect(record).toMatchObject({
+      eventId: 'order-1-v2',
+      tenantId: 'tenant-1',
+      eventType: 'OrderPaid',
+      payload: { version: 2 },
+      attempts: 0,
+    });
+  });
+
+  it('写入发件箱失败时应该回滚业务数据', async () => {
+    const event = createEvent('order-1', 2, 'OrderPaid');
+    await manager.executeCommand(updateOrder('paid', event));
+
+    // 事件ID重复，发件箱写入违反唯一约束
+    await expect(
+      manager.executeCommand(updateOrder('refunded', event)),
+    ).rejects.toThrow('CQRS命令执行失败');
+
+    expect(await orderStatus()).toBe('paid');
+    expect(await store.fetchPending(10, new Date())).toHaveLength(1);
+  });
+
+  it('读写连接应该由连接工厂按配置创建', async () => {
+    const factory = jest.fn(connect);
+    const created = new CQRSDatabaseManager(mockConfigManager, store, factory);
+
+    await created.initialize();
+    await created.destroy();
+
+    expect(factory.mock.calls.map(([name]) => name)).toEqual([
+      'primary',
+      'readonly',
+    ]);
+  });
+});
+
+describe('OutboxRelay', () => {
+  let store: InMemoryOutboxStore;
+  let published: IOutboxRecord[];
+  let publisher: IOutboxPublisher & { publish: jest.Mock };
+
+  beforeEach(() => {
+    store = new InMemoryOutboxStore();
+    published = [];
+    publisher = {
+      publish: jest.fn(async (record: IOutboxRecord) => {
+        published.push(record);
+      }),
+    };
+  });
+
+  it('应该按写入顺序发布并标记已投递', async () => {
+    await store.append([
+      createEvent('order-1', 1),
+      createEvent('order-2', 1),
+      createEvent('order-1', 2),
+    ]);
+    const relay = new OutboxRelay(store, publisher);
+
+    expect(await relay.relayPending()).toEqual({
+      delivered: 3,
+      failed: 0,
+      deferred: 0,
+    });
+    expect(published.map((record) => record.eventId)).toEqual([
+      'order-1-v1',
+      'order-2-v1',
+      'order-1-v2',
+    ]);
+    expect(store.records.every((record) => record.deliveredAt)).toBe(true);
+    expect(await relay.relayPending()).toMatchObject({ delivered: 0 });
+  });
+
+  it('发布失败时应该退避重试，并阻塞同一聚合根后面的事件', async () => {
+    await store.append([
+      createEvent('order-1', 1),
+      createEvent('order-1', 2),
+      createEvent('order-2', 1),
+    ]);
+    publisher.publish.mockRejectedValueOnce(new Error('消息队列不可用'));
+    const relay = new OutboxRelay(store, publisher, { retryDelay: 50 });
+
+    expect(await relay.relayPending()).toEqual({
+      delivered: 1,
+      failed: 1,
+      deferred: 1,
+    });
+    expect(published.map((record) => record.eventId)).toEqual(['order-2-v1']);
+    expect(store.records[0]).toMatchObject({
+      attempts: 1,
+      lastError: '消息队列不可用',
+    });
+
+    expect(await relay.relayPending()).toMatchObject({ delivered: 0 });
+
+    await new Promise((resolve) => globalThis.setTimeout(resolve, 60));
+    expect(await relay.relayPending()).toMatchObject({ delivered: 2 });
+    expect(published.map((record) => record.eventId)).toEqual([
+      'order-2-v1',
+      'order-1-v1',
+      'order-1-v2',
+    ]);
+  });
+
+  it('标记已投递失败时应该再次发布同一事件', async () => {
+    await store.append([createEvent('order-1', 1)]);
+    jest
+      .spyOn(store, 'markDelivered')
+      .mockRejectedValueOnce(new Error('连接中断'));
+    const relay = new OutboxRelay(store, publisher);
+
+    await expect(relay.relayPending()).rejects.toThrow('连接中断');
+    await relay.relayPending();
+
+    expect(published.map((record) => record.eventId)).toEqual([
+      'order-1-v1',
+      'order-1-v1',
+    ]);
+  });
+
+  it('应该只清理超过保留期的已投递事件', async () => {
+    await store.append([createEvent('order-1', 1), createEvent('order-2', 1)]);
+    store.records[0].deliveredAt = new Date(Date.now() - 10_000);
+    const relay = new OutboxRelay(store, publisher, { retentionPeriod: 5000 });
+
+    expect(await relay.cleanup()).toBe(1);
+    expect(store.records.map((record) => record.eventId)).toEqual([
+      'order-2-v1',
+    ]);
+  });
+
+  it('启动后应该持续轮询，停止后不再发布', async () => {
+    const relay = new OutboxRelay(store, publisher, { pollInterval: 5 });
+    relay.start();
+
+    await store.append([createEvent('order-1', 1)]);
+    await new Promise((resolve) => globalThis.setTimeout(resolve, 30));
+    await relay.stop();
+    await store.append([createEvent('order-1', 2)]);
+    await new Promise((resolve) => globalThis.setTimeout(resolve, 20));
+
+    expect(published.map((record) => record.eventId)).toEqual(['order-1-v1']);
+  });
+});
+
+describe('SqlOutboxStore', () => {
+  const createConnection = (
+    rows: Array<Record<string, unknown>> = [],
+  ): IDatabaseConnection & { query: jest.Mock; execute: jest.Mock } =>
+    ({
+      query: jest.fn().mockResolvedValue(rows),
+      execute: jest.fn().mockResolvedValue({ affectedRows: 2 }),
+    }) as any;
+
+  it('应该在传入的事务中批量写入事件', async () => {
+    const connection = createConnection();
+    const transaction = {
+      execute: jest.fn().mockResolvedValue({ affectedRows: 2 }),
+      tenantContext: { tenantId: 'tenant-from-trx' },
+    } as unknown as ITransaction & { execute: jest.Mock };
+    const store = new SqlOutboxStore(connection);
+    const second = { ...createEvent('order-1', 2), metadata: {} };
+
+    await store.append([createEvent('order-1', 1), second], transaction);
+
+    expect(connection.execute).not.toHaveBeenCalled();
+    const [sql, params] = transaction.execute.mock.calls[0];
+    expect(sql).toContain('INSERT INTO event_outbox');
+    expect(params).toHaveLength(20);
+    expect(params[1]).toBe('tenant-1');
+    expect(params[11]).toBe('tenant-from-trx');
+  });
+
+  it('应该把数据库行转换为发件箱记录', async () => {
+    const store = new SqlOutboxStore(
+      createConnection([
+        {
+          sequence: '7',
+          event_id: 'event-7',
+          tenant_id: 'tenant-1',
+          aggregate_type: 'Order',
+          aggregate_id: 'order-1',
+          aggregate_version: 3,
+          event_type: 'OrderPaid',
+          payload: '{"amount":10}',
+          metadata: { source: 'spec' },
+          occurred_at: '2026-01-01T00:00:00.000Z',
+          attempts: 0,
+          available_at: '2026-01-01T00:00:00.000Z',
+          last_error: null,
+          delivered_at: null,
+        },
+      ]),
+    );
+
+    const [record] = await store.fetchPending(10, new Date());
+
+    expect(record).toMatchObject({
+      sequence: 7,
+      payload: { amount: 10 },
+      metadata: { source: 'spec' },
+      lastError: undefined,
+      deliveredAt: undefined,
+    });
+    expect(record.occurredAt).toEqual(new Date('2026-01-01T00:00:00.000Z'));
+  });
+
+  it('清理时应该返回删除的行数', async () => {
+    const connection = createConnection();
+    const store = new SqlOutboxStore(connection, 'custom_outbox');
+
+    expect(await store.deleteDelivered(new Date())).toBe(2);
+    expect(connection.execute.mock.calls[0][0]).toContain(
+      'DELETE FROM custom_outbox',
+    );
+  });
+});
+
+describe('toDomainEvents', () => {
+  it('应该把聚合根未提交的事件转换为命令事件', () => {
+    const occurredAt = new Date('2026-01-01T00:00:00.000Z');
+    const aggregate = {
+      uncommittedEvents: [
+        {
+          eventId: { toString: () => 'event-1' },
+          aggregateId: { toString: () => 'order-1' },
+          aggregateVersion: 4,
+          tenantId: 'tenant-1',
+          eventType: 'OrderPaid',
+          eventData: { amount: 10 },
+          eventVersion: 1,
+          occurredAt,
+        },
+      ],
+    } as unknown as BaseAggregateRoot;
+
+    expect(toDomainEvents(aggregate, 'Order')).toEqual([
+      {
+        eventId: 'event-1',
+        aggregateId: 'order-1',
+        aggregateType: 'Order',
+        eventType: 'OrderPaid',
+        eventVersion: 4,
+        eventData: { amount: 10 },
+        metadata: {
+          tenantId: 'tenant-1',
+          occurredAt: occurredAt.toISOString(),
+          schemaVersion: 1,
+        },
+        createdAt: occurredAt,
+      },
+    ]);
+  });
+});
@@ -13,6 +13,9 @@ import type {
   IDatabaseModuleConfig,
   IConfigChangeEvent,
 } from '@aiofix/config';
+import type { IDatabaseConnection } from '../interfaces';
+import { DatabaseConnectionError } from '../interfaces';
+import { createDatabaseConnection } from '../drivers/database-connection.factory';
 
 /**
  * 数据库模块配置服务实现
@@ -84,6 +87,29 @@ export class DatabaseConfigService {
     return config.connections[name];
   }
 
+  /**
+   * 按配置创建数据库连接
+   *
+   * @description 数据库类型由连接配置的 type 决定，
+   * 配置为 sqlite 时本地开发和测试不需要启动数据库服务
+   *
+   * @param name - 连接名称，默认为配置的默认连接
+   * @returns 新建的数据库连接，由调用方负责关闭
+   */
+  async createConnection(name?: string): Promise<IDatabaseConnection> {
+    const config = await this.getConfig();
+    const connectionName = name ?? config.default;
+    const connectionConfig = config.connections[connectionName];
+
+    if (!connectionConfig) {
+      throw new DatabaseConnectionError(`连接不存在: ${connectionName}`, {
+        connectionName,
+      });
+    }
+
+    return createDatabaseConnection(connectionName, connectionConfig);
+  }
+
   /**
    * 获取所有连接名称
    */
@@ -4,6 +4,17 @@
  * @description 重构第一阶段的简化数据库管理器
  * 基于统一配置管理系统，提供基础的数据库管理功能
  *
+ * ## 业务规则
+ *
+ * ### 连接规则
+ * - 按配置中的每个连接创建一个连接池，默认通过 createDatabaseConnection 按数据库类型创建
+ * - 有连接创建失败时，已创建的连接全部关闭，初始化失败
+ * - 连接故障以 DatabaseConnectionError 抛出，其余SQL错误以 DatabaseQueryError 抛出
+ * - 驱动已抛出的 DatabaseError 子类原样抛出，不再包装，保留错误码和上下文
+ *
+ * ### 事务规则
+ * - 事务操作抛出异常时回滚，回滚失败不会覆盖原始错误
+ *
  * @since 1.0.0
  */
 
@@ -23,10 +34,14 @@ import type {
 } from '../interfaces';
 
 import {
+  DatabaseError,
   DatabaseConnectionError,
   DatabaseQueryError,
   DatabaseTransactionError,
 } from '../interfaces';
+import { createDatabaseConnection } from '../drivers/database-connection.factory';
+import type { DatabaseConnectionFactory } from '../drivers/database-connection.factory';
+import { PostgresConnection } from '../drivers/postgresql-connection';
 
 /* eslint-disable no-console, @typescript-eslint/no-explicit-any, @typescript-eslint/no-unused-vars */
 /**
@@ -37,14 +52,16 @@ export class SimpleDatabaseManager implements IDatabaseService {
   private readonly configManager: IConfigManager;
   private config: IDatabaseModuleConfig | null = null;
   private initialized = false;
-  private readonly connections = new Map<string, any>();
+  private readonly connections = new Map<string, IDatabaseConnection>();
   private readonly stats = {
     queries: { total: 0, successful: 0, failed: 0, totalTime: 0 },
     transactions: { active: 0, committed: 0, rolledBack: 0, totalTime: 0 },
-    connections: { active: 0, idle: 0 },
   };
 
-  constructor(configManager: IConfigManager) {
+  constructor(
+    configManager: IConfigManager,
+    private readonly connectionFactory: DatabaseConnectionFactory = createDatabaseConnection,
+  ) {
     this.configManager = configManager;
   }
 
@@ -99,6 +116,9 @@ export class SimpleDatabaseManager implements IDatabaseService {
       return result;
     } catch (error) {
       this.stats.queries.failed++;
+      if (error instanceof DatabaseError) {
+        throw error;
+      }
       throw new DatabaseQueryError(
         `查询执行失败: ${error instanceof Error ? error.message : String(error)}`,
         { sql, params, options },
@@ -131,6 +151,9 @@ export class SimpleDatabaseManager implements IDatabaseService {
         success: true,
       };
     } catch (error) {
+      if (error instanceof DatabaseError) {
+        throw error;
+      }
       throw new DatabaseQueryError(
         `命令执行失败: ${error instanceof Error ? error.message : String(error)}`,
         { sql, params, options },
@@ -153,7 +176,7 @@ export class SimpleDatabaseManager implements IDatabaseService {
       });
     }
 
-    return this.connections.get(name);
+    return this.connections.get(name)!;
   }
 
   /**
@@ -170,7 +193,7 @@ export class SimpleDatabaseManager implements IDatabaseService {
     const connection = await this.getConnection(options?.connectionName);
 
     // 开始事务
-    const transaction = await connection.beginTransaction();
+    const transaction = await connection.beginTransaction(options);
     this.stats.transactions.active++;
 
     try {
@@ -185,7 +208,11 @@ export class SimpleDatabaseManager implements IDatabaseService {
       return result;
     } catch (error) {
       // 回滚事务
-      await transaction.rollback();
+      try {
+        await transaction.rollback();
+      } catch (rollbackError) {
+        console.error('事务回滚失败:', rollbackError);
+      }
       this.stats.transactions.rolledBack++;
 
       throw new DatabaseTransactionError(
@@ -211,11 +238,19 @@ export class SimpleDatabaseManager implements IDatabaseService {
    */
   async getStats(): Promise<IDatabaseStats> {
     const now = new Date();
+    const pools = Array.from(this.connections.values())
+      .filter(
+        (connection): connection is PostgresConnection =>
+          connection instanceof PostgresConnection,
+      )
+      .map((connection) => connection.getPoolStatus());
+    const idle = pools.reduce((sum, pool) => sum + pool.idle, 0);
+    const open = pools.reduce((sum, pool) => sum + pool.total, 0);
 
     return {
       connections: {
-        active: this.stats.connections.active,
-        idle: this.stats.connections.idle,
+        active: open - idle,
+        idle,
         total: this.connections.size,
       },
       queries: {
@@ -290,9 +325,7 @@ export class SimpleDatabaseManager implements IDatabaseService {
     try {
       // 关闭所有连接
       for (const connection of this.connections.values()) {
-        if (connection && typeof connection.close === 'function') {
-          await connection.close();
-        }
+        await connection.close();
       }
 
       this.connections.clear();
@@ -339,83 +372,22 @@ export class SimpleDatabaseManager implements IDatabaseService {
       throw new Error('配置未加载');
     }
 
-    // 简化实现：创建模拟连接
-    for (const [name, connectionConfig] of Object.entries(
-      this.config.connections,
-    )) {
-      const mockConnection = {
-        name,
-        type: connectionConfig.type,
-        isConnected: true,
-
-        async query<T>(sql: string, params?: any[]): Promise<T[]> {
-          // 模拟查询执行
-          console.log(`执行查询 [${name}]:`, sql);
-          return [] as T[];
-        },
-
-        async execute(sql: string, params?: any[]): Promise<IExecuteResult> {
-          // 模拟命令执行
-          console.log(`执行命令 [${name}]:`, sql);
-          return {
-            affectedRows: 1,
-            insertId: Date.now(),
-            executionTime: 10,
-            success: true,
-          };
-        },
-
-        async beginTransaction(): Promise<ITransaction> {
-          return {
-            transactionId: `trx_${Date.now()}`,
-            isActive: true,
-
-            async query<T>(sql: string, params?: any[]): Promise<T[]> {
-              console.log(`事务查询 [${name}]:`, sql);
-              return [] as T[];
-            },
-
-            async execute(
-              sql: string,
-              params?: any[],
-            ): Promise<IExecuteResult> {
-              console.log(`事务命令 [${name}]:`, sql);
-              return {
-                affectedRows: 1,
-                executionTime: 10,
-                success: true,
-              };
-            },
-
-            async commit(): Promise<void> {
-              console.log(`提交事务 [${name}]`);
-            },
-
-            async rollback(): Promise<void> {
-              console.log(`回滚事务 [${name}]`);
-            },
-
-            async savepoint(name: string): Promise<void> {
-              console.log(`设置保存点 [${name}]:`, name);
-            },
-
-            async rollbackToSavepoint(name: string): Promise<void> {
-              console.log(`回滚到保存点 [${name}]:`, name);
-            },
-          };
-        },
-
-        getRawConnection(): any {
-          return {};
-        },
-
-        async close(): Promise<void> {
-          console.log(`关闭连接 [${name}]`);
-        },
-      };
-
-      this.connections.set(name, mockConnection);
-      this.stats.connections.active++;
+    try {
+      for (const [name, connectionConfig] of Object.entries(
+        this.config.connections,
+      )) {
+        this.connections.set(
+          name,
+          this.connectionFactory(name, connectionConfig),
+        );
+      }
+    } catch (error) {
+      // 已创建的连接池在初始化失败时关闭，避免泄漏
+      for (const connection of this.connections.values()) {
+        await connection.close().catch(() => undefined);
+      }
+      this.connections.clear();
+      throw error;
     }
 
     console.log(`初始化了 ${this.connections.size} 个数据库连接`);
@@ -18,6 +18,16 @@
  * - 支持读写数据库的负载均衡
  * - 自动处理主从延迟问题
  *
+ * ### 连接规则
+ * - 读写连接按配置通过连接工厂创建，默认使用 createDatabaseConnection 按数据库类型创建
+ * - 写连接或读连接未配置时初始化失败；读写使用同一个连接名时共用一个连接
+ * - 有连接创建失败时，已创建的连接全部关闭，初始化失败
+ *
+ * ### 事务性发件箱规则
+ * - 配置发件箱存储后，领域事件和业务数据在同一事务中写入发件箱
+ * - 事务回滚时事件一起回滚，事务提交后由发件箱中继发布事件
+ * - 配置发件箱存储后不再在提交后直接发布事件
+ *
  * ### 事件溯源规则
  * - 所有状态变更都存储为事件序列
  * - 支持聚合根状态的重建
@@ -40,9 +50,11 @@ import { performance } from 'perf_hooks';
 import type {
   IDatabaseConnection,
   ITransaction,
-  IExecuteResult,
   IQueryOptions,
 } from '../interfaces';
+import type { IOutboxStore } from '../outbox/outbox-store';
+import { createDatabaseConnection } from '../drivers/database-connection.factory';
+import type { DatabaseConnectionFactory } from '../drivers/database-connection.factory';
 
 /**
  * 数据库命令接口
@@ -182,9 +194,15 @@ export class CQRSDatabaseManager {
   private readonly writeConnections = new Map<string, IDatabaseConnection>();
   private readonly readConnections = new Map<string, IDatabaseConnection>();
   private eventStore: IEventStore | null = null;
+  private readonly outboxStore?: IOutboxStore;
 
-  constructor(configManager: IConfigManager) {
+  constructor(
+    configManager: IConfigManager,
+    outboxStore?: IOutboxStore,
+    private readonly connectionFactory: DatabaseConnectionFactory = createDatabaseConnection,
+  ) {
     this.configManager = configManager;
+    this.outboxStore = outboxStore;
   }
 
   /**
@@ -224,9 +242,9 @@ export class CQRSDatabaseManager {
    * 1. **获取写连接**：从写数据库连接池获取连接
    * 2. **开始事务**：确保数据一致性
    * 3. **执行命令**：执行业务数据写入
-   * 4. **存储事件**：持久化领域事件到事件存储
+   * 4. **存储事件**：持久化领域事件到事件存储，配置发件箱时同时写入发件箱
    * 5. **提交事务**：确保数据和事件的原子性
-   * 6. **发布事件**：异步发布事件给业务层
+   * 6. **发布事件**：未配置发件箱时异步发布事件给业务层
    *
    * @param command - 数据库命令
    * @param options - 执行选项
@@ -258,6 +276,11 @@ export class CQRSDatabaseManager {
           await this.eventStore.saveEvents(command.events, transaction);
         }
 
+        // 写入发件箱
+        if (command.events && command.events.length > 0 && this.outboxStore) {
+          await this.outboxStore.append(command.events, transaction);
+        }
+
         // 提交事务
         await transaction.commit();
 
@@ -269,8 +292,8 @@ export class CQRSDatabaseManager {
           executionTime: `${executionTime.toFixed(2)}ms`,
         });
 
-        // 异步发布事件（模拟）
-        if (command.events && command.events.length > 0) {
+        // 异步发布事件（模拟），配置发件箱时由中继发布
+        if (command.events && command.events.length > 0 && !this.outboxStore) {
           this.publishDomainEventsAsync(command.events);
         }
 
@@ -532,17 +555,7 @@ export class CQRSDatabaseManager {
    */
   async destroy(): Promise<void> {
     try {
-      // 关闭写连接
-      for (const connection of this.writeConnections.values()) {
-        await connection.close();
-      }
-      this.writeConnections.clear();
-
-      // 关闭读连接
-      for (const connection of this.readConnections.values()) {
-        await connection.close();
-      }
-      this.readConnections.clear();
+      await this.closeConnections();
 
       this.config = null;
       this.eventStore = null;
@@ -594,31 +607,20 @@ export class CQRSDatabaseManager {
       throw new Error('配置未加载');
     }
 
-    // 初始化写连接
-    const writeConnectionConfig =
-      this.config.connections[this.config.cqrs.writeConnection];
-    if (writeConnectionConfig) {
-      const writeConnection = this.createMockConnection(
-        this.config.cqrs.writeConnection,
-        writeConnectionConfig.type,
-        'write',
-      );
-      this.writeConnections.set(
-        this.config.cqrs.writeConnection,
-        writeConnection,
-      );
-    }
-
-    // 初始化读连接
-    const readConnectionConfig =
-      this.config.connections[this.config.cqrs.readConnection];
-    if (readConnectionConfig) {
-      const readConnection = this.createMockConnection(
-        this.config.cqrs.readConnection,
-        readConnectionConfig.type,
-        'read',
+    const { writeConnection, readConnection } = this.config.cqrs;
+    try {
+      const write = this.createConnection(writeConnection, 'write');
+      this.writeConnections.set(writeConnection, write);
+      this.readConnections.set(
+        readConnection,
+        readConnection === writeConnection
+          ? write
+          : this.createConnection(readConnection, 'read'),
       );
-      this.readConnections.set(this.config.cqrs.readConnection, readConnection);
+    } catch (error) {
+      // 已创建的连接池在初始化失败时关闭，避免泄漏
+      await this.closeConnections().catch(() => undefined);
+      throw error;
     }
 
     console.log(
@@ -626,6 +628,35 @@ export class CQRSDatabaseManager {
     );
   }
 
+  /**
+   * 按配置创建连接
+   */
+  private createConnection(
+    name: string,
+    mode: 'read' | 'write',
+  ): IDatabaseConnection {
+    const connectionConfig = this.config?.connections[name];
+    if (!connectionConfig) {
+      throw new Error(`${mode === 'write' ? '写' : '读'}连接未配置: ${name}`);
+    }
+    return this.connectionFactory(name, connectionConfig);
+  }
+
+  /**
+   * 关闭全部读写连接，共用的连接只关闭一次
+   */
+  private async closeConnections(): Promise<void> {
+    const connections = new Set([
+      ...this.writeConnections.values(),
+      ...this.readConnections.values(),
+    ]);
+    this.writeConnections.clear();
+    this.readConnections.clear();
+    for (const connection of connections) {
+      await connection.close();
+    }
+  }
+
   /**
    * 初始化事件存储
    */
@@ -721,82 +752,6 @@ export class CQRSDatabaseManager {
     return connection;
   }
 
-  /**
-   * 创建模拟连接
-   */
-  private createMockConnection(
-    name: string,
-    type: string,
-    mode: 'read' | 'write',
-  ): IDatabaseConnection {
-    return {
-      name: `${name}_${mode}`,
-      type: type as any,
-      isConnected: true,
-
-      async query<T>(sql: string, _params?: any[]): Promise<T[]> {
-        console.log(`${mode}查询 [${name}]:`, sql);
-        return [] as T[];
-      },
-
-      async execute(sql: string, _params?: any[]): Promise<IExecuteResult> {
-        console.log(`${mode}命令 [${name}]:`, sql);
-        return {
-          affectedRows: 1,
-          insertId: Date.now(),
-          executionTime: 10,
-          success: true,
-        };
-      },
-
-      async beginTransaction(): Promise<ITransaction> {
-        return {
-          transactionId: `${mode}_trx_${Date.now()}`,
-          isActive: true,
-
-          async query<T>(sql: string, _params?: any[]): Promise<T[]> {
-            console.log(`${mode}事务查询 [${name}]:`, sql);
-            return [] as T[];
-          },
-
-          async execute(sql: string, _params?: any[]): Promise<IExecuteResult> {
-            console.log(`${mode}事务命令 [${name}]:`, sql);
-            return {
-              affectedRows: 1,
-              insertId: Date.now(),
-              executionTime: 5,
-              success: true,
-            };
-          },
-
-          async commit(): Promise<void> {
-            console.log(`提交${mode}事务 [${name}]`);
-          },
-
-          async rollback(): Promise<void> {
-            console.log(`回滚${mode}事务 [${name}]`);
-          },
-
-          async savepoint(savepointName: string): Promise<void> {
-            console.log(`设置${mode}保存点 [${name}]:`, savepointName);
-          },
-
-          async rollbackToSavepoint(savepointName: string): Promise<void> {
-            console.log(`回滚到${mode}保存点 [${name}]:`, savepointName);
-          },
-        };
-      },
-
-      getRawConnection(): any {
-        return { mockConnection: true, mode, name };
-      },
-
-      async close(): Promise<void> {
-        console.log(`关闭${mode}连接 [${name}]`);
-      },
-    };
-  }
-
   /**
    * 重放事件
    */
@@ -841,6 +796,8 @@ export class CQRSDatabaseManager {
  */
 export function createCQRSDatabaseManager(
   configManager: IConfigManager,
+  outboxStore?: IOutboxStore,
+  connectionFactory?: DatabaseConnectionFactory,
 ): CQRSDatabaseManager {
-  return new CQRSDatabaseManager(configManager);
+  return new CQRSDatabaseManager(configManager, outboxStore, connectionFactory);
 }
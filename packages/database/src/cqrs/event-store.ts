@@ -414,6 +414,49 @@ export class MongoEventStore implements IEventStore {
     };
   }
 
+  /**
+   * 获取租户的事件
+   *
+   * @description 用于租户数据导出，按聚合根类型、聚合根ID和版本排序，
+   * 传入 offset 和 limit 时只返回一页，避免一次加载租户的全部事件
+   *
+   * @param tenantId - 租户ID
+   * @param page - 分页，省略时返回全部事件
+   * @returns 事件列表
+   */
+  async getTenantEvents(
+    tenantId: string,
+    page?: { offset: number; limit: number },
+  ): Promise<IDomainEvent[]> {
+    await this.ensureInitialized();
+
+    try {
+      const collection = this.getTenantEventCollection({
+        tenantId,
+        createdAt: new Date(),
+      });
+
+      const eventDocuments = await collection
+        .find({ 'metadata.tenantId': tenantId })
+        .sort({ aggregateType: 1, aggregateId: 1, eventVersion: 1 })
+        .skip(page?.offset ?? 0)
+        .limit(page?.limit ?? 0)
+        .toArray();
+
+      console.log('租户事件查询完成:', {
+        tenantId,
+        eventCount: eventDocuments.length,
+      });
+
+      return eventDocuments.map((doc: any) => this.toDomainEvent(doc));
+    } catch (error) {
+      console.error('获取租户事件失败:', error);
+      throw new Error(
+        `获取租户事件失败: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
   /**
    * 清理租户事件数据
    */
@@ -484,14 +527,18 @@ export class MongoEventStore implements IEventStore {
           console.log(`保存 ${docs.length} 个事件到集合 ${collectionName}`);
           return { insertedCount: docs.length };
         },
-        find: () => ({
-          sort: () => ({
+        find: () => {
+          const cursor = {
+            sort: () => cursor,
+            skip: () => cursor,
+            limit: () => cursor,
             toArray: async () => {
               console.log(`查询集合 ${collectionName}`);
               return [];
             },
-          }),
-        }),
+          };
+          return cursor;
+        },
       });
     }
 
@@ -190,6 +190,11 @@ export interface IRelationMetadata {
 export function Entity(options: IEntityOptions = {}): ClassDecorator {
   return function (target: any) {
     const tableName = options.tableName || target.name.toLowerCase();
+    // 属性装饰器先于类装饰器执行，保留已注册的列和关系
+    const registered: IEntityMetadata | undefined = Reflect.getOwnMetadata(
+      ENTITY_METADATA_KEY,
+      target,
+    );
 
     const entityMetadata: IEntityMetadata = {
       target,
@@ -204,8 +209,8 @@ export function Entity(options: IEntityOptions = {}): ClassDecorator {
         updatedAtColumn: 'updated_at',
         ...options,
       },
-      columns: new Map(),
-      relations: new Map(),
+      columns: registered?.columns ?? new Map(),
+      relations: registered?.relations ?? new Map(),
     };
 
     Reflect.defineMetadata(ENTITY_METADATA_KEY, entityMetadata, target);
@@ -495,6 +500,9 @@ export function Transactional(
  * 缓存装饰器
  *
  * @description 为Repository方法添加缓存支持
+ * 通过Repository的 getOrSetCache 读取和加载，并发的缓存未命中只执行一次原方法，
+ * 避免热点键过期时大量请求同时访问数据库；设置 softTtl 时过期前先返回旧值并在后台刷新，
+ * 设置 negativeTtl 时缓存空结果。Repository没有 getOrSetCache 时直接执行原方法
  *
  * @param options - 缓存配置选项
  * @returns 方法装饰器
@@ -503,6 +511,10 @@ export function Cacheable(
   options: {
     key?: string;
     ttl?: number;
+    /** 软过期时间（毫秒） */
+    softTtl?: number;
+    /** 空结果的缓存时间（毫秒） */
+    negativeTtl?: number;
     condition?: (args: any[]) => boolean;
   } = {},
 ): MethodDecorator {
@@ -526,26 +538,21 @@ export function Cacheable(
       });
 
       // 检查缓存条件
-      if (options.condition && !options.condition(args)) {
-        console.log(`  跳过缓存，条件不满足`);
+      const getOrSetCache = (this as any).getOrSetCache;
+      if (
+        typeof getOrSetCache !== 'function' ||
+        (options.condition && !options.condition(args))
+      ) {
+        console.log(`  跳过缓存，条件不满足或未支持缓存`);
         return originalMethod.apply(this, args);
       }
 
-      // 模拟缓存检查
-      const cached = await (this as any).checkCache?.(cacheKey);
-      if (cached) {
-        console.log(`✅ 缓存命中: ${cacheKey}`);
-        return cached;
-      }
-
-      // 执行原方法
-      const result = await originalMethod.apply(this, args);
-
-      // 存储到缓存
-      await (this as any).setCache?.(cacheKey, result, ttl);
-      console.log(`✅ 结果已缓存: ${cacheKey}`);
-
-      return result;
+      return getOrSetCache.call(
+        this,
+        cacheKey,
+        () => originalMethod.apply(this, args),
+        { ttl, softTtl: options.softTtl, negativeTtl: options.negativeTtl },
+      );
     };
 
     console.log(`注册缓存装饰器: ${target.constructor.name}.${methodName}`);
@@ -0,0 +1,51 @@
+/**
+ * 数据库连接工厂
+ *
+ * @description 按连接配置的数据库类型创建 IDatabaseConnection
+ *
+ * ## 业务规则
+ *
+ * - postgresql 使用 PostgresConnection
+ * - sqlite 使用 SqliteConnection，database 为文件路径或 `:memory:`
+ * - 尚未提供驱动的数据库类型创建时抛出 DatabaseConnectionError
+ *
+ * @since 1.0.0
+ */
+
+import type { IDatabaseConnection } from '../interfaces';
+import { DatabaseConnectionError } from '../interfaces';
+import { createPostgresConnection } from './postgresql-connection';
+import type { DatabaseConnectionConfig } from './postgresql-connection';
+import { createSqliteConnection } from './sqlite-connection';
+
+/**
+ * 数据库连接工厂
+ */
+export type DatabaseConnectionFactory = (
+  name: string,
+  config: DatabaseConnectionConfig,
+) => IDatabaseConnection;
+
+/**
+ * 按数据库类型创建数据库连接
+ *
+ * @param name - 连接名称
+ * @param config - 连接配置
+ * @returns 数据库连接
+ */
+export function createDatabaseConnection(
+  name: string,
+  config: DatabaseConnectionConfig,
+): IDatabaseConnection {
+  switch (config.type) {
+    case 'postgresql':
+      return createPostgresConnection(name, config);
+    case 'sqlite':
+      return createSqliteConnection(name, config);
+    default:
+      throw new DatabaseConnectionError(`不支持的数据库类型: ${config.type}`, {
+        connectionName: name,
+        type: config.type,
+      });
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * Database模块数据库驱动导出
+ *
+ * @description 导出PostgreSQL、SQLite连接实现和连接工厂
+ *
+ * @since 1.0.0
+ */
+
+export {
+  PostgresConnection,
+  PostgresTransaction,
+  createPostgresConnection,
+  toPostgresPoolConfig,
+} from './postgresql-connection';
+
+export type {
+  DatabaseConnectionConfig,
+  PostgresPoolFactory,
+  IPostgresPoolStatus,
+} from './postgresql-connection';
+
+export {
+  SqliteConnection,
+  SqliteTransaction,
+  createSqliteConnection,
+  SQLITE_MEMORY_DATABASE,
+} from './sqlite-connection';
+
+export type { SqliteDatabaseFactory } from './sqlite-connection';
+
+export {
+  toPositionalParameters,
+  toAnonymousParameters,
+} from './sql-placeholders';
+
+export { createDatabaseConnection } from './database-connection.factory';
+
+export type { DatabaseConnectionFactory } from './database-connection.factory';
@@ -0,0 +1,554 @@
+/**
+ * PostgreSQL数据库连接
+ *
+ * @description 基于 pg 连接池的 IDatabaseConnection 实现
+ *
+ * ## 业务规则
+ *
+ * ### 查询规则
+ * - 支持 `?` 和 `$1` 两种参数占位符，`?` 按出现顺序转换为 `$n`，
+ *   字符串、带引号的标识符和注释中的 `?` 保持不变
+ * - 使用 `?` 占位符时不能同时使用JSONB的 `?`、`?|`、`?&` 运算符，这类语句请使用 `$n`
+ * - 命令的影响行数取自驱动返回的 rowCount，语句带 RETURNING id 时返回插入的ID
+ *
+ * ### 事务规则
+ * - 每个事务独占连接池中的一个连接，提交或回滚后归还
+ * - 事务结束后不能再执行语句，重复回滚不做任何操作
+ * - 提交失败时PostgreSQL已回滚事务，连接被丢弃而不是归还
+ * - 保存点名称只能包含字母、数字和下划线，回滚到保存点后，之后创建的保存点失效
+ *
+ * ### 租户规则
+ * - forTenant 返回绑定租户的连接，与原连接共享连接池，关闭它不会结束连接池
+ * - 租户连接每次从连接池取出连接时把租户ID写入会话设置（默认 `app.tenant_id`），
+ *   归还前清空，清空失败时丢弃该连接；事务内使用事务级设置，提交或回滚后自动失效
+ * - 配合 createRowLevelSecurityPolicies 生成的行级安全策略，由数据库保证租户隔离
+ *
+ * ### 错误规则
+ * - 网络错误、认证失败、数据库不存在、连接数耗尽和获取连接超时映射为 DatabaseConnectionError
+ * - 其余驱动错误映射为 DatabaseQueryError，上下文包含SQL、参数、SQLSTATE、约束名和详情
+ * - 在已结束的事务上操作抛出 DatabaseTransactionError
+ *
+ * ## 技术规则
+ *
+ * - 连接池延迟建立物理连接，创建连接对象不会访问数据库
+ * - 可以注入连接池工厂，测试时使用 pg-mem 等嵌入式替代品
+ *
+ * @since 1.0.0
+ */
+
+/* eslint-disable no-console, @typescript-eslint/no-explicit-any */
+import { randomUUID } from 'crypto';
+import { performance } from 'perf_hooks';
+import { Pool } from 'pg';
+import type { PoolClient, PoolConfig, QueryResult } from 'pg';
+import type { IDatabaseModuleConfig } from '@aiofix/config';
+import type {
+  IDatabaseConnection,
+  IExecuteResult,
+  ITransaction,
+  ITransactionOptions,
+  TenantContext,
+} from '../interfaces';
+import {
+  DatabaseConnectionError,
+  DatabaseQueryError,
+  DatabaseTransactionError,
+} from '../interfaces';
+import { DEFAULT_TENANT_SETTING } from '../isolation/row-level-security';
+import { toPositionalParameters } from './sql-placeholders';
+
+/**
+ * 单个数据库连接的配置
+ */
+export type DatabaseConnectionConfig =
+  IDatabaseModuleConfig['connections'][string];
+
+/**
+ * 连接池工厂
+ */
+export type PostgresPoolFactory = (config: PoolConfig) => Pool;
+
+/**
+ * 连接池状态
+ */
+export interface IPostgresPoolStatus {
+  /** 连接总数 */
+  total: number;
+  /** 空闲连接数 */
+  idle: number;
+  /** 等待获取连接的请求数 */
+  waiting: number;
+}
+
+/**
+ * 表示连接故障的网络错误码
+ */
+const CONNECTION_ERROR_CODES = new Set([
+  'ECONNREFUSED',
+  'ECONNRESET',
+  'ETIMEDOUT',
+  'ENOTFOUND',
+  'EHOSTUNREACH',
+  'EPIPE',
+  // 数据库不存在
+  '3D000',
+  // 连接数耗尽
+  '53300',
+  // 服务器关闭或正在启动
+  '57P01',
+  '57P02',
+  '57P03',
+]);
+
+/**
+ * 表示连接故障的驱动错误信息
+ */
+const CONNECTION_ERROR_MESSAGES = [
+  'timeout exceeded when trying to connect',
+  'Connection terminated',
+  'Cannot use a pool after calling end',
+];
+
+/**
+ * 事务隔离级别对应的SQL
+ */
+const ISOLATION_LEVELS: Record<
+  NonNullable<ITransactionOptions['isolationLevel']>,
+  string
+> = {
+  READ_UNCOMMITTED: 'READ UNCOMMITTED',
+  READ_COMMITTED: 'READ COMMITTED',
+  REPEATABLE_READ: 'REPEATABLE READ',
+  SERIALIZABLE: 'SERIALIZABLE',
+};
+
+/**
+ * 判断驱动错误是否为连接故障
+ */
+function isConnectionFailure(error: any): boolean {
+  const code = typeof error?.code === 'string' ? error.code : '';
+  const message = typeof error?.message === 'string' ? error.message : '';
+
+  return (
+    CONNECTION_ERROR_CODES.has(code) ||
+    // 08：连接异常，28：认证失败
+    code.startsWith('08') ||
+    code.startsWith('28') ||
+    CONNECTION_ERROR_MESSAGES.some((text) => message.includes(text))
+  );
+}
+
+/**
+ * 把驱动错误映射为数据库错误
+ */
+function toDatabaseError(
+  error: unknown,
+  connectionName: string,
+  sql?: string,
+  params?: any[],
+): Error {
+  if (
+    error instanceof DatabaseConnectionError ||
+    error instanceof DatabaseQueryError ||
+    error instanceof DatabaseTransactionError
+  ) {
+    return error;
+  }
+
+  const cause = error instanceof Error ? error : new Error(String(error));
+  const driverError = error as Record<string, any>;
+
+  if (isConnectionFailure(driverError)) {
+    return new DatabaseConnectionError(
+      `数据库连接失败 [${connectionName}]: ${cause.message}`,
+      { connectionName, errorCode: driverError?.code },
+      cause,
+    );
+  }
+
+  return new DatabaseQueryError(
+    `SQL执行失败 [${connectionName}]: ${cause.message}`,
+    {
+      connectionName,
+      sql,
+      params,
+      errorCode: driverError?.code,
+      constraintName: driverError?.constraint,
+      detail: driverError?.detail,
+    },
+    cause,
+  );
+}
+
+/**
+ * 把驱动的执行结果转换为命令执行结果
+ */
+function toExecuteResult(
+  result: QueryResult,
+  startTime: number,
+): IExecuteResult {
+  const insertId = result.rows?.[0]?.id;
+  return {
+    affectedRows: result.rowCount ?? 0,
+    insertId:
+      typeof insertId === 'string' || typeof insertId === 'number'
+        ? insertId
+        : undefined,
+    executionTime: performance.now() - startTime,
+    success: true,
+  };
+}
+
+/**
+ * PostgreSQL事务
+ */
+export class PostgresTransaction implements ITransaction {
+  readonly transactionId = `trx_${randomUUID()}`;
+  private active = true;
+  private readonly savepoints: string[] = [];
+
+  constructor(
+    private readonly client: PoolClient,
+    private readonly connectionName: string,
+    readonly tenantContext?: TenantContext,
+  ) {}
+
+  get isActive(): boolean {
+    return this.active;
+  }
+
+  async query<T>(sql: string, params?: any[]): Promise<T[]> {
+    const result = await this.run(sql, params);
+    return result.rows as T[];
+  }
+
+  async execute(sql: string, params?: any[]): Promise<IExecuteResult> {
+    const startTime = performance.now();
+    const result = await this.run(sql, params);
+    return toExecuteResult(result, startTime);
+  }
+
+  async commit(): Promise<void> {
+    this.ensureActive('提交');
+    this.active = false;
+
+    try {
+      await this.client.query('COMMIT');
+      this.client.release();
+    } catch (error) {
+      this.client.release(error instanceof Error ? error : true);
+      throw new DatabaseTransactionError(
+        `事务提交失败: ${error instanceof Error ? error.message : String(error)}`,
+        {
+          transactionId: this.transactionId,
+          connectionName: this.connectionName,
+        },
+        error instanceof Error ? error : undefined,
+      );
+    }
+  }
+
+  async rollback(): Promise<void> {
+    if (!this.active) {
+      return;
+    }
+    this.active = false;
+
+    try {
+      await this.client.query('ROLLBACK');
+      this.client.release();
+    } catch (error) {
+      this.client.release(error instanceof Error ? error : true);
+      throw new DatabaseTransactionError(
+        `事务回滚失败: ${error instanceof Error ? error.message : String(error)}`,
+        {
+          transactionId: this.transactionId,
+          connectionName: this.connectionName,
+        },
+        error instanceof Error ? error : undefined,
+      );
+    }
+  }
+
+  async savepoint(name: string): Promise<void> {
+    this.ensureActive('创建保存点');
+    this.validateSavepointName(name);
+
+    await this.run(`SAVEPOINT ${name}`);
+    this.savepoints.push(name);
+  }
+
+  async rollbackToSavepoint(name: string): Promise<void> {
+    this.ensureActive('回滚到保存点');
+    const index = this.savepoints.lastIndexOf(name);
+    if (index === -1) {
+      throw new DatabaseTransactionError(`保存点不存在: ${name}`, {
+        transactionId: this.transactionId,
+        savepoint: name,
+      });
+    }
+
+    await this.run(`ROLLBACK TO SAVEPOINT ${name}`);
+    this.savepoints.splice(index + 1);
+  }
+
+  /**
+   * 在事务连接上执行语句
+   */
+  private async run(sql: string, params?: any[]): Promise<QueryResult> {
+    this.ensureActive('执行语句');
+
+    try {
+      return await this.client.query(
+        params?.length ? toPositionalParameters(sql) : sql,
+        params,
+      );
+    } catch (error) {
+      throw toDatabaseError(error, this.connectionName, sql, params);
+    }
+  }
+
+  private ensureActive(operation: string): void {
+    if (!this.active) {
+      throw new DatabaseTransactionError(`事务已结束，无法${operation}`, {
+        transactionId: this.transactionId,
+      });
+    }
+  }
+
+  private validateSavepointName(name: string): void {
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+      throw new DatabaseTransactionError(`保存点名称无效: ${name}`, {
+        transactionId: this.transactionId,
+        savepoint: name,
+      });
+    }
+  }
+}
+
+/**
+ * PostgreSQL数据库连接
+ */
+export class PostgresConnection implements IDatabaseConnection<Pool> {
+  readonly type = 'postgresql' as const;
+  private closed = false;
+
+  constructor(
+    readonly name: string,
+    private readonly pool: Pool,
+    readonly tenantContext?: TenantContext,
+    private readonly tenantSetting?: string,
+  ) {}
+
+  get isConnected(): boolean {
+    return !this.closed;
+  }
+
+  /**
+   * 获取绑定租户的连接
+   *
+   * @param tenantContext - 租户上下文
+   * @param setting - 保存租户ID的会话设置名
+   * @returns 共享连接池、在会话设置中携带租户ID的连接
+   */
+  forTenant(
+    tenantContext: TenantContext,
+    setting: string = DEFAULT_TENANT_SETTING,
+  ): PostgresConnection {
+    if (!tenantContext?.tenantId) {
+      throw new DatabaseConnectionError('租户连接缺少租户ID', {
+        connectionName: this.name,
+      });
+    }
+    return new PostgresConnection(this.name, this.pool, tenantContext, setting);
+  }
+
+  async query<R = any>(sql: string, params?: any[]): Promise<R[]> {
+    const result = await this.run(sql, params);
+    return result.rows as R[];
+  }
+
+  async execute(sql: string, params?: any[]): Promise<IExecuteResult> {
+    const startTime = performance.now();
+    const result = await this.run(sql, params);
+    return toExecuteResult(result, startTime);
+  }
+
+  async beginTransaction(
+    options: ITransactionOptions = {},
+  ): Promise<PostgresTransaction> {
+    let client: PoolClient;
+    try {
+      client = await this.pool.connect();
+    } catch (error) {
+      throw toDatabaseError(error, this.name);
+    }
+
+    const modes = [
+      options.isolationLevel &&
+        `ISOLATION LEVEL ${ISOLATION_LEVELS[options.isolationLevel]}`,
+      options.readOnly && 'READ ONLY',
+    ].filter(Boolean);
+
+    try {
+      await client.query(modes.length ? `BEGIN ${modes.join(' ')}` : 'BEGIN');
+      if (options.timeout) {
+        await client.query(
+          `SET LOCAL statement_timeout = ${Math.floor(options.timeout)}`,
+        );
+      }
+      if (this.tenantSetting) {
+        await client.query('SELECT set_config($1, $2, true)', [
+          this.tenantSetting,
+          this.tenantContext?.tenantId,
+        ]);
+      }
+    } catch (error) {
+      client.release(error instanceof Error ? error : true);
+      throw new DatabaseTransactionError(
+        `事务开始失败: ${error instanceof Error ? error.message : String(error)}`,
+        { connectionName: this.name, options },
+        error instanceof Error ? error : undefined,
+      );
+    }
+
+    return new PostgresTransaction(client, this.name, this.tenantContext);
+  }
+
+  getRawConnection(): Pool {
+    return this.pool;
+  }
+
+  /**
+   * 获取连接池状态
+   */
+  getPoolStatus(): IPostgresPoolStatus {
+    return {
+      total: this.pool.totalCount ?? 0,
+      idle: this.pool.idleCount ?? 0,
+      waiting: this.pool.waitingCount ?? 0,
+    };
+  }
+
+  async close(): Promise<void> {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    // 租户连接不拥有连接池
+    if (this.tenantSetting) {
+      return;
+    }
+
+    try {
+      await this.pool.end();
+    } catch (error) {
+      throw new DatabaseConnectionError(
+        `关闭数据库连接失败 [${this.name}]`,
+        { connectionName: this.name },
+        error instanceof Error ? error : undefined,
+      );
+    }
+  }
+
+  /**
+   * 在连接池上执行语句
+   */
+  private async run(sql: string, params?: any[]): Promise<QueryResult> {
+    if (this.closed) {
+      throw new DatabaseConnectionError(`数据库连接已关闭: ${this.name}`, {
+        connectionName: this.name,
+      });
+    }
+    if (this.tenantSetting) {
+      return this.runForTenant(this.tenantSetting, sql, params);
+    }
+
+    try {
+      return await this.pool.query(
+        params?.length ? toPositionalParameters(sql) : sql,
+        params,
+      );
+    } catch (error) {
+      throw toDatabaseError(error, this.name, sql, params);
+    }
+  }
+
+  /**
+   * 在设置了租户ID的连接上执行语句，归还前清空设置
+   */
+  private async runForTenant(
+    setting: string,
+    sql: string,
+    params?: any[],
+  ): Promise<QueryResult> {
+    let client: PoolClient;
+    try {
+      client = await this.pool.connect();
+    } catch (error) {
+      throw toDatabaseError(error, this.name);
+    }
+
+    try {
+      await client.query('SELECT set_config($1, $2, false)', [
+        setting,
+        this.tenantContext?.tenantId,
+      ]);
+      return await client.query(
+        params?.length ? toPositionalParameters(sql) : sql,
+        params,
+      );
+    } catch (error) {
+      throw toDatabaseError(error, this.name, sql, params);
+    } finally {
+      try {
+        await client.query("SELECT set_config($1, '', false)", [setting]);
+        client.release();
+      } catch (error) {
+        // 无法清空租户设置的连接不能再交给其他租户使用
+        client.release(error instanceof Error ? error : true);
+      }
+    }
+  }
+}
+
+/**
+ * 根据连接配置生成连接池配置
+ */
+export function toPostgresPoolConfig(
+  config: DatabaseConnectionConfig,
+): PoolConfig {
+  return {
+    host: config.host,
+    port: config.port,
+    user: config.username,
+    password: config.password,
+    database: config.database,
+    ssl: config.ssl,
+    min: config.pool?.min,
+    max: config.pool?.max,
+    idleTimeoutMillis: config.pool?.idle,
+    connectionTimeoutMillis: config.pool?.acquire,
+    ...config.options,
+  };
+}
+
+/**
+ * 创建PostgreSQL数据库连接工厂函数
+ *
+ * @param name - 连接名称
+ * @param config - 连接配置
+ * @param poolFactory - 连接池工厂，默认使用 pg 的连接池
+ */
+export function createPostgresConnection(
+  name: string,
+  config: DatabaseConnectionConfig,
+  poolFactory: PostgresPoolFactory = (poolConfig) => new Pool(poolConfig),
+): PostgresConnection {
+  const pool = poolFactory(toPostgresPoolConfig(config));
+  // 空闲连接的错误由连接池丢弃该连接，这里只避免进程因未处理的error事件退出
+  pool.on('error', (error) => {
+    console.error(`数据库连接池错误 [${name}]:`, error.message);
+  });
+  return new PostgresConnection(name, pool);
+}
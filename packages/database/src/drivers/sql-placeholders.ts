@@ -0,0 +1,107 @@
+/**
+ * SQL参数占位符转换
+ *
+ * @description 仓库统一使用 `?` 作为参数占位符，驱动执行前转换为各数据库的原生写法
+ *
+ * ## 业务规则
+ *
+ * - 字符串、带引号的标识符、行注释和块注释中的占位符保持不变
+ * - PostgreSQL：`?` 按出现顺序转换为 `$n`，已有的 `$n` 保持不变
+ * - SQLite：`$n` 转换为 `?` 并按引用顺序展开参数，同一参数可以多次引用；
+ *   `?` 依次使用尚未按顺序消费的参数
+ *
+ * @since 1.0.0
+ */
+
+/**
+ * 扫描SQL中的占位符并替换
+ *
+ * @param sql - SQL语句
+ * @param replace - 替换函数，参数为占位符原文（`?` 或 `$n`）
+ */
+function rewritePlaceholders(
+  sql: string,
+  replace: (placeholder: string) => string,
+): string {
+  let result = '';
+  let i = 0;
+
+  while (i < sql.length) {
+    const char = sql[i];
+    const next = sql[i + 1];
+
+    // 字符串、带引号的标识符、行注释和块注释原样保留
+    let end = -1;
+    if (char === "'" || char === '"') {
+      end = i + 1;
+      while (end < sql.length) {
+        if (sql[end] === char) {
+          if (sql[end + 1] === char) {
+            end += 2;
+            continue;
+          }
+          break;
+        }
+        end++;
+      }
+    } else if (char === '-' && next === '-') {
+      end = sql.indexOf('\n', i);
+      end = end === -1 ? sql.length - 1 : end;
+    } else if (char === '/' && next === '*') {
+      end = sql.indexOf('*/', i + 2);
+      end = end === -1 ? sql.length - 1 : end + 1;
+    }
+
+    if (end !== -1) {
+      result += sql.slice(i, end + 1);
+      i = end + 1;
+      continue;
+    }
+
+    const numbered = char === '$' ? /^\$\d+/.exec(sql.slice(i)) : null;
+    if (char === '?' || numbered) {
+      const placeholder = numbered ? numbered[0] : char;
+      result += replace(placeholder);
+      i += placeholder.length;
+    } else {
+      result += char;
+      i++;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * 把 `?` 占位符转换为PostgreSQL的 `$n` 占位符
+ */
+export function toPositionalParameters(sql: string): string {
+  let index = 0;
+  return rewritePlaceholders(sql, (placeholder) =>
+    placeholder === '?' ? `$${++index}` : placeholder,
+  );
+}
+
+/**
+ * 把 `$n` 占位符转换为SQLite的 `?` 占位符，并按引用顺序展开参数
+ *
+ * @param sql - SQL语句
+ * @param params - 参数列表
+ * @returns 转换后的SQL语句和参数列表
+ */
+export function toAnonymousParameters<T>(
+  sql: string,
+  params: T[] = [],
+): { sql: string; params: T[] } {
+  const values: T[] = [];
+  let index = 0;
+  const rewritten = rewritePlaceholders(sql, (placeholder) => {
+    values.push(
+      placeholder === '?'
+        ? params[index++]
+        : params[Number(placeholder.slice(1)) - 1],
+    );
+    return '?';
+  });
+  return { sql: rewritten, params: values };
+}
@@ -0,0 +1,510 @@
+/**
+ * SQLite数据库连接
+ *
+ * @description 基于 better-sqlite3 的 IDatabaseConnection 实现，用于本地开发和集成测试，
+ * 不需要启动数据库服务
+ *
+ * ## 业务规则
+ *
+ * ### 数据库文件规则
+ * - 连接配置的 database 为文件路径时使用文件数据库，为空或 `:memory:` 时使用内存数据库
+ * - 内存数据库只在连接内可见，连接关闭后数据丢失
+ * - 默认启用外键约束，文件数据库使用WAL日志模式
+ *
+ * ### 查询规则
+ * - 使用与其他驱动相同的 `?` 占位符，`$n` 占位符转换为 `?` 并按引用顺序展开参数
+ * - Date 参数以ISO字符串保存，布尔参数保存为 1/0，对象和数组保存为JSON
+ * - 命令的影响行数取自 changes，插入ID取自 lastInsertRowid；语句带 RETURNING 时返回的行数即影响行数
+ *
+ * ### 事务规则
+ * - 一个连接同一时间只有一个事务，事务期间连接上的其他语句等待事务结束后执行
+ * - 开始事务的异步调用链（及其后续发起的调用）直接在连接上执行的语句属于事务，不等待，
+ *   在事务中执行；在该调用链中再次开始事务直接失败，不会等待自己
+ * - 等待连接超过 pool.acquire（默认5秒）时抛出 DatabaseConnectionError，不会无限等待
+ * - 读写事务使用 BEGIN IMMEDIATE 提前获取写锁，只读事务使用 BEGIN DEFERRED
+ * - SQLite的事务总是可串行化的，隔离级别选项被忽略
+ * - 保存点、事务结束后的行为和错误与 PostgresConnection 一致
+ *
+ * ### 错误规则
+ * - 无法打开、不是数据库、文件损坏、磁盘IO错误和连接已关闭映射为 DatabaseConnectionError
+ * - 其余错误映射为 DatabaseQueryError，上下文包含SQL、参数和SQLite错误码
+ *
+ * ## 技术规则
+ *
+ * - better-sqlite3 是同步接口，语句在调用线程执行，适合开发和测试规模的数据量
+ *
+ * @since 1.0.0
+ */
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+import { performance } from 'perf_hooks';
+import { clearTimeout, setTimeout } from 'timers';
+import Database from 'better-sqlite3';
+import type {
+  IDatabaseConnection,
+  IExecuteResult,
+  ITransaction,
+  ITransactionOptions,
+  TenantContext,
+} from '../interfaces';
+import {
+  DatabaseConnectionError,
+  DatabaseQueryError,
+  DatabaseTransactionError,
+} from '../interfaces';
+import { toAnonymousParameters } from './sql-placeholders';
+import type { DatabaseConnectionConfig } from './postgresql-connection';
+
+/**
+ * SQLite数据库工厂
+ */
+export type SqliteDatabaseFactory = (
+  filename: string,
+  options: Database.Options,
+) => Database.Database;
+
+/**
+ * 内存数据库文件名
+ */
+export const SQLITE_MEMORY_DATABASE = ':memory:';
+
+/**
+ * 默认的等待连接超时时间（毫秒）
+ */
+const DEFAULT_ACQUIRE_TIMEOUT = 5000;
+
+/**
+ * 表示连接故障的SQLite错误码前缀
+ */
+const CONNECTION_ERROR_CODES = [
+  'SQLITE_CANTOPEN',
+  'SQLITE_NOTADB',
+  'SQLITE_CORRUPT',
+  'SQLITE_IOERR',
+];
+
+/**
+ * 把参数转换为SQLite支持的类型
+ */
+function toSqliteValue(value: unknown): unknown {
+  if (value === undefined) {
+    return null;
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (typeof value === 'boolean') {
+    return value ? 1 : 0;
+  }
+  if (typeof value === 'object' && value !== null && !Buffer.isBuffer(value)) {
+    return JSON.stringify(value);
+  }
+  return value;
+}
+
+/**
+ * 把驱动错误映射为数据库错误
+ */
+function toDatabaseError(
+  error: unknown,
+  connectionName: string,
+  sql?: string,
+  params?: any[],
+): Error {
+  if (
+    error instanceof DatabaseConnectionError ||
+    error instanceof DatabaseQueryError ||
+    error instanceof DatabaseTransactionError
+  ) {
+    return error;
+  }
+
+  const cause = error instanceof Error ? error : new Error(String(error));
+  const code = (error as { code?: unknown })?.code;
+  const errorCode = typeof code === 'string' ? code : undefined;
+
+  if (
+    CONNECTION_ERROR_CODES.some((prefix) => errorCode?.startsWith(prefix)) ||
+    cause.message.includes('database connection is not open')
+  ) {
+    return new DatabaseConnectionError(
+      `数据库连接失败 [${connectionName}]: ${cause.message}`,
+      { connectionName, errorCode },
+      cause,
+    );
+  }
+
+  return new DatabaseQueryError(
+    `SQL执行失败 [${connectionName}]: ${cause.message}`,
+    { connectionName, sql, params, errorCode },
+    cause,
+  );
+}
+
+/**
+ * 在SQLite数据库上执行语句
+ */
+function runStatement(
+  database: Database.Database,
+  connectionName: string,
+  sql: string,
+  params: any[] = [],
+): { rows: any[]; result: IExecuteResult } {
+  const startTime = performance.now();
+
+  try {
+    const converted = toAnonymousParameters(sql, params);
+    const statement = database.prepare(converted.sql);
+    const values = converted.params.map(toSqliteValue);
+
+    if (statement.reader) {
+      const rows = statement.all(...values);
+      const insertId = (rows[0] as Record<string, unknown> | undefined)?.id;
+      return {
+        rows,
+        result: {
+          affectedRows: rows.length,
+          insertId:
+            typeof insertId === 'string' || typeof insertId === 'number'
+              ? insertId
+              : undefined,
+          executionTime: performance.now() - startTime,
+          success: true,
+        },
+      };
+    }
+
+    const info = statement.run(...values);
+    return {
+      rows: [],
+      result: {
+        affectedRows: info.changes,
+        insertId: info.changes > 0 ? Number(info.lastInsertRowid) : undefined,
+        executionTime: performance.now() - startTime,
+        success: true,
+      },
+    };
+  } catch (error) {
+    throw toDatabaseError(error, connectionName, sql, params);
+  }
+}
+
+/**
+ * SQLite事务
+ */
+export class SqliteTransaction implements ITransaction {
+  readonly transactionId = `trx_${randomUUID()}`;
+  private active = true;
+  private readonly savepoints: string[] = [];
+
+  constructor(
+    private readonly database: Database.Database,
+    private readonly connectionName: string,
+    private readonly release: () => void,
+    readonly tenantContext?: TenantContext,
+  ) {}
+
+  get isActive(): boolean {
+    return this.active;
+  }
+
+  async query<T>(sql: string, params?: any[]): Promise<T[]> {
+    this.ensureActive('执行语句');
+    return runStatement(this.database, this.connectionName, sql, params)
+      .rows as T[];
+  }
+
+  async execute(sql: string, params?: any[]): Promise<IExecuteResult> {
+    this.ensureActive('执行语句');
+    return runStatement(this.database, this.connectionName, sql, params).result;
+  }
+
+  async commit(): Promise<void> {
+    this.ensureActive('提交');
+    this.end('COMMIT', '事务提交失败');
+  }
+
+  async rollback(): Promise<void> {
+    if (!this.active) {
+      return;
+    }
+    this.end('ROLLBACK', '事务回滚失败');
+  }
+
+  async savepoint(name: string): Promise<void> {
+    this.ensureActive('创建保存点');
+    this.validateSavepointName(name);
+
+    runStatement(this.database, this.connectionName, `SAVEPOINT ${name}`);
+    this.savepoints.push(name);
+  }
+
+  async rollbackToSavepoint(name: string): Promise<void> {
+    this.ensureActive('回滚到保存点');
+    const index = this.savepoints.lastIndexOf(name);
+    if (index === -1) {
+      throw new DatabaseTransactionError(`保存点不存在: ${name}`, {
+        transactionId: this.transactionId,
+        savepoint: name,
+      });
+    }
+
+    runStatement(
+      this.database,
+      this.connectionName,
+      `ROLLBACK TO SAVEPOINT ${name}`,
+    );
+    this.savepoints.splice(index + 1);
+  }
+
+  /**
+   * 结束事务并释放连接
+   */
+  private end(statement: 'COMMIT' | 'ROLLBACK', failure: string): void {
+    this.active = false;
+
+    try {
+      this.database.exec(statement);
+    } catch (error) {
+      // 提交失败时事务可能仍然打开，回滚后再释放连接
+      if (this.database.inTransaction) {
+        try {
+          this.database.exec('ROLLBACK');
+        } catch {
+          // 回滚失败时保留原始错误
+        }
+      }
+      throw new DatabaseTransactionError(
+        `${failure}: ${error instanceof Error ? error.message : String(error)}`,
+        {
+          transactionId: this.transactionId,
+          connectionName: this.connectionName,
+        },
+        error instanceof Error ? error : undefined,
+      );
+    } finally {
+      this.release();
+    }
+  }
+
+  private ensureActive(operation: string): void {
+    if (!this.active) {
+      throw new DatabaseTransactionError(`事务已结束，无法${operation}`, {
+        transactionId: this.transactionId,
+      });
+    }
+  }
+
+  private validateSavepointName(name: string): void {
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+      throw new DatabaseTransactionError(`保存点名称无效: ${name}`, {
+        transactionId: this.transactionId,
+        savepoint: name,
+      });
+    }
+  }
+}
+
+/**
+ * SQLite数据库连接
+ */
+export class SqliteConnection
+  implements IDatabaseConnection<Database.Database>
+{
+  readonly type = 'sqlite' as const;
+  private lock: Promise<void> = Promise.resolve();
+  /** 开始事务的异步调用链，值在事务开始后设置 */
+  private readonly scope = new AsyncLocalStorage<{
+    transaction?: SqliteTransaction;
+  }>();
+
+  constructor(
+    readonly name: string,
+    private readonly database: Database.Database,
+    readonly tenantContext?: TenantContext,
+    private readonly acquireTimeout = DEFAULT_ACQUIRE_TIMEOUT,
+  ) {}
+
+  get isConnected(): boolean {
+    return this.database.open;
+  }
+
+  async query<R = any>(sql: string, params?: any[]): Promise<R[]> {
+    if (this.inTransactionScope()) {
+      return runStatement(this.database, this.name, sql, params).rows as R[];
+    }
+
+    const release = await this.acquire();
+    try {
+      return runStatement(this.database, this.name, sql, params).rows as R[];
+    } finally {
+      release();
+    }
+  }
+
+  async execute(sql: string, params?: any[]): Promise<IExecuteResult> {
+    if (this.inTransactionScope()) {
+      return runStatement(this.database, this.name, sql, params).result;
+    }
+
+    const release = await this.acquire();
+    try {
+      return runStatement(this.database, this.name, sql, params).result;
+    } finally {
+      release();
+    }
+  }
+
+  async beginTransaction(
+    options: ITransactionOptions = {},
+  ): Promise<SqliteTransaction> {
+    if (this.inTransactionScope()) {
+      throw new DatabaseTransactionError(
+        '事务进行中，不能在同一连接上开始新的事务',
+        {
+          connectionName: this.name,
+        },
+      );
+    }
+
+    // 在第一个 await 之前进入，作用域才会传递到调用方后续的调用
+    const holder: { transaction?: SqliteTransaction } = {};
+    this.scope.enterWith(holder);
+
+    const release = await this.acquire();
+
+    try {
+      this.database.exec(
+        options.readOnly ? 'BEGIN DEFERRED' : 'BEGIN IMMEDIATE',
+      );
+    } catch (error) {
+      release();
+      const mapped = toDatabaseError(error, this.name);
+      if (mapped instanceof DatabaseConnectionError) {
+        throw mapped;
+      }
+      throw new DatabaseTransactionError(
+        `事务开始失败: ${error instanceof Error ? error.message : String(error)}`,
+        { connectionName: this.name, options },
+        error instanceof Error ? error : undefined,
+      );
+    }
+
+    holder.transaction = new SqliteTransaction(
+      this.database,
+      this.name,
+      release,
+      this.tenantContext,
+    );
+    return holder.transaction;
+  }
+
+  getRawConnection(): Database.Database {
+    return this.database;
+  }
+
+  async close(): Promise<void> {
+    if (!this.database.open) {
+      return;
+    }
+
+    // 等待进行中的事务结束
+    const release = await this.acquire();
+    try {
+      this.database.close();
+    } catch (error) {
+      throw new DatabaseConnectionError(
+        `关闭数据库连接失败 [${this.name}]`,
+        { connectionName: this.name },
+        error instanceof Error ? error : undefined,
+      );
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * 当前调用是否在本连接进行中的事务的调用链内
+   */
+  private inTransactionScope(): boolean {
+    return this.scope.getStore()?.transaction?.isActive ?? false;
+  }
+
+  /**
+   * 独占连接，返回释放函数
+   *
+   * @throws {DatabaseConnectionError} 等待超时时抛出
+   */
+  private async acquire(): Promise<() => void> {
+    let release!: () => void;
+    const previous = this.lock;
+    this.lock = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () =>
+          reject(
+            new DatabaseConnectionError(
+              `等待数据库连接超时 [${this.name}]: ${this.acquireTimeout}ms`,
+              { connectionName: this.name, timeout: this.acquireTimeout },
+            ),
+          ),
+        this.acquireTimeout,
+      );
+    });
+
+    try {
+      await Promise.race([previous, timeout]);
+    } catch (error) {
+      // 超时的等待者轮到时直接让出连接
+      void previous.then(release);
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+    return release;
+  }
+}
+
+/**
+ * 创建SQLite数据库连接工厂函数
+ *
+ * @param name - 连接名称
+ * @param config - 连接配置，database 为文件路径或 `:memory:`，pool.acquire 为等待连接的超时时间，
+ *   options 传给 better-sqlite3（如 readonly、timeout、fileMustExist）
+ * @param databaseFactory - 数据库工厂，默认使用 better-sqlite3
+ */
+export function createSqliteConnection(
+  name: string,
+  config: Pick<DatabaseConnectionConfig, 'database' | 'options' | 'pool'>,
+  databaseFactory: SqliteDatabaseFactory = (filename, options) =>
+    new Database(filename, options),
+): SqliteConnection {
+  const filename = config.database || SQLITE_MEMORY_DATABASE;
+
+  let database: Database.Database;
+  try {
+    database = databaseFactory(filename, {
+      ...(config.options as Database.Options | undefined),
+    });
+    database.pragma('foreign_keys = ON');
+    if (filename !== SQLITE_MEMORY_DATABASE && !database.readonly) {
+      database.pragma('journal_mode = WAL');
+    }
+  } catch (error) {
+    throw new DatabaseConnectionError(
+      `无法打开SQLite数据库 [${name}]: ${error instanceof Error ? error.message : String(error)}`,
+      { connectionName: name, filename },
+      error instanceof Error ? error : undefined,
+    );
+  }
+
+  // 未配置或为0时使用默认超时
+  const acquireTimeout = config.pool?.acquire || undefined;
+  return new SqliteConnection(name, database, undefined, acquireTimeout);
+}
@@ -228,16 +228,13 @@ async function demonstrateIsolationLevels(
     strictMode: false,
   });
 
-  const rowIsolatedSql = rowIsolationStrategy.isolateQuery(
+  const rowIsolated = rowIsolationStrategy.isolate(
     'SELECT * FROM users WHERE active = ?',
-    tenantContext,
-  );
-  const rowIsolatedParams = rowIsolationStrategy.isolateParams(
     [true],
     tenantContext,
   );
-  console.log('✅ 行级隔离SQL:', rowIsolatedSql);
-  console.log('✅ 行级隔离参数:', rowIsolatedParams);
+  console.log('✅ 行级隔离SQL:', rowIsolated.sql);
+  console.log('✅ 行级隔离参数:', rowIsolated.params);
 
   // 模式级隔离
   console.log('\n🔹 模式级隔离 (SCHEMA):');
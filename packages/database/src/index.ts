@@ -13,6 +13,12 @@ export * from './interfaces';
 // 导出核心服务（第一阶段：简化版本）
 export { SimpleDatabaseManager } from './core/simple-database-manager';
 
+// 导出数据库驱动（PostgreSQL连接池、嵌入式SQLite和事务）
+export * from './drivers';
+
+// 导出查询条件SQL构建器（Repository查询使用）
+export * from './query';
+
 // 导出多租户服务（第二阶段：租户隔离）
 export {
   TenantAwareDatabaseService,
@@ -24,11 +30,23 @@ export {
   DEFAULT_ISOLATION_CONFIG,
 } from './strategies/database-isolation.strategy';
 
-export type { IDatabaseIsolationConfig } from './strategies/database-isolation.strategy';
+export type {
+  IDatabaseIsolationConfig,
+  IsolationCleanupConnection,
+} from './strategies/database-isolation.strategy';
+
+// 导出行级租户隔离（SQL改写和PostgreSQL行级安全策略）
+export * from './isolation';
 
 // 导出CQRS功能（第三阶段：CQRS和事件溯源）
 export * from './cqrs';
 
+// 导出事务性发件箱（领域事件与业务数据同事务写入，中继异步投递）
+export * from './outbox';
+
+// 导出数据库迁移（版本化迁移，按租户模式和租户数据库执行）
+export * from './migrations';
+
 // 导出分布式事务功能（第四阶段：分布式事务和Saga模式）
 export * from './transactions';
 
@@ -61,6 +61,7 @@
 import type { TenantContext } from './tenant-context.interface';
 import type { ITransaction } from './transaction.interface';
 import type { IExecuteResult } from './execute-result.interface';
+import type { ITransactionOptions } from './query-options.interface';
 
 /**
  * 数据库连接接口
@@ -133,6 +134,7 @@ export interface IDatabaseConnection<T = any> {
    * @description 创建新的数据库事务，支持ACID特性
    * 事务内的操作要么全部成功，要么全部回滚
    *
+   * @param options - 事务选项，包括隔离级别、只读和超时
    * @returns 事务实例
    *
    * @throws {DatabaseTransactionError} 事务创建失败时抛出
@@ -150,7 +152,7 @@ export interface IDatabaseConnection<T = any> {
    * }
    * ```
    */
-  beginTransaction(): Promise<ITransaction>;
+  beginTransaction(options?: ITransactionOptions): Promise<ITransaction>;
 
   /**
    * 获取原始连接对象
@@ -53,6 +53,7 @@ export interface ITenantAwareDatabaseService extends IDatabaseService {
     entityClass: new () => T,
   ): Promise<ITenantAwareRepository<T>>;
   cleanupTenantData(tenantId: string): Promise<ICleanupResult>;
+  getTenantTables(): string[];
 }
 
 // 临时导入，避免循环依赖
@@ -86,6 +86,9 @@ export type {
   IExecuteOptions,
   ITransactionOptions,
   IQueryCriteria,
+  IFieldOperators,
+  FieldCondition,
+  QueryValue,
 } from './query-options.interface';
 
 // 清理结果接口
@@ -96,7 +99,10 @@ export type { ICleanupResult } from './cleanup-result.interface';
 // 隔离级别和策略
 export { DatabaseIsolationLevel } from './isolation.interface';
 
-export type { IDatabaseIsolationStrategy } from './isolation.interface';
+export type {
+  IDatabaseIsolationStrategy,
+  IIsolatedQuery,
+} from './isolation.interface';
 
 // ==================== 错误类 ====================
 
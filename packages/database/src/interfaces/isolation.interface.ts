@@ -80,6 +80,18 @@ export enum DatabaseIsolationLevel {
   DATABASE = 'database',
 }
 
+/**
+ * 隔离后的查询
+ *
+ * @description SQL和参数一起改写，租户参数位于与占位符对应的位置
+ */
+export interface IIsolatedQuery {
+  /** 隔离后的SQL语句 */
+  sql: string;
+  /** 隔离后的参数列表 */
+  params: any[];
+}
+
 /**
  * 数据库隔离策略接口
  *
@@ -123,12 +135,38 @@ export enum DatabaseIsolationLevel {
  * ```
  */
 export interface IDatabaseIsolationStrategy {
+  /**
+   * 隔离SQL语句和参数
+   *
+   * @description 同时改写SQL和参数，租户参数插入到与占位符对应的位置。
+   * 无法保证隔离的语句抛出错误，不会原样返回
+   *
+   * @param sql - 原始SQL语句
+   * @param params - 原始参数列表
+   * @param context - 租户上下文信息
+   * @returns 隔离后的SQL和参数
+   *
+   * @example
+   * ```typescript
+   * const { sql, params } = strategy.isolate(
+   *   'SELECT * FROM users WHERE status = ? LIMIT ?',
+   *   ['active', 20],
+   *   { tenantId: 'tenant-123' }
+   * );
+   * // sql: 'SELECT * FROM users WHERE (status = ?) AND tenant_id = ? LIMIT ?'
+   * // params: ['active', 'tenant-123', 20]
+   * ```
+   */
+  isolate(sql: string, params: any[], context: TenantContext): IIsolatedQuery;
+
   /**
    * 隔离SQL查询
    *
    * @description 修改SQL查询语句，添加租户隔离条件
    * 确保查询只能访问当前租户的数据
    *
+   * @deprecated 与 isolateParams 分开调用时无法确定租户参数的位置，请使用 isolate
+   *
    * @param sql - 原始SQL查询语句
    * @param context - 租户上下文信息
    * @returns 隔离后的SQL语句
@@ -139,7 +177,7 @@ export interface IDatabaseIsolationStrategy {
    *   'SELECT * FROM users WHERE status = ?',
    *   { tenantId: 'tenant-123' }
    * );
-   * // 结果: 'SELECT * FROM users WHERE status = ? AND tenant_id = ?'
+   * // 结果: 'SELECT * FROM users WHERE (status = ?) AND tenant_id = ?'
    * ```
    */
   isolateQuery(sql: string, context: TenantContext): string;
@@ -150,6 +188,8 @@ export interface IDatabaseIsolationStrategy {
    * @description 修改查询参数，添加租户相关参数
    * 确保参数与隔离后的SQL语句匹配
    *
+   * @deprecated 只有租户参数位于最后时才与 isolateQuery 的结果匹配，请使用 isolate
+   *
    * @param params - 原始查询参数数组
    * @param context - 租户上下文信息
    * @returns 隔离后的参数数组
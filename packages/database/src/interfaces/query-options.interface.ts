@@ -1,4 +1,3 @@
-/* eslint-disable @typescript-eslint/no-explicit-any */
 /**
  * 数据库查询和操作选项接口定义
  *
@@ -64,6 +63,9 @@ export interface IQueryOptions {
   /** 偏移量 - 查询结果的起始位置，用于分页 */
   offset?: number;
 
+  /** 投影字段 - 只返回指定字段，未指定时返回所有字段 */
+  select?: string[];
+
   /** 是否启用缓存 - 控制查询结果是否缓存 */
   enableCache?: boolean;
 
@@ -156,17 +158,52 @@ export interface ITransactionOptions {
   readOnly?: boolean;
 }
 
+/**
+ * 查询条件值
+ */
+export type QueryValue = string | number | boolean | Date | null;
+
+/**
+ * 字段操作符
+ *
+ * @description 同一字段的多个操作符以 AND 组合
+ *
+ * ## 操作符说明
+ * - **$eq / $ne**: 等于、不等于，值为 null 时转换为 IS NULL / IS NOT NULL
+ * - **$gt / $gte / $lt / $lte**: 大小比较
+ * - **$in / $nin**: 在列表中、不在列表中，空列表分别匹配无记录和所有记录
+ * - **$like / $ilike**: 模糊匹配、不区分大小写的模糊匹配
+ * - **$isNull**: true 为 IS NULL，false 为 IS NOT NULL
+ */
+export interface IFieldOperators {
+  $eq?: QueryValue;
+  $ne?: QueryValue;
+  $gt?: QueryValue;
+  $gte?: QueryValue;
+  $lt?: QueryValue;
+  $lte?: QueryValue;
+  $in?: QueryValue[];
+  $nin?: QueryValue[];
+  $like?: string;
+  $ilike?: string;
+  $isNull?: boolean;
+}
+
+/**
+ * 字段条件 - 简单值表示相等，对象表示操作符
+ */
+export type FieldCondition = QueryValue | IFieldOperators;
+
 /**
  * 查询条件接口
  *
- * @description 灵活的查询条件定义，支持复杂查询
- * 使用键值对形式定义查询条件
+ * @description 类型化的查询条件，编译为参数化SQL执行
  *
- * ## 支持的条件类型
- * - 简单相等条件：`{ name: 'John' }`
- * - 范围条件：`{ age: { $gte: 18, $lte: 65 } }`
- * - 数组条件：`{ status: { $in: ['active', 'pending'] } }`
- * - 模糊查询：`{ name: { $like: '%John%' } }`
+ * ## 业务规则
+ * - 同一层的多个字段条件以 AND 组合
+ * - $and、$or 组合多个子条件，子条件可以继续嵌套
+ * - 字段值为 null 时匹配 IS NULL，为 undefined 时忽略该字段
+ * - 字段名只能包含字母、数字和下划线，值总是作为参数传递
  *
  * @example
  * ```typescript
@@ -180,12 +217,16 @@ export interface ITransactionOptions {
  * const complexCriteria: IQueryCriteria = {
  *   age: { $gte: 18, $lte: 65 },
  *   status: { $in: ['active', 'verified'] },
- *   name: { $like: '%admin%' },
- *   createdAt: { $gte: '2024-01-01' }
+ *   deletedAt: null,
+ *   $or: [{ name: { $ilike: '%admin%' } }, { role: 'owner' }]
  * };
  * ```
  */
 export interface IQueryCriteria {
-  /** 字段条件 - 支持简单值或复杂查询操作符 */
-  [field: string]: any;
+  /** 所有子条件都满足 */
+  $and?: IQueryCriteria[];
+  /** 任一子条件满足 */
+  $or?: IQueryCriteria[];
+  /** 字段条件 */
+  [field: string]: FieldCondition | IQueryCriteria[] | undefined;
 }
@@ -0,0 +1,22 @@
+/**
+ * Database模块租户隔离导出
+ *
+ * @description 导出行级隔离的租户SQL改写器和PostgreSQL行级安全策略
+ *
+ * @since 1.0.0
+ */
+
+export {
+  TenantSqlRewriter,
+  createTenantSqlRewriter,
+} from './tenant-sql-rewriter';
+export {
+  DEFAULT_TENANT_SETTING,
+  createRowLevelSecurityPolicies,
+} from './row-level-security';
+
+export type { ITenantSqlRewriterOptions } from './tenant-sql-rewriter';
+export type {
+  IRowLevelSecurityOptions,
+  IRowLevelSecurityStatements,
+} from './row-level-security';
@@ -0,0 +1,749 @@
+/**
+ * 租户SQL改写器
+ *
+ * @description 解析单表的 SELECT、UPDATE、DELETE、INSERT 语句，
+ * 为行级隔离注入租户过滤条件或写入租户列
+ *
+ * ## 业务规则
+ *
+ * ### 改写规则
+ * - SELECT、UPDATE、DELETE：在 WHERE 中追加 `tenant_id = ?`，已有条件加括号后以 AND 组合，
+ *   没有 WHERE 时在 GROUP BY、ORDER BY、LIMIT、RETURNING 等子句之前补充
+ * - INSERT：没有租户列时在列清单和每一行的值末尾追加租户列；
+ *   已有租户列时，每一行的值必须是等于当前租户ID的参数或字符串字面量
+ * - 租户ID总是作为参数传递，参数插入到与占位符位置对应的下标；
+ *   语句使用 `$n` 时追加为下一个编号的参数
+ * - 共享表（没有租户列的表）和不访问表的 SELECT 保持不变
+ *
+ * ### 拒绝规则
+ * 无法保证隔离的语句抛出 DatabaseQueryError，不会原样执行：
+ * - 多条语句、JOIN、多表 FROM、子查询、UNION/INTERSECT/EXCEPT 和 WITH
+ * - 修改租户列的 UPDATE、带 FROM 的 UPDATE、带 USING 的 DELETE
+ * - 没有列清单的 INSERT、INSERT ... SELECT、带冲突更新子句的 INSERT
+ * - 其他类型的语句，以及同时使用 `?` 和 `$n` 占位符的语句
+ *
+ * ## 技术规则
+ *
+ * - 词法分析识别字符串、带引号的标识符、美元引用字符串和注释，其中的关键字和占位符不参与改写
+ * - 只在插入位置拼接SQL片段，语句的其余部分（包括注释和格式）保持原样
+ *
+ * @example
+ * ```typescript
+ * const rewriter = createTenantSqlRewriter({ sharedTables: ['countries'] });
+ * rewriter.rewrite(
+ *   'SELECT * FROM orders WHERE status = ? OR total > ? LIMIT ?',
+ *   ['paid', 100, 20],
+ *   'tenant-1',
+ * );
+ * // sql: SELECT * FROM orders WHERE (status = ? OR total > ?) AND tenant_id = ? LIMIT ?
+ * // params: ['paid', 100, 'tenant-1', 20]
+ * ```
+ *
+ * @since 1.0.0
+ */
+
+import type { IIsolatedQuery } from '../interfaces';
+import { DatabaseQueryError } from '../interfaces';
+
+/**
+ * 租户SQL改写器选项
+ */
+export interface ITenantSqlRewriterOptions {
+  /** 租户ID列名，默认 tenant_id */
+  tenantIdColumn?: string;
+  /** 共享表，访问这些表的语句不改写，可以带模式前缀 */
+  sharedTables?: string[];
+}
+
+/**
+ * 词法单元类型
+ */
+type TokenType =
+  | 'word'
+  | 'identifier'
+  | 'string'
+  | 'number'
+  | 'placeholder'
+  | 'symbol';
+
+/**
+ * 词法单元
+ */
+interface IToken {
+  type: TokenType;
+  /** 原文 */
+  text: string;
+  /** 在SQL中的起始位置 */
+  start: number;
+  /** 在SQL中的结束位置（不含） */
+  end: number;
+  /** 所在的括号层级 */
+  depth: number;
+}
+
+/**
+ * 在原SQL指定位置插入的片段
+ */
+interface IEdit {
+  offset: number;
+  text: string;
+  /** 片段是否包含租户ID参数的占位符 `?` */
+  param: boolean;
+}
+
+/**
+ * 表引用
+ */
+interface ITableReference {
+  /** 规范化的表名，未加引号的部分转为小写 */
+  name: string;
+  /** 表引用之后第一个词法单元的下标 */
+  next: number;
+}
+
+/**
+ * 结束条件表达式的子句关键字
+ */
+const CLAUSE_KEYWORDS = new Set([
+  'GROUP',
+  'HAVING',
+  'ORDER',
+  'LIMIT',
+  'OFFSET',
+  'FETCH',
+  'FOR',
+  'WINDOW',
+  'RETURNING',
+]);
+
+/**
+ * 不能作为表别名的关键字
+ */
+const RESERVED_WORDS = new Set([
+  ...CLAUSE_KEYWORDS,
+  'WHERE',
+  'SET',
+  'FROM',
+  'USING',
+  'VALUES',
+  'SELECT',
+  'DEFAULT',
+  'ON',
+  'JOIN',
+  'INNER',
+  'LEFT',
+  'RIGHT',
+  'FULL',
+  'CROSS',
+  'NATURAL',
+  'UNION',
+  'INTERSECT',
+  'EXCEPT',
+]);
+
+/**
+ * 组合多个查询的关键字，出现即拒绝
+ */
+const COMPOUND_KEYWORDS = new Set(['JOIN', 'UNION', 'INTERSECT', 'EXCEPT']);
+
+const IDENTIFIER_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * 租户SQL改写器
+ */
+export class TenantSqlRewriter {
+  private readonly tenantIdColumn: string;
+  private readonly sharedTables: Set<string>;
+
+  constructor(options: ITenantSqlRewriterOptions = {}) {
+    this.tenantIdColumn = options.tenantIdColumn ?? 'tenant_id';
+    if (!IDENTIFIER_PATTERN.test(this.tenantIdColumn)) {
+      throw new DatabaseQueryError(`租户列名无效: ${this.tenantIdColumn}`, {
+        tenantIdColumn: this.tenantIdColumn,
+      });
+    }
+    this.sharedTables = new Set(
+      (options.sharedTables ?? []).map((table) => table.toLowerCase()),
+    );
+  }
+
+  /**
+   * 把语句改写为只访问指定租户的数据
+   *
+   * @param sql - SQL语句，使用 `?` 或 `$n` 占位符
+   * @param params - 参数列表
+   * @param tenantId - 租户ID
+   * @returns 改写后的SQL和参数
+   * @throws {DatabaseQueryError} 语句无法安全改写时抛出
+   */
+  rewrite(sql: string, params: unknown[] = [], tenantId: string): IIsolatedQuery {
+    const tokens = this.tokenize(sql);
+    this.validateStatement(sql, tokens);
+
+    const statement = tokens[0]?.text.toUpperCase();
+    let edits: IEdit[] | undefined;
+    switch (statement) {
+      case 'SELECT':
+        edits = this.rewriteSelect(sql, tokens);
+        break;
+      case 'UPDATE':
+        edits = this.rewriteUpdate(sql, tokens);
+        break;
+      case 'DELETE':
+        edits = this.rewriteDelete(sql, tokens);
+        break;
+      case 'INSERT':
+        edits = this.rewriteInsert(sql, tokens, params, tenantId);
+        break;
+      default:
+        throw this.reject(
+          sql,
+          `不支持租户改写的语句: ${statement ?? '空语句'}`,
+        );
+    }
+
+    return edits
+      ? this.applyEdits(sql, tokens, params, tenantId, edits)
+      : { sql, params };
+  }
+
+  // ==================== 语句改写 ====================
+
+  private rewriteSelect(sql: string, tokens: IToken[]): IEdit[] | undefined {
+    const from = tokens.findIndex(
+      (token) => token.depth === 0 && this.isWord(token, 'FROM'),
+    );
+    // 不访问表的查询（如 SELECT 1）不需要隔离
+    if (from === -1) {
+      return undefined;
+    }
+
+    const table = this.parseTable(sql, tokens, from + 1, true);
+    if (this.isSharedTableName(table)) {
+      return undefined;
+    }
+    this.expectConditionStart(sql, tokens, table.next, 'SELECT');
+    return this.filterEdits(tokens, table.next);
+  }
+
+  private rewriteUpdate(sql: string, tokens: IToken[]): IEdit[] | undefined {
+    const table = this.parseTable(sql, tokens, 1, true);
+    if (this.isSharedTableName(table)) {
+      return undefined;
+    }
+    if (!this.isWord(tokens[table.next], 'SET')) {
+      throw this.reject(sql, 'UPDATE 只能更新单个表');
+    }
+
+    let end = table.next + 1;
+    while (
+      end < tokens.length &&
+      !this.isWord(tokens[end], 'WHERE') &&
+      !this.isConditionEnd(tokens[end])
+    ) {
+      const token = tokens[end];
+      if (token.depth === 0 && this.isWord(token, 'FROM')) {
+        throw this.reject(sql, 'UPDATE 不支持 FROM 子句');
+      }
+      if (this.isTenantColumn(token)) {
+        throw this.reject(sql, `UPDATE 不能修改租户列 ${this.tenantIdColumn}`);
+      }
+      end++;
+    }
+    return this.filterEdits(tokens, table.next + 1);
+  }
+
+  private rewriteDelete(sql: string, tokens: IToken[]): IEdit[] | undefined {
+    if (!this.isWord(tokens[1], 'FROM')) {
+      throw this.reject(sql, 'DELETE 只能删除单个表');
+    }
+    const table = this.parseTable(sql, tokens, 2, true);
+    if (this.isSharedTableName(table)) {
+      return undefined;
+    }
+    this.expectConditionStart(sql, tokens, table.next, 'DELETE');
+    return this.filterEdits(tokens, table.next);
+  }
+
+  private rewriteInsert(
+    sql: string,
+    tokens: IToken[],
+    params: unknown[],
+    tenantId: string,
+  ): IEdit[] | undefined {
+    if (!this.isWord(tokens[1], 'INTO')) {
+      throw this.reject(sql, 'INSERT 语句缺少 INTO');
+    }
+    const table = this.parseTable(sql, tokens, 2, false);
+    if (this.isSharedTableName(table)) {
+      return undefined;
+    }
+
+    // 列清单
+    let index = table.next;
+    if (tokens[index]?.text !== '(') {
+      throw this.reject(sql, 'INSERT 必须指定列清单');
+    }
+    const columns: IToken[] = [];
+    index++;
+    while (tokens[index] && tokens[index].text !== ')') {
+      const token = tokens[index];
+      if (token.text !== ',') {
+        if (token.type !== 'word' && token.type !== 'identifier') {
+          throw this.reject(sql, `INSERT 列清单无效: ${token.text}`);
+        }
+        columns.push(token);
+      }
+      index++;
+    }
+    const columnsEnd = tokens[index];
+    if (!columnsEnd) {
+      throw this.reject(sql, 'INSERT 列清单缺少右括号');
+    }
+    const tenantColumn = columns.findIndex((token) =>
+      this.isTenantColumn(token),
+    );
+
+    index++;
+    if (!this.isWord(tokens[index], 'VALUES')) {
+      throw this.reject(sql, 'INSERT 只支持 VALUES 子句');
+    }
+
+    // 值列表，每一行记录各列的词法单元和右括号
+    const rows: Array<{ values: IToken[][]; close: IToken }> = [];
+    index++;
+    while (tokens[index]?.text === '(') {
+      const rowDepth = tokens[index].depth;
+      const values: IToken[][] = [[]];
+      index++;
+      while (
+        tokens[index] &&
+        !(tokens[index].text === ')' && tokens[index].depth === rowDepth)
+      ) {
+        const token = tokens[index];
+        if (token.text === ',' && token.depth === rowDepth + 1) {
+          values.push([]);
+        } else {
+          values[values.length - 1].push(token);
+        }
+        index++;
+      }
+      if (!tokens[index]) {
+        throw this.reject(sql, 'INSERT 值列表缺少右括号');
+      }
+      if (values.length !== columns.length) {
+        throw this.reject(sql, 'INSERT 值的数量与列数不一致');
+      }
+      rows.push({ values, close: tokens[index] });
+      index++;
+      if (tokens[index]?.text !== ',') {
+        break;
+      }
+      index++;
+    }
+    if (rows.length === 0) {
+      throw this.reject(sql, 'INSERT 缺少值列表');
+    }
+
+    // 冲突更新可能修改其他租户已有的行
+    if (tokens.slice(index).some((token) => this.isWord(token, 'UPDATE'))) {
+      throw this.reject(sql, 'INSERT 不支持冲突时更新');
+    }
+
+    if (tenantColumn !== -1) {
+      for (const row of rows) {
+        this.validateTenantValue(
+          sql,
+          tokens,
+          row.values[tenantColumn],
+          params,
+          tenantId,
+        );
+      }
+      return undefined;
+    }
+
+    return [
+      {
+        offset: columnsEnd.start,
+        text: `, ${this.tenantIdColumn}`,
+        param: false,
+      },
+      ...rows.map((row) => ({
+        offset: row.close.start,
+        text: ', ?',
+        param: true,
+      })),
+    ];
+  }
+
+  // ==================== 解析辅助 ====================
+
+  /**
+   * 拒绝多条语句、组合查询和子查询
+   */
+  private validateStatement(sql: string, tokens: IToken[]): void {
+    const semicolon = tokens.findIndex((token) => token.text === ';');
+    if (semicolon !== -1 && semicolon !== tokens.length - 1) {
+      throw this.reject(sql, '不支持在一次调用中执行多条语句');
+    }
+    if (semicolon !== -1) {
+      tokens.pop();
+    }
+
+    const selects = tokens.filter((token) => this.isWord(token, 'SELECT'));
+    const expected = this.isWord(tokens[0], 'SELECT') ? 1 : 0;
+    if (selects.length > expected) {
+      throw this.reject(sql, '不支持包含子查询的语句');
+    }
+
+    const compound = tokens.find(
+      (token) =>
+        token.type === 'word' &&
+        COMPOUND_KEYWORDS.has(token.text.toUpperCase()),
+    );
+    if (compound) {
+      throw this.reject(
+        sql,
+        `不支持包含 ${compound.text.toUpperCase()} 的语句`,
+      );
+    }
+
+    const placeholders = tokens.filter((token) => token.type === 'placeholder');
+    if (
+      placeholders.some((token) => token.text === '?') &&
+      placeholders.some((token) => token.text !== '?')
+    ) {
+      throw this.reject(sql, '不支持同时使用 ? 和 $n 占位符');
+    }
+  }
+
+  /**
+   * 解析表引用和可选的别名
+   */
+  private parseTable(
+    sql: string,
+    tokens: IToken[],
+    start: number,
+    allowAlias: boolean,
+  ): ITableReference {
+    const parts: string[] = [];
+    let index = start;
+
+    for (;;) {
+      const token = tokens[index];
+      if (
+        !token ||
+        (token.type !== 'word' && token.type !== 'identifier') ||
+        (token.type === 'word' && RESERVED_WORDS.has(token.text.toUpperCase()))
+      ) {
+        throw this.reject(sql, '无法识别语句访问的表');
+      }
+      parts.push(this.normalizeIdentifier(token));
+      index++;
+      if (tokens[index]?.text !== '.') {
+        break;
+      }
+      index++;
+    }
+
+    if (allowAlias) {
+      if (tokens[index]?.text === '(') {
+        throw this.reject(sql, '不支持表函数');
+      }
+      if (this.isWord(tokens[index], 'AS')) {
+        index += 2;
+      } else if (
+        tokens[index] &&
+        (tokens[index].type === 'identifier' ||
+          (tokens[index].type === 'word' &&
+            !RESERVED_WORDS.has(tokens[index].text.toUpperCase())))
+      ) {
+        index++;
+      }
+    }
+
+    return { name: parts.join('.'), next: index };
+  }
+
+  /**
+   * 表引用之后只能是 WHERE、其他子句或语句结束，否则说明访问了多个表
+   */
+  private expectConditionStart(
+    sql: string,
+    tokens: IToken[],
+    index: number,
+    statement: string,
+  ): void {
+    const token = tokens[index];
+    if (token && !this.isWord(token, 'WHERE') && !this.isConditionEnd(token)) {
+      throw this.reject(sql, `${statement} 只能访问单个表`);
+    }
+  }
+
+  /**
+   * 生成追加租户过滤条件的插入片段
+   *
+   * @param tokens - 词法单元
+   * @param start - 条件或 WHERE 可能出现的起始下标
+   */
+  private filterEdits(tokens: IToken[], start: number): IEdit[] {
+    const filter = `${this.tenantIdColumn} = ?`;
+    let index = start;
+    while (
+      index < tokens.length &&
+      !this.isWord(tokens[index], 'WHERE') &&
+      !this.isConditionEnd(tokens[index])
+    ) {
+      index++;
+    }
+
+    if (!this.isWord(tokens[index], 'WHERE')) {
+      const offset = index > 0 ? tokens[index - 1].end : 0;
+      return [{ offset, text: ` WHERE ${filter}`, param: true }];
+    }
+
+    const conditionStart = index + 1;
+    let conditionEnd = conditionStart;
+    while (
+      conditionEnd < tokens.length &&
+      !this.isConditionEnd(tokens[conditionEnd])
+    ) {
+      conditionEnd++;
+    }
+    if (conditionEnd === conditionStart) {
+      return [{ offset: tokens[index].end, text: ` ${filter}`, param: true }];
+    }
+
+    return [
+      { offset: tokens[conditionStart].start, text: '(', param: false },
+      {
+        offset: tokens[conditionEnd - 1].end,
+        text: `) AND ${filter}`,
+        param: true,
+      },
+    ];
+  }
+
+  /**
+   * 校验 INSERT 中租户列的值等于当前租户ID
+   */
+  private validateTenantValue(
+    sql: string,
+    tokens: IToken[],
+    value: IToken[],
+    params: unknown[],
+    tenantId: string,
+  ): void {
+    let actual: unknown;
+    const [token] = value;
+
+    if (value.length === 1 && token.type === 'placeholder') {
+      actual =
+        token.text === '?'
+          ? params[this.countPlaceholders(tokens, token.start)]
+          : params[Number(token.text.slice(1)) - 1];
+    } else if (value.length === 1 && token.type === 'string') {
+      actual = token.text.slice(1, -1).replace(/''/g, "'");
+    } else {
+      throw this.reject(sql, 'INSERT 的租户列只能是参数或字符串');
+    }
+
+    if (
+      actual === undefined ||
+      actual === null ||
+      String(actual) !== tenantId
+    ) {
+      throw this.reject(sql, 'INSERT 的租户列与当前租户不一致');
+    }
+  }
+
+  /**
+   * 按插入片段改写SQL，并把租户ID插入到对应的参数位置
+   */
+  private applyEdits(
+    sql: string,
+    tokens: IToken[],
+    params: unknown[],
+    tenantId: string,
+    edits: IEdit[],
+  ): IIsolatedQuery {
+    const numbered = tokens.some(
+      (token) => token.type === 'placeholder' && token.text !== '?',
+    );
+    const rewrittenParams = [...params];
+    const placeholder = numbered ? `$${params.length + 1}` : '?';
+    if (numbered) {
+      rewrittenParams.push(tenantId);
+    }
+
+    let rewritten = sql;
+    // 从后向前插入，原SQL中各插入位置之前的占位符数量保持不变
+    for (const edit of [...edits].sort((a, b) => b.offset - a.offset)) {
+      const text = edit.param ? edit.text.replace('?', placeholder) : edit.text;
+      rewritten =
+        rewritten.slice(0, edit.offset) + text + rewritten.slice(edit.offset);
+      if (edit.param && !numbered) {
+        rewrittenParams.splice(
+          this.countPlaceholders(tokens, edit.offset),
+          0,
+          tenantId,
+        );
+      }
+    }
+
+    return { sql: rewritten, params: rewrittenParams };
+  }
+
+  private countPlaceholders(tokens: IToken[], offset: number): number {
+    return tokens.filter(
+      (token) => token.type === 'placeholder' && token.start < offset,
+    ).length;
+  }
+
+  private isConditionEnd(token: IToken | undefined): boolean {
+    return (
+      !!token &&
+      token.depth === 0 &&
+      token.type === 'word' &&
+      CLAUSE_KEYWORDS.has(token.text.toUpperCase())
+    );
+  }
+
+  private isWord(token: IToken | undefined, word: string): boolean {
+    return token?.type === 'word' && token.text.toUpperCase() === word;
+  }
+
+  private isTenantColumn(token: IToken): boolean {
+    return (
+      (token.type === 'word' || token.type === 'identifier') &&
+      this.normalizeIdentifier(token) === this.tenantIdColumn.toLowerCase()
+    );
+  }
+
+  private isSharedTableName(table: ITableReference): boolean {
+    const [name] = table.name.split('.').slice(-1);
+    return this.sharedTables.has(table.name) || this.sharedTables.has(name);
+  }
+
+  private normalizeIdentifier(token: IToken): string {
+    return token.type === 'identifier'
+      ? token.text.slice(1, -1).toLowerCase()
+      : token.text.toLowerCase();
+  }
+
+  private reject(sql: string, message: string): DatabaseQueryError {
+    return new DatabaseQueryError(`无法安全地应用租户隔离: ${message}`, {
+      sql,
+      tenantIdColumn: this.tenantIdColumn,
+    });
+  }
+
+  // ==================== 词法分析 ====================
+
+  private tokenize(sql: string): IToken[] {
+    const tokens: IToken[] = [];
+    let depth = 0;
+    let i = 0;
+
+    const push = (type: TokenType, end: number, tokenDepth = depth): void => {
+      tokens.push({
+        type,
+        text: sql.slice(i, end),
+        start: i,
+        end,
+        depth: tokenDepth,
+      });
+      i = end;
+    };
+
+    while (i < sql.length) {
+      const char = sql[i];
+      const next = sql[i + 1];
+
+      if (/\s/.test(char)) {
+        i++;
+      } else if (char === '-' && next === '-') {
+        const end = sql.indexOf('\n', i);
+        i = end === -1 ? sql.length : end + 1;
+      } else if (char === '/' && next === '*') {
+        const end = sql.indexOf('*/', i + 2);
+        if (end === -1) {
+          throw this.reject(sql, '块注释没有结束');
+        }
+        i = end + 2;
+      } else if (char === "'" || char === '"' || char === '`') {
+        push(char === "'" ? 'string' : 'identifier', this.quotedEnd(sql, i));
+      } else if (char === '?') {
+        push('placeholder', i + 1);
+      } else if (char === '$') {
+        const numbered = /^\$\d+/.exec(sql.slice(i));
+        const tag = /^\$[A-Za-z_]?[A-Za-z0-9_]*\$/.exec(sql.slice(i));
+        if (numbered) {
+          push('placeholder', i + numbered[0].length);
+        } else if (tag) {
+          const end = sql.indexOf(tag[0], i + tag[0].length);
+          if (end === -1) {
+            throw this.reject(sql, '美元引用字符串没有结束');
+          }
+          push('string', end + tag[0].length);
+        } else {
+          push('symbol', i + 1);
+        }
+      } else if (/[A-Za-z_]/.test(char)) {
+        push(
+          'word',
+          i + /^[A-Za-z_][A-Za-z0-9_$]*/.exec(sql.slice(i))![0].length,
+        );
+      } else if (/\d/.test(char)) {
+        push('number', i + /^\d+(\.\d+)?/.exec(sql.slice(i))![0].length);
+      } else if (char === '(') {
+        push('symbol', i + 1);
+        depth++;
+      } else if (char === ')') {
+        depth--;
+        if (depth < 0) {
+          throw this.reject(sql, '括号不匹配');
+        }
+        push('symbol', i + 1);
+      } else {
+        push('symbol', i + 1);
+      }
+    }
+
+    if (depth !== 0) {
+      throw this.reject(sql, '括号不匹配');
+    }
+    return tokens;
+  }
+
+  /**
+   * 查找引号的结束位置，两个连续的引号表示转义
+   */
+  private quotedEnd(sql: string, start: number): number {
+    const quote = sql[start];
+    let end = start + 1;
+    while (end < sql.length) {
+      if (sql[end] === quote) {
+        if (sql[end + 1] === quote) {
+          end += 2;
+          continue;
+        }
+        return end + 1;
+      }
+      end++;
+    }
+    throw this.reject(sql, '引号没有结束');
+  }
+}
+
+/**
+ * 创建租户SQL改写器工厂函数
+ *
+ * @param options - 改写器选项
+ */
+export function createTenantSqlRewriter(
+  options?: ITenantSqlRewriterOptions,
+): TenantSqlRewriter {
+  return new TenantSqlRewriter(options);
+}
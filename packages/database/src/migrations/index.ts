@@ -0,0 +1,35 @@
+/**
+ * Database模块迁移导出
+ *
+ * @description 导出迁移定义、迁移执行器和执行报告类型
+ *
+ * @since 1.0.0
+ */
+
+export {
+  computeMigrationChecksum,
+  runMigrationStep,
+  sortMigrations,
+} from './migration';
+
+export type {
+  IMigration,
+  IMigrationExecutor,
+  MigrationStep,
+} from './migration';
+
+export {
+  MigrationRunner,
+  createMigrationRunner,
+  DEFAULT_MIGRATION_TABLE,
+} from './migration-runner';
+
+export type {
+  IMigrateOptions,
+  IMigrationReport,
+  IMigrationRunnerOptions,
+  IMigrationTargetResult,
+  IRollbackOptions,
+  MigrationTargetStatus,
+  TenantDatabaseConnectionFactory,
+} from './migration-runner';
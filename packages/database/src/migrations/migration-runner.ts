@@ -0,0 +1,659 @@
+/**
+ * 数据库迁移执行器
+ *
+ * @description 按版本执行和回滚迁移，记录迁移历史，并按租户隔离策略在所有租户模式或数据库上执行
+ *
+ * ## 业务规则
+ *
+ * ### 执行目标规则
+ * - 未配置隔离策略，或隔离级别为 NONE、ROW 时，只在共享连接上执行
+ * - SCHEMA 级别在每个租户模式上执行，模式不存在时自动创建，迁移语句中的表名解析到租户模式
+ * - DATABASE 级别通过租户连接工厂连接每个租户数据库执行，执行完成后关闭连接
+ * - 租户列表来自 listTenants，单次执行也可以通过 tenantIds 指定租户（如新租户开通）
+ * - 一个目标失败不影响其他目标，每个目标单独报告状态
+ *
+ * ### 执行规则
+ * - 每个目标的迁移在一个事务中执行，任何迁移失败时该目标的所有修改回滚
+ * - 迁移历史表记录版本、名称、校验和、执行时间和耗时，历史表不存在时自动创建
+ * - 已应用迁移的校验和与当前定义不一致时拒绝执行
+ * - 回滚按版本从大到小执行 down 步骤并删除历史记录，默认回滚最近一个迁移
+ *
+ * ### 并发规则
+ * - PostgreSQL 在事务中获取以历史表和模式为键的咨询锁，多个实例同时执行时依次进行，
+ *   后获得锁的实例看到已应用的迁移后不会重复执行
+ * - SQLite 的迁移事务以 BEGIN IMMEDIATE 开始，写锁本身保证互斥
+ *
+ * ### 试运行规则
+ * - 试运行不加锁、不开启事务，只读取迁移历史并返回将要执行的SQL语句
+ * - 函数步骤在记录执行器上运行，query 返回空列表
+ *
+ * @example
+ * ```typescript
+ * const runner = createMigrationRunner(migrations, {
+ *   connection,
+ *   isolationStrategy,
+ *   listTenants: () => tenantService.getActiveTenantIds(),
+ * });
+ *
+ * const report = await runner.migrate();
+ * if (report.failed > 0) {
+ *   console.error(report.targets.filter((t) => t.status === 'failed'));
+ * }
+ * ```
+ *
+ * @since 1.0.0
+ */
+
+/* eslint-disable no-console */
+import { createHash } from 'crypto';
+import { performance } from 'perf_hooks';
+import type { IDatabaseConnection, IExecuteResult } from '../interfaces';
+import {
+  DatabaseError,
+  DatabaseIsolationLevel,
+  DatabaseQueryError,
+} from '../interfaces';
+import type { DatabaseIsolationStrategy } from '../strategies/database-isolation.strategy';
+import type { IMigration, IMigrationExecutor } from './migration';
+import {
+  computeMigrationChecksum,
+  runMigrationStep,
+  sortMigrations,
+} from './migration';
+
+/**
+ * 默认迁移历史表名
+ */
+export const DEFAULT_MIGRATION_TABLE = 'schema_migrations';
+
+/**
+ * 迁移目标状态
+ */
+export type MigrationTargetStatus =
+  | 'up_to_date'
+  | 'pending'
+  | 'applied'
+  | 'rolled_back'
+  | 'failed';
+
+/**
+ * 单个迁移目标的执行结果
+ */
+export interface IMigrationTargetResult {
+  /** 目标名称：连接名称、租户模式名称或租户数据库名称 */
+  target: string;
+  /** 租户ID，共享连接为空 */
+  tenantId?: string;
+  /** 目标状态 */
+  status: MigrationTargetStatus;
+  /** 执行后的当前版本，没有已应用的迁移时为 null */
+  currentVersion: number | null;
+  /** 本次应用、回滚或待执行的迁移版本 */
+  versions: number[];
+  /** 试运行时将要执行的SQL语句 */
+  statements: string[];
+  /** 失败原因 */
+  error?: string;
+  /** 耗时（毫秒） */
+  duration: number;
+}
+
+/**
+ * 迁移执行报告
+ */
+export interface IMigrationReport {
+  /** 是否为试运行 */
+  dryRun: boolean;
+  /** 各目标的执行结果 */
+  targets: IMigrationTargetResult[];
+  /** 失败的目标数量 */
+  failed: number;
+  /** 总耗时（毫秒） */
+  duration: number;
+}
+
+/**
+ * 租户数据库连接工厂
+ *
+ * @param tenantId - 租户ID
+ * @param databaseName - 隔离策略生成的租户数据库名称
+ */
+export type TenantDatabaseConnectionFactory = (
+  tenantId: string,
+  databaseName: string,
+) => Promise<IDatabaseConnection> | IDatabaseConnection;
+
+/**
+ * 迁移执行器选项
+ */
+export interface IMigrationRunnerOptions {
+  /** 共享连接，SCHEMA 级别的租户模式也在该连接上 */
+  connection: IDatabaseConnection;
+  /** 租户隔离策略 */
+  isolationStrategy?: DatabaseIsolationStrategy;
+  /** 获取所有租户ID，SCHEMA 和 DATABASE 级别使用 */
+  listTenants?: () => Promise<string[]>;
+  /** 租户数据库连接工厂，DATABASE 级别必须提供 */
+  tenantConnectionFactory?: TenantDatabaseConnectionFactory;
+  /** 迁移历史表名，默认 schema_migrations */
+  tableName?: string;
+}
+
+/**
+ * 执行迁移选项
+ */
+export interface IMigrateOptions {
+  /** 试运行，只返回将要执行的SQL */
+  dryRun?: boolean;
+  /** 目标版本，只执行不大于该版本的迁移 */
+  to?: number;
+  /** 只在指定租户上执行 */
+  tenantIds?: string[];
+}
+
+/**
+ * 回滚迁移选项
+ */
+export interface IRollbackOptions {
+  /** 试运行，只返回将要执行的SQL */
+  dryRun?: boolean;
+  /** 目标版本，回滚所有大于该版本的迁移，优先于 steps */
+  to?: number;
+  /** 回滚最近的迁移数量，默认1 */
+  steps?: number;
+  /** 只在指定租户上回滚 */
+  tenantIds?: string[];
+}
+
+/**
+ * 迁移目标
+ */
+interface IMigrationTarget {
+  name: string;
+  tenantId?: string;
+  schema?: string;
+  connection?: IDatabaseConnection;
+  /** 连接由执行器创建，执行后关闭 */
+  owned: boolean;
+  /** 目标无法解析时的错误 */
+  error?: unknown;
+}
+
+/**
+ * 已应用的迁移记录
+ */
+interface IAppliedMigration {
+  version: number;
+  name: string;
+  checksum: string;
+}
+
+/**
+ * 迁移计划
+ */
+interface IMigrationPlan {
+  applied: IAppliedMigration[];
+  migrations: IMigration[];
+}
+
+/**
+ * 从迁移计划中选出本次执行的迁移
+ */
+type MigrationSelector = (plan: IMigrationPlan) => {
+  status: MigrationTargetStatus;
+  migrations: IMigration[];
+  direction: 'up' | 'down';
+};
+
+/**
+ * 引用标识符
+ */
+function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+/**
+ * 记录语句不执行的执行器，用于试运行
+ */
+class RecordingExecutor implements IMigrationExecutor {
+  readonly statements: string[] = [];
+
+  async query<T = unknown>(sql: string): Promise<T[]> {
+    this.statements.push(sql);
+    return [];
+  }
+
+  async execute(sql: string): Promise<IExecuteResult> {
+    this.statements.push(sql);
+    return { affectedRows: 0, executionTime: 0, success: true };
+  }
+}
+
+/**
+ * 数据库迁移执行器
+ */
+export class MigrationRunner {
+  private readonly migrations: IMigration[];
+  private readonly tableName: string;
+
+  constructor(
+    migrations: IMigration[],
+    private readonly options: IMigrationRunnerOptions,
+  ) {
+    this.migrations = sortMigrations(migrations);
+    this.tableName = options.tableName ?? DEFAULT_MIGRATION_TABLE;
+
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(this.tableName)) {
+      throw new DatabaseError(
+        `迁移历史表名无效: ${this.tableName}`,
+        'migration',
+        { tableName: this.tableName },
+      );
+    }
+    if (
+      this.getIsolationLevel() === DatabaseIsolationLevel.DATABASE &&
+      !options.tenantConnectionFactory
+    ) {
+      throw new DatabaseError('数据库级隔离需要提供租户连接工厂', 'migration', {
+        isolationLevel: DatabaseIsolationLevel.DATABASE,
+      });
+    }
+  }
+
+  /**
+   * 执行待执行的迁移
+   *
+   * @param options - 执行选项
+   * @returns 各目标的执行报告
+   */
+  async migrate(options: IMigrateOptions = {}): Promise<IMigrationReport> {
+    return this.run(options.tenantIds, !!options.dryRun, (plan) => {
+      const appliedVersions = new Set(plan.applied.map((m) => m.version));
+      return {
+        status: 'applied',
+        migrations: plan.migrations.filter(
+          (migration) =>
+            !appliedVersions.has(migration.version) &&
+            (options.to === undefined || migration.version <= options.to),
+        ),
+        direction: 'up',
+      };
+    });
+  }
+
+  /**
+   * 回滚已应用的迁移
+   *
+   * @param options - 回滚选项
+   * @returns 各目标的执行报告
+   */
+  async rollback(options: IRollbackOptions = {}): Promise<IMigrationReport> {
+    return this.run(options.tenantIds, !!options.dryRun, (plan) => {
+      const applied = [...plan.applied].reverse();
+      const reverting =
+        options.to !== undefined
+          ? applied.filter((m) => m.version > options.to!)
+          : applied.slice(0, options.steps ?? 1);
+
+      return {
+        status: 'rolled_back',
+        migrations: reverting.map((record) => {
+          const migration = plan.migrations.find(
+            (m) => m.version === record.version,
+          );
+          if (!migration) {
+            throw new DatabaseError(
+              `已应用的迁移不存在: ${record.version} ${record.name}`,
+              'migration',
+              { version: record.version },
+            );
+          }
+          if (!migration.down) {
+            throw new DatabaseError(
+              `迁移不支持回滚: ${migration.version} ${migration.name}`,
+              'migration',
+              { version: migration.version },
+            );
+          }
+          return migration;
+        }),
+        direction: 'down',
+      };
+    });
+  }
+
+  /**
+   * 获取各目标的迁移状态
+   *
+   * @param tenantIds - 只查询指定租户
+   * @returns 各目标的当前版本和待执行的迁移，不执行任何迁移
+   */
+  async status(tenantIds?: string[]): Promise<IMigrationReport> {
+    const report = await this.migrate({ dryRun: true, tenantIds });
+    for (const target of report.targets) {
+      target.statements = [];
+    }
+    return report;
+  }
+
+  /**
+   * 在所有目标上执行迁移计划
+   */
+  private async run(
+    tenantIds: string[] | undefined,
+    dryRun: boolean,
+    select: MigrationSelector,
+  ): Promise<IMigrationReport> {
+    const startTime = performance.now();
+    const targets = await this.resolveTargets(tenantIds);
+    const results: IMigrationTargetResult[] = [];
+
+    for (const target of targets) {
+      const targetStart = performance.now();
+      const result: IMigrationTargetResult = {
+        target: target.name,
+        tenantId: target.tenantId,
+        status: 'up_to_date',
+        currentVersion: null,
+        versions: [],
+        statements: [],
+        duration: 0,
+      };
+
+      try {
+        if (target.error) {
+          throw target.error;
+        }
+        await (dryRun
+          ? this.runDry(target, result, select)
+          : this.runInTransaction(target, result, select));
+      } catch (error) {
+        result.status = 'failed';
+        result.error = error instanceof Error ? error.message : String(error);
+        console.error(`数据库迁移失败: ${target.name}`, error);
+      } finally {
+        if (target.owned && target.connection) {
+          await target.connection.close().catch((error: unknown) => {
+            console.warn(`关闭租户数据库连接失败: ${target.name}`, error);
+          });
+        }
+      }
+
+      result.duration = performance.now() - targetStart;
+      results.push(result);
+    }
+
+    return {
+      dryRun,
+      targets: results,
+      failed: results.filter((r) => r.status === 'failed').length,
+      duration: performance.now() - startTime,
+    };
+  }
+
+  /**
+   * 在目标上加锁并在事务中执行迁移
+   */
+  private async runInTransaction(
+    target: IMigrationTarget,
+    result: IMigrationTargetResult,
+    select: MigrationSelector,
+  ): Promise<void> {
+    const connection = target.connection!;
+    const transaction = await connection.beginTransaction();
+
+    try {
+      if (connection.type === 'postgresql') {
+        await transaction.query('SELECT pg_advisory_xact_lock(?)', [
+          this.getLockKey(target),
+        ]);
+      }
+      if (target.schema) {
+        await transaction.execute(
+          `CREATE SCHEMA IF NOT EXISTS ${quoteIdentifier(target.schema)}`,
+        );
+        await transaction.execute(
+          `SET LOCAL search_path TO ${quoteIdentifier(target.schema)}`,
+        );
+      }
+      await transaction.execute(
+        `CREATE TABLE IF NOT EXISTS ${this.getHistoryTable(target)} (
+          version BIGINT PRIMARY KEY,
+          name VARCHAR(255) NOT NULL,
+          checksum VARCHAR(64) NOT NULL,
+          applied_at TIMESTAMP NOT NULL,
+          execution_time INTEGER NOT NULL
+        )`,
+      );
+
+      const applied = this.verifyChecksums(
+        await transaction.query<Record<string, unknown>>(
+          `SELECT version, name, checksum FROM ${this.getHistoryTable(target)} ORDER BY version`,
+        ),
+      );
+      const { status, migrations, direction } = select({
+        applied,
+        migrations: this.migrations,
+      });
+
+      for (const migration of migrations) {
+        const migrationStart = performance.now();
+        if (direction === 'up') {
+          await runMigrationStep(migration.up, transaction);
+          await transaction.execute(
+            `INSERT INTO ${this.getHistoryTable(target)} (version, name, checksum, applied_at, execution_time) VALUES (?, ?, ?, ?, ?)`,
+            [
+              migration.version,
+              migration.name,
+              computeMigrationChecksum(migration),
+              new Date(),
+              Math.round(performance.now() - migrationStart),
+            ],
+          );
+        } else {
+          await runMigrationStep(migration.down!, transaction);
+          await transaction.execute(
+            `DELETE FROM ${this.getHistoryTable(target)} WHERE version = ?`,
+            [migration.version],
+          );
+        }
+        console.log(
+          `${direction === 'up' ? '已应用' : '已回滚'}迁移: ${target.name} ${migration.version} ${migration.name}`,
+        );
+      }
+
+      await transaction.commit();
+
+      result.status = migrations.length > 0 ? status : 'up_to_date';
+      result.versions = migrations.map((m) => m.version);
+      result.currentVersion = this.getCurrentVersion(
+        applied,
+        migrations,
+        direction,
+      );
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+  }
+
+  /**
+   * 试运行：读取历史并记录将要执行的语句
+   */
+  private async runDry(
+    target: IMigrationTarget,
+    result: IMigrationTargetResult,
+    select: MigrationSelector,
+  ): Promise<void> {
+    let rows: Array<Record<string, unknown>> = [];
+    try {
+      rows = await target.connection!.query<Record<string, unknown>>(
+        `SELECT version, name, checksum FROM ${this.getHistoryTable(target)} ORDER BY version`,
+      );
+    } catch (error) {
+      // 历史表或租户模式还不存在，视为没有已应用的迁移
+      if (!(error instanceof DatabaseQueryError)) {
+        throw error;
+      }
+    }
+
+    const applied = this.verifyChecksums(rows);
+    const { migrations, direction } = select({
+      applied,
+      migrations: this.migrations,
+    });
+    const executor = new RecordingExecutor();
+    for (const migration of migrations) {
+      await runMigrationStep(
+        direction === 'up' ? migration.up : migration.down!,
+        executor,
+      );
+    }
+
+    result.status = migrations.length > 0 ? 'pending' : 'up_to_date';
+    result.versions = migrations.map((m) => m.version);
+    result.statements = executor.statements;
+    result.currentVersion = this.getCurrentVersion(applied, [], direction);
+  }
+
+  /**
+   * 解析迁移目标
+   */
+  private async resolveTargets(
+    tenantIds?: string[],
+  ): Promise<IMigrationTarget[]> {
+    const { connection, isolationStrategy, listTenants } = this.options;
+    const level = this.getIsolationLevel();
+
+    if (
+      !isolationStrategy ||
+      (level !== DatabaseIsolationLevel.SCHEMA &&
+        level !== DatabaseIsolationLevel.DATABASE)
+    ) {
+      return [{ name: connection.name, connection, owned: false }];
+    }
+
+    if (!tenantIds && !listTenants) {
+      throw new DatabaseError('租户级隔离需要提供租户列表', 'migration', {
+        isolationLevel: level,
+      });
+    }
+    const ids = tenantIds ?? (await listTenants!());
+
+    if (level === DatabaseIsolationLevel.SCHEMA) {
+      if (connection.type !== 'postgresql') {
+        throw new DatabaseError(
+          `模式级隔离不支持的数据库类型: ${connection.type}`,
+          'migration',
+          { isolationLevel: level, type: connection.type },
+        );
+      }
+      return ids.map((tenantId) => ({
+        name: isolationStrategy.getTenantSchemaName(tenantId),
+        tenantId,
+        schema: isolationStrategy.getTenantSchemaName(tenantId),
+        connection,
+        owned: false,
+      }));
+    }
+
+    const targets: IMigrationTarget[] = [];
+    for (const tenantId of ids) {
+      const databaseName = isolationStrategy.getTenantDatabaseName(tenantId);
+      try {
+        targets.push({
+          name: databaseName,
+          tenantId,
+          connection: await this.options.tenantConnectionFactory!(
+            tenantId,
+            databaseName,
+          ),
+          owned: true,
+        });
+      } catch (error) {
+        targets.push({ name: databaseName, tenantId, owned: false, error });
+      }
+    }
+    return targets;
+  }
+
+  /**
+   * 校验已应用迁移的校验和
+   */
+  private verifyChecksums(
+    rows: Array<Record<string, unknown>>,
+  ): IAppliedMigration[] {
+    const applied = rows.map((row) => ({
+      version: Number(row.version),
+      name: String(row.name),
+      checksum: String(row.checksum),
+    }));
+
+    for (const record of applied) {
+      const migration = this.migrations.find(
+        (m) => m.version === record.version,
+      );
+      if (
+        migration &&
+        computeMigrationChecksum(migration) !== record.checksum
+      ) {
+        throw new DatabaseError(
+          `迁移校验和不一致: ${record.version} ${record.name}`,
+          'migration',
+          { version: record.version, checksum: record.checksum },
+        );
+      }
+    }
+
+    return applied;
+  }
+
+  private getCurrentVersion(
+    applied: IAppliedMigration[],
+    migrations: IMigration[],
+    direction: 'up' | 'down',
+  ): number | null {
+    const changed = new Set(migrations.map((m) => m.version));
+    const versions =
+      direction === 'up'
+        ? [...applied.map((m) => m.version), ...changed]
+        : applied.map((m) => m.version).filter((v) => !changed.has(v));
+    return versions.length > 0 ? Math.max(...versions) : null;
+  }
+
+  private getHistoryTable(target: IMigrationTarget): string {
+    return target.schema
+      ? `${quoteIdentifier(target.schema)}.${this.tableName}`
+      : this.tableName;
+  }
+
+  /**
+   * 咨询锁键：历史表和模式的哈希，取48位保证是安全整数
+   */
+  private getLockKey(target: IMigrationTarget): number {
+    const hash = createHash('sha256')
+      .update(`${this.tableName}:${target.schema ?? ''}`)
+      .digest('hex');
+    return parseInt(hash.slice(0, 12), 16);
+  }
+
+  private getIsolationLevel(): DatabaseIsolationLevel {
+    return (
+      this.options.isolationStrategy?.getIsolationLevel() ??
+      DatabaseIsolationLevel.NONE
+    );
+  }
+}
+
+/**
+ * 创建数据库迁移执行器工厂函数
+ *
+ * @param migrations - 迁移列表，顺序无关
+ * @param options - 执行器选项
+ */
+export function createMigrationRunner(
+  migrations: IMigration[],
+  options: IMigrationRunnerOptions,
+): MigrationRunner {
+  return new MigrationRunner(migrations, options);
+}
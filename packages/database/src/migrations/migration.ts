@@ -0,0 +1,124 @@
+/**
+ * 数据库迁移定义
+ *
+ * @description 定义版本化的迁移、迁移步骤和校验和计算
+ *
+ * ## 业务规则
+ *
+ * ### 版本规则
+ * - 每个迁移有唯一的正整数版本号，按版本号从小到大执行，回滚时从大到小
+ * - 推荐使用时间戳作为版本号（如 20260101120000），避免多人开发时冲突
+ * - 已应用的迁移不应再修改，修改后校验和不一致，迁移会被拒绝执行
+ *
+ * ### 步骤规则
+ * - 迁移步骤可以是SQL语句列表，也可以是使用执行器的函数
+ * - 函数步骤只能通过执行器访问数据库，试运行时执行器只记录语句不执行
+ * - 没有 down 步骤的迁移不能回滚
+ *
+ * ### 校验和规则
+ * - 校验和基于 up 步骤计算：SQL语句列表取语句文本，函数取函数源码
+ * - 可以为迁移显式指定 checksum，函数源码会随编译输出变化时使用
+ *
+ * @since 1.0.0
+ */
+
+import { createHash } from 'crypto';
+import type { IExecuteResult } from '../interfaces';
+import { DatabaseError } from '../interfaces';
+
+/**
+ * 迁移执行器
+ *
+ * @description 迁移步骤访问数据库的唯一入口，实际执行时为迁移事务
+ */
+export interface IMigrationExecutor {
+  query<T = unknown>(sql: string, params?: unknown[]): Promise<T[]>;
+  execute(sql: string, params?: unknown[]): Promise<IExecuteResult>;
+}
+
+/**
+ * 迁移步骤
+ */
+export type MigrationStep =
+  | string[]
+  | ((executor: IMigrationExecutor) => Promise<void>);
+
+/**
+ * 数据库迁移
+ */
+export interface IMigration {
+  /** 版本号，正整数，决定执行顺序 */
+  version: number;
+  /** 迁移名称 */
+  name: string;
+  /** 升级步骤 */
+  up: MigrationStep;
+  /** 回滚步骤 */
+  down?: MigrationStep;
+  /** 校验和，未指定时根据 up 步骤计算 */
+  checksum?: string;
+}
+
+/**
+ * 计算迁移校验和
+ *
+ * @param migration - 迁移
+ * @returns SHA-256 十六进制字符串
+ */
+export function computeMigrationChecksum(migration: IMigration): string {
+  if (migration.checksum) {
+    return migration.checksum;
+  }
+
+  const source = Array.isArray(migration.up)
+    ? migration.up.join(';\n')
+    : migration.up.toString();
+  return createHash('sha256').update(source).digest('hex');
+}
+
+/**
+ * 在执行器上运行迁移步骤
+ */
+export async function runMigrationStep(
+  step: MigrationStep,
+  executor: IMigrationExecutor,
+): Promise<void> {
+  if (Array.isArray(step)) {
+    for (const sql of step) {
+      await executor.execute(sql);
+    }
+    return;
+  }
+  await step(executor);
+}
+
+/**
+ * 校验迁移列表并按版本排序
+ *
+ * @param migrations - 迁移列表
+ * @returns 按版本号升序排列的新列表
+ * @throws {DatabaseError} 版本号无效或重复时抛出
+ */
+export function sortMigrations(migrations: IMigration[]): IMigration[] {
+  const versions = new Set<number>();
+
+  for (const migration of migrations) {
+    if (!Number.isSafeInteger(migration.version) || migration.version <= 0) {
+      throw new DatabaseError(
+        `迁移版本号无效: ${migration.version}`,
+        'migration',
+        { version: migration.version, name: migration.name },
+      );
+    }
+    if (versions.has(migration.version)) {
+      throw new DatabaseError(
+        `迁移版本号重复: ${migration.version}`,
+        'migration',
+        { version: migration.version, name: migration.name },
+      );
+    }
+    versions.add(migration.version);
+  }
+
+  return [...migrations].sort((a, b) => a.version - b.version);
+}
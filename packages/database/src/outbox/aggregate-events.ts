@@ -0,0 +1,50 @@
+/**
+ * 聚合根事件转换
+ *
+ * @description 把Core模块聚合根中未提交的领域事件转换为数据库命令携带的事件
+ *
+ * ## 业务规则
+ *
+ * - 事件版本使用聚合根版本，发件箱按它和写入顺序保证同一聚合根的事件顺序
+ * - 事件的租户ID、发生时间和事件结构版本写入元数据
+ * - 聚合根类型默认取聚合根的类名，类名可能被压缩时应显式传入
+ *
+ * @since 1.0.0
+ */
+
+import type { BaseAggregateRoot } from '@aiofix/core';
+import type { IDomainEvent } from '../cqrs/cqrs-database-manager';
+
+/**
+ * 转换聚合根中未提交的领域事件
+ *
+ * @param aggregate - 聚合根
+ * @param aggregateType - 聚合根类型，默认为类名
+ * @returns 可以写入发件箱的事件
+ *
+ * @example
+ * ```typescript
+ * const command = new DatabaseCommand(sql, params, toDomainEvents(user, 'User'));
+ * await cqrsManager.executeCommand(command);
+ * user.clearUncommittedEvents();
+ * ```
+ */
+export function toDomainEvents(
+  aggregate: BaseAggregateRoot,
+  aggregateType: string = aggregate.constructor.name,
+): IDomainEvent[] {
+  return aggregate.uncommittedEvents.map((event) => ({
+    eventId: event.eventId.toString(),
+    aggregateId: event.aggregateId.toString(),
+    aggregateType,
+    eventType: event.eventType,
+    eventVersion: event.aggregateVersion,
+    eventData: event.eventData,
+    metadata: {
+      tenantId: event.tenantId,
+      occurredAt: event.occurredAt.toISOString(),
+      schemaVersion: event.eventVersion,
+    },
+    createdAt: event.occurredAt,
+  }));
+}
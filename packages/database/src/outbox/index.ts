@@ -0,0 +1,26 @@
+/**
+ * Database模块事务性发件箱导出
+ *
+ * @description 导出发件箱存储、中继和聚合根事件转换
+ *
+ * @since 1.0.0
+ */
+
+export {
+  SqlOutboxStore,
+  createSqlOutboxStore,
+  getOutboxTableDDL,
+  DEFAULT_OUTBOX_TABLE,
+} from './outbox-store';
+
+export type { IOutboxRecord, IOutboxStore } from './outbox-store';
+
+export { OutboxRelay, createOutboxRelay } from './outbox-relay';
+
+export type {
+  IOutboxPublisher,
+  IOutboxRelayOptions,
+  IOutboxRelayResult,
+} from './outbox-relay';
+
+export { toDomainEvents } from './aggregate-events';
@@ -0,0 +1,248 @@
+/**
+ * 发件箱中继
+ *
+ * @description 轮询发件箱中等待投递的事件，发布到消息层并清理已投递的事件
+ *
+ * ## 业务规则
+ *
+ * ### 投递规则
+ * - 至少一次投递：先发布再标记已投递，标记前崩溃会在重启后再次发布，消费方需要按事件ID去重
+ * - 同一聚合根的事件按序号依次发布，某个事件发布失败后，本轮跳过该聚合根后面的事件
+ * - 发布失败的事件按指数退避延迟重试，重试期间阻塞同一聚合根后面的事件
+ * - 一轮取满一批时立即开始下一轮，否则等待轮询间隔
+ *
+ * ### 清理规则
+ * - 按清理间隔删除超过保留期的已投递事件
+ * - 未投递的事件不会被清理
+ *
+ * ## 技术规则
+ *
+ * - 轮询不会重叠，上一轮结束后才安排下一轮
+ * - 停止时等待正在进行的一轮结束
+ *
+ * @since 1.0.0
+ */
+
+/* eslint-disable no-console */
+import type { IOutboxRecord, IOutboxStore } from './outbox-store';
+
+/**
+ * 发件箱事件发布者
+ */
+export interface IOutboxPublisher {
+  /**
+   * 发布事件，返回后视为已投递
+   */
+  publish(record: IOutboxRecord): Promise<void>;
+}
+
+/**
+ * 发件箱中继选项
+ */
+export interface IOutboxRelayOptions {
+  /** 每轮读取的最大事件数，默认100 */
+  batchSize?: number;
+  /** 轮询间隔（毫秒），默认1000 */
+  pollInterval?: number;
+  /** 首次重试延迟（毫秒），默认1000 */
+  retryDelay?: number;
+  /** 重试延迟上限（毫秒），默认60000 */
+  maxRetryDelay?: number;
+  /** 已投递事件的保留时间（毫秒），默认7天 */
+  retentionPeriod?: number;
+  /** 清理间隔（毫秒），默认1小时 */
+  cleanupInterval?: number;
+}
+
+/**
+ * 一轮中继的结果
+ */
+export interface IOutboxRelayResult {
+  /** 发布成功的事件数 */
+  delivered: number;
+  /** 发布失败的事件数 */
+  failed: number;
+  /** 因同一聚合根更早的事件失败而跳过的事件数 */
+  deferred: number;
+}
+
+const DEFAULT_RELAY_OPTIONS: Required<IOutboxRelayOptions> = {
+  batchSize: 100,
+  pollInterval: 1000,
+  retryDelay: 1000,
+  maxRetryDelay: 60000,
+  retentionPeriod: 7 * 24 * 60 * 60 * 1000,
+  cleanupInterval: 60 * 60 * 1000,
+};
+
+/**
+ * 发件箱中继
+ */
+export class OutboxRelay {
+  private readonly options: Required<IOutboxRelayOptions>;
+  private timer?: ReturnType<typeof globalThis.setTimeout>;
+  private running?: Promise<void>;
+  private started = false;
+  private lastCleanupAt = 0;
+
+  constructor(
+    private readonly store: IOutboxStore,
+    private readonly publisher: IOutboxPublisher,
+    options: IOutboxRelayOptions = {},
+  ) {
+    this.options = { ...DEFAULT_RELAY_OPTIONS, ...options };
+  }
+
+  /**
+   * 开始轮询
+   */
+  start(): void {
+    if (this.started) {
+      return;
+    }
+    this.started = true;
+    this.lastCleanupAt = Date.now();
+    this.schedule(0);
+    console.log('发件箱中继已启动:', {
+      batchSize: this.options.batchSize,
+      pollInterval: this.options.pollInterval,
+    });
+  }
+
+  /**
+   * 停止轮询，等待正在进行的一轮结束
+   */
+  async stop(): Promise<void> {
+    if (!this.started) {
+      return;
+    }
+    this.started = false;
+    globalThis.clearTimeout(this.timer);
+    this.timer = undefined;
+    await this.running;
+    console.log('发件箱中继已停止');
+  }
+
+  /**
+   * 发布一批等待投递的事件
+   *
+   * @returns 本轮的投递结果
+   */
+  async relayPending(): Promise<IOutboxRelayResult> {
+    const now = new Date();
+    const records = await this.store.fetchPending(this.options.batchSize, now);
+    const blocked = new Set<string>();
+    const result: IOutboxRelayResult = { delivered: 0, failed: 0, deferred: 0 };
+
+    for (const record of records) {
+      const aggregateKey = `${record.aggregateType}:${record.aggregateId}`;
+      if (blocked.has(aggregateKey)) {
+        result.deferred++;
+        continue;
+      }
+
+      try {
+        await this.publisher.publish(record);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        const availableAt = new Date(
+          now.getTime() + this.computeRetryDelay(record.attempts),
+        );
+        await this.store.markFailed(record.sequence, message, availableAt);
+        blocked.add(aggregateKey);
+        result.failed++;
+
+        console.warn('发件箱事件发布失败:', {
+          eventId: record.eventId,
+          eventType: record.eventType,
+          aggregate: aggregateKey,
+          attempts: record.attempts + 1,
+          nextAttemptAt: availableAt.toISOString(),
+          error: message,
+        });
+        continue;
+      }
+
+      await this.store.markDelivered(record.sequence, new Date());
+      result.delivered++;
+    }
+
+    return result;
+  }
+
+  /**
+   * 删除超过保留期的已投递事件
+   *
+   * @returns 删除的事件数量
+   */
+  async cleanup(): Promise<number> {
+    const before = new Date(Date.now() - this.options.retentionPeriod);
+    const deleted = await this.store.deleteDelivered(before);
+    this.lastCleanupAt = Date.now();
+
+    if (deleted > 0) {
+      console.log('已清理投递完成的发件箱事件:', {
+        deleted,
+        before: before.toISOString(),
+      });
+    }
+    return deleted;
+  }
+
+  // ==================== 私有方法 ====================
+
+  /**
+   * 安排下一轮轮询
+   */
+  private schedule(delay: number): void {
+    if (!this.started) {
+      return;
+    }
+    this.timer = globalThis.setTimeout(() => {
+      this.running = this.poll().finally(() => {
+        this.running = undefined;
+      });
+    }, delay);
+  }
+
+  /**
+   * 执行一轮投递和到期的清理
+   */
+  private async poll(): Promise<void> {
+    let batchFull = false;
+    try {
+      const result = await this.relayPending();
+      batchFull =
+        result.delivered + result.failed + result.deferred >=
+        this.options.batchSize;
+
+      if (Date.now() - this.lastCleanupAt >= this.options.cleanupInterval) {
+        await this.cleanup();
+      }
+    } catch (error) {
+      console.error('发件箱中继执行失败:', error);
+    }
+    this.schedule(batchFull ? 0 : this.options.pollInterval);
+  }
+
+  /**
+   * 计算第n次失败后的重试延迟
+   */
+  private computeRetryDelay(previousAttempts: number): number {
+    return Math.min(
+      this.options.maxRetryDelay,
+      this.options.retryDelay * Math.pow(2, previousAttempts),
+    );
+  }
+}
+
+/**
+ * 创建发件箱中继工厂函数
+ */
+export function createOutboxRelay(
+  store: IOutboxStore,
+  publisher: IOutboxPublisher,
+  options?: IOutboxRelayOptions,
+): OutboxRelay {
+  return new OutboxRelay(store, publisher, options);
+}
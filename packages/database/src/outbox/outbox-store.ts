@@ -0,0 +1,258 @@
+/**
+ * 事务性发件箱存储
+ *
+ * @description 把领域事件和业务数据写入同一个数据库事务，由中继进程异步投递
+ *
+ * ## 业务规则
+ *
+ * ### 写入规则
+ * - 事件必须通过业务命令所在的事务写入，事务回滚时事件一起回滚
+ * - 每个事件按写入顺序分配递增的序号，同一聚合根的事件按序号投递
+ * - 事件ID唯一，重复写入同一事件会使事务失败
+ *
+ * ### 读取规则
+ * - 只返回未投递且到达可投递时间的事件
+ * - 同一聚合根有更早的事件还在等待重试时，后面的事件不会返回
+ * - 已投递的事件保留到清理时间，之后可以删除
+ *
+ * ## 技术规则
+ *
+ * - SqlOutboxStore 使用PostgreSQL语法，表结构见 getOutboxTableDDL()
+ * - 事件数据和元数据以JSON保存，读取时还原日期字段
+ * - 同一张发件箱表只运行一个中继实例，多个实例会重复投递
+ *
+ * @since 1.0.0
+ */
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import type { IDatabaseConnection, ITransaction } from '../interfaces';
+import type { IDomainEvent } from '../cqrs/cqrs-database-manager';
+
+/**
+ * 发件箱记录
+ */
+export interface IOutboxRecord {
+  /** 写入序号，全局递增 */
+  sequence: number;
+  /** 事件ID */
+  eventId: string;
+  /** 租户ID */
+  tenantId?: string;
+  /** 聚合根类型 */
+  aggregateType: string;
+  /** 聚合根ID */
+  aggregateId: string;
+  /** 聚合根版本 */
+  aggregateVersion: number;
+  /** 事件类型 */
+  eventType: string;
+  /** 事件数据 */
+  payload: Record<string, unknown>;
+  /** 事件元数据 */
+  metadata: Record<string, unknown>;
+  /** 事件发生时间 */
+  occurredAt: Date;
+  /** 已尝试投递的次数 */
+  attempts: number;
+  /** 下一次可投递的时间 */
+  availableAt: Date;
+  /** 最近一次投递失败的原因 */
+  lastError?: string;
+  /** 投递完成时间 */
+  deliveredAt?: Date;
+}
+
+/**
+ * 发件箱存储接口
+ */
+export interface IOutboxStore {
+  /**
+   * 在业务事务中写入事件
+   */
+  append(events: IDomainEvent[], transaction: ITransaction): Promise<void>;
+
+  /**
+   * 获取等待投递的事件，按序号排序
+   */
+  fetchPending(limit: number, now: Date): Promise<IOutboxRecord[]>;
+
+  /**
+   * 标记事件已投递
+   */
+  markDelivered(sequence: number, deliveredAt: Date): Promise<void>;
+
+  /**
+   * 记录投递失败，事件在 availableAt 之后重新投递
+   */
+  markFailed(sequence: number, error: string, availableAt: Date): Promise<void>;
+
+  /**
+   * 删除指定时间之前投递完成的事件
+   *
+   * @returns 删除的事件数量
+   */
+  deleteDelivered(before: Date): Promise<number>;
+}
+
+/**
+ * 默认发件箱表名
+ */
+export const DEFAULT_OUTBOX_TABLE = 'event_outbox';
+
+/**
+ * 获取发件箱表的建表语句
+ *
+ * @param tableName - 表名
+ * @returns PostgreSQL建表和索引语句
+ */
+export function getOutboxTableDDL(tableName = DEFAULT_OUTBOX_TABLE): string[] {
+  return [
+    `CREATE TABLE IF NOT EXISTS ${tableName} (
+      sequence BIGSERIAL PRIMARY KEY,
+      event_id VARCHAR(64) NOT NULL UNIQUE,
+      tenant_id VARCHAR(64),
+      aggregate_type VARCHAR(128) NOT NULL,
+      aggregate_id VARCHAR(64) NOT NULL,
+      aggregate_version INTEGER NOT NULL,
+      event_type VARCHAR(255) NOT NULL,
+      payload JSONB NOT NULL,
+      metadata JSONB NOT NULL,
+      occurred_at TIMESTAMPTZ NOT NULL,
+      attempts INTEGER NOT NULL DEFAULT 0,
+      available_at TIMESTAMPTZ NOT NULL,
+      last_error TEXT,
+      delivered_at TIMESTAMPTZ
+    )`,
+    `CREATE INDEX IF NOT EXISTS ${tableName}_pending_idx
+      ON ${tableName} (aggregate_type, aggregate_id, sequence)
+      WHERE delivered_at IS NULL`,
+    `CREATE INDEX IF NOT EXISTS ${tableName}_delivered_idx
+      ON ${tableName} (delivered_at)
+      WHERE delivered_at IS NOT NULL`,
+  ];
+}
+
+/**
+ * 基于SQL的发件箱存储
+ */
+export class SqlOutboxStore implements IOutboxStore {
+  constructor(
+    private readonly connection: IDatabaseConnection,
+    private readonly tableName = DEFAULT_OUTBOX_TABLE,
+  ) {}
+
+  async append(
+    events: IDomainEvent[],
+    transaction: ITransaction,
+  ): Promise<void> {
+    if (events.length === 0) {
+      return;
+    }
+
+    const placeholders = events
+      .map(() => '(?, ?, ?, ?, ?, ?, ?, ?, ?, ?)')
+      .join(', ');
+    const params = events.flatMap((event) => [
+      event.eventId,
+      (event.metadata.tenantId as string | undefined) ??
+        transaction.tenantContext?.tenantId ??
+        null,
+      event.aggregateType,
+      event.aggregateId,
+      event.eventVersion,
+      event.eventType,
+      JSON.stringify(event.eventData),
+      JSON.stringify(event.metadata),
+      event.createdAt,
+      event.createdAt,
+    ]);
+
+    await transaction.execute(
+      `INSERT INTO ${this.tableName} (event_id, tenant_id, aggregate_type, aggregate_id, aggregate_version, event_type, payload, metadata, occurred_at, available_at) VALUES ${placeholders}`,
+      params,
+    );
+  }
+
+  async fetchPending(limit: number, now: Date): Promise<IOutboxRecord[]> {
+    const rows = await this.connection.query<Record<string, any>>(
+      `SELECT * FROM ${this.tableName} o
+        WHERE o.delivered_at IS NULL
+          AND o.available_at <= ?
+          AND NOT EXISTS (
+            SELECT 1 FROM ${this.tableName} earlier
+             WHERE earlier.aggregate_type = o.aggregate_type
+               AND earlier.aggregate_id = o.aggregate_id
+               AND earlier.delivered_at IS NULL
+               AND earlier.sequence < o.sequence
+               AND earlier.available_at > ?
+          )
+        ORDER BY o.sequence
+        LIMIT ?`,
+      [now, now, limit],
+    );
+    return rows.map((row) => this.toRecord(row));
+  }
+
+  async markDelivered(sequence: number, deliveredAt: Date): Promise<void> {
+    await this.connection.execute(
+      `UPDATE ${this.tableName} SET delivered_at = ?, attempts = attempts + 1, last_error = NULL WHERE sequence = ?`,
+      [deliveredAt, sequence],
+    );
+  }
+
+  async markFailed(
+    sequence: number,
+    error: string,
+    availableAt: Date,
+  ): Promise<void> {
+    await this.connection.execute(
+      `UPDATE ${this.tableName} SET attempts = attempts + 1, last_error = ?, available_at = ? WHERE sequence = ?`,
+      [error, availableAt, sequence],
+    );
+  }
+
+  async deleteDelivered(before: Date): Promise<number> {
+    const result = await this.connection.execute(
+      `DELETE FROM ${this.tableName} WHERE delivered_at IS NOT NULL AND delivered_at < ?`,
+      [before],
+    );
+    return result.affectedRows;
+  }
+
+  /**
+   * 把数据库行转换为发件箱记录
+   */
+  private toRecord(row: Record<string, any>): IOutboxRecord {
+    const parseJson = (value: unknown): Record<string, unknown> =>
+      typeof value === 'string'
+        ? JSON.parse(value)
+        : ((value as Record<string, unknown> | null) ?? {});
+
+    return {
+      sequence: Number(row.sequence),
+      eventId: row.event_id,
+      tenantId: row.tenant_id ?? undefined,
+      aggregateType: row.aggregate_type,
+      aggregateId: row.aggregate_id,
+      aggregateVersion: Number(row.aggregate_version),
+      eventType: row.event_type,
+      payload: parseJson(row.payload),
+      metadata: parseJson(row.metadata),
+      occurredAt: new Date(row.occurred_at),
+      attempts: Number(row.attempts),
+      availableAt: new Date(row.available_at),
+      lastError: row.last_error ?? undefined,
+      deliveredAt: row.delivered_at ? new Date(row.delivered_at) : undefined,
+    };
+  }
+}
+
+/**
+ * 创建SQL发件箱存储工厂函数
+ */
+export function createSqlOutboxStore(
+  connection: IDatabaseConnection,
+  tableName?: string,
+): SqlOutboxStore {
+  return new SqlOutboxStore(connection, tableName);
+}
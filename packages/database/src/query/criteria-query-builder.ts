@@ -0,0 +1,442 @@
+/**
+ * 查询条件SQL构建器
+ *
+ * @description 把 IQueryCriteria 和 IQueryOptions 编译为参数化SQL
+ *
+ * ## 业务规则
+ *
+ * ### 安全规则
+ * - 所有条件值、LIMIT 和 OFFSET 都作为参数传递，不拼接到SQL中
+ * - 表名、字段名和排序字段必须是合法标识符（字母、数字、下划线，表名可带模式前缀），
+ *   按方言加引号，否则抛出 DatabaseQueryError
+ * - 未知的操作符、非法的排序方向和分页参数抛出 DatabaseQueryError
+ * - 条件值或操作符的值为 undefined 时抛出 DatabaseQueryError，
+ *   避免缺失的值让条件被忽略而扩大查询范围；匹配空值使用 null 或 $isNull
+ *
+ * ### 方言规则
+ * - PostgreSQL、SQLite 使用双引号引用标识符，MySQL 使用反引号
+ * - $ilike 在 PostgreSQL 上使用 ILIKE，其他方言使用 LOWER(...) LIKE LOWER(?)
+ * - 只有 OFFSET 时，SQLite 和 MySQL 补充不限制条数的 LIMIT
+ * - 参数占位符统一为 `?`，由各驱动转换为原生写法
+ *
+ * ### 字段映射规则
+ * - 字段名通过 resolveColumn 映射为列名，用于把实体属性名转换为列名
+ *
+ * @example
+ * ```typescript
+ * const builder = createCriteriaQueryBuilder('postgresql');
+ * const { sql, params } = builder.select(
+ *   'users',
+ *   { status: { $in: ['active', 'pending'] }, deleted_at: null },
+ *   { select: ['id', 'name'], orderBy: { created_at: 'DESC' }, limit: 20 },
+ * );
+ * // SELECT "id", "name" FROM "users"
+ * //   WHERE "status" IN (?, ?) AND "deleted_at" IS NULL
+ * //   ORDER BY "created_at" DESC LIMIT ?
+ * ```
+ *
+ * @since 1.0.0
+ */
+
+import type {
+  FieldCondition,
+  IFieldOperators,
+  IQueryCriteria,
+  IQueryOptions,
+  QueryValue,
+} from '../interfaces';
+import { DatabaseQueryError } from '../interfaces';
+
+/**
+ * SQL方言
+ */
+export type SqlDialect = 'postgresql' | 'mysql' | 'sqlite';
+
+/**
+ * 编译后的查询
+ */
+export interface ICompiledQuery {
+  /** 使用 `?` 占位符的SQL */
+  sql: string;
+  /** 参数列表 */
+  params: unknown[];
+}
+
+/**
+ * 比较操作符对应的SQL运算符
+ */
+const COMPARISON_OPERATORS: Record<string, string> = {
+  $eq: '=',
+  $ne: '<>',
+  $gt: '>',
+  $gte: '>=',
+  $lt: '<',
+  $lte: '<=',
+  $like: 'LIKE',
+};
+
+/**
+ * 所有支持的字段操作符
+ */
+const FIELD_OPERATORS = new Set<keyof IFieldOperators>([
+  '$eq',
+  '$ne',
+  '$gt',
+  '$gte',
+  '$lt',
+  '$lte',
+  '$in',
+  '$nin',
+  '$like',
+  '$ilike',
+  '$isNull',
+]);
+
+/**
+ * 不限制条数的LIMIT，只有OFFSET时使用
+ */
+const UNLIMITED: Record<SqlDialect, string | undefined> = {
+  postgresql: undefined,
+  sqlite: '-1',
+  mysql: '18446744073709551615',
+};
+
+const IDENTIFIER_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * 查询条件SQL构建器
+ */
+export class CriteriaQueryBuilder {
+  constructor(
+    readonly dialect: SqlDialect,
+    private readonly resolveColumn: (field: string) => string = (field) =>
+      field,
+  ) {}
+
+  /**
+   * 构建SELECT查询
+   *
+   * @param table - 表名，可以带模式前缀
+   * @param criteria - 查询条件
+   * @param options - 投影、排序和分页选项
+   */
+  select(
+    table: string,
+    criteria: IQueryCriteria = {},
+    options: IQueryOptions = {},
+  ): ICompiledQuery {
+    const params: unknown[] = [];
+    const columns =
+      options.select && options.select.length > 0
+        ? options.select.map((field) => this.column(field)).join(', ')
+        : '*';
+
+    let sql = `SELECT ${columns} FROM ${this.table(table)}`;
+    sql += this.whereClause(criteria, params);
+    sql += this.orderByClause(options.orderBy);
+    sql += this.paginationClause(options, params);
+
+    return { sql, params };
+  }
+
+  /**
+   * 构建COUNT查询，结果列名为 count
+   *
+   * @param table - 表名，可以带模式前缀
+   * @param criteria - 查询条件
+   */
+  count(table: string, criteria: IQueryCriteria = {}): ICompiledQuery {
+    const params: unknown[] = [];
+    const sql = `SELECT COUNT(*) AS count FROM ${this.table(table)}${this.whereClause(criteria, params)}`;
+    return { sql, params };
+  }
+
+  /**
+   * 编译查询条件
+   *
+   * @param criteria - 查询条件
+   * @returns 不含 WHERE 关键字的条件表达式，没有条件时 sql 为空字符串
+   */
+  where(criteria: IQueryCriteria): ICompiledQuery {
+    const params: unknown[] = [];
+    return { sql: this.compileCriteria(criteria, params) ?? '', params };
+  }
+
+  // ==================== 私有方法 ====================
+
+  private whereClause(criteria: IQueryCriteria, params: unknown[]): string {
+    const condition = this.compileCriteria(criteria, params);
+    return condition ? ` WHERE ${condition}` : '';
+  }
+
+  /**
+   * 编译一层查询条件，多个条件以 AND 组合
+   */
+  private compileCriteria(
+    criteria: IQueryCriteria,
+    params: unknown[],
+  ): string | undefined {
+    const conditions: string[] = [];
+
+    for (const [key, value] of Object.entries(criteria)) {
+      if (value === undefined) {
+        throw new DatabaseQueryError(`查询条件 ${key} 的值不能为 undefined`, {
+          field: key,
+        });
+      }
+
+      if (key === '$and' || key === '$or') {
+        const group = this.compileGroup(key, value as IQueryCriteria[], params);
+        if (group) {
+          conditions.push(group);
+        }
+        continue;
+      }
+
+      if (key.startsWith('$')) {
+        throw new DatabaseQueryError(`不支持的逻辑操作符: ${key}`, {
+          operator: key,
+        });
+      }
+
+      conditions.push(
+        ...this.compileField(key, value as FieldCondition, params),
+      );
+    }
+
+    if (conditions.length === 0) {
+      return undefined;
+    }
+    return conditions.join(' AND ');
+  }
+
+  /**
+   * 编译 $and / $or 组合条件
+   */
+  private compileGroup(
+    operator: '$and' | '$or',
+    criteria: IQueryCriteria[],
+    params: unknown[],
+  ): string | undefined {
+    if (!Array.isArray(criteria)) {
+      throw new DatabaseQueryError(`${operator} 的值必须是条件列表`, {
+        operator,
+      });
+    }
+
+    // 空的 $or 不匹配任何记录，空的 $and 不限制
+    if (criteria.length === 0) {
+      return operator === '$or' ? '1 = 0' : undefined;
+    }
+
+    const groupParams: unknown[] = [];
+    const compiled = criteria.map((item) =>
+      this.compileCriteria(item, groupParams),
+    );
+    // 没有条件的子条件总是成立，$or 因此总是成立
+    if (operator === '$or' && compiled.includes(undefined)) {
+      return undefined;
+    }
+
+    const parts = compiled.filter((part): part is string => part !== undefined);
+    if (parts.length === 0) {
+      return undefined;
+    }
+    params.push(...groupParams);
+    const joined = parts.join(operator === '$and' ? ' AND ' : ' OR ');
+    return parts.length > 1 ? `(${joined})` : joined;
+  }
+
+  /**
+   * 编译字段条件
+   */
+  private compileField(
+    field: string,
+    condition: FieldCondition,
+    params: unknown[],
+  ): string[] {
+    const column = this.column(field);
+
+    if (!this.isOperators(condition)) {
+      return [this.compileComparison(column, '$eq', condition, params)];
+    }
+
+    const conditions: string[] = [];
+    for (const [operator, value] of Object.entries(condition)) {
+      if (value === undefined) {
+        throw new DatabaseQueryError(
+          `查询条件 ${field} 的 ${operator} 值不能为 undefined`,
+          { field, operator },
+        );
+      }
+      if (!FIELD_OPERATORS.has(operator as keyof IFieldOperators)) {
+        throw new DatabaseQueryError(`不支持的字段操作符: ${operator}`, {
+          field,
+          operator,
+        });
+      }
+
+      switch (operator) {
+        case '$in':
+        case '$nin':
+          conditions.push(
+            this.compileList(column, operator, value as QueryValue[], params),
+          );
+          break;
+
+        case '$isNull':
+          conditions.push(`${column} ${value ? 'IS NULL' : 'IS NOT NULL'}`);
+          break;
+
+        case '$ilike':
+          params.push(value);
+          conditions.push(
+            this.dialect === 'postgresql'
+              ? `${column} ILIKE ?`
+              : `LOWER(${column}) LIKE LOWER(?)`,
+          );
+          break;
+
+        default:
+          conditions.push(
+            this.compileComparison(
+              column,
+              operator,
+              value as QueryValue,
+              params,
+            ),
+          );
+      }
+    }
+
+    return conditions;
+  }
+
+  private compileComparison(
+    column: string,
+    operator: string,
+    value: QueryValue,
+    params: unknown[],
+  ): string {
+    if (value === null && (operator === '$eq' || operator === '$ne')) {
+      return `${column} ${operator === '$eq' ? 'IS NULL' : 'IS NOT NULL'}`;
+    }
+    params.push(value);
+    return `${column} ${COMPARISON_OPERATORS[operator]} ?`;
+  }
+
+  private compileList(
+    column: string,
+    operator: '$in' | '$nin',
+    values: QueryValue[],
+    params: unknown[],
+  ): string {
+    if (!Array.isArray(values)) {
+      throw new DatabaseQueryError(`${operator} 的值必须是数组`, {
+        column,
+        operator,
+      });
+    }
+    if (values.length === 0) {
+      return operator === '$in' ? '1 = 0' : '1 = 1';
+    }
+
+    params.push(...values);
+    const placeholders = values.map(() => '?').join(', ');
+    return `${column} ${operator === '$in' ? 'IN' : 'NOT IN'} (${placeholders})`;
+  }
+
+  private orderByClause(orderBy: IQueryOptions['orderBy']): string {
+    if (!orderBy || Object.keys(orderBy).length === 0) {
+      return '';
+    }
+
+    const clauses = Object.entries(orderBy).map(([field, direction]) => {
+      const normalized = String(direction).toUpperCase();
+      if (normalized !== 'ASC' && normalized !== 'DESC') {
+        throw new DatabaseQueryError(`排序方向无效: ${direction}`, {
+          field,
+          direction,
+        });
+      }
+      return `${this.column(field)} ${normalized}`;
+    });
+    return ` ORDER BY ${clauses.join(', ')}`;
+  }
+
+  private paginationClause(options: IQueryOptions, params: unknown[]): string {
+    const { limit, offset } = options;
+    let sql = '';
+
+    if (limit !== undefined) {
+      params.push(this.pageNumber('limit', limit));
+      sql += ' LIMIT ?';
+    }
+    if (offset !== undefined && offset !== 0) {
+      const unlimited = UNLIMITED[this.dialect];
+      if (limit === undefined && unlimited) {
+        sql += ` LIMIT ${unlimited}`;
+      }
+      params.push(this.pageNumber('offset', offset));
+      sql += ' OFFSET ?';
+    }
+
+    return sql;
+  }
+
+  private pageNumber(name: 'limit' | 'offset', value: number): number {
+    if (!Number.isSafeInteger(value) || value < 0) {
+      throw new DatabaseQueryError(`分页参数无效: ${name} = ${value}`, {
+        [name]: value,
+      });
+    }
+    return value;
+  }
+
+  private isOperators(condition: FieldCondition): condition is IFieldOperators {
+    return (
+      typeof condition === 'object' &&
+      condition !== null &&
+      !(condition instanceof Date)
+    );
+  }
+
+  /**
+   * 引用字段对应的列名
+   */
+  private column(field: string): string {
+    return this.quote(this.resolveColumn(field));
+  }
+
+  /**
+   * 引用表名，支持 schema.table
+   */
+  private table(table: string): string {
+    return table
+      .split('.')
+      .map((part) => this.quote(part))
+      .join('.');
+  }
+
+  private quote(identifier: string): string {
+    if (!IDENTIFIER_PATTERN.test(identifier)) {
+      throw new DatabaseQueryError(`标识符无效: ${identifier}`, {
+        identifier,
+      });
+    }
+    return this.dialect === 'mysql' ? `\`${identifier}\`` : `"${identifier}"`;
+  }
+}
+
+/**
+ * 创建查询条件SQL构建器工厂函数
+ *
+ * @param dialect - SQL方言
+ * @param resolveColumn - 字段名到列名的映射
+ */
+export function createCriteriaQueryBuilder(
+  dialect: SqlDialect,
+  resolveColumn?: (field: string) => string,
+): CriteriaQueryBuilder {
+  return new CriteriaQueryBuilder(dialect, resolveColumn);
+}
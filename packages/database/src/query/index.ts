@@ -0,0 +1,14 @@
+/**
+ * Database模块查询构建导出
+ *
+ * @description 导出查询条件SQL构建器
+ *
+ * @since 1.0.0
+ */
+
+export {
+  CriteriaQueryBuilder,
+  createCriteriaQueryBuilder,
+} from './criteria-query-builder';
+
+export type { ICompiledQuery, SqlDialect } from './criteria-query-builder';
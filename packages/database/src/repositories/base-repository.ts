@@ -24,8 +24,26 @@
  * - 自动处理读写分离
  * - 集成事件溯源支持
  *
+ * ### 查询规则
+ * - findById、findAll、findBy、count 把查询条件编译为参数化SQL，在上下文的连接上执行
+ * - 条件和排序中的字段名使用实体属性名，按列元数据映射为列名
+ * - 启用多租户且有租户上下文时自动限定当前租户，启用软删除时排除已删除的记录
+ * - findByTenant、countByTenant 必须有租户上下文，缺失时抛出 DatabaseQueryError，不退化为不限租户的查询
+ * - 未配置连接时抛出 DatabaseConnectionError，查询错误原样抛出
+ *
+ * ### 写入规则
+ * - save、delete、saveBatch 的语句经 applyTenantIsolation 改写后在上下文的连接上执行，
+ *   限定当前租户或写入租户列，写入错误原样抛出
+ * - save：实体有ID时先按ID更新（不修改ID、租户列和创建时间），没有匹配的记录时插入
+ * - delete：启用软删除时设置删除时间，否则删除记录；没有匹配的记录（不存在、已删除或属于其他租户）时返回 false
+ * - saveBatch：所有实体在一条多行 INSERT 中插入，列取各实体列的并集，缺少的值写入 NULL
+ *
  * ### 缓存集成规则
  * - 查询结果自动缓存
+ * - @Cacheable 方法通过上下文中的缓存服务的 getOrSet 读取和加载，
+ *   合并并发的未命中，支持软过期后台刷新和空结果缓存；未配置缓存服务时直接执行
+ * - 有租户上下文时缓存键带 `tenant:{tenantId}:` 前缀，与缓存失效总线在租户隔离级别下
+ *   解析失效目标的前缀一致，@CacheEvict 和 evictCache 的失效能命中这些键
  * - 写操作自动清除相关缓存
  * - 支持缓存预热和失效
  * - 多级缓存策略支持
@@ -36,18 +54,76 @@
 import { Injectable } from '@nestjs/common';
 import type { TenantContext } from '../interfaces';
 import type {
+  IDatabaseConnection,
+  IExecuteResult,
   IRepository,
   ITenantAwareRepository,
   IQueryOptions,
   IQueryCriteria,
 } from '../interfaces';
+import { DatabaseConnectionError, DatabaseQueryError } from '../interfaces';
+import type {
+  CriteriaQueryBuilder,
+  ICompiledQuery,
+} from '../query/criteria-query-builder';
+import { createCriteriaQueryBuilder } from '../query/criteria-query-builder';
+import { createTenantSqlRewriter } from '../isolation/tenant-sql-rewriter';
 import type { IEntityMetadata } from '../decorators/repository.decorators';
 import { DecoratorMetadataUtils } from '../decorators/repository.decorators';
 
+/**
+ * Repository缓存失效器
+ *
+ * @description 与@aiofix/cache的CacheInvalidationBus.invalidate签名一致，
+ * 用于把失效广播到所有实例
+ */
+export interface IRepositoryCacheInvalidator {
+  invalidate(
+    target: string,
+    options?: {
+      mode?: 'exact' | 'prefix' | 'pattern';
+      tenantContext?: TenantContext;
+    },
+  ): Promise<unknown>;
+}
+
+/**
+ * Repository缓存加载选项
+ */
+export interface IRepositoryCacheLoadOptions {
+  /** 硬过期时间（毫秒） */
+  ttl?: number;
+  /** 软过期时间（毫秒），超过后先返回旧值再在后台刷新 */
+  softTtl?: number;
+  /** 加载结果为空时的缓存时间（毫秒），不设置时不缓存空结果 */
+  negativeTtl?: number;
+}
+
+/**
+ * Repository缓存
+ *
+ * @description 与@aiofix/cache的ICacheService对应方法签名一致
+ */
+export interface IRepositoryCache {
+  get<V>(key: string): Promise<V | null>;
+  set<V>(key: string, value: V, options?: { ttl?: number }): Promise<boolean>;
+  getOrSet<V>(
+    key: string,
+    loader: () => Promise<V | null | undefined>,
+    options?: IRepositoryCacheLoadOptions,
+  ): Promise<V | null>;
+  evict(
+    target: string,
+    options?: { mode?: 'exact' | 'prefix' | 'pattern' },
+  ): Promise<number>;
+}
+
 /**
  * Repository执行上下文
  */
 export interface IRepositoryContext {
+  /** 数据库连接，查询在该连接上执行 */
+  connection?: IDatabaseConnection;
   /** 租户上下文 */
   tenantContext?: TenantContext;
   /** 连接名称 */
@@ -56,6 +132,10 @@ export interface IRepositoryContext {
   enableCache?: boolean;
   /** 事务ID */
   transactionId?: string;
+  /** 缓存失效器，未提供时只清除本实例缓存 */
+  cacheInvalidator?: IRepositoryCacheInvalidator;
+  /** 缓存服务，未提供时不缓存查询结果 */
+  cache?: IRepositoryCache;
 }
 
 /* eslint-disable no-console, @typescript-eslint/no-explicit-any */
@@ -101,38 +181,15 @@ export abstract class BaseRepository<T>
   async findById(id: string): Promise<T | null> {
     console.log(`Repository查找实体: ${this.entityClass.name}#${id}`);
 
-    try {
-      // 构建查询SQL
-      const sql = `SELECT * FROM ${this.getTableName()} WHERE id = ?`;
-      const params = [id];
-
-      // 应用租户隔离
-      const { isolatedSql, isolatedParams } = this.applyTenantIsolation(
-        sql,
-        params,
-      );
+    const rows = await this.executeQuery(
+      this.getQueryBuilder().select(
+        this.getTableName(),
+        this.applyDefaultCriteria({ id }),
+        { limit: 1 },
+      ),
+    );
 
-      // 模拟查询执行
-      console.log(`  查询SQL: ${isolatedSql}`);
-      console.log(`  查询参数:`, isolatedParams);
-
-      // 模拟返回结果
-      const mockResult = {
-        id,
-        [`${this.entityClass.name.toLowerCase()}_data`]: 'mock_data',
-        tenant_id: this.context.tenantContext?.tenantId || 'system',
-        created_at: new Date(),
-        updated_at: new Date(),
-      };
-
-      const entity = this.mapRowToEntity(mockResult);
-      console.log(`✅ 实体查找成功: ${this.entityClass.name}#${id}`);
-
-      return entity;
-    } catch (error) {
-      console.error(`❌ 实体查找失败: ${this.entityClass.name}#${id}`, error);
-      return null;
-    }
+    return rows.length > 0 ? this.mapRowToEntity(rows[0]) : null;
   }
 
   /**
@@ -144,43 +201,7 @@ export abstract class BaseRepository<T>
    * @returns 实体列表
    */
   async findAll(options?: IQueryOptions): Promise<T[]> {
-    console.log(`Repository查找所有: ${this.entityClass.name}`, options);
-
-    try {
-      // 构建查询SQL
-      let sql = `SELECT * FROM ${this.getTableName()}`;
-      const params: any[] = [];
-
-      // 应用排序
-      if (options?.orderBy) {
-        const orderClauses = Object.entries(options.orderBy)
-          .map(([column, direction]) => `${column} ${direction}`)
-          .join(', ');
-        sql += ` ORDER BY ${orderClauses}`;
-      }
-
-      // 应用分页
-      if (options?.limit) {
-        sql += ` LIMIT ${options.limit}`;
-        if (options.offset) {
-          sql += ` OFFSET ${options.offset}`;
-        }
-      }
-
-      // 应用租户隔离
-      const { isolatedSql } = this.applyTenantIsolation(sql, params);
-
-      console.log(`  查询SQL: ${isolatedSql}`);
-
-      // 模拟返回空结果
-      const entities: T[] = [];
-      console.log(`✅ 查找所有实体完成: ${entities.length} 条记录`);
-
-      return entities;
-    } catch (error) {
-      console.error(`❌ 查找所有实体失败: ${this.entityClass.name}`, error);
-      return [];
-    }
+    return this.findBy({}, options);
   }
 
   /**
@@ -189,7 +210,7 @@ export abstract class BaseRepository<T>
    * @description 根据指定条件查找实体
    *
    * @param criteria - 查询条件
-   * @param options - 查询选项
+   * @param options - 查询选项，支持投影、排序和分页
    * @returns 实体列表
    */
   async findBy(
@@ -201,114 +222,64 @@ export abstract class BaseRepository<T>
       options,
     });
 
-    try {
-      // 构建WHERE子句
-      const whereClauses: string[] = [];
-      const params: any[] = [];
-
-      for (const [field, value] of Object.entries(criteria)) {
-        whereClauses.push(`${field} = ?`);
-        params.push(value);
-      }
-
-      // 构建查询SQL
-      let sql = `SELECT * FROM ${this.getTableName()}`;
-      if (whereClauses.length > 0) {
-        sql += ` WHERE ${whereClauses.join(' AND ')}`;
-      }
-
-      // 应用租户隔离
-      const { isolatedSql, isolatedParams } = this.applyTenantIsolation(
-        sql,
-        params,
-      );
-
-      console.log(`  条件查询SQL: ${isolatedSql}`);
-      console.log(`  查询参数:`, isolatedParams);
-
-      // 模拟返回空结果
-      const entities: T[] = [];
-      console.log(`✅ 条件查找完成: ${entities.length} 条记录`);
+    const rows = await this.executeQuery(
+      this.getQueryBuilder().select(
+        this.getTableName(),
+        this.applyDefaultCriteria(criteria),
+        options,
+      ),
+    );
 
-      return entities;
-    } catch (error) {
-      console.error(`❌ 条件查找失败: ${this.entityClass.name}`, error);
-      return [];
-    }
+    return rows.map((row) => this.mapRowToEntity(row));
   }
 
   /**
    * 保存实体
    *
-   * @description 保存实体到数据库
+   * @description 实体有ID时先按ID更新，没有匹配的记录时插入
    *
    * @param entity - 实体实例
    */
   async save(entity: T): Promise<void> {
     console.log(`Repository保存实体: ${this.entityClass.name}`);
 
-    try {
-      // 提取实体数据
-      const entityData = this.extractEntityData(entity);
-
-      // 构建INSERT SQL
-      const columns = Object.keys(entityData);
-      const placeholders = columns.map(() => '?').join(', ');
-      const sql = `INSERT INTO ${this.getTableName()} (${columns.join(', ')}) VALUES (${placeholders})`;
-      const params = Object.values(entityData);
-
-      // 应用租户隔离
-      const { isolatedSql } = this.applyTenantIsolation(sql, params);
-
-      console.log(`  保存SQL: ${isolatedSql}`);
-
-      // 模拟保存执行
-      console.log(`✅ 实体保存成功: ${this.entityClass.name}`);
-    } catch (error) {
-      console.error(`❌ 实体保存失败: ${this.entityClass.name}`, error);
-      throw error;
+    const entityData = this.extractEntityData(entity);
+    if (entityData.id !== undefined && (await this.update(entityData))) {
+      return;
     }
+    await this.insert([entityData]);
   }
 
   /**
    * 删除实体
    *
-   * @description 根据ID删除实体
+   * @description 根据ID删除实体，启用软删除时设置删除时间
    *
    * @param id - 实体ID
-   * @returns 是否删除成功
+   * @returns 是否删除了记录
    */
   async delete(id: string): Promise<boolean> {
     console.log(`Repository删除实体: ${this.entityClass.name}#${id}`);
 
-    try {
-      // 构建DELETE SQL
-      const sql = this.entityMetadata.options.enableSoftDelete
-        ? `UPDATE ${this.getTableName()} SET ${this.entityMetadata.options.softDeleteColumn || 'deleted_at'} = ? WHERE id = ?`
-        : `DELETE FROM ${this.getTableName()} WHERE id = ?`;
-
-      const params = this.entityMetadata.options.enableSoftDelete
-        ? [new Date(), id]
-        : [id];
-
-      // 应用租户隔离
-      const { isolatedSql } = this.applyTenantIsolation(sql, params);
-
-      console.log(`  删除SQL: ${isolatedSql}`);
-
-      // 模拟删除执行
-      console.log(`✅ 实体删除成功: ${this.entityClass.name}#${id}`);
-      return true;
-    } catch (error) {
-      console.error(`❌ 实体删除失败: ${this.entityClass.name}#${id}`, error);
-      return false;
-    }
+    const softDeleteColumn =
+      this.entityMetadata.options.softDeleteColumn || 'deleted_at';
+    const { affectedRows } = this.entityMetadata.options.enableSoftDelete
+      ? await this.executeCommand(
+          `UPDATE ${this.getTableName()} SET ${softDeleteColumn} = ? WHERE id = ? AND ${softDeleteColumn} IS NULL`,
+          [new Date(), id],
+        )
+      : await this.executeCommand(
+          `DELETE FROM ${this.getTableName()} WHERE id = ?`,
+          [id],
+        );
+
+    return affectedRows > 0;
   }
 
   /**
    * 批量保存实体
    *
-   * @description 批量保存多个实体
+   * @description 在一条多行 INSERT 中插入多个实体
    *
    * @param entities - 实体列表
    */
@@ -321,30 +292,7 @@ export abstract class BaseRepository<T>
       return;
     }
 
-    try {
-      // 提取所有实体数据
-      const entitiesData = entities.map((entity) =>
-        this.extractEntityData(entity),
-      );
-
-      // 构建批量INSERT SQL
-      const columns = Object.keys(entitiesData[0]);
-      const placeholders = columns.map(() => '?').join(', ');
-      const valuesClauses = entities.map(() => `(${placeholders})`).join(', ');
-      const sql = `INSERT INTO ${this.getTableName()} (${columns.join(', ')}) VALUES ${valuesClauses}`;
-
-      // 展平参数
-      const params = entitiesData.flatMap((data) => Object.values(data));
-
-      console.log(`  批量保存SQL: ${sql.substring(0, 100)}...`);
-      console.log(`  参数数量: ${params.length}`);
-
-      // 模拟批量保存执行
-      console.log(`✅ 批量保存成功: ${entities.length} 个实体`);
-    } catch (error) {
-      console.error(`❌ 批量保存失败: ${this.entityClass.name}`, error);
-      throw error;
-    }
+    await this.insert(entities.map((entity) => this.extractEntityData(entity)));
   }
 
   /**
@@ -358,36 +306,14 @@ export abstract class BaseRepository<T>
   async count(criteria?: IQueryCriteria): Promise<number> {
     console.log(`Repository计数: ${this.entityClass.name}`, criteria);
 
-    try {
-      // 构建COUNT SQL
-      let sql = `SELECT COUNT(*) as count FROM ${this.getTableName()}`;
-      const params: any[] = [];
-
-      if (criteria) {
-        const whereClauses: string[] = [];
-        for (const [field, value] of Object.entries(criteria)) {
-          whereClauses.push(`${field} = ?`);
-          params.push(value);
-        }
-        if (whereClauses.length > 0) {
-          sql += ` WHERE ${whereClauses.join(' AND ')}`;
-        }
-      }
-
-      // 应用租户隔离
-      const { isolatedSql } = this.applyTenantIsolation(sql, params);
-
-      console.log(`  计数SQL: ${isolatedSql}`);
-
-      // 模拟返回计数
-      const count = Math.floor(Math.random() * 100); // 随机模拟数量
-      console.log(`✅ 实体计数完成: ${count} 条记录`);
+    const rows = await this.executeQuery(
+      this.getQueryBuilder().count(
+        this.getTableName(),
+        this.applyDefaultCriteria(criteria ?? {}),
+      ),
+    );
 
-      return count;
-    } catch (error) {
-      console.error(`❌ 实体计数失败: ${this.entityClass.name}`, error);
-      return 0;
-    }
+    return Number(rows[0]?.count ?? 0);
   }
 
   // ==================== 租户感知方法 ====================
@@ -404,12 +330,7 @@ export abstract class BaseRepository<T>
       criteria,
     });
 
-    // 自动添加租户条件
-    const tenantCriteria = {
-      ...criteria,
-      [this.entityMetadata.options.tenantIdColumn || 'tenant_id']:
-        this.context.tenantContext?.tenantId,
-    };
+    const tenantCriteria = this.withTenantCriteria(criteria);
 
     return this.findBy(tenantCriteria, options);
   }
@@ -470,12 +391,7 @@ export abstract class BaseRepository<T>
       criteria,
     });
 
-    // 自动添加租户条件
-    const tenantCriteria = {
-      ...criteria,
-      [this.entityMetadata.options.tenantIdColumn || 'tenant_id']:
-        this.context.tenantContext?.tenantId,
-    };
+    const tenantCriteria = this.withTenantCriteria(criteria);
 
     return this.count(tenantCriteria);
   }
@@ -484,31 +400,74 @@ export abstract class BaseRepository<T>
 
   /**
    * 检查缓存
+   *
+   * @returns 缓存值，未命中或未配置缓存服务时返回null
    */
   async checkCache(key: string): Promise<any> {
-    // 模拟缓存检查
     console.log(`检查缓存: ${key}`);
-    return null; // 简化实现，总是缓存未命中
+    return (await this.context.cache?.get(this.buildCacheKey(key))) ?? null;
   }
 
   /**
    * 设置缓存
    */
   async setCache(key: string, value: any, ttl: number): Promise<void> {
-    // 模拟缓存设置
     console.log(`设置缓存: ${key} (TTL: ${ttl}ms)`);
+    await this.context.cache?.set(this.buildCacheKey(key), value, { ttl });
+  }
+
+  /**
+   * 读取缓存，未命中时加载并写入
+   *
+   * @description 未配置缓存服务时直接加载
+   */
+  async getOrSetCache<V>(
+    key: string,
+    loader: () => Promise<V | null | undefined>,
+    options?: IRepositoryCacheLoadOptions,
+  ): Promise<V | null> {
+    if (!this.context.cache) {
+      return (await loader()) ?? null;
+    }
+    return this.context.cache.getOrSet(
+      this.buildCacheKey(key),
+      loader,
+      options,
+    );
   }
 
   /**
    * 清除缓存
+   *
+   * @description 配置了缓存失效器时按模式失效并广播到其他实例，
+   * 存在租户上下文时只失效当前租户的缓存；
+   * 未配置缓存失效器时只按模式失效上下文中缓存服务的键
    */
   async evictCache(pattern: string): Promise<void> {
-    // 模拟缓存清除
     console.log(`清除缓存: ${pattern}`);
+
+    if (this.context.cacheInvalidator) {
+      await this.context.cacheInvalidator.invalidate(pattern, {
+        mode: 'pattern',
+        tenantContext: this.context.tenantContext,
+      });
+      return;
+    }
+    await this.context.cache?.evict(this.buildCacheKey(pattern), {
+      mode: 'pattern',
+    });
   }
 
   // ==================== 受保护的方法 ====================
 
+  /**
+   * 生成缓存服务中的键，有租户上下文时加上租户前缀
+   */
+  protected buildCacheKey(key: string): string {
+    const tenantId = this.context.tenantContext?.tenantId;
+    return tenantId ? `tenant:${tenantId}:${key}` : key;
+  }
+
   /**
    * 获取表名
    */
@@ -523,8 +482,165 @@ export abstract class BaseRepository<T>
     return tableName;
   }
 
+  /**
+   * 为查询条件添加当前租户条件
+   *
+   * @throws {DatabaseQueryError} 没有租户上下文时抛出
+   */
+  protected withTenantCriteria(criteria?: IQueryCriteria): IQueryCriteria {
+    const tenantId = this.context.tenantContext?.tenantId;
+    if (!tenantId) {
+      throw new DatabaseQueryError(
+        `租户查询缺少租户上下文: ${this.entityClass.name}`,
+        { entity: this.entityClass.name },
+      );
+    }
+    return {
+      ...criteria,
+      [this.entityMetadata.options.tenantIdColumn || 'tenant_id']: tenantId,
+    };
+  }
+
+  /**
+   * 获取数据库连接
+   *
+   * @throws {DatabaseConnectionError} 上下文未配置连接时抛出
+   */
+  protected getConnection(): IDatabaseConnection {
+    if (!this.context.connection) {
+      throw new DatabaseConnectionError(
+        `Repository未配置数据库连接: ${this.entityClass.name}`,
+        { entity: this.entityClass.name },
+      );
+    }
+    return this.context.connection;
+  }
+
+  /**
+   * 获取与连接方言一致的查询构建器
+   */
+  protected getQueryBuilder(): CriteriaQueryBuilder {
+    const { type } = this.getConnection();
+    if (type !== 'postgresql' && type !== 'mysql' && type !== 'sqlite') {
+      throw new DatabaseConnectionError(
+        `Repository不支持的数据库类型: ${type}`,
+        { entity: this.entityClass.name, type },
+      );
+    }
+    return createCriteriaQueryBuilder(type, (field) =>
+      this.resolveColumnName(field),
+    );
+  }
+
+  /**
+   * 把实体属性名映射为列名
+   */
+  protected resolveColumnName(field: string): string {
+    const column = this.entityMetadata.columns.get(field);
+    if (column) {
+      return column.columnName;
+    }
+
+    const options = this.entityMetadata.options;
+    switch (field) {
+      case 'createdAt':
+        return options.createdAtColumn || 'created_at';
+      case 'updatedAt':
+        return options.updatedAtColumn || 'updated_at';
+      case 'tenantId':
+        return options.tenantIdColumn || 'tenant_id';
+      default:
+        return field;
+    }
+  }
+
+  /**
+   * 为查询条件加上租户和软删除限定
+   */
+  protected applyDefaultCriteria(criteria: IQueryCriteria): IQueryCriteria {
+    const options = this.entityMetadata.options;
+    const scopes: IQueryCriteria[] = [];
+
+    if (options.enableMultiTenant && this.context.tenantContext?.tenantId) {
+      scopes.push({
+        [options.tenantIdColumn || 'tenant_id']:
+          this.context.tenantContext.tenantId,
+      });
+    }
+    if (options.enableSoftDelete) {
+      scopes.push({ [options.softDeleteColumn || 'deleted_at']: null });
+    }
+
+    return scopes.length > 0 ? { $and: [criteria, ...scopes] } : criteria;
+  }
+
+  /**
+   * 在连接上执行编译后的查询
+   */
+  protected async executeQuery(query: ICompiledQuery): Promise<any[]> {
+    console.log(`  查询SQL: ${query.sql}`);
+    return this.getConnection().query(query.sql, query.params);
+  }
+
+  /**
+   * 应用租户隔离后在连接上执行写语句
+   */
+  protected async executeCommand(
+    sql: string,
+    params: any[],
+  ): Promise<IExecuteResult> {
+    const connection = this.getConnection();
+    const { isolatedSql, isolatedParams } = this.applyTenantIsolation(
+      sql,
+      params,
+    );
+    console.log(`  写入SQL: ${isolatedSql}`);
+    return connection.execute(isolatedSql, isolatedParams);
+  }
+
+  /**
+   * 插入实体数据，列取所有行的并集
+   */
+  protected async insert(rows: Array<Record<string, any>>): Promise<void> {
+    const columns = [...new Set(rows.flatMap((row) => Object.keys(row)))];
+    const placeholders = `(${columns.map(() => '?').join(', ')})`;
+
+    await this.executeCommand(
+      `INSERT INTO ${this.getTableName()} (${columns.join(', ')}) VALUES ${rows.map(() => placeholders).join(', ')}`,
+      rows.flatMap((row) => columns.map((column) => row[column] ?? null)),
+    );
+  }
+
+  /**
+   * 按ID更新实体数据，不修改ID、租户列和创建时间
+   *
+   * @returns 是否更新了记录
+   */
+  protected async update(data: Record<string, any>): Promise<boolean> {
+    const options = this.entityMetadata.options;
+    const immutable = new Set([
+      'id',
+      options.tenantIdColumn || 'tenant_id',
+      options.createdAtColumn || 'created_at',
+    ]);
+    const columns = Object.keys(data).filter(
+      (column) => !immutable.has(column),
+    );
+    if (columns.length === 0) {
+      return false;
+    }
+
+    const { affectedRows } = await this.executeCommand(
+      `UPDATE ${this.getTableName()} SET ${columns.map((column) => `${column} = ?`).join(', ')} WHERE id = ?`,
+      [...columns.map((column) => data[column]), data.id],
+    );
+    return affectedRows > 0;
+  }
+
   /**
    * 应用租户隔离
+   *
+   * @description 解析语句注入租户条件或写入租户列，无法安全改写的语句抛出 DatabaseQueryError
    */
   protected applyTenantIsolation(
     sql: string,
@@ -540,22 +656,10 @@ export abstract class BaseRepository<T>
       return { isolatedSql: sql, isolatedParams: params };
     }
 
-    // 添加租户过滤条件
-    const tenantColumn =
-      this.entityMetadata.options.tenantIdColumn || 'tenant_id';
-
-    if (sql.toLowerCase().includes('where')) {
-      const isolatedSql = sql.replace(
-        /WHERE/i,
-        `WHERE ${tenantColumn} = ? AND`,
-      );
-      const isolatedParams = [this.context.tenantContext.tenantId, ...params];
-      return { isolatedSql, isolatedParams };
-    } else {
-      const isolatedSql = sql + ` WHERE ${tenantColumn} = ?`;
-      const isolatedParams = [...params, this.context.tenantContext.tenantId];
-      return { isolatedSql, isolatedParams };
-    }
+    const isolated = createTenantSqlRewriter({
+      tenantIdColumn: this.entityMetadata.options.tenantIdColumn || 'tenant_id',
+    }).rewrite(sql, params, this.context.tenantContext.tenantId);
+    return { isolatedSql: isolated.sql, isolatedParams: isolated.params };
   }
 
   /**
@@ -605,12 +709,11 @@ export abstract class BaseRepository<T>
       data.id = (entity as any).id;
     }
 
-    // 添加时间戳
+    // 添加时间戳，创建时间只在插入时写入
     if (this.entityMetadata.options.enableTimestamps) {
       const now = new Date();
-      if (!(entity as any).id) {
-        data[this.entityMetadata.options.createdAtColumn || 'created_at'] = now;
-      }
+      data[this.entityMetadata.options.createdAtColumn || 'created_at'] =
+        (entity as any).createdAt ?? now;
       data[this.entityMetadata.options.updatedAtColumn || 'updated_at'] = now;
     }
 
@@ -42,4 +42,9 @@ export {
   createRepository,
 } from './base-repository';
 
-export type { IRepositoryContext } from './base-repository';
+export type {
+  IRepositoryContext,
+  IRepositoryCacheInvalidator,
+  IRepositoryCache,
+  IRepositoryCacheLoadOptions,
+} from './base-repository';
@@ -15,7 +15,7 @@
  * ### 数据隔离规则
  * - 严格的租户数据隔离，防止跨租户数据泄露
  * - 支持多种隔离级别（数据库、模式、行级）
- * - 自动注入租户标识符到查询中
+ * - 自动注入租户标识符到查询中，行级隔离下无法安全改写的语句被拒绝
  *
  * ### 权限验证规则
  * - 每个操作都经过租户权限验证
@@ -95,21 +95,21 @@ export class TenantAwareDatabaseService implements ITenantAwareDatabaseService {
     await this.validateTenantAccess(sql, tenantContext);
 
     // 应用租户隔离
-    const isolatedSql = this.isolationStrategy.isolateQuery(sql, tenantContext);
-    const isolatedParams = this.isolationStrategy.isolateParams(
+    const isolated = this.isolationStrategy.isolate(
+      sql,
       params || [],
       tenantContext,
     );
 
     console.log(`租户查询 [${tenantContext?.tenantId || 'system'}]:`, {
       originalSql: sql,
-      isolatedSql,
-      params: isolatedParams,
+      isolatedSql: isolated.sql,
+      params: isolated.params,
     });
 
     return this.baseDatabaseService.query<T>(
-      isolatedSql,
-      isolatedParams,
+      isolated.sql,
+      isolated.params,
       options,
     );
   }
@@ -135,21 +135,21 @@ export class TenantAwareDatabaseService implements ITenantAwareDatabaseService {
     await this.validateTenantAccess(sql, tenantContext);
 
     // 应用租户隔离
-    const isolatedSql = this.isolationStrategy.isolateQuery(sql, tenantContext);
-    const isolatedParams = this.isolationStrategy.isolateParams(
+    const isolated = this.isolationStrategy.isolate(
+      sql,
       params || [],
       tenantContext,
     );
 
     console.log(`租户命令 [${tenantContext?.tenantId || 'system'}]:`, {
       originalSql: sql,
-      isolatedSql,
-      params: isolatedParams,
+      isolatedSql: isolated.sql,
+      params: isolated.params,
     });
 
     return this.baseDatabaseService.execute(
-      isolatedSql,
-      isolatedParams,
+      isolated.sql,
+      isolated.params,
       options,
     );
   }
@@ -234,11 +234,11 @@ export class TenantAwareDatabaseService implements ITenantAwareDatabaseService {
     return {
       entityClass,
       tenantContext,
-      find: async (criteria: any) => {
+      find: async (criteria: unknown): Promise<T[]> => {
         console.log(`租户仓储查询 [${tenantContext?.tenantId}]:`, criteria);
         return [];
       },
-      save: async (entity: T) => {
+      save: async (entity: T): Promise<void> => {
         console.log(`租户仓储保存 [${tenantContext?.tenantId}]:`, entity);
       },
     };
@@ -269,19 +269,15 @@ export class TenantAwareDatabaseService implements ITenantAwareDatabaseService {
     await this.validateTenantAccess(sql, context);
 
     // 应用租户隔离
-    const isolatedSql = this.isolationStrategy.isolateQuery(sql, context);
-    const isolatedParams = this.isolationStrategy.isolateParams(
-      params || [],
-      context,
-    );
+    const isolated = this.isolationStrategy.isolate(sql, params || [], context);
 
     console.log(`指定租户查询 [${context.tenantId}]:`, {
       originalSql: sql,
-      isolatedSql,
-      params: isolatedParams,
+      isolatedSql: isolated.sql,
+      params: isolated.params,
     });
 
-    return this.baseDatabaseService.query<T>(isolatedSql, isolatedParams);
+    return this.baseDatabaseService.query<T>(isolated.sql, isolated.params);
   }
 
   /**
@@ -309,19 +305,15 @@ export class TenantAwareDatabaseService implements ITenantAwareDatabaseService {
     await this.validateTenantAccess(sql, context);
 
     // 应用租户隔离
-    const isolatedSql = this.isolationStrategy.isolateQuery(sql, context);
-    const isolatedParams = this.isolationStrategy.isolateParams(
-      params || [],
-      context,
-    );
+    const isolated = this.isolationStrategy.isolate(sql, params || [], context);
 
     console.log(`指定租户命令 [${context.tenantId}]:`, {
       originalSql: sql,
-      isolatedSql,
-      params: isolatedParams,
+      isolatedSql: isolated.sql,
+      params: isolated.params,
     });
 
-    return this.baseDatabaseService.execute(isolatedSql, isolatedParams);
+    return this.baseDatabaseService.execute(isolated.sql, isolated.params);
   }
 
   /**
@@ -427,6 +419,17 @@ export class TenantAwareDatabaseService implements ITenantAwareDatabaseService {
     return result;
   }
 
+  /**
+   * 获取带租户列的表
+   *
+   * @description 与 cleanupTenantData 逐表删除的表相同
+   *
+   * @returns 隔离策略配置的 tenantTables
+   */
+  getTenantTables(): string[] {
+    return this.isolationStrategy.getTenantTables();
+  }
+
   // ==================== 私有方法 ====================
 
   /**
@@ -471,27 +474,21 @@ export class TenantAwareDatabaseService implements ITenantAwareDatabaseService {
       tenantContext,
 
       query: async <T>(sql: string, params?: any[]): Promise<T[]> => {
-        const isolatedSql = this.isolationStrategy.isolateQuery(
+        const isolated = this.isolationStrategy.isolate(
           sql,
-          tenantContext,
-        );
-        const isolatedParams = this.isolationStrategy.isolateParams(
           params || [],
           tenantContext,
         );
-        return baseTransaction.query<T>(isolatedSql, isolatedParams);
+        return baseTransaction.query<T>(isolated.sql, isolated.params);
       },
 
       execute: async (sql: string, params?: any[]): Promise<IExecuteResult> => {
-        const isolatedSql = this.isolationStrategy.isolateQuery(
+        const isolated = this.isolationStrategy.isolate(
           sql,
-          tenantContext,
-        );
-        const isolatedParams = this.isolationStrategy.isolateParams(
           params || [],
           tenantContext,
         );
-        return baseTransaction.execute(isolatedSql, isolatedParams);
+        return baseTransaction.execute(isolated.sql, isolated.params);
       },
     };
   }
@@ -9,13 +9,14 @@
  * ### 隔离级别规则
  * - **DATABASE级别**：每个租户使用独立的数据库
  * - **SCHEMA级别**：共享数据库，每个租户使用独立的模式
- * - **ROW级别**：共享表结构，通过租户ID字段进行数据隔离
+ * - **ROW级别**：共享表结构，通过租户ID字段进行数据隔离，
+ *   由 TenantSqlRewriter 解析语句注入租户条件或写入租户列，无法安全改写的语句被拒绝
  * - **NONE级别**：无隔离，适用于系统级数据
  *
  * ### 安全规则
  * - 所有数据操作必须经过租户权限验证
  * - 跨租户数据访问被严格禁止
- * - 租户数据清理必须彻底且不可恢复
+ * - 租户数据清理必须彻底且不可恢复，清理语句通过构造时传入的连接真实执行
  *
  * ### 性能规则
  * - 隔离策略应该最小化性能影响
@@ -31,9 +32,12 @@ import type {
   IDatabaseIsolationStrategy,
   ICleanupResult,
   IDatabaseConnection,
+  IIsolatedQuery,
 } from '../interfaces';
 
 import { DatabaseIsolationLevel } from '../interfaces';
+import type { TenantSqlRewriter } from '../isolation/tenant-sql-rewriter';
+import { createTenantSqlRewriter } from '../isolation/tenant-sql-rewriter';
 
 /**
  * 数据库隔离配置接口
@@ -49,6 +53,27 @@ export interface IDatabaseIsolationConfig {
   tenantIdColumn: string;
   /** 是否启用严格模式 */
   strictMode: boolean;
+  /** 行级隔离时没有租户列的共享表，访问这些表的语句不改写 */
+  sharedTables?: string[];
+  /** 行级隔离时带租户列的表，清理租户数据时逐表删除 */
+  tenantTables?: string[];
+}
+
+/**
+ * 执行清理语句的连接
+ */
+export type IsolationCleanupConnection = Pick<
+  IDatabaseConnection,
+  'query' | 'execute'
+>;
+
+/**
+ * 单类清理的统计
+ */
+interface ICleanupCounts {
+  totalRecords: number;
+  deletedRecords: number;
+  failedRecords: number;
 }
 
 /**
@@ -56,7 +81,50 @@ export interface IDatabaseIsolationConfig {
  */
 @Injectable()
 export class DatabaseIsolationStrategy implements IDatabaseIsolationStrategy {
-  constructor(private readonly config: IDatabaseIsolationConfig) {}
+  private readonly rewriter: TenantSqlRewriter;
+
+  constructor(
+    private readonly config: IDatabaseIsolationConfig,
+    private readonly connection?: IsolationCleanupConnection,
+  ) {
+    this.rewriter = createTenantSqlRewriter({
+      tenantIdColumn: config.tenantIdColumn,
+      sharedTables: config.sharedTables,
+    });
+  }
+
+  /**
+   * 隔离SQL语句和参数
+   *
+   * @description 根据隔离策略同时改写SQL和参数
+   *
+   * ## 业务逻辑
+   *
+   * ### 无租户上下文
+   * - 严格模式下拒绝，否则作为系统级语句原样返回
+   *
+   * ### ROW级别隔离
+   * - SELECT、UPDATE、DELETE 注入租户条件，INSERT 写入或校验租户列
+   * - 租户参数插入到与占位符对应的位置
+   * - 无法安全改写的语句抛出 DatabaseQueryError
+   *
+   * ### 其他级别
+   * - 与 isolateQuery 相同，参数不变
+   *
+   * @param sql - 原始SQL语句
+   * @param params - 原始参数列表
+   * @param context - 租户上下文
+   * @returns 隔离后的SQL和参数
+   */
+  isolate(sql: string, params: any[], context: TenantContext): IIsolatedQuery {
+    if (
+      context?.tenantId &&
+      this.config.strategy === DatabaseIsolationLevel.ROW
+    ) {
+      return this.rewriter.rewrite(sql, params || [], context.tenantId);
+    }
+    return { sql: this.isolateQuery(sql, context), params: params || [] };
+  }
 
   /**
    * 隔离SQL查询
@@ -77,6 +145,8 @@ export class DatabaseIsolationStrategy implements IDatabaseIsolationStrategy {
    * - 自动添加租户ID过滤条件
    * - 在WHERE子句中注入 tenant_id = ?
    *
+   * @deprecated 与 isolateParams 分开调用时无法确定租户参数的位置，请使用 isolate
+   *
    * @param sql - 原始SQL查询
    * @param context - 租户上下文
    * @returns 隔离后的SQL查询
@@ -98,7 +168,7 @@ export class DatabaseIsolationStrategy implements IDatabaseIsolationStrategy {
         return this.applySchemaIsolation(sql, context);
 
       case DatabaseIsolationLevel.ROW:
-        return this.applyRowLevelIsolation(sql, context);
+        return this.rewriter.rewrite(sql, [], context.tenantId).sql;
 
       case DatabaseIsolationLevel.NONE:
       default:
@@ -111,6 +181,8 @@ export class DatabaseIsolationStrategy implements IDatabaseIsolationStrategy {
    *
    * @description 根据隔离策略修改查询参数
    *
+   * @deprecated 只有租户参数位于最后时才与 isolateQuery 的结果匹配，请使用 isolate
+   *
    * @param params - 原始查询参数
    * @param context - 租户上下文
    * @returns 隔离后的查询参数
@@ -156,6 +228,44 @@ export class DatabaseIsolationStrategy implements IDatabaseIsolationStrategy {
     } as IDatabaseConnection;
   }
 
+  /**
+   * 获取隔离级别
+   */
+  getIsolationLevel(): DatabaseIsolationLevel {
+    return this.config.strategy;
+  }
+
+  /**
+   * 获取租户模式名称
+   *
+   * @param tenantId - 租户ID
+   * @returns 格式：{tenantSchemaPrefix}{tenantId}
+   */
+  getTenantSchemaName(tenantId: string): string {
+    return `${this.config.tenantSchemaPrefix}${tenantId}`;
+  }
+
+  /**
+   * 获取租户数据库名称
+   *
+   * @param tenantId - 租户ID
+   * @returns 格式：{tenantDatabasePrefix}{tenantId}
+   */
+  getTenantDatabaseName(tenantId: string): string {
+    return `${this.config.tenantDatabasePrefix}${tenantId}`;
+  }
+
+  /**
+   * 获取带租户列的表
+   *
+   * @description 清理租户数据时逐表删除的表，导出租户数据时应该使用同一份列表
+   *
+   * @returns 配置的 tenantTables，未配置时为空数组
+   */
+  getTenantTables(): string[] {
+    return [...(this.config.tenantTables ?? [])];
+  }
+
   /**
    * 验证租户数据访问权限
    *
@@ -209,9 +319,12 @@ export class DatabaseIsolationStrategy implements IDatabaseIsolationStrategy {
    * ## 业务规则
    *
    * ### 清理策略
-   * - **DATABASE级别**：删除整个租户数据库
-   * - **SCHEMA级别**：删除租户模式及其所有对象
-   * - **ROW级别**：删除所有包含租户ID的记录
+   * - **DATABASE级别**：DROP DATABASE 删除整个租户数据库，连接不能是租户数据库本身
+   * - **SCHEMA级别**：DROP SCHEMA ... CASCADE 删除租户模式及其所有对象
+   * - **ROW级别**：在租户上下文中对 tenantTables 的每张表执行 DELETE，
+   *   删除前统计租户记录数，某张表删除失败时其记录计入 failedRecords
+   * - 模式和数据库整体删除，不统计记录数
+   * - 未配置连接或行级隔离未配置 tenantTables 时清理失败，不返回虚假的统计
    *
    * ### 安全保障
    * - 清理操作不可逆，需要确认
@@ -230,21 +343,22 @@ export class DatabaseIsolationStrategy implements IDatabaseIsolationStrategy {
 
     try {
       console.log(`开始清理租户数据: ${tenantId}`);
+      const connection = this.requireCleanupConnection();
 
       switch (this.config.strategy) {
         case DatabaseIsolationLevel.DATABASE:
           ({ totalRecords, deletedRecords, failedRecords } =
-            await this.cleanupTenantDatabase(tenantId));
+            await this.cleanupTenantDatabase(connection, tenantId));
           break;
 
         case DatabaseIsolationLevel.SCHEMA:
           ({ totalRecords, deletedRecords, failedRecords } =
-            await this.cleanupTenantSchema(tenantId));
+            await this.cleanupTenantSchema(connection, tenantId));
           break;
 
         case DatabaseIsolationLevel.ROW:
           ({ totalRecords, deletedRecords, failedRecords } =
-            await this.cleanupTenantRows(tenantId));
+            await this.cleanupTenantRows(connection, tenantId, errors));
           break;
 
         default:
@@ -290,7 +404,7 @@ export class DatabaseIsolationStrategy implements IDatabaseIsolationStrategy {
    * 应用模式级隔离
    */
   private applySchemaIsolation(sql: string, context: TenantContext): string {
-    const tenantSchema = `${this.config.tenantSchemaPrefix}${context.tenantId}`;
+    const tenantSchema = this.getTenantSchemaName(context.tenantId);
 
     // 简化的表名替换实现
     // 实际实现需要更复杂的SQL解析
@@ -301,33 +415,6 @@ export class DatabaseIsolationStrategy implements IDatabaseIsolationStrategy {
       .replace(/\bUPDATE\s+(\w+)/gi, `UPDATE ${tenantSchema}.$1`);
   }
 
-  /**
-   * 应用行级隔离
-   */
-  private applyRowLevelIsolation(sql: string, context: TenantContext): string {
-    const tenantFilter = ` AND ${this.config.tenantIdColumn} = ?`;
-
-    // 简化的WHERE子句注入实现
-    // 实际实现需要更复杂的SQL解析
-    if (sql.toLowerCase().includes('where')) {
-      return sql.replace(/\bWHERE\b/i, `WHERE${tenantFilter.substring(4)} AND`);
-    } else {
-      // 如果没有WHERE子句，添加一个
-      const insertIndex = sql
-        .toLowerCase()
-        .search(/\b(group by|having|order by|limit|offset|;|$)/);
-      if (insertIndex !== -1) {
-        return (
-          sql.substring(0, insertIndex) +
-          ` WHERE ${this.config.tenantIdColumn} = ?` +
-          sql.substring(insertIndex)
-        );
-      } else {
-        return sql + ` WHERE ${this.config.tenantIdColumn} = ?`;
-      }
-    }
-  }
-
   /**
    * 检查是否为系统级查询
    */
@@ -360,7 +447,7 @@ export class DatabaseIsolationStrategy implements IDatabaseIsolationStrategy {
     sql: string,
     context: TenantContext,
   ): boolean {
-    const expectedPrefix = `${this.config.tenantSchemaPrefix}${context.tenantId}`;
+    const expectedPrefix = this.getTenantSchemaName(context.tenantId);
 
     // 简化的表名验证实现
     // 实际实现需要更复杂的SQL解析
@@ -372,61 +459,117 @@ export class DatabaseIsolationStrategy implements IDatabaseIsolationStrategy {
     return sql.includes(expectedPrefix);
   }
 
+  /**
+   * 获取执行清理语句的连接
+   */
+  private requireCleanupConnection(): IsolationCleanupConnection {
+    if (!this.connection) {
+      throw new Error('未配置执行清理语句的数据库连接');
+    }
+    return this.connection;
+  }
+
   /**
    * 清理租户数据库
    */
-  private async cleanupTenantDatabase(tenantId: string): Promise<{
-    totalRecords: number;
-    deletedRecords: number;
-    failedRecords: number;
-  }> {
-    // 模拟数据库级清理
-    console.log(
-      `清理租户数据库: ${this.config.tenantDatabasePrefix}${tenantId}`,
+  private async cleanupTenantDatabase(
+    connection: IsolationCleanupConnection,
+    tenantId: string,
+  ): Promise<ICleanupCounts> {
+    const database = this.getTenantDatabaseName(tenantId);
+    console.log(`清理租户数据库: ${database}`);
+
+    await connection.execute(
+      `DROP DATABASE IF EXISTS ${quoteIdentifier(database)}`,
     );
-
-    return {
-      totalRecords: 1000,
-      deletedRecords: 1000,
-      failedRecords: 0,
-    };
+    return { totalRecords: 0, deletedRecords: 0, failedRecords: 0 };
   }
 
   /**
    * 清理租户模式
    */
-  private async cleanupTenantSchema(tenantId: string): Promise<{
-    totalRecords: number;
-    deletedRecords: number;
-    failedRecords: number;
-  }> {
-    // 模拟模式级清理
-    console.log(`清理租户模式: ${this.config.tenantSchemaPrefix}${tenantId}`);
-
-    return {
-      totalRecords: 800,
-      deletedRecords: 800,
-      failedRecords: 0,
-    };
+  private async cleanupTenantSchema(
+    connection: IsolationCleanupConnection,
+    tenantId: string,
+  ): Promise<ICleanupCounts> {
+    const schema = this.getTenantSchemaName(tenantId);
+    console.log(`清理租户模式: ${schema}`);
+
+    await connection.execute(
+      `DROP SCHEMA IF EXISTS ${quoteIdentifier(schema)} CASCADE`,
+    );
+    return { totalRecords: 0, deletedRecords: 0, failedRecords: 0 };
   }
 
   /**
    * 清理租户行数据
    */
-  private async cleanupTenantRows(tenantId: string): Promise<{
-    totalRecords: number;
-    deletedRecords: number;
-    failedRecords: number;
-  }> {
-    // 模拟行级清理
+  private async cleanupTenantRows(
+    connection: IsolationCleanupConnection,
+    tenantId: string,
+    errors: string[],
+  ): Promise<ICleanupCounts> {
+    const tables = this.config.tenantTables ?? [];
+    if (tables.length === 0) {
+      throw new Error('行级隔离清理需要配置 tenantTables');
+    }
     console.log(`清理租户行数据: ${this.config.tenantIdColumn} = ${tenantId}`);
 
-    return {
-      totalRecords: 500,
-      deletedRecords: 490,
-      failedRecords: 10,
+    const counts: ICleanupCounts = {
+      totalRecords: 0,
+      deletedRecords: 0,
+      failedRecords: 0,
     };
+    for (const table of tables) {
+      let tableRecords = 0;
+      try {
+        const count = this.rewriteForTenant(
+          `SELECT COUNT(*) AS count FROM ${table}`,
+          tenantId,
+        );
+        const [row] = await connection.query<{ count: number | string }>(
+          count.sql,
+          count.params,
+        );
+        tableRecords = Number(row?.count ?? 0);
+        counts.totalRecords += tableRecords;
+
+        const deletion = this.rewriteForTenant(
+          `DELETE FROM ${table}`,
+          tenantId,
+        );
+        const { affectedRows } = await connection.execute(
+          deletion.sql,
+          deletion.params,
+        );
+        counts.deletedRecords += affectedRows;
+      } catch (error) {
+        counts.failedRecords += Math.max(tableRecords, 1);
+        errors.push(
+          `${table}: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    }
+    return counts;
   }
+
+  /**
+   * 把清理语句改写为只作用于租户的语句，没有加上租户条件时拒绝执行
+   */
+  private rewriteForTenant(sql: string, tenantId: string): IIsolatedQuery {
+    const isolated = this.rewriter.rewrite(sql, [], tenantId);
+    if (isolated.params.length === 0) {
+      throw new Error(`清理语句没有租户条件，拒绝执行: ${sql}`);
+    }
+    return isolated;
+  }
+}
+
+/**
+ * 转义标识符
+ */
+function quoteIdentifier(identifier: string): string {
+  return `"${identifier.replace(/"/g, '""')}"`;
 }
 
 /**
@@ -435,12 +578,14 @@ export class DatabaseIsolationStrategy implements IDatabaseIsolationStrategy {
  * @description 根据配置创建相应的隔离策略实例
  *
  * @param config - 隔离配置
+ * @param connection - 执行清理语句的连接
  * @returns 隔离策略实例
  */
 export function createDatabaseIsolationStrategy(
   config: IDatabaseIsolationConfig,
+  connection?: IsolationCleanupConnection,
 ): DatabaseIsolationStrategy {
-  return new DatabaseIsolationStrategy(config);
+  return new DatabaseIsolationStrategy(config, connection);
 }
 
 /**
@@ -33,7 +33,9 @@ module.exports = {
   moduleNameMapper: {
     '^@aiofix/core$': '<rootDir>/../core/src/index.ts',
     '^@aiofix/logging$': '<rootDir>/../logging/src/index.ts',
+    '^uuid$': '<rootDir>/src/__mocks__/uuid.js',
   },
+  transformIgnorePatterns: ['node_modules/(?!(uuid)/)'],
   testTimeout: 10000,
   verbose: true,
 };
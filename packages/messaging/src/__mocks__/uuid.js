@@ -0,0 +1,18 @@
+/**
+ * UUID mock for Jest testing
+ * 解决uuid ESM模块导入问题，使用Node内置的randomUUID生成合法的v4 UUID
+ */
+
+const { randomUUID } = require('crypto');
+
+const v4 = () => randomUUID();
+
+module.exports = {
+  v4,
+  default: v4,
+  validate: (value) =>
+    /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(
+      value,
+    ),
+  version: (value) => parseInt(value.charAt(14), 16),
+};
@@ -0,0 +1,582 @@
+/**
+ * 简化Bull队列适配器测试
+ *
+ * @description 使用内存实现的Bull队列替身验证消息投递、并发、统计、租户上下文恢复、重试退避和死信队列
+ *
+ * Bull依赖Redis Lua脚本中的cmsgpack，ioredis-mock不支持，因此替身只实现适配器用到的队列接口
+ *
+ * @since 1.0.0
+ */
+
+import { randomUUID } from 'crypto';
+import type Bull from 'bull';
+import { EntityId, TenantContextManager } from '@aiofix/core';
+import { SimpleBullQueueAdapter } from '../simple-bull-queue.adapter';
+import {
+  IMessage,
+  IMessageHandler,
+  MessagePriority,
+  MessageStatus,
+  MessageType,
+} from '../../interfaces/messaging.interface';
+import type { IMessagingLoggerService } from '../../interfaces/messaging-logger.interface';
+
+type JobState = 'waiting' | 'delayed' | 'active' | 'completed' | 'failed';
+
+/**
+ * 内存任务
+ */
+interface IInMemoryJob {
+  id: string;
+  name: string;
+  data: unknown;
+  opts: Bull.JobOptions;
+  attemptsMade: number;
+  state: JobState;
+  update(data: unknown): Promise<void>;
+  remove(): Promise<void>;
+}
+
+/**
+ * 内存Bull队列替身，按Bull的语义处理命名任务、优先级、延迟、退避重试和并发
+ */
+class InMemoryBullQueue {
+  readonly jobs: IInMemoryJob[] = [];
+  readonly retryDelays: number[] = [];
+  readonly client = { ping: jest.fn().mockResolvedValue('PONG') };
+  maxActive = 0;
+  closed = false;
+
+  private processor?: (job: IInMemoryJob) => Promise<unknown>;
+  private concurrency = 1;
+  private active = 0;
+  private readonly timers = new Set<ReturnType<typeof globalThis.setTimeout>>();
+
+  constructor(
+    readonly name: string,
+    private readonly options: Bull.QueueOptions = {},
+  ) {}
+
+  async isReady(): Promise<this> {
+    return this;
+  }
+
+  process(
+    name: string,
+    concurrency: number,
+    processor: (job: IInMemoryJob) => Promise<unknown>,
+  ): Promise<void> {
+    expect(name).toBe('*');
+    this.processor = processor;
+    this.concurrency = concurrency;
+    this.drain();
+    return new Promise(() => undefined);
+  }
+
+  async add(
+    name: string,
+    data: unknown,
+    opts: Bull.JobOptions,
+  ): Promise<IInMemoryJob> {
+    const job: IInMemoryJob = {
+      id: String(opts.jobId),
+      name,
+      data,
+      opts,
+      attemptsMade: 0,
+      state: 'waiting',
+      update: async (update) => {
+        job.data = update;
+      },
+      remove: async () => {
+        this.jobs.splice(this.jobs.indexOf(job), 1);
+      },
+    };
+    this.jobs.push(job);
+    this.schedule(job, opts.delay ?? 0);
+    return job;
+  }
+
+  async getJob(jobId: string): Promise<IInMemoryJob | null> {
+    return this.jobs.find((job) => job.id === jobId) ?? null;
+  }
+
+  async count(): Promise<number> {
+    return this.jobs.filter((job) => job.state === 'waiting').length;
+  }
+
+  async getJobCounts(): Promise<Bull.JobCounts> {
+    const count = (state: JobState): number =>
+      this.jobs.filter((job) => job.state === state).length;
+    return {
+      waiting: count('waiting'),
+      active: count('active'),
+      completed: count('completed'),
+      failed: count('failed'),
+      delayed: count('delayed'),
+    };
+  }
+
+  async getJobs(states: string[]): Promise<IInMemoryJob[]> {
+    return this.jobs.filter((job) => states.includes(job.state));
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+    this.timers.forEach((timer) => globalThis.clearTimeout(timer));
+  }
+
+  private schedule(job: IInMemoryJob, delay: number): void {
+    if (delay <= 0) {
+      job.state = 'waiting';
+      this.drain();
+      return;
+    }
+    job.state = 'delayed';
+    const timer = globalThis.setTimeout(() => {
+      this.timers.delete(timer);
+      if (this.jobs.includes(job)) {
+        job.state = 'waiting';
+        this.drain();
+      }
+    }, delay);
+    this.timers.add(timer);
+  }
+
+  private backoff(job: IInMemoryJob, error: Error): number {
+    const type = (job.opts.backoff as Bull.BackoffOptions | undefined)?.type;
+    const strategy = type && this.options.settings?.backoffStrategies?.[type];
+    return strategy ? strategy(job.attemptsMade, error) : 0;
+  }
+
+  private drain(): void {
+    while (this.processor && !this.closed && this.active < this.concurrency) {
+      const job = this.jobs
+        .filter((candidate) => candidate.state === 'waiting')
+        .sort((a, b) => (a.opts.priority ?? 0) - (b.opts.priority ?? 0))[0];
+      if (!job) {
+        return;
+      }
+      void this.run(job);
+    }
+  }
+
+  private async run(job: IInMemoryJob): Promise<void> {
+    job.state = 'active';
+    this.active++;
+    this.maxActive = Math.max(this.maxActive, this.active);
+    let retryDelay = -1;
+    try {
+      await this.processor!(job);
+      job.state = 'completed';
+    } catch (error) {
+      job.attemptsMade++;
+      if (job.attemptsMade < (job.opts.attempts ?? 1)) {
+        retryDelay = this.backoff(job, error as Error);
+      }
+      job.state = 'failed';
+    } finally {
+      this.active--;
+    }
+    if (job.state === 'failed' && retryDelay !== -1) {
+      this.retryDelays.push(retryDelay);
+      this.schedule(job, retryDelay);
+      return;
+    }
+    this.drain();
+  }
+}
+
+const silentLogger: IMessagingLoggerService = {
+  info: jest.fn(),
+  debug: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+} as unknown as IMessagingLoggerService;
+
+const waitFor = async (condition: () => boolean): Promise<void> => {
+  for (let i = 0; i < 100 && !condition(); i++) {
+    await new Promise((resolve) => globalThis.setTimeout(resolve, 5));
+  }
+  expect(condition()).toBe(true);
+};
+
+const createMessage = (
+  topic: string,
+  overrides: Partial<IMessage> = {},
+): IMessage => ({
+  id: EntityId.fromString(randomUUID()),
+  type: MessageType.EVENT,
+  topic,
+  payload: { value: topic },
+  priority: MessagePriority.NORMAL,
+  status: MessageStatus.PENDING,
+  tenantId: 'tenant-1',
+  senderId: 'spec',
+  createdAt: new Date(),
+  retryCount: 0,
+  maxRetries: 0,
+  metadata: {},
+  headers: {},
+  ...overrides,
+});
+
+const createHandler = (
+  topic: string,
+  handle: (message: IMessage) => Promise<void> = async () => undefined,
+  priority = 0,
+): IMessageHandler & { handle: jest.Mock } => ({
+  name: `handler-${topic}-${priority}`,
+  supportedMessageTypes: [MessageType.EVENT],
+  supportedTopics: [topic],
+  handle: jest.fn(handle),
+  canHandle: (message) => message.topic === topic,
+  getPriority: () => priority,
+  onFailure: jest.fn().mockResolvedValue(undefined),
+  onSuccess: jest.fn().mockResolvedValue(undefined),
+});
+
+describe('SimpleBullQueueAdapter', () => {
+  let queue: InMemoryBullQueue;
+  let deadLetterQueue: InMemoryBullQueue | undefined;
+  let adapter: SimpleBullQueueAdapter;
+
+  const startAdapter = async (
+    config: Partial<
+      ConstructorParameters<typeof SimpleBullQueueAdapter>[0]
+    > = {},
+  ): Promise<void> => {
+    adapter = new SimpleBullQueueAdapter(
+      {
+        name: 'spec-queue',
+        queueFactory: (name, options) => {
+          const created = new InMemoryBullQueue(name, options);
+          if (name === 'spec-queue') {
+            queue = created;
+          } else {
+            deadLetterQueue = created;
+          }
+          return created as unknown as Bull.Queue;
+        },
+        ...config,
+      },
+      silentLogger,
+    );
+    await adapter.start();
+  };
+
+  beforeEach(() => {
+    deadLetterQueue = undefined;
+  });
+
+  afterEach(async () => {
+    await adapter.stop();
+  });
+
+  it('应该把消息投递给订阅主题的处理器', async () => {
+    await startAdapter();
+    const handler = createHandler('user.created');
+    const other = createHandler('order.created');
+    await adapter.subscribe('user.created', handler);
+    await adapter.subscribe('order.created', other);
+
+    const message = createMessage('user.created');
+    await adapter.send(message);
+    await waitFor(() => handler.handle.mock.calls.length === 1);
+
+    const delivered = handler.handle.mock.calls[0][0] as IMessage;
+    expect(delivered.id.equals(message.id)).toBe(true);
+    expect(delivered.payload).toEqual({ value: 'user.created' });
+    expect(delivered.createdAt).toEqual(message.createdAt);
+    expect(message.status).toBe(MessageStatus.SENT);
+    expect(handler.onSuccess).toHaveBeenCalled();
+    expect(other.handle).not.toHaveBeenCalled();
+  });
+
+  it('应该按配置的并发数处理消息', async () => {
+    await startAdapter({ concurrency: 2 });
+    let release!: () => void;
+    const blocked = new Promise<void>((resolve) => (release = resolve));
+    const handler = createHandler('report', () => blocked);
+    await adapter.subscribe('report', handler);
+
+    await adapter.sendBatch([
+      createMessage('report'),
+      createMessage('report'),
+      createMessage('report'),
+    ]);
+    await waitFor(() => handler.handle.mock.calls.length === 2);
+    expect((await adapter.getStatistics()).processingMessages).toBe(2);
+    expect((await adapter.getStatistics()).pendingMessages).toBe(1);
+
+    release();
+    await waitFor(() => handler.handle.mock.calls.length === 3);
+    expect(queue.maxActive).toBe(2);
+  });
+
+  it('应该在调用处理器前恢复消息中的租户上下文', async () => {
+    await startAdapter({ enableTenantIsolation: true });
+    let seenTenant: string | undefined;
+    const handler = createHandler('audit', async () => {
+      seenTenant = TenantContextManager.getCurrentTenantId();
+    });
+    await adapter.subscribe('audit', handler);
+
+    await TenantContextManager.run('tenant-42', () =>
+      adapter.send(createMessage('audit')),
+    );
+    await waitFor(() => handler.handle.mock.calls.length === 1);
+
+    expect(seenTenant).toBe('tenant-42');
+    expect(TenantContextManager.getCurrentTenant()).toBeUndefined();
+  });
+
+  it('处理失败时应该重试并记录失败统计', async () => {
+    await startAdapter({ retryPolicy: { initialDelay: 1, jitter: 0 } });
+    const handler = createHandler('payment', async () => {
+      throw new Error('下游不可用');
+    });
+    await adapter.subscribe('payment', handler);
+    await adapter.subscribe('ledger', createHandler('ledger'));
+
+    await adapter.send(createMessage('payment', { maxRetries: 1 }));
+    await adapter.send(createMessage('ledger'));
+    await waitFor(() => queue.jobs.every((job) => job.state !== 'waiting'));
+
+    expect(handler.handle).toHaveBeenCalledTimes(2);
+    expect(handler.onFailure).toHaveBeenCalledTimes(2);
+    const stats = await adapter.getStatistics();
+    expect(stats).toMatchObject({
+      totalMessages: 2,
+      completedMessages: 1,
+      failedMessages: 1,
+      errorRate: 0.5,
+    });
+  });
+
+  it('应该按优先级从高到低调用处理器，并把消息优先级映射为Bull优先级', async () => {
+    await startAdapter();
+    const calls: string[] = [];
+    await adapter.subscribe(
+      'alert',
+      createHandler('alert', async () => void calls.push('low'), 1),
+    );
+    await adapter.subscribe(
+      'alert',
+      createHandler('alert', async () => void calls.push('high'), 10),
+    );
+
+    await adapter.send(createMessage('alert'), {
+      priority: MessagePriority.CRITICAL,
+    });
+    await waitFor(() => calls.length === 2);
+
+    expect(calls).toEqual(['high', 'low']);
+    expect(queue.jobs[0].opts.priority).toBe(1);
+  });
+
+  it('没有处理器或消息过期时不应该调用处理器', async () => {
+    await startAdapter();
+    const handler = createHandler('stale');
+    await adapter.subscribe('stale', handler);
+
+    await adapter.send(
+      createMessage('stale', { expiresAt: new Date(Date.now() - 1000) }),
+    );
+    await adapter.send(createMessage('orphan'));
+    await waitFor(() => queue.jobs.every((job) => job.state !== 'waiting'));
+
+    expect(handler.handle).not.toHaveBeenCalled();
+    expect(queue.jobs.map((job) => job.state)).toEqual(['completed', 'failed']);
+  });
+
+  it('应该清空指定主题或全部待处理消息', async () => {
+    await startAdapter();
+    await adapter.send(createMessage('a'), { delay: 60_000 });
+    await adapter.send(createMessage('a'), { delay: 60_000 });
+    await adapter.send(createMessage('b'), { delay: 60_000 });
+
+    expect((await adapter.getStatistics()).delayedMessages).toBe(3);
+    expect(await adapter.clear('a')).toBe(2);
+    expect(await adapter.clear()).toBe(1);
+    expect((await adapter.getStatistics()).totalMessages).toBe(0);
+  });
+
+  it('发送到其他队列时只建立生产者连接，不消费该队列', async () => {
+    await startAdapter();
+    const handler = createHandler('spec-queue.reply.a');
+    await adapter.subscribe('spec-queue.reply.a', handler);
+
+    await adapter.sendToQueue(
+      'spec-queue.reply.a',
+      createMessage('spec-queue.reply.a', { correlationId: 'c-1' }),
+    );
+    await adapter.sendToQueue(
+      'spec-queue.reply.a',
+      createMessage('spec-queue.reply.a'),
+    );
+
+    const producer = deadLetterQueue!;
+    expect(producer.name).toBe('spec-queue.reply.a');
+    expect(producer.jobs.map((job) => job.state)).toEqual([
+      'waiting',
+      'waiting',
+    ]);
+    expect(producer.jobs[0].data).toMatchObject({ correlationId: 'c-1' });
+    expect(queue.jobs).toHaveLength(0);
+    expect(handler.handle).not.toHaveBeenCalled();
+
+    await adapter.stop();
+    expect(producer.closed).toBe(true);
+    await adapter.start();
+  });
+
+  it('未启动时应该拒绝发送，停止后健康检查为不健康', async () => {
+    await startAdapter();
+    expect((await adapter.healthCheck()).healthy).toBe(true);
+
+    await adapter.stop();
+    expect(queue.closed).toBe(true);
+    await expect(adapter.send(createMessage('a'))).rejects.toThrow('未启动');
+    expect(await adapter.healthCheck()).toMatchObject({
+      healthy: false,
+      status: 'stopped',
+    });
+    await adapter.start();
+  });
+
+  it('应该按处理器的重试策略指数退避，处理器策略覆盖队列策略', async () => {
+    await startAdapter({ retryPolicy: { maxRetries: 1, initialDelay: 1000 } });
+    const handler = {
+      ...createHandler('sync', async () => {
+        throw new Error('同步失败');
+      }),
+      retryPolicy: { maxRetries: 3, initialDelay: 2, jitter: 0 },
+    };
+    await adapter.subscribe('sync', handler);
+
+    await adapter.send(createMessage('sync'));
+    await waitFor(() => queue.jobs[0].state === 'failed');
+
+    expect(handler.handle).toHaveBeenCalledTimes(4);
+    expect(queue.retryDelays).toEqual([2, 4, 8]);
+  });
+
+  it('重试时应该跳过已经处理成功的处理器', async () => {
+    await startAdapter({ retryPolicy: { initialDelay: 1, jitter: 0 } });
+    const first = createHandler('order', async () => undefined, 10);
+    const second = createHandler(
+      'order',
+      jest
+        .fn()
+        .mockRejectedValueOnce(new Error('暂时失败'))
+        .mockResolvedValue(undefined),
+      1,
+    );
+    await adapter.subscribe('order', first);
+    await adapter.subscribe('order', second);
+
+    await adapter.send(createMessage('order', { maxRetries: 2 }));
+    await waitFor(() => queue.jobs[0].state === 'completed');
+
+    expect(first.handle).toHaveBeenCalledTimes(1);
+    expect(second.handle).toHaveBeenCalledTimes(2);
+  });
+
+  it('重试次数用尽时应该转入死信队列，并按租户查看、重新投递和删除', async () => {
+    await startAdapter({ deadLetter: { enabled: true } });
+    let healthy = false;
+    const handler = createHandler('invoice', async () => {
+      if (!healthy) {
+        throw new Error('发票服务不可用');
+      }
+    });
+    await adapter.subscribe('invoice', handler);
+
+    await adapter.send(createMessage('invoice'));
+    await adapter.send(createMessage('invoice', { tenantId: 'tenant-2' }));
+    await waitFor(() => deadLetterQueue?.jobs.length === 2);
+
+    expect(deadLetterQueue?.name).toBe('spec-queue.dead-letter');
+    const [deadLetter] = await adapter.getDeadLetters('tenant-1');
+    expect(deadLetter).toMatchObject({
+      queueName: 'spec-queue',
+      handlerName: 'handler-invoice-0',
+      error: { name: 'Error', message: '发票服务不可用' },
+      attempts: 1,
+    });
+    expect(deadLetter.message).toMatchObject({
+      topic: 'invoice',
+      tenantId: 'tenant-1',
+      status: MessageStatus.DEAD_LETTER,
+    });
+    expect((await adapter.healthCheck()).details).toMatchObject({
+      deadLetterMessages: 2,
+    });
+
+    healthy = true;
+    expect(await adapter.replayDeadLetters('tenant-1')).toBe(1);
+    await waitFor(() => handler.handle.mock.calls.length === 3);
+    expect(await adapter.getDeadLetters('tenant-1')).toEqual([]);
+
+    expect(await adapter.purgeDeadLetters('tenant-2', { topic: 'other' })).toBe(
+      0,
+    );
+    expect(await adapter.purgeDeadLetters('tenant-2')).toBe(1);
+    expect(deadLetterQueue?.jobs).toHaveLength(0);
+  });
+
+  it('onSuccess回调失败时消息仍然处理完成且不重试', async () => {
+    await startAdapter({ retryPolicy: { initialDelay: 1, jitter: 0 } });
+    const handler = createHandler('receipt');
+    handler.onSuccess = jest.fn().mockRejectedValue(new Error('通知失败'));
+    await adapter.subscribe('receipt', handler);
+
+    await adapter.send(createMessage('receipt', { maxRetries: 2 }));
+    await waitFor(() => queue.jobs[0].state === 'completed');
+
+    expect(handler.handle).toHaveBeenCalledTimes(1);
+    expect(silentLogger.error).toHaveBeenCalledWith(
+      '消息处理器回调失败',
+      expect.objectContaining({ message: '通知失败' }),
+      expect.objectContaining({ hook: 'onSuccess' }),
+    );
+  });
+
+  it('onFailure回调失败时消息仍然按重试策略转入死信队列', async () => {
+    await startAdapter({
+      retryPolicy: { initialDelay: 1, jitter: 0 },
+      deadLetter: { enabled: true },
+    });
+    const handler = createHandler('refund', async () => {
+      throw new Error('退款服务不可用');
+    });
+    handler.onFailure = jest.fn().mockRejectedValue(new Error('告警失败'));
+    await adapter.subscribe('refund', handler);
+
+    await adapter.send(createMessage('refund', { maxRetries: 1 }));
+    await waitFor(() => deadLetterQueue?.jobs.length === 1);
+
+    expect(handler.handle).toHaveBeenCalledTimes(2);
+    const [deadLetter] = await adapter.getDeadLetters('tenant-1');
+    expect(deadLetter.error.message).toBe('退款服务不可用');
+  });
+
+  it('未启用死信队列时失败的消息应该留在失败列表中', async () => {
+    await startAdapter();
+    await adapter.subscribe(
+      'invoice',
+      createHandler('invoice', async () => {
+        throw new Error('发票服务不可用');
+      }),
+    );
+
+    await adapter.send(createMessage('invoice'));
+    await waitFor(() => queue.jobs[0].state === 'failed');
+
+    expect(deadLetterQueue).toBeUndefined();
+    await expect(adapter.getDeadLetters('tenant-1')).rejects.toThrow(
+      '未启用死信队列',
+    );
+  });
+});
@@ -1,23 +1,74 @@
 /**
  * 简化Bull队列适配器
  *
- * @description 简化的Bull队列适配器实现，专注于核心功能
+ * @description 基于Bull（Redis）的队列适配器，把消息投递给订阅的处理器
+ *
+ * ## 业务规则
+ *
+ * ### 投递规则
+ * - 每个适配器对应一个Bull队列，消息以主题作为任务名称入队
+ * - 消息投递给订阅该主题且 canHandle 返回 true 的处理器，按 getPriority 从高到低依次调用
+ * - 任一处理器失败时任务失败并按重试策略重新投递，重试时跳过已经处理成功的处理器
+ * - 没有处理器订阅的主题按队列的重试策略重试
+ * - 已过期的消息直接完成，不调用处理器
+ * - 可以把消息发送到同一Redis中的其他队列（如请求方实例的回复队列），
+ *   发送时只建立生产者连接，不消费该队列
+ *
+ * ### 重试和死信规则
+ * - 重试策略依次合并消息的最大重试次数、队列配置、处理器配置和处理器自身的 retryPolicy
+ * - 每个处理器单独计算失败次数，重试延迟按指数增长并带随机抖动
+ * - 重试次数用尽的消息进入死信队列，记录失败的处理器、错误和投递次数，未启用死信队列时留在失败列表中
+ * - 死信消息按租户查看、重新投递或删除，重新投递时清空失败次数，已成功的处理器仍然跳过
+ * - 处理器的 onSuccess 和 onFailure 回调失败只记录错误日志，不改变投递结果：
+ *   处理成功的消息不会因回调失败而重试，处理失败的消息照常重试或转入死信队列
+ *
+ * ### 多租户规则
+ * - 开启租户隔离时，发送时把当前租户上下文写入消息元数据
+ * - 调用处理器前从消息元数据恢复租户上下文
+ *
+ * ## 技术规则
+ *
+ * - 启动时才创建Bull队列并开始消费，消费并发数由 concurrency 控制，默认为1
+ * - 消息优先级映射为Bull优先级，Bull中数值越小优先级越高
+ * - 重试延迟由自定义的Bull退避策略返回，重试次数用尽时返回-1让Bull停止重试
+ * - 死信队列是一个不消费的Bull队列，默认名称为 `<队列名>.dead-letter`
+ * - 队列计数来自Redis，处理耗时和吞吐量是当前实例的统计
+ * - 通过 queueFactory 可以替换Bull队列的创建方式，便于连接集群或在测试中使用替身
+ *
  * @since 1.0.0
  */
 
+import { randomUUID } from 'crypto';
 import { Injectable } from '@nestjs/common';
-import { TenantContextManager } from '@aiofix/core';
+import Bull from 'bull';
+import { EntityId, TenantContextManager } from '@aiofix/core';
+import type { ITenantContextData } from '@aiofix/core';
 import {
+  IDeadLetterMessage,
+  IDeadLetterQuery,
+  IDeadLetterQueueManager,
   IMessage,
   IMessageQueue,
   IMessageHandler,
   IMessageSendOptions,
   IQueueStatistics,
   IQueueHealth,
+  IRetryPolicy,
+  MessagePriority,
   MessageStatus,
+  MessageType,
 } from '../interfaces/messaging.interface';
 import { IMessagingLoggerService } from '../interfaces/messaging-logger.interface';
 import { createQueueLogger } from '../factories/messaging-logger.factory';
+import { computeRetryDelay, resolveRetryPolicy } from '../retry/retry-policy';
+
+/**
+ * Bull队列工厂
+ */
+export type BullQueueFactory = (
+  name: string,
+  options: Bull.QueueOptions,
+) => Bull.Queue;
 
 /**
  * 简化Bull队列配置
@@ -28,23 +79,136 @@ export interface ISimpleBullConfig {
     host: string;
     port: number;
     password?: string;
+    db?: number;
   };
+  /** Redis键前缀 */
+  prefix?: string;
   concurrency?: number;
   enableTenantIsolation?: boolean;
+  /** 完成后是否删除任务，也可以指定保留的数量 */
+  removeOnComplete?: boolean | number;
+  /** 队列级别的重试策略 */
+  retryPolicy?: Partial<IRetryPolicy>;
+  /** 按处理器名称配置的重试策略 */
+  handlerRetryPolicies?: Record<string, Partial<IRetryPolicy>>;
+  /** 死信队列配置 */
+  deadLetter?: {
+    enabled: boolean;
+    /** 死信队列名称，默认为 `<队列名>.dead-letter` */
+    queueName?: string;
+  };
+  /** 自定义Bull队列的创建方式 */
+  queueFactory?: BullQueueFactory;
+}
+
+/**
+ * 投递进度，随任务保存，重试时沿用
+ */
+interface IDeliveryState {
+  /** 已经处理成功的处理器 */
+  completedHandlers: string[];
+  /** 每个处理器的失败次数 */
+  failures: Record<string, number>;
+}
+
+/**
+ * 队列中保存的消息
+ */
+interface IQueuedMessage {
+  id: string;
+  type: MessageType;
+  topic: string;
+  payload: Record<string, unknown>;
+  priority: MessagePriority;
+  tenantId: string;
+  senderId: string;
+  receiverId?: string;
+  createdAt: string;
+  sentAt: string;
+  expiresAt?: string;
+  maxRetries: number;
+  correlationId?: string;
+  conversationId?: string;
+  replyTo?: string;
+  routingKey?: string;
+  metadata: Record<string, unknown>;
+  headers: Record<string, string>;
+  delivery?: IDeliveryState;
+}
+
+/**
+ * 死信队列中保存的数据
+ */
+interface IDeadLetterJobData {
+  message: IQueuedMessage;
+  queueName: string;
+  handlerName?: string;
+  error: IDeadLetterMessage['error'];
+  attempts: number;
+  deadLetteredAt: string;
+}
+
+/**
+ * 主题订阅
+ */
+interface ISubscription {
+  topic: string;
+  handler: IMessageHandler;
+}
+
+/**
+ * 自定义退避策略名称
+ */
+const RETRY_BACKOFF_STRATEGY = 'aiofix-retry';
+
+/**
+ * Bull任务的投递次数上限，实际重试次数由重试策略决定
+ */
+const MAX_DELIVERY_ATTEMPTS = 1000;
+
+/**
+ * 没有处理器订阅时记录失败次数使用的键
+ */
+const UNHANDLED_KEY = '';
+
+/**
+ * 投递失败，携带下一次重试的延迟，-1表示不再重试
+ */
+class MessageDeliveryError extends Error {
+  constructor(
+    public readonly failure: Error,
+    public readonly retryDelay: number,
+  ) {
+    super(failure.message);
+    this.name = failure.name;
+    this.stack = failure.stack;
+  }
 }
 
+/**
+ * 默认的Bull队列创建方式
+ */
+const createBullQueue: BullQueueFactory = (name, options) =>
+  new Bull(name, options);
+
 /**
  * 简化Bull队列适配器
  */
 @Injectable()
-export class SimpleBullQueueAdapter implements IMessageQueue {
+export class SimpleBullQueueAdapter
+  implements IMessageQueue, IDeadLetterQueueManager
+{
   public readonly name: string;
   public readonly type = 'bull';
 
-  private readonly stats: IQueueStatistics;
-  private readonly handlers = new Map<string, IMessageHandler>();
+  private readonly subscriptions = new Map<string, ISubscription>();
   private readonly logger: IMessagingLoggerService;
-  private isStarted = false;
+  private queue: Bull.Queue | undefined;
+  private deadLetterQueue: Bull.Queue | undefined;
+  private readonly producers = new Map<string, Bull.Queue>();
+  private startedAt: Date | undefined;
+  private processedMessages = 0;
+  private totalProcessingTime = 0;
 
   constructor(
     private readonly config: ISimpleBullConfig,
@@ -53,89 +217,149 @@ export class SimpleBullQueueAdapter implements IMessageQueue {
     this.name = config.name;
     this.logger = logger || createQueueLogger(this.name);
 
-    // 初始化统计信息
-    this.stats = {
-      queueName: this.name,
-      totalMessages: 0,
-      pendingMessages: 0,
-      processingMessages: 0,
-      completedMessages: 0,
-      failedMessages: 0,
-      delayedMessages: 0,
-      averageProcessingTime: 100,
-      throughput: 0,
-      errorRate: 0,
-      lastUpdatedAt: new Date(),
-    };
-
     this.logger.info('Bull队列适配器已初始化', {
       queueName: this.name,
       config: {
         enableTenantIsolation: config.enableTenantIsolation,
         concurrency: config.concurrency,
         redisHost: config.redis?.host,
+        deadLetterEnabled: config.deadLetter?.enabled ?? false,
       },
     });
   }
 
   async start(): Promise<void> {
-    if (this.isStarted) {
+    if (this.queue) {
       this.logger.warn('队列已经启动', { queueName: this.name });
       return;
     }
 
-    this.logger.info('启动Bull队列', { queueName: this.name });
-    this.isStarted = true;
+    const queueFactory = this.config.queueFactory ?? createBullQueue;
+    const queue = queueFactory(this.name, {
+      redis: this.config.redis,
+      prefix: this.config.prefix,
+      settings: {
+        backoffStrategies: {
+          [RETRY_BACKOFF_STRATEGY]: (_attemptsMade: number, error: Error) =>
+            error instanceof MessageDeliveryError ? error.retryDelay : -1,
+        },
+      },
+    });
+    await queue.isReady();
+
+    if (this.config.deadLetter?.enabled) {
+      this.deadLetterQueue = queueFactory(
+        this.config.deadLetter.queueName ?? `${this.name}.dead-letter`,
+        { redis: this.config.redis, prefix: this.config.prefix },
+      );
+      await this.deadLetterQueue.isReady();
+    }
+
+    queue
+      .process('*', this.config.concurrency ?? 1, (job: Bull.Job) =>
+        this.processJob(job),
+      )
+      .catch((error: unknown) => {
+        this.logger.error('Bull队列消费异常', error as Error, {
+          queueName: this.name,
+        });
+      });
+
+    this.queue = queue;
+    this.startedAt = new Date();
+    this.processedMessages = 0;
+    this.totalProcessingTime = 0;
+
+    this.logger.info('启动Bull队列', {
+      queueName: this.name,
+      concurrency: this.config.concurrency ?? 1,
+      deadLetterQueue: this.deadLetterQueue?.name,
+    });
   }
 
   async stop(): Promise<void> {
-    if (!this.isStarted) {
+    if (!this.queue) {
       this.logger.warn('队列未启动', { queueName: this.name });
       return;
     }
 
+    const queue = this.queue;
+    const deadLetterQueue = this.deadLetterQueue;
+    const producers = Array.from(this.producers.values());
+    this.queue = undefined;
+    this.deadLetterQueue = undefined;
+    this.producers.clear();
+    await queue.close();
+    await deadLetterQueue?.close();
+    await Promise.all(producers.map((producer) => producer.close()));
+
     this.logger.info('停止Bull队列', { queueName: this.name });
-    this.isStarted = false;
   }
 
-  async send(message: IMessage, _options?: IMessageSendOptions): Promise<void> {
-    if (!this.isStarted) {
-      throw new Error(`队列 ${this.name} 未启动`);
-    }
+  async send(message: IMessage, options?: IMessageSendOptions): Promise<void> {
+    await this.sendToQueue(this.name, message, options);
+  }
 
-    // 模拟消息发送
-    const enrichedMessage = { ...message };
+  /**
+   * 把消息发送到指定名称的队列，不是当前队列时只作为生产者入队
+   */
+  async sendToQueue(
+    queueName: string,
+    message: IMessage,
+    options?: IMessageSendOptions,
+  ): Promise<void> {
+    const queue =
+      queueName === this.name
+        ? this.requireQueue()
+        : await this.requireProducer(queueName);
+    const sentAt = new Date();
 
-    // 添加租户上下文
+    let metadata = message.metadata;
     if (this.config.enableTenantIsolation) {
       const tenantContext = TenantContextManager.getCurrentTenant();
       if (tenantContext) {
-        enrichedMessage.metadata = {
-          ...enrichedMessage.metadata,
-          tenantContext,
-        };
+        metadata = { ...metadata, tenantContext };
       }
     }
 
-    // 设置发送状态
-    (
-      enrichedMessage as unknown as { status: MessageStatus; sentAt: Date }
-    ).status = MessageStatus.SENT;
-    (
-      enrichedMessage as unknown as { status: MessageStatus; sentAt: Date }
-    ).sentAt = new Date();
+    const expiresAt = options?.ttl
+      ? new Date(sentAt.getTime() + options.ttl)
+      : message.expiresAt;
+
+    const queuedMessage: IQueuedMessage = {
+      id: message.id.toString(),
+      type: message.type,
+      topic: message.topic,
+      payload: message.payload,
+      priority: options?.priority ?? message.priority,
+      tenantId: message.tenantId,
+      senderId: message.senderId,
+      receiverId: message.receiverId,
+      createdAt: message.createdAt.toISOString(),
+      sentAt: sentAt.toISOString(),
+      expiresAt: expiresAt?.toISOString(),
+      maxRetries: options?.maxRetries ?? message.maxRetries,
+      correlationId: options?.correlationId ?? message.correlationId,
+      conversationId: options?.conversationId ?? message.conversationId,
+      replyTo: options?.replyTo ?? message.replyTo,
+      routingKey: options?.routingKey ?? message.routingKey,
+      metadata,
+      headers: { ...message.headers, ...options?.headers },
+    };
+
+    await this.enqueue(queue, queuedMessage, options?.delay);
+
+    message.status = MessageStatus.SENT;
+    message.sentAt = sentAt;
 
     this.logger.info('消息已发送到队列', {
-      messageId: message.id.toString(),
+      messageId: queuedMessage.id,
       topic: message.topic,
       messageType: message.type,
-      queueName: this.name,
-      tenantId: enrichedMessage.tenantId,
+      queueName,
+      tenantId: message.tenantId,
+      delay: options?.delay,
     });
-
-    // 更新统计
-    this.stats.totalMessages++;
-    this.stats.pendingMessages++;
   }
 
   async sendBatch(
@@ -154,33 +378,31 @@ export class SimpleBullQueueAdapter implements IMessageQueue {
   }
 
   async subscribe(topic: string, handler: IMessageHandler): Promise<string> {
-    if (!this.isStarted) {
-      throw new Error(`队列 ${this.name} 未启动`);
-    }
+    this.requireQueue();
 
-    const subscriptionId = `${this.name}_${topic}_${Date.now()}`;
-    this.handlers.set(subscriptionId, handler);
+    const subscriptionId = `${this.name}_${topic}_${randomUUID()}`;
+    this.subscriptions.set(subscriptionId, { topic, handler });
 
     this.logger.info('已订阅主题', {
       topic,
       subscriptionId,
       handlerName: handler.name,
       queueName: this.name,
-      totalHandlers: this.handlers.size,
+      totalHandlers: this.subscriptions.size,
     });
 
     return subscriptionId;
   }
 
   async unsubscribe(subscriptionId: string): Promise<void> {
-    const handler = this.handlers.get(subscriptionId);
-    if (handler) {
-      this.handlers.delete(subscriptionId);
+    const subscription = this.subscriptions.get(subscriptionId);
+    if (subscription) {
+      this.subscriptions.delete(subscriptionId);
       this.logger.info('已取消订阅', {
         subscriptionId,
-        handlerName: handler.name,
+        handlerName: subscription.handler.name,
         queueName: this.name,
-        remainingHandlers: this.handlers.size,
+        remainingHandlers: this.subscriptions.size,
       });
     } else {
       this.logger.warn('订阅ID不存在', {
@@ -191,30 +413,457 @@ export class SimpleBullQueueAdapter implements IMessageQueue {
   }
 
   async getStatistics(): Promise<IQueueStatistics> {
-    this.stats.lastUpdatedAt = new Date();
-    return { ...this.stats };
+    const counts = this.queue
+      ? await this.queue.getJobCounts()
+      : { waiting: 0, active: 0, completed: 0, failed: 0, delayed: 0 };
+    const finished = counts.completed + counts.failed;
+    const elapsedSeconds = this.startedAt
+      ? (Date.now() - this.startedAt.getTime()) / 1000
+      : 0;
+
+    return {
+      queueName: this.name,
+      totalMessages:
+        counts.waiting +
+        counts.active +
+        counts.completed +
+        counts.failed +
+        counts.delayed,
+      pendingMessages: counts.waiting,
+      processingMessages: counts.active,
+      completedMessages: counts.completed,
+      failedMessages: counts.failed,
+      delayedMessages: counts.delayed,
+      averageProcessingTime:
+        this.processedMessages > 0
+          ? this.totalProcessingTime / this.processedMessages
+          : 0,
+      throughput:
+        elapsedSeconds > 0 ? this.processedMessages / elapsedSeconds : 0,
+      errorRate: finished > 0 ? counts.failed / finished : 0,
+      lastUpdatedAt: new Date(),
+    };
   }
 
   async clear(topic?: string): Promise<number> {
+    const queue = this.requireQueue();
+    const jobs = await queue.getJobs(['waiting', 'paused', 'delayed']);
+    const targets = jobs.filter(
+      (job) => job && (topic === undefined || job.name === topic),
+    );
+    await Promise.all(targets.map((job) => job.remove()));
+
     this.logger.info('清空队列', {
       queueName: this.name,
       topic: topic || 'all',
-      clearedMessages: 0,
+      clearedMessages: targets.length,
     });
-    return 0;
+    return targets.length;
   }
 
   async healthCheck(): Promise<IQueueHealth> {
+    let connected = false;
+    if (this.queue) {
+      try {
+        await this.queue.client.ping();
+        connected = true;
+      } catch {
+        connected = false;
+      }
+    }
+    const running = this.queue !== undefined;
+
     return {
-      healthy: this.isStarted,
-      status: this.isStarted ? 'running' : 'stopped',
-      connected: this.isStarted,
+      healthy: running && connected,
+      status: running ? 'running' : 'stopped',
+      connected,
       lastCheckAt: new Date(),
       details: {
         queueName: this.name,
-        handlerCount: this.handlers.size,
-        stats: this.stats,
+        handlerCount: this.subscriptions.size,
+        stats: await this.getStatistics(),
+        deadLetterMessages: this.deadLetterQueue
+          ? await this.deadLetterQueue.count()
+          : undefined,
       },
     };
   }
+
+  async getDeadLetters(
+    tenantId: string,
+    query: IDeadLetterQuery = {},
+  ): Promise<IDeadLetterMessage[]> {
+    const jobs = await this.findDeadLetterJobs(tenantId, query);
+    return jobs
+      .slice(0, query.limit ?? jobs.length)
+      .map((job) => this.toDeadLetterMessage(job.data));
+  }
+
+  async replayDeadLetters(
+    tenantId: string,
+    query: IDeadLetterQuery = {},
+  ): Promise<number> {
+    const queue = this.requireQueue();
+    const jobs = await this.findDeadLetterJobs(tenantId, query);
+    const targets = jobs.slice(0, query.limit ?? jobs.length);
+
+    for (const job of targets) {
+      const { message } = job.data;
+      const previous = await queue.getJob(message.id);
+      await previous?.remove();
+      await this.enqueue(queue, {
+        ...message,
+        sentAt: new Date().toISOString(),
+        delivery: {
+          completedHandlers: message.delivery?.completedHandlers ?? [],
+          failures: {},
+        },
+      });
+      await job.remove();
+    }
+
+    this.logger.info('死信消息已重新投递', {
+      queueName: this.name,
+      tenantId,
+      topic: query.topic,
+      replayedMessages: targets.length,
+    });
+    return targets.length;
+  }
+
+  async purgeDeadLetters(
+    tenantId: string,
+    query: IDeadLetterQuery = {},
+  ): Promise<number> {
+    const jobs = await this.findDeadLetterJobs(tenantId, query);
+    const targets = jobs.slice(0, query.limit ?? jobs.length);
+    await Promise.all(targets.map((job) => job.remove()));
+
+    this.logger.info('死信消息已删除', {
+      queueName: this.name,
+      tenantId,
+      topic: query.topic,
+      purgedMessages: targets.length,
+    });
+    return targets.length;
+  }
+
+  // ==================== 私有方法 ====================
+
+  /**
+   * 获取已启动的Bull队列
+   */
+  private requireQueue(): Bull.Queue {
+    if (!this.queue) {
+      throw new Error(`队列 ${this.name} 未启动`);
+    }
+    return this.queue;
+  }
+
+  /**
+   * 获取死信队列
+   */
+  private requireDeadLetterQueue(): Bull.Queue<IDeadLetterJobData> {
+    this.requireQueue();
+    if (!this.deadLetterQueue) {
+      throw new Error(`队列 ${this.name} 未启用死信队列`);
+    }
+    return this.deadLetterQueue;
+  }
+
+  /**
+   * 获取其他队列的生产者连接，首次使用时创建
+   */
+  private async requireProducer(queueName: string): Promise<Bull.Queue> {
+    this.requireQueue();
+    let producer = this.producers.get(queueName);
+    if (!producer) {
+      const queueFactory = this.config.queueFactory ?? createBullQueue;
+      producer = queueFactory(queueName, {
+        redis: this.config.redis,
+        prefix: this.config.prefix,
+      });
+      this.producers.set(queueName, producer);
+      await producer.isReady();
+    }
+    return producer;
+  }
+
+  /**
+   * 消息入队
+   */
+  private async enqueue(
+    queue: Bull.Queue,
+    queuedMessage: IQueuedMessage,
+    delay?: number,
+  ): Promise<void> {
+    await queue.add(queuedMessage.topic, queuedMessage, {
+      jobId: queuedMessage.id,
+      priority: MessagePriority.CRITICAL - queuedMessage.priority + 1,
+      delay,
+      attempts: MAX_DELIVERY_ATTEMPTS,
+      backoff: { type: RETRY_BACKOFF_STRATEGY },
+      removeOnComplete: this.config.removeOnComplete,
+    });
+  }
+
+  /**
+   * 处理Bull任务
+   */
+  private async processJob(job: Bull.Job<IQueuedMessage>): Promise<void> {
+    const message = this.toMessage(job);
+
+    if (message.expiresAt && message.expiresAt.getTime() <= Date.now()) {
+      message.status = MessageStatus.EXPIRED;
+      this.logger.warn('消息已过期，跳过处理', {
+        messageId: job.data.id,
+        topic: message.topic,
+        queueName: this.name,
+      });
+      return;
+    }
+
+    const delivery: IDeliveryState = {
+      completedHandlers: [...(job.data.delivery?.completedHandlers ?? [])],
+      failures: { ...job.data.delivery?.failures },
+    };
+    const handlers = Array.from(this.subscriptions.values())
+      .filter(
+        ({ topic, handler }) =>
+          topic === message.topic && handler.canHandle(message),
+      )
+      .map(({ handler }) => handler)
+      .sort((a, b) => b.getPriority() - a.getPriority());
+
+    if (handlers.length === 0) {
+      await this.failDelivery(
+        job,
+        delivery,
+        undefined,
+        new Error(`队列 ${this.name} 中没有处理主题 ${message.topic} 的处理器`),
+      );
+    }
+
+    const startTime = Date.now();
+    const tenantContext = this.restoreTenantContext(message);
+    const pending = handlers.filter(
+      (handler) => !delivery.completedHandlers.includes(handler.name),
+    );
+    try {
+      if (tenantContext) {
+        await TenantContextManager.run(tenantContext, () =>
+          this.dispatch(job, message, pending, delivery),
+        );
+      } else {
+        await this.dispatch(job, message, pending, delivery);
+      }
+    } finally {
+      this.processedMessages++;
+      this.totalProcessingTime += Date.now() - startTime;
+    }
+  }
+
+  /**
+   * 依次调用处理器
+   */
+  private async dispatch(
+    job: Bull.Job<IQueuedMessage>,
+    message: IMessage,
+    handlers: IMessageHandler[],
+    delivery: IDeliveryState,
+  ): Promise<void> {
+    message.status = MessageStatus.PROCESSING;
+
+    for (const handler of handlers) {
+      try {
+        await handler.handle(message);
+      } catch (error) {
+        const failure =
+          error instanceof Error ? error : new Error(String(error));
+        message.status = MessageStatus.FAILED;
+        this.logger.error('消息处理失败', failure, {
+          messageId: message.id.toString(),
+          topic: message.topic,
+          handlerName: handler.name,
+          retryCount: message.retryCount,
+          queueName: this.name,
+        });
+        await this.runHook(handler, message, 'onFailure', () =>
+          handler.onFailure?.(message, failure),
+        );
+        await this.failDelivery(job, delivery, handler, failure);
+      }
+      delivery.completedHandlers.push(handler.name);
+      await this.runHook(handler, message, 'onSuccess', () =>
+        handler.onSuccess?.(message),
+      );
+    }
+
+    message.status = MessageStatus.COMPLETED;
+  }
+
+  /**
+   * 调用处理器的回调，回调失败只记录日志，不影响投递结果
+   */
+  private async runHook(
+    handler: IMessageHandler,
+    message: IMessage,
+    hook: 'onSuccess' | 'onFailure',
+    call: () => Promise<void> | void,
+  ): Promise<void> {
+    try {
+      await call();
+    } catch (error) {
+      this.logger.error(
+        '消息处理器回调失败',
+        error instanceof Error ? error : new Error(String(error)),
+        {
+          messageId: message.id.toString(),
+          topic: message.topic,
+          handlerName: handler.name,
+          hook,
+          queueName: this.name,
+        },
+      );
+    }
+  }
+
+  /**
+   * 记录投递失败，按重试策略决定重试延迟，重试次数用尽时转入死信队列
+   */
+  private async failDelivery(
+    job: Bull.Job<IQueuedMessage>,
+    delivery: IDeliveryState,
+    handler: IMessageHandler | undefined,
+    error: Error,
+  ): Promise<never> {
+    const key = handler?.name ?? UNHANDLED_KEY;
+    const failures = (delivery.failures[key] ?? 0) + 1;
+    delivery.failures[key] = failures;
+    await job.update({ ...job.data, delivery });
+
+    const policy = resolveRetryPolicy(
+      { maxRetries: job.data.maxRetries },
+      this.config.retryPolicy,
+      handler && this.config.handlerRetryPolicies?.[handler.name],
+      handler?.retryPolicy,
+    );
+    if (failures <= policy.maxRetries) {
+      throw new MessageDeliveryError(
+        error,
+        computeRetryDelay(policy, failures),
+      );
+    }
+
+    if (this.deadLetterQueue) {
+      const data: IDeadLetterJobData = {
+        message: job.data,
+        queueName: this.name,
+        handlerName: handler?.name,
+        error: { name: error.name, message: error.message, stack: error.stack },
+        attempts: job.attemptsMade + 1,
+        deadLetteredAt: new Date().toISOString(),
+      };
+      await this.deadLetterQueue.add(job.name, data, { jobId: job.data.id });
+
+      this.logger.warn('消息重试次数用尽，已转入死信队列', {
+        messageId: job.data.id,
+        topic: job.data.topic,
+        tenantId: job.data.tenantId,
+        handlerName: handler?.name,
+        attempts: data.attempts,
+        queueName: this.name,
+      });
+    }
+    throw new MessageDeliveryError(error, -1);
+  }
+
+  /**
+   * 查找租户的死信任务，按进入死信队列的时间排序
+   */
+  private async findDeadLetterJobs(
+    tenantId: string,
+    query: IDeadLetterQuery,
+  ): Promise<Array<Bull.Job<IDeadLetterJobData>>> {
+    const jobs = await this.requireDeadLetterQueue().getJobs([
+      'waiting',
+      'paused',
+    ]);
+    return jobs
+      .filter(
+        (job) =>
+          job &&
+          job.data.message.tenantId === tenantId &&
+          (query.topic === undefined ||
+            job.data.message.topic === query.topic) &&
+          (query.messageIds === undefined ||
+            query.messageIds.includes(job.data.message.id)),
+      )
+      .sort((a, b) =>
+        a.data.deadLetteredAt.localeCompare(b.data.deadLetteredAt),
+      );
+  }
+
+  /**
+   * 从死信数据还原死信消息
+   */
+  private toDeadLetterMessage(data: IDeadLetterJobData): IDeadLetterMessage {
+    return {
+      message: {
+        ...this.fromQueuedMessage(data.message, data.attempts),
+        status: MessageStatus.DEAD_LETTER,
+      },
+      queueName: data.queueName,
+      handlerName: data.handlerName,
+      error: data.error,
+      attempts: data.attempts,
+      deadLetteredAt: new Date(data.deadLetteredAt),
+    };
+  }
+
+  /**
+   * 从任务数据还原消息
+   */
+  private toMessage(job: Bull.Job<IQueuedMessage>): IMessage {
+    return {
+      ...this.fromQueuedMessage(job.data, job.attemptsMade),
+      status: MessageStatus.RECEIVED,
+      receivedAt: new Date(),
+    };
+  }
+
+  /**
+   * 反序列化队列中保存的消息
+   */
+  private fromQueuedMessage(
+    queuedMessage: IQueuedMessage,
+    retryCount: number,
+  ): IMessage {
+    const data = { ...queuedMessage };
+    delete data.delivery;
+    return {
+      ...data,
+      id: EntityId.fromString(data.id),
+      status: MessageStatus.SENT,
+      createdAt: new Date(data.createdAt),
+      sentAt: new Date(data.sentAt),
+      expiresAt: data.expiresAt ? new Date(data.expiresAt) : undefined,
+      retryCount,
+    };
+  }
+
+  /**
+   * 从消息元数据恢复租户上下文
+   */
+  private restoreTenantContext(
+    message: IMessage,
+  ): ITenantContextData | undefined {
+    const context = message.metadata.tenantContext as
+      | (Omit<ITenantContextData, 'createdAt'> & { createdAt: string })
+      | undefined;
+    if (!context?.tenantId) {
+      return undefined;
+    }
+    return { ...context, createdAt: new Date(context.createdAt) };
+  }
 }
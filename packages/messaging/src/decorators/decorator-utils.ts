@@ -38,7 +38,10 @@
  * @since 1.0.0
  */
 
-import { IMessageHandlerMetadata } from './messaging-decorators.interface';
+import {
+  IIdempotencyOptions,
+  IMessageHandlerMetadata,
+} from './messaging-decorators.interface';
 
 /**
  * 获取类的处理器元数据
@@ -239,6 +242,40 @@ export function handlesTopicPattern(
   return false;
 }
 
+/**
+ * 获取处理器的幂等消费选项
+ *
+ * @description 订阅方法的选项优先于类装饰器的选项
+ *
+ * @param target - 目标类或类实例
+ * @param methodName - 订阅方法名称
+ * @returns 幂等消费选项，未启用时返回undefined
+ */
+export function getIdempotencyOptions(
+  target: object | (new (...args: unknown[]) => unknown),
+  methodName?: string,
+): IIdempotencyOptions | undefined {
+  const prototype =
+    typeof target === 'function'
+      ? target.prototype
+      : Object.getPrototypeOf(target);
+  const subscribeOptions = methodName
+    ? (getSubscribeMetadata(prototype, methodName)?.options as
+        | { idempotency?: boolean | IIdempotencyOptions }
+        | undefined)
+    : undefined;
+  const handlerOptions = getHandlerMetadata(target)?.options as
+    | { idempotency?: boolean | IIdempotencyOptions }
+    | undefined;
+  const idempotency =
+    subscribeOptions?.idempotency ?? handlerOptions?.idempotency;
+
+  if (!idempotency) {
+    return undefined;
+  }
+  return idempotency === true ? {} : idempotency;
+}
+
 /**
  * 主题匹配函数（支持简单的通配符）
  *
@@ -162,6 +162,7 @@ export {
   getHandlerTopics,
   getHandlerOptions,
   handlesTopicPattern,
+  getIdempotencyOptions,
   formatHandlerInfo,
   getHandlerDetails,
   validateHandler,
@@ -78,6 +78,9 @@ export interface IMessageHandlerOptions {
   /** 消息过滤条件 */
   filter?: IMessageFilter;
 
+  /** 幂等消费选项，启用后同一消息只被处理一次 */
+  idempotency?: boolean | IIdempotencyOptions;
+
   /** 中间件列表 */
   middleware?: string[];
 
@@ -107,6 +110,9 @@ export interface IEventHandlerOptions {
   /** 是否启用多租户隔离 */
   enableTenantIsolation?: boolean;
 
+  /** 幂等消费选项，启用后同一消息只被处理一次 */
+  idempotency?: boolean | IIdempotencyOptions;
+
   /** 中间件列表 */
   middleware?: string[];
 
@@ -191,6 +197,9 @@ export interface ISubscribeOptions {
   /** 超时时间（毫秒） */
   timeout?: number;
 
+  /** 幂等消费选项，启用后同一消息只被处理一次 */
+  idempotency?: boolean | IIdempotencyOptions;
+
   /** 中间件列表 */
   middleware?: string[];
 
@@ -198,6 +207,19 @@ export interface ISubscribeOptions {
   metadata?: Record<string, unknown>;
 }
 
+/**
+ * 幂等消费选项
+ *
+ * @description 通过消费者收件箱按消息ID和处理器名称去重
+ */
+export interface IIdempotencyOptions {
+  /** 处理完成后的记录保留时间（毫秒），保留期内的重复消息被拦截 */
+  retention?: number;
+
+  /** 处理中的占用时间（毫秒），处理器异常退出后超过该时间消息可以被重新处理 */
+  leaseTime?: number;
+}
+
 /**
  * 消息过滤条件
  */
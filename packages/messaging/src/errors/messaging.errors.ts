@@ -0,0 +1,63 @@
+/**
+ * 消息传递错误
+ *
+ * @description 请求响应模式中调用方可以区分处理的错误
+ *
+ * ## 业务规则
+ *
+ * - 在超时时间内没有收到回复时抛出 MessagingRequestTimeoutError，可以重试
+ * - 调用方取消或服务销毁时抛出 MessagingRequestCancelledError，不应重试
+ * - 错误中携带请求主题和关联ID，便于和响应方日志对照
+ *
+ * @since 1.0.0
+ */
+
+import {
+  BusinessError,
+  CommonErrorCodes,
+  ErrorSeverity,
+  OperationTimeoutError,
+} from '@aiofix/core';
+
+/**
+ * 请求超时错误
+ */
+export class MessagingRequestTimeoutError extends OperationTimeoutError {
+  constructor(
+    public readonly topic: string,
+    public readonly correlationId: string,
+    public readonly timeoutMs: number,
+  ) {
+    super(`messaging.request:${topic}`, timeoutMs, {
+      moduleName: 'messaging',
+      functionName: 'request',
+    });
+  }
+}
+
+/**
+ * 请求取消错误
+ */
+export class MessagingRequestCancelledError extends BusinessError {
+  constructor(
+    public readonly topic: string,
+    public readonly correlationId: string,
+    public readonly reason: string,
+  ) {
+    super(
+      `请求 ${topic} 已取消：${reason}`,
+      CommonErrorCodes.BIZ_OPERATION_NOT_ALLOWED,
+      ErrorSeverity.LOW,
+      {
+        recoverable: false,
+        retryable: false,
+        loggable: true,
+        alertable: false,
+        monitorable: true,
+        tags: ['messaging', 'request', 'cancelled'],
+      },
+      { moduleName: 'messaging', functionName: 'request' },
+      { parameters: { topic, correlationId, reason } },
+    );
+  }
+}
@@ -0,0 +1,194 @@
+/**
+ * 消费者收件箱测试
+ *
+ * @description 验证重复消息拦截、失败释放、装饰器启用和去重统计
+ *
+ * @since 1.0.0
+ */
+
+import 'reflect-metadata';
+import { EntityId } from '@aiofix/core';
+import { MessageInbox } from '../message-inbox';
+import { MessageHandler, Subscribe } from '../../decorators/decorator-factory';
+import { getDecoratorRegistry } from '../../decorators/decorator-registry';
+import {
+  IInboxStore,
+  IMessage,
+  IMessageHandler,
+  IMessagingLoggerService,
+  MessagePriority,
+  MessageStatus,
+  MessageType,
+} from '../../index';
+
+/**
+ * 内存收件箱存储
+ */
+class InMemoryInboxStore implements IInboxStore {
+  readonly entries = new Map<string, { status: string; expiresAt: number }>();
+
+  async claim(
+    messageId: string,
+    handlerName: string,
+    leaseTime: number,
+  ): Promise<boolean> {
+    const key = `${handlerName}:${messageId}`;
+    const entry = this.entries.get(key);
+    if (entry && entry.expiresAt > Date.now()) {
+      return false;
+    }
+    this.entries.set(key, {
+      status: 'processing',
+      expiresAt: Date.now() + leaseTime,
+    });
+    return true;
+  }
+
+  async complete(
+    messageId: string,
+    handlerName: string,
+    retention: number,
+  ): Promise<void> {
+    this.entries.set(`${handlerName}:${messageId}`, {
+      status: 'processed',
+      expiresAt: Date.now() + retention,
+    });
+  }
+
+  async release(messageId: string, handlerName: string): Promise<void> {
+    this.entries.delete(`${handlerName}:${messageId}`);
+  }
+}
+
+const silentLogger = {
+  info: jest.fn(),
+  error: jest.fn(),
+  warn: jest.fn(),
+  debug: jest.fn(),
+} as unknown as IMessagingLoggerService;
+
+const createMessage = (id = EntityId.generate()): IMessage => ({
+  id,
+  type: MessageType.EVENT,
+  topic: 'order.paid',
+  payload: { amount: 10 },
+  priority: MessagePriority.NORMAL,
+  status: MessageStatus.PROCESSING,
+  tenantId: 'tenant-1',
+  senderId: 'billing',
+  createdAt: new Date(),
+  retryCount: 0,
+  maxRetries: 3,
+  headers: {},
+  metadata: {},
+});
+
+const createHandler = (
+  name = 'charge-handler',
+): IMessageHandler & {
+  handle: jest.Mock;
+  onSuccess: jest.Mock;
+} => ({
+  name,
+  supportedMessageTypes: [MessageType.EVENT],
+  supportedTopics: ['order.paid'],
+  handle: jest.fn(async () => undefined),
+  canHandle: () => true,
+  getPriority: () => 0,
+  onSuccess: jest.fn(async () => undefined),
+});
+
+describe('MessageInbox', () => {
+  let store: InMemoryInboxStore;
+  let inbox: MessageInbox;
+
+  beforeEach(() => {
+    store = new InMemoryInboxStore();
+    inbox = new MessageInbox(store, { logger: silentLogger });
+  });
+
+  afterEach(() => {
+    getDecoratorRegistry().clear();
+  });
+
+  it('应该只处理一次重复投递的消息并统计被拦截的重复消息', async () => {
+    const handler = createHandler();
+    const wrapped = inbox.wrap(handler);
+    const message = createMessage();
+    const redelivered = { ...message };
+
+    await wrapped.handle(message);
+    await wrapped.onSuccess?.(message);
+    await wrapped.handle(redelivered);
+    await wrapped.onSuccess?.(redelivered);
+
+    expect(handler.handle).toHaveBeenCalledTimes(1);
+    expect(handler.onSuccess).toHaveBeenCalledTimes(1);
+    expect(store.entries.get(`charge-handler:${message.id}`)?.status).toBe(
+      'processed',
+    );
+    expect(inbox.getStatistics()).toEqual({
+      processed: 1,
+      duplicatesSuppressed: 1,
+      handlers: {
+        'charge-handler': { processed: 1, duplicatesSuppressed: 1 },
+      },
+    });
+  });
+
+  it('同一消息应该可以被不同的处理器各处理一次', async () => {
+    const charge = createHandler('charge-handler');
+    const email = createHandler('email-handler');
+    const message = createMessage();
+
+    await inbox.wrap(charge).handle(message);
+    await inbox.wrap(email).handle(message);
+
+    expect(charge.handle).toHaveBeenCalledTimes(1);
+    expect(email.handle).toHaveBeenCalledTimes(1);
+    expect(inbox.getStatistics().duplicatesSuppressed).toBe(0);
+  });
+
+  it('处理失败时应该释放占用，重试时重新处理', async () => {
+    const handler = createHandler();
+    handler.handle.mockRejectedValueOnce(new Error('payment gateway down'));
+    const wrapped = inbox.wrap(handler);
+    const message = createMessage();
+
+    await expect(wrapped.handle(message)).rejects.toThrow(
+      'payment gateway down',
+    );
+    expect(store.entries.size).toBe(0);
+
+    await wrapped.handle(message);
+    expect(handler.handle).toHaveBeenCalledTimes(2);
+    expect(inbox.getStatistics().processed).toBe(1);
+  });
+
+  it('应该只为声明了 idempotency 的装饰器处理器启用收件箱', async () => {
+    @MessageHandler('order.paid', { idempotency: { retention: 1000 } })
+    class ChargeHandler {}
+
+    @MessageHandler('order.shipped')
+    class ShippingHandler {
+      @Subscribe('order.shipped.express', { idempotency: true })
+      async onExpress(): Promise<void> {}
+    }
+
+    const plain = createHandler('shipping-handler');
+    const message = createMessage();
+
+    expect(inbox.wrapDecorated(plain, ShippingHandler)).toBe(plain);
+    expect(inbox.wrapDecorated(plain, ShippingHandler, 'onExpress')).not.toBe(
+      plain,
+    );
+
+    const wrapped = inbox.wrapDecorated(createHandler(), new ChargeHandler());
+    await wrapped.handle(message);
+    await wrapped.handle(message);
+
+    const entry = store.entries.get(`charge-handler:${message.id}`);
+    expect(entry?.expiresAt).toBeLessThanOrEqual(Date.now() + 1000);
+    expect(inbox.getStatistics().duplicatesSuppressed).toBe(1);
+  });
+});
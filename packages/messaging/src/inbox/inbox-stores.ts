@@ -0,0 +1,178 @@
+/**
+ * 消费者收件箱存储
+ *
+ * @description 按消息ID和处理器名称记录处理状态，提供缓存和数据库两种实现
+ *
+ * ## 业务规则
+ *
+ * - 同一消息对同一处理器只能被占用一次，处理中或处理完成的消息不能再次占用
+ * - 处理中的记录在占用时间后过期，处理器异常退出时消息可以被重新处理
+ * - 处理完成的记录保留到保留时间结束，之后同一消息会被当作新消息处理
+ * - 释放处理权会删除记录
+ *
+ * ## 技术规则
+ *
+ * - CacheInboxStore 通过 overwrite: false 占用（Redis上为 SET NX），记录按TTL过期
+ * - SqlInboxStore 使用PostgreSQL语法，表结构见 getInboxTableDDL()，
+ *   过期记录需要定期调用 deleteExpired() 清理
+ *
+ * @since 1.0.0
+ */
+
+import type { ICacheService } from '@aiofix/cache';
+import type { IDatabaseConnection } from '@aiofix/database';
+import type { IInboxStore } from '../interfaces/messaging.interface';
+
+/**
+ * 收件箱记录状态
+ */
+type InboxEntryStatus = 'processing' | 'processed';
+
+/**
+ * 默认收件箱缓存键前缀
+ */
+export const DEFAULT_INBOX_KEY_PREFIX = 'messaging:inbox';
+
+/**
+ * 默认收件箱表名
+ */
+export const DEFAULT_INBOX_TABLE = 'message_inbox';
+
+/**
+ * 基于缓存的收件箱存储
+ */
+export class CacheInboxStore implements IInboxStore {
+  constructor(
+    private readonly cache: ICacheService,
+    private readonly keyPrefix = DEFAULT_INBOX_KEY_PREFIX,
+  ) {}
+
+  async claim(
+    messageId: string,
+    handlerName: string,
+    leaseTime: number,
+  ): Promise<boolean> {
+    return this.cache.set<InboxEntryStatus>(
+      this.getKey(messageId, handlerName),
+      'processing',
+      { ttl: leaseTime, overwrite: false },
+    );
+  }
+
+  async complete(
+    messageId: string,
+    handlerName: string,
+    retention: number,
+  ): Promise<void> {
+    await this.cache.set<InboxEntryStatus>(
+      this.getKey(messageId, handlerName),
+      'processed',
+      { ttl: retention },
+    );
+  }
+
+  async release(messageId: string, handlerName: string): Promise<void> {
+    await this.cache.delete(this.getKey(messageId, handlerName));
+  }
+
+  private getKey(messageId: string, handlerName: string): string {
+    return `${this.keyPrefix}:${handlerName}:${messageId}`;
+  }
+}
+
+/**
+ * 获取收件箱表的建表语句
+ *
+ * @param tableName - 表名
+ * @returns PostgreSQL建表和索引语句
+ */
+export function getInboxTableDDL(tableName = DEFAULT_INBOX_TABLE): string[] {
+  return [
+    `CREATE TABLE IF NOT EXISTS ${tableName} (
+      message_id VARCHAR(64) NOT NULL,
+      handler_name VARCHAR(255) NOT NULL,
+      status VARCHAR(16) NOT NULL,
+      expires_at TIMESTAMPTZ NOT NULL,
+      PRIMARY KEY (message_id, handler_name)
+    )`,
+    `CREATE INDEX IF NOT EXISTS ${tableName}_expires_idx
+      ON ${tableName} (expires_at)`,
+  ];
+}
+
+/**
+ * 基于SQL的收件箱存储
+ */
+export class SqlInboxStore implements IInboxStore {
+  constructor(
+    private readonly connection: IDatabaseConnection,
+    private readonly tableName = DEFAULT_INBOX_TABLE,
+  ) {}
+
+  async claim(
+    messageId: string,
+    handlerName: string,
+    leaseTime: number,
+  ): Promise<boolean> {
+    const now = new Date();
+    const result = await this.connection.execute(
+      `INSERT INTO ${this.tableName} (message_id, handler_name, status, expires_at) VALUES (?, ?, 'processing', ?)
+        ON CONFLICT (message_id, handler_name) DO UPDATE
+          SET status = 'processing', expires_at = EXCLUDED.expires_at
+          WHERE ${this.tableName}.expires_at <= ?`,
+      [messageId, handlerName, new Date(now.getTime() + leaseTime), now],
+    );
+    return result.affectedRows > 0;
+  }
+
+  async complete(
+    messageId: string,
+    handlerName: string,
+    retention: number,
+  ): Promise<void> {
+    await this.connection.execute(
+      `UPDATE ${this.tableName} SET status = 'processed', expires_at = ? WHERE message_id = ? AND handler_name = ?`,
+      [new Date(Date.now() + retention), messageId, handlerName],
+    );
+  }
+
+  async release(messageId: string, handlerName: string): Promise<void> {
+    await this.connection.execute(
+      `DELETE FROM ${this.tableName} WHERE message_id = ? AND handler_name = ?`,
+      [messageId, handlerName],
+    );
+  }
+
+  /**
+   * 删除指定时间之前过期的记录
+   *
+   * @returns 删除的记录数量
+   */
+  async deleteExpired(before: Date = new Date()): Promise<number> {
+    const result = await this.connection.execute(
+      `DELETE FROM ${this.tableName} WHERE expires_at <= ?`,
+      [before],
+    );
+    return result.affectedRows;
+  }
+}
+
+/**
+ * 创建缓存收件箱存储工厂函数
+ */
+export function createCacheInboxStore(
+  cache: ICacheService,
+  keyPrefix?: string,
+): CacheInboxStore {
+  return new CacheInboxStore(cache, keyPrefix);
+}
+
+/**
+ * 创建SQL收件箱存储工厂函数
+ */
+export function createSqlInboxStore(
+  connection: IDatabaseConnection,
+  tableName?: string,
+): SqlInboxStore {
+  return new SqlInboxStore(connection, tableName);
+}
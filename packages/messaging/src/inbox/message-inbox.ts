@@ -0,0 +1,257 @@
+/**
+ * 消费者收件箱
+ *
+ * @description 为消息处理器提供幂等消费，至少一次投递下重复收到的消息只被处理一次
+ *
+ * ## 业务规则
+ *
+ * ### 去重规则
+ * - 以消息ID和处理器名称为键，同一消息可以被不同的处理器各处理一次
+ * - 处理前占用消息，占用失败说明消息已处理或正在被其他消费者处理，直接跳过
+ * - 被跳过的消息视为处理成功，不调用处理器的 onSuccess 回调
+ * - 处理成功后记录保留到保留时间结束，处理失败时释放占用，重试时重新处理
+ *
+ * ### 启用规则
+ * - 按处理器启用，通过 @MessageHandler、@EventHandler 或 @Subscribe 的
+ *   idempotency 选项声明，订阅方法的选项优先于类装饰器的选项
+ * - 未声明 idempotency 的处理器不经过收件箱
+ *
+ * ### 统计规则
+ * - 分别统计每个处理器处理完成的消息数和被拦截的重复消息数
+ *
+ * @example
+ * ```typescript
+ * @MessageHandler('order.paid', { idempotency: { retention: 86400000 } })
+ * export class ChargeHandler { ... }
+ *
+ * const inbox = createMessageInbox(createCacheInboxStore(cacheService));
+ * await queue.subscribe('order.paid', inbox.wrapDecorated(handler, chargeHandler));
+ * ```
+ *
+ * @since 1.0.0
+ */
+
+import type {
+  IInboxHandlerStatistics,
+  IInboxStatistics,
+  IInboxStore,
+  IMessage,
+  IMessageHandler,
+  IRetryPolicy,
+  MessageType,
+} from '../interfaces/messaging.interface';
+import type { IIdempotencyOptions } from '../decorators/messaging-decorators.interface';
+import { getIdempotencyOptions } from '../decorators/decorator-utils';
+import type { IMessagingLoggerService } from '../interfaces/messaging-logger.interface';
+import { createMessagingLogger } from '../factories/messaging-logger.factory';
+
+/**
+ * 默认处理记录保留时间：7天
+ */
+const DEFAULT_RETENTION = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * 默认处理占用时间：5分钟
+ */
+const DEFAULT_LEASE_TIME = 5 * 60 * 1000;
+
+/**
+ * 收件箱选项
+ */
+export interface IMessageInboxOptions {
+  /** 默认处理记录保留时间（毫秒） */
+  retention?: number;
+  /** 默认处理占用时间（毫秒） */
+  leaseTime?: number;
+  /** 日志器 */
+  logger?: IMessagingLoggerService;
+}
+
+/**
+ * 经过收件箱的消息处理器
+ */
+class InboxMessageHandler implements IMessageHandler {
+  private readonly suppressed = new WeakSet<IMessage>();
+
+  constructor(
+    private readonly inner: IMessageHandler,
+    private readonly inbox: MessageInbox,
+    private readonly options: Required<IIdempotencyOptions>,
+  ) {}
+
+  get name(): string {
+    return this.inner.name;
+  }
+
+  get supportedMessageTypes(): MessageType[] {
+    return this.inner.supportedMessageTypes;
+  }
+
+  get supportedTopics(): string[] {
+    return this.inner.supportedTopics;
+  }
+
+  get retryPolicy(): Partial<IRetryPolicy> | undefined {
+    return this.inner.retryPolicy;
+  }
+
+  async handle(message: IMessage): Promise<void> {
+    const handled = await this.inbox.process(message, this.inner, this.options);
+    if (!handled) {
+      this.suppressed.add(message);
+    }
+  }
+
+  canHandle(message: IMessage): boolean {
+    return this.inner.canHandle(message);
+  }
+
+  getPriority(): number {
+    return this.inner.getPriority();
+  }
+
+  async onFailure(message: IMessage, error: Error): Promise<void> {
+    await this.inner.onFailure?.(message, error);
+  }
+
+  async onSuccess(message: IMessage): Promise<void> {
+    if (this.suppressed.delete(message)) {
+      return;
+    }
+    await this.inner.onSuccess?.(message);
+  }
+}
+
+/**
+ * 消费者收件箱
+ */
+export class MessageInbox {
+  private readonly statistics = new Map<string, IInboxHandlerStatistics>();
+  private readonly logger: IMessagingLoggerService;
+
+  constructor(
+    private readonly store: IInboxStore,
+    private readonly options: IMessageInboxOptions = {},
+  ) {
+    this.logger = options.logger || createMessagingLogger('message-inbox');
+  }
+
+  /**
+   * 为处理器启用幂等消费
+   *
+   * @param handler - 消息处理器
+   * @param options - 幂等消费选项，未设置的项使用收件箱的默认值
+   * @returns 经过收件箱的处理器
+   */
+  wrap(
+    handler: IMessageHandler,
+    options: IIdempotencyOptions = {},
+  ): IMessageHandler {
+    return new InboxMessageHandler(handler, this, {
+      retention:
+        options.retention ?? this.options.retention ?? DEFAULT_RETENTION,
+      leaseTime:
+        options.leaseTime ?? this.options.leaseTime ?? DEFAULT_LEASE_TIME,
+    });
+  }
+
+  /**
+   * 按装饰器声明为处理器启用幂等消费
+   *
+   * @param handler - 消息处理器
+   * @param target - 应用了处理器装饰器的类或实例
+   * @param methodName - 订阅方法名称
+   * @returns 声明了 idempotency 时返回经过收件箱的处理器，否则返回原处理器
+   */
+  wrapDecorated(
+    handler: IMessageHandler,
+    target: object | (new (...args: unknown[]) => unknown),
+    methodName?: string,
+  ): IMessageHandler {
+    const options = getIdempotencyOptions(target, methodName);
+    return options ? this.wrap(handler, options) : handler;
+  }
+
+  /**
+   * 通过收件箱处理消息
+   *
+   * @returns 是否调用了处理器，重复消息返回false
+   */
+  async process(
+    message: IMessage,
+    handler: IMessageHandler,
+    options: Required<IIdempotencyOptions>,
+  ): Promise<boolean> {
+    const messageId = message.id.toString();
+    const statistics = this.getHandlerStatistics(handler.name);
+
+    const claimed = await this.store.claim(
+      messageId,
+      handler.name,
+      options.leaseTime,
+    );
+    if (!claimed) {
+      statistics.duplicatesSuppressed++;
+      this.logger.info('重复消息已跳过', {
+        messageId,
+        topic: message.topic,
+        handlerName: handler.name,
+      });
+      return false;
+    }
+
+    try {
+      await handler.handle(message);
+    } catch (error) {
+      try {
+        await this.store.release(messageId, handler.name);
+      } catch (releaseError) {
+        this.logger.error('释放收件箱记录失败', releaseError as Error, {
+          messageId,
+          handlerName: handler.name,
+        });
+      }
+      throw error;
+    }
+
+    await this.store.complete(messageId, handler.name, options.retention);
+    statistics.processed++;
+    return true;
+  }
+
+  /**
+   * 获取收件箱统计信息
+   */
+  getStatistics(): IInboxStatistics {
+    const handlers: Record<string, IInboxHandlerStatistics> = {};
+    let processed = 0;
+    let duplicatesSuppressed = 0;
+
+    for (const [name, statistics] of this.statistics) {
+      handlers[name] = { ...statistics };
+      processed += statistics.processed;
+      duplicatesSuppressed += statistics.duplicatesSuppressed;
+    }
+
+    return { processed, duplicatesSuppressed, handlers };
+  }
+
+  private getHandlerStatistics(handlerName: string): IInboxHandlerStatistics {
+    let statistics = this.statistics.get(handlerName);
+    if (!statistics) {
+      statistics = { processed: 0, duplicatesSuppressed: 0 };
+      this.statistics.set(handlerName, statistics);
+    }
+    return statistics;
+  }
+}
+
+/**
+ * 创建消费者收件箱工厂函数
+ */
+export function createMessageInbox(
+  store: IInboxStore,
+  options?: IMessageInboxOptions,
+): MessageInbox {
+  return new MessageInbox(store, options);
+}
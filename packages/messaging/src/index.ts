@@ -73,10 +73,44 @@ export {
 
 // 简化Bull队列适配器
 export { SimpleBullQueueAdapter } from './adapters/simple-bull-queue.adapter';
-export type { ISimpleBullConfig } from './adapters/simple-bull-queue.adapter';
+export type {
+  ISimpleBullConfig,
+  BullQueueFactory,
+} from './adapters/simple-bull-queue.adapter';
+
+// 重试策略
+export {
+  DEFAULT_RETRY_POLICY,
+  resolveRetryPolicy,
+  computeRetryDelay,
+  retryPolicyFromConfig,
+} from './retry/retry-policy';
+
+// 消费者收件箱（幂等消费）
+export { MessageInbox, createMessageInbox } from './inbox/message-inbox';
+export type { IMessageInboxOptions } from './inbox/message-inbox';
+export {
+  CacheInboxStore,
+  SqlInboxStore,
+  DEFAULT_INBOX_KEY_PREFIX,
+  DEFAULT_INBOX_TABLE,
+  getInboxTableDDL,
+  createCacheInboxStore,
+  createSqlInboxStore,
+} from './inbox/inbox-stores';
 
 // 简化消息传递服务
 export { SimpleMessagingService } from './services/simple-messaging.service';
+export type { ISimpleMessagingOptions } from './services/simple-messaging.service';
+
+// 事务性发件箱发布者
+export { OutboxMessagePublisher } from './outbox/outbox-message.publisher';
+
+// 消息传递错误
+export {
+  MessagingRequestTimeoutError,
+  MessagingRequestCancelledError,
+} from './errors/messaging.errors';
 
 // 装饰器系统
 export * from './decorators';
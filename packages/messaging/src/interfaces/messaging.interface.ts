@@ -171,6 +171,9 @@ export interface IMessage {
  * 消息发送选项
  */
 export interface IMessageSendOptions {
+  /** 消息ID，必须是UUID v4，队列中已有相同ID的消息时不会重复入队 */
+  messageId?: string;
+
   /** 消息优先级 */
   priority?: MessagePriority;
 
@@ -205,6 +208,159 @@ export interface IMessageSendOptions {
   headers?: Record<string, string>;
 }
 
+/**
+ * 请求选项
+ */
+export interface IMessageRequestOptions extends IMessageSendOptions {
+  /** 取消信号，触发后请求以取消错误结束 */
+  signal?: globalThis.AbortSignal;
+}
+
+/**
+ * 重试策略
+ *
+ * @description 第n次重试的延迟为 initialDelay × multiplier^(n-1)，不超过 maxDelay，
+ * 再在 ±jitter 比例内随机浮动，避免大量消息同时重试
+ */
+export interface IRetryPolicy {
+  /** 最大重试次数，不含首次投递 */
+  maxRetries: number;
+
+  /** 首次重试的延迟（毫秒） */
+  initialDelay: number;
+
+  /** 每次重试延迟的增长倍数 */
+  multiplier: number;
+
+  /** 重试延迟上限（毫秒） */
+  maxDelay: number;
+
+  /** 随机抖动比例，0到1之间 */
+  jitter: number;
+}
+
+/**
+ * 死信消息
+ */
+export interface IDeadLetterMessage {
+  /** 原始消息 */
+  message: IMessage;
+
+  /** 消息所在的队列 */
+  queueName: string;
+
+  /** 最后失败的处理器，没有处理器订阅时为空 */
+  handlerName?: string;
+
+  /** 最后一次失败的错误 */
+  error: {
+    name: string;
+    message: string;
+    stack?: string;
+  };
+
+  /** 投递次数 */
+  attempts: number;
+
+  /** 进入死信队列的时间 */
+  deadLetteredAt: Date;
+}
+
+/**
+ * 死信消息查询条件
+ */
+export interface IDeadLetterQuery {
+  /** 只返回指定主题的消息 */
+  topic?: string;
+
+  /** 只处理指定ID的消息 */
+  messageIds?: string[];
+
+  /** 最多返回的数量 */
+  limit?: number;
+}
+
+/**
+ * 死信队列管理接口
+ *
+ * @description 所有操作都限定在一个租户内
+ */
+export interface IDeadLetterQueueManager {
+  /**
+   * 查看死信消息，按进入死信队列的时间排序
+   */
+  getDeadLetters(
+    tenantId: string,
+    query?: IDeadLetterQuery,
+  ): Promise<IDeadLetterMessage[]>;
+
+  /**
+   * 重新投递死信消息，返回投递的数量
+   */
+  replayDeadLetters(
+    tenantId: string,
+    query?: IDeadLetterQuery,
+  ): Promise<number>;
+
+  /**
+   * 删除死信消息，返回删除的数量
+   */
+  purgeDeadLetters(tenantId: string, query?: IDeadLetterQuery): Promise<number>;
+}
+
+/**
+ * 消费者收件箱存储接口
+ *
+ * @description 按消息ID和处理器名称记录处理状态，用于幂等消费
+ */
+export interface IInboxStore {
+  /**
+   * 占用消息的处理权
+   *
+   * @param messageId - 消息ID
+   * @param handlerName - 处理器名称
+   * @param leaseTime - 占用时间（毫秒），超过后处理权可以被重新占用
+   * @returns 是否占用成功，消息已处理或正在处理时返回false
+   */
+  claim(
+    messageId: string,
+    handlerName: string,
+    leaseTime: number,
+  ): Promise<boolean>;
+
+  /**
+   * 标记消息处理完成，在保留时间内再次收到的同一消息被视为重复
+   */
+  complete(
+    messageId: string,
+    handlerName: string,
+    retention: number,
+  ): Promise<void>;
+
+  /**
+   * 释放处理权，处理失败后消息可以被重新处理
+   */
+  release(messageId: string, handlerName: string): Promise<void>;
+}
+
+/**
+ * 收件箱处理器统计
+ */
+export interface IInboxHandlerStatistics {
+  /** 处理完成的消息数 */
+  processed: number;
+  /** 被拦截的重复消息数 */
+  duplicatesSuppressed: number;
+}
+
+/**
+ * 收件箱统计信息
+ */
+export interface IInboxStatistics extends IInboxHandlerStatistics {
+  /** 按处理器名称统计 */
+  handlers: Record<string, IInboxHandlerStatistics>;
+}
+
 /**
  * 消息处理器接口
  */
@@ -218,6 +374,9 @@ export interface IMessageHandler {
   /** 支持的主题列表 */
   readonly supportedTopics: string[];
 
+  /** 处理器级别的重试策略，覆盖队列的重试策略 */
+  readonly retryPolicy?: Partial<IRetryPolicy>;
+
   /**
    * 处理消息
    */
@@ -430,7 +589,7 @@ export interface IMessagingService {
    */
   subscribe(
     topic: string,
-    handler: (message: unknown) => Promise<void>,
+    handler: (payload: unknown, message: IMessage) => Promise<void>,
   ): Promise<string>;
 
   /**
@@ -441,7 +600,12 @@ export interface IMessagingService {
   /**
    * 请求响应模式
    */
-  request<T>(topic: string, payload: unknown, timeout?: number): Promise<T>;
+  request<T>(
+    topic: string,
+    payload: unknown,
+    timeout?: number,
+    options?: IMessageRequestOptions,
+  ): Promise<T>;
 
   /**
    * 响应请求
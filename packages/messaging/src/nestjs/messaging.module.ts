@@ -50,6 +50,7 @@
  * @since 1.0.0
  */
 
+import { randomUUID } from 'crypto';
 import {
   Module,
   DynamicModule,
@@ -63,6 +64,7 @@ import { MessagingConfigService } from '../config/messaging-config.service';
 import { SimpleMessagingService } from '../services/simple-messaging.service';
 import { SimpleBullQueueAdapter } from '../adapters/simple-bull-queue.adapter';
 import { createMessagingLogger } from '../factories/messaging-logger.factory';
+import { retryPolicyFromConfig } from '../retry/retry-policy';
 
 /**
  * Messaging模块选项接口
@@ -224,7 +226,7 @@ export class MessagingModule implements OnModuleInit, OnModuleDestroy {
     try {
       // 清理messaging服务
       if (MessagingModule.messagingService) {
-        // SimpleMessagingService没有destroy方法，直接设置为null
+        await MessagingModule.messagingService.destroy();
         MessagingModule.messagingService = null;
       }
 
@@ -280,11 +282,51 @@ export class MessagingModule implements OnModuleInit, OnModuleDestroy {
         logger: any,
       ) => {
         const config = await configService.getConfig();
+        const queueConfig = config.queues?.default;
+        const handlerRetryPolicies = Object.fromEntries(
+          Object.values(config.handlers ?? {}).map((handler) => [
+            handler.name,
+            retryPolicyFromConfig(handler),
+          ]),
+        );
         return new SimpleBullQueueAdapter(
           {
             name: 'default',
             redis: config.redis,
             enableTenantIsolation: config.global.enableTenantIsolation,
+            concurrency: queueConfig?.concurrency,
+            retryPolicy: queueConfig
+              ? retryPolicyFromConfig(queueConfig)
+              : {
+                  maxRetries: config.global.maxRetries,
+                  initialDelay: config.global.retryDelay,
+                },
+            handlerRetryPolicies,
+            deadLetter: queueConfig && {
+              enabled: queueConfig.enableDeadLetterQueue,
+              queueName: queueConfig.deadLetterQueueName,
+            },
+          },
+          logger,
+        );
+      },
+      inject: ['MESSAGING_CONFIG_SERVICE', 'MESSAGING_LOGGER'],
+    });
+
+    // 回复队列适配器提供者，每个实例一个，请求的回复只投递到发起请求的实例
+    providers.push({
+      provide: 'BULL_REPLY_QUEUE_ADAPTER',
+      useFactory: async (
+        configService: MessagingConfigService,
+        logger: any,
+      ) => {
+        const config = await configService.getConfig();
+        return new SimpleBullQueueAdapter(
+          {
+            name: `default.reply.${randomUUID()}`,
+            redis: config.redis,
+            enableTenantIsolation: config.global.enableTenantIsolation,
+            removeOnComplete: true,
           },
           logger,
         );
@@ -295,17 +337,26 @@ export class MessagingModule implements OnModuleInit, OnModuleDestroy {
     // Messaging服务提供者
     providers.push({
       provide: 'MESSAGING_SERVICE',
-      useFactory: async (queueAdapter: SimpleBullQueueAdapter, logger: any) => {
+      useFactory: async (
+        queueAdapter: SimpleBullQueueAdapter,
+        replyQueue: SimpleBullQueueAdapter,
+        logger: any,
+      ) => {
         if (!this.messagingService) {
           this.messagingService = new SimpleMessagingService(
             [queueAdapter],
             logger,
+            { replyQueue },
           );
           // SimpleMessagingService没有initialize方法
         }
         return this.messagingService;
       },
-      inject: ['BULL_QUEUE_ADAPTER', 'MESSAGING_LOGGER'],
+      inject: [
+        'BULL_QUEUE_ADAPTER',
+        'BULL_REPLY_QUEUE_ADAPTER',
+        'MESSAGING_LOGGER',
+      ],
     });
 
     return providers;
@@ -0,0 +1,87 @@
+/**
+ * 发件箱消息发布者测试
+ *
+ * @description 验证发件箱事件到消息的映射：主题、消息ID、消息头和租户上下文
+ *
+ * @since 1.0.0
+ */
+
+import { randomUUID } from 'crypto';
+import { TenantContextManager } from '@aiofix/core';
+import type { IOutboxRecord } from '@aiofix/database';
+import { OutboxMessagePublisher } from '../outbox-message.publisher';
+import type { SimpleMessagingService } from '../../services/simple-messaging.service';
+
+const createRecord = (
+  overrides: Partial<IOutboxRecord> = {},
+): IOutboxRecord => ({
+  sequence: 12,
+  eventId: randomUUID(),
+  tenantId: 'tenant-1',
+  aggregateType: 'Order',
+  aggregateId: 'order-1',
+  aggregateVersion: 3,
+  eventType: 'OrderPaid',
+  payload: { amount: 10 },
+  metadata: { source: 'spec' },
+  occurredAt: new Date('2026-01-01T00:00:00.000Z'),
+  attempts: 0,
+  availableAt: new Date('2026-01-01T00:00:00.000Z'),
+  ...overrides,
+});
+
+describe('OutboxMessagePublisher', () => {
+  let tenantIds: Array<string | undefined>;
+  let messagingService: { publish: jest.Mock };
+  let publisher: OutboxMessagePublisher;
+
+  beforeEach(() => {
+    tenantIds = [];
+    messagingService = {
+      publish: jest.fn(async () => {
+        tenantIds.push(TenantContextManager.getCurrentTenantId());
+      }),
+    };
+    publisher = new OutboxMessagePublisher(
+      messagingService as unknown as SimpleMessagingService,
+    );
+  });
+
+  it('应该在事件所属租户的上下文中按事件类型发布', async () => {
+    const record = createRecord();
+
+    await publisher.publish(record);
+
+    expect(messagingService.publish).toHaveBeenCalledWith(
+      'OrderPaid',
+      { amount: 10 },
+      expect.objectContaining({
+        messageId: record.eventId,
+        routingKey: 'Order.order-1',
+        headers: {
+          'x-event-id': record.eventId,
+          'x-aggregate-type': 'Order',
+          'x-aggregate-id': 'order-1',
+          'x-aggregate-version': '3',
+        },
+        metadata: {
+          source: 'spec',
+          outboxSequence: 12,
+          occurredAt: '2026-01-01T00:00:00.000Z',
+        },
+      }),
+    );
+    expect(tenantIds).toEqual(['tenant-1']);
+  });
+
+  it('事件ID不是UUID时应该使用生成的消息ID，没有租户时直接发布', async () => {
+    await publisher.publish(
+      createRecord({ eventId: 'legacy-1', tenantId: undefined }),
+    );
+
+    const [, , options] = messagingService.publish.mock.calls[0];
+    expect(options.messageId).toBeUndefined();
+    expect(options.headers['x-event-id']).toBe('legacy-1');
+    expect(tenantIds).toEqual([undefined]);
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * 发件箱消息发布者
+ *
+ * @description 把数据库发件箱中的事件发布到消息层，供发件箱中继使用
+ *
+ * ## 业务规则
+ *
+ * - 事件类型作为消息主题，事件数据作为消息载荷
+ * - 事件ID是UUID v4时作为消息ID，中继重复发布时队列不会重复入队
+ * - 事件ID、聚合根类型、ID和版本写入消息头，消费方可以按事件ID去重、按聚合根版本排序
+ * - 在事件所属租户的上下文中发布，消息携带事件的租户
+ *
+ * @since 1.0.0
+ */
+
+import { EntityId, TenantContextManager } from '@aiofix/core';
+import type { IOutboxPublisher, IOutboxRecord } from '@aiofix/database';
+import type { SimpleMessagingService } from '../services/simple-messaging.service';
+
+/**
+ * 发件箱消息发布者
+ */
+export class OutboxMessagePublisher implements IOutboxPublisher {
+  constructor(private readonly messagingService: SimpleMessagingService) {}
+
+  async publish(record: IOutboxRecord): Promise<void> {
+    const publish = (): Promise<void> =>
+      this.messagingService.publish(record.eventType, record.payload, {
+        messageId: EntityId.isValid(record.eventId)
+          ? record.eventId
+          : undefined,
+        routingKey: `${record.aggregateType}.${record.aggregateId}`,
+        headers: {
+          'x-event-id': record.eventId,
+          'x-aggregate-type': record.aggregateType,
+          'x-aggregate-id': record.aggregateId,
+          'x-aggregate-version': String(record.aggregateVersion),
+        },
+        metadata: {
+          ...record.metadata,
+          outboxSequence: record.sequence,
+          occurredAt: record.occurredAt.toISOString(),
+        },
+      });
+
+    if (record.tenantId) {
+      await TenantContextManager.run(record.tenantId, publish);
+    } else {
+      await publish();
+    }
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * 重试策略测试
+ *
+ * @description 验证策略层级合并、取值范围限制、指数退避延迟和抖动
+ *
+ * @since 1.0.0
+ */
+
+import {
+  DEFAULT_RETRY_POLICY,
+  computeRetryDelay,
+  resolveRetryPolicy,
+  retryPolicyFromConfig,
+} from '../retry-policy';
+
+describe('resolveRetryPolicy', () => {
+  it('没有配置时应该使用默认策略', () => {
+    expect(resolveRetryPolicy()).toEqual(DEFAULT_RETRY_POLICY);
+  });
+
+  it('后面的层级应该覆盖前面的层级，未定义的字段不覆盖', () => {
+    const policy = resolveRetryPolicy(
+      { maxRetries: 1, initialDelay: 100 },
+      undefined,
+      { maxRetries: 5, initialDelay: undefined },
+    );
+
+    expect(policy).toMatchObject({ maxRetries: 5, initialDelay: 100 });
+  });
+
+  it('应该把超出范围的值限制在有效范围内', () => {
+    expect(
+      resolveRetryPolicy({
+        maxRetries: -2.5,
+        initialDelay: -1,
+        multiplier: 0.5,
+        maxDelay: -1,
+        jitter: 3,
+      }),
+    ).toEqual({
+      maxRetries: 0,
+      initialDelay: 0,
+      multiplier: 1,
+      maxDelay: 0,
+      jitter: 1,
+    });
+  });
+});
+
+describe('computeRetryDelay', () => {
+  const policy = resolveRetryPolicy({
+    initialDelay: 100,
+    multiplier: 3,
+    maxDelay: 1000,
+    jitter: 0,
+  });
+
+  it('应该按倍数指数增长并且不超过延迟上限', () => {
+    expect([1, 2, 3, 4].map((n) => computeRetryDelay(policy, n))).toEqual([
+      100, 300, 900, 1000,
+    ]);
+  });
+
+  it('应该在抖动比例范围内随机调整延迟', () => {
+    const jittered = { ...policy, jitter: 0.5 };
+
+    expect(computeRetryDelay(jittered, 2, () => 0)).toBe(150);
+    expect(computeRetryDelay(jittered, 2, () => 0.5)).toBe(300);
+    expect(computeRetryDelay(jittered, 2, () => 0.999999)).toBe(450);
+  });
+});
+
+describe('retryPolicyFromConfig', () => {
+  it('应该把队列或处理器配置映射为重试策略字段', () => {
+    expect(
+      retryPolicyFromConfig({
+        maxRetries: 4,
+        retryDelay: 250,
+        backoffMultiplier: 1.5,
+        maxRetryDelay: 5000,
+        retryJitter: 0.1,
+      }),
+    ).toEqual({
+      maxRetries: 4,
+      initialDelay: 250,
+      multiplier: 1.5,
+      maxDelay: 5000,
+      jitter: 0.1,
+    });
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * 重试策略
+ *
+ * @description 计算消息处理失败后的重试延迟，合并消息、队列和处理器三个层级的重试配置
+ *
+ * ## 业务规则
+ *
+ * - 优先级从低到高依次为：默认策略、消息的最大重试次数、队列配置、处理器配置
+ * - 重试延迟按指数增长，不超过延迟上限，再加上随机抖动
+ * - 抖动比例限制在0到1之间，重试次数和延迟不会为负数
+ *
+ * @since 1.0.0
+ */
+
+import type { IHandlerConfig, IQueueConfig } from '@aiofix/config';
+import type { IRetryPolicy } from '../interfaces/messaging.interface';
+
+/**
+ * 默认重试策略
+ */
+export const DEFAULT_RETRY_POLICY: Readonly<IRetryPolicy> = {
+  maxRetries: 3,
+  initialDelay: 1000,
+  multiplier: 2,
+  maxDelay: 60000,
+  jitter: 0.2,
+};
+
+/**
+ * 合并多个层级的重试策略，后面的层级覆盖前面的层级
+ *
+ * @param layers - 从低到高排列的策略，未定义的字段不会覆盖
+ * @returns 完整的重试策略
+ */
+export function resolveRetryPolicy(
+  ...layers: Array<Partial<IRetryPolicy> | undefined>
+): IRetryPolicy {
+  const policy: IRetryPolicy = { ...DEFAULT_RETRY_POLICY };
+  for (const layer of layers) {
+    for (const [key, value] of Object.entries(layer ?? {})) {
+      if (value !== undefined) {
+        policy[key as keyof IRetryPolicy] = value;
+      }
+    }
+  }
+
+  return {
+    maxRetries: Math.max(0, Math.floor(policy.maxRetries)),
+    initialDelay: Math.max(0, policy.initialDelay),
+    multiplier: Math.max(1, policy.multiplier),
+    maxDelay: Math.max(0, policy.maxDelay),
+    jitter: Math.min(1, Math.max(0, policy.jitter)),
+  };
+}
+
+/**
+ * 计算第n次重试的延迟
+ *
+ * @param policy - 重试策略
+ * @param retryNumber - 第几次重试，从1开始
+ * @param random - 随机数来源，返回[0, 1)之间的数
+ * @returns 延迟毫秒数
+ */
+export function computeRetryDelay(
+  policy: IRetryPolicy,
+  retryNumber: number,
+  random: () => number = Math.random,
+): number {
+  const base = Math.min(
+    policy.maxDelay,
+    policy.initialDelay * Math.pow(policy.multiplier, retryNumber - 1),
+  );
+  const spread = base * policy.jitter;
+  return Math.max(0, Math.round(base - spread + random() * spread * 2));
+}
+
+/**
+ * 从队列或处理器配置中读取重试策略
+ *
+ * @param config - 队列或处理器配置
+ * @returns 配置中定义的策略字段
+ */
+export function retryPolicyFromConfig(
+  config: Pick<
+    IQueueConfig | IHandlerConfig,
+    | 'maxRetries'
+    | 'retryDelay'
+    | 'backoffMultiplier'
+    | 'maxRetryDelay'
+    | 'retryJitter'
+  >,
+): Partial<IRetryPolicy> {
+  return {
+    maxRetries: config.maxRetries,
+    initialDelay: config.retryDelay,
+    multiplier: config.backoffMultiplier,
+    maxDelay: config.maxRetryDelay,
+    jitter: config.retryJitter,
+  };
+}
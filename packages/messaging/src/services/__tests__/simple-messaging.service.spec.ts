@@ -0,0 +1,249 @@
+/**
+ * 简化消息传递服务测试
+ *
+ * @description 使用进程内回环队列验证请求响应：关联ID、实例回复队列、迟到回复的丢弃、超时、取消和销毁
+ *
+ * @since 1.0.0
+ */
+
+import { SimpleMessagingService } from '../simple-messaging.service';
+import type { SimpleBullQueueAdapter } from '../../adapters/simple-bull-queue.adapter';
+import {
+  MessagingRequestCancelledError,
+  MessagingRequestTimeoutError,
+} from '../../errors/messaging.errors';
+import {
+  IMessage,
+  IMessageHandler,
+  MessageType,
+} from '../../interfaces/messaging.interface';
+import type { IMessagingLoggerService } from '../../interfaces/messaging-logger.interface';
+
+/**
+ * 回环队列，发送的消息异步投递给订阅同一主题且能处理该消息的处理器，
+ * 没有处理器的消息记入 unhandled（真实队列中这些消息会被重试或转入死信）
+ */
+class LoopbackQueue {
+  readonly type = 'loopback';
+  readonly subscriptions = new Map<
+    string,
+    { topic: string; handler: IMessageHandler }
+  >();
+  readonly sent: IMessage[] = [];
+  readonly unhandled: IMessage[] = [];
+  private sequence = 0;
+
+  constructor(
+    readonly name: string,
+    private readonly broker: Map<string, LoopbackQueue>,
+  ) {
+    broker.set(name, this);
+  }
+
+  async subscribe(topic: string, handler: IMessageHandler): Promise<string> {
+    const subscriptionId = `${this.name}-sub-${++this.sequence}`;
+    this.subscriptions.set(subscriptionId, { topic, handler });
+    return subscriptionId;
+  }
+
+  async unsubscribe(subscriptionId: string): Promise<void> {
+    this.subscriptions.delete(subscriptionId);
+  }
+
+  async send(message: IMessage): Promise<void> {
+    await this.sendToQueue(this.name, message);
+  }
+
+  async sendToQueue(queueName: string, message: IMessage): Promise<void> {
+    this.broker.get(queueName)!.deliver(message);
+  }
+
+  topics(): string[] {
+    return Array.from(this.subscriptions.values()).map(({ topic }) => topic);
+  }
+
+  private deliver(message: IMessage): void {
+    this.sent.push(message);
+    globalThis.setImmediate(() => {
+      const handlers = Array.from(this.subscriptions.values()).filter(
+        ({ topic, handler }) =>
+          topic === message.topic && handler.canHandle(message),
+      );
+      if (handlers.length === 0) {
+        this.unhandled.push(message);
+      }
+      for (const { handler } of handlers) {
+        void handler.handle(message);
+      }
+    });
+  }
+}
+
+const silentLogger: IMessagingLoggerService = {
+  info: jest.fn(),
+  debug: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+} as unknown as IMessagingLoggerService;
+
+const asAdapter = (queue: LoopbackQueue): SimpleBullQueueAdapter =>
+  queue as unknown as SimpleBullQueueAdapter;
+
+describe('SimpleMessagingService 请求响应', () => {
+  let broker: Map<string, LoopbackQueue>;
+  let queue: LoopbackQueue;
+  let replyQueue: LoopbackQueue;
+  let service: SimpleMessagingService;
+
+  beforeEach(() => {
+    broker = new Map();
+    queue = new LoopbackQueue('shared', broker);
+    replyQueue = new LoopbackQueue('shared.reply.a', broker);
+    service = new SimpleMessagingService([asAdapter(queue)], silentLogger, {
+      replyQueue: asAdapter(replyQueue),
+    });
+  });
+
+  afterEach(async () => {
+    await service.destroy();
+  });
+
+  it('应该把请求和响应方通过 reply() 发送的回复配对', async () => {
+    await service.subscribe('user.lookup', async (payload, message) => {
+      const { userId } = payload as { userId: string };
+      await service.reply(message, { userId, name: 'Alice' });
+    });
+
+    const response = await service.request<{ name: string }>(
+      'user.lookup',
+      { userId: 'u-1' },
+      1000,
+    );
+
+    expect(response).toEqual({ userId: 'u-1', name: 'Alice' });
+    const [request] = queue.sent;
+    const [reply] = replyQueue.sent;
+    expect(request.type).toBe(MessageType.QUERY);
+    expect(request.replyTo).toBe('shared.reply.a');
+    expect(reply.topic).toBe(request.replyTo);
+    expect(reply.correlationId).toBe(request.correlationId);
+    expect(reply.expiresAt).toEqual(request.expiresAt);
+    expect(queue.sent).toHaveLength(1);
+    expect(queue.topics()).toEqual(['user.lookup']);
+  });
+
+  it('并发请求应该共用回复队列，按关联ID配对回复', async () => {
+    await service.subscribe('echo', async (payload, message) => {
+      await service.reply(message, payload);
+    });
+
+    const responses = await Promise.all([
+      service.request('echo', { n: 1 }, 1000),
+      service.request('echo', { n: 2 }, 1000),
+    ]);
+
+    expect(responses).toEqual([{ n: 1 }, { n: 2 }]);
+    expect(replyQueue.topics()).toEqual(['shared.reply.a']);
+    expect(new Set(replyQueue.sent.map((m) => m.correlationId)).size).toBe(2);
+  });
+
+  it('回复只投递到发起请求的实例，不进入共享队列', async () => {
+    const otherReplyQueue = new LoopbackQueue('shared.reply.b', broker);
+    const responder = new SimpleMessagingService(
+      [asAdapter(queue)],
+      silentLogger,
+      { replyQueue: asAdapter(otherReplyQueue) },
+    );
+    await responder.subscribe('price', async (payload, message) => {
+      await responder.reply(message, { price: 42 });
+    });
+
+    await expect(service.request('price', {}, 1000)).resolves.toEqual({
+      price: 42,
+    });
+
+    expect(replyQueue.sent).toHaveLength(1);
+    expect(otherReplyQueue.sent).toHaveLength(0);
+    expect(queue.unhandled).toHaveLength(0);
+    await responder.destroy();
+  });
+
+  it('应该丢弃没有等待中请求的回复', async () => {
+    await service.subscribe('twice', async (payload, message) => {
+      await service.reply(message, 'first');
+      await service.reply(message, 'second');
+      await service.reply({ ...message, correlationId: 'unknown' }, 'stray');
+    });
+
+    await expect(service.request('twice', {}, 1000)).resolves.toBe('first');
+    await new Promise((resolve) => globalThis.setImmediate(resolve));
+
+    expect(replyQueue.sent).toHaveLength(3);
+    expect(replyQueue.unhandled).toHaveLength(0);
+    expect(silentLogger.debug).toHaveBeenCalledWith(
+      '丢弃没有等待中请求的回复',
+      expect.objectContaining({ correlationId: 'unknown' }),
+    );
+  });
+
+  it('未配置回复队列时应该拒绝请求', async () => {
+    const withoutReplies = new SimpleMessagingService(
+      [asAdapter(queue)],
+      silentLogger,
+    );
+
+    await expect(withoutReplies.request('any', {}, 1000)).rejects.toThrow(
+      '没有配置回复队列',
+    );
+    expect(queue.sent).toHaveLength(0);
+  });
+
+  it('超时未回复时应该以超时错误结束，保留实例的回复订阅', async () => {
+    const error = await service
+      .request('slow', {}, 20)
+      .catch((reason: unknown) => reason);
+
+    expect(error).toBeInstanceOf(MessagingRequestTimeoutError);
+    expect(error).toMatchObject({ topic: 'slow', timeoutMs: 20 });
+    expect(queue.subscriptions.size).toBe(0);
+    expect(replyQueue.subscriptions.size).toBe(1);
+    expect(queue.sent[0].expiresAt).toBeDefined();
+  });
+
+  it('取消信号触发时应该以取消错误结束', async () => {
+    const controller = new globalThis.AbortController();
+    const pending = service.request('never', {}, 1000, {
+      signal: controller.signal,
+    });
+    await new Promise((resolve) => globalThis.setImmediate(resolve));
+
+    controller.abort();
+
+    await expect(pending).rejects.toBeInstanceOf(
+      MessagingRequestCancelledError,
+    );
+    expect(queue.subscriptions.size).toBe(0);
+  });
+
+  it('取消信号已触发时不应该发送请求', async () => {
+    const controller = new globalThis.AbortController();
+    controller.abort();
+
+    await expect(
+      service.request('never', {}, 1000, { signal: controller.signal }),
+    ).rejects.toBeInstanceOf(MessagingRequestCancelledError);
+    expect(queue.sent).toHaveLength(0);
+  });
+
+  it('销毁服务时应该取消所有等待中的请求', async () => {
+    const first = service.request('a', {}, 1000);
+    const second = service.request('b', {}, 1000);
+    await new Promise((resolve) => globalThis.setImmediate(resolve));
+
+    await service.destroy();
+
+    await expect(first).rejects.toThrow('消息传递服务已销毁');
+    await expect(second).rejects.toBeInstanceOf(MessagingRequestCancelledError);
+    expect(replyQueue.subscriptions.size).toBe(0);
+  });
+});
@@ -2,14 +2,36 @@
  * 简化消息传递服务
  *
  * @description 简化的消息传递服务实现，专注于核心功能
+ *
+ * ## 业务规则
+ *
+ * ### 请求响应规则
+ * - 每个服务实例使用自己的回复队列，回复队列名称写入请求消息的 replyTo，
+ *   回复不会进入共享队列，其他实例不会因为没有处理器而重试或转入死信
+ * - 每个请求生成关联ID，响应方通过订阅回调拿到请求消息，
+ *   调用 reply() 把响应发送到 replyTo 队列，并带上关联ID，回复和请求同时过期
+ * - 回复按关联ID与等待中的请求配对，第一条回复结束请求；
+ *   没有等待中请求的回复（重复、迟到或来自其他实例的）直接丢弃
+ * - 超时未收到回复时以 MessagingRequestTimeoutError 结束，请求消息同时按超时时间过期
+ * - 取消信号触发或服务销毁时以 MessagingRequestCancelledError 结束
+ * - 请求结束后清理定时器和取消信号监听
+ *
+ * ## 技术规则
+ *
+ * - 回复队列通过 replyQueue 选项提供，名称在实例间唯一，和其他队列一起启动；
+ *   未配置回复队列时 request() 抛出错误
+ * - 首次发起请求时在回复队列上订阅一次，服务销毁时取消订阅
+ *
  * @since 1.0.0
  */
 
+import { randomUUID } from 'crypto';
 import { Injectable } from '@nestjs/common';
 import { EntityId, TenantContextManager } from '@aiofix/core';
 import {
   IMessage,
   IMessagingService,
+  IMessageRequestOptions,
   IMessageSendOptions,
   IMessageHandler,
   MessageType,
@@ -19,6 +41,34 @@ import {
 import { SimpleBullQueueAdapter } from '../adapters/simple-bull-queue.adapter';
 import { IMessagingLoggerService } from '../interfaces/messaging-logger.interface';
 import { createMessagingLogger } from '../factories/messaging-logger.factory';
+import {
+  MessagingRequestCancelledError,
+  MessagingRequestTimeoutError,
+} from '../errors/messaging.errors';
+
+/**
+ * 默认请求超时时间（毫秒）
+ */
+const DEFAULT_REQUEST_TIMEOUT = 30000;
+
+/**
+ * 简化消息传递服务选项
+ */
+export interface ISimpleMessagingOptions {
+  /** 当前实例专用的回复队列，名称在实例间唯一 */
+  replyQueue?: SimpleBullQueueAdapter;
+}
+
+/**
+ * 等待回复的请求
+ */
+interface IPendingRequest {
+  topic: string;
+  timer: ReturnType<typeof global.setTimeout>;
+  resolve(response: unknown): void;
+  reject(error: Error): void;
+  detachSignal?(): void;
+}
 
 /**
  * 简化消息传递服务
@@ -26,13 +76,18 @@ import { createMessagingLogger } from '../factories/messaging-logger.factory';
 @Injectable()
 export class SimpleMessagingService implements IMessagingService {
   private readonly queues = new Map<string, SimpleBullQueueAdapter>();
+  private readonly pendingRequests = new Map<string, IPendingRequest>();
   private readonly logger: IMessagingLoggerService;
+  private readonly replyQueue: SimpleBullQueueAdapter | undefined;
+  private replySubscription: Promise<string> | undefined;
 
   constructor(
     queues: SimpleBullQueueAdapter[] = [],
     logger?: IMessagingLoggerService,
+    options: ISimpleMessagingOptions = {},
   ) {
     this.logger = logger || createMessagingLogger('messaging-service');
+    this.replyQueue = options.replyQueue;
 
     // 注册队列
     for (const queue of queues) {
@@ -42,6 +97,7 @@ export class SimpleMessagingService implements IMessagingService {
     this.logger.info('消息传递服务已初始化', {
       queueCount: queues.length,
       queues: queues.map((q) => q.name),
+      replyQueue: options.replyQueue?.name,
     });
   }
 
@@ -102,7 +158,7 @@ export class SimpleMessagingService implements IMessagingService {
    */
   async subscribe(
     topic: string,
-    handler: (message: unknown) => Promise<void>,
+    handler: (payload: unknown, message: IMessage) => Promise<void>,
   ): Promise<string> {
     const queue = this.getDefaultQueue();
 
@@ -113,7 +169,7 @@ export class SimpleMessagingService implements IMessagingService {
       supportedTopics: [topic],
 
       async handle(message: IMessage): Promise<void> {
-        await handler(message.payload);
+        await handler(message.payload, message);
       },
 
       canHandle(message: IMessage): boolean {
@@ -156,25 +212,91 @@ export class SimpleMessagingService implements IMessagingService {
   async request<T>(
     topic: string,
     payload: unknown,
-    timeout: number = 30000,
+    timeout: number = DEFAULT_REQUEST_TIMEOUT,
+    options: IMessageRequestOptions = {},
   ): Promise<T> {
-    this.logger.info('发送请求', {
-      topic,
-      timeout,
-      payloadType: typeof payload,
-    });
+    const { signal, ...sendOptions } = options;
+    const correlationId = randomUUID();
+    const queue = this.getDefaultQueue();
+    const replyQueue = this.requireReplyQueue();
+
+    if (signal?.aborted) {
+      throw new MessagingRequestCancelledError(
+        topic,
+        correlationId,
+        '调用方已取消',
+      );
+    }
 
-    // 模拟请求响应
-    return new Promise((resolve) => {
-      global.setTimeout(() => {
-        const result = { success: true, data: payload } as T;
-        this.logger.debug('请求响应完成', {
-          topic,
-          responseType: typeof result,
-        });
-        resolve(result);
-      }, 100);
+    const response = new Promise<unknown>((resolve, reject) => {
+      const timer = global.setTimeout(
+        () =>
+          this.settleRequest(
+            correlationId,
+            new MessagingRequestTimeoutError(topic, correlationId, timeout),
+          ),
+        timeout,
+      );
+      this.pendingRequests.set(correlationId, {
+        topic,
+        timer,
+        resolve,
+        reject,
+      });
     });
+    // 请求可能在订阅回复队列期间结束，避免被当作未处理的拒绝
+    response.catch(() => undefined);
+
+    if (signal) {
+      const onAbort = (): void =>
+        this.settleRequest(
+          correlationId,
+          new MessagingRequestCancelledError(
+            topic,
+            correlationId,
+            '调用方已取消',
+          ),
+        );
+      signal.addEventListener('abort', onAbort, { once: true });
+      this.pendingRequests.get(correlationId)!.detachSignal = (): void =>
+        signal.removeEventListener('abort', onAbort);
+    }
+
+    try {
+      await this.subscribeReplies(replyQueue);
+      if (!this.pendingRequests.has(correlationId)) {
+        return (await response) as T;
+      }
+
+      const requestOptions: IMessageSendOptions = {
+        ttl: timeout,
+        ...sendOptions,
+        correlationId,
+        replyTo: replyQueue.name,
+      };
+      const message = this.createMessage({
+        type: MessageType.QUERY,
+        topic,
+        payload,
+        options: requestOptions,
+      });
+      await queue.send(message, requestOptions);
+
+      this.logger.info('发送请求', {
+        messageId: message.id.toString(),
+        topic,
+        timeout,
+        correlationId,
+        replyTo: replyQueue.name,
+      });
+    } catch (error) {
+      this.settleRequest(
+        correlationId,
+        error instanceof Error ? error : new Error(String(error)),
+      );
+    }
+
+    return response as Promise<T>;
   }
 
   /**
@@ -185,9 +307,16 @@ export class SimpleMessagingService implements IMessagingService {
       throw new Error('消息缺少回复地址');
     }
 
-    await this.send(message.replyTo, response, {
-      correlationId: message.correlationId,
-    });
+    const replyMessage: IMessage = {
+      ...this.createMessage({
+        type: MessageType.COMMAND,
+        topic: message.replyTo,
+        payload: response,
+        options: { correlationId: message.correlationId },
+      }),
+      expiresAt: message.expiresAt,
+    };
+    await this.getDefaultQueue().sendToQueue(message.replyTo, replyMessage);
 
     this.logger.info('已回复请求', {
       correlationId: message.correlationId,
@@ -196,6 +325,39 @@ export class SimpleMessagingService implements IMessagingService {
     });
   }
 
+  /**
+   * 销毁服务，等待回复的请求以取消错误结束
+   */
+  async destroy(): Promise<void> {
+    const correlationIds = Array.from(this.pendingRequests.keys());
+    for (const correlationId of correlationIds) {
+      this.settleRequest(
+        correlationId,
+        new MessagingRequestCancelledError(
+          this.pendingRequests.get(correlationId)!.topic,
+          correlationId,
+          '消息传递服务已销毁',
+        ),
+      );
+    }
+
+    const replySubscription = this.replySubscription;
+    this.replySubscription = undefined;
+    if (replySubscription && this.replyQueue) {
+      try {
+        await this.replyQueue.unsubscribe(await replySubscription);
+      } catch (error) {
+        this.logger.error('取消回复订阅失败', error as Error, {
+          replyQueue: this.replyQueue.name,
+        });
+      }
+    }
+
+    this.logger.info('消息传递服务已销毁', {
+      cancelledRequests: correlationIds.length,
+    });
+  }
+
   /**
    * 注册队列
    */
@@ -237,7 +399,9 @@ export class SimpleMessagingService implements IMessagingService {
     const currentTime = new Date();
 
     return {
-      id: EntityId.generate(),
+      id: params.options?.messageId
+        ? EntityId.fromString(params.options.messageId)
+        : EntityId.generate(),
       type: params.type,
       topic: params.topic,
       payload: params.payload as Record<string, unknown>,
@@ -262,6 +426,95 @@ export class SimpleMessagingService implements IMessagingService {
     };
   }
 
+  /**
+   * 在回复队列上订阅一次，并发请求共用同一个订阅
+   */
+  private async subscribeReplies(
+    replyQueue: SimpleBullQueueAdapter,
+  ): Promise<void> {
+    if (!this.replySubscription) {
+      this.replySubscription = replyQueue.subscribe(
+        replyQueue.name,
+        this.createReplyHandler(replyQueue.name),
+      );
+      this.replySubscription.catch(() => {
+        this.replySubscription = undefined;
+      });
+    }
+    await this.replySubscription;
+  }
+
+  /**
+   * 创建回复队列的处理器，按关联ID结束等待中的请求，丢弃没有对应请求的回复
+   */
+  private createReplyHandler(replyTopic: string): IMessageHandler {
+    return {
+      name: `reply_${replyTopic}`,
+      supportedMessageTypes: Object.values(MessageType),
+      supportedTopics: [replyTopic],
+
+      handle: async (message: IMessage): Promise<void> => {
+        const correlationId = message.correlationId;
+        if (!correlationId || !this.pendingRequests.has(correlationId)) {
+          this.logger.debug('丢弃没有等待中请求的回复', {
+            messageId: message.id.toString(),
+            correlationId,
+            replyQueue: replyTopic,
+          });
+          return;
+        }
+        this.settleRequest(correlationId, undefined, message.payload);
+      },
+
+      canHandle(): boolean {
+        return true;
+      },
+
+      getPriority(): number {
+        return 0;
+      },
+    };
+  }
+
+  /**
+   * 结束等待中的请求并清理资源，请求已结束时忽略
+   */
+  private settleRequest(
+    correlationId: string,
+    error?: Error,
+    response?: unknown,
+  ): void {
+    const pending = this.pendingRequests.get(correlationId);
+    if (!pending) {
+      return;
+    }
+
+    this.pendingRequests.delete(correlationId);
+    global.clearTimeout(pending.timer);
+    pending.detachSignal?.();
+
+    if (error) {
+      pending.reject(error);
+      this.logger.warn('请求未完成', {
+        topic: pending.topic,
+        correlationId,
+        reason: error.message,
+      });
+    } else {
+      pending.resolve(response);
+    }
+  }
+
+  /**
+   * 获取回复队列
+   */
+  private requireReplyQueue(): SimpleBullQueueAdapter {
+    if (!this.replyQueue) {
+      throw new Error('没有配置回复队列');
+    }
+    return this.replyQueue;
+  }
+
   /**
    * 获取默认队列
    */
@@ -31,8 +31,11 @@ module.exports = {
   },
   setupFilesAfterEnv: ['<rootDir>/jest.setup.js'],
   moduleNameMapper: {
+    '^@aiofix/cache$': '<rootDir>/../cache/src/index.ts',
+    '^@aiofix/config$': '<rootDir>/../config/src/index.ts',
     '^@aiofix/core$': '<rootDir>/../core/src/index.ts',
     '^@aiofix/core/(.*)$': '<rootDir>/../core/src/$1',
+    '^@aiofix/database$': '<rootDir>/../database/src/index.ts',
   },
   transformIgnorePatterns: ['node_modules/(?!(uuid)/)'],
   testTimeout: 10000,
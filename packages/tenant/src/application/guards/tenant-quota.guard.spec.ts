@@ -0,0 +1,131 @@
+/**
+ * 租户配额守卫测试
+ *
+ * @description 测试装饰器元数据、功能检查、配额消耗和失败时的释放
+ * @since 1.0.0
+ */
+
+import type { ExecutionContext } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import {
+  FeatureNotEnabledError,
+  OperationNotAllowedError,
+  TenantContextManager,
+} from '@aiofix/core';
+import { TenantQuotaResource } from '../../domain/policies/tenant-quota.policy';
+import type { TenantQuotaService } from '../services/tenant-quota.service';
+import {
+  ConsumeTenantQuota,
+  RequireTenantFeature,
+  TenantQuotaGuard,
+} from './tenant-quota.guard';
+
+@ConsumeTenantQuota(TenantQuotaResource.API_REQUESTS)
+class ReportController {
+  @RequireTenantFeature('reports')
+  @ConsumeTenantQuota(TenantQuotaResource.STORAGE, 5)
+  create(): void {}
+
+  list(): void {}
+}
+
+class PublicController {
+  health(): void {}
+}
+
+// 创建执行上下文
+const createContext = (
+  controller: new () => object,
+  handler: string,
+): ExecutionContext =>
+  ({
+    getClass: () => controller,
+    getHandler: () =>
+      (controller.prototype as Record<string, () => void>)[handler],
+  }) as unknown as ExecutionContext;
+
+describe('TenantQuotaGuard', () => {
+  let quotaService: {
+    assertFeatureEnabled: jest.Mock;
+    consume: jest.Mock;
+    release: jest.Mock;
+  };
+  let guard: TenantQuotaGuard;
+
+  beforeEach(() => {
+    quotaService = {
+      assertFeatureEnabled: jest.fn().mockResolvedValue(undefined),
+      consume: jest.fn().mockResolvedValue(1),
+      release: jest.fn().mockResolvedValue(0),
+    };
+    guard = new TenantQuotaGuard(
+      new Reflector(),
+      quotaService as unknown as TenantQuotaService,
+    );
+  });
+
+  // 在租户上下文中执行守卫
+  const activate = (context: ExecutionContext): Promise<boolean> =>
+    TenantContextManager.run('tenant-1', () => guard.canActivate(context));
+
+  it('应该检查方法上的功能并消耗类和方法上的配额', async () => {
+    await expect(
+      activate(createContext(ReportController, 'create')),
+    ).resolves.toBe(true);
+
+    expect(quotaService.assertFeatureEnabled).toHaveBeenCalledWith(
+      'tenant-1',
+      'reports',
+    );
+    expect(quotaService.consume.mock.calls).toEqual([
+      ['tenant-1', TenantQuotaResource.STORAGE, 5],
+      ['tenant-1', TenantQuotaResource.API_REQUESTS, 1],
+    ]);
+  });
+
+  it('类上的声明应该对所有方法生效', async () => {
+    await activate(createContext(ReportController, 'list'));
+
+    expect(quotaService.assertFeatureEnabled).not.toHaveBeenCalled();
+    expect(quotaService.consume).toHaveBeenCalledTimes(1);
+  });
+
+  it('没有声明时应该直接放行', async () => {
+    await expect(
+      guard.canActivate(createContext(PublicController, 'health')),
+    ).resolves.toBe(true);
+  });
+
+  it('缺少租户上下文时应该拒绝', async () => {
+    await expect(
+      guard.canActivate(createContext(ReportController, 'list')),
+    ).rejects.toBeInstanceOf(OperationNotAllowedError);
+  });
+
+  it('功能未开通时应该抛出错误且不消耗配额', async () => {
+    quotaService.assertFeatureEnabled.mockRejectedValue(
+      new FeatureNotEnabledError('reports', 'tenant-1'),
+    );
+
+    await expect(
+      activate(createContext(ReportController, 'create')),
+    ).rejects.toBeInstanceOf(FeatureNotEnabledError);
+    expect(quotaService.consume).not.toHaveBeenCalled();
+  });
+
+  it('部分配额不足时应该释放已消耗的配额', async () => {
+    const exceeded = new Error('quota exceeded');
+    quotaService.consume
+      .mockResolvedValueOnce(5)
+      .mockRejectedValueOnce(exceeded);
+
+    await expect(
+      activate(createContext(ReportController, 'create')),
+    ).rejects.toBe(exceeded);
+    expect(quotaService.release).toHaveBeenCalledWith(
+      'tenant-1',
+      TenantQuotaResource.STORAGE,
+      5,
+    );
+  });
+});
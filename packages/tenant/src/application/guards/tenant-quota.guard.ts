@@ -0,0 +1,151 @@
+/**
+ * 租户配额守卫和装饰器
+ *
+ * @description 在控制器和处理器上声明所需的功能和要消耗的配额，由守卫在执行前检查
+ *
+ * ## 业务规则
+ *
+ * ### 声明规则
+ * - @RequireTenantFeature 声明必须开通的功能，可同时用于类和方法
+ * - @ConsumeTenantQuota 声明每次调用消耗的配额，可同时用于类和方法
+ * - 同一目标上的多个声明累加，类上的声明对所有方法生效
+ *
+ * ### 检查规则
+ * - 租户取自 TenantContextManager 的当前租户上下文
+ * - 没有声明时直接放行，有声明但缺少租户上下文时抛出 OperationNotAllowedError
+ * - 先检查功能，再依次消耗配额；功能未开通或配额不足时抛出对应的业务错误
+ * - 任一配额不足时释放本次已消耗的配额
+ *
+ * @example
+ * ```typescript
+ * @Controller('reports')
+ * @UseGuards(TenantQuotaGuard)
+ * @ConsumeTenantQuota(TenantQuotaResource.API_REQUESTS)
+ * class ReportController {
+ *   @Post()
+ *   @RequireTenantFeature('reports')
+ *   async create() {}
+ * }
+ * ```
+ *
+ * @since 1.0.0
+ */
+
+import 'reflect-metadata';
+import { Injectable } from '@nestjs/common';
+import type { CanActivate, ExecutionContext } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { OperationNotAllowedError, TenantContextManager } from '@aiofix/core';
+import type { TenantQuotaResource } from '../../domain/policies/tenant-quota.policy';
+import { TenantQuotaService } from '../services/tenant-quota.service';
+
+/**
+ * 所需功能的元数据键名
+ */
+export const TENANT_FEATURES_METADATA = 'TenantFeaturesMetadata' as const;
+
+/**
+ * 消耗配额的元数据键名
+ */
+export const TENANT_QUOTAS_METADATA = 'TenantQuotasMetadata' as const;
+
+/**
+ * 配额消耗声明
+ */
+export interface ITenantQuotaRequirement {
+  readonly resource: TenantQuotaResource;
+  readonly amount: number;
+}
+
+/**
+ * 在类或方法上追加元数据
+ */
+function appendMetadata<T>(
+  key: string,
+  values: T[],
+): ClassDecorator & MethodDecorator {
+  return (
+    target: object,
+    _propertyKey?: string | symbol,
+    descriptor?: PropertyDescriptor,
+  ): void => {
+    const metadataTarget = descriptor ? descriptor.value : target;
+    const existing: T[] = Reflect.getMetadata(key, metadataTarget) ?? [];
+    Reflect.defineMetadata(key, [...existing, ...values], metadataTarget);
+  };
+}
+
+/**
+ * 声明必须开通的功能
+ */
+export function RequireTenantFeature(
+  ...features: string[]
+): ClassDecorator & MethodDecorator {
+  return appendMetadata(TENANT_FEATURES_METADATA, features);
+}
+
+/**
+ * 声明每次调用消耗的配额
+ */
+export function ConsumeTenantQuota(
+  resource: TenantQuotaResource,
+  amount = 1,
+): ClassDecorator & MethodDecorator {
+  return appendMetadata<ITenantQuotaRequirement>(TENANT_QUOTAS_METADATA, [
+    { resource, amount },
+  ]);
+}
+
+/**
+ * 租户配额守卫
+ */
+@Injectable()
+export class TenantQuotaGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly quotaService: TenantQuotaService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const targets = [context.getHandler(), context.getClass()];
+    const features = this.reflector.getAllAndMerge<string[]>(
+      TENANT_FEATURES_METADATA,
+      targets,
+    );
+    const quotas = this.reflector.getAllAndMerge<ITenantQuotaRequirement[]>(
+      TENANT_QUOTAS_METADATA,
+      targets,
+    );
+    if (features.length === 0 && quotas.length === 0) {
+      return true;
+    }
+
+    const tenantId = TenantContextManager.getCurrentTenantId();
+    if (!tenantId) {
+      throw new OperationNotAllowedError(
+        context.getHandler().name,
+        'Tenant',
+        '缺少租户上下文，无法检查配额',
+      );
+    }
+
+    for (const feature of new Set(features)) {
+      await this.quotaService.assertFeatureEnabled(tenantId, feature);
+    }
+
+    // 部分配额不足时释放已消耗的配额
+    const consumed: ITenantQuotaRequirement[] = [];
+    try {
+      for (const quota of quotas) {
+        await this.quotaService.consume(tenantId, quota.resource, quota.amount);
+        consumed.push(quota);
+      }
+    } catch (error) {
+      for (const { resource, amount } of consumed) {
+        await this.quotaService.release(tenantId, resource, amount);
+      }
+      throw error;
+    }
+    return true;
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * 租户资源开通接口定义
+ *
+ * @description 定义租户资源开通流程中的步骤、进度和结果
+ *
+ * ## 业务规则
+ *
+ * ### 步骤规则
+ * - 每个步骤负责一类租户资源（数据库、缓存命名空间、默认角色等）
+ * - provision 创建资源，rollback 撤销本步骤在开通中创建的资源
+ * - deprovision 清理租户的全部资源，应该可以重复执行
+ * - supports 返回 false 的步骤在开通和清理时都会被跳过
+ *
+ * @since 1.0.0
+ */
+
+import type { Tenant } from '../../domain/entities/tenant.entity';
+
+/**
+ * 租户资源开通步骤
+ */
+export interface ITenantProvisioningStep {
+  /** 步骤名称，用于进度报告 */
+  readonly name: string;
+
+  /**
+   * 是否适用于该租户，未实现时视为适用
+   */
+  supports?(tenant: Tenant): boolean;
+
+  /**
+   * 开通资源
+   */
+  provision(tenant: Tenant): Promise<void>;
+
+  /**
+   * 撤销本步骤开通的资源
+   */
+  rollback(tenant: Tenant): Promise<void>;
+
+  /**
+   * 清理租户的全部资源
+   */
+  deprovision(tenant: Tenant): Promise<void>;
+}
+
+/**
+ * 开通操作类型
+ */
+export enum TenantProvisioningOperation {
+  PROVISION = 'provision',
+  DEPROVISION = 'deprovision',
+}
+
+/**
+ * 步骤状态
+ */
+export enum TenantProvisioningStepStatus {
+  PENDING = 'pending',
+  RUNNING = 'running',
+  COMPLETED = 'completed',
+  SKIPPED = 'skipped',
+  FAILED = 'failed',
+  ROLLING_BACK = 'rolling_back',
+  ROLLED_BACK = 'rolled_back',
+  ROLLBACK_FAILED = 'rollback_failed',
+}
+
+/**
+ * 步骤执行报告
+ */
+export interface ITenantProvisioningStepReport {
+  /** 步骤名称 */
+  step: string;
+  /** 步骤状态 */
+  status: TenantProvisioningStepStatus;
+  /** 失败时的错误 */
+  error?: unknown;
+}
+
+/**
+ * 开通进度
+ */
+export interface ITenantProvisioningProgress
+  extends ITenantProvisioningStepReport {
+  /** 租户ID */
+  tenantId: string;
+  /** 操作类型 */
+  operation: TenantProvisioningOperation;
+  /** 步骤序号，从1开始 */
+  index: number;
+  /** 步骤总数 */
+  total: number;
+}
+
+/**
+ * 开通进度监听器
+ */
+export type TenantProvisioningProgressListener = (
+  progress: ITenantProvisioningProgress,
+) => void;
+
+/**
+ * 开通或清理结果
+ */
+export interface ITenantProvisioningResult {
+  /** 租户ID */
+  tenantId: string;
+  /** 操作类型 */
+  operation: TenantProvisioningOperation;
+  /** 是否全部成功 */
+  success: boolean;
+  /** 各步骤的最终状态 */
+  steps: ITenantProvisioningStepReport[];
+}
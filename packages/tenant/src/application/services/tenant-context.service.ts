@@ -58,7 +58,6 @@ import {
   DataSensitivity,
 } from '@aiofix/core';
 import {
-  Tenant,
   TenantType,
   TenantStatus,
   IsolationStrategy,
@@ -0,0 +1,260 @@
+/**
+ * 租户生命周期调度测试
+ *
+ * @description 使用模拟仓储测试TenantService的时间驱动转换和TenantLifecycleScheduler
+ * @since 1.0.0
+ */
+
+import { randomUUID } from 'crypto';
+import { EntityId } from '@aiofix/core';
+import {
+  Tenant,
+  TenantType,
+  TenantStatus,
+  IsolationStrategy,
+} from '../../domain/entities/tenant.entity';
+import type { ITenantLifecycle } from '../../domain/entities/tenant.entity';
+import type { ITenantRepository } from '../../domain/repositories/tenant.repository.interface';
+import { TenantLifecyclePolicy } from '../../domain/policies/tenant-lifecycle.policy';
+import { TenantService } from './tenant.service';
+import { TenantLifecycleScheduler } from './tenant-lifecycle.scheduler';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = new Date('2026-03-01T00:00:00Z');
+const daysAgo = (days: number): Date => new Date(now.getTime() - days * DAY_MS);
+
+// 创建指定状态的租户
+const createTenant = (
+  code: string,
+  status: TenantStatus,
+  lifecycle: ITenantLifecycle = {},
+  dataRetentionDays?: number,
+): Tenant => {
+  const tenant = new Tenant(
+    EntityId.fromString(randomUUID()),
+    code,
+    code,
+    `${code}.example.com`,
+    TenantType.BASIC,
+    IsolationStrategy.ROW_LEVEL_SECURITY,
+    status,
+    { dataRetentionDays },
+    { createdBy: 'system', tenantId: 'system' },
+    lifecycle,
+  );
+  tenant.clearDomainEvents();
+  return tenant;
+};
+
+describe('TenantLifecycleScheduler', () => {
+  let tenants: Tenant[];
+  let repository: jest.Mocked<ITenantRepository>;
+  let service: TenantService;
+  let scheduler: TenantLifecycleScheduler;
+
+  const byStatus = (...statuses: TenantStatus[]): Tenant[] =>
+    tenants.filter((tenant) => statuses.includes(tenant.status));
+
+  beforeEach(() => {
+    tenants = [];
+    repository = {
+      findById: jest.fn(
+        async (id: EntityId) =>
+          tenants.find((tenant) => tenant.id.equals(id)) ?? null,
+      ),
+      findByCode: jest.fn().mockResolvedValue(null),
+      findByDomain: jest.fn().mockResolvedValue(null),
+      findTrialTenants: jest.fn(async () => byStatus(TenantStatus.TRIAL)),
+      findExpiredTenants: jest.fn(async () => byStatus(TenantStatus.EXPIRED)),
+      findMany: jest.fn(async (options) => {
+        const result = byStatus(...(options.status ?? []));
+        const { page, size } = options.pagination ?? {
+          page: 1,
+          size: result.length,
+        };
+        return {
+          tenants: result.slice((page - 1) * size, page * size),
+          total: result.length,
+          page,
+          size,
+          hasNext: page * size < result.length,
+        };
+      }),
+      save: jest.fn(async (tenant: Tenant) => tenant),
+      update: jest.fn(async (tenant: Tenant) => tenant),
+      cleanupExpiredTrials: jest.fn().mockResolvedValue(2),
+      hardDelete: jest.fn(async (id: EntityId) => {
+        tenants = tenants.filter((tenant) => !tenant.id.equals(id));
+        return true;
+      }),
+    } as unknown as jest.Mocked<ITenantRepository>;
+
+    service = new TenantService(
+      repository,
+      new TenantLifecyclePolicy({
+        gracePeriodDays: 7,
+        deletedRetentionDays: 30,
+      }),
+    );
+    scheduler = new TenantLifecycleScheduler(service);
+  });
+
+  afterEach(() => {
+    scheduler.stop();
+    jest.restoreAllMocks();
+  });
+
+  it('创建租户时应该按租户类型设置试用结束时间', async () => {
+    const tenant = await service.createTenant({
+      code: 'new-tenant',
+      name: '新租户',
+      domain: 'new.example.com',
+      type: TenantType.PROFESSIONAL,
+      isolationStrategy: IsolationStrategy.ROW_LEVEL_SECURITY,
+      createdBy: 'admin',
+    });
+
+    const trialDays =
+      (tenant.lifecycle.trialEndsAt!.getTime() - tenant.createdAt.getTime()) /
+      DAY_MS;
+    expect(Math.round(trialDays)).toBe(30);
+  });
+
+  it('应该按时间执行所有生命周期转换', async () => {
+    const trial = createTenant('trial-due', TenantStatus.TRIAL, {
+      trialEndsAt: daysAgo(1),
+    });
+    const activeTrial = createTenant('trial-running', TenantStatus.TRIAL, {
+      trialEndsAt: new Date(now.getTime() + DAY_MS),
+    });
+    const expired = createTenant('expired-due', TenantStatus.EXPIRED, {
+      expiredAt: daysAgo(8),
+    });
+    const inGrace = createTenant('expired-grace', TenantStatus.EXPIRED, {
+      expiredAt: daysAgo(3),
+    });
+    const scheduled = createTenant('scheduled', TenantStatus.ACTIVE, {
+      scheduledSuspension: { at: daysAgo(0), reason: '合同到期' },
+    });
+    const deleted = createTenant('deleted-due', TenantStatus.DELETED, {
+      deletedAt: daysAgo(31),
+    });
+    const retained = createTenant(
+      'deleted-kept',
+      TenantStatus.DELETED,
+      { deletedAt: daysAgo(31) },
+      90,
+    );
+    tenants = [
+      trial,
+      activeTrial,
+      expired,
+      inGrace,
+      scheduled,
+      deleted,
+      retained,
+    ];
+
+    const result = await scheduler.runOnce(now);
+
+    expect(result).toEqual({
+      expiredTrials: 1,
+      suspendedAfterGracePeriod: 1,
+      scheduledSuspensions: 1,
+      purged: 1,
+      errors: [],
+    });
+    expect(trial.status).toBe(TenantStatus.EXPIRED);
+    expect(activeTrial.status).toBe(TenantStatus.TRIAL);
+    expect(expired.status).toBe(TenantStatus.SUSPENDED);
+    expect(inGrace.status).toBe(TenantStatus.EXPIRED);
+    expect(scheduled.status).toBe(TenantStatus.SUSPENDED);
+    expect(scheduled.domainEvents[0]).toMatchObject({ reason: '合同到期' });
+    expect(repository.hardDelete).toHaveBeenCalledWith(deleted.id);
+    expect(tenants).toContain(retained);
+  });
+
+  it('预定暂停和物理删除应该分页处理所有租户', async () => {
+    tenants = [
+      ...Array.from({ length: 250 }, (_, index) =>
+        createTenant(`scheduled-${index}`, TenantStatus.ACTIVE, {
+          scheduledSuspension: { at: daysAgo(0), reason: '合同到期' },
+        }),
+      ),
+      ...Array.from({ length: 150 }, (_, index) =>
+        createTenant(`deleted-${index}`, TenantStatus.DELETED, {
+          deletedAt: daysAgo(31),
+        }),
+      ),
+    ];
+
+    expect(await service.applyScheduledSuspensions(now)).toBe(250);
+    expect(await service.purgeDeletedTenants(now)).toBe(150);
+
+    expect(byStatus(TenantStatus.ACTIVE)).toEqual([]);
+    expect(byStatus(TenantStatus.SUSPENDED)).toHaveLength(250);
+    expect(byStatus(TenantStatus.DELETED)).toEqual([]);
+    const pageSizes = repository.findMany.mock.calls.map(
+      ([options]) => options.pagination?.size,
+    );
+    expect(pageSizes.every((size) => size !== undefined && size <= 100)).toBe(
+      true,
+    );
+  });
+
+  it('已废弃的cleanupExpiredTrials应该委托给仓储', async () => {
+    expect(await service.cleanupExpiredTrials(10)).toBe(2);
+    expect(repository.cleanupExpiredTrials).toHaveBeenCalledWith(10);
+  });
+
+  it('刚过期的试用租户应该在宽限期结束后才暂停', async () => {
+    const trial = createTenant('trial-due', TenantStatus.TRIAL, {
+      trialEndsAt: daysAgo(1),
+    });
+    tenants = [trial];
+
+    await scheduler.runOnce(now);
+    expect(trial.status).toBe(TenantStatus.EXPIRED);
+
+    await scheduler.runOnce(new Date(now.getTime() + 7 * DAY_MS));
+    expect(trial.status).toBe(TenantStatus.SUSPENDED);
+  });
+
+  it('步骤失败时应该记录错误并继续后续步骤', async () => {
+    const error = new Error('数据库不可用');
+    repository.findTrialTenants.mockRejectedValueOnce(error);
+    tenants = [
+      createTenant('expired-due', TenantStatus.EXPIRED, {
+        expiredAt: daysAgo(8),
+      }),
+    ];
+
+    const result = await scheduler.runOnce(now);
+
+    expect(result.errors).toEqual([{ step: 'expireTrials', error }]);
+    expect(result.suspendedAfterGracePeriod).toBe(1);
+  });
+
+  it('同一时间只应该运行一轮', async () => {
+    const first = scheduler.runOnce(now);
+    const second = scheduler.runOnce(now);
+
+    expect(second).toBe(first);
+    await first;
+    expect(repository.findTrialTenants).toHaveBeenCalledTimes(1);
+  });
+
+  it('应该按间隔定时执行', async () => {
+    jest.useFakeTimers();
+    try {
+      scheduler.start(1000);
+      jest.advanceTimersByTime(2500);
+      expect(repository.findTrialTenants).toHaveBeenCalledTimes(1);
+
+      scheduler.onModuleDestroy();
+      await Promise.resolve();
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * 租户生命周期调度服务
+ *
+ * @description 定期执行租户生命周期中由时间驱动的状态转换
+ *
+ * ## 业务规则
+ *
+ * ### 调度规则
+ * - 每轮依次执行：试用到期 → 宽限期结束暂停 → 预定暂停 → 保留期结束物理删除
+ * - 同一时间只运行一轮，上一轮未结束时跳过本次触发
+ * - 单个步骤失败不影响后续步骤，失败记录在结果的 errors 中
+ * - 定时器不阻止进程退出，模块销毁时停止
+ *
+ * @example
+ * ```typescript
+ * const scheduler = new TenantLifecycleScheduler(tenantService);
+ * scheduler.start(60 * 60 * 1000); // 每小时执行一次
+ *
+ * // 或手动执行一轮
+ * const result = await scheduler.runOnce();
+ * ```
+ *
+ * @since 1.0.0
+ */
+
+import { Injectable, OnModuleDestroy } from '@nestjs/common';
+import { TenantService } from './tenant.service';
+
+/**
+ * 默认调度间隔（毫秒）
+ */
+const DEFAULT_INTERVAL = 60 * 60 * 1000;
+
+/**
+ * 一轮调度的执行结果
+ */
+export interface ITenantLifecycleRunResult {
+  /** 试用到期的租户数量 */
+  expiredTrials: number;
+  /** 宽限期结束后暂停的租户数量 */
+  suspendedAfterGracePeriod: number;
+  /** 执行预定暂停的租户数量 */
+  scheduledSuspensions: number;
+  /** 物理删除的租户数量 */
+  purged: number;
+  /** 失败的步骤及错误 */
+  errors: Array<{ step: string; error: unknown }>;
+}
+
+/**
+ * 租户生命周期调度服务
+ */
+@Injectable()
+export class TenantLifecycleScheduler implements OnModuleDestroy {
+  private timer: ReturnType<typeof globalThis.setInterval> | null = null;
+  private running: Promise<ITenantLifecycleRunResult> | null = null;
+
+  constructor(private readonly tenantService: TenantService) {}
+
+  /**
+   * 启动定时调度
+   *
+   * @param interval 调度间隔（毫秒），默认1小时
+   */
+  start(interval: number = DEFAULT_INTERVAL): void {
+    this.stop();
+    this.timer = globalThis.setInterval(() => {
+      void this.runOnce();
+    }, interval);
+    this.timer.unref?.();
+  }
+
+  /**
+   * 停止定时调度
+   */
+  stop(): void {
+    if (this.timer) {
+      globalThis.clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * 模块销毁时停止调度
+   */
+  onModuleDestroy(): void {
+    this.stop();
+  }
+
+  /**
+   * 执行一轮生命周期转换
+   *
+   * @description 上一轮仍在运行时返回该轮的结果
+   * @param now 当前时间
+   */
+  runOnce(now: Date = new Date()): Promise<ITenantLifecycleRunResult> {
+    if (!this.running) {
+      this.running = this.run(now).finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  /**
+   * 依次执行各个步骤
+   */
+  private async run(now: Date): Promise<ITenantLifecycleRunResult> {
+    const result: ITenantLifecycleRunResult = {
+      expiredTrials: 0,
+      suspendedAfterGracePeriod: 0,
+      scheduledSuspensions: 0,
+      purged: 0,
+      errors: [],
+    };
+
+    const step = async (
+      name: string,
+      execute: () => Promise<number>,
+      assign: (count: number) => void,
+    ): Promise<void> => {
+      try {
+        assign(await execute());
+      } catch (error) {
+        result.errors.push({ step: name, error });
+      }
+    };
+
+    await step(
+      'expireTrials',
+      () => this.tenantService.expireEndedTrials(now),
+      (count) => (result.expiredTrials = count),
+    );
+    await step(
+      'suspendAfterGracePeriod',
+      () => this.tenantService.suspendAfterGracePeriod(now),
+      (count) => (result.suspendedAfterGracePeriod = count),
+    );
+    await step(
+      'applyScheduledSuspensions',
+      () => this.tenantService.applyScheduledSuspensions(now),
+      (count) => (result.scheduledSuspensions = count),
+    );
+    await step(
+      'purgeDeletedTenants',
+      () => this.tenantService.purgeDeletedTenants(now),
+      (count) => (result.purged = count),
+    );
+
+    return result;
+  }
+}
@@ -0,0 +1,404 @@
+/**
+ * 租户下线服务测试
+ *
+ * @description 测试下线前提、分页导出到归档存储、归档提交后才擦除（含SQLite上的真实删除）和报告签名
+ * @since 1.0.0
+ */
+
+import { createHash, randomUUID } from 'crypto';
+import { EntityId, OperationNotAllowedError } from '@aiofix/core';
+import {
+  DEFAULT_ISOLATION_CONFIG,
+  DatabaseIsolationStrategy,
+  createSqliteConnection,
+} from '@aiofix/database';
+import {
+  Tenant,
+  TenantType,
+  TenantStatus,
+  IsolationStrategy,
+} from '../../domain/entities/tenant.entity';
+import { TenantOffboardingService } from './tenant-offboarding.service';
+import type {
+  ITenantArchiveSink,
+  ITenantArchiveWriter,
+  ITenantOffboardingOptions,
+} from './tenant-offboarding.service';
+
+// 内存归档存储，提交后按位置保存归档内的文件
+class MemoryArchiveSink implements ITenantArchiveSink {
+  readonly archives = new Map<string, Map<string, string>>();
+  readonly commit = jest.fn<Promise<void>, []>().mockResolvedValue(undefined);
+  readonly abort = jest.fn<Promise<void>, []>().mockResolvedValue(undefined);
+
+  async open(tenant: { code: string }): Promise<ITenantArchiveWriter> {
+    const files = new Map<string, string>();
+    return {
+      append: async (path, content) => {
+        files.set(path, (files.get(path) ?? '') + content);
+      },
+      commit: async () => {
+        await this.commit();
+        const location = `memory://${tenant.code}/${this.archives.size}`;
+        this.archives.set(location, files);
+        return location;
+      },
+      abort: () => this.abort(),
+    };
+  }
+}
+
+// 按分页参数截取数组
+const slice = <T>(items: T[], limit: number, offset: number): T[] =>
+  items.slice(offset, offset + limit);
+
+// 创建租户
+const createTenant = (status: TenantStatus): Tenant =>
+  new Tenant(
+    EntityId.fromString(randomUUID()),
+    'acme',
+    'Acme',
+    'acme.example.com',
+    TenantType.BASIC,
+    IsolationStrategy.ROW_LEVEL_SECURITY,
+    status,
+    {},
+    { createdBy: 'system', tenantId: 'system' },
+  );
+
+describe('TenantOffboardingService', () => {
+  const now = new Date('2026-01-01T00:00:00.000Z');
+  const users = [
+    { id: 'u1', name: 'Alice' },
+    { id: 'u2', name: 'Bob' },
+  ];
+  const events = [
+    { eventId: 'e1', aggregateType: 'User', eventType: 'UserCreated' },
+    { eventId: 'e2', aggregateType: 'Order', eventType: 'OrderPlaced' },
+    { eventId: 'e3', aggregateType: 'User', eventType: 'UserRenamed' },
+  ];
+  let database: {
+    queryByTenant: jest.Mock;
+    cleanupTenantData: jest.Mock;
+    getTenantTables: jest.Mock;
+  };
+  let eventStore: {
+    getTenantEvents: jest.Mock;
+    cleanupTenantEvents: jest.Mock;
+  };
+  let cache: { cleanupTenantCache: jest.Mock };
+  let sink: MemoryArchiveSink;
+  let service: TenantOffboardingService;
+
+  // 创建下线服务
+  const createService = (
+    options: Partial<ITenantOffboardingOptions> = {},
+  ): TenantOffboardingService =>
+    new TenantOffboardingService({
+      database,
+      eventStore,
+      cache,
+      sink,
+      signingKey: 'secret',
+      signingKeyId: 'key-1',
+      clock: () => now,
+      ...options,
+    } as unknown as ITenantOffboardingOptions);
+
+  beforeEach(() => {
+    database = {
+      queryByTenant: jest.fn(async (sql: string, [limit, offset]: number[]) =>
+        sql.includes('users') ? slice(users, limit, offset) : [],
+      ),
+      cleanupTenantData: jest.fn().mockResolvedValue({
+        totalRecords: 2,
+        deletedRecords: 2,
+        failedRecords: 0,
+        duration: 1,
+      }),
+      getTenantTables: jest.fn().mockReturnValue(['users', 'orders']),
+    };
+    eventStore = {
+      getTenantEvents: jest.fn(
+        async (_: string, page: { offset: number; limit: number }) =>
+          slice(events, page.limit, page.offset),
+      ),
+      cleanupTenantEvents: jest
+        .fn()
+        .mockResolvedValue({ deletedEvents: 3, deletedSnapshots: 1 }),
+    };
+    cache = {
+      cleanupTenantCache: jest.fn().mockResolvedValue({
+        totalKeys: 4,
+        deletedKeys: 4,
+        failedKeys: 0,
+        duration: 1,
+        errors: [],
+      }),
+    };
+    sink = new MemoryArchiveSink();
+    service = createService();
+  });
+
+  it('活跃租户不允许下线', async () => {
+    await expect(
+      service.offboard(createTenant(TenantStatus.ACTIVE)),
+    ).rejects.toBeInstanceOf(OperationNotAllowedError);
+    expect(database.cleanupTenantData).not.toHaveBeenCalled();
+  });
+
+  it('应该把每张表和每类事件流写入归档并生成清单和校验和', async () => {
+    const tenant = createTenant(TenantStatus.SUSPENDED);
+
+    const archive = await service.exportData(tenant);
+
+    expect(database.queryByTenant).toHaveBeenCalledWith(
+      'SELECT * FROM users ORDER BY id LIMIT ? OFFSET ?',
+      [1000, 0],
+      expect.objectContaining({ tenantId: tenant.id.toString() }),
+    );
+    const files = sink.archives.get(archive.location)!;
+    expect([...files.keys()]).toEqual([
+      'database/users.jsonl',
+      'database/orders.jsonl',
+      'events/User.jsonl',
+      'events/Order.jsonl',
+      'manifest.json',
+    ]);
+
+    const content = files.get('database/users.jsonl')!;
+    expect(content).toBe(
+      '{"id":"u1","name":"Alice"}\n{"id":"u2","name":"Bob"}\n',
+    );
+    expect(archive.manifest.files[0]).toEqual({
+      path: 'database/users.jsonl',
+      records: 2,
+      bytes: Buffer.byteLength(content),
+      sha256: createHash('sha256').update(content).digest('hex'),
+    });
+    expect(archive.manifest.files[2].records).toBe(2);
+    expect(archive.manifest.exportedAt).toBe(now.toISOString());
+
+    const manifest = files.get('manifest.json')!;
+    expect(JSON.parse(manifest)).toEqual(archive.manifest);
+    expect(archive.checksum).toBe(
+      createHash('sha256').update(manifest).digest('hex'),
+    );
+  });
+
+  it('应该分页读取记录和事件且内容与一次读取相同', async () => {
+    const tenant = createTenant(TenantStatus.SUSPENDED);
+    const whole = await service.exportData(tenant);
+
+    const paged = await createService({ exportPageSize: 1 }).exportData(tenant);
+
+    expect(
+      database.queryByTenant.mock.calls
+        .filter(([sql]) => sql.includes('users'))
+        .map(([, params]) => params),
+    ).toEqual([
+      [1000, 0],
+      [1, 0],
+      [1, 1],
+      [1, 2],
+    ]);
+    expect(eventStore.getTenantEvents).toHaveBeenLastCalledWith(
+      tenant.id.toString(),
+      { offset: 3, limit: 1 },
+    );
+    expect(paged.manifest).toEqual(whole.manifest);
+    expect(sink.archives.get(paged.location)).toEqual(
+      sink.archives.get(whole.location),
+    );
+  });
+
+  it('未配置租户表时应该导出失败且不擦除数据', async () => {
+    database.getTenantTables.mockReturnValue([]);
+
+    await expect(
+      service.offboard(createTenant(TenantStatus.SUSPENDED)),
+    ).rejects.toThrow('未配置 tenantTables');
+    expect(database.cleanupTenantData).not.toHaveBeenCalled();
+  });
+
+  it('应该擦除全部存储并生成可校验的签名报告', async () => {
+    const tenant = createTenant(TenantStatus.DELETED);
+    const tenantId = tenant.id.toString();
+
+    const { archive, report } = await service.offboard(tenant);
+
+    expect(database.cleanupTenantData).toHaveBeenCalledWith(tenantId);
+    expect(eventStore.cleanupTenantEvents).toHaveBeenCalledWith(tenantId);
+    expect(cache.cleanupTenantCache).toHaveBeenCalledWith(tenantId);
+    expect(report).toMatchObject({
+      tenantId,
+      tenantCode: 'acme',
+      export: {
+        checksum: archive.checksum,
+        location: archive.location,
+        files: 4,
+        records: 5,
+      },
+      success: true,
+      signature: { algorithm: 'HMAC-SHA256', keyId: 'key-1' },
+    });
+    expect(report.erasure.map((result) => result.target)).toEqual([
+      'database',
+      'eventStore',
+      'cache',
+    ]);
+    expect(service.verifyReport(report)).toBe(true);
+    expect(service.verifyReport(JSON.parse(JSON.stringify(report)))).toBe(true);
+  });
+
+  it('报告被修改后签名校验应该失败', async () => {
+    const { report } = await service.offboard(
+      createTenant(TenantStatus.SUSPENDED),
+    );
+
+    expect(service.verifyReport({ ...report, success: false })).toBe(false);
+  });
+
+  it('单个目标擦除失败时应该继续擦除其他目标并在报告中记录', async () => {
+    eventStore.cleanupTenantEvents.mockRejectedValue(
+      new Error('mongo unavailable'),
+    );
+    cache.cleanupTenantCache.mockResolvedValue({
+      totalKeys: 4,
+      deletedKeys: 3,
+      failedKeys: 1,
+      duration: 1,
+      errors: [new Error('key locked')],
+    });
+
+    const { report } = await service.offboard(
+      createTenant(TenantStatus.EXPIRED),
+    );
+
+    expect(report.success).toBe(false);
+    expect(report.erasure).toEqual([
+      {
+        target: 'database',
+        success: true,
+        details: { totalRecords: 2, deletedRecords: 2, failedRecords: 0 },
+      },
+      {
+        target: 'eventStore',
+        success: false,
+        details: {},
+        error: 'mongo unavailable',
+      },
+      {
+        target: 'cache',
+        success: false,
+        details: { totalKeys: 4, deletedKeys: 3, failedKeys: 1 },
+        error: 'key locked',
+      },
+    ]);
+    expect(service.verifyReport(report)).toBe(true);
+  });
+
+  it('数据库清理有失败的记录时应该把数据库目标标记为失败', async () => {
+    database.cleanupTenantData.mockResolvedValue({
+      totalRecords: 3,
+      deletedRecords: 2,
+      failedRecords: 1,
+      duration: 1,
+    });
+
+    const { report } = await service.offboard(
+      createTenant(TenantStatus.EXPIRED),
+    );
+
+    expect(report.success).toBe(false);
+    expect(report.erasure[0]).toEqual({
+      target: 'database',
+      success: false,
+      details: { totalRecords: 3, deletedRecords: 2, failedRecords: 1 },
+      error: '1 条记录删除失败',
+    });
+  });
+
+  it('使用行级隔离策略擦除时租户的行应该真正被删除', async () => {
+    const tenant = createTenant(TenantStatus.DELETED);
+    const tenantId = tenant.id.toString();
+    const connection = createSqliteConnection('offboarding', {
+      database: ':memory:',
+    });
+    try {
+      for (const table of ['users', 'orders']) {
+        await connection.execute(
+          `CREATE TABLE ${table} (id INTEGER PRIMARY KEY, tenant_id TEXT NOT NULL)`,
+        );
+        await connection.execute(
+          `INSERT INTO ${table} (tenant_id) VALUES (?), (?), ('other')`,
+          [tenantId, tenantId],
+        );
+      }
+      const strategy = new DatabaseIsolationStrategy(
+        { ...DEFAULT_ISOLATION_CONFIG, tenantTables: ['users', 'orders'] },
+        connection,
+      );
+      const sqliteService = new TenantOffboardingService({
+        database: {
+          queryByTenant: async <T>(
+            sql: string,
+            params: unknown[] = [],
+            context = { tenantId, createdAt: now },
+          ): Promise<T[]> => {
+            const isolated = strategy.isolate(sql, params, context);
+            return connection.query<T>(isolated.sql, isolated.params);
+          },
+          cleanupTenantData: (id: string) => strategy.cleanupTenantData(id),
+          getTenantTables: () => strategy.getTenantTables(),
+        },
+        eventStore,
+        cache,
+        sink,
+        exportPageSize: 1,
+        signingKey: 'secret',
+        clock: () => now,
+      } as unknown as ITenantOffboardingOptions);
+
+      const { archive, report } = await sqliteService.offboard(tenant);
+
+      expect(archive.manifest.files[0].records).toBe(2);
+      expect(archive.manifest.files[1].records).toBe(2);
+      expect(report.erasure[0]).toEqual({
+        target: 'database',
+        success: true,
+        details: { totalRecords: 4, deletedRecords: 4, failedRecords: 0 },
+      });
+      for (const table of ['users', 'orders']) {
+        expect(
+          await connection.query(`SELECT tenant_id FROM ${table}`),
+        ).toEqual([{ tenant_id: 'other' }]);
+      }
+    } finally {
+      await connection.close();
+    }
+  });
+
+  it('导出失败时应该放弃归档且不擦除数据', async () => {
+    eventStore.getTenantEvents.mockRejectedValue(new Error('read failed'));
+
+    await expect(
+      service.offboard(createTenant(TenantStatus.SUSPENDED)),
+    ).rejects.toThrow('read failed');
+    expect(sink.abort).toHaveBeenCalledTimes(1);
+    expect(database.cleanupTenantData).not.toHaveBeenCalled();
+    expect(cache.cleanupTenantCache).not.toHaveBeenCalled();
+  });
+
+  it('归档提交失败时不应该擦除数据', async () => {
+    sink.commit.mockRejectedValue(new Error('bucket unavailable'));
+
+    await expect(
+      service.offboard(createTenant(TenantStatus.SUSPENDED)),
+    ).rejects.toThrow('bucket unavailable');
+    expect(sink.archives.size).toBe(0);
+    expect(sink.abort).toHaveBeenCalledTimes(1);
+    expect(database.cleanupTenantData).not.toHaveBeenCalled();
+    expect(eventStore.cleanupTenantEvents).not.toHaveBeenCalled();
+  });
+});
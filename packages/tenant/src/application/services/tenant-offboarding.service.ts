@@ -0,0 +1,523 @@
+/**
+ * 租户下线服务
+ *
+ * @description 客户下线时先把租户的全部数据导出到归档存储，归档提交后再从数据库、
+ * 事件存储和缓存中擦除，最后生成带签名的完成报告用于合规留档
+ *
+ * ## 业务规则
+ *
+ * ### 下线前提
+ * - 只有暂停、过期或已删除的租户可以下线，活跃和试用租户抛出 OperationNotAllowedError
+ * - 归档提交到归档存储后才执行擦除
+ * - 导出或提交失败时放弃归档，不执行擦除，直接抛出错误
+ *
+ * ### 导出规则
+ * - 导出和擦除使用数据库服务 getTenantTables 返回的同一份表列表，未配置时导出失败
+ * - 每张表导出为 database/{table}.jsonl，以租户上下文按 exportOrderColumn 排序分页查询
+ * - 事件存储中的租户事件分页读取，按聚合根类型导出为 events/{aggregateType}.jsonl
+ * - 每页写入归档后即释放，内存占用与页大小相关，与租户数据量无关
+ * - 每行一条JSON记录，日期序列化为ISO字符串
+ * - manifest.json 记录租户信息、导出时间和每个文件的记录数、字节数和SHA-256校验和
+ * - 归档校验和为 manifest.json 内容的SHA-256
+ *
+ * ### 擦除规则
+ * - 依次擦除数据库、事件存储和缓存，数据库擦除复用 cleanupTenantData
+ * - 单个目标失败不影响其他目标，失败原因记录在报告中
+ * - 数据库或缓存清理结果带错误，或有删除失败的记录、键时视为失败
+ *
+ * ### 报告规则
+ * - 报告包含导出摘要、各目标的擦除结果和整体是否成功
+ * - 签名为报告规范化JSON（键按字母排序）的HMAC-SHA256
+ * - verifyReport 使用同一密钥校验签名，报告任何字段被修改都会校验失败
+ *
+ * @example
+ * ```typescript
+ * const offboarding = new TenantOffboardingService({
+ *   database: tenantAwareDatabaseService,
+ *   eventStore: mongoEventStore,
+ *   cache: cacheManager,
+ *   sink: objectStorageArchiveSink,
+ *   signingKey: process.env.OFFBOARDING_SIGNING_KEY,
+ * });
+ *
+ * const { report } = await offboarding.offboard(tenant);
+ * await auditLog.save(report);
+ * ```
+ *
+ * @since 1.0.0
+ */
+
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+import type { Hash } from 'crypto';
+import { Injectable } from '@nestjs/common';
+import { OperationNotAllowedError } from '@aiofix/core';
+import type { ITenantAwareCacheService } from '@aiofix/cache';
+import type {
+  ITenantAwareDatabaseService,
+  MongoEventStore,
+} from '@aiofix/database';
+import { TenantStatus } from '../../domain/entities/tenant.entity';
+import type { Tenant } from '../../domain/entities/tenant.entity';
+
+/**
+ * 导出格式版本
+ */
+const EXPORT_FORMAT_VERSION = 1;
+
+/**
+ * 默认的导出页大小
+ */
+const DEFAULT_EXPORT_PAGE_SIZE = 1000;
+
+/**
+ * 允许下线的租户状态
+ */
+const OFFBOARDABLE_STATUSES: ReadonlySet<TenantStatus> = new Set([
+  TenantStatus.SUSPENDED,
+  TenantStatus.EXPIRED,
+  TenantStatus.DELETED,
+]);
+
+/**
+ * 下线服务选项
+ */
+export interface ITenantOffboardingOptions {
+  /** 租户感知数据库服务 */
+  database: Pick<
+    ITenantAwareDatabaseService,
+    'queryByTenant' | 'cleanupTenantData' | 'getTenantTables'
+  >;
+  /** 事件存储 */
+  eventStore: Pick<MongoEventStore, 'getTenantEvents' | 'cleanupTenantEvents'>;
+  /** 租户感知缓存服务 */
+  cache: Pick<ITenantAwareCacheService, 'cleanupTenantCache'>;
+  /** 归档存储 */
+  sink: ITenantArchiveSink;
+  /** 导出时每页读取的记录数，默认1000 */
+  exportPageSize?: number;
+  /** 导出分页的排序列，每张表都需要有该列，默认 id */
+  exportOrderColumn?: string;
+  /** 报告签名密钥 */
+  signingKey: string | Buffer;
+  /** 签名密钥标识，写入报告便于轮换密钥 */
+  signingKeyId?: string;
+  /** 时钟，默认当前时间 */
+  clock?: () => Date;
+}
+
+/**
+ * 归档写入器
+ */
+export interface ITenantArchiveWriter {
+  /** 向归档内的文件追加内容，同一文件按调用顺序拼接 */
+  append(path: string, content: string): Promise<void>;
+  /** 持久化归档并返回存储位置，返回后才会擦除租户数据 */
+  commit(): Promise<string>;
+  /** 放弃未提交的归档 */
+  abort(): Promise<void>;
+}
+
+/**
+ * 归档存储
+ */
+export interface ITenantArchiveSink {
+  /** 为租户开始一个新的归档 */
+  open(tenant: { id: string; code: string }): Promise<ITenantArchiveWriter>;
+}
+
+/**
+ * 导出清单中的文件条目
+ */
+export interface ITenantExportManifestEntry {
+  readonly path: string;
+  readonly records: number;
+  readonly bytes: number;
+  readonly sha256: string;
+}
+
+/**
+ * 导出清单
+ */
+export interface ITenantExportManifest {
+  readonly formatVersion: number;
+  readonly tenant: {
+    readonly id: string;
+    readonly code: string;
+    readonly name: string;
+  };
+  readonly exportedAt: string;
+  readonly files: ITenantExportManifestEntry[];
+}
+
+/**
+ * 导出归档
+ */
+export interface ITenantExportArchive {
+  /** 清单 */
+  readonly manifest: ITenantExportManifest;
+  /** manifest.json 的SHA-256 */
+  readonly checksum: string;
+  /** 归档存储返回的位置 */
+  readonly location: string;
+}
+
+/**
+ * 擦除目标
+ */
+export type TenantErasureTarget = 'database' | 'eventStore' | 'cache';
+
+/**
+ * 单个目标的擦除结果
+ */
+export interface ITenantErasureResult {
+  readonly target: TenantErasureTarget;
+  readonly success: boolean;
+  /** 删除数量等统计 */
+  readonly details: Record<string, number>;
+  /** 失败原因 */
+  readonly error?: string;
+}
+
+/**
+ * 下线完成报告
+ */
+export interface ITenantOffboardingReport {
+  readonly tenantId: string;
+  readonly tenantCode: string;
+  readonly startedAt: string;
+  readonly completedAt: string;
+  readonly export: {
+    readonly checksum: string;
+    readonly location: string;
+    readonly files: number;
+    readonly records: number;
+  };
+  readonly erasure: ITenantErasureResult[];
+  readonly success: boolean;
+  readonly signature: {
+    readonly algorithm: 'HMAC-SHA256';
+    readonly keyId?: string;
+    readonly value: string;
+  };
+}
+
+/**
+ * 导出中单个文件的累计摘要
+ */
+interface IExportFileDigest {
+  hash: Hash;
+  records: number;
+  bytes: number;
+}
+
+/**
+ * 下线结果
+ */
+export interface ITenantOffboardingResult {
+  readonly archive: ITenantExportArchive;
+  readonly report: ITenantOffboardingReport;
+}
+
+/**
+ * 租户下线服务
+ */
+@Injectable()
+export class TenantOffboardingService {
+  private readonly clock: () => Date;
+
+  constructor(private readonly options: ITenantOffboardingOptions) {
+    this.clock = options.clock ?? ((): Date => new Date());
+  }
+
+  /**
+   * 导出、擦除并生成签名报告
+   */
+  async offboard(tenant: Tenant): Promise<ITenantOffboardingResult> {
+    if (!OFFBOARDABLE_STATUSES.has(tenant.status)) {
+      throw new OperationNotAllowedError(
+        'offboard',
+        'Tenant',
+        `租户 ${tenant.code} 当前状态为 ${tenant.status}，需要先暂停或删除`,
+        { tenantId: tenant.id.toString() },
+      );
+    }
+
+    const startedAt = this.clock().toISOString();
+    const archive = await this.exportData(tenant);
+    const erasure = await this.erase(tenant);
+
+    const report = this.sign({
+      tenantId: tenant.id.toString(),
+      tenantCode: tenant.code,
+      startedAt,
+      completedAt: this.clock().toISOString(),
+      export: {
+        checksum: archive.checksum,
+        location: archive.location,
+        files: archive.manifest.files.length,
+        records: archive.manifest.files.reduce(
+          (total, file) => total + file.records,
+          0,
+        ),
+      },
+      erasure,
+      success: erasure.every((result) => result.success),
+    });
+
+    return { archive, report };
+  }
+
+  /**
+   * 导出租户数据并提交到归档存储
+   */
+  async exportData(tenant: Tenant): Promise<ITenantExportArchive> {
+    const tenantId = tenant.id.toString();
+    const { database, eventStore } = this.options;
+    const tables = database.getTenantTables();
+    if (tables.length === 0) {
+      throw new Error('数据库服务未配置 tenantTables，无法导出租户数据');
+    }
+    const orderColumn = this.options.exportOrderColumn ?? 'id';
+    const context = {
+      tenantId,
+      tenantCode: tenant.code,
+      createdAt: this.clock(),
+    };
+
+    const writer = await this.options.sink.open({
+      id: tenantId,
+      code: tenant.code,
+    });
+    try {
+      const files = new Map<string, IExportFileDigest>();
+      const write = async (path: string, records: unknown[]): Promise<void> => {
+        const content = records
+          .map((record) => `${JSON.stringify(record)}\n`)
+          .join('');
+        let digest = files.get(path);
+        if (!digest) {
+          digest = { hash: createHash('sha256'), records: 0, bytes: 0 };
+          files.set(path, digest);
+        }
+        digest.hash.update(content);
+        digest.records += records.length;
+        digest.bytes += Buffer.byteLength(content);
+        await writer.append(path, content);
+      };
+
+      for (const table of tables) {
+        const path = `database/${table}.jsonl`;
+        await write(path, []);
+        await this.forEachPage(
+          (offset, limit) =>
+            database.queryByTenant<unknown>(
+              `SELECT * FROM ${table} ORDER BY ${orderColumn} LIMIT ? OFFSET ?`,
+              [limit, offset],
+              context,
+            ),
+          (rows) => write(path, rows),
+        );
+      }
+
+      await this.forEachPage(
+        (offset, limit) =>
+          eventStore.getTenantEvents(tenantId, { offset, limit }),
+        async (events) => {
+          const streams = new Map<string, unknown[]>();
+          for (const event of events) {
+            const path = `events/${event.aggregateType}.jsonl`;
+            streams.set(path, [...(streams.get(path) ?? []), event]);
+          }
+          for (const [path, records] of streams) {
+            await write(path, records);
+          }
+        },
+      );
+
+      const manifest: ITenantExportManifest = {
+        formatVersion: EXPORT_FORMAT_VERSION,
+        tenant: { id: tenantId, code: tenant.code, name: tenant.name },
+        exportedAt: this.clock().toISOString(),
+        files: [...files].map(([path, digest]) => ({
+          path,
+          records: digest.records,
+          bytes: digest.bytes,
+          sha256: digest.hash.digest('hex'),
+        })),
+      };
+      const manifestContent = JSON.stringify(manifest, null, 2);
+      await writer.append('manifest.json', manifestContent);
+      const location = await writer.commit();
+
+      return { manifest, checksum: sha256(manifestContent), location };
+    } catch (error) {
+      await writer.abort().catch(() => undefined);
+      throw error;
+    }
+  }
+
+  /**
+   * 校验报告签名
+   */
+  verifyReport(report: ITenantOffboardingReport): boolean {
+    const { signature, ...payload } = report;
+    const expected = Buffer.from(this.computeSignature(payload), 'hex');
+    const actual = Buffer.from(signature.value, 'hex');
+    return (
+      expected.length === actual.length && timingSafeEqual(expected, actual)
+    );
+  }
+
+  // ==================== 私有方法 ====================
+
+  /**
+   * 逐页读取并处理，读到不满一页时结束
+   */
+  private async forEachPage<T>(
+    load: (offset: number, limit: number) => Promise<T[]>,
+    handle: (page: T[]) => Promise<void>,
+  ): Promise<void> {
+    const size = this.options.exportPageSize ?? DEFAULT_EXPORT_PAGE_SIZE;
+    for (let offset = 0; ; offset += size) {
+      const page = await load(offset, size);
+      if (page.length > 0) {
+        await handle(page);
+      }
+      if (page.length < size) {
+        return;
+      }
+    }
+  }
+
+  /**
+   * 依次擦除各目标中的租户数据
+   */
+  private async erase(tenant: Tenant): Promise<ITenantErasureResult[]> {
+    const tenantId = tenant.id.toString();
+    const { database, eventStore, cache } = this.options;
+
+    return [
+      await this.eraseTarget('database', async () => {
+        const result = await database.cleanupTenantData(tenantId);
+        return {
+          details: {
+            totalRecords: result.totalRecords,
+            deletedRecords: result.deletedRecords,
+            failedRecords: result.failedRecords,
+          },
+          errors: withFailureCount(
+            result.errors ?? [],
+            result.failedRecords,
+            '条记录',
+          ),
+        };
+      }),
+      await this.eraseTarget('eventStore', async () => ({
+        details: await eventStore.cleanupTenantEvents(tenantId),
+        errors: [],
+      })),
+      await this.eraseTarget('cache', async () => {
+        const result = await cache.cleanupTenantCache(tenantId);
+        return {
+          details: {
+            totalKeys: result.totalKeys,
+            deletedKeys: result.deletedKeys,
+            failedKeys: result.failedKeys,
+          },
+          errors: withFailureCount(
+            result.errors.map((error) => error.message),
+            result.failedKeys,
+            '个缓存键',
+          ),
+        };
+      }),
+    ];
+  }
+
+  /**
+   * 擦除单个目标并记录结果
+   */
+  private async eraseTarget(
+    target: TenantErasureTarget,
+    erase: () => Promise<{ details: Record<string, number>; errors: string[] }>,
+  ): Promise<ITenantErasureResult> {
+    try {
+      const { details, errors } = await erase();
+      return errors.length > 0
+        ? { target, success: false, details, error: errors.join('; ') }
+        : { target, success: true, details };
+    } catch (error) {
+      return {
+        target,
+        success: false,
+        details: {},
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * 为报告签名
+   */
+  private sign(
+    payload: Omit<ITenantOffboardingReport, 'signature'>,
+  ): ITenantOffboardingReport {
+    return {
+      ...payload,
+      signature: {
+        algorithm: 'HMAC-SHA256',
+        ...(this.options.signingKeyId && { keyId: this.options.signingKeyId }),
+        value: this.computeSignature(payload),
+      },
+    };
+  }
+
+  /**
+   * 计算报告内容的HMAC-SHA256
+   */
+  private computeSignature(
+    payload: Omit<ITenantOffboardingReport, 'signature'>,
+  ): string {
+    return createHmac('sha256', this.options.signingKey)
+      .update(canonicalJson(payload))
+      .digest('hex');
+  }
+}
+
+/**
+ * 计算SHA-256十六进制摘要
+ */
+function sha256(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * 键按字母排序的JSON序列化
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries
+      .map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * 清理结果有失败计数但没有错误信息时补充一条错误，保证目标被标记为失败
+ */
+function withFailureCount(
+  errors: string[],
+  failed: number,
+  unit: string,
+): string[] {
+  return failed > 0 && errors.length === 0
+    ? [`${failed} ${unit}删除失败`]
+    : errors;
+}
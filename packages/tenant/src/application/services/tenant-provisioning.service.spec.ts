@@ -0,0 +1,286 @@
+/**
+ * 租户资源开通服务测试
+ *
+ * @description 测试步骤执行顺序、失败回滚、进度报告、清理流程和事件订阅
+ * @since 1.0.0
+ */
+
+import { randomUUID } from 'crypto';
+import { EntityId, EntityNotFoundError } from '@aiofix/core';
+import {
+  Tenant,
+  TenantType,
+  TenantStatus,
+  IsolationStrategy,
+} from '../../domain/entities/tenant.entity';
+import { TenantCreatedEvent } from '../../domain/events/tenant.events';
+import { InMemoryTenantRepository } from '../../infrastructure/repositories/in-memory-tenant.repository';
+import {
+  TenantProvisioningOperation,
+  TenantProvisioningStepStatus,
+} from '../provisioning/tenant-provisioning.interface';
+import type {
+  ITenantProvisioningProgress,
+  ITenantProvisioningStep,
+} from '../provisioning/tenant-provisioning.interface';
+import { TenantProvisioningService } from './tenant-provisioning.service';
+
+// 创建租户
+const createTenant = (
+  isolationStrategy = IsolationStrategy.ROW_LEVEL_SECURITY,
+): Tenant =>
+  new Tenant(
+    EntityId.fromString(randomUUID()),
+    'acme',
+    'Acme',
+    'acme.example.com',
+    TenantType.BASIC,
+    isolationStrategy,
+    TenantStatus.TRIAL,
+    {},
+    { createdBy: 'system', tenantId: 'system' },
+  );
+
+// 创建记录调用顺序的步骤
+const createStep = (
+  name: string,
+  calls: string[],
+  overrides: Partial<ITenantProvisioningStep> = {},
+): ITenantProvisioningStep => ({
+  name,
+  provision: jest.fn(async () => {
+    calls.push(`provision:${name}`);
+  }),
+  rollback: jest.fn(async () => {
+    calls.push(`rollback:${name}`);
+  }),
+  deprovision: jest.fn(async () => {
+    calls.push(`deprovision:${name}`);
+  }),
+  ...overrides,
+});
+
+describe('TenantProvisioningService', () => {
+  let repository: InMemoryTenantRepository;
+  let calls: string[];
+
+  beforeEach(() => {
+    repository = new InMemoryTenantRepository();
+    calls = [];
+  });
+
+  describe('开通', () => {
+    it('应该按顺序执行步骤并跳过不适用的步骤', async () => {
+      const service = new TenantProvisioningService(repository, [
+        createStep('database', calls),
+        createStep('cache', calls, { supports: () => false }),
+        createStep('roles', calls),
+      ]);
+
+      const result = await service.provision(createTenant());
+
+      expect(calls).toEqual(['provision:database', 'provision:roles']);
+      expect(result.success).toBe(true);
+      expect(result.operation).toBe(TenantProvisioningOperation.PROVISION);
+      expect(result.steps.map((step) => step.status)).toEqual([
+        TenantProvisioningStepStatus.COMPLETED,
+        TenantProvisioningStepStatus.SKIPPED,
+        TenantProvisioningStepStatus.COMPLETED,
+      ]);
+    });
+
+    it('步骤失败时应该按相反顺序回滚已完成的步骤', async () => {
+      const failure = new Error('cache unavailable');
+      const service = new TenantProvisioningService(repository, [
+        createStep('database', calls),
+        createStep('roles', calls),
+        createStep('cache', calls, {
+          provision: jest.fn().mockRejectedValue(failure),
+        }),
+        createStep('audit', calls),
+      ]);
+
+      const result = await service.provision(createTenant());
+
+      expect(calls).toEqual([
+        'provision:database',
+        'provision:roles',
+        'rollback:roles',
+        'rollback:database',
+      ]);
+      expect(result.success).toBe(false);
+      expect(result.steps).toEqual([
+        { step: 'database', status: TenantProvisioningStepStatus.ROLLED_BACK },
+        { step: 'roles', status: TenantProvisioningStepStatus.ROLLED_BACK },
+        {
+          step: 'cache',
+          status: TenantProvisioningStepStatus.FAILED,
+          error: failure,
+        },
+        { step: 'audit', status: TenantProvisioningStepStatus.PENDING },
+      ]);
+    });
+
+    it('回滚失败时应该继续回滚其他步骤', async () => {
+      const rollbackFailure = new Error('drop failed');
+      const service = new TenantProvisioningService(repository, [
+        createStep('database', calls),
+        createStep('roles', calls, {
+          rollback: jest.fn().mockRejectedValue(rollbackFailure),
+        }),
+        createStep('cache', calls, {
+          provision: jest.fn().mockRejectedValue(new Error('failed')),
+        }),
+      ]);
+
+      const result = await service.provision(createTenant());
+
+      expect(calls).toContain('rollback:database');
+      expect(result.steps[1]).toEqual({
+        step: 'roles',
+        status: TenantProvisioningStepStatus.ROLLBACK_FAILED,
+        error: rollbackFailure,
+      });
+    });
+
+    it('应该报告每个步骤的进度且忽略监听器错误', async () => {
+      const progress: ITenantProvisioningProgress[] = [];
+      const service = new TenantProvisioningService(
+        repository,
+        [createStep('database', calls), createStep('roles', calls)],
+        {
+          onProgress: () => {
+            throw new Error('listener failed');
+          },
+        },
+      );
+      const tenant = createTenant();
+
+      await service.provision(tenant, (item) => progress.push(item));
+
+      expect(
+        progress.map(({ step, status, index, total }) => [
+          step,
+          status,
+          index,
+          total,
+        ]),
+      ).toEqual([
+        ['database', TenantProvisioningStepStatus.RUNNING, 1, 2],
+        ['database', TenantProvisioningStepStatus.COMPLETED, 1, 2],
+        ['roles', TenantProvisioningStepStatus.RUNNING, 2, 2],
+        ['roles', TenantProvisioningStepStatus.COMPLETED, 2, 2],
+      ]);
+      expect(progress[0].tenantId).toBe(tenant.id.toString());
+    });
+
+    it('同一租户同时只应该运行一次开通', async () => {
+      const service = new TenantProvisioningService(repository, [
+        createStep('database', calls),
+      ]);
+      const tenant = createTenant();
+
+      const [first, second] = await Promise.all([
+        service.provision(tenant),
+        service.provision(tenant),
+      ]);
+
+      expect(first).toBe(second);
+      expect(calls).toEqual(['provision:database']);
+    });
+  });
+
+  describe('清理', () => {
+    it('应该按相反顺序清理且单个步骤失败不影响其他步骤', async () => {
+      const failure = new Error('cleanup failed');
+      const service = new TenantProvisioningService(repository, [
+        createStep('database', calls),
+        createStep('cache', calls, {
+          deprovision: jest.fn().mockRejectedValue(failure),
+        }),
+        createStep('roles', calls),
+      ]);
+
+      const result = await service.deprovision(createTenant());
+
+      expect(calls).toEqual(['deprovision:roles', 'deprovision:database']);
+      expect(result.operation).toBe(TenantProvisioningOperation.DEPROVISION);
+      expect(result.success).toBe(false);
+      expect(result.steps[1]).toEqual({
+        step: 'cache',
+        status: TenantProvisioningStepStatus.FAILED,
+        error: failure,
+      });
+    });
+  });
+
+  describe('事件订阅', () => {
+    it('收到租户创建事件时应该开通资源', async () => {
+      const service = new TenantProvisioningService(repository, [
+        createStep('database', calls),
+      ]);
+      const eventBus = { subscribe: jest.fn().mockReturnValue('sub-1') };
+      const tenant = await repository.save(createTenant());
+
+      expect(service.subscribe(eventBus)).toBe('sub-1');
+      const [eventType, handler] = eventBus.subscribe.mock.calls[0];
+      expect(eventType).toBe('TenantCreated');
+
+      await handler(
+        new TenantCreatedEvent(
+          tenant.id,
+          tenant.code,
+          tenant.name,
+          tenant.type,
+          tenant.isolationStrategy,
+          'system',
+        ),
+      );
+      expect(calls).toEqual(['provision:database']);
+    });
+
+    it('开通失败时事件处理应该抛出失败步骤的错误', async () => {
+      const failure = new Error('database unavailable');
+      const service = new TenantProvisioningService(repository, [
+        createStep('database', calls, {
+          provision: jest.fn().mockRejectedValue(failure),
+        }),
+      ]);
+      const eventBus = { subscribe: jest.fn() };
+      const tenant = await repository.save(createTenant());
+      service.subscribe(eventBus);
+      const handler = eventBus.subscribe.mock.calls[0][1];
+
+      await expect(
+        handler(
+          new TenantCreatedEvent(
+            tenant.id,
+            tenant.code,
+            tenant.name,
+            tenant.type,
+            tenant.isolationStrategy,
+            'system',
+          ),
+        ),
+      ).rejects.toBe(failure);
+    });
+
+    it('租户不存在时应该抛出EntityNotFoundError', async () => {
+      const service = new TenantProvisioningService(repository, []);
+      const tenant = createTenant();
+
+      await expect(
+        service.handleTenantCreated(
+          new TenantCreatedEvent(
+            tenant.id,
+            tenant.code,
+            tenant.name,
+            tenant.type,
+            tenant.isolationStrategy,
+            'system',
+          ),
+        ),
+      ).rejects.toBeInstanceOf(EntityNotFoundError);
+    });
+  });
+});
@@ -0,0 +1,294 @@
+/**
+ * 租户资源开通服务
+ *
+ * @description 租户创建后按隔离策略开通数据库、缓存命名空间和默认角色等资源，
+ * 并提供对应的清理流程
+ *
+ * ## 业务规则
+ *
+ * ### 开通规则
+ * - 订阅 TenantCreated 事件，收到事件后按租户ID加载租户并开通资源
+ * - 步骤按注册顺序依次执行，supports 返回 false 的步骤标记为跳过
+ * - 任一步骤失败时按相反顺序回滚已完成的步骤，后续步骤不再执行
+ * - 回滚失败不会中断其他步骤的回滚，失败记录在步骤报告中
+ * - 同一租户同时只运行一次开通，重复触发返回正在运行的结果
+ *
+ * ### 清理规则
+ * - 按注册顺序的相反顺序执行各步骤的 deprovision
+ * - 单个步骤失败不影响其他步骤，全部成功时结果才为成功
+ *
+ * ### 进度规则
+ * - 每个步骤的状态变化都会通知进度监听器
+ * - 监听器抛出的错误被忽略，不影响开通流程
+ *
+ * @example
+ * ```typescript
+ * const provisioning = new TenantProvisioningService(tenantRepository, [
+ *   new DatabaseProvisioningStep(databaseService, isolationStrategy),
+ *   new CacheNamespaceProvisioningStep(cacheManager),
+ *   new DefaultRolesProvisioningStep(roleStore),
+ * ]);
+ * provisioning.subscribe(eventBus);
+ *
+ * // 删除租户前清理资源
+ * await provisioning.deprovision(tenant);
+ * ```
+ *
+ * @since 1.0.0
+ */
+
+import { Injectable } from '@nestjs/common';
+import { EntityNotFoundError } from '@aiofix/core';
+import type { IEventBus } from '@aiofix/core';
+import type { Tenant } from '../../domain/entities/tenant.entity';
+import type { TenantCreatedEvent } from '../../domain/events/tenant.events';
+import type { ITenantRepository } from '../../domain/repositories/tenant.repository.interface';
+import {
+  TenantProvisioningOperation,
+  TenantProvisioningStepStatus,
+} from '../provisioning/tenant-provisioning.interface';
+import type {
+  ITenantProvisioningStep,
+  ITenantProvisioningStepReport,
+  ITenantProvisioningResult,
+  TenantProvisioningProgressListener,
+} from '../provisioning/tenant-provisioning.interface';
+
+/**
+ * 开通服务选项
+ */
+export interface ITenantProvisioningServiceOptions {
+  /** 所有开通和清理操作的进度监听器 */
+  onProgress?: TenantProvisioningProgressListener;
+}
+
+/**
+ * 步骤状态报告函数
+ */
+interface IProvisioningReporter {
+  (index: number, status: TenantProvisioningStepStatus, error?: unknown): void;
+  /** 生成最终结果 */
+  result(): ITenantProvisioningResult;
+}
+
+/**
+ * 租户资源开通服务
+ */
+@Injectable()
+export class TenantProvisioningService {
+  private readonly running = new Map<
+    string,
+    Promise<ITenantProvisioningResult>
+  >();
+
+  constructor(
+    private readonly tenantRepository: ITenantRepository,
+    private readonly steps: ITenantProvisioningStep[],
+    private readonly options: ITenantProvisioningServiceOptions = {},
+  ) {}
+
+  /**
+   * 订阅租户创建事件
+   *
+   * @description 开通失败时抛出失败步骤的错误，由事件总线记录
+   * @returns 订阅ID
+   */
+  subscribe(eventBus: Pick<IEventBus, 'subscribe'>): string {
+    return eventBus.subscribe<TenantCreatedEvent>(
+      'TenantCreated',
+      async (event) => {
+        const result = await this.handleTenantCreated(event);
+        const failed = result.steps.find(
+          (step) => step.status === TenantProvisioningStepStatus.FAILED,
+        );
+        if (failed) {
+          throw failed.error;
+        }
+      },
+    );
+  }
+
+  /**
+   * 处理租户创建事件
+   */
+  async handleTenantCreated(
+    event: TenantCreatedEvent,
+    onProgress?: TenantProvisioningProgressListener,
+  ): Promise<ITenantProvisioningResult> {
+    const tenant = await this.tenantRepository.findById(event.aggregateId);
+    if (!tenant) {
+      const tenantId = event.aggregateId.toString();
+      throw new EntityNotFoundError('Tenant', tenantId, { tenantId });
+    }
+    return this.provision(tenant, onProgress);
+  }
+
+  /**
+   * 开通租户资源
+   */
+  provision(
+    tenant: Tenant,
+    onProgress?: TenantProvisioningProgressListener,
+  ): Promise<ITenantProvisioningResult> {
+    const tenantId = tenant.id.toString();
+    let running = this.running.get(tenantId);
+    if (!running) {
+      running = this.runProvision(tenant, onProgress).finally(() => {
+        this.running.delete(tenantId);
+      });
+      this.running.set(tenantId, running);
+    }
+    return running;
+  }
+
+  /**
+   * 清理租户资源
+   */
+  async deprovision(
+    tenant: Tenant,
+    onProgress?: TenantProvisioningProgressListener,
+  ): Promise<ITenantProvisioningResult> {
+    const report = this.createReporter(
+      tenant,
+      TenantProvisioningOperation.DEPROVISION,
+      onProgress,
+    );
+
+    for (let index = this.steps.length - 1; index >= 0; index--) {
+      const step = this.steps[index];
+      if (!this.isApplicable(step, tenant)) {
+        report(index, TenantProvisioningStepStatus.SKIPPED);
+        continue;
+      }
+
+      report(index, TenantProvisioningStepStatus.RUNNING);
+      try {
+        await step.deprovision(tenant);
+        report(index, TenantProvisioningStepStatus.COMPLETED);
+      } catch (error) {
+        report(index, TenantProvisioningStepStatus.FAILED, error);
+      }
+    }
+
+    return report.result();
+  }
+
+  // ==================== 私有方法 ====================
+
+  /**
+   * 依次执行开通步骤，失败时回滚
+   */
+  private async runProvision(
+    tenant: Tenant,
+    onProgress?: TenantProvisioningProgressListener,
+  ): Promise<ITenantProvisioningResult> {
+    const report = this.createReporter(
+      tenant,
+      TenantProvisioningOperation.PROVISION,
+      onProgress,
+    );
+    const completed: number[] = [];
+
+    for (const [index, step] of this.steps.entries()) {
+      if (!this.isApplicable(step, tenant)) {
+        report(index, TenantProvisioningStepStatus.SKIPPED);
+        continue;
+      }
+
+      report(index, TenantProvisioningStepStatus.RUNNING);
+      try {
+        await step.provision(tenant);
+        completed.push(index);
+        report(index, TenantProvisioningStepStatus.COMPLETED);
+      } catch (error) {
+        report(index, TenantProvisioningStepStatus.FAILED, error);
+        await this.rollback(tenant, completed.reverse(), report);
+        break;
+      }
+    }
+
+    return report.result();
+  }
+
+  /**
+   * 按给定顺序回滚已完成的步骤
+   */
+  private async rollback(
+    tenant: Tenant,
+    indexes: number[],
+    report: IProvisioningReporter,
+  ): Promise<void> {
+    for (const index of indexes) {
+      report(index, TenantProvisioningStepStatus.ROLLING_BACK);
+      try {
+        await this.steps[index].rollback(tenant);
+        report(index, TenantProvisioningStepStatus.ROLLED_BACK);
+      } catch (error) {
+        report(index, TenantProvisioningStepStatus.ROLLBACK_FAILED, error);
+      }
+    }
+  }
+
+  /**
+   * 步骤是否适用于租户
+   */
+  private isApplicable(step: ITenantProvisioningStep, tenant: Tenant): boolean {
+    return step.supports ? step.supports(tenant) : true;
+  }
+
+  /**
+   * 创建进度报告函数，记录步骤状态并通知监听器
+   */
+  private createReporter(
+    tenant: Tenant,
+    operation: TenantProvisioningOperation,
+    onProgress?: TenantProvisioningProgressListener,
+  ): IProvisioningReporter {
+    const tenantId = tenant.id.toString();
+    const listeners = [this.options.onProgress, onProgress].filter(
+      (listener): listener is TenantProvisioningProgressListener => !!listener,
+    );
+    const steps: ITenantProvisioningStepReport[] = this.steps.map((step) => ({
+      step: step.name,
+      status: TenantProvisioningStepStatus.PENDING,
+    }));
+
+    const report = (
+      index: number,
+      status: TenantProvisioningStepStatus,
+      error?: unknown,
+    ): void => {
+      steps[index] =
+        error === undefined
+          ? { step: steps[index].step, status }
+          : { step: steps[index].step, status, error };
+
+      for (const listener of listeners) {
+        try {
+          listener({
+            ...steps[index],
+            tenantId,
+            operation,
+            index: index + 1,
+            total: steps.length,
+          });
+        } catch {
+          // 监听器错误不影响开通流程
+        }
+      }
+    };
+
+    const result = (): ITenantProvisioningResult => ({
+      tenantId,
+      operation,
+      success: steps.every(
+        (step) =>
+          step.status === TenantProvisioningStepStatus.COMPLETED ||
+          step.status === TenantProvisioningStepStatus.SKIPPED,
+      ),
+      steps,
+    });
+
+    return Object.assign(report, { result });
+  }
+}
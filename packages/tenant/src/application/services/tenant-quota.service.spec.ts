@@ -0,0 +1,188 @@
+/**
+ * 租户配额服务测试
+ *
+ * @description 测试配额解析、用量跟踪、API请求窗口和功能开通检查
+ * @since 1.0.0
+ */
+
+import { randomUUID } from 'crypto';
+import {
+  EntityId,
+  EntityNotFoundError,
+  FeatureNotEnabledError,
+  QuotaExceededError,
+} from '@aiofix/core';
+import {
+  Tenant,
+  TenantType,
+  TenantStatus,
+  IsolationStrategy,
+} from '../../domain/entities/tenant.entity';
+import type { ITenantConfiguration } from '../../domain/entities/tenant.entity';
+import {
+  TenantQuotaPolicy,
+  TenantQuotaResource,
+} from '../../domain/policies/tenant-quota.policy';
+import { InMemoryTenantRepository } from '../../infrastructure/repositories/in-memory-tenant.repository';
+import { InMemoryTenantUsageStore } from '../../infrastructure/usage/in-memory-tenant-usage.store';
+import { TenantQuotaService } from './tenant-quota.service';
+
+// 创建租户
+const createTenant = (
+  code: string,
+  type: TenantType,
+  configuration: ITenantConfiguration = {},
+): Tenant =>
+  new Tenant(
+    EntityId.fromString(randomUUID()),
+    code,
+    `${code}-name`,
+    `${code}.example.com`,
+    type,
+    IsolationStrategy.ROW_LEVEL_SECURITY,
+    TenantStatus.ACTIVE,
+    configuration,
+    { createdBy: 'system', tenantId: 'system' },
+  );
+
+describe('TenantQuotaService', () => {
+  const policy = TenantQuotaPolicy.fromModuleConfig({
+    defaultTenant: {
+      maxUsers: 10,
+      maxStorage: 100,
+      apiRateLimit: 3,
+      enabledFeatures: ['basic'],
+    },
+    plans: {
+      [TenantType.ENTERPRISE]: {
+        maxUsers: 1000,
+        enabledFeatures: ['basic', 'reports'],
+      },
+    },
+  });
+
+  let repository: InMemoryTenantRepository;
+  let now: number;
+  let service: TenantQuotaService;
+
+  beforeEach(() => {
+    repository = new InMemoryTenantRepository();
+    now = 0;
+    service = new TenantQuotaService(
+      repository,
+      policy,
+      new InMemoryTenantUsageStore(() => now),
+    );
+  });
+
+  describe('配额解析', () => {
+    it('应该按默认配置、套餐和租户配置逐层覆盖', async () => {
+      const basic = createTenant('basic-co', TenantType.BASIC);
+      const enterprise = createTenant('big-co', TenantType.ENTERPRISE);
+      const custom = createTenant('custom-co', TenantType.ENTERPRISE, {
+        maxUsers: 5,
+        enabledFeatures: ['sso'],
+      });
+      await repository.save(basic);
+      await repository.save(enterprise);
+      await repository.save(custom);
+
+      expect(await service.getLimits(basic.id.toString())).toEqual({
+        maxUsers: 10,
+        maxStorage: 100,
+        apiRateLimit: 3,
+        enabledFeatures: ['basic'],
+      });
+      expect(await service.getLimits(enterprise.id.toString())).toEqual({
+        maxUsers: 1000,
+        maxStorage: 100,
+        apiRateLimit: 3,
+        enabledFeatures: ['basic', 'reports'],
+      });
+      expect(await service.getLimits(custom.id.toString())).toMatchObject({
+        maxUsers: 5,
+        enabledFeatures: ['sso'],
+      });
+    });
+
+    it('租户不存在时应该抛出EntityNotFoundError', async () => {
+      await expect(service.getLimits(randomUUID())).rejects.toBeInstanceOf(
+        EntityNotFoundError,
+      );
+      await expect(service.getLimits('not-a-uuid')).rejects.toBeInstanceOf(
+        EntityNotFoundError,
+      );
+    });
+  });
+
+  describe('用量跟踪', () => {
+    let tenantId: string;
+
+    beforeEach(async () => {
+      const tenant = createTenant('acme', TenantType.BASIC, { maxUsers: 2 });
+      await repository.save(tenant);
+      tenantId = tenant.id.toString();
+    });
+
+    it('超过配额时应该抛出QuotaExceededError且不改变用量', async () => {
+      await service.consume(tenantId, TenantQuotaResource.USERS);
+      expect(
+        await service.canConsume(tenantId, TenantQuotaResource.USERS),
+      ).toBe(true);
+      await service.consume(tenantId, TenantQuotaResource.USERS);
+
+      expect(
+        await service.canConsume(tenantId, TenantQuotaResource.USERS),
+      ).toBe(false);
+      const error = await service
+        .consume(tenantId, TenantQuotaResource.USERS)
+        .catch((e: unknown) => e);
+      expect(error).toBeInstanceOf(QuotaExceededError);
+      expect((error as QuotaExceededError).message).toBe(
+        'Quota exceeded for users: 2/2',
+      );
+
+      const usage = await service.getUsage(tenantId);
+      expect(usage[TenantQuotaResource.USERS]).toEqual({
+        used: 2,
+        limit: 2,
+        remaining: 0,
+      });
+    });
+
+    it('释放和校正后应该可以继续消耗', async () => {
+      await service.syncUsage(tenantId, TenantQuotaResource.USERS, 2);
+      await service.release(tenantId, TenantQuotaResource.USERS);
+
+      expect(await service.consume(tenantId, TenantQuotaResource.USERS)).toBe(
+        2,
+      );
+    });
+
+    it('API请求应该按窗口重新计数', async () => {
+      await service.consume(tenantId, TenantQuotaResource.API_REQUESTS, 3);
+      await expect(
+        service.consume(tenantId, TenantQuotaResource.API_REQUESTS),
+      ).rejects.toBeInstanceOf(QuotaExceededError);
+
+      now = 60_000;
+
+      expect(
+        await service.consume(tenantId, TenantQuotaResource.API_REQUESTS),
+      ).toBe(1);
+    });
+  });
+
+  describe('功能开通', () => {
+    it('未开通功能时应该抛出FeatureNotEnabledError', async () => {
+      const tenant = createTenant('acme', TenantType.BASIC);
+      await repository.save(tenant);
+      const tenantId = tenant.id.toString();
+
+      expect(await service.isFeatureEnabled(tenantId, 'basic')).toBe(true);
+      await expect(
+        service.assertFeatureEnabled(tenantId, 'reports'),
+      ).rejects.toBeInstanceOf(FeatureNotEnabledError);
+    });
+  });
+});
@@ -0,0 +1,240 @@
+/**
+ * 租户配额服务
+ *
+ * @description 跟踪每个租户的资源消耗，回答"租户能否执行某操作"的检查
+ *
+ * ## 业务规则
+ *
+ * ### 配额检查规则
+ * - 有效配额由 TenantQuotaPolicy 按默认配置、租户类型套餐和租户配置计算
+ * - consume 在配额内累加用量，超过配额时抛出 QuotaExceededError 且不改变用量
+ * - canConsume 只检查不累加
+ * - API请求按固定窗口计数，窗口默认1分钟，窗口结束后重新计数
+ * - 用户数和存储空间累计计数，资源删除后调用 release 释放
+ *
+ * ### 功能开通规则
+ * - assertFeatureEnabled 在功能未开通时抛出 FeatureNotEnabledError
+ * - 租户不存在时抛出 EntityNotFoundError
+ *
+ * @example
+ * ```typescript
+ * const quotaService = new TenantQuotaService(
+ *   tenantRepository,
+ *   TenantQuotaPolicy.fromModuleConfig(config.tenant),
+ * );
+ *
+ * await quotaService.consume(tenantId, TenantQuotaResource.USERS);
+ * await quotaService.assertFeatureEnabled(tenantId, 'reports');
+ * ```
+ *
+ * @since 1.0.0
+ */
+
+import { Injectable } from '@nestjs/common';
+import {
+  EntityId,
+  EntityNotFoundError,
+  FeatureNotEnabledError,
+  QuotaExceededError,
+} from '@aiofix/core';
+import type { Tenant } from '../../domain/entities/tenant.entity';
+import type { ITenantRepository } from '../../domain/repositories/tenant.repository.interface';
+import type { ITenantUsageStore } from '../../domain/repositories/tenant-usage.store.interface';
+import {
+  TenantQuotaPolicy,
+  TenantQuotaResource,
+} from '../../domain/policies/tenant-quota.policy';
+import type { ITenantQuotaLimits } from '../../domain/policies/tenant-quota.policy';
+import { InMemoryTenantUsageStore } from '../../infrastructure/usage/in-memory-tenant-usage.store';
+
+/**
+ * 配额服务选项
+ */
+export interface ITenantQuotaServiceOptions {
+  /** API请求计数窗口（毫秒），默认60000 */
+  apiRateWindowMs?: number;
+}
+
+/**
+ * 单项资源的用量
+ */
+export interface ITenantResourceUsage {
+  readonly used: number;
+  readonly limit: number;
+  readonly remaining: number;
+}
+
+/**
+ * 租户用量汇总
+ */
+export type TenantQuotaUsage = Readonly<
+  Record<TenantQuotaResource, ITenantResourceUsage>
+>;
+
+/**
+ * 租户配额服务
+ */
+@Injectable()
+export class TenantQuotaService {
+  private readonly apiRateWindowMs: number;
+
+  constructor(
+    private readonly tenantRepository: ITenantRepository,
+    private readonly quotaPolicy: TenantQuotaPolicy = new TenantQuotaPolicy(),
+    private readonly usageStore: ITenantUsageStore = new InMemoryTenantUsageStore(),
+    options: ITenantQuotaServiceOptions = {},
+  ) {
+    this.apiRateWindowMs = options.apiRateWindowMs ?? 60_000;
+  }
+
+  /**
+   * 获取租户的有效配额
+   */
+  async getLimits(tenantId: string): Promise<ITenantQuotaLimits> {
+    return this.quotaPolicy.resolveLimits(await this.getTenant(tenantId));
+  }
+
+  /**
+   * 获取租户各资源的用量
+   */
+  async getUsage(tenantId: string): Promise<TenantQuotaUsage> {
+    const tenant = await this.getTenant(tenantId);
+    const usage = {} as Record<TenantQuotaResource, ITenantResourceUsage>;
+
+    for (const resource of Object.values(TenantQuotaResource)) {
+      const used = await this.usageStore.get(
+        tenantId,
+        resource,
+        this.windowFor(resource),
+      );
+      const limit = this.quotaPolicy.getLimit(tenant, resource);
+      usage[resource] = {
+        used,
+        limit,
+        remaining: Math.max(0, limit - used),
+      };
+    }
+    return usage;
+  }
+
+  /**
+   * 检查租户能否消耗指定数量的资源
+   */
+  async canConsume(
+    tenantId: string,
+    resource: TenantQuotaResource,
+    amount = 1,
+  ): Promise<boolean> {
+    const tenant = await this.getTenant(tenantId);
+    const used = await this.usageStore.get(
+      tenantId,
+      resource,
+      this.windowFor(resource),
+    );
+    return used + amount <= this.quotaPolicy.getLimit(tenant, resource);
+  }
+
+  /**
+   * 消耗资源
+   *
+   * @returns 消耗后的用量
+   * @throws {QuotaExceededError} 超过配额时抛出
+   */
+  async consume(
+    tenantId: string,
+    resource: TenantQuotaResource,
+    amount = 1,
+  ): Promise<number> {
+    const tenant = await this.getTenant(tenantId);
+    const limit = this.quotaPolicy.getLimit(tenant, resource);
+    const result = await this.usageStore.tryConsume(
+      tenantId,
+      resource,
+      amount,
+      limit,
+      this.windowFor(resource),
+    );
+
+    if (!result.allowed) {
+      throw new QuotaExceededError(resource, result.usage, limit, {
+        tenantId,
+      });
+    }
+    return result.usage;
+  }
+
+  /**
+   * 释放资源
+   *
+   * @returns 释放后的用量
+   */
+  async release(
+    tenantId: string,
+    resource: TenantQuotaResource,
+    amount = 1,
+  ): Promise<number> {
+    return this.usageStore.release(tenantId, resource, amount);
+  }
+
+  /**
+   * 用实际数据校正用量
+   */
+  async syncUsage(
+    tenantId: string,
+    resource: TenantQuotaResource,
+    value: number,
+  ): Promise<void> {
+    await this.usageStore.set(tenantId, resource, value);
+  }
+
+  /**
+   * 租户是否开通了指定功能
+   */
+  async isFeatureEnabled(
+    tenantId: string,
+    featureName: string,
+  ): Promise<boolean> {
+    return this.quotaPolicy.isFeatureEnabled(
+      await this.getTenant(tenantId),
+      featureName,
+    );
+  }
+
+  /**
+   * 要求租户开通了指定功能
+   *
+   * @throws {FeatureNotEnabledError} 功能未开通时抛出
+   */
+  async assertFeatureEnabled(
+    tenantId: string,
+    featureName: string,
+  ): Promise<void> {
+    if (!(await this.isFeatureEnabled(tenantId, featureName))) {
+      throw new FeatureNotEnabledError(featureName, tenantId, { tenantId });
+    }
+  }
+
+  // ==================== 私有方法 ====================
+
+  /**
+   * 获取租户，不存在时抛出错误
+   */
+  private async getTenant(tenantId: string): Promise<Tenant> {
+    const tenant = EntityId.isValid(tenantId)
+      ? await this.tenantRepository.findById(EntityId.fromString(tenantId))
+      : null;
+    if (!tenant) {
+      throw new EntityNotFoundError('Tenant', tenantId, { tenantId });
+    }
+    return tenant;
+  }
+
+  /**
+   * 资源的计数窗口
+   */
+  private windowFor(resource: TenantQuotaResource): number | undefined {
+    return resource === TenantQuotaResource.API_REQUESTS
+      ? this.apiRateWindowMs
+      : undefined;
+  }
+}
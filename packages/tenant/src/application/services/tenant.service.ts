@@ -14,9 +14,18 @@
  *
  * ### 租户状态管理规则
  * - 只有活跃和试用状态的租户可以操作
- * - 暂停的租户可以恢复为活跃状态
- * - 删除的租户不能恢复为其他状态
+ * - 状态转换由租户实体按 TENANT_STATUS_TRANSITIONS 守卫，每次转换发布状态变更事件
+ * - 暂停和过期的租户可以重新激活为活跃状态
+ * - 删除的租户在保留期内可以恢复为暂停状态，保留期结束后物理删除
  * - 状态变更需要记录原因和操作者
+ * - 违反唯一性、状态转换或格式规则时抛出 TenantRuleViolationError
+ *
+ * ### 租户生命周期规则
+ * - 试用期按 TenantLifecyclePolicy 中租户类型的试用天数计算
+ * - 试用结束的租户变为过期状态，宽限期结束后暂停
+ * - 预定的暂停到期后执行
+ * - 时间驱动的转换由 TenantLifecycleScheduler 定期调用本服务完成
+ * - 预定暂停和物理删除按每页 LIFECYCLE_PAGE_SIZE 个租户分页处理，不一次加载所有租户
  *
  * ### 租户配置管理规则
  * - 配置变更需要验证合法性
@@ -54,7 +63,8 @@
  * @since 1.0.0
  */
 
-import { Injectable } from '@nestjs/common';
+import { Injectable, Logger } from '@nestjs/common';
+import type { LoggerService } from '@nestjs/common';
 import { EntityId } from '@aiofix/core';
 import {
   Tenant,
@@ -63,7 +73,18 @@ import {
   IsolationStrategy,
   ITenantConfiguration,
 } from '../../domain/entities/tenant.entity';
-import { ITenantRepository } from '../../domain/repositories/tenant.repository.interface';
+import type {
+  ITenantRepository,
+  ITenantQueryOptions,
+  ITenantQueryResult,
+} from '../../domain/repositories/tenant.repository.interface';
+import { TenantLifecyclePolicy } from '../../domain/policies/tenant-lifecycle.policy';
+import { TenantRuleViolationError } from '../../domain/errors/tenant.errors';
+
+/**
+ * 生命周期批处理每页的租户数
+ */
+const LIFECYCLE_PAGE_SIZE = 100;
 
 /**
  * 创建租户命令
@@ -107,6 +128,34 @@ export interface ISuspendTenantCommand {
   suspendedBy: string;
 }
 
+/**
+ * 预定暂停租户命令
+ */
+export interface IScheduleTenantSuspensionCommand {
+  id: EntityId;
+  at: Date;
+  reason: string;
+  scheduledBy: string;
+}
+
+/**
+ * 删除租户命令
+ */
+export interface IDeleteTenantCommand {
+  id: EntityId;
+  reason: string;
+  deletedBy: string;
+}
+
+/**
+ * 恢复租户命令
+ */
+export interface IRestoreTenantCommand {
+  id: EntityId;
+  reason: string;
+  restoredBy: string;
+}
+
 /**
  * 租户应用服务
  */
@@ -114,8 +163,9 @@ export interface ISuspendTenantCommand {
 export class TenantService {
   constructor(
     private readonly tenantRepository: ITenantRepository,
+    private readonly lifecyclePolicy: TenantLifecyclePolicy = new TenantLifecyclePolicy(),
     // private readonly eventBus: IEventBus, // 需要注入事件总线
-    // private readonly logger: ILoggerService, // 需要注入日志服务
+    private readonly logger: LoggerService = new Logger(TenantService.name),
   ) {}
 
   /**
@@ -125,7 +175,7 @@ export class TenantService {
     // 验证租户代码唯一性
     const existingByCode = await this.tenantRepository.findByCode(command.code);
     if (existingByCode) {
-      throw new Error(`租户代码 ${command.code} 已存在`);
+      throw new TenantRuleViolationError(`租户代码 ${command.code} 已存在`);
     }
 
     // 验证租户域名唯一性
@@ -133,7 +183,7 @@ export class TenantService {
       command.domain,
     );
     if (existingByDomain) {
-      throw new Error(`租户域名 ${command.domain} 已存在`);
+      throw new TenantRuleViolationError(`租户域名 ${command.domain} 已存在`);
     }
 
     // 创建租户实体
@@ -150,6 +200,9 @@ export class TenantService {
         createdBy: command.createdBy,
         tenantId: 'system', // 系统级操作
       },
+      {
+        trialEndsAt: this.lifecyclePolicy.getTrialEndDate(command.type),
+      },
     );
 
     // 保存租户
@@ -174,7 +227,9 @@ export class TenantService {
 
     // 检查租户状态
     if (!tenant.canOperate) {
-      throw new Error(`租户 ${tenant.code} 当前状态不允许更新操作`);
+      throw new TenantRuleViolationError(
+        `租户 ${tenant.code} 当前状态不允许更新操作`,
+      );
     }
 
     // 如果更新域名，检查唯一性
@@ -183,7 +238,7 @@ export class TenantService {
         command.domain,
       );
       if (existingByDomain && !existingByDomain.id.equals(tenant.id)) {
-        throw new Error(`租户域名 ${command.domain} 已存在`);
+        throw new TenantRuleViolationError(`租户域名 ${command.domain} 已存在`);
       }
     }
 
@@ -246,6 +301,46 @@ export class TenantService {
     return suspendedTenant;
   }
 
+  /**
+   * 预定暂停租户
+   */
+  async scheduleSuspension(
+    command: IScheduleTenantSuspensionCommand,
+  ): Promise<Tenant> {
+    const tenant = await this.getExistingTenant(command.id);
+    tenant.scheduleSuspension(command.at, command.reason);
+    return this.tenantRepository.update(tenant);
+  }
+
+  /**
+   * 取消预定的暂停
+   */
+  async cancelScheduledSuspension(id: EntityId): Promise<Tenant> {
+    const tenant = await this.getExistingTenant(id);
+    tenant.cancelScheduledSuspension();
+    return this.tenantRepository.update(tenant);
+  }
+
+  /**
+   * 软删除租户
+   */
+  async deleteTenant(command: IDeleteTenantCommand): Promise<Tenant> {
+    const tenant = await this.getExistingTenant(command.id);
+    tenant.markDeleted(command.reason);
+    return this.tenantRepository.update(tenant);
+  }
+
+  /**
+   * 恢复软删除的租户
+   *
+   * @description 恢复后的租户处于暂停状态，需要再次激活
+   */
+  async restoreTenant(command: IRestoreTenantCommand): Promise<Tenant> {
+    const tenant = await this.getExistingTenant(command.id);
+    tenant.restore(command.reason);
+    return this.tenantRepository.update(tenant);
+  }
+
   /**
    * 根据ID获取租户
    */
@@ -322,7 +417,7 @@ export class TenantService {
         activatedCount++;
       } catch (error) {
         // 记录错误但继续处理其他租户
-        console.error(`激活租户 ${id.toString()} 失败:`, error);
+        this.logFailure(`激活租户 ${id.toString()} 失败`, error);
       }
     }
 
@@ -349,17 +444,182 @@ export class TenantService {
         suspendedCount++;
       } catch (error) {
         // 记录错误但继续处理其他租户
-        console.error(`暂停租户 ${id.toString()} 失败:`, error);
+        this.logFailure(`暂停租户 ${id.toString()} 失败`, error);
       }
     }
 
     return suspendedCount;
   }
 
+  /**
+   * 使试用期结束的租户过期
+   *
+   * @param now 当前时间
+   * @returns 过期的租户数量
+   */
+  async expireEndedTrials(now: Date = new Date()): Promise<number> {
+    return this.applyTransitions(
+      await this.tenantRepository.findTrialTenants(),
+      (tenant) => this.lifecyclePolicy.isTrialOver(tenant, now),
+      (tenant) => tenant.expire('试用期结束', now),
+    );
+  }
+
+  /**
+   * 暂停宽限期结束的过期租户
+   *
+   * @param now 当前时间
+   * @returns 暂停的租户数量
+   */
+  async suspendAfterGracePeriod(now: Date = new Date()): Promise<number> {
+    return this.applyTransitions(
+      await this.tenantRepository.findExpiredTenants(),
+      (tenant) => this.lifecyclePolicy.isGracePeriodOver(tenant, now),
+      (tenant) => tenant.suspend('过期宽限期结束', now),
+    );
+  }
+
+  /**
+   * 执行到期的预定暂停
+   *
+   * @param now 当前时间
+   * @returns 暂停的租户数量
+   */
+  async applyScheduledSuspensions(now: Date = new Date()): Promise<number> {
+    return this.processInPages(
+      {
+        status: [TenantStatus.TRIAL, TenantStatus.ACTIVE, TenantStatus.EXPIRED],
+      },
+      (tenants) =>
+        this.applyTransitions(
+          tenants,
+          (tenant) =>
+            this.lifecyclePolicy.isScheduledSuspensionDue(tenant, now),
+          (tenant) =>
+            tenant.suspend(tenant.lifecycle.scheduledSuspension!.reason, now),
+        ),
+    );
+  }
+
+  /**
+   * 物理删除保留期结束的租户
+   *
+   * @param now 当前时间
+   * @returns 物理删除的租户数量
+   */
+  async purgeDeletedTenants(now: Date = new Date()): Promise<number> {
+    return this.processInPages(
+      { status: [TenantStatus.DELETED], includeDeleted: true },
+      async (tenants) => {
+        let purgedCount = 0;
+        for (const tenant of tenants) {
+          if (!this.lifecyclePolicy.isRetentionOver(tenant, now)) {
+            continue;
+          }
+          try {
+            if (await this.tenantRepository.hardDelete(tenant.id)) {
+              purgedCount++;
+            }
+          } catch (error) {
+            // 记录错误但继续处理其他租户
+            this.logFailure(`物理删除租户 ${tenant.id.toString()} 失败`, error);
+          }
+        }
+        return purgedCount;
+      },
+    );
+  }
+
   /**
    * 清理过期的试用租户
+   *
+   * @deprecated 使用 expireEndedTrials 使试用结束的租户过期，
+   * 过期租户由 suspendAfterGracePeriod 暂停、保留期结束后由 purgeDeletedTenants 物理删除；
+   * 本方法仍按原行为软删除过期超过指定天数的租户
+   *
+   * @param daysExpired 过期天数
+   * @returns 清理数量
    */
   async cleanupExpiredTrials(daysExpired: number = 30): Promise<number> {
     return this.tenantRepository.cleanupExpiredTrials(daysExpired);
   }
+
+  // ==================== 私有方法 ====================
+
+  /**
+   * 获取租户，不存在时抛出错误
+   */
+  private async getExistingTenant(id: EntityId): Promise<Tenant> {
+    const tenant = await this.tenantRepository.findById(id);
+    if (!tenant) {
+      throw new Error(`租户 ${id.toString()} 不存在`);
+    }
+    return tenant;
+  }
+
+  /**
+   * 分页处理匹配查询条件的租户
+   *
+   * @description 按创建时间排序后从最后一页向前处理：处理后离开查询条件的租户
+   * （状态改变或被物理删除）只会让后面已处理过的页前移，不会让未处理的租户被跳过
+   *
+   * @returns 各页处理数量之和
+   */
+  private async processInPages(
+    options: Omit<ITenantQueryOptions, 'pagination' | 'sort'>,
+    processPage: (tenants: Tenant[]) => Promise<number>,
+  ): Promise<number> {
+    const { total } = await this.tenantRepository.findMany({
+      ...options,
+      pagination: { page: 1, size: 1 },
+    });
+
+    let processedCount = 0;
+    for (let page = Math.ceil(total / LIFECYCLE_PAGE_SIZE); page >= 1; page--) {
+      const { tenants } = await this.tenantRepository.findMany({
+        ...options,
+        pagination: { page, size: LIFECYCLE_PAGE_SIZE },
+        sort: { field: 'createdAt', order: 'asc' },
+      });
+      processedCount += await processPage(tenants);
+    }
+    return processedCount;
+  }
+
+  /**
+   * 对满足条件的租户执行状态转换并保存
+   */
+  private async applyTransitions(
+    tenants: Tenant[],
+    isDue: (tenant: Tenant) => boolean,
+    transition: (tenant: Tenant) => void,
+  ): Promise<number> {
+    let changedCount = 0;
+
+    for (const tenant of tenants) {
+      if (!isDue(tenant)) {
+        continue;
+      }
+      try {
+        transition(tenant);
+        await this.tenantRepository.update(tenant);
+        changedCount++;
+      } catch (error) {
+        // 记录错误但继续处理其他租户
+        this.logFailure(`租户 ${tenant.id.toString()} 状态转换失败`, error);
+      }
+    }
+
+    return changedCount;
+  }
+
+  /**
+   * 记录单个租户处理失败，不中断批量处理
+   */
+  private logFailure(message: string, error: unknown): void {
+    this.logger.error(
+      message,
+      error instanceof Error ? error.stack : String(error),
+    );
+  }
 }
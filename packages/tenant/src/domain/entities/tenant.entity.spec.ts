@@ -11,6 +11,7 @@ import {
   TenantStatus,
   IsolationStrategy,
 } from './tenant.entity';
+import { TenantStatusChangedEvent } from '../events/tenant.events';
 import { EntityId } from '@aiofix/core';
 import { AuditInfoBuilder } from '@aiofix/core';
 
@@ -220,6 +221,89 @@ describe('Tenant', () => {
     });
   });
 
+  describe('生命周期', () => {
+    const now = new Date('2026-01-01T00:00:00Z');
+    let tenant: Tenant;
+
+    beforeEach(() => {
+      tenant = new Tenant(
+        tenantId,
+        'lifecycle-tenant',
+        '生命周期租户',
+        'lifecycle.example.com',
+        TenantType.BASIC,
+        IsolationStrategy.ROW_LEVEL_SECURITY,
+        TenantStatus.TRIAL,
+        {},
+        auditInfo,
+        { trialEndsAt: now },
+      );
+      tenant.clearDomainEvents();
+    });
+
+    it('试用到期后应该记录过期时间并发布状态变更事件', () => {
+      tenant.expire('试用期结束', now);
+
+      expect(tenant.status).toBe(TenantStatus.EXPIRED);
+      expect(tenant.lifecycle.expiredAt).toEqual(now);
+      const event = tenant.domainEvents[0] as TenantStatusChangedEvent;
+      expect(event.oldStatus).toBe(TenantStatus.TRIAL);
+      expect(event.newStatus).toBe(TenantStatus.EXPIRED);
+      expect(event.reason).toBe('试用期结束');
+    });
+
+    it('过期和暂停的租户应该能够重新激活', () => {
+      tenant.expire('试用期结束', now);
+      tenant.suspend('宽限期结束', now);
+      tenant.activate('续费');
+
+      expect(tenant.status).toBe(TenantStatus.ACTIVE);
+      expect(tenant.lifecycle.expiredAt).toBeUndefined();
+      expect(tenant.lifecycle.suspendedAt).toBeUndefined();
+      expect(tenant.domainEvents).toHaveLength(3);
+    });
+
+    it('应该拒绝不允许的状态转换', () => {
+      tenant.suspend('违规');
+
+      expect(() => tenant.expire('到期')).toThrow('无法过期已暂停的租户');
+      expect(tenant.status).toBe(TenantStatus.SUSPENDED);
+      expect(tenant.domainEvents).toHaveLength(1);
+    });
+
+    it('软删除的租户应该只能恢复为暂停状态', () => {
+      tenant.markDeleted('客户注销', now);
+      expect(tenant.lifecycle.deletedAt).toEqual(now);
+      expect(() => tenant.suspend('暂停')).toThrow('无法暂停已删除的租户');
+
+      tenant.restore('误删恢复');
+
+      expect(tenant.status).toBe(TenantStatus.SUSPENDED);
+      expect(tenant.lifecycle.deletedAt).toBeUndefined();
+    });
+
+    it('应该能够预定和取消暂停', () => {
+      const at = new Date('2026-02-01T00:00:00Z');
+      tenant.scheduleSuspension(at, '合同到期');
+      expect(tenant.lifecycle.scheduledSuspension).toEqual({
+        at,
+        reason: '合同到期',
+      });
+
+      tenant.cancelScheduledSuspension();
+      expect(tenant.lifecycle.scheduledSuspension).toBeUndefined();
+      expect(tenant.domainEvents).toHaveLength(0);
+    });
+
+    it('暂停的租户不能预定暂停', () => {
+      tenant.suspend('违规');
+
+      expect(() => tenant.scheduleSuspension(now, '合同到期')).toThrow(
+        '无法预定暂停已暂停的租户',
+      );
+    });
+  });
+
   describe('配置查询', () => {
     it('应该返回配置的最大用户数', () => {
       const tenant = new Tenant(
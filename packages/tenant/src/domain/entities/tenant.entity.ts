@@ -10,6 +10,7 @@
 import { BaseAggregateRoot } from '@aiofix/core';
 import { EntityId } from '@aiofix/core';
 import type { IAuditInfo } from '@aiofix/core';
+import { TenantRuleViolationError } from '../errors/tenant.errors';
 import {
   TenantCreatedEvent,
   TenantConfigurationUpdatedEvent,
@@ -38,6 +39,60 @@ export enum TenantStatus {
   DELETED = 'deleted',
 }
 
+/**
+ * 租户状态允许的转换
+ *
+ * @description
+ * - 试用 → 活跃（转正）、过期（试用结束）、暂停、删除
+ * - 活跃 → 暂停、过期（订阅到期）、删除
+ * - 过期 → 活跃（续费）、暂停（宽限期结束）、删除
+ * - 暂停 → 活跃（重新激活）、删除
+ * - 删除 → 暂停（保留期内恢复，需要再次激活才能使用）
+ */
+export const TENANT_STATUS_TRANSITIONS: Readonly<
+  Record<TenantStatus, readonly TenantStatus[]>
+> = {
+  [TenantStatus.TRIAL]: [
+    TenantStatus.ACTIVE,
+    TenantStatus.EXPIRED,
+    TenantStatus.SUSPENDED,
+    TenantStatus.DELETED,
+  ],
+  [TenantStatus.ACTIVE]: [
+    TenantStatus.SUSPENDED,
+    TenantStatus.EXPIRED,
+    TenantStatus.DELETED,
+  ],
+  [TenantStatus.EXPIRED]: [
+    TenantStatus.ACTIVE,
+    TenantStatus.SUSPENDED,
+    TenantStatus.DELETED,
+  ],
+  [TenantStatus.SUSPENDED]: [TenantStatus.ACTIVE, TenantStatus.DELETED],
+  [TenantStatus.DELETED]: [TenantStatus.SUSPENDED],
+};
+
+/**
+ * 判断租户状态是否允许转换
+ */
+export function canTransitionTenantStatus(
+  from: TenantStatus,
+  to: TenantStatus,
+): boolean {
+  return TENANT_STATUS_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+/**
+ * 租户状态名称，用于错误消息
+ */
+const TENANT_STATUS_LABELS: Record<TenantStatus, string> = {
+  [TenantStatus.ACTIVE]: '活跃',
+  [TenantStatus.SUSPENDED]: '已暂停',
+  [TenantStatus.TRIAL]: '试用中',
+  [TenantStatus.EXPIRED]: '已过期',
+  [TenantStatus.DELETED]: '已删除',
+};
+
 /**
  * 数据隔离策略枚举
  */
@@ -60,6 +115,32 @@ export interface ITenantConfiguration {
   readonly customSettings?: Record<string, unknown>;
 }
 
+/**
+ * 预定的暂停
+ */
+export interface ITenantScheduledSuspension {
+  /** 计划暂停时间 */
+  readonly at: Date;
+  /** 暂停原因 */
+  readonly reason: string;
+}
+
+/**
+ * 租户生命周期时间信息
+ */
+export interface ITenantLifecycle {
+  /** 试用结束时间，未设置表示不限制试用期 */
+  readonly trialEndsAt?: Date;
+  /** 进入过期状态的时间，宽限期从此开始计算 */
+  readonly expiredAt?: Date;
+  /** 进入暂停状态的时间 */
+  readonly suspendedAt?: Date;
+  /** 预定的暂停 */
+  readonly scheduledSuspension?: ITenantScheduledSuspension;
+  /** 软删除时间，保留期从此开始计算 */
+  readonly deletedAt?: Date;
+}
+
 /**
  * 租户实体类
  */
@@ -74,6 +155,7 @@ export class Tenant extends BaseAggregateRoot {
     private _status: TenantStatus = TenantStatus.TRIAL,
     private _configuration: ITenantConfiguration = {},
     auditInfo: Partial<IAuditInfo>,
+    private _lifecycle: ITenantLifecycle = {},
   ) {
     super(id, auditInfo);
 
@@ -126,6 +208,10 @@ export class Tenant extends BaseAggregateRoot {
     return { ...this._configuration };
   }
 
+  get lifecycle(): Readonly<ITenantLifecycle> {
+    return { ...this._lifecycle };
+  }
+
   // ==================== 状态检查 ====================
 
   get isActive(): boolean {
@@ -155,54 +241,143 @@ export class Tenant extends BaseAggregateRoot {
 
   /**
    * 激活租户
+   *
+   * @description 试用转正、过期续费以及暂停后的重新激活都通过此方法完成
    */
   activate(reason: string = '租户激活'): void {
     if (this._status === TenantStatus.ACTIVE) {
       return;
     }
 
-    if (this._status === TenantStatus.DELETED) {
-      throw new Error('无法激活已删除的租户');
+    this.transitionTo(TenantStatus.ACTIVE, '激活', reason, {
+      trialEndsAt: this._lifecycle.trialEndsAt,
+    });
+  }
+
+  /**
+   * 暂停租户
+   */
+  suspend(reason: string, now: Date = new Date()): void {
+    if (this._status === TenantStatus.SUSPENDED) {
+      return;
     }
 
-    const oldStatus = this._status;
-    this._status = TenantStatus.ACTIVE;
+    // 删除状态只能通过restore恢复为暂停
+    if (this._status === TenantStatus.DELETED) {
+      throw new TenantRuleViolationError('无法暂停已删除的租户');
+    }
 
-    this.addDomainEvent(
-      new TenantStatusChangedEvent(
-        this.id,
-        oldStatus,
-        TenantStatus.ACTIVE,
-        reason,
-        this.tenantId,
-      ),
-    );
+    this.transitionTo(TenantStatus.SUSPENDED, '暂停', reason, {
+      ...this._lifecycle,
+      scheduledSuspension: undefined,
+      suspendedAt: now,
+    });
   }
 
   /**
-   * 暂停租户
+   * 使租户过期
+   *
+   * @description 试用结束或订阅到期时调用，宽限期从 now 开始计算
    */
-  suspend(reason: string): void {
-    if (this._status === TenantStatus.SUSPENDED) {
+  expire(reason: string, now: Date = new Date()): void {
+    if (this._status === TenantStatus.EXPIRED) {
       return;
     }
 
+    this.transitionTo(TenantStatus.EXPIRED, '过期', reason, {
+      ...this._lifecycle,
+      expiredAt: now,
+    });
+  }
+
+  /**
+   * 软删除租户
+   */
+  markDeleted(reason: string, now: Date = new Date()): void {
     if (this._status === TenantStatus.DELETED) {
-      throw new Error('无法暂停已删除的租户');
+      return;
     }
 
-    const oldStatus = this._status;
-    this._status = TenantStatus.SUSPENDED;
+    this.transitionTo(TenantStatus.DELETED, '删除', reason, {
+      ...this._lifecycle,
+      scheduledSuspension: undefined,
+      deletedAt: now,
+    });
+  }
 
-    this.addDomainEvent(
-      new TenantStatusChangedEvent(
-        this.id,
-        oldStatus,
-        TenantStatus.SUSPENDED,
-        reason,
-        this.tenantId,
-      ),
-    );
+  /**
+   * 恢复软删除的租户
+   *
+   * @description 恢复后处于暂停状态，需要再次激活才能使用
+   */
+  restore(reason: string, now: Date = new Date()): void {
+    this.transitionTo(TenantStatus.SUSPENDED, '恢复', reason, {
+      trialEndsAt: this._lifecycle.trialEndsAt,
+      suspendedAt: now,
+    });
+  }
+
+  /**
+   * 转换到指定状态
+   *
+   * @description 按目标状态调用对应的转换方法，已删除的租户转换为暂停时执行恢复；
+   * 不能转换为试用状态
+   */
+  changeStatus(
+    newStatus: TenantStatus,
+    reason: string,
+    now: Date = new Date(),
+  ): void {
+    switch (newStatus) {
+      case TenantStatus.ACTIVE:
+        this.activate(reason);
+        break;
+      case TenantStatus.SUSPENDED:
+        if (this._status === TenantStatus.DELETED) {
+          this.restore(reason, now);
+        } else {
+          this.suspend(reason, now);
+        }
+        break;
+      case TenantStatus.EXPIRED:
+        this.expire(reason, now);
+        break;
+      case TenantStatus.DELETED:
+        this.markDeleted(reason, now);
+        break;
+      default:
+        if (this._status !== newStatus) {
+          throw new TenantRuleViolationError(
+            `无法将${TENANT_STATUS_LABELS[this._status]}的租户转换为${TENANT_STATUS_LABELS[newStatus]}`,
+          );
+        }
+    }
+  }
+
+  /**
+   * 预定在指定时间暂停租户
+   */
+  scheduleSuspension(at: Date, reason: string): void {
+    if (
+      this._status === TenantStatus.SUSPENDED ||
+      this._status === TenantStatus.DELETED
+    ) {
+      throw new TenantRuleViolationError(
+        `无法预定暂停${TENANT_STATUS_LABELS[this._status]}的租户`,
+      );
+    }
+
+    this._lifecycle = {
+      ...this._lifecycle,
+      scheduledSuspension: { at, reason },
+    };
+  }
+
+  /**
+   * 取消预定的暂停
+   */
+  cancelScheduledSuspension(): void {
+    this._lifecycle = { ...this._lifecycle, scheduledSuspension: undefined };
   }
 
   /**
@@ -280,6 +455,38 @@ export class Tenant extends BaseAggregateRoot {
     return defaultLimits[this._type] || 100;
   }
 
+  // ==================== 状态转换 ====================
+
+  /**
+   * 执行受守卫的状态转换并发布状态变更事件
+   */
+  private transitionTo(
+    newStatus: TenantStatus,
+    action: string,
+    reason: string,
+    lifecycle: ITenantLifecycle,
+  ): void {
+    if (!canTransitionTenantStatus(this._status, newStatus)) {
+      throw new TenantRuleViolationError(
+        `无法${action}${TENANT_STATUS_LABELS[this._status]}的租户`,
+      );
+    }
+
+    const oldStatus = this._status;
+    this._status = newStatus;
+    this._lifecycle = lifecycle;
+
+    this.addDomainEvent(
+      new TenantStatusChangedEvent(
+        this.id,
+        oldStatus,
+        newStatus,
+        reason,
+        this.tenantId,
+      ),
+    );
+  }
+
   // ==================== 验证方法 ====================
 
   /**
@@ -287,16 +494,16 @@ export class Tenant extends BaseAggregateRoot {
    */
   private validateTenantCode(code: string): void {
     if (!code || typeof code !== 'string') {
-      throw new Error('租户代码不能为空');
+      throw new TenantRuleViolationError('租户代码不能为空');
     }
 
     if (code.length < 3 || code.length > 20) {
-      throw new Error('租户代码长度必须在3-20个字符之间');
+      throw new TenantRuleViolationError('租户代码长度必须在3-20个字符之间');
     }
 
     const codeRegex = /^[a-zA-Z0-9][a-zA-Z0-9-_]*[a-zA-Z0-9]$/;
     if (!codeRegex.test(code)) {
-      throw new Error(
+      throw new TenantRuleViolationError(
         '租户代码只能包含字母、数字、连字符和下划线，且不能以连字符或下划线开头结尾',
       );
     }
@@ -307,13 +514,13 @@ export class Tenant extends BaseAggregateRoot {
    */
   private validateDomain(domain: string): void {
     if (!domain || typeof domain !== 'string') {
-      throw new Error('租户域名不能为空');
+      throw new TenantRuleViolationError('租户域名不能为空');
     }
 
     const domainRegex =
       /^[a-zA-Z0-9][a-zA-Z0-9-]*[a-zA-Z0-9]*\.([a-zA-Z]{2,}\.)*[a-zA-Z]{2,}$/;
     if (!domainRegex.test(domain)) {
-      throw new Error('租户域名格式无效');
+      throw new TenantRuleViolationError('租户域名格式无效');
     }
   }
 }
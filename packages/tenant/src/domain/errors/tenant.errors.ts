@@ -0,0 +1,37 @@
+/**
+ * 租户领域错误
+ *
+ * @description 租户实体和租户服务拒绝操作时抛出的错误
+ *
+ * ## 业务规则
+ *
+ * - 租户代码、域名格式无效，状态转换不被允许，或代码、域名已被使用时抛出 TenantRuleViolationError
+ * - 错误消息直接说明被拒绝的原因，调用方可以原样返回给用户
+ * - 继承 BusinessError，接口层按业务错误返回400，其他错误按系统错误处理
+ *
+ * @since 1.0.0
+ */
+
+import { BusinessError, CommonErrorCodes, ErrorSeverity } from '@aiofix/core';
+
+/**
+ * 租户业务规则违反错误
+ */
+export class TenantRuleViolationError extends BusinessError {
+  constructor(message: string) {
+    super(
+      message,
+      CommonErrorCodes.BIZ_BUSINESS_RULE_VIOLATION,
+      ErrorSeverity.LOW,
+      {
+        recoverable: true,
+        retryable: false,
+        loggable: true,
+        alertable: false,
+        monitorable: true,
+        tags: ['tenant', 'business-rule'],
+      },
+      { moduleName: 'tenant' },
+    );
+  }
+}
@@ -0,0 +1,148 @@
+/**
+ * 租户生命周期策略
+ *
+ * @description 定义试用期、宽限期和删除保留期等时间规则，状态转换本身由租户实体守卫
+ *
+ * ## 业务规则
+ *
+ * ### 时间规则
+ * - 试用期按租户类型配置，创建试用租户时确定结束时间
+ * - 过期租户在宽限期内仍保留数据和配置，宽限期结束后暂停
+ * - 软删除的租户在保留期结束后物理删除，租户配置的 dataRetentionDays 优先
+ *
+ * @since 1.0.0
+ */
+
+import { TenantStatus, TenantType } from '../entities/tenant.entity';
+import type { Tenant } from '../entities/tenant.entity';
+
+/**
+ * 一天的毫秒数
+ */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 各租户类型的默认试用天数
+ */
+export const DEFAULT_TENANT_TRIAL_DAYS: Readonly<Record<TenantType, number>> = {
+  [TenantType.FREE]: 14,
+  [TenantType.BASIC]: 14,
+  [TenantType.PROFESSIONAL]: 30,
+  [TenantType.ENTERPRISE]: 30,
+  [TenantType.CUSTOM]: 30,
+};
+
+/**
+ * 生命周期策略配置
+ */
+export interface ITenantLifecyclePolicyOptions {
+  /** 各租户类型的试用天数，0 表示不限制试用期 */
+  trialDays?: Partial<Record<TenantType, number>>;
+  /** 过期后的宽限天数，默认7天 */
+  gracePeriodDays?: number;
+  /** 软删除后的保留天数，默认30天 */
+  deletedRetentionDays?: number;
+}
+
+/**
+ * 租户生命周期策略
+ */
+export class TenantLifecyclePolicy {
+  private readonly trialDays: Record<TenantType, number>;
+  private readonly gracePeriodDays: number;
+  private readonly deletedRetentionDays: number;
+
+  constructor(options: ITenantLifecyclePolicyOptions = {}) {
+    this.trialDays = { ...DEFAULT_TENANT_TRIAL_DAYS, ...options.trialDays };
+    this.gracePeriodDays = options.gracePeriodDays ?? 7;
+    this.deletedRetentionDays = options.deletedRetentionDays ?? 30;
+  }
+
+  /**
+   * 计算试用结束时间
+   *
+   * @returns 试用天数为0时返回undefined，表示不限制试用期
+   */
+  getTrialEndDate(type: TenantType, from: Date = new Date()): Date | undefined {
+    const days = this.trialDays[type];
+    return days > 0 ? addDays(from, days) : undefined;
+  }
+
+  /**
+   * 试用期是否已结束
+   */
+  isTrialOver(tenant: Tenant, now: Date = new Date()): boolean {
+    const { trialEndsAt } = tenant.lifecycle;
+    return (
+      tenant.status === TenantStatus.TRIAL &&
+      trialEndsAt !== undefined &&
+      trialEndsAt.getTime() <= now.getTime()
+    );
+  }
+
+  /**
+   * 计算宽限期结束时间
+   */
+  getGracePeriodEnd(tenant: Tenant): Date | undefined {
+    const { expiredAt } = tenant.lifecycle;
+    return expiredAt ? addDays(expiredAt, this.gracePeriodDays) : undefined;
+  }
+
+  /**
+   * 过期租户的宽限期是否已结束
+   */
+  isGracePeriodOver(tenant: Tenant, now: Date = new Date()): boolean {
+    const end = this.getGracePeriodEnd(tenant);
+    return (
+      tenant.status === TenantStatus.EXPIRED &&
+      end !== undefined &&
+      end.getTime() <= now.getTime()
+    );
+  }
+
+  /**
+   * 预定的暂停是否已到期
+   */
+  isScheduledSuspensionDue(tenant: Tenant, now: Date = new Date()): boolean {
+    const { scheduledSuspension } = tenant.lifecycle;
+    return (
+      scheduledSuspension !== undefined &&
+      scheduledSuspension.at.getTime() <= now.getTime() &&
+      tenant.status !== TenantStatus.SUSPENDED &&
+      tenant.status !== TenantStatus.DELETED
+    );
+  }
+
+  /**
+   * 计算软删除租户的物理删除时间
+   */
+  getPurgeDate(tenant: Tenant): Date | undefined {
+    const { deletedAt } = tenant.lifecycle;
+    if (!deletedAt) {
+      return undefined;
+    }
+    return addDays(
+      deletedAt,
+      tenant.configuration.dataRetentionDays ?? this.deletedRetentionDays,
+    );
+  }
+
+  /**
+   * 软删除租户的保留期是否已结束
+   */
+  isRetentionOver(tenant: Tenant, now: Date = new Date()): boolean {
+    const purgeDate = this.getPurgeDate(tenant);
+    return (
+      tenant.status === TenantStatus.DELETED &&
+      purgeDate !== undefined &&
+      purgeDate.getTime() <= now.getTime()
+    );
+  }
+}
+
+/**
+ * 日期加上天数
+ */
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS);
+}
@@ -0,0 +1,135 @@
+/**
+ * 租户配额策略
+ *
+ * @description 计算租户的有效配额：默认租户配置、租户类型套餐和租户自身配置逐层覆盖
+ *
+ * ## 业务规则
+ *
+ * ### 配额来源规则
+ * - 默认值来自租户模块配置的 defaultTenant
+ * - 租户类型套餐（plans）覆盖默认值，未设置的字段沿用默认值
+ * - 租户 ITenantConfiguration 中的 maxUsers、maxStorage、apiRateLimit、enabledFeatures 优先级最高
+ * - 功能列表整体覆盖，不与下层合并
+ *
+ * ### 配额单位规则
+ * - 用户配额按用户数计算
+ * - 存储配额按MB计算
+ * - API配额按每分钟请求数计算
+ *
+ * @example
+ * ```typescript
+ * const policy = TenantQuotaPolicy.fromModuleConfig(config.tenant);
+ * const limits = policy.resolveLimits(tenant);
+ * console.log(limits.maxUsers, limits.enabledFeatures);
+ * ```
+ *
+ * @since 1.0.0
+ */
+
+import type { ITenantModuleConfig, ITenantPlanConfig } from '@aiofix/config';
+import { TenantType } from '../entities/tenant.entity';
+import type { Tenant } from '../entities/tenant.entity';
+
+/**
+ * 配额资源
+ */
+export enum TenantQuotaResource {
+  /** 用户数 */
+  USERS = 'users',
+  /** 存储空间（MB） */
+  STORAGE = 'storage',
+  /** 每分钟API请求数 */
+  API_REQUESTS = 'apiRequests',
+}
+
+/**
+ * 租户的有效配额
+ */
+export interface ITenantQuotaLimits {
+  readonly maxUsers: number;
+  readonly maxStorage: number;
+  readonly apiRateLimit: number;
+  readonly enabledFeatures: readonly string[];
+}
+
+/**
+ * 默认租户配额
+ *
+ * @description 与租户模块配置的 defaultTenant 结构一致
+ */
+export type TenantQuotaDefaults = ITenantModuleConfig['defaultTenant'];
+
+/**
+ * 未提供模块配置时使用的默认配额，与配置管理器的默认配置一致
+ */
+export const DEFAULT_TENANT_QUOTA: Readonly<TenantQuotaDefaults> = {
+  maxUsers: 100,
+  maxStorage: 1024,
+  apiRateLimit: 1000,
+  enabledFeatures: ['basic'],
+};
+
+/**
+ * 租户配额策略
+ */
+export class TenantQuotaPolicy {
+  constructor(
+    private readonly defaults: TenantQuotaDefaults = DEFAULT_TENANT_QUOTA,
+    private readonly plans: Partial<Record<TenantType, ITenantPlanConfig>> = {},
+  ) {}
+
+  /**
+   * 从租户模块配置创建策略
+   */
+  static fromModuleConfig(
+    config: Pick<ITenantModuleConfig, 'defaultTenant' | 'plans'>,
+  ): TenantQuotaPolicy {
+    return new TenantQuotaPolicy(config.defaultTenant, config.plans);
+  }
+
+  /**
+   * 计算租户的有效配额
+   */
+  resolveLimits(tenant: Tenant): ITenantQuotaLimits {
+    const plan = this.plans[tenant.type] ?? {};
+    const configuration = tenant.configuration;
+
+    return {
+      maxUsers:
+        configuration.maxUsers ?? plan.maxUsers ?? this.defaults.maxUsers,
+      maxStorage:
+        configuration.maxStorage ?? plan.maxStorage ?? this.defaults.maxStorage,
+      apiRateLimit:
+        configuration.apiRateLimit ??
+        plan.apiRateLimit ??
+        this.defaults.apiRateLimit ??
+        DEFAULT_TENANT_QUOTA.apiRateLimit!,
+      enabledFeatures:
+        configuration.enabledFeatures ??
+        plan.enabledFeatures ??
+        this.defaults.enabledFeatures,
+    };
+  }
+
+  /**
+   * 获取指定资源的配额
+   */
+  getLimit(tenant: Tenant, resource: TenantQuotaResource): number {
+    const limits = this.resolveLimits(tenant);
+    switch (resource) {
+      case TenantQuotaResource.USERS:
+        return limits.maxUsers;
+      case TenantQuotaResource.STORAGE:
+        return limits.maxStorage;
+      case TenantQuotaResource.API_REQUESTS:
+        return limits.apiRateLimit;
+    }
+  }
+
+  /**
+   * 租户是否开通了指定功能
+   */
+  isFeatureEnabled(tenant: Tenant, featureName: string): boolean {
+    return this.resolveLimits(tenant).enabledFeatures.includes(featureName);
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * 租户角色存储接口
+ *
+ * @description 租户开通时写入默认角色、清理时删除租户全部角色的存储抽象，
+ * 由用户或权限模块提供实现
+ *
+ * @since 1.0.0
+ */
+
+/**
+ * 角色定义
+ */
+export interface ITenantRoleDefinition {
+  /** 角色代码，租户内唯一 */
+  readonly code: string;
+  /** 角色名称 */
+  readonly name: string;
+  /** 权限列表 */
+  readonly permissions: readonly string[];
+}
+
+/**
+ * 租户角色存储
+ */
+export interface ITenantRoleStore {
+  /**
+   * 为租户创建角色，已存在的角色保持不变
+   */
+  createRoles(
+    tenantId: string,
+    roles: readonly ITenantRoleDefinition[],
+  ): Promise<void>;
+
+  /**
+   * 删除租户的指定角色，未指定时删除全部角色
+   */
+  deleteRoles(tenantId: string, codes?: readonly string[]): Promise<void>;
+}
@@ -0,0 +1,74 @@
+/**
+ * 租户用量存储接口
+ *
+ * @description 记录每个租户对各配额资源的消耗量
+ *
+ * ## 业务规则
+ *
+ * ### 计数规则
+ * - 用量按租户ID和资源分别计数
+ * - 指定窗口时长的资源按固定窗口计数，窗口结束后从0重新开始
+ * - tryConsume 必须原子地完成检查和累加，超过配额时不改变用量
+ * - 用量不会小于0
+ *
+ * @since 1.0.0
+ */
+
+import type { TenantQuotaResource } from '../policies/tenant-quota.policy';
+
+/**
+ * 消耗结果
+ */
+export interface ITenantUsageConsumeResult {
+  /** 是否在配额内 */
+  readonly allowed: boolean;
+  /** 消耗后的用量，未通过时为当前用量 */
+  readonly usage: number;
+}
+
+/**
+ * 租户用量存储接口
+ */
+export interface ITenantUsageStore {
+  /**
+   * 获取当前用量
+   *
+   * @param windowMs 计数窗口时长，未指定表示累计用量
+   */
+  get(
+    tenantId: string,
+    resource: TenantQuotaResource,
+    windowMs?: number,
+  ): Promise<number>;
+
+  /**
+   * 在不超过配额的前提下累加用量
+   */
+  tryConsume(
+    tenantId: string,
+    resource: TenantQuotaResource,
+    amount: number,
+    limit: number,
+    windowMs?: number,
+  ): Promise<ITenantUsageConsumeResult>;
+
+  /**
+   * 释放用量
+   *
+   * @returns 释放后的用量
+   */
+  release(
+    tenantId: string,
+    resource: TenantQuotaResource,
+    amount: number,
+  ): Promise<number>;
+
+  /**
+   * 直接设置用量，用于与实际数据对账
+   */
+  set(
+    tenantId: string,
+    resource: TenantQuotaResource,
+    value: number,
+  ): Promise<void>;
+}
@@ -2,7 +2,7 @@
  * 租户管理模块导出
  *
  * @description 导出租户管理相关的业务实体、事件和服务
- * 专注于租户的业务逻辑，不包含技术基础设施
+ * 专注于租户的业务逻辑，仓储实现只依赖数据库模块的 IDatabaseService 抽象
  *
  * @since 1.0.0
  */
@@ -10,18 +10,49 @@
 // 领域实体
 export * from './domain/entities/tenant.entity';
 
+// 领域错误
+export * from './domain/errors/tenant.errors';
+
 // 领域事件
 export * from './domain/events/tenant.events';
 
+// 领域策略
+export * from './domain/policies/tenant-lifecycle.policy';
+export * from './domain/policies/tenant-quota.policy';
+
 // 领域仓储接口
 export * from './domain/repositories/tenant.repository.interface';
+export * from './domain/repositories/tenant-usage.store.interface';
+export * from './domain/repositories/tenant-role.store.interface';
+
+// 仓储实现
+export * from './infrastructure/repositories/tenant-repository.support';
+export * from './infrastructure/repositories/in-memory-tenant.repository';
+export * from './infrastructure/repositories/sql-tenant.repository';
+export * from './infrastructure/usage/in-memory-tenant-usage.store';
+
+// 资源开通步骤
+export * from './infrastructure/provisioning/database-provisioning.step';
+export * from './infrastructure/provisioning/cache-namespace-provisioning.step';
+export * from './infrastructure/provisioning/default-roles-provisioning.step';
 
 // 应用服务
 export * from './application/services/tenant.service';
 export * from './application/services/tenant-context.service';
+export * from './application/services/tenant-lifecycle.scheduler';
+export * from './application/services/tenant-quota.service';
+export * from './application/services/tenant-provisioning.service';
+export * from './application/services/tenant-offboarding.service';
+export * from './application/provisioning/tenant-provisioning.interface';
+
+// 守卫和装饰器
+export * from './application/guards/tenant-quota.guard';
 
 // 类型定义重新导出，便于其他模块使用
-export type { ITenantConfiguration } from './domain/entities/tenant.entity';
+export type {
+  ITenantConfiguration,
+  ITenantLifecycle,
+} from './domain/entities/tenant.entity';
 export {
   TenantType,
   TenantStatus,
@@ -0,0 +1,74 @@
+/**
+ * 缓存命名空间开通步骤
+ *
+ * @description 在租户缓存命名空间中写入标记键，清理时复用缓存模块的租户缓存清理
+ *
+ * ## 业务规则
+ *
+ * - 开通时以租户上下文写入标记键，记录租户代码和开通时间，不过期
+ * - 写入失败时步骤失败
+ * - 回滚和清理都调用 cleanupTenantCache 删除租户的全部缓存键
+ * - 清理结果带错误时步骤失败
+ *
+ * @since 1.0.0
+ */
+
+import type { ITenantAwareCacheService } from '@aiofix/cache';
+import type { Tenant } from '../../domain/entities/tenant.entity';
+import type { ITenantProvisioningStep } from '../../application/provisioning/tenant-provisioning.interface';
+
+/**
+ * 缓存命名空间开通步骤选项
+ */
+export interface ICacheNamespaceProvisioningOptions {
+  /** 标记键，默认 __tenant__ */
+  markerKey?: string;
+}
+
+/**
+ * 缓存命名空间开通步骤
+ */
+export class CacheNamespaceProvisioningStep implements ITenantProvisioningStep {
+  readonly name = 'cache-namespace';
+  private readonly markerKey: string;
+
+  constructor(
+    private readonly cache: Pick<
+      ITenantAwareCacheService,
+      'setTenantCache' | 'cleanupTenantCache'
+    >,
+    options: ICacheNamespaceProvisioningOptions = {},
+  ) {
+    this.markerKey = options.markerKey ?? '__tenant__';
+  }
+
+  async provision(tenant: Tenant): Promise<void> {
+    const tenantId = tenant.id.toString();
+    const stored = await this.cache.setTenantCache(
+      this.markerKey,
+      { tenantCode: tenant.code, provisionedAt: new Date().toISOString() },
+      { tenantId, tenantCode: tenant.code, createdAt: new Date() },
+    );
+    if (!stored) {
+      throw new Error(`租户 ${tenant.code} 的缓存命名空间初始化失败`);
+    }
+  }
+
+  async rollback(tenant: Tenant): Promise<void> {
+    await this.cleanup(tenant);
+  }
+
+  async deprovision(tenant: Tenant): Promise<void> {
+    await this.cleanup(tenant);
+  }
+
+  /**
+   * 清理租户的全部缓存键
+   */
+  private async cleanup(tenant: Tenant): Promise<void> {
+    const result = await this.cache.cleanupTenantCache(tenant.id.toString());
+    if (result.errors.length > 0) {
+      throw result.errors[0];
+    }
+  }
+}
@@ -0,0 +1,233 @@
+/**
+ * 数据库开通步骤测试
+ *
+ * @description 测试各隔离策略生成的语句、行级安全策略检查和迁移、只撤销本次创建的对象和清理流程
+ * @since 1.0.0
+ */
+
+import { randomUUID } from 'crypto';
+import { EntityId } from '@aiofix/core';
+import {
+  Tenant,
+  TenantType,
+  TenantStatus,
+  IsolationStrategy,
+} from '../../domain/entities/tenant.entity';
+import {
+  createRowLevelSecurityMigration,
+  DatabaseProvisioningStep,
+} from './database-provisioning.step';
+
+// 创建租户
+const createTenant = (isolationStrategy: IsolationStrategy): Tenant =>
+  new Tenant(
+    EntityId.fromString(randomUUID()),
+    'acme',
+    'Acme',
+    'acme.example.com',
+    TenantType.BASIC,
+    isolationStrategy,
+    TenantStatus.TRIAL,
+    {},
+    { createdBy: 'system', tenantId: 'system' },
+  );
+
+describe('DatabaseProvisioningStep', () => {
+  const options = { rowLevelTables: ['users', 'billing.invoices'] };
+  let existing: Set<string>;
+  let rowLevelSecurity: Map<string, Record<string, boolean>>;
+  let query: jest.Mock;
+  let execute: jest.Mock;
+  let cleanupTenantData: jest.Mock;
+  let step: DatabaseProvisioningStep;
+
+  // 已执行的语句
+  const statements = (): string[] =>
+    execute.mock.calls.map(([sql]: [string]) => sql);
+
+  // 部署共享表的行级安全策略
+  const deployRowLevelSecurity = (): void => {
+    for (const table of ['public.users', 'billing.invoices']) {
+      rowLevelSecurity.set(table, {
+        enabled: true,
+        forced: true,
+        has_policy: true,
+      });
+    }
+  };
+
+  beforeEach(() => {
+    existing = new Set();
+    rowLevelSecurity = new Map();
+    query = jest.fn(async (sql: string, params: string[]) => {
+      if (sql.includes('pg_class')) {
+        const state = rowLevelSecurity.get(`${params[1]}.${params[2]}`);
+        return state ? [state] : [];
+      }
+      return existing.has(params[0]) ? [{ '?column?': 1 }] : [];
+    });
+    execute = jest.fn().mockResolvedValue({ affectedRows: 0 });
+    cleanupTenantData = jest.fn().mockResolvedValue({
+      totalRecords: 0,
+      deletedRecords: 0,
+      failedRecords: 0,
+      duration: 0,
+    });
+    step = new DatabaseProvisioningStep(
+      { query, execute },
+      {
+        cleanupTenantData,
+        getTenantSchemaName: (id) => `ts_${id}`,
+        getTenantDatabaseName: (id) => `td_${id}`,
+      },
+      options,
+    );
+  });
+
+  it('应该使用隔离策略给出的名称创建租户数据库', async () => {
+    const tenant = createTenant(IsolationStrategy.DATABASE_PER_TENANT);
+    const id = tenant.id.toString();
+
+    await step.provision(tenant);
+    await step.rollback(tenant);
+
+    expect(query).toHaveBeenCalledWith(
+      'SELECT 1 FROM pg_database WHERE datname = ?',
+      [`td_${id}`],
+    );
+    expect(statements()).toEqual([
+      `CREATE DATABASE "td_${id}"`,
+      `DROP DATABASE IF EXISTS "td_${id}"`,
+    ]);
+  });
+
+  it('应该使用隔离策略给出的名称创建租户模式', async () => {
+    const tenant = createTenant(IsolationStrategy.SCHEMA_PER_TENANT);
+    const id = tenant.id.toString();
+
+    await step.provision(tenant);
+
+    expect(statements()).toEqual([`CREATE SCHEMA "ts_${id}"`]);
+  });
+
+  it('模式已存在时应该跳过创建且回滚时保留', async () => {
+    const tenant = createTenant(IsolationStrategy.SCHEMA_PER_TENANT);
+    existing.add(`ts_${tenant.id.toString()}`);
+
+    await step.provision(tenant);
+    await step.rollback(tenant);
+
+    expect(execute).not.toHaveBeenCalled();
+  });
+
+  it('回滚只撤销最近一次开通中创建的对象', async () => {
+    const tenant = createTenant(IsolationStrategy.SCHEMA_PER_TENANT);
+    const id = tenant.id.toString();
+
+    await step.provision(tenant);
+    await step.rollback(tenant);
+    await step.rollback(tenant);
+
+    expect(statements()).toEqual([
+      `CREATE SCHEMA "ts_${id}"`,
+      `DROP SCHEMA IF EXISTS "ts_${id}" CASCADE`,
+    ]);
+  });
+
+  it('行级安全策略已部署时不应该执行DDL', async () => {
+    deployRowLevelSecurity();
+    const tenant = createTenant(IsolationStrategy.ROW_LEVEL_SECURITY);
+
+    await step.provision(tenant);
+    await step.rollback(tenant);
+
+    expect(query.mock.calls.map(([, params]) => params)).toEqual([
+      ['tenant_isolation', 'public', 'users'],
+      ['tenant_isolation', 'billing', 'invoices'],
+    ]);
+    expect(execute).not.toHaveBeenCalled();
+  });
+
+  it('共享表缺少行级安全策略时应该失败', async () => {
+    deployRowLevelSecurity();
+    rowLevelSecurity.set('billing.invoices', {
+      enabled: true,
+      forced: false,
+      has_policy: true,
+    });
+
+    await expect(
+      step.provision(createTenant(IsolationStrategy.HYBRID)),
+    ).rejects.toThrow('共享表 billing.invoices 未部署行级安全策略');
+    await expect(
+      step.provision(createTenant(IsolationStrategy.ROW_LEVEL_SECURITY)),
+    ).rejects.toThrow('createRowLevelSecurityMigration');
+    rowLevelSecurity.delete('public.users');
+    await expect(
+      step.provision(createTenant(IsolationStrategy.ROW_LEVEL_SECURITY)),
+    ).rejects.toThrow('共享表 users');
+    expect(execute).not.toHaveBeenCalled();
+  });
+
+  it('迁移应该在每张表上强制一条按会话租户过滤的共享策略', () => {
+    const predicate = `"tenant_id" = NULLIF(current_setting('app.tenant_id', true), '')`;
+
+    const migration = createRowLevelSecurityMigration(20260101000000, options);
+
+    expect(migration).toMatchObject({
+      version: 20260101000000,
+      name: 'tenant_row_level_security',
+    });
+    expect(migration.up).toEqual([
+      'ALTER TABLE "users" ENABLE ROW LEVEL SECURITY',
+      'ALTER TABLE "users" FORCE ROW LEVEL SECURITY',
+      'DROP POLICY IF EXISTS "tenant_isolation" ON "users"',
+      `CREATE POLICY "tenant_isolation" ON "users" USING (${predicate}) WITH CHECK (${predicate})`,
+      'ALTER TABLE "billing"."invoices" ENABLE ROW LEVEL SECURITY',
+      'ALTER TABLE "billing"."invoices" FORCE ROW LEVEL SECURITY',
+      'DROP POLICY IF EXISTS "tenant_isolation" ON "billing"."invoices"',
+      `CREATE POLICY "tenant_isolation" ON "billing"."invoices" USING (${predicate}) WITH CHECK (${predicate})`,
+    ]);
+    expect(migration.down).toContain(
+      'DROP POLICY IF EXISTS "tenant_isolation" ON "users"',
+    );
+  });
+
+  it('创建失败时不应该删除未创建的对象', async () => {
+    deployRowLevelSecurity();
+    const tenant = createTenant(IsolationStrategy.HYBRID);
+    const failure = new Error('permission denied');
+    execute.mockRejectedValueOnce(failure);
+
+    await expect(step.provision(tenant)).rejects.toBe(failure);
+    await step.rollback(tenant);
+
+    expect(statements()).toEqual([
+      `CREATE SCHEMA "ts_${tenant.id.toString()}"`,
+    ]);
+  });
+
+  it('清理时应该先清理租户数据再删除数据库对象', async () => {
+    const tenant = createTenant(IsolationStrategy.HYBRID);
+    const id = tenant.id.toString();
+
+    await step.deprovision(tenant);
+
+    expect(cleanupTenantData).toHaveBeenCalledWith(id);
+    expect(statements()).toEqual([`DROP SCHEMA IF EXISTS "ts_${id}" CASCADE`]);
+  });
+
+  it('数据清理出错时应该失败且不删除数据库对象', async () => {
+    const tenant = createTenant(IsolationStrategy.SCHEMA_PER_TENANT);
+    cleanupTenantData.mockResolvedValue({
+      totalRecords: 10,
+      deletedRecords: 5,
+      failedRecords: 5,
+      duration: 1,
+      errors: ['lock timeout'],
+    });
+
+    await expect(step.deprovision(tenant)).rejects.toThrow('lock timeout');
+    expect(execute).not.toHaveBeenCalled();
+  });
+});
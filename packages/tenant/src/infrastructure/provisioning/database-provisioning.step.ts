@@ -0,0 +1,292 @@
+/**
+ * 数据库开通步骤
+ *
+ * @description 按租户的隔离策略创建租户数据库或模式，检查共享表的行级安全策略已经部署，
+ * 清理时复用数据库模块的 cleanupTenantData
+ *
+ * ## 业务规则
+ *
+ * ### 开通规则
+ * - DATABASE_PER_TENANT：创建隔离策略 getTenantDatabaseName 给出的租户数据库
+ * - SCHEMA_PER_TENANT：创建隔离策略 getTenantSchemaName 给出的租户模式
+ * - ROW_LEVEL_SECURITY：只检查 rowLevelTables 的每张表已启用并强制行级安全、存在共享策略，
+ *   缺少时失败，不执行任何DDL
+ * - HYBRID：先检查行级安全策略，再创建模式
+ * - 数据库或模式已存在时跳过创建（如开通事件被重复投递），不视为本次创建
+ * - 部分语句失败时先撤销本次已创建的对象再抛出错误
+ *
+ * ### 行级安全策略规则
+ * - 共享策略是一次性的DDL，由 createRowLevelSecurityMigration 生成的迁移通过 MigrationRunner 部署，
+ *   开通租户时不修改共享表，避免在其他租户使用中的表上加排他锁
+ * - 迁移和本步骤使用同一份选项，表、策略名和租户ID列保持一致
+ *
+ * ### 回滚和清理规则
+ * - 回滚只删除本步骤实例在该租户最近一次开通中创建的数据库或模式，已存在的对象不删除
+ * - 行级安全策略由所有租户共享，回滚和清理时保留
+ * - 清理先调用 cleanupTenantData 删除租户数据，结果带错误时失败，再删除租户数据库或模式
+ *
+ * ### 技术规则
+ * - 标识符使用双引号转义，带点号的表名按模式和表分别检查，不带模式的表按 public 模式检查
+ * - 语句逐条执行，不包裹在事务中（CREATE DATABASE 不能在事务中执行）
+ *
+ * @example
+ * ```typescript
+ * const options = { rowLevelTables: ['users', 'orders'] };
+ * const runner = createMigrationRunner(
+ *   [createRowLevelSecurityMigration(20260101000000, options)],
+ *   { connection },
+ * );
+ * await runner.migrate();
+ *
+ * const step = new DatabaseProvisioningStep(databaseService, isolationStrategy, options);
+ * ```
+ *
+ * @since 1.0.0
+ */
+
+import {
+  DEFAULT_ISOLATION_CONFIG,
+  createRowLevelSecurityPolicies,
+} from '@aiofix/database';
+import type {
+  DatabaseIsolationStrategy,
+  IDatabaseService,
+  IDatabaseIsolationConfig,
+  IMigration,
+  IRowLevelSecurityOptions,
+} from '@aiofix/database';
+import { IsolationStrategy } from '../../domain/entities/tenant.entity';
+import type { Tenant } from '../../domain/entities/tenant.entity';
+import type { ITenantProvisioningStep } from '../../application/provisioning/tenant-provisioning.interface';
+
+/**
+ * 数据库开通步骤选项
+ */
+export interface IDatabaseProvisioningOptions
+  extends Partial<Pick<IDatabaseIsolationConfig, 'tenantIdColumn'>> {
+  /** 启用行级安全的共享表 */
+  rowLevelTables?: string[];
+
+  /** 行级安全策略选项，租户ID列取自 tenantIdColumn */
+  rowLevelSecurity?: Omit<IRowLevelSecurityOptions, 'tenantIdColumn'>;
+}
+
+/**
+ * 一条开通语句
+ */
+interface IProvisioningStatement {
+  /** 检查对象是否已存在的查询 */
+  exists: { sql: string; params: unknown[] };
+  create: string;
+  drop: string;
+}
+
+/**
+ * 共享表的行级安全状态
+ */
+interface IRowLevelSecurityState {
+  enabled: boolean;
+  forced: boolean;
+  has_policy: boolean;
+}
+
+/**
+ * 默认的行级安全策略名
+ */
+const DEFAULT_POLICY_NAME = 'tenant_isolation';
+
+/**
+ * 生成部署共享表行级安全策略的迁移
+ *
+ * @param version - 迁移版本号
+ * @param options - 与 DatabaseProvisioningStep 相同的选项
+ * @param name - 迁移名称
+ * @returns 启用和移除行级安全策略的迁移
+ */
+export function createRowLevelSecurityMigration(
+  version: number,
+  options: IDatabaseProvisioningOptions = {},
+  name = 'tenant_row_level_security',
+): IMigration {
+  return {
+    version,
+    name,
+    ...createRowLevelSecurityPolicies(options.rowLevelTables ?? [], {
+      ...options.rowLevelSecurity,
+      tenantIdColumn:
+        options.tenantIdColumn ?? DEFAULT_ISOLATION_CONFIG.tenantIdColumn,
+    }),
+  };
+}
+
+/**
+ * 数据库开通步骤
+ */
+export class DatabaseProvisioningStep implements ITenantProvisioningStep {
+  readonly name = 'database';
+  private readonly rowLevelTables: string[];
+  private readonly policyName: string;
+  /** 租户ID到最近一次开通中创建的对象 */
+  private readonly created = new Map<string, IProvisioningStatement[]>();
+
+  constructor(
+    private readonly databaseService: Pick<
+      IDatabaseService,
+      'query' | 'execute'
+    >,
+    private readonly isolationStrategy: Pick<
+      DatabaseIsolationStrategy,
+      'cleanupTenantData' | 'getTenantSchemaName' | 'getTenantDatabaseName'
+    >,
+    options: IDatabaseProvisioningOptions = {},
+  ) {
+    this.rowLevelTables = options.rowLevelTables ?? [];
+    this.policyName =
+      options.rowLevelSecurity?.policyName ?? DEFAULT_POLICY_NAME;
+  }
+
+  async provision(tenant: Tenant): Promise<void> {
+    if (this.usesRowLevelSecurity(tenant)) {
+      await this.verifyRowLevelSecurity();
+    }
+
+    const created: IProvisioningStatement[] = [];
+    try {
+      for (const statement of this.buildStatements(tenant)) {
+        const rows = await this.databaseService.query(
+          statement.exists.sql,
+          statement.exists.params,
+        );
+        if (rows.length > 0) {
+          continue;
+        }
+        await this.databaseService.execute(statement.create);
+        created.push(statement);
+      }
+    } catch (error) {
+      await this.drop(created).catch(() => undefined);
+      throw error;
+    }
+    this.created.set(tenant.id.toString(), created);
+  }
+
+  async rollback(tenant: Tenant): Promise<void> {
+    const id = tenant.id.toString();
+    await this.drop(this.created.get(id) ?? []);
+    this.created.delete(id);
+  }
+
+  async deprovision(tenant: Tenant): Promise<void> {
+    const result = await this.isolationStrategy.cleanupTenantData(
+      tenant.id.toString(),
+    );
+    if (result.errors && result.errors.length > 0) {
+      throw new Error(
+        `租户 ${tenant.code} 的数据清理失败: ${result.errors.join('; ')}`,
+      );
+    }
+    await this.drop(this.buildStatements(tenant));
+    this.created.delete(tenant.id.toString());
+  }
+
+  // ==================== 私有方法 ====================
+
+  /**
+   * 按相反顺序执行撤销语句
+   */
+  private async drop(statements: IProvisioningStatement[]): Promise<void> {
+    for (const { drop } of [...statements].reverse()) {
+      await this.databaseService.execute(drop);
+    }
+  }
+
+  /**
+   * 租户是否依赖共享表的行级安全
+   */
+  private usesRowLevelSecurity(tenant: Tenant): boolean {
+    return (
+      tenant.isolationStrategy === IsolationStrategy.ROW_LEVEL_SECURITY ||
+      tenant.isolationStrategy === IsolationStrategy.HYBRID
+    );
+  }
+
+  /**
+   * 检查每张共享表已启用并强制行级安全且存在共享策略
+   *
+   * @throws {Error} 任意一张表缺少时抛出，提示先执行行级安全迁移
+   */
+  private async verifyRowLevelSecurity(): Promise<void> {
+    for (const table of this.rowLevelTables) {
+      const [schema, name] = table.includes('.')
+        ? table.split('.')
+        : ['public', table];
+      const [state] = await this.databaseService.query<IRowLevelSecurityState>(
+        `SELECT c.relrowsecurity AS enabled, c.relforcerowsecurity AS forced,
+          EXISTS (SELECT 1 FROM pg_policies p WHERE p.schemaname = n.nspname AND p.tablename = c.relname AND p.policyname = ?) AS has_policy
+        FROM pg_class c JOIN pg_namespace n ON n.oid = c.relnamespace
+        WHERE n.nspname = ? AND c.relname = ?`,
+        [this.policyName, schema, name],
+      );
+      if (!state?.enabled || !state.forced || !state.has_policy) {
+        throw new Error(
+          `共享表 ${table} 未部署行级安全策略 ${this.policyName}，请先执行 createRowLevelSecurityMigration 生成的迁移`,
+        );
+      }
+    }
+  }
+
+  /**
+   * 根据隔离策略生成开通语句
+   */
+  private buildStatements(tenant: Tenant): IProvisioningStatement[] {
+    switch (tenant.isolationStrategy) {
+      case IsolationStrategy.DATABASE_PER_TENANT:
+        return [this.databaseStatement(tenant)];
+      case IsolationStrategy.SCHEMA_PER_TENANT:
+      case IsolationStrategy.HYBRID:
+        return [this.schemaStatement(tenant)];
+      case IsolationStrategy.ROW_LEVEL_SECURITY:
+        return [];
+      default:
+        throw new Error(`不支持的隔离策略: ${tenant.isolationStrategy}`);
+    }
+  }
+
+  private databaseStatement(tenant: Tenant): IProvisioningStatement {
+    const name = this.isolationStrategy.getTenantDatabaseName(
+      tenant.id.toString(),
+    );
+    const database = quoteIdentifier(name);
+    return {
+      exists: {
+        sql: 'SELECT 1 FROM pg_database WHERE datname = ?',
+        params: [name],
+      },
+      create: `CREATE DATABASE ${database}`,
+      drop: `DROP DATABASE IF EXISTS ${database}`,
+    };
+  }
+
+  private schemaStatement(tenant: Tenant): IProvisioningStatement {
+    const name = this.isolationStrategy.getTenantSchemaName(
+      tenant.id.toString(),
+    );
+    const schema = quoteIdentifier(name);
+    return {
+      exists: {
+        sql: 'SELECT 1 FROM information_schema.schemata WHERE schema_name = ?',
+        params: [name],
+      },
+      // 不使用 IF NOT EXISTS：并发开通时后执行的一方失败，而不是误认为自己创建了模式
+      create: `CREATE SCHEMA ${schema}`,
+      drop: `DROP SCHEMA IF EXISTS ${schema} CASCADE`,
+    };
+  }
+}
+
+/**
+ * 转义标识符
+ */
+function quoteIdentifier(identifier: string): string {
+  return `"${identifier.replace(/"/g, '""')}"`;
+}
@@ -0,0 +1,55 @@
+/**
+ * 默认角色开通步骤
+ *
+ * @description 为新租户写入默认角色
+ *
+ * ## 业务规则
+ *
+ * - 开通时写入默认角色，默认为租户管理员和普通成员
+ * - 回滚时只删除本步骤写入的默认角色
+ * - 清理时删除租户的全部角色
+ *
+ * @since 1.0.0
+ */
+
+import type { Tenant } from '../../domain/entities/tenant.entity';
+import type {
+  ITenantRoleDefinition,
+  ITenantRoleStore,
+} from '../../domain/repositories/tenant-role.store.interface';
+import type { ITenantProvisioningStep } from '../../application/provisioning/tenant-provisioning.interface';
+
+/**
+ * 默认角色
+ */
+export const DEFAULT_TENANT_ROLES: readonly ITenantRoleDefinition[] = [
+  { code: 'tenant_admin', name: '租户管理员', permissions: ['*'] },
+  { code: 'tenant_member', name: '成员', permissions: ['read'] },
+];
+
+/**
+ * 默认角色开通步骤
+ */
+export class DefaultRolesProvisioningStep implements ITenantProvisioningStep {
+  readonly name = 'default-roles';
+
+  constructor(
+    private readonly roleStore: ITenantRoleStore,
+    private readonly roles: readonly ITenantRoleDefinition[] = DEFAULT_TENANT_ROLES,
+  ) {}
+
+  async provision(tenant: Tenant): Promise<void> {
+    await this.roleStore.createRoles(tenant.id.toString(), this.roles);
+  }
+
+  async rollback(tenant: Tenant): Promise<void> {
+    await this.roleStore.deleteRoles(
+      tenant.id.toString(),
+      this.roles.map((role) => role.code),
+    );
+  }
+
+  async deprovision(tenant: Tenant): Promise<void> {
+    await this.roleStore.deleteRoles(tenant.id.toString());
+  }
+}
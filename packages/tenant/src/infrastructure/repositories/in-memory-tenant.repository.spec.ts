@@ -0,0 +1,192 @@
+/**
+ * 内存租户仓储测试
+ *
+ * @description 测试查询过滤、排序、分页、软删除和领域事件分发
+ * @since 1.0.0
+ */
+
+import { randomUUID } from 'crypto';
+import { EntityId } from '@aiofix/core';
+import {
+  Tenant,
+  TenantType,
+  TenantStatus,
+  IsolationStrategy,
+} from '../../domain/entities/tenant.entity';
+import { InMemoryTenantRepository } from './in-memory-tenant.repository';
+
+// 创建租户
+const createTenant = (
+  code: string,
+  status: TenantStatus = TenantStatus.ACTIVE,
+  type: TenantType = TenantType.BASIC,
+): Tenant =>
+  new Tenant(
+    EntityId.fromString(randomUUID()),
+    code,
+    `${code}-name`,
+    `${code}.example.com`,
+    type,
+    IsolationStrategy.ROW_LEVEL_SECURITY,
+    status,
+    {},
+    { createdBy: 'system', tenantId: 'system' },
+  );
+
+describe('InMemoryTenantRepository', () => {
+  let eventPublisher: { publishAll: jest.Mock };
+  let repository: InMemoryTenantRepository;
+
+  beforeEach(() => {
+    eventPublisher = { publishAll: jest.fn().mockResolvedValue(undefined) };
+    repository = new InMemoryTenantRepository({ eventPublisher });
+  });
+
+  describe('保存与查找', () => {
+    it('保存后应该发布并清除未提交的领域事件', async () => {
+      const tenant = createTenant('alpha');
+
+      await repository.save(tenant);
+
+      expect(eventPublisher.publishAll).toHaveBeenCalledTimes(1);
+      expect(eventPublisher.publishAll.mock.calls[0][0][0].eventType).toBe(
+        'TenantCreated',
+      );
+      expect(tenant.hasUncommittedEvents()).toBe(false);
+      expect(await repository.findByCode('alpha')).toBe(tenant);
+      expect(await repository.findByDomain('alpha.example.com')).toBe(tenant);
+      expect(await repository.existsByCode('beta')).toBe(false);
+    });
+
+    it('应该拒绝重复的租户代码', async () => {
+      await repository.save(createTenant('alpha'));
+
+      await expect(repository.save(createTenant('alpha'))).rejects.toThrow(
+        '租户代码 alpha 已存在',
+      );
+    });
+
+    it('更新不存在的租户应该失败', async () => {
+      await expect(repository.update(createTenant('alpha'))).rejects.toThrow(
+        '不存在',
+      );
+    });
+
+    it('发布失败时应该保留未提交的事件', async () => {
+      eventPublisher.publishAll.mockRejectedValueOnce(new Error('总线不可用'));
+      const tenant = createTenant('alpha');
+
+      await expect(repository.save(tenant)).rejects.toThrow('总线不可用');
+      expect(tenant.hasUncommittedEvents()).toBe(true);
+    });
+  });
+
+  describe('查询', () => {
+    beforeEach(async () => {
+      await repository.save(createTenant('charlie', TenantStatus.TRIAL));
+      await repository.save(
+        createTenant('alpha', TenantStatus.ACTIVE, TenantType.ENTERPRISE),
+      );
+      await repository.save(createTenant('bravo', TenantStatus.SUSPENDED));
+      await repository.save(createTenant('delta', TenantStatus.DELETED));
+    });
+
+    it('应该按状态和类型过滤，默认排除已删除的租户', async () => {
+      const all = await repository.findMany({});
+      expect(all.total).toBe(3);
+
+      const byStatus = await repository.findMany({
+        status: [TenantStatus.TRIAL, TenantStatus.SUSPENDED],
+      });
+      expect(byStatus.tenants.map((t) => t.code)).toEqual(['charlie', 'bravo']);
+
+      const byType = await repository.findMany({
+        type: [TenantType.ENTERPRISE],
+      });
+      expect(byType.tenants.map((t) => t.code)).toEqual(['alpha']);
+
+      const withDeleted = await repository.findMany({ includeDeleted: true });
+      expect(withDeleted.total).toBe(4);
+    });
+
+    it('应该排序并分页', async () => {
+      const firstPage = await repository.findMany({
+        sort: { field: 'code', order: 'desc' },
+        pagination: { page: 1, size: 2 },
+      });
+      expect(firstPage.tenants.map((t) => t.code)).toEqual([
+        'charlie',
+        'bravo',
+      ]);
+      expect(firstPage).toMatchObject({ total: 3, page: 1, hasNext: true });
+
+      const secondPage = await repository.findMany({
+        sort: { field: 'code', order: 'desc' },
+        pagination: { page: 2, size: 2 },
+      });
+      expect(secondPage.tenants.map((t) => t.code)).toEqual(['alpha']);
+      expect(secondPage.hasNext).toBe(false);
+    });
+
+    it('应该统计所有租户', async () => {
+      const statistics = await repository.getStatistics();
+
+      expect(statistics.total).toBe(4);
+      expect(statistics.byStatus[TenantStatus.DELETED]).toBe(1);
+      expect(statistics.byStatus[TenantStatus.EXPIRED]).toBe(0);
+      expect(statistics.byType[TenantType.BASIC]).toBe(3);
+    });
+  });
+
+  describe('状态变更', () => {
+    it('软删除和恢复应该通过聚合根转换并发布事件', async () => {
+      const tenant = createTenant('alpha');
+      await repository.save(tenant);
+      eventPublisher.publishAll.mockClear();
+
+      expect(await repository.delete(tenant.id, 'admin', '客户注销')).toBe(
+        true,
+      );
+      expect(tenant.status).toBe(TenantStatus.DELETED);
+      expect(await repository.findActiveTenants()).toEqual([]);
+
+      const restored = await repository.restore(tenant.id, 'admin');
+      expect(restored?.status).toBe(TenantStatus.SUSPENDED);
+      expect(eventPublisher.publishAll).toHaveBeenCalledTimes(2);
+
+      expect(await repository.hardDelete(tenant.id)).toBe(true);
+      expect(await repository.findById(tenant.id)).toBeNull();
+    });
+
+    it('批量更新应该跳过不允许的转换', async () => {
+      const active = createTenant('alpha', TenantStatus.ACTIVE);
+      const deleted = createTenant('bravo', TenantStatus.DELETED);
+      await repository.save(active);
+      await repository.save(deleted);
+
+      const count = await repository.batchUpdateStatus(
+        [active.id, deleted.id],
+        TenantStatus.EXPIRED,
+        'admin',
+        '订阅到期',
+      );
+
+      expect(count).toBe(1);
+      expect(active.status).toBe(TenantStatus.EXPIRED);
+      expect(deleted.status).toBe(TenantStatus.DELETED);
+    });
+
+    it('应该软删除过期超过指定天数的租户', async () => {
+      const old = createTenant('alpha');
+      const recent = createTenant('bravo');
+      await repository.save(old);
+      await repository.save(recent);
+      old.expire('订阅到期', new Date(Date.now() - 40 * 24 * 60 * 60 * 1000));
+      recent.expire('订阅到期');
+
+      expect(await repository.cleanupExpiredTrials(30)).toBe(1);
+      expect(old.status).toBe(TenantStatus.DELETED);
+      expect(recent.status).toBe(TenantStatus.EXPIRED);
+    });
+  });
+});
@@ -0,0 +1,327 @@
+/**
+ * 内存租户仓储
+ *
+ * @description ITenantRepository的内存实现，用于测试和本地开发
+ *
+ * ## 业务规则
+ *
+ * ### 存储规则
+ * - 租户代码和域名全局唯一，已删除的租户仍然占用
+ * - 删除为软删除：租户转换为删除状态，保留到 hardDelete
+ * - 仓储自行记录创建和更新时间，用于 createdAt 过滤和排序
+ *
+ * ### 查询规则
+ * - findMany 默认排除已删除的租户，includeDeleted 为 true 时包含
+ * - 未指定分页时返回全部结果
+ * - 未指定排序时按创建顺序返回
+ *
+ * ### 事件规则
+ * - save、update、delete、restore 和 batchUpdateStatus 保存后发布聚合根未提交的领域事件
+ *
+ * @example
+ * ```typescript
+ * const repository = new InMemoryTenantRepository({ eventPublisher: eventBus });
+ * const service = new TenantService(repository);
+ * ```
+ *
+ * @since 1.0.0
+ */
+
+import { EntityId } from '@aiofix/core';
+import { Tenant, TenantStatus } from '../../domain/entities/tenant.entity';
+import type {
+  ITenantRepository,
+  ITenantQueryOptions,
+  ITenantQueryResult,
+} from '../../domain/repositories/tenant.repository.interface';
+import {
+  DAY_MS,
+  createEmptyTenantStatistics,
+  publishTenantEvents,
+} from './tenant-repository.support';
+import type {
+  ITenantRepositoryOptions,
+  ITenantStatistics,
+} from './tenant-repository.support';
+
+/**
+ * 内存中的租户记录
+ */
+interface ITenantRecord {
+  tenant: Tenant;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * 内存租户仓储
+ */
+export class InMemoryTenantRepository implements ITenantRepository {
+  private readonly records = new Map<string, ITenantRecord>();
+
+  constructor(private readonly options: ITenantRepositoryOptions = {}) {}
+
+  async save(tenant: Tenant): Promise<Tenant> {
+    const key = tenant.id.toString();
+    if (this.records.has(key)) {
+      throw new Error(`租户 ${key} 已存在`);
+    }
+    if (this.findRecord((t) => t.code === tenant.code)) {
+      throw new Error(`租户代码 ${tenant.code} 已存在`);
+    }
+    if (this.findRecord((t) => t.domain === tenant.domain)) {
+      throw new Error(`租户域名 ${tenant.domain} 已存在`);
+    }
+
+    const now = new Date();
+    this.records.set(key, { tenant, createdAt: now, updatedAt: now });
+    await publishTenantEvents(tenant, this.options.eventPublisher);
+    return tenant;
+  }
+
+  async findById(id: EntityId): Promise<Tenant | null> {
+    return this.records.get(id.toString())?.tenant ?? null;
+  }
+
+  async findByCode(code: string): Promise<Tenant | null> {
+    return this.findRecord((tenant) => tenant.code === code)?.tenant ?? null;
+  }
+
+  async findByDomain(domain: string): Promise<Tenant | null> {
+    return (
+      this.findRecord((tenant) => tenant.domain === domain)?.tenant ?? null
+    );
+  }
+
+  async findMany(options: ITenantQueryOptions): Promise<ITenantQueryResult> {
+    const matched = [...this.records.values()].filter((record) =>
+      this.matches(record, options),
+    );
+
+    if (options.sort) {
+      const { field, order } = options.sort;
+      const direction = order === 'desc' ? -1 : 1;
+      matched.sort((a, b) => {
+        const left = this.sortValue(a, field);
+        const right = this.sortValue(b, field);
+        return left < right ? -direction : left > right ? direction : 0;
+      });
+    }
+
+    const total = matched.length;
+    if (!options.pagination) {
+      return {
+        tenants: matched.map((record) => record.tenant),
+        total,
+        page: 1,
+        size: total,
+        hasNext: false,
+      };
+    }
+
+    const { page, size } = options.pagination;
+    const offset = (page - 1) * size;
+    return {
+      tenants: matched
+        .slice(offset, offset + size)
+        .map((record) => record.tenant),
+      total,
+      page,
+      size,
+      hasNext: offset + size < total,
+    };
+  }
+
+  async findActiveTenants(): Promise<Tenant[]> {
+    return this.findByStatus(TenantStatus.ACTIVE);
+  }
+
+  async findTrialTenants(): Promise<Tenant[]> {
+    return this.findByStatus(TenantStatus.TRIAL);
+  }
+
+  async findExpiredTenants(): Promise<Tenant[]> {
+    return this.findByStatus(TenantStatus.EXPIRED);
+  }
+
+  async existsByCode(code: string): Promise<boolean> {
+    return (await this.findByCode(code)) !== null;
+  }
+
+  async existsByDomain(domain: string): Promise<boolean> {
+    return (await this.findByDomain(domain)) !== null;
+  }
+
+  async update(tenant: Tenant): Promise<Tenant> {
+    const record = this.records.get(tenant.id.toString());
+    if (!record) {
+      throw new Error(`租户 ${tenant.id.toString()} 不存在`);
+    }
+
+    record.tenant = tenant;
+    record.updatedAt = new Date();
+    await publishTenantEvents(tenant, this.options.eventPublisher);
+    return tenant;
+  }
+
+  async delete(
+    id: EntityId,
+    _deletedBy: string,
+    reason: string,
+  ): Promise<boolean> {
+    const tenant = await this.findById(id);
+    if (!tenant) {
+      return false;
+    }
+
+    tenant.markDeleted(reason);
+    await this.update(tenant);
+    return true;
+  }
+
+  async hardDelete(id: EntityId): Promise<boolean> {
+    return this.records.delete(id.toString());
+  }
+
+  async restore(id: EntityId, _restoredBy: string): Promise<Tenant | null> {
+    const tenant = await this.findById(id);
+    if (!tenant || tenant.status !== TenantStatus.DELETED) {
+      return null;
+    }
+
+    tenant.restore('租户恢复');
+    return this.update(tenant);
+  }
+
+  async getStatistics(): Promise<ITenantStatistics> {
+    const statistics = createEmptyTenantStatistics();
+    for (const { tenant } of this.records.values()) {
+      statistics.total++;
+      statistics.byStatus[tenant.status]++;
+      statistics.byType[tenant.type]++;
+      statistics.byIsolationStrategy[tenant.isolationStrategy]++;
+    }
+    return statistics;
+  }
+
+  async batchUpdateStatus(
+    ids: EntityId[],
+    status: TenantStatus,
+    _updatedBy: string,
+    reason: string,
+  ): Promise<number> {
+    let updatedCount = 0;
+
+    for (const id of ids) {
+      const tenant = await this.findById(id);
+      if (!tenant || tenant.status === status) {
+        continue;
+      }
+      try {
+        tenant.changeStatus(status, reason);
+      } catch {
+        // 不允许的状态转换跳过
+        continue;
+      }
+      await this.update(tenant);
+      updatedCount++;
+    }
+
+    return updatedCount;
+  }
+
+  /**
+   * 软删除过期超过指定天数的租户
+   */
+  async cleanupExpiredTrials(daysExpired: number): Promise<number> {
+    const threshold = Date.now() - daysExpired * DAY_MS;
+    const expired = (await this.findExpiredTenants()).filter(
+      (tenant) =>
+        tenant.lifecycle.expiredAt !== undefined &&
+        tenant.lifecycle.expiredAt.getTime() <= threshold,
+    );
+
+    for (const tenant of expired) {
+      tenant.markDeleted(`过期超过${daysExpired}天`);
+      await this.update(tenant);
+    }
+    return expired.length;
+  }
+
+  // ==================== 私有方法 ====================
+
+  /**
+   * 查找第一个满足条件的记录
+   */
+  private findRecord(
+    predicate: (tenant: Tenant) => boolean,
+  ): ITenantRecord | undefined {
+    for (const record of this.records.values()) {
+      if (predicate(record.tenant)) {
+        return record;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * 按状态查找租户
+   */
+  private findByStatus(status: TenantStatus): Tenant[] {
+    return [...this.records.values()]
+      .map((record) => record.tenant)
+      .filter((tenant) => tenant.status === status);
+  }
+
+  /**
+   * 记录是否满足查询条件
+   */
+  private matches(
+    record: ITenantRecord,
+    options: ITenantQueryOptions,
+  ): boolean {
+    const { tenant, createdAt } = record;
+
+    if (!options.includeDeleted && tenant.status === TenantStatus.DELETED) {
+      return false;
+    }
+    if (options.status?.length && !options.status.includes(tenant.status)) {
+      return false;
+    }
+    if (options.type?.length && !options.type.includes(tenant.type)) {
+      return false;
+    }
+    if (
+      options.isolationStrategy?.length &&
+      !options.isolationStrategy.includes(tenant.isolationStrategy)
+    ) {
+      return false;
+    }
+    if (options.createdAt?.from && createdAt < options.createdAt.from) {
+      return false;
+    }
+    if (options.createdAt?.to && createdAt > options.createdAt.to) {
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * 获取排序字段的值
+   */
+  private sortValue(
+    record: ITenantRecord,
+    field: NonNullable<ITenantQueryOptions['sort']>['field'],
+  ): string | number {
+    switch (field) {
+      case 'code':
+        return record.tenant.code;
+      case 'name':
+        return record.tenant.name;
+      case 'createdAt':
+        return record.createdAt.getTime();
+      case 'updatedAt':
+        return record.updatedAt.getTime();
+    }
+  }
+}
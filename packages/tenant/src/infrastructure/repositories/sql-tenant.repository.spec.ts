@@ -0,0 +1,216 @@
+/**
+ * SQL租户仓储测试
+ *
+ * @description 使用模拟的IDatabaseService测试SQL生成、记录映射和领域事件分发
+ * @since 1.0.0
+ */
+
+import { randomUUID } from 'crypto';
+import { EntityId } from '@aiofix/core';
+import type { IDatabaseService } from '@aiofix/database';
+import {
+  Tenant,
+  TenantType,
+  TenantStatus,
+  IsolationStrategy,
+} from '../../domain/entities/tenant.entity';
+import { SqlTenantRepository } from './sql-tenant.repository';
+import type { ITenantRow } from './sql-tenant.repository';
+
+// 创建表记录
+const createRow = (overrides: Partial<ITenantRow> = {}): ITenantRow => ({
+  id: randomUUID(),
+  code: 'alpha',
+  name: 'Alpha',
+  domain: 'alpha.example.com',
+  type: TenantType.BASIC,
+  isolation_strategy: IsolationStrategy.ROW_LEVEL_SECURITY,
+  status: TenantStatus.ACTIVE,
+  configuration: '{"maxUsers":20}',
+  trial_ends_at: null,
+  expired_at: null,
+  suspended_at: null,
+  scheduled_suspension_at: '2026-05-01T00:00:00.000Z',
+  scheduled_suspension_reason: '合同到期',
+  deleted_at: null,
+  created_by: 'admin',
+  updated_by: 'admin',
+  created_at: '2026-01-01T00:00:00.000Z',
+  updated_at: '2026-01-01T00:00:00.000Z',
+  version: 3,
+  ...overrides,
+});
+
+describe('SqlTenantRepository', () => {
+  let databaseService: { query: jest.Mock; execute: jest.Mock };
+  let eventPublisher: { publishAll: jest.Mock };
+  let repository: SqlTenantRepository;
+
+  beforeEach(() => {
+    databaseService = {
+      query: jest.fn().mockResolvedValue([]),
+      execute: jest.fn().mockResolvedValue({
+        affectedRows: 1,
+        executionTime: 1,
+        success: true,
+      }),
+    };
+    eventPublisher = { publishAll: jest.fn().mockResolvedValue(undefined) };
+    repository = new SqlTenantRepository(
+      databaseService as unknown as IDatabaseService,
+      { eventPublisher },
+    );
+  });
+
+  it('应该从表记录重建租户且不带领域事件', async () => {
+    const row = createRow();
+    databaseService.query.mockResolvedValueOnce([row]);
+
+    const tenant = await repository.findByCode('alpha');
+
+    expect(databaseService.query).toHaveBeenCalledWith(
+      'SELECT * FROM tenants WHERE code = ?',
+      ['alpha'],
+    );
+    expect(tenant?.id.toString()).toBe(row.id);
+    expect(tenant?.configuration.maxUsers).toBe(20);
+    expect(tenant?.lifecycle.scheduledSuspension).toEqual({
+      at: new Date('2026-05-01T00:00:00.000Z'),
+      reason: '合同到期',
+    });
+    expect(tenant?.version).toBe(3);
+    expect(tenant?.hasDomainEvents()).toBe(false);
+  });
+
+  it('保存时应该插入记录并发布领域事件', async () => {
+    const tenant = new Tenant(
+      EntityId.fromString(randomUUID()),
+      'alpha',
+      'Alpha',
+      'alpha.example.com',
+      TenantType.BASIC,
+      IsolationStrategy.ROW_LEVEL_SECURITY,
+      TenantStatus.TRIAL,
+      {},
+      { createdBy: 'admin', tenantId: 'system' },
+      { trialEndsAt: new Date('2026-02-01T00:00:00.000Z') },
+    );
+
+    await repository.save(tenant);
+
+    const [sql, params] = databaseService.execute.mock.calls[0];
+    expect(sql).toMatch(/^INSERT INTO tenants \(id, code, type, /);
+    expect(params).toContain('alpha');
+    expect(params).toContainEqual(new Date('2026-02-01T00:00:00.000Z'));
+    expect(eventPublisher.publishAll).toHaveBeenCalledTimes(1);
+    expect(tenant.hasUncommittedEvents()).toBe(false);
+  });
+
+  it('应该把查询选项转换为参数化的SQL', async () => {
+    databaseService.query
+      .mockResolvedValueOnce([{ total: '5' }])
+      .mockResolvedValueOnce([createRow(), createRow({ code: 'bravo' })]);
+    const from = new Date('2026-01-01T00:00:00.000Z');
+
+    const result = await repository.findMany({
+      status: [TenantStatus.ACTIVE, TenantStatus.TRIAL],
+      type: [TenantType.BASIC],
+      createdAt: { from },
+      sort: { field: 'createdAt', order: 'desc' },
+      pagination: { page: 2, size: 2 },
+    });
+
+    const where =
+      ' WHERE status <> ? AND status IN (?, ?) AND type IN (?) AND created_at >= ?';
+    const params = [
+      TenantStatus.DELETED,
+      TenantStatus.ACTIVE,
+      TenantStatus.TRIAL,
+      TenantType.BASIC,
+      from,
+    ];
+    expect(databaseService.query).toHaveBeenNthCalledWith(
+      1,
+      `SELECT COUNT(*) AS total FROM tenants${where}`,
+      params,
+    );
+    expect(databaseService.query).toHaveBeenNthCalledWith(
+      2,
+      `SELECT * FROM tenants${where} ORDER BY created_at DESC LIMIT ? OFFSET ?`,
+      [...params, 2, 2],
+    );
+    expect(result).toMatchObject({ total: 5, page: 2, size: 2, hasNext: true });
+    expect(result.tenants).toHaveLength(2);
+  });
+
+  it('包含已删除租户时不应该添加状态排除条件', async () => {
+    databaseService.query.mockResolvedValueOnce([{ total: 0 }]);
+
+    await repository.findMany({ includeDeleted: true });
+
+    expect(databaseService.query).toHaveBeenNthCalledWith(
+      1,
+      'SELECT COUNT(*) AS total FROM tenants',
+      [],
+    );
+  });
+
+  it('软删除应该更新状态列并记录删除者', async () => {
+    const row = createRow();
+    databaseService.query.mockResolvedValueOnce([row]);
+
+    expect(
+      await repository.delete(EntityId.fromString(row.id), 'admin', '注销'),
+    ).toBe(true);
+
+    const [sql, params] = databaseService.execute.mock.calls[0];
+    expect(sql).toMatch(/^UPDATE tenants SET name = \?, .* WHERE id = \?$/);
+    expect(params).toContain(TenantStatus.DELETED);
+    expect(params).toContain('admin');
+    expect(params[params.length - 1]).toBe(row.id);
+    expect(eventPublisher.publishAll.mock.calls[0][0][0]).toMatchObject({
+      oldStatus: TenantStatus.ACTIVE,
+      newStatus: TenantStatus.DELETED,
+    });
+  });
+
+  it('更新不存在的记录应该失败且不发布事件', async () => {
+    databaseService.query.mockResolvedValueOnce([createRow()]);
+    databaseService.execute.mockResolvedValueOnce({
+      affectedRows: 0,
+      executionTime: 1,
+      success: true,
+    });
+    const tenant = (await repository.findByCode('alpha'))!;
+    tenant.suspend('违规');
+
+    await expect(repository.update(tenant)).rejects.toThrow('不存在');
+    expect(eventPublisher.publishAll).not.toHaveBeenCalled();
+  });
+
+  it('应该汇总分组统计', async () => {
+    databaseService.query.mockResolvedValueOnce([
+      {
+        status: TenantStatus.ACTIVE,
+        type: TenantType.BASIC,
+        isolation_strategy: IsolationStrategy.ROW_LEVEL_SECURITY,
+        count: '2',
+      },
+      {
+        status: TenantStatus.TRIAL,
+        type: TenantType.FREE,
+        isolation_strategy: IsolationStrategy.ROW_LEVEL_SECURITY,
+        count: 3,
+      },
+    ]);
+
+    const statistics = await repository.getStatistics();
+
+    expect(statistics.total).toBe(5);
+    expect(statistics.byStatus[TenantStatus.TRIAL]).toBe(3);
+    expect(
+      statistics.byIsolationStrategy[IsolationStrategy.ROW_LEVEL_SECURITY],
+    ).toBe(5);
+    expect(statistics.byType[TenantType.ENTERPRISE]).toBe(0);
+  });
+});
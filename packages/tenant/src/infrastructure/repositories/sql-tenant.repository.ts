@@ -0,0 +1,493 @@
+/**
+ * SQL租户仓储
+ *
+ * @description 基于数据库模块IDatabaseService的ITenantRepository实现
+ *
+ * ## 业务规则
+ *
+ * ### 表结构规则
+ * - 默认表名为 tenants，可通过 tableName 选项修改
+ * - 配置以JSON文本保存在 configuration 列
+ * - 生命周期时间分别保存在 trial_ends_at、expired_at、suspended_at、
+ *   scheduled_suspension_at/scheduled_suspension_reason 和 deleted_at 列
+ * - created_at 和 updated_at 由仓储在写入时设置
+ * - 代码和域名的唯一性由数据库唯一约束保证
+ *
+ * ### 查询规则
+ * - 所有参数使用 ? 占位符传递，排序字段按白名单映射到列名
+ * - findMany 默认排除已删除的租户，includeDeleted 为 true 时包含
+ * - 未指定分页时返回全部结果，未指定排序时按 created_at 升序
+ *
+ * ### 事件规则
+ * - 从数据库重建的租户不带领域事件
+ * - save、update、delete、restore 和 batchUpdateStatus 写入成功后发布聚合根未提交的领域事件
+ *
+ * @example
+ * ```typescript
+ * const repository = new SqlTenantRepository(databaseService, {
+ *   eventPublisher: eventBus,
+ * });
+ * const service = new TenantService(repository);
+ * ```
+ *
+ * @since 1.0.0
+ */
+
+import { EntityId } from '@aiofix/core';
+import type { IDatabaseService } from '@aiofix/database';
+import {
+  Tenant,
+  TenantStatus,
+  TenantType,
+  IsolationStrategy,
+} from '../../domain/entities/tenant.entity';
+import type { ITenantLifecycle } from '../../domain/entities/tenant.entity';
+import type {
+  ITenantRepository,
+  ITenantQueryOptions,
+  ITenantQueryResult,
+} from '../../domain/repositories/tenant.repository.interface';
+import {
+  DAY_MS,
+  createEmptyTenantStatistics,
+  publishTenantEvents,
+} from './tenant-repository.support';
+import type {
+  ITenantRepositoryOptions,
+  ITenantStatistics,
+} from './tenant-repository.support';
+
+/**
+ * SQL租户仓储选项
+ */
+export interface ISqlTenantRepositoryOptions extends ITenantRepositoryOptions {
+  /** 表名，默认 tenants */
+  tableName?: string;
+}
+
+/**
+ * 租户表记录
+ */
+export interface ITenantRow {
+  id: string;
+  code: string;
+  name: string;
+  domain: string;
+  type: TenantType;
+  isolation_strategy: IsolationStrategy;
+  status: TenantStatus;
+  configuration: string | null;
+  trial_ends_at: Date | string | null;
+  expired_at: Date | string | null;
+  suspended_at: Date | string | null;
+  scheduled_suspension_at: Date | string | null;
+  scheduled_suspension_reason: string | null;
+  deleted_at: Date | string | null;
+  created_by: string;
+  updated_by: string;
+  created_at: Date | string;
+  updated_at: Date | string;
+  version: number;
+}
+
+/**
+ * 排序字段到列名的映射
+ */
+const SORT_COLUMNS: Record<
+  NonNullable<ITenantQueryOptions['sort']>['field'],
+  string
+> = {
+  code: 'code',
+  name: 'name',
+  createdAt: 'created_at',
+  updatedAt: 'updated_at',
+};
+
+/**
+ * SQL租户仓储
+ */
+export class SqlTenantRepository implements ITenantRepository {
+  private readonly tableName: string;
+
+  constructor(
+    private readonly databaseService: IDatabaseService,
+    private readonly options: ISqlTenantRepositoryOptions = {},
+  ) {
+    this.tableName = options.tableName ?? 'tenants';
+  }
+
+  async save(tenant: Tenant): Promise<Tenant> {
+    const now = new Date();
+    const values: Record<string, unknown> = {
+      id: tenant.id.toString(),
+      code: tenant.code,
+      type: tenant.type,
+      isolation_strategy: tenant.isolationStrategy,
+      ...this.toMutableValues(tenant),
+      created_by: tenant.createdBy,
+      updated_by: tenant.updatedBy,
+      created_at: now,
+      updated_at: now,
+      version: tenant.version,
+    };
+    const columns = Object.keys(values);
+
+    await this.databaseService.execute(
+      `INSERT INTO ${this.tableName} (${columns.join(', ')}) VALUES (${columns
+        .map(() => '?')
+        .join(', ')})`,
+      Object.values(values),
+    );
+
+    await publishTenantEvents(tenant, this.options.eventPublisher);
+    return tenant;
+  }
+
+  async findById(id: EntityId): Promise<Tenant | null> {
+    return this.findOne('id = ?', [id.toString()]);
+  }
+
+  async findByCode(code: string): Promise<Tenant | null> {
+    return this.findOne('code = ?', [code]);
+  }
+
+  async findByDomain(domain: string): Promise<Tenant | null> {
+    return this.findOne('domain = ?', [domain]);
+  }
+
+  async findMany(options: ITenantQueryOptions): Promise<ITenantQueryResult> {
+    const { where, params } = this.buildWhere(options);
+
+    const [{ total }] = await this.databaseService.query<{
+      total: number | string;
+    }>(`SELECT COUNT(*) AS total FROM ${this.tableName}${where}`, params);
+    const count = Number(total);
+
+    const orderColumn = options.sort
+      ? SORT_COLUMNS[options.sort.field]
+      : 'created_at';
+    const orderDirection = options.sort?.order === 'desc' ? 'DESC' : 'ASC';
+    let sql = `SELECT * FROM ${this.tableName}${where} ORDER BY ${orderColumn} ${orderDirection}`;
+    const queryParams = [...params];
+
+    if (options.pagination) {
+      const { page, size } = options.pagination;
+      sql += ' LIMIT ? OFFSET ?';
+      queryParams.push(size, (page - 1) * size);
+    }
+
+    const rows = await this.databaseService.query<ITenantRow>(sql, queryParams);
+    const tenants = rows.map((row) => this.toTenant(row));
+
+    if (!options.pagination) {
+      return { tenants, total: count, page: 1, size: count, hasNext: false };
+    }
+
+    const { page, size } = options.pagination;
+    return {
+      tenants,
+      total: count,
+      page,
+      size,
+      hasNext: page * size < count,
+    };
+  }
+
+  async findActiveTenants(): Promise<Tenant[]> {
+    return this.findByStatus(TenantStatus.ACTIVE);
+  }
+
+  async findTrialTenants(): Promise<Tenant[]> {
+    return this.findByStatus(TenantStatus.TRIAL);
+  }
+
+  async findExpiredTenants(): Promise<Tenant[]> {
+    return this.findByStatus(TenantStatus.EXPIRED);
+  }
+
+  async existsByCode(code: string): Promise<boolean> {
+    return this.exists('code = ?', [code]);
+  }
+
+  async existsByDomain(domain: string): Promise<boolean> {
+    return this.exists('domain = ?', [domain]);
+  }
+
+  async update(tenant: Tenant): Promise<Tenant> {
+    await this.persist(tenant, tenant.updatedBy);
+    return tenant;
+  }
+
+  async delete(
+    id: EntityId,
+    deletedBy: string,
+    reason: string,
+  ): Promise<boolean> {
+    const tenant = await this.findById(id);
+    if (!tenant) {
+      return false;
+    }
+
+    tenant.markDeleted(reason);
+    await this.persist(tenant, deletedBy);
+    return true;
+  }
+
+  async hardDelete(id: EntityId): Promise<boolean> {
+    const result = await this.databaseService.execute(
+      `DELETE FROM ${this.tableName} WHERE id = ?`,
+      [id.toString()],
+    );
+    return result.affectedRows > 0;
+  }
+
+  async restore(id: EntityId, restoredBy: string): Promise<Tenant | null> {
+    const tenant = await this.findById(id);
+    if (!tenant || tenant.status !== TenantStatus.DELETED) {
+      return null;
+    }
+
+    tenant.restore('租户恢复');
+    await this.persist(tenant, restoredBy);
+    return tenant;
+  }
+
+  async getStatistics(): Promise<ITenantStatistics> {
+    const rows = await this.databaseService.query<{
+      status: TenantStatus;
+      type: TenantType;
+      isolation_strategy: IsolationStrategy;
+      count: number | string;
+    }>(
+      `SELECT status, type, isolation_strategy, COUNT(*) AS count FROM ${this.tableName} GROUP BY status, type, isolation_strategy`,
+    );
+
+    const statistics = createEmptyTenantStatistics();
+    for (const row of rows) {
+      const count = Number(row.count);
+      statistics.total += count;
+      statistics.byStatus[row.status] += count;
+      statistics.byType[row.type] += count;
+      statistics.byIsolationStrategy[row.isolation_strategy] += count;
+    }
+    return statistics;
+  }
+
+  async batchUpdateStatus(
+    ids: EntityId[],
+    status: TenantStatus,
+    updatedBy: string,
+    reason: string,
+  ): Promise<number> {
+    let updatedCount = 0;
+
+    for (const id of ids) {
+      const tenant = await this.findById(id);
+      if (!tenant || tenant.status === status) {
+        continue;
+      }
+      try {
+        tenant.changeStatus(status, reason);
+      } catch {
+        // 不允许的状态转换跳过
+        continue;
+      }
+      await this.persist(tenant, updatedBy);
+      updatedCount++;
+    }
+
+    return updatedCount;
+  }
+
+  /**
+   * 软删除过期超过指定天数的租户
+   */
+  async cleanupExpiredTrials(daysExpired: number): Promise<number> {
+    const tenants = await this.findWhere('status = ? AND expired_at <= ?', [
+      TenantStatus.EXPIRED,
+      new Date(Date.now() - daysExpired * DAY_MS),
+    ]);
+
+    for (const tenant of tenants) {
+      tenant.markDeleted(`过期超过${daysExpired}天`);
+      await this.persist(tenant, 'system');
+    }
+    return tenants.length;
+  }
+
+  // ==================== 私有方法 ====================
+
+  /**
+   * 写入租户的可变列并发布领域事件
+   */
+  private async persist(tenant: Tenant, updatedBy: string): Promise<void> {
+    const values: Record<string, unknown> = {
+      ...this.toMutableValues(tenant),
+      updated_by: updatedBy,
+      updated_at: new Date(),
+    };
+
+    const result = await this.databaseService.execute(
+      `UPDATE ${this.tableName} SET ${Object.keys(values)
+        .map((column) => `${column} = ?`)
+        .join(', ')} WHERE id = ?`,
+      [...Object.values(values), tenant.id.toString()],
+    );
+    if (result.affectedRows === 0) {
+      throw new Error(`租户 ${tenant.id.toString()} 不存在`);
+    }
+
+    await publishTenantEvents(tenant, this.options.eventPublisher);
+  }
+
+  /**
+   * 提取可变列的值
+   */
+  private toMutableValues(tenant: Tenant): Record<string, unknown> {
+    const { lifecycle } = tenant;
+    return {
+      name: tenant.name,
+      domain: tenant.domain,
+      status: tenant.status,
+      configuration: JSON.stringify(tenant.configuration),
+      trial_ends_at: lifecycle.trialEndsAt ?? null,
+      expired_at: lifecycle.expiredAt ?? null,
+      suspended_at: lifecycle.suspendedAt ?? null,
+      scheduled_suspension_at: lifecycle.scheduledSuspension?.at ?? null,
+      scheduled_suspension_reason:
+        lifecycle.scheduledSuspension?.reason ?? null,
+      deleted_at: lifecycle.deletedAt ?? null,
+    };
+  }
+
+  /**
+   * 从表记录重建租户
+   */
+  private toTenant(row: ITenantRow): Tenant {
+    const lifecycle: ITenantLifecycle = {
+      trialEndsAt: toDate(row.trial_ends_at),
+      expiredAt: toDate(row.expired_at),
+      suspendedAt: toDate(row.suspended_at),
+      scheduledSuspension: row.scheduled_suspension_at
+        ? {
+            at: toDate(row.scheduled_suspension_at)!,
+            reason: row.scheduled_suspension_reason ?? '',
+          }
+        : undefined,
+      deletedAt: toDate(row.deleted_at),
+    };
+
+    const tenant = new Tenant(
+      EntityId.fromString(row.id),
+      row.code,
+      row.name,
+      row.domain,
+      row.type,
+      row.isolation_strategy,
+      row.status,
+      row.configuration ? JSON.parse(row.configuration) : {},
+      {
+        createdBy: row.created_by,
+        updatedBy: row.updated_by,
+        tenantId: 'system',
+        version: row.version,
+      },
+      lifecycle,
+    );
+    // 重建不是新的业务事实，丢弃构造时产生的创建事件
+    tenant.clearDomainEvents();
+    return tenant;
+  }
+
+  /**
+   * 构建查询条件
+   */
+  private buildWhere(options: ITenantQueryOptions): {
+    where: string;
+    params: unknown[];
+  } {
+    const clauses: string[] = [];
+    const params: unknown[] = [];
+
+    const addIn = (column: string, values?: readonly unknown[]): void => {
+      if (values?.length) {
+        clauses.push(`${column} IN (${values.map(() => '?').join(', ')})`);
+        params.push(...values);
+      }
+    };
+
+    if (!options.includeDeleted) {
+      clauses.push('status <> ?');
+      params.push(TenantStatus.DELETED);
+    }
+    addIn('status', options.status);
+    addIn('type', options.type);
+    addIn('isolation_strategy', options.isolationStrategy);
+    if (options.createdAt?.from) {
+      clauses.push('created_at >= ?');
+      params.push(options.createdAt.from);
+    }
+    if (options.createdAt?.to) {
+      clauses.push('created_at <= ?');
+      params.push(options.createdAt.to);
+    }
+
+    return {
+      where: clauses.length ? ` WHERE ${clauses.join(' AND ')}` : '',
+      params,
+    };
+  }
+
+  /**
+   * 按条件查询租户
+   */
+  private async findWhere(
+    condition: string,
+    params: unknown[],
+  ): Promise<Tenant[]> {
+    const rows = await this.databaseService.query<ITenantRow>(
+      `SELECT * FROM ${this.tableName} WHERE ${condition}`,
+      params,
+    );
+    return rows.map((row) => this.toTenant(row));
+  }
+
+  /**
+   * 按条件查询单个租户
+   */
+  private async findOne(
+    condition: string,
+    params: unknown[],
+  ): Promise<Tenant | null> {
+    const [tenant] = await this.findWhere(condition, params);
+    return tenant ?? null;
+  }
+
+  /**
+   * 按状态查询租户
+   */
+  private findByStatus(status: TenantStatus): Promise<Tenant[]> {
+    return this.findWhere('status = ?', [status]);
+  }
+
+  /**
+   * 检查是否存在满足条件的租户
+   */
+  private async exists(condition: string, params: unknown[]): Promise<boolean> {
+    const rows = await this.databaseService.query(
+      `SELECT 1 FROM ${this.tableName} WHERE ${condition} LIMIT 1`,
+      params,
+    );
+    return rows.length > 0;
+  }
+}
+
+/**
+ * 把数据库返回的时间值转换为Date
+ */
+function toDate(value: Date | string | null | undefined): Date | undefined {
+  if (value === null || value === undefined) {
+    return undefined;
+  }
+  return value instanceof Date ? value : new Date(value);
+}
@@ -0,0 +1,77 @@
+/**
+ * 租户仓储实现的公共部分
+ *
+ * @description 内存仓储和SQL仓储共用的选项、事件分发和统计初始化
+ *
+ * @since 1.0.0
+ */
+
+import type { IEventBus } from '@aiofix/core';
+import {
+  Tenant,
+  TenantType,
+  TenantStatus,
+  IsolationStrategy,
+} from '../../domain/entities/tenant.entity';
+
+/**
+ * 租户领域事件发布者
+ *
+ * @description 与core的IEventBus.publishAll签名一致
+ */
+export type TenantEventPublisher = Pick<IEventBus, 'publishAll'>;
+
+/**
+ * 租户仓储选项
+ */
+export interface ITenantRepositoryOptions {
+  /** 保存后发布领域事件，未提供时事件保留在聚合根上 */
+  eventPublisher?: TenantEventPublisher;
+}
+
+/**
+ * 租户统计信息
+ */
+export interface ITenantStatistics {
+  total: number;
+  byStatus: Record<TenantStatus, number>;
+  byType: Record<TenantType, number>;
+  byIsolationStrategy: Record<IsolationStrategy, number>;
+}
+
+/**
+ * 一天的毫秒数
+ */
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 发布租户未提交的领域事件
+ *
+ * @description 发布成功后清除未提交事件；发布失败时保留事件并抛出错误
+ */
+export async function publishTenantEvents(
+  tenant: Tenant,
+  publisher: TenantEventPublisher | undefined,
+): Promise<void> {
+  if (!publisher || !tenant.hasUncommittedEvents()) {
+    return;
+  }
+
+  await publisher.publishAll([...tenant.uncommittedEvents]);
+  tenant.clearUncommittedEvents();
+}
+
+/**
+ * 创建计数全为0的统计信息
+ */
+export function createEmptyTenantStatistics(): ITenantStatistics {
+  const zeros = <E extends string>(values: E[]): Record<E, number> =>
+    Object.fromEntries(values.map((value) => [value, 0])) as Record<E, number>;
+
+  return {
+    total: 0,
+    byStatus: zeros(Object.values(TenantStatus)),
+    byType: zeros(Object.values(TenantType)),
+    byIsolationStrategy: zeros(Object.values(IsolationStrategy)),
+  };
+}
@@ -0,0 +1,112 @@
+/**
+ * 内存租户用量存储
+ *
+ * @description ITenantUsageStore的内存实现，用量只在当前进程内有效
+ *
+ * ## 业务规则
+ *
+ * ### 存储规则
+ * - 每个租户和资源一条计数记录
+ * - 窗口计数记录保存窗口开始时间，读取或累加时发现窗口已结束则重置
+ * - 单线程内检查和累加同步完成，tryConsume 天然原子
+ *
+ * @example
+ * ```typescript
+ * const store = new InMemoryTenantUsageStore();
+ * const service = new TenantQuotaService(repository, policy, store);
+ * ```
+ *
+ * @since 1.0.0
+ */
+
+import type { TenantQuotaResource } from '../../domain/policies/tenant-quota.policy';
+import type {
+  ITenantUsageStore,
+  ITenantUsageConsumeResult,
+} from '../../domain/repositories/tenant-usage.store.interface';
+
+/**
+ * 用量计数记录
+ */
+interface IUsageCounter {
+  value: number;
+  windowStart: number;
+}
+
+/**
+ * 内存租户用量存储
+ */
+export class InMemoryTenantUsageStore implements ITenantUsageStore {
+  private readonly counters = new Map<string, IUsageCounter>();
+
+  constructor(private readonly clock: () => number = Date.now) {}
+
+  async get(
+    tenantId: string,
+    resource: TenantQuotaResource,
+    windowMs?: number,
+  ): Promise<number> {
+    return this.getCounter(tenantId, resource, windowMs).value;
+  }
+
+  async tryConsume(
+    tenantId: string,
+    resource: TenantQuotaResource,
+    amount: number,
+    limit: number,
+    windowMs?: number,
+  ): Promise<ITenantUsageConsumeResult> {
+    const counter = this.getCounter(tenantId, resource, windowMs);
+    if (counter.value + amount > limit) {
+      return { allowed: false, usage: counter.value };
+    }
+
+    counter.value += amount;
+    return { allowed: true, usage: counter.value };
+  }
+
+  async release(
+    tenantId: string,
+    resource: TenantQuotaResource,
+    amount: number,
+  ): Promise<number> {
+    const counter = this.getCounter(tenantId, resource);
+    counter.value = Math.max(0, counter.value - amount);
+    return counter.value;
+  }
+
+  async set(
+    tenantId: string,
+    resource: TenantQuotaResource,
+    value: number,
+  ): Promise<void> {
+    this.getCounter(tenantId, resource).value = Math.max(0, value);
+  }
+
+  // ==================== 私有方法 ====================
+
+  /**
+   * 获取计数记录，窗口结束时重置
+   */
+  private getCounter(
+    tenantId: string,
+    resource: TenantQuotaResource,
+    windowMs?: number,
+  ): IUsageCounter {
+    const key = `${tenantId}:${resource}`;
+    const now = this.clock();
+    let counter = this.counters.get(key);
+
+    if (!counter) {
+      counter = { value: 0, windowStart: now };
+      this.counters.set(key, counter);
+    } else if (
+      windowMs !== undefined &&
+      now - counter.windowStart >= windowMs
+    ) {
+      counter.value = 0;
+      counter.windowStart = now;
+    }
+    return counter;
+  }
+}